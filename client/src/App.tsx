@@ -27,6 +27,7 @@ import Marketing from "@/pages/marketing";
 import SentimentAnalytics from "@/pages/sentiment-analytics";
 import AIAssistant from "@/pages/ai-assistant";
 import Settings from "@/pages/settings";
+import Compliance from "@/pages/compliance";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -56,6 +57,7 @@ function Router() {
             <Route path="/marketing" component={Marketing} />
             <Route path="/sentiment-analytics" component={SentimentAnalytics} />
             <Route path="/ai-assistant" component={AIAssistant} />
+            <Route path="/compliance" component={Compliance} />
             <Route path="/settings" component={Settings} />
           </>
         )}
@@ -53,14 +53,16 @@ export default function AIChatModal({ isOpen, onClose }: AIChatModalProps) {
     }
   ]);
   const [inputValue, setInputValue] = useState("");
+  const [sessionId, setSessionId] = useState<string | undefined>();
   const { toast } = useToast();
 
   const chatMutation = useMutation({
     mutationFn: async (query: string) => {
-      const response = await apiRequest("POST", "/api/ai/chat", { query });
+      const response = await apiRequest("POST", "/api/ai/chat", { query, sessionId });
       return await response.json();
     },
     onSuccess: (data) => {
+      if (data.sessionId) setSessionId(data.sessionId);
       const assistantMessage: ChatMessage = {
         id: Date.now().toString(),
         content: data.response || "I'm sorry, I couldn't process your request.",
@@ -51,7 +51,7 @@ export default function ExpiryAlertsTable() {
           <div className="flex items-center justify-between">
             <h3 className="text-lg font-semibold text-foreground flex items-center">
               <AlertTriangle className="text-orange-500 mr-2" />
-              Expiry Alerts (90 Day Window)
+              Expiry Alerts
             </h3>
           </div>
         </CardHeader>
@@ -71,7 +71,7 @@ export default function ExpiryAlertsTable() {
         <div className="flex items-center justify-between">
           <h3 className="text-lg font-semibold text-foreground flex items-center">
             <AlertTriangle className="text-orange-500 mr-2 w-5 h-5" />
-            Expiry Alerts (90 Day Window)
+            Expiry Alerts
           </h3>
           <Button 
             variant="link" 
@@ -170,7 +170,7 @@ export default function ExpiryAlertsTable() {
                   <td colSpan={6} className="px-6 py-8 text-center">
                     <div className="flex flex-col items-center justify-center">
                       <Package className="w-12 h-12 text-muted-foreground/40 mb-2" />
-                      <p className="text-muted-foreground">No products expiring in the next 90 days</p>
+                      <p className="text-muted-foreground">No products expiring within the warning window</p>
                       <p className="text-sm text-muted-foreground/70">All inventory is within safe expiry ranges</p>
                     </div>
                   </td>
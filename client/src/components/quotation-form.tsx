@@ -21,7 +21,7 @@ import { CurrencySelector, CurrencyDisplay, CurrencyInput } from "@/components/u
 import { cn } from "@/lib/utils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { insertQuotationSchema, type Customer, type Product, type User as UserType, type Quotation } from "@shared/schema";
+import { insertQuotationSchema, type Customer, type Product, type User as UserType, type Quotation, type AvailableToPromise, type TaxCode } from "@shared/schema";
 import { 
   CurrencyService, 
   formatCurrency, 
@@ -40,7 +40,8 @@ const quotationFormSchema = insertQuotationSchema.extend({
     quantity: z.number().int().min(1, "Quantity must be at least 1 unit - please enter a positive whole number").max(999999, "Quantity cannot exceed 999,999 units - please contact admin for larger orders"),
     unitPrice: z.number().min(0, "Unit price cannot be negative - please enter a valid price (0 or higher)").max(999999.99, "Unit price too high - maximum is 999,999.99 per unit"),
     discount: z.number().min(0, "Discount cannot be negative - enter 0 for no discount").max(100, "Discount cannot exceed 100% - maximum discount is 100%"),
-    tax: z.number().min(0, "Tax rate cannot be negative - enter 0 for tax-exempt items").max(100, "Tax rate cannot exceed 100% - please verify the correct tax percentage"),
+    // Empty means the server picks the product's, category's or default IVA code
+    taxCodeId: z.string(),
   })).min(1, "Please add at least one item to the quotation - quotations cannot be empty")
 });
 
@@ -59,9 +60,18 @@ interface QuotationItemWithProduct {
   unitPrice: string;
   discount: string;
   tax: string;
+  taxCodeId: string | null;
   product?: Product;
 }
 
+function AvailabilityHint({ available, quantity, testId }: { available: number; quantity: number; testId: string }) {
+  return (
+    <p className={cn("text-form-hint mt-1", quantity > available ? "text-amber-600" : "text-muted-foreground")} data-testid={testId}>
+      {available.toLocaleString()} available to promise
+    </p>
+  );
+}
+
 export default function QuotationForm({ quotation, isOpen, onClose, onSuccess }: QuotationFormProps) {
   const { toast } = useToast();
   const [selectedCurrency, setSelectedCurrency] = useState<CurrencyCode>(getUserPreferredCurrency());
@@ -77,6 +87,19 @@ export default function QuotationForm({ quotation, isOpen, onClose, onSuccess }:
     queryKey: ["/api/products"],
   });
 
+  // Stock not yet reserved for confirmed orders, to warn before quoting more than can be delivered
+  const { data: availability } = useQuery<AvailableToPromise[]>({
+    queryKey: ["/api/inventory/available-to-promise"],
+    enabled: isOpen,
+  });
+  const availableByProduct = new Map((availability ?? []).map(a => [a.productId, a.available]));
+
+  const { data: taxCodes } = useQuery<TaxCode[]>({
+    queryKey: ["/api/tax/codes"],
+    enabled: isOpen,
+  });
+  const taxCodeById = new Map((taxCodes ?? []).map(code => [code.id, code]));
+
   const { data: salesReps } = useQuery<UserType[]>({
     queryKey: ["/api/users", { role: "sales" }],
   });
@@ -114,15 +137,6 @@ export default function QuotationForm({ quotation, isOpen, onClose, onSuccess }:
     name: "items"
   });
 
-  // Generate quotation number
-  useEffect(() => {
-    if (!quotation && isOpen) {
-      const now = new Date();
-      const quotationNumber = `QUO-${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}-${String(Date.now()).slice(-4)}`;
-      form.setValue("quotationNumber", quotationNumber);
-    }
-  }, [isOpen, quotation, form]);
-
   // Fetch FX rate when currency changes
   useEffect(() => {
     if (selectedCurrency !== baseCurrency) {
@@ -161,7 +175,7 @@ export default function QuotationForm({ quotation, isOpen, onClose, onSuccess }:
         quantity: item.quantity,
         unitPrice: parseFloat(item.unitPrice || '0'),
         discount: parseFloat(item.discount || '0'),
-        tax: parseFloat(item.tax || '0'),
+        taxCodeId: item.taxCodeId || "",
       })) || [];
 
       form.reset({
@@ -204,15 +218,14 @@ export default function QuotationForm({ quotation, isOpen, onClose, onSuccess }:
       // Then add items
       if (items && items.length > 0) {
         for (const item of items) {
-          const lineTotal = item.quantity * item.unitPrice * (1 - item.discount / 100) * (1 + item.tax / 100);
+          // The server works out the line's IVA and total from its tax code
           await apiRequest("POST", `/api/crm/quotations/${createdQuotation.id}/items`, {
             quotationId: createdQuotation.id,
             productId: item.productId,
             quantity: item.quantity,
             unitPrice: item.unitPrice.toString(),
-            lineTotal: lineTotal.toString(),
             discount: item.discount.toString(),
-            tax: item.tax.toString(),
+            taxCodeId: item.taxCodeId || null,
           });
         }
       }
@@ -283,15 +296,14 @@ export default function QuotationForm({ quotation, isOpen, onClose, onSuccess }:
       // Add new items
       if (items && items.length > 0) {
         for (const item of items) {
-          const lineTotal = item.quantity * item.unitPrice * (1 - item.discount / 100) * (1 + item.tax / 100);
+          // The server works out the line's IVA and total from its tax code
           await apiRequest("POST", `/api/crm/quotations/${quotation?.id}/items`, {
             quotationId: quotation?.id,
             productId: item.productId,
             quantity: item.quantity,
             unitPrice: item.unitPrice.toString(),
-            lineTotal: lineTotal.toString(),
             discount: item.discount.toString(),
-            tax: item.tax.toString(),
+            taxCodeId: item.taxCodeId || null,
           });
         }
       }
@@ -344,10 +356,25 @@ export default function QuotationForm({ quotation, isOpen, onClose, onSuccess }:
       quantity: 1,
       unitPrice: 0,
       discount: 0,
-      tax: 0,
+      taxCodeId: "",
     });
   };
 
+  // Default a line's tax code to what the product and customer resolve to
+  const handleProductChange = async (index: number, productId: string) => {
+    form.setValue(`items.${index}.productId`, productId);
+    try {
+      const params = new URLSearchParams({ productIds: productId, date: form.getValues("quotationDate") });
+      const customerId = form.getValues("customerId");
+      if (customerId) params.set("customerId", customerId);
+      const response = await apiRequest("GET", `/api/tax/resolve?${params}`);
+      const [resolved] = await response.json();
+      if (resolved) form.setValue(`items.${index}.taxCodeId`, resolved.taxCode.id);
+    } catch (error) {
+      console.warn('Failed to resolve tax code:', error);
+    }
+  };
+
   const calculateTotals = () => {
     const items = form.getValues("items");
     let subtotal = 0;
@@ -358,7 +385,7 @@ export default function QuotationForm({ quotation, isOpen, onClose, onSuccess }:
       const lineSubtotal = item.quantity * item.unitPrice;
       const discountAmount = lineSubtotal * (item.discount / 100);
       const afterDiscount = lineSubtotal - discountAmount;
-      const taxAmount = afterDiscount * (item.tax / 100);
+      const taxAmount = afterDiscount * (Number(taxCodeById.get(item.taxCodeId)?.rate ?? 0) / 100);
       
       subtotal += lineSubtotal;
       totalDiscount += discountAmount;
@@ -438,12 +465,12 @@ export default function QuotationForm({ quotation, isOpen, onClose, onSuccess }:
                           <FormItem>
                             <FormLabel>Quotation Number</FormLabel>
                             <FormControl>
-                              <Input {...field} placeholder="e.g., QUO-2025-001" data-testid="input-quotation-number" />
+                              <Input {...field} placeholder="Assigned automatically" data-testid="input-quotation-number" />
                             </FormControl>
                             <FormHint type="info" show={!!field.value && requirements.every(req => req.satisfied)}>
                               Perfect! This quotation number meets all requirements and is ready to use.
                             </FormHint>
-                            <FormRequirements requirements={requirements} />
+                            {quotationValue && <FormRequirements requirements={requirements} />}
                             <FormMessage />
                           </FormItem>
                         );
@@ -699,7 +726,7 @@ export default function QuotationForm({ quotation, isOpen, onClose, onSuccess }:
                               <Label>Product *</Label>
                               <Select
                                 value={form.watch(`items.${index}.productId`)}
-                                onValueChange={(value) => form.setValue(`items.${index}.productId`, value)}
+                                onValueChange={(value) => handleProductChange(index, value)}
                               >
                                 <SelectTrigger data-testid={`select-product-${index}`}>
                                   <SelectValue placeholder="Select product" />
@@ -722,6 +749,13 @@ export default function QuotationForm({ quotation, isOpen, onClose, onSuccess }:
                                 {...form.register(`items.${index}.quantity`, { valueAsNumber: true })}
                                 data-testid={`input-quantity-${index}`}
                               />
+                              {availability && form.watch(`items.${index}.productId`) && (
+                                <AvailabilityHint
+                                  available={availableByProduct.get(form.watch(`items.${index}.productId`)) ?? 0}
+                                  quantity={form.watch(`items.${index}.quantity`) || 0}
+                                  testId={`text-available-${index}`}
+                                />
+                              )}
                             </div>
 
                             <div>
@@ -749,15 +783,22 @@ export default function QuotationForm({ quotation, isOpen, onClose, onSuccess }:
 
                             <div className="flex items-end gap-2">
                               <div className="flex-1">
-                                <Label>Tax %</Label>
-                                <Input
-                                  type="number"
-                                  step="0.01"
-                                  min="0"
-                                  max="100"
-                                  {...form.register(`items.${index}.tax`, { valueAsNumber: true })}
-                                  data-testid={`input-tax-${index}`}
-                                />
+                                <Label>IVA</Label>
+                                <Select
+                                  value={form.watch(`items.${index}.taxCodeId`)}
+                                  onValueChange={(value) => form.setValue(`items.${index}.taxCodeId`, value)}
+                                >
+                                  <SelectTrigger data-testid={`select-tax-code-${index}`}>
+                                    <SelectValue placeholder="Default" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {taxCodes?.filter(code => code.isActive).map((code) => (
+                                      <SelectItem key={code.id} value={code.id}>
+                                        {code.code} ({parseFloat(code.rate)}%)
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
                               </div>
                               <Button
                                 type="button"
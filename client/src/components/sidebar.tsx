@@ -20,7 +20,8 @@ import {
   Receipt,
   DollarSign,
   Brain,
-  GitBranch
+  GitBranch,
+  ShieldCheck
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import type { User } from "@shared/schema";
@@ -132,6 +133,13 @@ const navigation = [
     roles: ['admin', 'marketing'],
     entityColor: 'var(--customer-bg)'
   },
+  {
+    name: "Compliance",
+    href: "/compliance",
+    icon: ShieldCheck,
+    roles: ['admin'],
+    entityColor: 'var(--muted-foreground)'
+  },
   {
     name: "Settings",
     href: "/settings",
@@ -69,6 +69,7 @@ export default function AIAssistant() {
     }
   ]);
   const [inputValue, setInputValue] = useState("");
+  const [sessionId, setSessionId] = useState<string | undefined>();
   const { toast } = useToast();
 
   // Fetch health status to check AI configuration
@@ -82,10 +83,11 @@ export default function AIAssistant() {
   // Chat mutation
   const chatMutation = useMutation({
     mutationFn: async (query: string) => {
-      const response = await apiRequest("POST", "/api/ai/chat", { query });
+      const response = await apiRequest("POST", "/api/ai/chat", { query, sessionId });
       return await response.json();
     },
     onSuccess: (data) => {
+      if (data.sessionId) setSessionId(data.sessionId);
       const assistantMessage: ChatMessage = {
         id: Date.now().toString(),
         content: data.response || "I'm sorry, I couldn't process your request.",
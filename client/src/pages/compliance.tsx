@@ -0,0 +1,1863 @@
+import { useState, useEffect, Fragment } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format, differenceInDays } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import Sidebar from "@/components/sidebar";
+import TopBar from "@/components/topbar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  insertLicenseSchema,
+  insertRecallNoticeSchema,
+  insertRegulatoryReportSchema,
+  auditActionEnum,
+  type License,
+  type RecallNotice,
+  type RecallReturn,
+  type RegulatoryReport,
+  type AuditLog,
+  type Inventory,
+  type Product,
+  type User,
+  type Warehouse,
+} from "@shared/schema";
+import {
+  ShieldCheck,
+  FileBadge,
+  AlertTriangle,
+  ClipboardList,
+  History,
+  Plus,
+  RefreshCw,
+  Play,
+  CheckCircle,
+  Undo2,
+  Send,
+  Eye,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  XCircle,
+} from "lucide-react";
+
+type LicenseWithManager = License & { manager: User };
+type RecallWithProduct = RecallNotice & { product: Product; manager: User };
+type ReportWithPeople = RegulatoryReport & { preparer: User; reviewer?: User; approver?: User };
+type AuditLogWithUser = AuditLog & { user?: User };
+
+interface AuditChainVerification {
+  isValid: boolean;
+  entriesChecked: number;
+  unchainedEntries: number;
+  lastSequenceNumber: number;
+  firstInvalidEntry?: { id: string; sequenceNumber: number; reason: string };
+}
+
+interface RecallTraceability {
+  recall: RecallNotice;
+  batches: Inventory[];
+  recipients: Array<{
+    source: 'sales_order' | 'pos';
+    documentId: string;
+    documentNumber: string;
+    customerId: string | null;
+    customerName: string | null;
+    inventoryId: string;
+    batchNumber: string | null;
+    quantity: number;
+    date: string | null;
+  }>;
+  totalDistributed: number;
+}
+
+const LICENSE_TYPES = [
+  { value: "pharmacy_license", label: "Pharmacy License" },
+  { value: "wholesale_license", label: "Wholesale License" },
+  { value: "import_permit", label: "Import Permit" },
+  { value: "distribution_license", label: "Distribution License" },
+  { value: "controlled_substances_permit", label: "Controlled Substances Permit" },
+];
+
+const REPORT_TYPES = [
+  { value: "monthly_sales", label: "Monthly Sales" },
+  { value: "inventory_summary", label: "Inventory Summary" },
+  { value: "adverse_events", label: "Adverse Events" },
+  { value: "controlled_substances", label: "Controlled Substances" },
+];
+
+const RECALL_COLUMNS: Array<{ status: NonNullable<RecallNotice["status"]>; label: string }> = [
+  { status: "initiated", label: "Announced" },
+  { status: "in_progress", label: "Recovering" },
+  { status: "completed", label: "Completed" },
+  { status: "cancelled", label: "Cancelled" },
+];
+
+const REPORT_STAGES = ["draft", "reviewed", "approved", "submitted"] as const;
+
+type ReportStage = typeof REPORT_STAGES[number] | "accepted" | "rejected";
+
+// Angola's medicines regulator
+const DEFAULT_AUTHORITY = "ARMED";
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const formatDate = (value: string | Date | null | undefined) =>
+  value ? format(new Date(value), "dd MMM yyyy") : "-";
+
+const userName = (user?: User | null) =>
+  user ? [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || user.id : "-";
+
+function getReportStage(report: RegulatoryReport): ReportStage {
+  if (report.status === "submitted" || report.status === "accepted" || report.status === "rejected") {
+    return report.status;
+  }
+  if (report.approvedBy) return "approved";
+  if (report.reviewedBy) return "reviewed";
+  return "draft";
+}
+
+function formatAuditValue(value: unknown): string {
+  if (value === undefined) return "";
+  if (value === null) return "null";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Field-by-field comparison of an audit entry's old and new values
+ */
+function diffAuditValues(oldValues: unknown, newValues: unknown) {
+  const before = (oldValues && typeof oldValues === "object" ? oldValues : {}) as Record<string, unknown>;
+  const after = (newValues && typeof newValues === "object" ? newValues : {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  return fields.map(field => ({
+    field,
+    before: field in before ? formatAuditValue(before[field]) : "",
+    after: field in after ? formatAuditValue(after[field]) : "",
+    changed: formatAuditValue(before[field]) !== formatAuditValue(after[field]),
+  }));
+}
+
+function useMutationErrorHandler() {
+  const { toast } = useToast();
+
+  return (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+
+    toast({
+      title: "Error",
+      description: `${description} ${error.message}`,
+      variant: "destructive",
+    });
+  };
+}
+
+function ExpiryCountdown({ expiryDate, reminderDays }: { expiryDate: string; reminderDays: number | null }) {
+  const days = differenceInDays(new Date(expiryDate), new Date());
+
+  if (days < 0) {
+    return <Badge variant="destructive">Expired {Math.abs(days)} days ago</Badge>;
+  }
+  if (days <= (reminderDays ?? 30)) {
+    return <Badge className="bg-amber-100 text-amber-800">{days} days left</Badge>;
+  }
+  return <Badge variant="secondary" className="bg-green-100 text-green-800">{days} days left</Badge>;
+}
+
+// =============================================================================
+// Licenses
+// =============================================================================
+
+const licenseFormSchema = insertLicenseSchema.omit({ managedBy: true });
+type LicenseFormData = z.infer<typeof licenseFormSchema>;
+
+function LicensesTab() {
+  const { toast } = useToast();
+  const handleError = useMutationErrorHandler();
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [renewing, setRenewing] = useState<LicenseWithManager | null>(null);
+  const [renewal, setRenewal] = useState({ newExpiryDate: "", renewalDate: today() });
+
+  const { data: licenses = [], isLoading } = useQuery<LicenseWithManager[]>({
+    queryKey: ["/api/compliance/licenses"],
+  });
+
+  const form = useForm<LicenseFormData>({
+    resolver: zodResolver(licenseFormSchema),
+    defaultValues: {
+      licenseNumber: "",
+      licenseType: "pharmacy_license",
+      licenseName: "",
+      issuingAuthority: DEFAULT_AUTHORITY,
+      issuedDate: today(),
+      expiryDate: "",
+      reminderDays: 60,
+      notes: "",
+    },
+  });
+
+  const createLicenseMutation = useMutation({
+    mutationFn: async (data: LicenseFormData) => {
+      const response = await apiRequest("POST", "/api/compliance/licenses", data);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance/licenses"] });
+      setIsCreateOpen(false);
+      form.reset();
+      toast({ title: "License Added", description: "The license is now tracked in the register." });
+    },
+    onError: (error) => handleError(error as Error, "Failed to add license."),
+  });
+
+  const renewLicenseMutation = useMutation({
+    mutationFn: async ({ id, ...body }: { id: string; newExpiryDate: string; renewalDate: string }) => {
+      const response = await apiRequest("POST", `/api/compliance/licenses/${id}/renew`, body);
+      return await response.json();
+    },
+    onSuccess: (license: License) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance/licenses"] });
+      setRenewing(null);
+      toast({ title: "License Renewed", description: `${license.licenseNumber} is valid until ${formatDate(license.expiryDate)}.` });
+    },
+    onError: (error) => handleError(error as Error, "Failed to renew license."),
+  });
+
+  const filteredLicenses = licenses.filter(l => statusFilter === "all" || l.status === statusFilter);
+
+  const openRenewal = (license: LicenseWithManager) => {
+    setRenewing(license);
+    setRenewal({ newExpiryDate: "", renewalDate: today() });
+  };
+
+  return (
+    <Card data-testid="card-license-register">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <FileBadge className="mr-2 h-5 w-5" />
+            License Register
+          </CardTitle>
+          <CardDescription>Operating licenses and permits, ordered by expiry</CardDescription>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-44" data-testid="select-license-status-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="pending_renewal">Pending Renewal</SelectItem>
+              <SelectItem value="expired">Expired</SelectItem>
+              <SelectItem value="suspended">Suspended</SelectItem>
+              <SelectItem value="revoked">Revoked</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setIsCreateOpen(true)} data-testid="button-add-license">
+            <Plus className="w-4 h-4 mr-2" />
+            Add License
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center space-x-2 py-8 justify-center">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="text-muted-foreground">Loading licenses...</span>
+          </div>
+        ) : filteredLicenses.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No licenses registered</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>License</TableHead>
+                <TableHead>Authority</TableHead>
+                <TableHead>Expiry</TableHead>
+                <TableHead>Countdown</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Manager</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredLicenses.map(license => (
+                <TableRow key={license.id} data-testid={`row-license-${license.id}`}>
+                  <TableCell>
+                    <div className="font-medium">{license.licenseName}</div>
+                    <div className="text-sm text-muted-foreground font-mono">{license.licenseNumber}</div>
+                  </TableCell>
+                  <TableCell>{license.issuingAuthority}</TableCell>
+                  <TableCell>{formatDate(license.expiryDate)}</TableCell>
+                  <TableCell>
+                    <ExpiryCountdown expiryDate={license.expiryDate} reminderDays={license.reminderDays} />
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{(license.status || "active").replace(/_/g, " ")}</Badge>
+                  </TableCell>
+                  <TableCell>{userName(license.manager)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openRenewal(license)}
+                      disabled={license.status === "revoked"}
+                      data-testid={`button-renew-license-${license.id}`}
+                    >
+                      <RefreshCw className="w-4 h-4 mr-1" />
+                      Renew
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Add License</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createLicenseMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="licenseNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>License Number *</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-license-number" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="licenseType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type *</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-license-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {LICENSE_TYPES.map(type => (
+                            <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="licenseName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name *</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-license-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="issuingAuthority"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Issuing Authority *</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-license-authority" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="issuedDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Issued *</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-license-issued" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="expiryDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expires *</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-license-expiry" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="reminderDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Remind Days Before Expiry</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : null)}
+                          data-testid="input-license-reminder-days"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} value={field.value ?? ""} data-testid="input-license-notes" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={createLicenseMutation.isPending} data-testid="button-save-license">
+                  {createLicenseMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Add License
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!renewing} onOpenChange={(open) => !open && setRenewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Renew {renewing?.licenseNumber}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Current expiry: {formatDate(renewing?.expiryDate)}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="renewal-date">Renewed On</Label>
+              <Input
+                id="renewal-date"
+                type="date"
+                value={renewal.renewalDate}
+                onChange={(e) => setRenewal(prev => ({ ...prev, renewalDate: e.target.value }))}
+                data-testid="input-renewal-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-expiry-date">New Expiry Date</Label>
+              <Input
+                id="new-expiry-date"
+                type="date"
+                value={renewal.newExpiryDate}
+                onChange={(e) => setRenewal(prev => ({ ...prev, newExpiryDate: e.target.value }))}
+                data-testid="input-new-expiry-date"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenewing(null)}>Cancel</Button>
+            <Button
+              onClick={() => renewing && renewLicenseMutation.mutate({ id: renewing.id, ...renewal })}
+              disabled={!renewal.newExpiryDate || renewLicenseMutation.isPending}
+              data-testid="button-confirm-renewal"
+            >
+              {renewLicenseMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Renew License
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+// =============================================================================
+// Recalls
+// =============================================================================
+
+const recallFormSchema = insertRecallNoticeSchema.omit({ managedBy: true, batchNumbers: true }).extend({
+  batchNumbersText: z.string().min(1, "List at least one affected batch"),
+});
+type RecallFormData = z.infer<typeof recallFormSchema>;
+
+function RecallTraceabilityDialog({ recallId, onClose }: { recallId: string | null; onClose: () => void }) {
+  const { data: traceability, isLoading } = useQuery<RecallTraceability>({
+    queryKey: [`/api/compliance/recall-notices/${recallId}/traceability`],
+    enabled: !!recallId,
+  });
+
+  const { data: returns = [] } = useQuery<RecallReturn[]>({
+    queryKey: [`/api/compliance/recall-notices/${recallId}/returns`],
+    enabled: !!recallId,
+  });
+
+  return (
+    <Dialog open={!!recallId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Recall Traceability {traceability && `- ${traceability.recall.recallNumber}`}</DialogTitle>
+        </DialogHeader>
+        {isLoading || !traceability ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h4 className="font-medium mb-2">Customers Supplied ({traceability.totalDistributed} units)</h4>
+              {traceability.recipients.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No sales of the affected batches were found.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Document</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Batch</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead>Date</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {traceability.recipients.map((recipient, index) => (
+                      <TableRow key={`${recipient.documentId}-${recipient.inventoryId}-${index}`}>
+                        <TableCell className="font-mono text-sm">
+                          {recipient.documentNumber}
+                          <Badge variant="outline" className="ml-2">{recipient.source === "pos" ? "POS" : "Order"}</Badge>
+                        </TableCell>
+                        <TableCell>{recipient.customerName || "Walk-in customer"}</TableCell>
+                        <TableCell>{recipient.batchNumber || "-"}</TableCell>
+                        <TableCell className="text-right">{recipient.quantity}</TableCell>
+                        <TableCell>{formatDate(recipient.date)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+            <div>
+              <h4 className="font-medium mb-2">Returns Recorded</h4>
+              {returns.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No units have been returned yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Batch</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead>Notes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {returns.map(recallReturn => (
+                      <TableRow key={recallReturn.id}>
+                        <TableCell>{formatDate(recallReturn.createdAt)}</TableCell>
+                        <TableCell>{recallReturn.batchNumber || "-"}</TableCell>
+                        <TableCell className="text-right">{recallReturn.quantity}</TableCell>
+                        <TableCell>{recallReturn.notes || "-"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RecordRecallReturnDialog({ recall, onClose }: { recall: RecallWithProduct | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const handleError = useMutationErrorHandler();
+  const [returnForm, setReturnForm] = useState({ inventoryId: "", warehouseId: "", quantity: "", notes: "" });
+
+  const { data: traceability } = useQuery<RecallTraceability>({
+    queryKey: [`/api/compliance/recall-notices/${recall?.id}/traceability`],
+    enabled: !!recall,
+  });
+
+  const { data: warehouses = [] } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+    enabled: !!recall,
+  });
+
+  useEffect(() => {
+    setReturnForm({ inventoryId: "", warehouseId: "", quantity: "", notes: "" });
+  }, [recall?.id]);
+
+  const recordReturnMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/compliance/recall-notices/${recall!.id}/returns`, {
+        inventoryId: returnForm.inventoryId,
+        warehouseId: returnForm.warehouseId,
+        quantity: parseInt(returnForm.quantity),
+        notes: returnForm.notes || undefined,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance/recall-notices"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/compliance/recall-notices/${recall?.id}/returns`] });
+      toast({ title: "Return Recorded", description: "The returned units were received into quarantine." });
+      onClose();
+    },
+    onError: (error) => handleError(error as Error, "Failed to record return."),
+  });
+
+  const canSubmit = returnForm.inventoryId && returnForm.warehouseId && parseInt(returnForm.quantity) > 0;
+
+  return (
+    <Dialog open={!!recall} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Return - {recall?.recallNumber}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Recalled Batch</Label>
+            <Select value={returnForm.inventoryId} onValueChange={(value) => setReturnForm(prev => ({ ...prev, inventoryId: value }))}>
+              <SelectTrigger data-testid="select-return-batch">
+                <SelectValue placeholder="Select batch" />
+              </SelectTrigger>
+              <SelectContent>
+                {(traceability?.batches || []).map(batch => (
+                  <SelectItem key={batch.id} value={batch.id}>{batch.batchNumber || batch.id}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Receiving Warehouse</Label>
+            <Select value={returnForm.warehouseId} onValueChange={(value) => setReturnForm(prev => ({ ...prev, warehouseId: value }))}>
+              <SelectTrigger data-testid="select-return-warehouse">
+                <SelectValue placeholder="Select warehouse" />
+              </SelectTrigger>
+              <SelectContent>
+                {warehouses.map(warehouse => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="return-quantity">Quantity Returned</Label>
+            <Input
+              id="return-quantity"
+              type="number"
+              min={1}
+              value={returnForm.quantity}
+              onChange={(e) => setReturnForm(prev => ({ ...prev, quantity: e.target.value }))}
+              data-testid="input-return-quantity"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="return-notes">Notes</Label>
+            <Textarea
+              id="return-notes"
+              value={returnForm.notes}
+              onChange={(e) => setReturnForm(prev => ({ ...prev, notes: e.target.value }))}
+              data-testid="input-return-notes"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => recordReturnMutation.mutate()}
+            disabled={!canSubmit || recordReturnMutation.isPending}
+            data-testid="button-confirm-return"
+          >
+            {recordReturnMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Record Return
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RecallsTab() {
+  const { toast } = useToast();
+  const handleError = useMutationErrorHandler();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [tracingRecallId, setTracingRecallId] = useState<string | null>(null);
+  const [returningRecall, setReturningRecall] = useState<RecallWithProduct | null>(null);
+
+  const { data: recalls = [], isLoading } = useQuery<RecallWithProduct[]>({
+    queryKey: ["/api/compliance/recall-notices"],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+    enabled: isCreateOpen,
+  });
+
+  const form = useForm<RecallFormData>({
+    resolver: zodResolver(recallFormSchema),
+    defaultValues: {
+      recallNumber: "",
+      productId: "",
+      batchNumbersText: "",
+      recallType: "voluntary",
+      severity: "high",
+      reason: "",
+      announcementDate: today(),
+      effectiveDate: today(),
+      issuingAuthority: DEFAULT_AUTHORITY,
+    },
+  });
+
+  const createRecallMutation = useMutation({
+    mutationFn: async ({ batchNumbersText, ...data }: RecallFormData) => {
+      const batchNumbers = batchNumbersText.split(/[,\n]/).map(b => b.trim()).filter(Boolean);
+      const response = await apiRequest("POST", "/api/compliance/recall-notices", { ...data, batchNumbers });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance/recall-notices"] });
+      setIsCreateOpen(false);
+      form.reset();
+      toast({ title: "Recall Announced", description: "Start the recall to quarantine the affected batches." });
+    },
+    onError: (error) => handleError(error as Error, "Failed to create recall."),
+  });
+
+  const recallActionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "initiate" | "complete" }) => {
+      const response = await apiRequest("POST", `/api/compliance/recall-notices/${id}/${action}`);
+      return await response.json();
+    },
+    onSuccess: (result, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance/recall-notices"] });
+      toast({
+        title: action === "initiate" ? "Recall Started" : "Recall Completed",
+        description: result.message || "The recall status was updated.",
+      });
+    },
+    onError: (error) => handleError(error as Error, "Failed to update recall."),
+  });
+
+  const recoveryOf = (recall: RecallNotice) => {
+    const distributed = recall.quantityDistributed ?? 0;
+    const recovered = recall.quantityRecovered ?? 0;
+    return { distributed, recovered, percentage: distributed > 0 ? Math.min(100, (recovered / distributed) * 100) : 0 };
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center">
+            <AlertTriangle className="mr-2 h-5 w-5" />
+            Recall Board
+          </h3>
+          <p className="text-sm text-muted-foreground">Product recalls and how much of the distributed stock has been recovered</p>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)} data-testid="button-add-recall">
+          <Plus className="w-4 h-4 mr-2" />
+          New Recall
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-4 w-4 animate-spin" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+          {RECALL_COLUMNS.map(column => {
+            const columnRecalls = recalls.filter(r => (r.status || "initiated") === column.status);
+            return (
+              <div key={column.status} className="bg-muted/40 rounded-lg p-3 space-y-3" data-testid={`column-recall-${column.status}`}>
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{column.label}</span>
+                  <Badge variant="secondary">{columnRecalls.length}</Badge>
+                </div>
+                {columnRecalls.map(recall => {
+                  const recovery = recoveryOf(recall);
+                  return (
+                    <Card key={recall.id} data-testid={`card-recall-${recall.id}`}>
+                      <CardContent className="p-4 space-y-3">
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <div className="font-mono text-sm">{recall.recallNumber}</div>
+                            <div className="font-medium">{recall.product.name}</div>
+                          </div>
+                          <Badge variant={recall.severity === "critical" || recall.severity === "high" ? "destructive" : "outline"}>
+                            {recall.severity}
+                          </Badge>
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          Batches: {(recall.batchNumbers || []).join(", ") || "-"}
+                        </div>
+                        <div className="text-sm">{recall.reason}</div>
+                        {column.status !== "initiated" && (
+                          <div className="space-y-1">
+                            <div className="flex justify-between text-sm">
+                              <span>Recovered</span>
+                              <span>{recovery.recovered} / {recovery.distributed} ({recovery.percentage.toFixed(0)}%)</span>
+                            </div>
+                            <Progress value={recovery.percentage} />
+                          </div>
+                        )}
+                        <div className="flex flex-wrap gap-2">
+                          {recall.status === "initiated" && (
+                            <Button
+                              size="sm"
+                              onClick={() => recallActionMutation.mutate({ id: recall.id, action: "initiate" })}
+                              disabled={recallActionMutation.isPending}
+                              data-testid={`button-start-recall-${recall.id}`}
+                            >
+                              <Play className="w-4 h-4 mr-1" />
+                              Start
+                            </Button>
+                          )}
+                          {recall.status === "in_progress" && (
+                            <>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setReturningRecall(recall)}
+                                data-testid={`button-record-return-${recall.id}`}
+                              >
+                                <Undo2 className="w-4 h-4 mr-1" />
+                                Return
+                              </Button>
+                              <Button
+                                size="sm"
+                                onClick={() => recallActionMutation.mutate({ id: recall.id, action: "complete" })}
+                                disabled={recallActionMutation.isPending}
+                                data-testid={`button-complete-recall-${recall.id}`}
+                              >
+                                <CheckCircle className="w-4 h-4 mr-1" />
+                                Complete
+                              </Button>
+                            </>
+                          )}
+                          {recall.status !== "initiated" && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setTracingRecallId(recall.id)}
+                              data-testid={`button-trace-recall-${recall.id}`}
+                            >
+                              <Eye className="w-4 h-4 mr-1" />
+                              Trace
+                            </Button>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Recall Notice</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createRecallMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="recallNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Recall Number *</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-recall-number" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="productId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Product *</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-recall-product">
+                            <SelectValue placeholder="Select product" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {products.map(product => (
+                            <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="recallType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type *</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-recall-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="voluntary">Voluntary</SelectItem>
+                          <SelectItem value="mandated">Mandated</SelectItem>
+                          <SelectItem value="precautionary">Precautionary</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="severity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Severity *</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-recall-severity">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="low">Low</SelectItem>
+                          <SelectItem value="medium">Medium</SelectItem>
+                          <SelectItem value="high">High</SelectItem>
+                          <SelectItem value="critical">Critical</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="announcementDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Announced *</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-recall-announced" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="effectiveDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Effective *</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-recall-effective" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="batchNumbersText"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Affected Batches * (comma or line separated)</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} data-testid="input-recall-batches" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason *</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} data-testid="input-recall-reason" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={createRecallMutation.isPending} data-testid="button-save-recall">
+                  {createRecallMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Create Recall
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <RecallTraceabilityDialog recallId={tracingRecallId} onClose={() => setTracingRecallId(null)} />
+      <RecordRecallReturnDialog recall={returningRecall} onClose={() => setReturningRecall(null)} />
+    </div>
+  );
+}
+
+// =============================================================================
+// Regulatory reports
+// =============================================================================
+
+const reportFormSchema = insertRegulatoryReportSchema
+  .omit({ preparedBy: true, reportData: true, status: true })
+  .extend({
+    reportDataText: z.string().refine(value => {
+      try {
+        JSON.parse(value || "{}");
+        return true;
+      } catch {
+        return false;
+      }
+    }, "Report data must be valid JSON"),
+  });
+type ReportFormData = z.infer<typeof reportFormSchema>;
+
+type ReportDialog =
+  | { kind: "submit"; report: ReportWithPeople }
+  | { kind: "reject"; report: ReportWithPeople };
+
+function ReportStageTracker({ report }: { report: RegulatoryReport }) {
+  const stage = getReportStage(report);
+  const reached = stage === "accepted" || stage === "rejected" ? REPORT_STAGES.length : REPORT_STAGES.indexOf(stage) + 1;
+
+  return (
+    <div className="flex items-center space-x-1">
+      {REPORT_STAGES.map((step, index) => (
+        <Fragment key={step}>
+          {index > 0 && <div className={`h-px w-3 ${index < reached ? "bg-primary" : "bg-muted-foreground/30"}`} />}
+          <span
+            className={`text-xs px-2 py-0.5 rounded-full capitalize ${
+              index < reached ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"
+            }`}
+          >
+            {step}
+          </span>
+        </Fragment>
+      ))}
+      {stage === "accepted" && <Badge className="ml-2 bg-green-100 text-green-800">Accepted</Badge>}
+      {stage === "rejected" && <Badge variant="destructive" className="ml-2">Rejected</Badge>}
+    </div>
+  );
+}
+
+function RegulatoryReportsTab({ currentUserId }: { currentUserId?: string }) {
+  const { toast } = useToast();
+  const handleError = useMutationErrorHandler();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [dialog, setDialog] = useState<ReportDialog | null>(null);
+  const [dialogText, setDialogText] = useState("");
+
+  const { data: reports = [], isLoading } = useQuery<ReportWithPeople[]>({
+    queryKey: ["/api/compliance/regulatory-reports"],
+  });
+
+  const form = useForm<ReportFormData>({
+    resolver: zodResolver(reportFormSchema),
+    defaultValues: {
+      reportType: "monthly_sales",
+      reportPeriod: format(new Date(), "yyyy-MM"),
+      submittedTo: DEFAULT_AUTHORITY,
+      dueDate: "",
+      reportDataText: "{}",
+      notes: "",
+    },
+  });
+
+  const createReportMutation = useMutation({
+    mutationFn: async ({ reportDataText, ...data }: ReportFormData) => {
+      const response = await apiRequest("POST", "/api/compliance/regulatory-reports", {
+        ...data,
+        reportData: JSON.parse(reportDataText || "{}"),
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance/regulatory-reports"] });
+      setIsCreateOpen(false);
+      form.reset();
+      toast({ title: "Report Drafted", description: "Send it for review when it is ready." });
+    },
+    onError: (error) => handleError(error as Error, "Failed to create report."),
+  });
+
+  const workflowMutation = useMutation({
+    mutationFn: async ({ id, action, body }: { id: string; action: "review" | "approve" | "submit" | "reject"; body?: unknown }) => {
+      const response = await apiRequest("POST", `/api/compliance/regulatory-reports/${id}/${action}`, body);
+      return await response.json();
+    },
+    onSuccess: (_report, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance/regulatory-reports"] });
+      setDialog(null);
+      const titles = { review: "Report Reviewed", approve: "Report Approved", submit: "Report Submitted", reject: "Report Rejected" };
+      toast({ title: titles[action], description: "The report workflow was updated." });
+    },
+    onError: (error) => handleError(error as Error, "Failed to update report."),
+  });
+
+  const openDialog = (next: ReportDialog) => {
+    setDialog(next);
+    setDialogText("");
+  };
+
+  const renderActions = (report: ReportWithPeople) => {
+    const stage = getReportStage(report);
+    const pending = workflowMutation.isPending;
+
+    switch (stage) {
+      case "draft":
+        return (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => workflowMutation.mutate({ id: report.id, action: "review" })}
+            disabled={pending || report.preparedBy === currentUserId}
+            title={report.preparedBy === currentUserId ? "Reports must be reviewed by someone other than the preparer" : undefined}
+            data-testid={`button-review-report-${report.id}`}
+          >
+            <Eye className="w-4 h-4 mr-1" />
+            Mark Reviewed
+          </Button>
+        );
+      case "reviewed":
+        return (
+          <>
+            <Button
+              size="sm"
+              onClick={() => workflowMutation.mutate({ id: report.id, action: "approve" })}
+              disabled={pending}
+              data-testid={`button-approve-report-${report.id}`}
+            >
+              <CheckCircle className="w-4 h-4 mr-1" />
+              Approve
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => openDialog({ kind: "reject", report })} data-testid={`button-send-back-report-${report.id}`}>
+              <Undo2 className="w-4 h-4 mr-1" />
+              Send Back
+            </Button>
+          </>
+        );
+      case "approved":
+        return (
+          <>
+            <Button size="sm" onClick={() => openDialog({ kind: "submit", report })} data-testid={`button-submit-report-${report.id}`}>
+              <Send className="w-4 h-4 mr-1" />
+              Submit
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => openDialog({ kind: "reject", report })}>
+              <Undo2 className="w-4 h-4 mr-1" />
+              Send Back
+            </Button>
+          </>
+        );
+      case "submitted":
+        return (
+          <>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => workflowMutation.mutate({ id: report.id, action: "approve" })}
+              disabled={pending}
+              data-testid={`button-accepted-report-${report.id}`}
+            >
+              <CheckCircle className="w-4 h-4 mr-1" />
+              Accepted
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => openDialog({ kind: "reject", report })} data-testid={`button-rejected-report-${report.id}`}>
+              <XCircle className="w-4 h-4 mr-1" />
+              Rejected
+            </Button>
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Card data-testid="card-regulatory-reports">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <ClipboardList className="mr-2 h-5 w-5" />
+            Regulatory Reports
+          </CardTitle>
+          <CardDescription>Draft, review, approve and submit reports to the authorities</CardDescription>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)} data-testid="button-add-report">
+          <Plus className="w-4 h-4 mr-2" />
+          New Report
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : reports.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No regulatory reports yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Report</TableHead>
+                <TableHead>Authority</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead>Workflow</TableHead>
+                <TableHead>People</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reports.map(report => {
+                const stage = getReportStage(report);
+                const daysToDue = differenceInDays(new Date(report.dueDate), new Date());
+                const isOpen = stage !== "submitted" && stage !== "accepted" && stage !== "rejected";
+                return (
+                  <TableRow key={report.id} data-testid={`row-report-${report.id}`}>
+                    <TableCell>
+                      <div className="font-medium">
+                        {REPORT_TYPES.find(t => t.value === report.reportType)?.label || report.reportType}
+                      </div>
+                      <div className="text-sm text-muted-foreground">{report.reportPeriod}</div>
+                      {report.rejectionReason && (
+                        <div className="text-xs text-red-600 mt-1">Returned: {report.rejectionReason}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {report.submittedTo}
+                      {report.submissionReference && (
+                        <div className="text-xs text-muted-foreground font-mono">Ref {report.submissionReference}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div>{formatDate(report.dueDate)}</div>
+                      {isOpen && (
+                        <div className={`text-xs ${daysToDue < 0 ? "text-red-600" : daysToDue <= 7 ? "text-amber-600" : "text-muted-foreground"}`}>
+                          {daysToDue < 0 ? `${Math.abs(daysToDue)} days overdue` : `${daysToDue} days left`}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <ReportStageTracker report={report} />
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>Prepared: {userName(report.preparer)}</div>
+                      {report.reviewer && <div>Reviewed: {userName(report.reviewer)}</div>}
+                      {report.approver && <div>Approved: {userName(report.approver)}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">{renderActions(report)}</div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Regulatory Report</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createReportMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="reportType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Report Type *</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-report-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {REPORT_TYPES.map(type => (
+                            <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="reportPeriod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Period *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="2025-01, 2025-Q1" {...field} data-testid="input-report-period" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="submittedTo"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Authority *</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-report-authority" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="dueDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Due Date *</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-report-due-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="reportDataText"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Report Data (JSON)</FormLabel>
+                    <FormControl>
+                      <Textarea rows={6} className="font-mono text-sm" {...field} data-testid="input-report-data" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} value={field.value ?? ""} data-testid="input-report-notes" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={createReportMutation.isPending} data-testid="button-save-report">
+                  {createReportMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Save Draft
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialog?.kind === "submit"
+                ? "Submit Report"
+                : getReportStage(dialog?.report ?? ({} as RegulatoryReport)) === "submitted"
+                  ? "Rejected by Authority"
+                  : "Send Back for Rework"}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="report-dialog-text">
+              {dialog?.kind === "submit" ? "Submission reference from the authority" : "Reason"}
+            </Label>
+            {dialog?.kind === "submit" ? (
+              <Input id="report-dialog-text" value={dialogText} onChange={(e) => setDialogText(e.target.value)} data-testid="input-submission-reference" />
+            ) : (
+              <Textarea id="report-dialog-text" value={dialogText} onChange={(e) => setDialogText(e.target.value)} data-testid="input-rejection-reason" />
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+            <Button
+              onClick={() => dialog && workflowMutation.mutate(
+                dialog.kind === "submit"
+                  ? { id: dialog.report.id, action: "submit", body: { submissionReference: dialogText.trim() } }
+                  : { id: dialog.report.id, action: "reject", body: { reason: dialogText.trim() } }
+              )}
+              disabled={!dialogText.trim() || workflowMutation.isPending}
+              data-testid="button-confirm-report-action"
+            >
+              {workflowMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+// =============================================================================
+// Audit log
+// =============================================================================
+
+interface AuditLogFilters {
+  entityType: string;
+  action: string;
+  userId: string;
+  recordId: string;
+  startDate: string;
+  endDate: string;
+  limit: string;
+}
+
+const EMPTY_AUDIT_FILTERS: AuditLogFilters = { entityType: "", action: "all", userId: "all", recordId: "", startDate: "", endDate: "", limit: "100" };
+
+function AuditLogTab() {
+  const handleError = useMutationErrorHandler();
+  const [filters, setFilters] = useState<AuditLogFilters>(EMPTY_AUDIT_FILTERS);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: auditLogs = [], isLoading, isFetching } = useQuery<AuditLogWithUser[]>({
+    queryKey: ["/api/compliance/audit-logs", filters],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: filters.limit });
+      if (filters.entityType.trim()) params.set("entityType", filters.entityType.trim());
+      if (filters.action !== "all") params.set("action", filters.action);
+      if (filters.userId !== "all") params.set("userId", filters.userId);
+      if (filters.recordId.trim()) params.set("recordId", filters.recordId.trim());
+      if (filters.startDate) params.set("startDate", filters.startDate);
+      if (filters.endDate) params.set("endDate", filters.endDate);
+      const response = await apiRequest("GET", `/api/compliance/audit-logs?${params.toString()}`);
+      return await response.json();
+    },
+  });
+
+  const verifyChainMutation = useMutation({
+    mutationFn: async (): Promise<AuditChainVerification> => {
+      const response = await apiRequest("GET", "/api/compliance/audit-logs/verify");
+      return await response.json();
+    },
+    onError: (error) => handleError(error as Error, "Failed to verify the audit trail."),
+  });
+
+  const setFilter = (key: keyof AuditLogFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const verification = verifyChainMutation.data;
+
+  return (
+    <Card data-testid="card-audit-log">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <History className="mr-2 h-5 w-5" />
+            Audit Log Explorer
+            {isFetching && <Loader2 className="ml-2 h-4 w-4 animate-spin" />}
+          </CardTitle>
+          <CardDescription>Who changed what and when; expand an entry to compare before and after values</CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => verifyChainMutation.mutate()}
+          disabled={verifyChainMutation.isPending}
+          data-testid="button-verify-audit-chain"
+        >
+          {verifyChainMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ShieldCheck className="w-4 h-4 mr-2" />}
+          Verify Integrity
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {verification && (
+          <Alert variant={verification.isValid ? "default" : "destructive"} data-testid="alert-audit-chain">
+            {verification.isValid ? <ShieldCheck className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+            <AlertDescription>
+              {verification.isValid
+                ? `Audit trail intact: ${verification.entriesChecked} chained entries verified.`
+                : `Audit trail tampered at entry #${verification.firstInvalidEntry?.sequenceNumber}: ${verification.firstInvalidEntry?.reason}.`}
+              {verification.unchainedEntries > 0 && ` ${verification.unchainedEntries} older entries predate the hash chain.`}
+            </AlertDescription>
+          </Alert>
+        )}
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+          <Input
+            placeholder="Table (e.g. invoices)"
+            value={filters.entityType}
+            onChange={(e) => setFilter("entityType", e.target.value)}
+            data-testid="input-audit-table"
+          />
+          <Select value={filters.action} onValueChange={(value) => setFilter("action", value)}>
+            <SelectTrigger data-testid="select-audit-action">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Actions</SelectItem>
+              {auditActionEnum.enumValues.map(action => (
+                <SelectItem key={action} value={action} className="capitalize">{action}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.userId} onValueChange={(value) => setFilter("userId", value)}>
+            <SelectTrigger data-testid="select-audit-user">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Users</SelectItem>
+              {users.map(user => (
+                <SelectItem key={user.id} value={user.id}>{userName(user)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Record ID"
+            value={filters.recordId}
+            onChange={(e) => setFilter("recordId", e.target.value)}
+            data-testid="input-audit-record"
+          />
+          <Input type="date" value={filters.startDate} onChange={(e) => setFilter("startDate", e.target.value)} data-testid="input-audit-start" />
+          <Input type="date" value={filters.endDate} onChange={(e) => setFilter("endDate", e.target.value)} data-testid="input-audit-end" />
+          <Button variant="outline" onClick={() => setFilters(EMPTY_AUDIT_FILTERS)} data-testid="button-clear-audit-filters">
+            Clear
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : auditLogs.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No audit entries match these filters</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>When</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Table</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Description</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {auditLogs.map(entry => {
+                const isExpanded = expandedId === entry.id;
+                const diff = isExpanded ? diffAuditValues(entry.oldValues, entry.newValues) : [];
+                return (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                      data-testid={`row-audit-${entry.id}`}
+                    >
+                      <TableCell>
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{format(new Date(entry.timestamp), "dd MMM yyyy HH:mm:ss")}</TableCell>
+                      <TableCell>{entry.user ? userName(entry.user) : entry.userId || "System"}</TableCell>
+                      <TableCell>
+                        <Badge variant={entry.action === "delete" || entry.action === "reject" ? "destructive" : "outline"} className="capitalize">
+                          {entry.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{entry.tableName}</TableCell>
+                      <TableCell className="font-mono text-xs">{entry.recordId}</TableCell>
+                      <TableCell className="text-sm">{entry.description || "-"}</TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="bg-muted/30 space-y-3">
+                          <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-muted-foreground">
+                            {entry.sequenceNumber !== null && <span>Entry #{entry.sequenceNumber}</span>}
+                            <span>Module: {entry.module || "-"}</span>
+                            <span>IP: {entry.ipAddress || "-"}</span>
+                            <span className="break-all">Client: {entry.userAgent || "-"}</span>
+                          </div>
+                          {diff.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">No field values were recorded for this entry.</p>
+                          ) : (
+                            <Table>
+                              <TableHeader>
+                                <TableRow>
+                                  <TableHead>Field</TableHead>
+                                  <TableHead>Before</TableHead>
+                                  <TableHead>After</TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {diff.map(row => (
+                                  <TableRow key={row.field} className={row.changed ? "" : "text-muted-foreground"}>
+                                    <TableCell className="font-mono text-xs">{row.field}</TableCell>
+                                    <TableCell className={`font-mono text-xs break-all ${row.changed && row.before ? "bg-red-50 text-red-800" : ""}`}>
+                                      {row.before || "-"}
+                                    </TableCell>
+                                    <TableCell className={`font-mono text-xs break-all ${row.changed && row.after ? "bg-green-50 text-green-800" : ""}`}>
+                                      {row.after || "-"}
+                                    </TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+        {auditLogs.length >= parseInt(filters.limit) && (
+          <div className="flex justify-center">
+            <Button
+              variant="outline"
+              onClick={() => setFilter("limit", String(parseInt(filters.limit) + 100))}
+              data-testid="button-load-more-audit"
+            >
+              Load More
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Compliance() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [activeTab, setActiveTab] = useState("licenses");
+
+  const isAdmin = user?.role === 'admin';
+
+  const { data: expiringLicenses = [] } = useQuery<LicenseWithManager[]>({
+    queryKey: ["/api/compliance/licenses/expiring"],
+    enabled: isAuthenticated && isAdmin,
+  });
+
+  const { data: recalls = [] } = useQuery<RecallWithProduct[]>({
+    queryKey: ["/api/compliance/recall-notices"],
+    enabled: isAuthenticated && isAdmin,
+  });
+
+  const { data: reports = [] } = useQuery<ReportWithPeople[]>({
+    queryKey: ["/api/compliance/regulatory-reports"],
+    enabled: isAuthenticated && isAdmin,
+  });
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="flex h-screen">
+        <Sidebar />
+        <div className="flex-1 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex h-screen">
+        <Sidebar />
+        <div className="flex-1 flex flex-col overflow-hidden">
+          <TopBar title="Access Denied" subtitle="Administrator access required" onOpenAIChat={() => {}} />
+          <main className="flex-1 overflow-y-auto p-6">
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                You need administrator privileges to access the compliance workspace.
+              </AlertDescription>
+            </Alert>
+          </main>
+        </div>
+      </div>
+    );
+  }
+
+  const activeRecalls = recalls.filter(r => r.status === "initiated" || r.status === "in_progress").length;
+  const reportsInWorkflow = reports.filter(r => r.status === "draft").length;
+  const overdueReports = reports.filter(r => r.status === "draft" && differenceInDays(new Date(r.dueDate), new Date()) < 0).length;
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <TopBar
+          title="Compliance"
+          subtitle="Licenses, recalls, regulatory reporting and audit trail"
+          onOpenAIChat={() => {}}
+        />
+
+        <main className="flex-1 overflow-y-auto p-6 space-y-6" data-testid="main-compliance">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card data-testid="card-expiring-licenses">
+              <CardContent className="p-4 flex items-center justify-between">
+                <div>
+                  <div className="text-sm text-muted-foreground">Licenses expiring in 90 days</div>
+                  <div className="text-2xl font-semibold">{expiringLicenses.length}</div>
+                </div>
+                <FileBadge className="h-8 w-8 text-muted-foreground" />
+              </CardContent>
+            </Card>
+            <Card data-testid="card-active-recalls">
+              <CardContent className="p-4 flex items-center justify-between">
+                <div>
+                  <div className="text-sm text-muted-foreground">Active recalls</div>
+                  <div className="text-2xl font-semibold">{activeRecalls}</div>
+                </div>
+                <AlertTriangle className="h-8 w-8 text-muted-foreground" />
+              </CardContent>
+            </Card>
+            <Card data-testid="card-open-reports">
+              <CardContent className="p-4 flex items-center justify-between">
+                <div>
+                  <div className="text-sm text-muted-foreground">Reports in preparation</div>
+                  <div className="text-2xl font-semibold">
+                    {reportsInWorkflow}
+                    {overdueReports > 0 && <span className="text-sm text-red-600 ml-2">{overdueReports} overdue</span>}
+                  </div>
+                </div>
+                <ClipboardList className="h-8 w-8 text-muted-foreground" />
+              </CardContent>
+            </Card>
+          </div>
+
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+            <TabsList className="grid w-full grid-cols-4" data-testid="tabs-compliance-main">
+              <TabsTrigger value="licenses" data-testid="tab-licenses">
+                <FileBadge className="w-4 h-4 mr-2" />
+                Licenses
+              </TabsTrigger>
+              <TabsTrigger value="recalls" data-testid="tab-recalls">
+                <AlertTriangle className="w-4 h-4 mr-2" />
+                Recalls
+              </TabsTrigger>
+              <TabsTrigger value="reports" data-testid="tab-reports">
+                <ClipboardList className="w-4 h-4 mr-2" />
+                Regulatory Reports
+              </TabsTrigger>
+              <TabsTrigger value="audit" data-testid="tab-audit">
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                Audit Log
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="licenses" className="space-y-6">
+              <LicensesTab />
+            </TabsContent>
+            <TabsContent value="recalls" className="space-y-6">
+              <RecallsTab />
+            </TabsContent>
+            <TabsContent value="reports" className="space-y-6">
+              <RegulatoryReportsTab currentUserId={user?.id} />
+            </TabsContent>
+            <TabsContent value="audit" className="space-y-6">
+              <AuditLogTab />
+            </TabsContent>
+          </Tabs>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -236,7 +236,6 @@ export default function CustomerDetail() {
   const createQuotationMutation = useMutation({
     mutationFn: async () => {
       const quotationData = {
-        quotationNumber: `QT-${Date.now()}`,
         customerId: id,
         status: 'draft',
         validityDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
@@ -720,8 +719,13 @@ export default function CustomerDetail() {
                               variant={creditInfo.canProceed ? "default" : "destructive"}
                               data-testid={`badge-credit-status-${creditInfo.canProceed ? 'good' : 'bad'}`}
                             >
-                              {creditInfo.canProceed ? "Credit Good" : "Credit Risk"}
+                              {creditInfo.creditHold ? "Credit Hold" : creditInfo.canProceed ? "Credit Good" : "Credit Risk"}
                             </Badge>
+                            {creditInfo.creditHold && (
+                              <p className="text-body-small text-muted-foreground mt-2" data-testid="text-credit-hold">
+                                Blocked by dunning (level {creditInfo.dunningLevel}) until overdue invoices are settled
+                              </p>
+                            )}
                           </div>
                         </>
                       )}
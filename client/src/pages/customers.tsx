@@ -20,7 +20,7 @@ import { Progress } from "@/components/ui/progress";
 import { Users, Search, Plus, Edit, Trash2, DollarSign, Calendar, Phone, Mail, MapPin, FileText, CreditCard, AlertTriangle, CheckCircle, XCircle, TrendingUp, TrendingDown, Minus, Brain, RefreshCw, Loader2 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertCustomerSchema, type Customer, type InsertCustomer } from "@shared/schema";
+import { insertCustomerSchema, type Customer, type InsertCustomer, type TaxCode } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
@@ -106,10 +106,19 @@ export default function Customers() {
       creditLimit: "0",
       paymentTerms: 30,
       assignedSalesRep: "",
+      taxExemptionCodeId: "",
+      taxExemptionCertificate: "",
+      taxExemptionValidUntil: "",
       isActive: true,
     },
   });
 
+  // Only exempt and not-subject codes can be a customer's exemption
+  const { data: taxCodes = [] } = useQuery<TaxCode[]>({
+    queryKey: ["/api/tax/codes"],
+  });
+  const exemptionCodes = taxCodes.filter(code => code.isActive && (code.category === "exempt" || code.category === "not_subject"));
+
   const createCustomerMutation = useMutation({
     mutationFn: async (data: InsertCustomer) => {
       const response = await apiRequest("POST", "/api/customers", data);
@@ -179,6 +188,9 @@ export default function Customers() {
       phone: data.phone || undefined,
       address: data.address || undefined,
       taxId: data.taxId || undefined,
+      taxExemptionCodeId: data.taxExemptionCodeId || undefined,
+      taxExemptionCertificate: data.taxExemptionCertificate || undefined,
+      taxExemptionValidUntil: data.taxExemptionValidUntil || undefined,
     };
     createCustomerMutation.mutate(cleanedData);
   };
@@ -283,7 +295,6 @@ export default function Customers() {
   const createQuotationMutation = useMutation({
     mutationFn: async (customerId: string) => {
       const quotationData = {
-        quotationNumber: `QT-${Date.now()}`,
         customerId,
         status: 'draft',
         validityDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 30 days from now
@@ -480,6 +491,60 @@ export default function Customers() {
                       )}
                     />
 
+                    <div className="grid grid-cols-3 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="taxExemptionCodeId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>IVA Exemption</FormLabel>
+                            <Select value={field.value || "none"} onValueChange={(value) => field.onChange(value === "none" ? "" : value)}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-customer-tax-exemption">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="none">Not exempt</SelectItem>
+                                {exemptionCodes.map(code => (
+                                  <SelectItem key={code.id} value={code.id}>{code.code} ({code.exemptionCode})</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="taxExemptionCertificate"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Exemption Certificate</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Certificate number" {...field} value={field.value || ''} disabled={!form.watch("taxExemptionCodeId")} data-testid="input-customer-exemption-certificate" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="taxExemptionValidUntil"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Valid Until</FormLabel>
+                            <FormControl>
+                              <Input type="date" {...field} value={field.value || ''} disabled={!form.watch("taxExemptionCodeId")} data-testid="input-customer-exemption-valid-until" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
                     <div className="grid grid-cols-2 gap-4">
                       <FormField
                         control={form.control}
@@ -31,6 +31,8 @@ interface DashboardMetrics {
   openOrders: number;
   outstandingAmount: number;
   expiringProductsCount: number;
+  grossMargin: number; // month to date, base currency
+  grossMarginPercent: number | null;
 }
 
 interface Transaction {
@@ -137,11 +139,13 @@ export default function Dashboard() {
                 <MetricCard
                   title="Total Revenue"
                   value={formatCurrency(metrics.totalRevenue)}
-                  subtitle="↗ 12.5% vs last month"
+                  subtitle={metrics.grossMarginPercent === null
+                    ? "No sales this month"
+                    : `${metrics.grossMarginPercent.toFixed(1)}% gross margin this month`}
                   icon={DollarSign}
                   iconColor="text-[var(--invoice-fg)]"
                   iconBgColor="bg-[var(--invoice-bg-light)]"
-                  subtitleColor="text-green-600"
+                  subtitleColor={metrics.grossMargin < 0 ? "text-red-600" : "text-green-600"}
                   testId="card-revenue"
                 />
                 
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, Fragment } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link } from "wouter";
 import Sidebar from "@/components/sidebar";
@@ -13,7 +13,9 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { 
   Calculator, 
   Search, 
@@ -29,18 +31,75 @@ import {
   AlertCircle,
   CheckCircle,
   Clock,
-  Loader2
+  Loader2,
+  BookOpen,
+  ChevronDown,
+  ChevronRight,
+  Undo2,
+  Trash2,
+  Play,
+  Download
 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertInvoiceSchema, type Invoice, type Customer, type InsertInvoice } from "@shared/schema";
+import {
+  insertInvoiceSchema,
+  journalSourceEnum,
+  insertDunningLevelSchema,
+  insertTaxCodeSchema,
+  type Invoice,
+  type Customer,
+  type InsertInvoice,
+  type GlAccount,
+  type JournalEntry,
+  type JournalLine,
+  type TrialBalance,
+  type CreateJournalEntryRequest,
+  type DunningLevel,
+  type InsertDunningLevel,
+  type ReceivablesAging,
+  type AgingBuckets,
+  type DunningRunResult,
+  type BankAccount,
+  type InsertBankAccount,
+  type BankStatementLine,
+  type BankStatementLineWithMatch,
+  type BankLineMatchCandidate,
+  type BankReconciliation,
+  type BankStatementImportResult,
+  type ImportBankStatementRequest,
+  type CreateReceiptFromBankLineRequest,
+  type CloseBankReconciliationRequest,
+  type ReceiptAllocation,
+  type ReceiptAllocationDetail,
+  type ReceiptAllocationResult,
+  type AllocateReceiptRequest,
+  type CustomerCreditBalance,
+  type FxRevaluation,
+  type FxRevaluationPreview,
+  type TaxCode,
+  type InsertTaxCode,
+  type CategoryTaxCode,
+  type VatReturn,
+  type VatReturnLine,
+  type FiscalChainVerification,
+  type AccountingModule,
+  type AccountingPeriod,
+  type MonthEndChecklist,
+  type Warehouse,
+  type StockValuation,
+  type MarginSummary,
+  type MarginReport,
+} from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { format, differenceInDays } from "date-fns";
 
 interface InvoiceWithCustomer extends Invoice {
   customer: Customer;
+  hashExcerpt: string | null; // null for drafts and invoices issued before signing
 }
 
 interface Transaction {
@@ -61,6 +120,3073 @@ interface DashboardMetrics {
   expiringProductsCount: number;
 }
 
+type JournalEntryWithLines = JournalEntry & { lines: (JournalLine & { account: GlAccount })[] };
+
+interface ManualJournalLine {
+  accountId: string;
+  debit: string;
+  credit: string;
+  description: string;
+}
+
+const EMPTY_JOURNAL_LINE: ManualJournalLine = { accountId: "", debit: "", credit: "", description: "" };
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const formatAmount = (amount: string | number) =>
+  new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(Number(amount));
+
+const toCents = (amount: string) => Math.round((parseFloat(amount) || 0) * 100);
+
+function ManualJournalDialog({ open, onOpenChange, accounts }: { open: boolean; onOpenChange: (open: boolean) => void; accounts: GlAccount[] }) {
+  const { toast } = useToast();
+  const [entryDate, setEntryDate] = useState(today());
+  const [description, setDescription] = useState("");
+  const [lines, setLines] = useState<ManualJournalLine[]>([EMPTY_JOURNAL_LINE, EMPTY_JOURNAL_LINE]);
+
+  const postableAccounts = accounts.filter(account => account.isPostable && account.isActive);
+  const debitCents = lines.reduce((sum, line) => sum + toCents(line.debit), 0);
+  const creditCents = lines.reduce((sum, line) => sum + toCents(line.credit), 0);
+  const isBalanced = debitCents > 0 && debitCents === creditCents;
+
+  const reset = () => {
+    setEntryDate(today());
+    setDescription("");
+    setLines([EMPTY_JOURNAL_LINE, EMPTY_JOURNAL_LINE]);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (request: CreateJournalEntryRequest) => {
+      const response = await apiRequest("POST", "/api/gl/journal-entries", request);
+      return await response.json();
+    },
+    onSuccess: (_entry, request) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gl/journal-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/gl/trial-balance"] });
+      onOpenChange(false);
+      reset();
+      toast({
+        title: "Success",
+        description: request.post ? "Journal entry posted" : "Journal entry saved as draft",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error as Error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: `Failed to save journal entry. ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateLine = (index: number, changes: Partial<ManualJournalLine>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const submit = (post: boolean) => {
+    createMutation.mutate({
+      entryDate,
+      description,
+      post,
+      lines: lines
+        .filter(line => line.accountId)
+        .map(line => ({
+          accountId: line.accountId,
+          debit: toCents(line.debit) / 100,
+          credit: toCents(line.credit) / 100,
+          description: line.description || undefined,
+        })),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>New Journal Entry</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <Input type="date" value={entryDate} onChange={(e) => setEntryDate(e.target.value)} data-testid="input-journal-date" />
+            <Input
+              className="col-span-2"
+              placeholder="Description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              data-testid="input-journal-description"
+            />
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40%]">Account</TableHead>
+                <TableHead>Memo</TableHead>
+                <TableHead className="w-32 text-right">Debit</TableHead>
+                <TableHead className="w-32 text-right">Credit</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Select value={line.accountId} onValueChange={(value) => updateLine(index, { accountId: value })}>
+                      <SelectTrigger data-testid={`select-journal-account-${index}`}>
+                        <SelectValue placeholder="Select account" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {postableAccounts.map(account => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.code} {account.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input value={line.description} onChange={(e) => updateLine(index, { description: e.target.value })} />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="text-right"
+                      value={line.debit}
+                      onChange={(e) => updateLine(index, { debit: e.target.value, credit: "" })}
+                      data-testid={`input-journal-debit-${index}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="text-right"
+                      value={line.credit}
+                      onChange={(e) => updateLine(index, { credit: e.target.value, debit: "" })}
+                      data-testid={`input-journal-credit-${index}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={lines.length <= 2}
+                      onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={2}>
+                  <Button variant="outline" size="sm" onClick={() => setLines(prev => [...prev, EMPTY_JOURNAL_LINE])} data-testid="button-add-journal-line">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Line
+                  </Button>
+                </TableCell>
+                <TableCell className="text-right font-mono">{formatAmount(debitCents / 100)}</TableCell>
+                <TableCell className="text-right font-mono">{formatAmount(creditCents / 100)}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableFooter>
+          </Table>
+
+          {!isBalanced && debitCents + creditCents > 0 && (
+            <p className="text-body-small text-red-600">
+              Out of balance by {formatAmount(Math.abs(debitCents - creditCents) / 100)}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button
+              variant="outline"
+              disabled={!description || !isBalanced || createMutation.isPending}
+              onClick={() => submit(false)}
+              data-testid="button-save-journal-draft"
+            >
+              Save Draft
+            </Button>
+            <Button
+              disabled={!description || !isBalanced || createMutation.isPending}
+              onClick={() => submit(true)}
+              data-testid="button-post-journal"
+            >
+              {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Post
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function FxRevaluationCard() {
+  const { toast } = useToast();
+  const [revaluationDate, setRevaluationDate] = useState(today());
+  const [preview, setPreview] = useState<FxRevaluationPreview | null>(null);
+
+  const { data: revaluations = [] } = useQuery<FxRevaluation[]>({
+    queryKey: ["/api/gl/fx-revaluations"],
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (date: string) => {
+      const response = await apiRequest("GET", `/api/gl/fx-revaluations/preview?revaluationDate=${date}`);
+      return await response.json() as FxRevaluationPreview;
+    },
+    onSuccess: (result) => setPreview(result),
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to preview revaluation: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const postMutation = useMutation({
+    mutationFn: async (date: string) => {
+      const response = await apiRequest("POST", "/api/gl/fx-revaluations", { revaluationDate: date });
+      return await response.json() as FxRevaluation;
+    },
+    onSuccess: (revaluation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gl/fx-revaluations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/gl/journal-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/gl/trial-balance"] });
+      setPreview(null);
+      toast({
+        title: "Success",
+        description: `Revaluation posted for ${revaluation.revaluationDate} and reversed the next day`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to post revaluation: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const netAdjustment = preview ? preview.receivablesAdjustment + preview.payablesAdjustment : 0;
+
+  return (
+    <Card data-testid="card-fx-revaluation">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center">
+          <TrendingUp className="w-5 h-5 mr-2" />
+          Foreign Exchange Revaluation
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            className="w-44"
+            value={revaluationDate}
+            onChange={(e) => {
+              setRevaluationDate(e.target.value);
+              setPreview(null);
+            }}
+            data-testid="input-revaluation-date"
+          />
+          <Button
+            variant="outline"
+            disabled={!revaluationDate || previewMutation.isPending}
+            onClick={() => previewMutation.mutate(revaluationDate)}
+            data-testid="button-preview-revaluation"
+          >
+            {previewMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Preview
+          </Button>
+          <Button
+            disabled={!preview || preview.lines.length === 0 || postMutation.isPending}
+            onClick={() => postMutation.mutate(revaluationDate)}
+            data-testid="button-post-revaluation"
+          >
+            {postMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Post
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {preview && (
+          preview.lines.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No foreign currency invoices or bills change in value on {preview.revaluationDate}.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Document</TableHead>
+                  <TableHead>Party</TableHead>
+                  <TableHead>Currency</TableHead>
+                  <TableHead className="text-right">Open Amount</TableHead>
+                  <TableHead className="text-right">Booked Rate</TableHead>
+                  <TableHead className="text-right">Closing Rate</TableHead>
+                  <TableHead className="text-right">Adjustment ({preview.baseCurrency})</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.lines.map(line => (
+                  <TableRow key={`${line.kind}-${line.documentId}`}>
+                    <TableCell>
+                      <span className="font-mono">{line.documentNumber}</span>
+                      <span className="ml-2 text-xs text-muted-foreground">{line.kind === 'receivable' ? 'AR' : 'AP'}</span>
+                    </TableCell>
+                    <TableCell>{line.partyName}</TableCell>
+                    <TableCell>{line.currency}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(line.openAmount)}</TableCell>
+                    <TableCell className="text-right font-mono">{line.bookedRate.toFixed(6)}</TableCell>
+                    <TableCell className="text-right font-mono">{line.revaluedRate.toFixed(6)}</TableCell>
+                    <TableCell className={`text-right font-mono ${line.adjustment < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatAmount(line.adjustment)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={6}>
+                    Receivables {formatAmount(preview.receivablesAdjustment)} · Payables {formatAmount(preview.payablesAdjustment)}
+                  </TableCell>
+                  <TableCell className={`text-right font-mono ${netAdjustment < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatAmount(netAdjustment)}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )
+        )}
+
+        {revaluations.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Revaluation Date</TableHead>
+                <TableHead className="text-right">Receivables</TableHead>
+                <TableHead className="text-right">Payables</TableHead>
+                <TableHead className="text-right">Documents</TableHead>
+                <TableHead>Journal</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {revaluations.map(revaluation => (
+                <TableRow key={revaluation.id} data-testid={`row-revaluation-${revaluation.id}`}>
+                  <TableCell>{revaluation.revaluationDate}</TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(revaluation.receivablesAdjustment)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(revaluation.payablesAdjustment)}</TableCell>
+                  <TableCell className="text-right">{revaluation.lines.length}</TableCell>
+                  <TableCell>
+                    <Badge className="bg-green-100 text-green-800">
+                      {revaluation.reversalEntryId ? "Posted and reversed" : "Posted"}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const ACCOUNTING_MODULES: Array<{ value: AccountingModule; label: string }> = [
+  { value: "sales", label: "Sales" },
+  { value: "purchases", label: "Purchases" },
+  { value: "inventory", label: "Inventory" },
+  { value: "payroll", label: "Payroll" },
+];
+
+const PERIOD_STATUS_STYLES: Record<AccountingPeriod["status"], { label: string; className: string }> = {
+  open: { label: "Open", className: "bg-green-100 text-green-800" },
+  soft_closed: { label: "Soft closed", className: "bg-yellow-100 text-yellow-800" },
+  hard_closed: { label: "Hard closed", className: "bg-red-100 text-red-800" },
+};
+
+const previousMonth = () => {
+  const date = new Date();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() - 1);
+  return date.toISOString().slice(0, 7);
+};
+
+// Month-end close: the status of each module's months, closing and reopening them, and
+// what still has to be cleared before a hard close
+function PeriodCloseCard() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const [period, setPeriod] = useState(previousMonth);
+  const [module, setModule] = useState<AccountingModule>("sales");
+  const [reopenReason, setReopenReason] = useState("");
+  const year = period.slice(0, 4);
+
+  const { data: periods = [] } = useQuery<AccountingPeriod[]>({
+    queryKey: ["/api/accounting-periods", year],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/accounting-periods?year=${year}`);
+      return await response.json();
+    },
+    enabled: /^\d{4}$/.test(year),
+  });
+
+  const { data: checklist } = useQuery<MonthEndChecklist>({
+    queryKey: ["/api/accounting-periods/checklist", period],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/accounting-periods/checklist?period=${period}`);
+      return await response.json();
+    },
+    enabled: /^\d{4}-\d{2}$/.test(period),
+  });
+
+  const statusOf = (moduleValue: AccountingModule, month: string) =>
+    periods.find(row => row.module === moduleValue && row.period === month)?.status ?? "open";
+  const selectedStatus = statusOf(module, period);
+
+  const showError = (action: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}. ${(error as Error).message}`,
+      variant: "destructive",
+    });
+  };
+
+  const closeMutation = useMutation({
+    mutationFn: async (status: "soft_closed" | "hard_closed") => {
+      const response = await apiRequest("POST", "/api/accounting-periods/close", { module, period, status });
+      return await response.json() as AccountingPeriod;
+    },
+    onSuccess: (closed) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounting-periods"] });
+      toast({
+        title: "Success",
+        description: `${closed.module} ${closed.period} is now ${PERIOD_STATUS_STYLES[closed.status].label.toLowerCase()}`,
+      });
+    },
+    onError: showError("close period"),
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/accounting-periods/reopen", { module, period, reason: reopenReason });
+      return await response.json() as AccountingPeriod;
+    },
+    onSuccess: (reopened) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounting-periods"] });
+      setReopenReason("");
+      toast({ title: "Success", description: `${reopened.module} ${reopened.period} reopened` });
+    },
+    onError: showError("reopen period"),
+  });
+
+  const months = Array.from({ length: 12 }, (_, index) => `${year}-${String(index + 1).padStart(2, '0')}`);
+
+  return (
+    <Card data-testid="card-period-close">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center">
+          <Calendar className="w-5 h-5 mr-2" />
+          Period Close
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Input
+            type="month"
+            className="w-44"
+            value={period}
+            onChange={(e) => setPeriod(e.target.value)}
+            data-testid="input-close-period"
+          />
+          <Select value={module} onValueChange={(value) => setModule(value as AccountingModule)}>
+            <SelectTrigger className="w-36" data-testid="select-close-module">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ACCOUNTING_MODULES.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            disabled={selectedStatus !== "open" || closeMutation.isPending}
+            onClick={() => closeMutation.mutate("soft_closed")}
+            data-testid="button-soft-close"
+          >
+            Soft close
+          </Button>
+          <Button
+            disabled={selectedStatus === "hard_closed" || closeMutation.isPending}
+            onClick={() => closeMutation.mutate("hard_closed")}
+            data-testid="button-hard-close"
+          >
+            {closeMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Hard close
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Month</TableHead>
+              {ACCOUNTING_MODULES.map(option => (
+                <TableHead key={option.value}>{option.label}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {months.map(month => (
+              <TableRow key={month} className={month === period ? "bg-muted/50" : undefined} data-testid={`row-period-${month}`}>
+                <TableCell className="font-mono">{month}</TableCell>
+                {ACCOUNTING_MODULES.map(option => {
+                  const style = PERIOD_STATUS_STYLES[statusOf(option.value, month)];
+                  return (
+                    <TableCell key={option.value}>
+                      <Badge className={style.className}>{style.label}</Badge>
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {isAdmin && selectedStatus !== "open" && (
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder={`Reason for reopening ${module} ${period}`}
+              value={reopenReason}
+              onChange={(e) => setReopenReason(e.target.value)}
+              data-testid="input-reopen-reason"
+            />
+            <Button
+              variant="outline"
+              disabled={!reopenReason.trim() || reopenMutation.isPending}
+              onClick={() => reopenMutation.mutate()}
+              data-testid="button-reopen-period"
+            >
+              {reopenMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Reopen
+            </Button>
+          </div>
+        )}
+
+        {checklist && (
+          <div className="space-y-3" data-testid="month-end-checklist">
+            <h3 className="font-medium">Month-end checklist for {checklist.period}</h3>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="font-medium mb-1">Unposted goods receipts ({checklist.unpostedGoodsReceipts.length})</p>
+                {checklist.unpostedGoodsReceipts.length === 0 ? (
+                  <p className="text-muted-foreground flex items-center"><CheckCircle className="w-4 h-4 mr-1 text-green-600" />All posted</p>
+                ) : checklist.unpostedGoodsReceipts.map(receipt => (
+                  <p key={receipt.id}>
+                    <span className="font-mono">{receipt.grNumber}</span>
+                    <span className="text-muted-foreground"> · {receipt.poNumber ?? "no PO"} · {format(new Date(receipt.receivedAt), "MMM dd")}</span>
+                  </p>
+                ))}
+              </div>
+              <div>
+                <p className="font-medium mb-1">Unmatched bills ({checklist.unmatchedBills.length})</p>
+                {checklist.unmatchedBills.length === 0 ? (
+                  <p className="text-muted-foreground flex items-center"><CheckCircle className="w-4 h-4 mr-1 text-green-600" />All matched</p>
+                ) : checklist.unmatchedBills.map(bill => (
+                  <p key={bill.id}>
+                    <span className="font-mono">{bill.billNumber}</span>
+                    <span className="text-muted-foreground"> · {bill.supplierName} · {bill.currency} {formatAmount(bill.totalAmount)} · {bill.matchStatus?.replace(/_/g, ' ') ?? "not matched"}</span>
+                  </p>
+                ))}
+              </div>
+              <div>
+                <p className="font-medium mb-1">Open POS sessions ({checklist.openPosSessions.length})</p>
+                {checklist.openPosSessions.length === 0 ? (
+                  <p className="text-muted-foreground flex items-center"><CheckCircle className="w-4 h-4 mr-1 text-green-600" />All closed</p>
+                ) : checklist.openPosSessions.map(session => (
+                  <p key={session.id}>
+                    <span className="font-mono">{session.sessionNumber}</span>
+                    <span className="text-muted-foreground"> · {session.terminalName ?? "unknown terminal"} · {session.status}</span>
+                  </p>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function GeneralLedgerTab() {
+  const { toast } = useToast();
+  const [range, setRange] = useState({ from: "", to: "" });
+  const [sourceFilter, setSourceFilter] = useState("all");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isJournalDialogOpen, setIsJournalDialogOpen] = useState(false);
+
+  const rangeParams = () => {
+    const params = new URLSearchParams();
+    if (range.from) params.set("from", range.from);
+    if (range.to) params.set("to", range.to);
+    return params;
+  };
+
+  const { data: accounts = [] } = useQuery<GlAccount[]>({
+    queryKey: ["/api/gl/accounts"],
+  });
+
+  const { data: trialBalance, isLoading: trialBalanceLoading } = useQuery<TrialBalance>({
+    queryKey: ["/api/gl/trial-balance", range],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/gl/trial-balance?${rangeParams().toString()}`);
+      return await response.json();
+    },
+  });
+
+  const { data: entries = [], isLoading: entriesLoading } = useQuery<JournalEntryWithLines[]>({
+    queryKey: ["/api/gl/journal-entries", range, sourceFilter],
+    queryFn: async () => {
+      const params = rangeParams();
+      if (sourceFilter !== "all") params.set("sourceType", sourceFilter);
+      params.set("limit", "200");
+      const response = await apiRequest("GET", `/api/gl/journal-entries?${params.toString()}`);
+      return await response.json();
+    },
+  });
+
+  const entryActionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "post" | "reverse" }) => {
+      const response = await apiRequest("POST", `/api/gl/journal-entries/${id}/${action}`, {});
+      return await response.json();
+    },
+    onSuccess: (_entry, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gl/journal-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/gl/trial-balance"] });
+      toast({
+        title: "Success",
+        description: action === "post" ? "Journal entry posted" : "Journal entry reversed",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getEntryStatusColor = (status: string) => {
+    switch (status) {
+      case 'posted': return 'bg-green-100 text-green-800';
+      case 'reversed': return 'bg-slate-100 text-slate-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <Input
+          type="date"
+          className="w-44"
+          value={range.from}
+          onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value }))}
+          data-testid="input-ledger-from"
+        />
+        <span className="text-muted-foreground">to</span>
+        <Input
+          type="date"
+          className="w-44"
+          value={range.to}
+          onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value }))}
+          data-testid="input-ledger-to"
+        />
+        <Button variant="outline" onClick={() => setRange({ from: "", to: "" })}>Clear</Button>
+        <Button className="ml-auto" onClick={() => setIsJournalDialogOpen(true)} data-testid="button-new-journal">
+          <Plus className="w-4 h-4 mr-2" />
+          New Journal Entry
+        </Button>
+      </div>
+
+      <Card data-testid="card-trial-balance">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center">
+            <BookOpen className="w-5 h-5 mr-2" />
+            Trial Balance
+          </CardTitle>
+          {trialBalance && (
+            <Badge className={trialBalance.isBalanced ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+              {trialBalance.isBalanced ? 'Balanced' : 'Out of balance'}
+            </Badge>
+          )}
+        </CardHeader>
+        <CardContent>
+          {trialBalanceLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-4 w-4 animate-spin" />
+            </div>
+          ) : !trialBalance || trialBalance.rows.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No postings in this period</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {trialBalance.rows.map(row => (
+                  <TableRow key={row.accountId} data-testid={`row-trial-balance-${row.code}`}>
+                    <TableCell className="font-mono">{row.code}</TableCell>
+                    <TableCell>{row.name}</TableCell>
+                    <TableCell className="capitalize text-muted-foreground">{row.accountType}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(row.debit)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(row.credit)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(row.balance)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={3}>Total</TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(trialBalance.totalDebit)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(trialBalance.totalCredit)}</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-journal-entries">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Journal Entries</CardTitle>
+          <Select value={sourceFilter} onValueChange={setSourceFilter}>
+            <SelectTrigger className="w-48" data-testid="select-journal-source">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Sources</SelectItem>
+              {journalSourceEnum.enumValues.map(source => (
+                <SelectItem key={source} value={source} className="capitalize">{source.replace(/_/g, ' ')}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {entriesLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-4 w-4 animate-spin" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No journal entries found</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Entry</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => {
+                  const isExpanded = expandedId === entry.id;
+                  return (
+                    <Fragment key={entry.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                        data-testid={`row-journal-${entry.id}`}
+                      >
+                        <TableCell>
+                          {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">{entry.entryNumber}</TableCell>
+                        <TableCell className="whitespace-nowrap">{format(new Date(entry.entryDate), "dd MMM yyyy")}</TableCell>
+                        <TableCell>{entry.description}</TableCell>
+                        <TableCell className="text-sm">
+                          <span className="capitalize">{entry.sourceType.replace(/_/g, ' ')}</span>
+                          {entry.sourceReference && <span className="text-muted-foreground"> {entry.sourceReference}</span>}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{formatAmount(entry.totalAmount)}</TableCell>
+                        <TableCell>
+                          <Badge className={getEntryStatusColor(entry.status)}>
+                            {entry.status.charAt(0).toUpperCase() + entry.status.slice(1)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
+                          {entry.status === 'draft' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={entryActionMutation.isPending}
+                              onClick={() => entryActionMutation.mutate({ id: entry.id, action: "post" })}
+                              data-testid={`button-post-journal-${entry.id}`}
+                            >
+                              <CheckCircle className="w-4 h-4 mr-1" />
+                              Post
+                            </Button>
+                          )}
+                          {entry.status === 'posted' && entry.sourceType !== 'reversal' && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={entryActionMutation.isPending}
+                              onClick={() => entryActionMutation.mutate({ id: entry.id, action: "reverse" })}
+                              data-testid={`button-reverse-journal-${entry.id}`}
+                            >
+                              <Undo2 className="w-4 h-4 mr-1" />
+                              Reverse
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell colSpan={8} className="bg-muted/30">
+                            <Table>
+                              <TableHeader>
+                                <TableRow>
+                                  <TableHead>Account</TableHead>
+                                  <TableHead>Memo</TableHead>
+                                  <TableHead className="text-right">Debit</TableHead>
+                                  <TableHead className="text-right">Credit</TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {entry.lines.map(line => (
+                                  <TableRow key={line.id}>
+                                    <TableCell>
+                                      <span className="font-mono">{line.account.code}</span> {line.account.name}
+                                    </TableCell>
+                                    <TableCell className="text-sm text-muted-foreground">{line.description || "-"}</TableCell>
+                                    <TableCell className="text-right font-mono">{Number(line.debit) ? formatAmount(line.debit) : ""}</TableCell>
+                                    <TableCell className="text-right font-mono">{Number(line.credit) ? formatAmount(line.credit) : ""}</TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <FxRevaluationCard />
+
+      <PeriodCloseCard />
+
+      <ManualJournalDialog open={isJournalDialogOpen} onOpenChange={setIsJournalDialogOpen} accounts={accounts} />
+    </div>
+  );
+}
+
+const AGING_COLUMNS: Array<{ key: keyof AgingBuckets; label: string }> = [
+  { key: "current", label: "Current" },
+  { key: "days0to30", label: "0-30" },
+  { key: "days31to60", label: "31-60" },
+  { key: "days61to90", label: "61-90" },
+  { key: "over90", label: "90+" },
+  { key: "total", label: "Total" },
+];
+
+const DUNNING_ACTION_LABELS: Record<DunningLevel["action"], string> = {
+  reminder: "Reminder",
+  notice: "Notice",
+  credit_hold: "Credit hold",
+};
+
+const EMPTY_DUNNING_LEVEL: InsertDunningLevel = {
+  level: 1,
+  name: "",
+  daysOverdue: 7,
+  action: "reminder",
+  communicationType: "email",
+  subjectTemplate: "",
+  bodyTemplate: "",
+  isActive: true,
+};
+
+function DunningLevelDialog({ level, nextLevel, onClose }: { level: DunningLevel | "new" | null; nextLevel: number; onClose: () => void }) {
+  const { toast } = useToast();
+  const isNew = level === "new";
+
+  const form = useForm<InsertDunningLevel>({
+    resolver: zodResolver(insertDunningLevelSchema),
+    values: level && level !== "new"
+      ? {
+          level: level.level,
+          name: level.name,
+          daysOverdue: level.daysOverdue,
+          action: level.action,
+          communicationType: level.communicationType,
+          subjectTemplate: level.subjectTemplate,
+          bodyTemplate: level.bodyTemplate,
+          isActive: level.isActive,
+        }
+      : { ...EMPTY_DUNNING_LEVEL, level: nextLevel },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertDunningLevel) => {
+      const response = isNew
+        ? await apiRequest("POST", "/api/dunning-levels", data)
+        : await apiRequest("PUT", `/api/dunning-levels/${(level as DunningLevel).id}`, data);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dunning-levels"] });
+      onClose();
+      toast({ title: "Success", description: "Dunning level saved" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save dunning level. ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={level !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{isNew ? "New Dunning Level" : "Edit Dunning Level"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="level"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Level</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" {...field} onChange={(e) => field.onChange(parseInt(e.target.value) || 0)} data-testid="input-dunning-level" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-dunning-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="daysOverdue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Days Overdue</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" {...field} onChange={(e) => field.onChange(parseInt(e.target.value) || 0)} data-testid="input-dunning-days" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="action"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Action</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-dunning-action">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(DUNNING_ACTION_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="communicationType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Channel</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-dunning-channel">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="email">Email</SelectItem>
+                        <SelectItem value="phone">Phone call</SelectItem>
+                        <SelectItem value="letter">Letter</SelectItem>
+                        <SelectItem value="sms">SMS</SelectItem>
+                        <SelectItem value="visit">Visit</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="subjectTemplate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Subject</FormLabel>
+                  <FormControl>
+                    <Input {...field} data-testid="input-dunning-subject" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="bodyTemplate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Message</FormLabel>
+                  <FormControl>
+                    <Textarea rows={8} {...field} data-testid="textarea-dunning-body" />
+                  </FormControl>
+                  <p className="text-body-small text-muted-foreground">
+                    Placeholders: {"{customer}"}, {"{invoices}"}, {"{totalDue}"}, {"{daysOverdue}"}, {"{company}"}
+                  </p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Status</FormLabel>
+                  <Select onValueChange={(value) => field.onChange(value === "active")} value={field.value ? "active" : "inactive"}>
+                    <FormControl>
+                      <SelectTrigger className="w-40" data-testid="select-dunning-status">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="active">Active</SelectItem>
+                      <SelectItem value="inactive">Inactive</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-dunning-level">
+                {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const WRITE_OFF_REASON_LABELS: Record<NonNullable<ReceiptAllocation["writeOffReason"]>, string> = {
+  bank_charges: "Bank charges",
+  withholding_tax: "Withholding tax",
+  settlement_discount: "Settlement discount",
+  pricing_dispute: "Pricing dispute",
+  small_balance: "Small balance",
+  bad_debt: "Bad debt",
+};
+
+type WriteOffReason = keyof typeof WRITE_OFF_REASON_LABELS;
+type AllocationDraft = { amount: string; writeOffAmount: string; writeOffReason: WriteOffReason | "" };
+
+function ReceiptAllocationDialog({ balance, receiptId, onClose }: {
+  balance: CustomerCreditBalance | null;
+  receiptId: string | null;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Record<string, AllocationDraft>>({});
+  const [reversalReason, setReversalReason] = useState("");
+  const receipt = balance?.receipts.find(r => r.id === receiptId);
+
+  const { data: allocations = [] } = useQuery<ReceiptAllocationDetail[]>({
+    queryKey: ["/api/crm/receipt-allocations", receiptId],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/crm/receipt-allocations?receiptId=${receiptId}`);
+      return await response.json();
+    },
+    enabled: !!receiptId,
+  });
+
+  const close = () => {
+    setDrafts({});
+    setReversalReason("");
+    onClose();
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/receivables/credit-balances"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/crm/receipt-allocations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/receivables/aging"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+  };
+
+  const allocateMutation = useMutation({
+    mutationFn: async (request: AllocateReceiptRequest): Promise<ReceiptAllocationResult> => {
+      const response = await apiRequest("POST", `/api/crm/receipts/${receiptId}/allocations`, request);
+      return await response.json();
+    },
+    onSuccess: (result) => {
+      invalidate();
+      close();
+      toast({
+        title: "Receipt allocated",
+        description: `${result.allocations.length} invoices settled, ${formatAmount(result.unappliedAmount)} left unapplied`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to allocate receipt. ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reverseMutation = useMutation({
+    mutationFn: async (allocationId: string) => {
+      const response = await apiRequest("POST", `/api/crm/receipt-allocations/${allocationId}/reverse`, { reason: reversalReason });
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setReversalReason("");
+      toast({ title: "Success", description: "Allocation reversed" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to reverse allocation. ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDraft = (invoiceId: string, change: Partial<AllocationDraft>) => {
+    setDrafts(current => ({
+      ...current,
+      [invoiceId]: { ...(current[invoiceId] ?? { amount: "", writeOffAmount: "", writeOffReason: "" }), ...change },
+    }));
+  };
+
+  const lines = Object.entries(drafts)
+    .map(([invoiceId, draft]) => ({
+      invoiceId,
+      amount: parseFloat(draft.amount) || 0,
+      writeOffAmount: parseFloat(draft.writeOffAmount) || undefined,
+      writeOffReason: draft.writeOffReason || undefined,
+    }))
+    .filter(line => line.amount > 0 || (line.writeOffAmount ?? 0) > 0);
+  const allocatedTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+
+  return (
+    <Dialog open={balance !== null && receiptId !== null} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Allocate Receipt {receipt?.receiptNumber}</DialogTitle>
+        </DialogHeader>
+        {balance && receipt && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm bg-muted/50 rounded-lg p-3">
+              <div>
+                <div className="font-medium">{balance.customerName}</div>
+                <div className="text-muted-foreground">
+                  Received {formatAmount(receipt.amount)} {receipt.currency} · {formatAmount(receipt.unappliedAmount)} unapplied
+                </div>
+              </div>
+              <Button
+                onClick={() => allocateMutation.mutate({ mode: "auto" })}
+                disabled={allocateMutation.isPending || balance.openInvoices.length === 0}
+                data-testid="button-auto-allocate"
+              >
+                {allocateMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+                Auto-allocate Oldest First
+              </Button>
+            </div>
+
+            {balance.openInvoices.length === 0 ? (
+              <p className="text-center text-muted-foreground py-4">No open invoices; the amount stays as customer credit</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead className="text-right">Open</TableHead>
+                    <TableHead className="w-32">Apply</TableHead>
+                    <TableHead className="w-32">Write Off</TableHead>
+                    <TableHead className="w-44">Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {balance.openInvoices.map(invoice => {
+                    const draft = drafts[invoice.id];
+                    return (
+                      <TableRow key={invoice.id}>
+                        <TableCell className="font-mono">{invoice.invoiceNumber}</TableCell>
+                        <TableCell>{format(new Date(invoice.dueDate), 'MMM dd, yyyy')}</TableCell>
+                        <TableCell className="text-right font-mono">{formatAmount(invoice.openAmount)}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={draft?.amount ?? ""}
+                            onChange={(e) => updateDraft(invoice.id, { amount: e.target.value })}
+                            data-testid={`input-allocate-${invoice.id}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={draft?.writeOffAmount ?? ""}
+                            onChange={(e) => updateDraft(invoice.id, { writeOffAmount: e.target.value })}
+                            data-testid={`input-write-off-${invoice.id}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={draft?.writeOffReason ?? ""}
+                            onValueChange={(value) => updateDraft(invoice.id, { writeOffReason: value as WriteOffReason })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="-" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(WRITE_OFF_REASON_LABELS).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            {balance.openInvoices.length > 0 && (
+              <div className="flex items-center justify-end gap-3">
+                <span className="text-sm text-muted-foreground">
+                  Applying {formatAmount(allocatedTotal)} of {formatAmount(receipt.unappliedAmount)}
+                </span>
+                <Button
+                  variant="outline"
+                  onClick={() => allocateMutation.mutate({ mode: "manual", allocations: lines })}
+                  disabled={allocateMutation.isPending || lines.length === 0}
+                  data-testid="button-allocate-lines"
+                >
+                  Allocate Lines
+                </Button>
+              </div>
+            )}
+
+            {allocations.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium">Allocations</h4>
+                  <Input
+                    className="w-72"
+                    placeholder="Reason for reversing"
+                    value={reversalReason}
+                    onChange={(e) => setReversalReason(e.target.value)}
+                    data-testid="input-reversal-reason"
+                  />
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Invoice</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Applied</TableHead>
+                      <TableHead className="text-right">Written Off</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {allocations.map(allocation => (
+                      <TableRow key={allocation.id} className={allocation.reversedAt ? "text-muted-foreground line-through" : undefined}>
+                        <TableCell className="font-mono">{allocation.invoiceNumber}</TableCell>
+                        <TableCell>{allocation.createdAt ? format(new Date(allocation.createdAt), 'MMM dd, yyyy') : "-"}</TableCell>
+                        <TableCell className="text-right font-mono">{formatAmount(allocation.amount)}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {Number(allocation.writeOffAmount) > 0
+                            ? `${formatAmount(allocation.writeOffAmount)} (${WRITE_OFF_REASON_LABELS[allocation.writeOffReason!]})`
+                            : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {!allocation.reversedAt && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => reverseMutation.mutate(allocation.id)}
+                              disabled={!reversalReason || reverseMutation.isPending}
+                              data-testid={`button-reverse-allocation-${allocation.id}`}
+                            >
+                              <Undo2 className="w-4 h-4 mr-1" />
+                              Reverse
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ReceivablesTab() {
+  const { toast } = useToast();
+  const [asOf, setAsOf] = useState(today());
+  const [groupBy, setGroupBy] = useState<"customer" | "salesRep">("customer");
+  const [editingLevel, setEditingLevel] = useState<DunningLevel | "new" | null>(null);
+  const [allocating, setAllocating] = useState<{ customerId: string; receiptId: string } | null>(null);
+
+  const { data: aging, isLoading: agingLoading } = useQuery<ReceivablesAging>({
+    queryKey: ["/api/receivables/aging", asOf],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/receivables/aging?asOf=${asOf}`);
+      return await response.json();
+    },
+  });
+
+  const { data: levels = [] } = useQuery<DunningLevel[]>({
+    queryKey: ["/api/dunning-levels"],
+  });
+
+  const { data: creditBalances = [] } = useQuery<CustomerCreditBalance[]>({
+    queryKey: ["/api/receivables/credit-balances"],
+  });
+
+  const runDunningMutation = useMutation({
+    mutationFn: async (): Promise<DunningRunResult> => {
+      const response = await apiRequest("POST", "/api/dunning/run", {});
+      return await response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/receivables/aging"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      toast({
+        title: "Dunning complete",
+        description: `${result.markedOverdue} invoices marked overdue, ${result.notices.length} customers notified`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to run dunning. ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rows = groupBy === "customer"
+    ? (aging?.customers ?? []).map(row => ({
+        key: row.customerId,
+        name: row.customerName,
+        detail: row.salesRepName ?? "Unassigned",
+        buckets: row as AgingBuckets,
+        dunningLevel: row.dunningLevel,
+        creditHold: row.creditHold,
+      }))
+    : (aging?.salesReps ?? []).map(row => ({
+        key: row.salesRepId ?? "unassigned",
+        name: row.salesRepName ?? "Unassigned",
+        detail: `${row.customerCount} customers`,
+        buckets: row as AgingBuckets,
+        dunningLevel: 0,
+        creditHold: false,
+      }));
+
+  return (
+    <div className="space-y-6">
+      <Card data-testid="card-receivables-aging">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Aged Receivables</CardTitle>
+          <div className="flex items-center gap-3">
+            <Input type="date" className="w-44" value={asOf} onChange={(e) => setAsOf(e.target.value || today())} data-testid="input-aging-as-of" />
+            <Select value={groupBy} onValueChange={(value) => setGroupBy(value as "customer" | "salesRep")}>
+              <SelectTrigger className="w-40" data-testid="select-aging-group">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="customer">By customer</SelectItem>
+                <SelectItem value="salesRep">By sales rep</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => runDunningMutation.mutate()}
+              disabled={runDunningMutation.isPending}
+              data-testid="button-run-dunning"
+            >
+              {runDunningMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Run Dunning
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {agingLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-4 w-4 animate-spin" />
+            </div>
+          ) : rows.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No open receivables</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{groupBy === "customer" ? "Customer" : "Sales Rep"}</TableHead>
+                  <TableHead>{groupBy === "customer" ? "Sales Rep" : "Customers"}</TableHead>
+                  {AGING_COLUMNS.map(column => (
+                    <TableHead key={column.key} className="text-right">{column.label}</TableHead>
+                  ))}
+                  {groupBy === "customer" && <TableHead>Dunning</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.key} data-testid={`row-aging-${row.key}`}>
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell className="text-muted-foreground">{row.detail}</TableCell>
+                    {AGING_COLUMNS.map(column => (
+                      <TableCell
+                        key={column.key}
+                        className={`text-right font-mono ${column.key === "over90" && row.buckets.over90 > 0 ? "text-red-600" : ""}`}
+                      >
+                        {row.buckets[column.key] ? formatAmount(row.buckets[column.key]) : "-"}
+                      </TableCell>
+                    ))}
+                    {groupBy === "customer" && (
+                      <TableCell>
+                        {row.creditHold ? (
+                          <Badge className="bg-red-100 text-red-800">Credit hold</Badge>
+                        ) : row.dunningLevel > 0 ? (
+                          <Badge className="bg-yellow-100 text-yellow-800">Level {row.dunningLevel}</Badge>
+                        ) : null}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+              {aging && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={2}>Total</TableCell>
+                    {AGING_COLUMNS.map(column => (
+                      <TableCell key={column.key} className="text-right font-mono">{formatAmount(aging.totals[column.key])}</TableCell>
+                    ))}
+                    {groupBy === "customer" && <TableCell />}
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-unapplied-cash">
+        <CardHeader>
+          <CardTitle>Unapplied Cash</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {creditBalances.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">All receipts are fully applied</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Receipt</TableHead>
+                  <TableHead>Received</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Unapplied</TableHead>
+                  <TableHead className="text-right">Customer Open Invoices</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {creditBalances.flatMap(balance => balance.receipts.map(receipt => (
+                  <TableRow key={receipt.id} data-testid={`row-unapplied-receipt-${receipt.id}`}>
+                    <TableCell className="font-medium">{balance.customerName}</TableCell>
+                    <TableCell className="font-mono">{receipt.receiptNumber}</TableCell>
+                    <TableCell>{receipt.createdAt ? format(new Date(receipt.createdAt), 'MMM dd, yyyy') : "-"}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(receipt.amount)} {receipt.currency}</TableCell>
+                    <TableCell className="text-right font-mono font-medium">{formatAmount(receipt.unappliedAmount)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(balance.openInvoiceAmount)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setAllocating({ customerId: balance.customerId, receiptId: receipt.id })}
+                        data-testid={`button-allocate-receipt-${receipt.id}`}
+                      >
+                        Allocate
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-dunning-levels">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Dunning Ladder</CardTitle>
+          <Button variant="outline" onClick={() => setEditingLevel("new")} data-testid="button-add-dunning-level">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Level
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Level</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Days Overdue</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Channel</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {levels.map(level => (
+                <TableRow key={level.id} data-testid={`row-dunning-level-${level.level}`}>
+                  <TableCell>{level.level}</TableCell>
+                  <TableCell className="font-medium">{level.name}</TableCell>
+                  <TableCell>{level.daysOverdue}</TableCell>
+                  <TableCell>{DUNNING_ACTION_LABELS[level.action]}</TableCell>
+                  <TableCell className="capitalize">{level.communicationType}</TableCell>
+                  <TableCell>
+                    <Badge className={level.isActive ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"}>
+                      {level.isActive ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setEditingLevel(level)} data-testid={`button-edit-dunning-level-${level.level}`}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <DunningLevelDialog
+        level={editingLevel}
+        nextLevel={Math.max(0, ...levels.map(level => level.level)) + 1}
+        onClose={() => setEditingLevel(null)}
+      />
+      <ReceiptAllocationDialog
+        balance={creditBalances.find(balance => balance.customerId === allocating?.customerId) ?? null}
+        receiptId={allocating?.receiptId ?? null}
+        onClose={() => setAllocating(null)}
+      />
+    </div>
+  );
+}
+
+const STATEMENT_LINE_STATUS_STYLES: Record<BankStatementLine["status"], string> = {
+  unmatched: "bg-yellow-100 text-yellow-800",
+  matched: "bg-green-100 text-green-800",
+  ignored: "bg-gray-100 text-gray-800",
+};
+
+// Statement format implied by the file extension; the user can still override it
+const statementFormatFromFileName = (fileName: string): ImportBankStatementRequest["format"] | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'xml') return 'camt053';
+  if (extension === 'sta' || extension === 'mt940' || extension === 'txt') return 'mt940';
+  return null;
+};
+
+function BankAccountDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [bankName, setBankName] = useState("");
+  const [iban, setIban] = useState("");
+  const [currency, setCurrency] = useState("AOA");
+
+  const createMutation = useMutation({
+    mutationFn: async (account: InsertBankAccount) => {
+      const response = await apiRequest("POST", "/api/bank-accounts", account);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-accounts"] });
+      onOpenChange(false);
+      setName("");
+      setBankName("");
+      setIban("");
+      toast({ title: "Success", description: "Bank account added" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to add bank account. ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Bank Account</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <Input placeholder="Account name, e.g. BFA current account" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-bank-account-name" />
+          <Input placeholder="Bank" value={bankName} onChange={(e) => setBankName(e.target.value)} data-testid="input-bank-account-bank" />
+          <div className="grid grid-cols-3 gap-4">
+            <Input className="col-span-2" placeholder="IBAN" value={iban} onChange={(e) => setIban(e.target.value)} data-testid="input-bank-account-iban" />
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger data-testid="select-bank-account-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="AOA">AOA</SelectItem>
+                <SelectItem value="USD">USD</SelectItem>
+                <SelectItem value="EUR">EUR</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-end gap-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button
+              disabled={!name || createMutation.isPending}
+              onClick={() => createMutation.mutate({ name, bankName: bankName || null, iban: iban || null, currency })}
+              data-testid="button-save-bank-account"
+            >
+              {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function BankLineMatchDialog({ line, onClose }: { line: BankStatementLineWithMatch | null; onClose: () => void }) {
+  const { toast } = useToast();
+
+  const { data: candidates = [], isLoading } = useQuery<BankLineMatchCandidate[]>({
+    queryKey: ["/api/bank-statement-lines", line?.id, "candidates"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/bank-statement-lines/${line!.id}/candidates`);
+      return await response.json();
+    },
+    enabled: !!line,
+  });
+
+  const matchMutation = useMutation({
+    mutationFn: async (candidate: BankLineMatchCandidate) => {
+      const response = await apiRequest("POST", `/api/bank-statement-lines/${line!.id}/match`,
+        candidate.kind === 'receipt' ? { receiptId: candidate.id } : { supplierPaymentId: candidate.id });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-statement-lines"] });
+      onClose();
+      toast({ title: "Success", description: "Statement line matched" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to match statement line. ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={line !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Match Statement Line</DialogTitle>
+        </DialogHeader>
+        {line && (
+          <div className="space-y-4">
+            <div className="text-sm bg-muted/50 rounded-lg p-3">
+              <div className="font-medium">{format(new Date(line.transactionDate), 'MMM dd, yyyy')} - {formatAmount(line.amount)}</div>
+              <div className="text-muted-foreground">{[line.counterpartyName, line.reference, line.description].filter(Boolean).join(' · ')}</div>
+            </div>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            ) : candidates.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                No open {Number(line.amount) > 0 ? "receipts" : "supplier payments"} of this amount
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Document</TableHead>
+                    <TableHead>{Number(line.amount) > 0 ? "Customer" : "Supplier"}</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {candidates.map(candidate => (
+                    <TableRow key={candidate.id}>
+                      <TableCell className="font-mono">{candidate.documentNumber}</TableCell>
+                      <TableCell>{candidate.partyName}</TableCell>
+                      <TableCell>
+                        {format(new Date(candidate.date), 'MMM dd, yyyy')}
+                        <span className="text-xs text-muted-foreground ml-1">({candidate.daysApart}d)</span>
+                      </TableCell>
+                      <TableCell>
+                        {candidate.reference ?? "-"}
+                        {candidate.referenceMatched && <Badge className="ml-2 bg-green-100 text-green-800">Ref match</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(candidate.amount)} {candidate.currency}</TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="outline" onClick={() => matchMutation.mutate(candidate)} disabled={matchMutation.isPending}>
+                          Match
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function BankLineReceiptDialog({ line, onClose }: { line: BankStatementLineWithMatch | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const [customerId, setCustomerId] = useState("");
+  const [invoiceId, setInvoiceId] = useState("none");
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+    enabled: !!line,
+  });
+
+  const { data: invoices = [] } = useQuery<InvoiceWithCustomer[]>({
+    queryKey: ["/api/invoices"],
+    enabled: !!line,
+  });
+
+  const openInvoices = invoices.filter(invoice =>
+    invoice.customerId === customerId &&
+    invoice.status !== 'draft' && invoice.status !== 'cancelled' &&
+    Number(invoice.totalAmount) > Number(invoice.paidAmount || 0));
+
+  const close = () => {
+    setCustomerId("");
+    setInvoiceId("none");
+    onClose();
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (request: CreateReceiptFromBankLineRequest) => {
+      const response = await apiRequest("POST", `/api/bank-statement-lines/${line!.id}/receipt`, request);
+      return await response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-statement-lines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/receivables/aging"] });
+      close();
+      toast({ title: "Success", description: `Receipt ${result.receipt.receiptNumber} created` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to create receipt. ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={line !== null} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Create Receipt from Statement Line</DialogTitle>
+        </DialogHeader>
+        {line && (
+          <div className="space-y-4">
+            <div className="text-sm bg-muted/50 rounded-lg p-3">
+              <div className="font-medium">{format(new Date(line.transactionDate), 'MMM dd, yyyy')} - {formatAmount(line.amount)}</div>
+              <div className="text-muted-foreground">{[line.counterpartyName, line.reference, line.description].filter(Boolean).join(' · ')}</div>
+            </div>
+            <Select value={customerId} onValueChange={(value) => { setCustomerId(value); setInvoiceId("none"); }}>
+              <SelectTrigger data-testid="select-receipt-customer">
+                <SelectValue placeholder="Select customer" />
+              </SelectTrigger>
+              <SelectContent>
+                {customers.map(customer => (
+                  <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={invoiceId} onValueChange={setInvoiceId} disabled={!customerId}>
+              <SelectTrigger data-testid="select-receipt-invoice">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Leave unapplied</SelectItem>
+                {openInvoices.map(invoice => (
+                  <SelectItem key={invoice.id} value={invoice.id}>
+                    {invoice.invoiceNumber} - {formatAmount(Number(invoice.totalAmount) - Number(invoice.paidAmount || 0))} open
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={close}>Cancel</Button>
+              <Button
+                disabled={!customerId || createMutation.isPending}
+                onClick={() => createMutation.mutate({ customerId, invoiceId: invoiceId === "none" ? undefined : invoiceId })}
+                data-testid="button-create-bank-receipt"
+              >
+                {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Create Receipt
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function BankReconciliationTab() {
+  const { toast } = useToast();
+  const [bankAccountId, setBankAccountId] = useState("");
+  const [statusFilter, setStatusFilter] = useState<BankStatementLine["status"] | "all">("unmatched");
+  const [statementFormat, setStatementFormat] = useState<ImportBankStatementRequest["format"]>("csv");
+  const [isAccountDialogOpen, setIsAccountDialogOpen] = useState(false);
+  const [matchingLine, setMatchingLine] = useState<BankStatementLineWithMatch | null>(null);
+  const [receiptLine, setReceiptLine] = useState<BankStatementLineWithMatch | null>(null);
+  const [periodEnd, setPeriodEnd] = useState(today());
+  const [statementBalance, setStatementBalance] = useState("");
+
+  const { data: accounts = [] } = useQuery<BankAccount[]>({
+    queryKey: ["/api/bank-accounts"],
+  });
+  const selectedAccountId = bankAccountId || accounts[0]?.id || "";
+  const selectedAccount = accounts.find(account => account.id === selectedAccountId);
+
+  const { data: lines = [], isLoading: linesLoading } = useQuery<BankStatementLineWithMatch[]>({
+    queryKey: ["/api/bank-statement-lines", selectedAccountId, statusFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams({ bankAccountId: selectedAccountId });
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      const response = await apiRequest("GET", `/api/bank-statement-lines?${params}`);
+      return await response.json();
+    },
+    enabled: !!selectedAccountId,
+  });
+
+  const { data: reconciliations = [] } = useQuery<BankReconciliation[]>({
+    queryKey: ["/api/bank-reconciliations", selectedAccountId],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/bank-reconciliations?bankAccountId=${selectedAccountId}`);
+      return await response.json();
+    },
+    enabled: !!selectedAccountId,
+  });
+
+  const showError = (action: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}. ${(error as Error).message}`,
+      variant: "destructive",
+    });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File): Promise<BankStatementImportResult> => {
+      const response = await apiRequest("POST", "/api/bank-statements/import", {
+        bankAccountId: selectedAccountId,
+        format: statementFormatFromFileName(file.name) ?? statementFormat,
+        fileName: file.name,
+        content: await file.text(),
+      });
+      return await response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-statement-lines"] });
+      const skipped = [
+        result.duplicates > 0 ? `${result.duplicates} already imported` : null,
+        result.skippedReconciled > 0 ? `${result.skippedReconciled} in a closed period` : null,
+      ].filter(Boolean).join(', ');
+      toast({
+        title: "Statement imported",
+        description: `${result.imported} lines imported, ${result.autoMatched} matched automatically${skipped ? ` (${skipped} skipped)` : ''}`,
+      });
+    },
+    onError: showError("import statement"),
+  });
+
+  const autoMatchMutation = useMutation({
+    mutationFn: async (): Promise<{ matched: number }> => {
+      const response = await apiRequest("POST", `/api/bank-accounts/${selectedAccountId}/auto-match`, {});
+      return await response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-statement-lines"] });
+      toast({ title: "Auto-match complete", description: `${result.matched} lines matched` });
+    },
+    onError: showError("match statement lines"),
+  });
+
+  const lineActionMutation = useMutation({
+    mutationFn: async ({ line, action }: { line: BankStatementLineWithMatch; action: "unmatch" | "ignore" | "restore" }) => {
+      const response = action === "unmatch"
+        ? await apiRequest("POST", `/api/bank-statement-lines/${line.id}/unmatch`, {})
+        : await apiRequest("POST", `/api/bank-statement-lines/${line.id}/ignore`, { ignored: action === "ignore" });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-statement-lines"] });
+    },
+    onError: showError("update statement line"),
+  });
+
+  const closePeriodMutation = useMutation({
+    mutationFn: async (request: CloseBankReconciliationRequest) => {
+      const response = await apiRequest("POST", "/api/bank-reconciliations", request);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-reconciliations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-statement-lines"] });
+      setStatementBalance("");
+      toast({ title: "Success", description: "Reconciliation period closed" });
+    },
+    onError: showError("close reconciliation period"),
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card data-testid="card-bank-statement-lines">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Bank Reconciliation</CardTitle>
+          <div className="flex items-center gap-3">
+            <Select value={selectedAccountId} onValueChange={setBankAccountId}>
+              <SelectTrigger className="w-56" data-testid="select-bank-account">
+                <SelectValue placeholder="Select bank account" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>{account.name} ({account.currency})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => setIsAccountDialogOpen(true)} data-testid="button-add-bank-account">
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!selectedAccount ? (
+            <p className="text-center text-muted-foreground py-8">Add a bank account to import statements</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-3">
+                <Select value={statementFormat} onValueChange={(value) => setStatementFormat(value as ImportBankStatementRequest["format"])}>
+                  <SelectTrigger className="w-40" data-testid="select-statement-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="csv">CSV</SelectItem>
+                    <SelectItem value="mt940">MT940</SelectItem>
+                    <SelectItem value="camt053">camt.053 XML</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="file"
+                  className="w-72"
+                  accept=".csv,.txt,.sta,.mt940,.xml"
+                  disabled={importMutation.isPending}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importMutation.mutate(file);
+                    e.target.value = "";
+                  }}
+                  data-testid="input-statement-file"
+                />
+                {importMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                <div className="flex-1" />
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as BankStatementLine["status"] | "all")}>
+                  <SelectTrigger className="w-36" data-testid="select-statement-line-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unmatched">Unmatched</SelectItem>
+                    <SelectItem value="matched">Matched</SelectItem>
+                    <SelectItem value="ignored">Ignored</SelectItem>
+                    <SelectItem value="all">All lines</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={() => autoMatchMutation.mutate()}
+                  disabled={autoMatchMutation.isPending}
+                  data-testid="button-auto-match"
+                >
+                  {autoMatchMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+                  Auto-match
+                </Button>
+              </div>
+
+              {linesLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                </div>
+              ) : lines.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No statement lines</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Details</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Matched To</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.map(line => (
+                      <TableRow key={line.id} data-testid={`row-statement-line-${line.id}`}>
+                        <TableCell>{format(new Date(line.transactionDate), 'MMM dd, yyyy')}</TableCell>
+                        <TableCell className="max-w-md">
+                          <div className="font-medium truncate">{line.counterpartyName ?? line.description ?? "-"}</div>
+                          <div className="text-xs text-muted-foreground truncate">
+                            {[line.reference, line.counterpartyName ? line.description : null].filter(Boolean).join(' · ')}
+                          </div>
+                        </TableCell>
+                        <TableCell className={`text-right font-mono ${Number(line.amount) < 0 ? "text-red-600" : "text-green-700"}`}>
+                          {formatAmount(line.amount)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={STATEMENT_LINE_STATUS_STYLES[line.status]}>{line.status}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {line.receipt && <span>{line.receipt.receiptNumber} · {line.receipt.customerName}</span>}
+                          {line.supplierPayment && <span>{line.supplierPayment.paymentNumber} · {line.supplierPayment.supplierName}</span>}
+                          {line.status === "matched" && !line.matchedBy && <span className="text-xs text-muted-foreground ml-1">(auto)</span>}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {line.reconciliationId ? (
+                            <span className="text-xs text-muted-foreground">Reconciled</span>
+                          ) : line.status === "unmatched" ? (
+                            <>
+                              <Button variant="ghost" size="sm" onClick={() => setMatchingLine(line)} data-testid={`button-match-line-${line.id}`}>
+                                Match
+                              </Button>
+                              {Number(line.amount) > 0 && (
+                                <Button variant="ghost" size="sm" onClick={() => setReceiptLine(line)} data-testid={`button-receipt-line-${line.id}`}>
+                                  <Plus className="w-4 h-4 mr-1" />
+                                  Receipt
+                                </Button>
+                              )}
+                              <Button variant="ghost" size="sm" onClick={() => lineActionMutation.mutate({ line, action: "ignore" })} disabled={lineActionMutation.isPending}>
+                                Ignore
+                              </Button>
+                            </>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => lineActionMutation.mutate({ line, action: line.status === "matched" ? "unmatch" : "restore" })}
+                              disabled={lineActionMutation.isPending}
+                            >
+                              <Undo2 className="w-4 h-4 mr-1" />
+                              {line.status === "matched" ? "Unmatch" : "Restore"}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedAccount && (
+        <Card data-testid="card-bank-reconciliations">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Reconciliation Periods</CardTitle>
+            <div className="flex items-center gap-3">
+              <Input type="date" className="w-44" value={periodEnd} onChange={(e) => setPeriodEnd(e.target.value)} data-testid="input-reconciliation-period-end" />
+              <Input
+                type="number"
+                step="0.01"
+                className="w-44"
+                placeholder="Statement balance"
+                value={statementBalance}
+                onChange={(e) => setStatementBalance(e.target.value)}
+                data-testid="input-reconciliation-balance"
+              />
+              <Button
+                onClick={() => closePeriodMutation.mutate({
+                  bankAccountId: selectedAccount.id,
+                  periodEnd,
+                  statementBalance: statementBalance ? parseFloat(statementBalance) : undefined,
+                })}
+                disabled={!periodEnd || closePeriodMutation.isPending}
+                data-testid="button-close-reconciliation"
+              >
+                {closePeriodMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+                Close Period
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {reconciliations.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No closed periods yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead className="text-right">Lines</TableHead>
+                    <TableHead className="text-right">Net Movement</TableHead>
+                    <TableHead className="text-right">Statement Balance</TableHead>
+                    <TableHead>Closed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reconciliations.map(reconciliation => (
+                    <TableRow key={reconciliation.id}>
+                      <TableCell>
+                        {format(new Date(reconciliation.periodStart), 'MMM dd, yyyy')} - {format(new Date(reconciliation.periodEnd), 'MMM dd, yyyy')}
+                      </TableCell>
+                      <TableCell className="text-right">{reconciliation.lineCount}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(reconciliation.reconciledTotal)}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {reconciliation.statementBalance !== null ? formatAmount(reconciliation.statementBalance) : "-"}
+                      </TableCell>
+                      <TableCell>{reconciliation.closedAt ? format(new Date(reconciliation.closedAt), 'MMM dd, yyyy') : "-"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <BankAccountDialog open={isAccountDialogOpen} onOpenChange={setIsAccountDialogOpen} />
+      <BankLineMatchDialog line={matchingLine} onClose={() => setMatchingLine(null)} />
+      <BankLineReceiptDialog line={receiptLine} onClose={() => setReceiptLine(null)} />
+    </div>
+  );
+}
+
+const TAX_CATEGORY_LABELS: Record<TaxCode["category"], string> = {
+  normal: "Normal",
+  reduced: "Reduced",
+  exempt: "Exempt",
+  not_subject: "Not subject",
+};
+
+function TaxCodeDialog({ taxCode, onClose }: { taxCode: TaxCode | "new" | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const editing = taxCode && taxCode !== "new" ? taxCode : null;
+
+  const form = useForm<InsertTaxCode>({
+    resolver: zodResolver(insertTaxCodeSchema),
+    values: {
+      code: editing?.code ?? "",
+      name: editing?.name ?? "",
+      category: editing?.category ?? "normal",
+      rate: editing?.rate ?? "14",
+      exemptionCode: editing?.exemptionCode ?? null,
+      exemptionReason: editing?.exemptionReason ?? null,
+      isActive: editing?.isActive ?? true,
+    },
+  });
+  const category = form.watch("category");
+  const taxable = category === "normal" || category === "reduced";
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertTaxCode) => {
+      const response = editing
+        ? await apiRequest("PATCH", `/api/tax/codes/${editing.id}`, data)
+        : await apiRequest("POST", "/api/tax/codes", data);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax/codes"] });
+      onClose();
+      toast({ title: "Success", description: editing ? "Tax code updated" : "Tax code created" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save tax code. ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={taxCode !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{editing ? `Edit ${editing.code}` : "New Tax Code"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => saveMutation.mutate(
+              // Exempt and not-subject codes carry no IVA; taxable codes cite no exemption
+              taxable ? { ...data, exemptionCode: null, exemptionReason: null } : { ...data, rate: "0" }
+            ))}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code</FormLabel>
+                    <FormControl>
+                      <Input {...field} disabled={!!editing} data-testid="input-tax-code" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-tax-code-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-tax-code-category">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(TAX_CATEGORY_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {taxable ? (
+                <FormField
+                  control={form.control}
+                  name="rate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rate %</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" {...field} data-testid="input-tax-code-rate" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="exemptionCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>AGT exemption code</FormLabel>
+                      <FormControl>
+                        <Input {...field} value={field.value ?? ""} placeholder="e.g. M11" data-testid="input-tax-code-exemption-code" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+            {!taxable && (
+              <FormField
+                control={form.control}
+                name="exemptionReason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Exemption reason (printed on invoices)</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} value={field.value ?? ""} rows={2} data-testid="input-tax-code-exemption-reason" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <input type="checkbox" checked={field.value ?? true} onChange={(e) => field.onChange(e.target.checked)} data-testid="checkbox-tax-code-active" />
+                  </FormControl>
+                  <FormLabel>Active</FormLabel>
+                </FormItem>
+              )}
+            />
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-tax-code">
+                {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function VatReturnLinesTable({ title, lines, total, testId }: { title: string; lines: VatReturnLine[]; total: number; testId: string }) {
+  return (
+    <div>
+      <h4 className="font-medium mb-2">{title}</h4>
+      <Table data-testid={testId}>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Code</TableHead>
+            <TableHead className="text-right">Rate</TableHead>
+            <TableHead className="text-right">Documents</TableHead>
+            <TableHead className="text-right">Taxable</TableHead>
+            <TableHead className="text-right">IVA</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {lines.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-muted-foreground">No documents in this period</TableCell>
+            </TableRow>
+          ) : lines.map(line => (
+            <TableRow key={line.taxCodeId ?? `legacy-${line.rate}`}>
+              <TableCell>
+                {line.code}
+                {line.exemptionCode && <Badge variant="outline" className="ml-2">{line.exemptionCode}</Badge>}
+              </TableCell>
+              <TableCell className="text-right">{line.rate}%</TableCell>
+              <TableCell className="text-right">{line.documentCount}</TableCell>
+              <TableCell className="text-right">{formatAmount(line.taxableAmount)}</TableCell>
+              <TableCell className="text-right">{formatAmount(line.taxAmount)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell colSpan={4}>Total</TableCell>
+            <TableCell className="text-right">{formatAmount(total)}</TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+    </div>
+  );
+}
+
+// Whether the server checked the file against the AGT's XSD before sending it
+async function downloadSaftFile(from: string, to: string, includeGeneralLedger: boolean): Promise<boolean> {
+  const response = await fetch(`/api/tax/saft?from=${from}&to=${to}&includeGeneralLedger=${includeGeneralLedger}`, {
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || 'Export failed');
+  }
+
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? `SAFT_AO_${from}_${to}.xml`;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+  return response.headers.get('X-SAFT-XSD-Validated') === 'true';
+}
+
+function TaxTab() {
+  const { toast } = useToast();
+  const [editingTaxCode, setEditingTaxCode] = useState<TaxCode | "new" | null>(null);
+  const [mappingCategory, setMappingCategory] = useState("");
+  const [mappingTaxCodeId, setMappingTaxCodeId] = useState("");
+  const [from, setFrom] = useState(() => `${today().slice(0, 7)}-01`);
+  const [to, setTo] = useState(today());
+  const [saftIncludesLedger, setSaftIncludesLedger] = useState(false);
+
+  const { data: taxCodes = [], isLoading: taxCodesLoading } = useQuery<TaxCode[]>({
+    queryKey: ["/api/tax/codes"],
+  });
+
+  const { data: categoryCodes = [] } = useQuery<(CategoryTaxCode & { taxCode: TaxCode })[]>({
+    queryKey: ["/api/tax/category-codes"],
+  });
+
+  // Product categories are free text, so the mapping offers the ones in use
+  const { data: products = [] } = useQuery<{ category: string | null }[]>({
+    queryKey: ["/api/products"],
+  });
+  const categories = Array.from(new Set(products.map(product => product.category).filter((category): category is string => !!category))).sort();
+
+  const { data: vatReturn, isLoading: vatReturnLoading } = useQuery<VatReturn>({
+    queryKey: ["/api/tax/vat-return", from, to],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/tax/vat-return?from=${from}&to=${to}`);
+      return await response.json();
+    },
+    enabled: !!from && !!to && from <= to,
+  });
+
+  const showError = (action: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}. ${(error as Error).message}`,
+      variant: "destructive",
+    });
+  };
+
+  const setMappingMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/tax/category-codes", { category: mappingCategory, taxCodeId: mappingTaxCodeId });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax/category-codes"] });
+      setMappingCategory("");
+      setMappingTaxCodeId("");
+    },
+    onError: showError("set category tax code"),
+  });
+
+  const deleteMappingMutation = useMutation({
+    mutationFn: async (category: string) => {
+      await apiRequest("DELETE", `/api/tax/category-codes/${encodeURIComponent(category)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax/category-codes"] });
+    },
+    onError: showError("remove category tax code"),
+  });
+
+  const saftExportMutation = useMutation({
+    mutationFn: () => downloadSaftFile(from, to, saftIncludesLedger),
+    onSuccess: (xsdValidated) => {
+      if (!xsdValidated) {
+        toast({
+          title: "Not validated",
+          description: "The SAF-T file was exported without checking it against the XSD; set SAFT_AO_XSD_PATH on the server to validate it",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: showError("export SAF-T file"),
+  });
+
+  const verifySignaturesMutation = useMutation({
+    mutationFn: async (): Promise<FiscalChainVerification> => {
+      const response = await apiRequest("GET", "/api/tax/signatures/verify");
+      return await response.json();
+    },
+    onError: showError("verify document signatures"),
+  });
+  const verification = verifySignaturesMutation.data;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card data-testid="card-tax-codes">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>IVA Tax Codes</CardTitle>
+            <Button variant="outline" onClick={() => setEditingTaxCode("new")} data-testid="button-add-tax-code">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Code
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {taxCodesLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {taxCodes.map(taxCode => (
+                    <TableRow key={taxCode.id} className={taxCode.isActive ? "" : "opacity-50"} data-testid={`row-tax-code-${taxCode.code}`}>
+                      <TableCell className="font-medium">
+                        {taxCode.code}
+                        {taxCode.exemptionCode && <Badge variant="outline" className="ml-2">{taxCode.exemptionCode}</Badge>}
+                      </TableCell>
+                      <TableCell>{taxCode.name}</TableCell>
+                      <TableCell>{TAX_CATEGORY_LABELS[taxCode.category]}</TableCell>
+                      <TableCell className="text-right">{parseFloat(taxCode.rate)}%</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => setEditingTaxCode(taxCode)} data-testid={`button-edit-tax-code-${taxCode.code}`}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card data-testid="card-category-tax-codes">
+          <CardHeader>
+            <CardTitle>Category Defaults</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Products without their own tax code use their category's code, then the default_tax_code setting.
+            </p>
+            <div className="flex items-center gap-3">
+              <Select value={mappingCategory} onValueChange={setMappingCategory}>
+                <SelectTrigger className="flex-1" data-testid="select-mapping-category">
+                  <SelectValue placeholder="Category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map(category => (
+                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={mappingTaxCodeId} onValueChange={setMappingTaxCodeId}>
+                <SelectTrigger className="w-40" data-testid="select-mapping-tax-code">
+                  <SelectValue placeholder="Tax code" />
+                </SelectTrigger>
+                <SelectContent>
+                  {taxCodes.filter(taxCode => taxCode.isActive).map(taxCode => (
+                    <SelectItem key={taxCode.id} value={taxCode.id}>{taxCode.code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                disabled={!mappingCategory || !mappingTaxCodeId || setMappingMutation.isPending}
+                onClick={() => setMappingMutation.mutate()}
+                data-testid="button-save-category-tax-code"
+              >
+                Set
+              </Button>
+            </div>
+            <Table>
+              <TableBody>
+                {categoryCodes.length === 0 ? (
+                  <TableRow>
+                    <TableCell className="text-center text-muted-foreground">No category defaults</TableCell>
+                  </TableRow>
+                ) : categoryCodes.map(mapping => (
+                  <TableRow key={mapping.category}>
+                    <TableCell>{mapping.category}</TableCell>
+                    <TableCell>{mapping.taxCode.code} ({parseFloat(mapping.taxCode.rate)}%)</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => deleteMappingMutation.mutate(mapping.category)} data-testid={`button-delete-category-tax-code-${mapping.category}`}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card data-testid="card-vat-return">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>IVA Return</CardTitle>
+          <div className="flex items-center gap-3">
+            <Input type="date" className="w-40" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-vat-return-from" />
+            <span className="text-muted-foreground">to</span>
+            <Input type="date" className="w-40" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-vat-return-to" />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {vatReturnLoading || !vatReturn ? (
+            <Skeleton className="h-48 w-full" />
+          ) : (
+            <>
+              <VatReturnLinesTable title="Output IVA (sales and POS)" lines={vatReturn.outputLines} total={vatReturn.outputTax} testId="table-vat-output" />
+              <VatReturnLinesTable title="Deductible input IVA (vendor bills)" lines={vatReturn.inputLines} total={vatReturn.inputTax} testId="table-vat-input" />
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="p-4 rounded-lg bg-muted/50">
+                  <p className="text-sm text-muted-foreground">{vatReturn.netTax >= 0 ? "IVA payable" : "IVA to recover"} ({vatReturn.baseCurrency})</p>
+                  <p className="text-2xl font-bold" data-testid="text-vat-net">{formatAmount(Math.abs(vatReturn.netTax))}</p>
+                </div>
+                <div className="p-4 rounded-lg bg-muted/50">
+                  <p className="text-sm text-muted-foreground">Output IVA in the ledger</p>
+                  <p className="text-lg font-semibold" data-testid="text-vat-ledger-output">{formatAmount(vatReturn.ledgerOutputTax)}</p>
+                  {Math.abs(vatReturn.ledgerOutputTax - vatReturn.outputTax) >= 0.01 && (
+                    <p className="text-sm text-amber-600">Differs from the documents by {formatAmount(vatReturn.ledgerOutputTax - vatReturn.outputTax)}</p>
+                  )}
+                </div>
+                <div className="p-4 rounded-lg bg-muted/50">
+                  <p className="text-sm text-muted-foreground">Input IVA in the ledger</p>
+                  <p className="text-lg font-semibold" data-testid="text-vat-ledger-input">{formatAmount(vatReturn.ledgerInputTax)}</p>
+                  {Math.abs(vatReturn.ledgerInputTax - vatReturn.inputTax) >= 0.01 && (
+                    <p className="text-sm text-amber-600">Differs from the documents by {formatAmount(vatReturn.ledgerInputTax - vatReturn.inputTax)}</p>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-saft-export">
+        <CardHeader>
+          <CardTitle>SAF-T (AO) Export</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            Audit file for the AGT covering {from} to {to}: customers, suppliers, products, sales documents and receipts.
+          </p>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={saftIncludesLedger}
+                onCheckedChange={(checked) => setSaftIncludesLedger(checked === true)}
+                data-testid="checkbox-saft-general-ledger"
+              />
+              Include general ledger
+            </label>
+            <Button
+              onClick={() => saftExportMutation.mutate()}
+              disabled={!from || !to || from > to || saftExportMutation.isPending}
+              data-testid="button-export-saft"
+            >
+              {saftExportMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              Export SAF-T
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-fiscal-signatures">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Document Signatures</CardTitle>
+          <Button
+            variant="outline"
+            onClick={() => verifySignaturesMutation.mutate()}
+            disabled={verifySignaturesMutation.isPending}
+            data-testid="button-verify-signatures"
+          >
+            {verifySignaturesMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+            Verify Hash Chains
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {!verification ? (
+            <p className="text-sm text-muted-foreground">
+              Invoices, credit notes and POS receipts are signed in a hash chain per series. Verify the chains before submitting a SAF-T file.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <Table data-testid="table-signature-chains">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Series</TableHead>
+                    <TableHead className="text-right">Documents</TableHead>
+                    <TableHead>Last document</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {verification.chains.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">No signed documents yet</TableCell>
+                    </TableRow>
+                  ) : verification.chains.map(chain => (
+                    <TableRow key={chain.series}>
+                      <TableCell className="font-mono">{chain.series}</TableCell>
+                      <TableCell className="text-right">{chain.documents}</TableCell>
+                      <TableCell className="font-mono">{chain.lastDocumentNumber}</TableCell>
+                      <TableCell>
+                        <Badge variant={chain.intact ? "default" : "destructive"}>{chain.intact ? "Intact" : "Broken"}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {verification.breaks.length > 0 && (
+                <div className="space-y-1" data-testid="list-signature-breaks">
+                  {verification.breaks.map((chainBreak, index) => (
+                    <p key={index} className="text-sm text-destructive">
+                      <span className="font-mono">{chainBreak.documentNumber}</span>: {chainBreak.problem}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <TaxCodeDialog taxCode={editingTaxCode} onClose={() => setEditingTaxCode(null)} />
+    </div>
+  );
+}
+
+// Stock at cost on a date; without a warehouse filter it is set against the inventory account
+function StockValuationCard() {
+  const [asOf, setAsOf] = useState(today());
+  const [warehouseId, setWarehouseId] = useState("all");
+
+  const { data: warehouses = [] } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const { data: valuation, isLoading } = useQuery<StockValuation>({
+    queryKey: ["/api/inventory/valuation", asOf, warehouseId],
+    queryFn: async () => {
+      const warehouseFilter = warehouseId === "all" ? "" : `&warehouseId=${warehouseId}`;
+      const response = await apiRequest("GET", `/api/inventory/valuation?asOf=${asOf}${warehouseFilter}`);
+      return await response.json();
+    },
+    enabled: !!asOf,
+  });
+
+  const difference = valuation && valuation.glInventoryBalance !== null
+    ? (Math.round(valuation.totalValue * 100) - Math.round(valuation.glInventoryBalance * 100)) / 100
+    : null;
+
+  return (
+    <Card data-testid="card-stock-valuation">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center">
+          <Calculator className="w-5 h-5 mr-2" />
+          Stock Valuation
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Select value={warehouseId} onValueChange={setWarehouseId}>
+            <SelectTrigger className="w-48" data-testid="select-valuation-warehouse">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All warehouses</SelectItem>
+              {warehouses.map(warehouse => (
+                <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input type="date" className="w-44" value={asOf} onChange={(e) => setAsOf(e.target.value)} data-testid="input-valuation-date" />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !valuation || valuation.lines.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No stock on hand on {asOf}.</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                  <TableHead className="text-right">Value ({valuation.baseCurrency})</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {valuation.lines.map(line => (
+                  <TableRow key={line.productId} data-testid={`row-valuation-${line.productId}`}>
+                    <TableCell>
+                      <span className="font-mono">{line.sku}</span>
+                      <span className="ml-2">{line.productName}</span>
+                    </TableCell>
+                    <TableCell>{line.costingMethod === "fifo" ? "FIFO" : "Weighted average"}</TableCell>
+                    <TableCell className="text-right">
+                      {line.quantity}
+                      {line.uncostedQuantity !== 0 && (
+                        <span className="ml-2 text-xs text-yellow-700">{line.uncostedQuantity} uncosted</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{line.unitCost.toFixed(4)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(line.value)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={4}>Total</TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(valuation.totalValue)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+            {valuation.glInventoryBalance !== null && (
+              <div className="flex items-center gap-2 text-sm" data-testid="text-valuation-ledger-tie">
+                {difference === 0 ? <CheckCircle className="w-4 h-4 text-green-600" /> : <AlertCircle className="w-4 h-4 text-yellow-600" />}
+                Inventory account {formatAmount(valuation.glInventoryBalance)}
+                {difference !== 0 && <span className="text-yellow-700">· difference {formatAmount(difference ?? 0)}</span>}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function MarginSummaryTable({ title, rows, testId }: { title: string; rows: MarginSummary[]; testId: string }) {
+  return (
+    <div data-testid={testId}>
+      <h4 className="font-medium mb-2">{title}</h4>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead className="text-right">Revenue</TableHead>
+            <TableHead className="text-right">Cost</TableHead>
+            <TableHead className="text-right">Margin</TableHead>
+            <TableHead className="text-right">%</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.id ?? row.name}>
+              <TableCell>{row.name}</TableCell>
+              <TableCell className="text-right font-mono">{formatAmount(row.revenue)}</TableCell>
+              <TableCell className="text-right font-mono">{formatAmount(row.cost)}</TableCell>
+              <TableCell className={`text-right font-mono ${row.margin < 0 ? 'text-red-600' : ''}`}>{formatAmount(row.margin)}</TableCell>
+              <TableCell className="text-right">{row.marginPercent === null ? "—" : `${row.marginPercent.toFixed(1)}%`}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function MarginReportCard() {
+  const [from, setFrom] = useState(() => `${today().slice(0, 7)}-01`);
+  const [to, setTo] = useState(today());
+  const [view, setView] = useState<"product" | "customer" | "line">("product");
+
+  const { data: report, isLoading } = useQuery<MarginReport>({
+    queryKey: ["/api/reports/margins", from, to],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/reports/margins?from=${from}&to=${to}`);
+      return await response.json();
+    },
+    enabled: !!from && !!to && from <= to,
+  });
+
+  return (
+    <Card data-testid="card-margin-report">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center">
+          <TrendingUp className="w-5 h-5 mr-2" />
+          Gross Margin
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Select value={view} onValueChange={(value) => setView(value as typeof view)}>
+            <SelectTrigger className="w-40" data-testid="select-margin-view">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="product">By product</SelectItem>
+              <SelectItem value="customer">By customer</SelectItem>
+              <SelectItem value="line">By invoice line</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input type="date" className="w-44" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-margin-from" />
+          <Input type="date" className="w-44" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-margin-to" />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !report || report.lines.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No sales in this period.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Revenue ({report.baseCurrency})</p>
+                <p className="font-mono text-lg">{formatAmount(report.totals.revenue)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Cost of sales</p>
+                <p className="font-mono text-lg">{formatAmount(report.totals.cost)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Gross margin</p>
+                <p className="font-mono text-lg" data-testid="text-gross-margin">{formatAmount(report.totals.margin)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Margin %</p>
+                <p className="text-lg">{report.totals.marginPercent === null ? "—" : `${report.totals.marginPercent.toFixed(1)}%`}</p>
+              </div>
+            </div>
+
+            {view === "product" && <MarginSummaryTable title="By product" rows={report.byProduct} testId="table-margin-by-product" />}
+            {view === "customer" && <MarginSummaryTable title="By customer" rows={report.byCustomer} testId="table-margin-by-customer" />}
+            {view === "line" && (
+              <Table data-testid="table-margin-lines">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Document</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Revenue</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead className="text-right">Margin</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.lines.map((line, index) => (
+                    <TableRow key={`${line.documentId}-${index}`}>
+                      <TableCell className="font-mono">{line.documentNumber}</TableCell>
+                      <TableCell>{line.documentDate}</TableCell>
+                      <TableCell>{line.customerName}</TableCell>
+                      <TableCell>{line.productName}</TableCell>
+                      <TableCell className="text-right">{line.quantity}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(line.revenue)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(line.cost)}</TableCell>
+                      <TableCell className={`text-right font-mono ${line.margin < 0 ? 'text-red-600' : ''}`}>{formatAmount(line.margin)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function Finance() {
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
@@ -87,7 +3213,7 @@ export default function Finance() {
   const form = useForm<InsertInvoice>({
     resolver: zodResolver(insertInvoiceSchema),
     defaultValues: {
-      invoiceNumber: `INV-${new Date().getFullYear()}-${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`,
+      invoiceNumber: "",
       customerId: "",
       salesOrderId: undefined,
       invoiceDate: new Date().toISOString().split('T')[0],
@@ -110,7 +3236,7 @@ export default function Finance() {
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       setIsCreateInvoiceModalOpen(false);
       form.reset({
-        invoiceNumber: `INV-${new Date().getFullYear()}-${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`,
+        invoiceNumber: "",
         customerId: "",
         salesOrderId: undefined,
         invoiceDate: new Date().toISOString().split('T')[0],
@@ -345,9 +3471,13 @@ export default function Finance() {
 
           {/* Tabs for different finance sections */}
           <Tabs defaultValue="invoices" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-7">
               <TabsTrigger value="invoices" data-testid="tab-invoices">Invoices</TabsTrigger>
+              <TabsTrigger value="receivables" data-testid="tab-receivables">Receivables</TabsTrigger>
+              <TabsTrigger value="bank" data-testid="tab-bank">Bank</TabsTrigger>
               <TabsTrigger value="transactions" data-testid="tab-transactions">Transactions</TabsTrigger>
+              <TabsTrigger value="ledger" data-testid="tab-ledger">Ledger</TabsTrigger>
+              <TabsTrigger value="tax" data-testid="tab-tax">Tax</TabsTrigger>
               <TabsTrigger value="reports" data-testid="tab-reports">Reports</TabsTrigger>
             </TabsList>
 
@@ -400,9 +3530,9 @@ export default function Finance() {
                             name="invoiceNumber"
                             render={({ field }) => (
                               <FormItem>
-                                <FormLabel>Invoice Number *</FormLabel>
+                                <FormLabel>Invoice Number</FormLabel>
                                 <FormControl>
-                                  <Input placeholder="INV-2024-0001" {...field} data-testid="input-invoice-number" />
+                                  <Input placeholder="Assigned automatically" {...field} data-testid="input-invoice-number" />
                                 </FormControl>
                                 <FormMessage />
                               </FormItem>
@@ -485,9 +3615,10 @@ export default function Finance() {
                             name="taxAmount"
                             render={({ field }) => (
                               <FormItem>
-                                <FormLabel>Tax Amount</FormLabel>
+                                <FormLabel>IVA</FormLabel>
                                 <FormControl>
-                                  <Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value ?? ''} data-testid="input-invoice-tax-amount" />
+                                  {/* Worked out on save from the customer's tax code */}
+                                  <Input type="number" step="0.01" placeholder="Calculated" {...field} value={field.value ?? ''} readOnly data-testid="input-invoice-tax-amount" />
                                 </FormControl>
                                 <FormMessage />
                               </FormItem>
@@ -597,6 +3728,11 @@ export default function Finance() {
                                   <div className="font-mono text-sm" data-testid={`text-invoice-number-${invoice.id}`}>
                                     {invoice.invoiceNumber}
                                   </div>
+                                  {invoice.hashExcerpt && (
+                                    <div className="font-mono text-xs text-muted-foreground" title="Signature excerpt" data-testid={`text-invoice-hash-${invoice.id}`}>
+                                      {invoice.hashExcerpt}
+                                    </div>
+                                  )}
                                 </td>
                                 <td className="px-6 py-4">
                                   <div>
@@ -776,8 +3912,32 @@ export default function Finance() {
               </Card>
             </TabsContent>
 
+            {/* Receivables Aging & Dunning Tab */}
+            <TabsContent value="receivables">
+              <ReceivablesTab />
+            </TabsContent>
+
+            {/* Bank Statement Reconciliation Tab */}
+            <TabsContent value="bank">
+              <BankReconciliationTab />
+            </TabsContent>
+
+            {/* General Ledger Tab */}
+            <TabsContent value="ledger">
+              <GeneralLedgerTab />
+            </TabsContent>
+
+            {/* IVA Tax Codes & Return Tab */}
+            <TabsContent value="tax">
+              <TaxTab />
+            </TabsContent>
+
             {/* Reports Tab */}
-            <TabsContent value="reports">
+            <TabsContent value="reports" className="space-y-6">
+              <MarginReportCard />
+
+              <StockValuationCard />
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <Card data-testid="card-financial-reports">
                   <CardHeader>
@@ -11,10 +11,25 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Package, Search, Plus, AlertTriangle, Calendar, MapPin, Hash, Pill, Loader2 } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Package, Search, Plus, AlertTriangle, Calendar, MapPin, Hash, Pill, Loader2, ClipboardList, Check, X } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertInventorySchema, type Inventory, type Product, type Warehouse, type InsertInventory } from "@shared/schema";
+import {
+  insertInventorySchema,
+  type Inventory,
+  type Product,
+  type Warehouse,
+  type InsertInventory,
+  type StockCount,
+  type StockCountLine,
+  type StockCountSummary,
+  type StockCountDetail,
+  type CycleCountSchedule,
+  type AbcClass
+} from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
@@ -22,6 +37,496 @@ import { format, differenceInDays } from "date-fns";
 
 interface InventoryWithProduct extends Inventory {
   product: Product;
+  reservedQuantity: number;
+}
+
+const todayIso = () => new Date().toISOString().split('T')[0];
+
+const formatMoney = (amount: number | string, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'AOA' }).format(Number(amount) || 0);
+
+const STOCK_COUNT_STATUS_COLORS: Record<StockCount['status'], string> = {
+  counting: 'bg-blue-100 text-blue-800',
+  review: 'bg-orange-100 text-orange-800',
+  posted: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+const APPROVAL_COLORS: Record<StockCountLine['approvalStatus'], string> = {
+  not_required: 'bg-gray-100 text-gray-800',
+  pending: 'bg-orange-100 text-orange-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+const ABC_COLORS: Record<AbcClass, string> = {
+  A: 'bg-red-100 text-red-800',
+  B: 'bg-orange-100 text-orange-800',
+  C: 'bg-gray-100 text-gray-800',
+};
+
+const headerCell = "px-4 py-2 text-muted-foreground text-xs uppercase tracking-wider";
+
+function useShowError() {
+  const { toast } = useToast();
+  return (action: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}. ${(error as Error).message}`,
+      variant: "destructive",
+    });
+  };
+}
+
+function CycleCountScheduleCard({ warehouses, onCreated }: {
+  warehouses: Warehouse[];
+  onCreated: (count: StockCountDetail) => void;
+}) {
+  const { toast } = useToast();
+  const showError = useShowError();
+  const [weekOf, setWeekOf] = useState(todayIso());
+  const [warehouseId, setWarehouseId] = useState("");
+
+  const { data: schedule, isLoading } = useQuery<CycleCountSchedule>({
+    queryKey: [`/api/inventory/stock-counts/schedule?weekOf=${weekOf}${warehouseId ? `&warehouseId=${warehouseId}` : ''}`],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/inventory/stock-counts", {
+        warehouseId,
+        countType: 'cycle',
+        isBlind: true,
+        productIds: schedule?.products.map(line => line.productId) ?? [],
+        notes: `Cycle count for the week of ${schedule?.weekStart}`,
+      });
+      return await response.json() as StockCountDetail;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock-counts"] });
+      onCreated(count);
+      toast({ title: "Success", description: `Cycle count ${count.countNumber} created` });
+    },
+    onError: showError("create the cycle count"),
+  });
+
+  return (
+    <Card data-testid="card-cycle-count-schedule">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Cycle Count Schedule</CardTitle>
+          <div className="flex items-center space-x-3">
+            <Input type="date" className="w-44" value={weekOf} onChange={(e) => setWeekOf(e.target.value || todayIso())} data-testid="input-schedule-week" />
+            <Select value={warehouseId || "all"} onValueChange={(value) => setWarehouseId(value === "all" ? "" : value)}>
+              <SelectTrigger className="w-48" data-testid="select-schedule-warehouse">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Warehouses</SelectItem>
+                {warehouses.map(warehouse => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!warehouseId || !schedule?.products.length || createMutation.isPending}
+              title={warehouseId ? undefined : "Choose a warehouse to count in"}
+              data-testid="button-create-cycle-count"
+            >
+              <ClipboardList className="w-4 h-4 mr-2" />
+              Count These Products
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {schedule && (
+          <p className="text-sm text-muted-foreground">
+            Week of {format(new Date(schedule.weekStart), 'MMM dd, yyyy')} · {(['A', 'B', 'C'] as AbcClass[]).map(abcClass =>
+              `${schedule.classCounts[abcClass]} class ${abcClass} every ${schedule.intervalWeeks[abcClass]} weeks`
+            ).join(' · ')}
+          </p>
+        )}
+        <div className="border rounded-lg overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr className="text-left">
+                <th className={headerCell}>Product</th>
+                <th className={headerCell}>Class</th>
+                <th className={`${headerCell} text-right`}>Annual Usage</th>
+                <th className={headerCell}>Last Counted</th>
+                <th className={headerCell}>Due</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {isLoading ? (
+                <tr><td colSpan={5} className="px-4 py-3"><Skeleton className="h-4 w-full" /></td></tr>
+              ) : schedule && schedule.products.length > 0 ? schedule.products.map(line => (
+                <tr key={line.productId} data-testid={`row-schedule-${line.productId}`}>
+                  <td className="px-4 py-2 text-sm"><span className="font-mono">{line.sku}</span> {line.productName}</td>
+                  <td className="px-4 py-2"><Badge className={ABC_COLORS[line.abcClass]}>{line.abcClass}</Badge></td>
+                  <td className="px-4 py-2 text-sm text-right">{line.annualUsageValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                  <td className="px-4 py-2 text-sm">{line.lastCountedAt ? format(new Date(line.lastCountedAt), 'MMM dd, yyyy') : 'Never'}</td>
+                  <td className="px-4 py-2 text-sm">{line.dueDate ? format(new Date(line.dueDate), 'MMM dd, yyyy') : 'Now'}</td>
+                </tr>
+              )) : (
+                <tr><td colSpan={5} className="px-4 py-8 text-center text-muted-foreground">Nothing due for counting this week</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function NewStockCountDialog({ open, onOpenChange, warehouses, products, onCreated }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  warehouses: Warehouse[];
+  products: Product[];
+  onCreated: (count: StockCountDetail) => void;
+}) {
+  const { toast } = useToast();
+  const showError = useShowError();
+  const [warehouseId, setWarehouseId] = useState("");
+  const [countType, setCountType] = useState<'full' | 'partial'>("full");
+  const [isBlind, setIsBlind] = useState(true);
+  const [productIds, setProductIds] = useState<string[]>([]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/inventory/stock-counts", {
+        warehouseId,
+        countType,
+        isBlind,
+        countDate: todayIso(),
+        productIds: countType === 'partial' ? productIds : [],
+      });
+      return await response.json() as StockCountDetail;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock-counts"] });
+      onOpenChange(false);
+      setProductIds([]);
+      onCreated(count);
+      toast({ title: "Success", description: `Stock count ${count.countNumber} issued with ${count.lines.length} count lines` });
+    },
+    onError: showError("create the stock count"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="modal-new-stock-count">
+        <DialogHeader>
+          <DialogTitle>New Stock Count</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <Select value={warehouseId} onValueChange={setWarehouseId}>
+            <SelectTrigger data-testid="select-count-warehouse">
+              <SelectValue placeholder="Select warehouse" />
+            </SelectTrigger>
+            <SelectContent>
+              {warehouses.map(warehouse => (
+                <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={countType} onValueChange={(value) => setCountType(value as 'full' | 'partial')}>
+            <SelectTrigger data-testid="select-count-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="full">Full stock-take of the warehouse</SelectItem>
+              <SelectItem value="partial">Selected products only</SelectItem>
+            </SelectContent>
+          </Select>
+          {countType === 'partial' && (
+            <div className="border rounded-lg p-3 max-h-56 overflow-y-auto">
+              {products.filter(product => product.isActive).map(product => (
+                <label key={product.id} className="flex items-center space-x-2 py-1 text-sm">
+                  <Checkbox
+                    checked={productIds.includes(product.id)}
+                    onCheckedChange={() => setProductIds(prev => prev.includes(product.id) ? prev.filter(id => id !== product.id) : [...prev, product.id])}
+                    data-testid={`checkbox-count-product-${product.id}`}
+                  />
+                  <span className="font-mono">{product.sku}</span>
+                  <span>{product.name}</span>
+                </label>
+              ))}
+            </div>
+          )}
+          <label className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <div className="text-sm font-medium">Blind count</div>
+              <div className="text-xs text-muted-foreground">Counters do not see the book quantity until the count is submitted</div>
+            </div>
+            <Switch checked={isBlind} onCheckedChange={setIsBlind} data-testid="switch-blind-count" />
+          </label>
+          <div className="flex justify-end space-x-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!warehouseId || (countType === 'partial' && productIds.length === 0) || createMutation.isPending}
+              data-testid="button-submit-stock-count"
+            >
+              {createMutation.isPending ? "Issuing..." : "Issue Count Sheets"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function StockCountDetailCard({ countId }: { countId: string }) {
+  const { toast } = useToast();
+  const showError = useShowError();
+  const [counted, setCounted] = useState<Record<string, string>>({});
+
+  const { data: count, isLoading } = useQuery<StockCountDetail>({
+    queryKey: ["/api/inventory/stock-counts", countId],
+  });
+
+  const onUpdated = (message: string) => (updated: StockCountDetail | StockCount) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock-counts"] });
+    if (updated.status === 'posted') {
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+    }
+    toast({ title: "Success", description: message });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const lines = Object.entries(counted)
+        .filter(([, value]) => value !== '')
+        .map(([lineId, value]) => ({ lineId, countedQuantity: parseInt(value, 10) }));
+      const response = await apiRequest("POST", `/api/inventory/stock-counts/${countId}/counts`, { lines });
+      return await response.json() as StockCountDetail;
+    },
+    onSuccess: (updated) => {
+      setCounted({});
+      onUpdated("Counts saved")(updated);
+    },
+    onError: showError("save the counts"),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: 'submit' | 'post' | 'cancel') => {
+      const response = await apiRequest("POST", `/api/inventory/stock-counts/${countId}/${action}`, {});
+      return await response.json() as StockCountDetail | StockCount;
+    },
+    onSuccess: (updated, action) => onUpdated(
+      action === 'submit' ? "Count submitted; differences are ready for review"
+        : action === 'post' ? "Stock adjusted to the count"
+        : "Stock count cancelled"
+    )(updated),
+    onError: (error, action) => showError(`${action} the stock count`)(error),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ lineId, decision }: { lineId: string; decision: 'approved' | 'rejected' }) => {
+      const response = await apiRequest("POST", `/api/inventory/stock-counts/${countId}/lines/${lineId}/review`, { decision });
+      return await response.json() as StockCountDetail;
+    },
+    onSuccess: (updated, { decision }) => onUpdated(decision === 'approved' ? "Difference approved" : "Difference rejected")(updated),
+    onError: showError("review the difference"),
+  });
+
+  if (isLoading || !count) {
+    return <Card><CardContent className="p-6"><Skeleton className="h-24 w-full" /></CardContent></Card>;
+  }
+
+  const pendingApprovals = count.lines.filter(line => line.approvalStatus === 'pending').length;
+  const uncounted = count.lines.filter(line => line.countedQuantity === null && !counted[line.id]).length;
+  const netVariance = count.lines.reduce((sum, line) => sum + Math.round(Number(line.varianceValue ?? 0) * 100), 0) / 100;
+
+  return (
+    <Card data-testid="card-stock-count-detail">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>{count.countNumber} · {count.warehouseName}</CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              {count.countType === 'full' ? 'Full stock-take' : count.countType === 'cycle' ? 'Cycle count' : 'Partial count'}
+              {count.isBlind ? ' · blind' : ''} · {format(new Date(count.countDate), 'MMM dd, yyyy')}
+              {count.status !== 'counting' && ` · net difference ${formatMoney(netVariance, count.baseCurrency)}`}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            {count.status === 'counting' && (
+              <>
+                <Button variant="outline" onClick={() => saveMutation.mutate()} disabled={Object.keys(counted).length === 0 || saveMutation.isPending} data-testid="button-save-counts">
+                  Save Counts
+                </Button>
+                <Button onClick={() => actionMutation.mutate('submit')} disabled={uncounted > 0 || Object.keys(counted).length > 0 || actionMutation.isPending} data-testid="button-submit-count">
+                  Submit
+                </Button>
+              </>
+            )}
+            {count.status === 'review' && (
+              <Button onClick={() => actionMutation.mutate('post')} disabled={pendingApprovals > 0 || actionMutation.isPending} data-testid="button-post-count">
+                <Check className="w-4 h-4 mr-2" />
+                Post Adjustments
+              </Button>
+            )}
+            {(count.status === 'counting' || count.status === 'review') && (
+              <Button variant="outline" onClick={() => actionMutation.mutate('cancel')} disabled={actionMutation.isPending} data-testid="button-cancel-count">
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {count.status === 'review' && pendingApprovals > 0 && (
+          <div className="flex items-start space-x-2 p-2 bg-orange-50 rounded-md border border-orange-200 text-sm text-orange-800">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              {pendingApprovals} difference(s) above {formatMoney(count.approvalThreshold, count.baseCurrency)} need approval before the count can be posted.
+              Rejected differences are not posted.
+            </span>
+          </div>
+        )}
+        <div className="border rounded-lg overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr className="text-left">
+                <th className={headerCell}>Product</th>
+                <th className={headerCell}>Batch</th>
+                <th className={headerCell}>Expiry</th>
+                <th className={`${headerCell} text-right`}>Book</th>
+                <th className={`${headerCell} text-right`}>Counted</th>
+                <th className={`${headerCell} text-right`}>Difference</th>
+                <th className={`${headerCell} text-right`}>Value</th>
+                <th className={headerCell}>Approval</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {count.lines.map(line => (
+                <tr key={line.id} data-testid={`row-count-line-${line.id}`}>
+                  <td className="px-4 py-2 text-sm"><span className="font-mono">{line.sku}</span> {line.productName}</td>
+                  <td className="px-4 py-2 text-sm font-mono">{line.batchNumber || 'N/A'}</td>
+                  <td className="px-4 py-2 text-sm">{line.expiryDate ? format(new Date(line.expiryDate), 'MMM yyyy') : '-'}</td>
+                  <td className="px-4 py-2 text-sm text-right">{line.bookQuantity === null ? <span className="text-muted-foreground">hidden</span> : line.bookQuantity}</td>
+                  <td className="px-4 py-2 text-sm text-right">
+                    {count.status === 'counting' ? (
+                      <Input
+                        type="number"
+                        min="0"
+                        className="w-24 ml-auto text-right"
+                        value={counted[line.id] ?? line.countedQuantity?.toString() ?? ''}
+                        onChange={(e) => setCounted(prev => ({ ...prev, [line.id]: e.target.value }))}
+                        data-testid={`input-counted-${line.id}`}
+                      />
+                    ) : line.countedQuantity}
+                  </td>
+                  <td className={`px-4 py-2 text-sm text-right ${(line.varianceQuantity ?? 0) < 0 ? 'text-red-600' : ''}`}>
+                    {line.varianceQuantity === null ? '-' : line.varianceQuantity > 0 ? `+${line.varianceQuantity}` : line.varianceQuantity}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">{line.varianceValue === null ? '-' : formatMoney(line.varianceValue, count.baseCurrency)}</td>
+                  <td className="px-4 py-2">
+                    {count.status === 'review' && line.approvalStatus === 'pending' ? (
+                      <div className="flex items-center space-x-1">
+                        <Button size="sm" variant="outline" onClick={() => reviewMutation.mutate({ lineId: line.id, decision: 'approved' })} disabled={reviewMutation.isPending} data-testid={`button-approve-${line.id}`}>
+                          <Check className="w-4 h-4" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => reviewMutation.mutate({ lineId: line.id, decision: 'rejected' })} disabled={reviewMutation.isPending} data-testid={`button-reject-${line.id}`}>
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ) : line.varianceQuantity !== null && (
+                      <Badge className={APPROVAL_COLORS[line.approvalStatus]}>{line.approvalStatus.replace('_', ' ')}</Badge>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function StockCountsTab({ warehouses, products }: { warehouses: Warehouse[]; products: Product[] }) {
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: counts, isLoading } = useQuery<StockCountSummary[]>({
+    queryKey: ["/api/inventory/stock-counts"],
+  });
+
+  const onCreated = (count: StockCountDetail) => setSelectedId(count.id);
+
+  return (
+    <div className="space-y-6">
+      <CycleCountScheduleCard warehouses={warehouses} onCreated={onCreated} />
+
+      <Card data-testid="card-stock-counts">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Stock Counts</CardTitle>
+            <Button onClick={() => setIsCreateDialogOpen(true)} data-testid="button-new-stock-count">
+              <Plus className="w-4 h-4 mr-2" />
+              New Stock Count
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr className="text-left">
+                <th className={headerCell}>Count</th>
+                <th className={headerCell}>Warehouse</th>
+                <th className={headerCell}>Date</th>
+                <th className={`${headerCell} text-right`}>Counted</th>
+                <th className={`${headerCell} text-right`}>Net Difference</th>
+                <th className={headerCell}>Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {isLoading ? (
+                <tr><td colSpan={6} className="px-4 py-3"><Skeleton className="h-4 w-full" /></td></tr>
+              ) : counts && counts.length > 0 ? counts.map(count => (
+                <tr
+                  key={count.id}
+                  className={count.id === selectedId ? "bg-muted/30" : "cursor-pointer hover:bg-muted/20"}
+                  onClick={() => setSelectedId(count.id)}
+                  data-testid={`row-stock-count-${count.id}`}
+                >
+                  <td className="px-4 py-3 font-mono text-sm">{count.countNumber}</td>
+                  <td className="px-4 py-3 text-sm">{count.warehouseName}</td>
+                  <td className="px-4 py-3 text-sm">{format(new Date(count.countDate), 'MMM dd, yyyy')}</td>
+                  <td className="px-4 py-3 text-sm text-right">{count.countedLines} / {count.lineCount}</td>
+                  <td className="px-4 py-3 text-sm text-right">{count.status === 'counting' ? '-' : count.varianceValue.toFixed(2)}</td>
+                  <td className="px-4 py-3">
+                    <Badge className={STOCK_COUNT_STATUS_COLORS[count.status]}>{count.status}</Badge>
+                    {count.pendingApprovals > 0 && (
+                      <span className="ml-2 text-xs text-orange-700">{count.pendingApprovals} to approve</span>
+                    )}
+                  </td>
+                </tr>
+              )) : (
+                <tr><td colSpan={6} className="px-4 py-12 text-center text-muted-foreground">No stock counts yet</td></tr>
+              )}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      {selectedId && <StockCountDetailCard key={selectedId} countId={selectedId} />}
+
+      <NewStockCountDialog
+        open={isCreateDialogOpen}
+        onOpenChange={setIsCreateDialogOpen}
+        warehouses={warehouses}
+        products={products}
+        onCreated={onCreated}
+      />
+    </div>
+  );
 }
 
 export default function InventoryPage() {
@@ -157,374 +662,402 @@ export default function InventoryPage() {
         />
         
         <main className="flex-1 overflow-y-auto p-6" data-testid="main-inventory">
-          {/* Header Actions */}
-          <div className="flex items-center justify-between mb-6">
-            <div className="flex items-center space-x-4 flex-1">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-                <Input
-                  placeholder="Search products or batches..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-10 w-80"
-                  data-testid="input-search-inventory"
-                />
-              </div>
+          <Tabs defaultValue="stock">
+            <TabsList className="mb-6">
+              <TabsTrigger value="stock" data-testid="tab-stock">
+                <Package className="w-4 h-4 mr-2" />
+                Stock
+              </TabsTrigger>
+              <TabsTrigger value="stock-counts" data-testid="tab-stock-counts">
+                <ClipboardList className="w-4 h-4 mr-2" />
+                Stock Counts
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="stock">
+              {/* Header Actions */}
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center space-x-4 flex-1">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                    <Input
+                      placeholder="Search products or batches..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-10 w-80"
+                      data-testid="input-search-inventory"
+                    />
+                  </div>
               
-              <Select value={selectedWarehouse} onValueChange={setSelectedWarehouse}>
-                <SelectTrigger className="w-48" data-testid="select-warehouse-filter">
-                  <SelectValue placeholder="All Warehouses" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Warehouses</SelectItem>
-                  {warehouses?.map((warehouse) => (
-                    <SelectItem key={warehouse.id} value={warehouse.id}>
-                      {warehouse.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+                  <Select value={selectedWarehouse} onValueChange={setSelectedWarehouse}>
+                    <SelectTrigger className="w-48" data-testid="select-warehouse-filter">
+                      <SelectValue placeholder="All Warehouses" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Warehouses</SelectItem>
+                      {warehouses?.map((warehouse) => (
+                        <SelectItem key={warehouse.id} value={warehouse.id}>
+                          {warehouse.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
             
-            <Dialog open={isCreateModalOpen} onOpenChange={setIsCreateModalOpen}>
-              <DialogTrigger asChild>
-                <Button className="bg-primary text-primary-foreground" data-testid="button-add-inventory">
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Inventory
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-2xl">
-                <DialogHeader>
-                  <DialogTitle>Add Inventory Item</DialogTitle>
-                </DialogHeader>
-                <Form {...form}>
-                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                    <div className="grid grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="productId"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Product *</FormLabel>
-                            <Select onValueChange={field.onChange} value={field.value}>
-                              <FormControl>
-                                <SelectTrigger data-testid="select-product">
-                                  <SelectValue placeholder="Select product" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                {products?.map((product) => (
-                                  <SelectItem key={product.id} value={product.id}>
-                                    {product.name} - {product.sku}
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                <Dialog open={isCreateModalOpen} onOpenChange={setIsCreateModalOpen}>
+                  <DialogTrigger asChild>
+                    <Button className="bg-primary text-primary-foreground" data-testid="button-add-inventory">
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Inventory
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="max-w-2xl">
+                    <DialogHeader>
+                      <DialogTitle>Add Inventory Item</DialogTitle>
+                    </DialogHeader>
+                    <Form {...form}>
+                      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                        <div className="grid grid-cols-2 gap-4">
+                          <FormField
+                            control={form.control}
+                            name="productId"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Product *</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger data-testid="select-product">
+                                      <SelectValue placeholder="Select product" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {products?.map((product) => (
+                                      <SelectItem key={product.id} value={product.id}>
+                                        {product.name} - {product.sku}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
                       
-                      <FormField
-                        control={form.control}
-                        name="warehouseId"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Warehouse *</FormLabel>
-                            <Select onValueChange={field.onChange} value={field.value}>
-                              <FormControl>
-                                <SelectTrigger data-testid="select-warehouse">
-                                  <SelectValue placeholder="Select warehouse" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                {warehouses?.map((warehouse) => (
-                                  <SelectItem key={warehouse.id} value={warehouse.id}>
-                                    {warehouse.name}
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-
-                    <div className="grid grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="batchNumber"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Batch Number</FormLabel>
-                            <FormControl>
-                              <Input placeholder="BT-2024-001" {...field} value={field.value || ''} data-testid="input-batch-number" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                          <FormField
+                            control={form.control}
+                            name="warehouseId"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Warehouse *</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger data-testid="select-warehouse">
+                                      <SelectValue placeholder="Select warehouse" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {warehouses?.map((warehouse) => (
+                                      <SelectItem key={warehouse.id} value={warehouse.id}>
+                                        {warehouse.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                          <FormField
+                            control={form.control}
+                            name="batchNumber"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Batch Number</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="BT-2024-001" {...field} value={field.value || ''} data-testid="input-batch-number" />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
                       
-                      <FormField
-                        control={form.control}
-                        name="quantity"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Quantity *</FormLabel>
-                            <FormControl>
-                              <Input 
-                                type="number" 
-                                placeholder="0" 
-                                value={field.value?.toString() || ''} 
-                                onChange={(e) => field.onChange(e.target.value === '' ? 0 : Number(e.target.value))}
-                                data-testid="input-quantity" 
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-
-                    <div className="grid grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="manufactureDate"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Manufacture Date</FormLabel>
-                            <FormControl>
-                              <Input type="date" {...field} value={field.value || ''} data-testid="input-manufacture-date" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                          <FormField
+                            control={form.control}
+                            name="quantity"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Quantity *</FormLabel>
+                                <FormControl>
+                                  <Input 
+                                    type="number" 
+                                    placeholder="0" 
+                                    value={field.value?.toString() || ''} 
+                                    onChange={(e) => field.onChange(e.target.value === '' ? 0 : Number(e.target.value))}
+                                    data-testid="input-quantity" 
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                          <FormField
+                            control={form.control}
+                            name="manufactureDate"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Manufacture Date</FormLabel>
+                                <FormControl>
+                                  <Input type="date" {...field} value={field.value || ''} data-testid="input-manufacture-date" />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
                       
-                      <FormField
-                        control={form.control}
-                        name="expiryDate"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Expiry Date</FormLabel>
-                            <FormControl>
-                              <Input type="date" {...field} value={field.value || ''} data-testid="input-expiry-date" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-
-                    <FormField
-                      control={form.control}
-                      name="costPerUnit"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Cost Per Unit</FormLabel>
-                          <FormControl>
-                            <Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value ?? ''} data-testid="input-cost-per-unit" />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                          <FormField
+                            control={form.control}
+                            name="expiryDate"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Expiry Date</FormLabel>
+                                <FormControl>
+                                  <Input type="date" {...field} value={field.value || ''} data-testid="input-expiry-date" />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
 
-                    <div className="flex justify-end space-x-3">
-                      <Button type="button" variant="outline" onClick={() => setIsCreateModalOpen(false)}>
-                        Cancel
-                      </Button>
-                      <Button 
-                        type="submit" 
-                        disabled={createInventoryMutation.isPending}
-                        data-testid="button-submit-inventory"
-                        className="flex items-center space-x-2"
-                      >
-                        {createInventoryMutation.isPending ? (
-                          <>
-                            <Loader2 className="w-4 h-4 animate-spin" />
-                            <span>Adding...</span>
-                          </>
-                        ) : (
-                          "Add Item"
-                        )}
-                      </Button>
-                    </div>
-                  </form>
-                </Form>
-              </DialogContent>
-            </Dialog>
-          </div>
+                        <FormField
+                          control={form.control}
+                          name="costPerUnit"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Cost Per Unit</FormLabel>
+                              <FormControl>
+                                <Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value ?? ''} data-testid="input-cost-per-unit" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
 
-          {/* Inventory Grid */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {isLoading ? (
-              Array.from({ length: 8 }).map((_, index) => (
-                <Card key={index} className="p-6">
-                  <div className="flex items-start justify-between mb-4">
-                    <div className="flex items-center space-x-3 flex-1">
-                      <Skeleton className="w-10 h-10 rounded" />
-                      <div className="flex-1">
-                        <Skeleton className="h-5 w-32 mb-2" />
-                        <Skeleton className="h-4 w-24" />
-                      </div>
-                    </div>
-                  </div>
-                  <div className="space-y-3">
-                    <div className="flex justify-between items-center">
-                      <Skeleton className="h-4 w-16" />
-                      <Skeleton className="h-6 w-20 rounded-full" />
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <Skeleton className="h-4 w-20" />
-                      <Skeleton className="h-6 w-16 rounded-full" />
-                    </div>
-                    <Skeleton className="h-4 w-full" />
-                    <Skeleton className="h-4 w-3/4" />
-                  </div>
-                </Card>
-              ))
-            ) : filteredInventory.length > 0 ? (
-              filteredInventory.map((item) => {
-                const daysLeft = getDaysUntilExpiry(item.expiryDate);
-                const expiryStatus = getExpiryStatus(daysLeft);
-                const stockStatus = getStockStatus(item.quantity, item.product.minStockLevel ?? 10);
-                
-                return (
-                  <Card key={item.id} className="hover:shadow-md transition-shadow" data-testid={`card-inventory-${item.id}`}>
-                    <CardHeader className="pb-3">
-                      <div className="flex items-start justify-between">
-                        <div className="flex items-center space-x-3 flex-1 min-w-0">
-                          <div className="w-10 h-10 bg-primary/10 rounded flex items-center justify-center flex-shrink-0">
-                            <Pill className="w-5 h-5 text-primary" />
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <CardTitle className="text-base truncate" data-testid={`text-product-name-${item.id}`}>
-                              {item.product.name}
-                            </CardTitle>
-                            <p className="text-sm text-muted-foreground truncate" data-testid={`text-product-sku-${item.id}`}>
-                              SKU: {item.product.sku}
-                            </p>
+                        <div className="flex justify-end space-x-3">
+                          <Button type="button" variant="outline" onClick={() => setIsCreateModalOpen(false)}>
+                            Cancel
+                          </Button>
+                          <Button 
+                            type="submit" 
+                            disabled={createInventoryMutation.isPending}
+                            data-testid="button-submit-inventory"
+                            className="flex items-center space-x-2"
+                          >
+                            {createInventoryMutation.isPending ? (
+                              <>
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                                <span>Adding...</span>
+                              </>
+                            ) : (
+                              "Add Item"
+                            )}
+                          </Button>
+                        </div>
+                      </form>
+                    </Form>
+                  </DialogContent>
+                </Dialog>
+              </div>
+
+              {/* Inventory Grid */}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                {isLoading ? (
+                  Array.from({ length: 8 }).map((_, index) => (
+                    <Card key={index} className="p-6">
+                      <div className="flex items-start justify-between mb-4">
+                        <div className="flex items-center space-x-3 flex-1">
+                          <Skeleton className="w-10 h-10 rounded" />
+                          <div className="flex-1">
+                            <Skeleton className="h-5 w-32 mb-2" />
+                            <Skeleton className="h-4 w-24" />
                           </div>
                         </div>
-                        <Badge className={stockStatus.color}>
-                          {stockStatus.text}
-                        </Badge>
-                      </div>
-                    </CardHeader>
-                    <CardContent className="pt-0 space-y-3">
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm text-muted-foreground">Quantity</span>
-                        <span className="font-medium" data-testid={`text-quantity-${item.id}`}>
-                          {item.quantity.toLocaleString()} units
-                        </span>
                       </div>
-                      
-                      {item.batchNumber && (
+                      <div className="space-y-3">
                         <div className="flex justify-between items-center">
-                          <div className="flex items-center space-x-1 text-sm text-muted-foreground">
-                            <Hash className="w-4 h-4" />
-                            <span>Batch</span>
-                          </div>
-                          <span className="text-sm font-mono" data-testid={`text-batch-${item.id}`}>
-                            {item.batchNumber}
-                          </span>
+                          <Skeleton className="h-4 w-16" />
+                          <Skeleton className="h-6 w-20 rounded-full" />
                         </div>
-                      )}
-
-                      {item.expiryDate && (
                         <div className="flex justify-between items-center">
-                          <div className="flex items-center space-x-1 text-sm text-muted-foreground">
-                            <Calendar className="w-4 h-4" />
-                            <span>Expiry</span>
-                          </div>
-                          <div className="text-right">
-                            <div className="text-sm" data-testid={`text-expiry-date-${item.id}`}>
-                              {format(new Date(item.expiryDate), 'MMM dd, yyyy')}
+                          <Skeleton className="h-4 w-20" />
+                          <Skeleton className="h-6 w-16 rounded-full" />
+                        </div>
+                        <Skeleton className="h-4 w-full" />
+                        <Skeleton className="h-4 w-3/4" />
+                      </div>
+                    </Card>
+                  ))
+                ) : filteredInventory.length > 0 ? (
+                  filteredInventory.map((item) => {
+                    const daysLeft = getDaysUntilExpiry(item.expiryDate);
+                    const expiryStatus = getExpiryStatus(daysLeft);
+                    const stockStatus = getStockStatus(item.quantity, item.product.minStockLevel ?? 10);
+                
+                    return (
+                      <Card key={item.id} className="hover:shadow-md transition-shadow" data-testid={`card-inventory-${item.id}`}>
+                        <CardHeader className="pb-3">
+                          <div className="flex items-start justify-between">
+                            <div className="flex items-center space-x-3 flex-1 min-w-0">
+                              <div className="w-10 h-10 bg-primary/10 rounded flex items-center justify-center flex-shrink-0">
+                                <Pill className="w-5 h-5 text-primary" />
+                              </div>
+                              <div className="flex-1 min-w-0">
+                                <CardTitle className="text-base truncate" data-testid={`text-product-name-${item.id}`}>
+                                  {item.product.name}
+                                </CardTitle>
+                                <p className="text-sm text-muted-foreground truncate" data-testid={`text-product-sku-${item.id}`}>
+                                  SKU: {item.product.sku}
+                                </p>
+                              </div>
                             </div>
-                            <Badge className={`text-xs ${expiryStatus.color}`} data-testid={`badge-expiry-status-${item.id}`}>
-                              {expiryStatus.text}
+                            <Badge className={stockStatus.color}>
+                              {stockStatus.text}
                             </Badge>
                           </div>
-                        </div>
-                      )}
+                        </CardHeader>
+                        <CardContent className="pt-0 space-y-3">
+                          <div className="flex justify-between items-center">
+                            <span className="text-sm text-muted-foreground">Quantity</span>
+                            <span className="font-medium" data-testid={`text-quantity-${item.id}`}>
+                              {item.quantity.toLocaleString()} units
+                            </span>
+                          </div>
 
-                      {item.manufactureDate && (
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm text-muted-foreground">Manufactured</span>
-                          <span className="text-sm" data-testid={`text-manufacture-date-${item.id}`}>
-                            {format(new Date(item.manufactureDate), 'MMM dd, yyyy')}
-                          </span>
-                        </div>
-                      )}
+                          {item.reservedQuantity > 0 && (
+                            <div className="flex justify-between items-center">
+                              <span className="text-sm text-muted-foreground">Reserved / Available</span>
+                              <span className="text-sm" data-testid={`text-available-${item.id}`}>
+                                {item.reservedQuantity.toLocaleString()} / {Math.max(0, item.quantity - item.reservedQuantity).toLocaleString()} units
+                              </span>
+                            </div>
+                          )}
+                      
+                          {item.batchNumber && (
+                            <div className="flex justify-between items-center">
+                              <div className="flex items-center space-x-1 text-sm text-muted-foreground">
+                                <Hash className="w-4 h-4" />
+                                <span>Batch</span>
+                              </div>
+                              <span className="text-sm font-mono" data-testid={`text-batch-${item.id}`}>
+                                {item.batchNumber}
+                              </span>
+                            </div>
+                          )}
 
-                      {item.costPerUnit && (
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm text-muted-foreground">Cost/Unit</span>
-                          <span className="text-sm font-medium" data-testid={`text-cost-per-unit-${item.id}`}>
-                            ${parseFloat(item.costPerUnit).toFixed(2)}
-                          </span>
-                        </div>
-                      )}
-
-                      {/* Warning for expiring items */}
-                      {daysLeft !== null && daysLeft <= 90 && daysLeft > 0 && (
-                        <div className="flex items-start space-x-2 p-2 bg-orange-50 rounded-md border border-orange-200">
-                          <AlertTriangle className="w-4 h-4 text-orange-600 mt-0.5 flex-shrink-0" />
-                          <div className="text-xs text-orange-800">
-                            <p className="font-medium">Expiring Soon</p>
-                            <p>Consider prioritizing this batch for sales</p>
-                          </div>
-                        </div>
-                      )}
-
-                      {/* Critical warning for expired items */}
-                      {daysLeft !== null && daysLeft <= 0 && (
-                        <div className="flex items-start space-x-2 p-2 bg-red-50 rounded-md border border-red-200">
-                          <AlertTriangle className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
-                          <div className="text-xs text-red-800">
-                            <p className="font-medium">Expired Product</p>
-                            <p>Remove from active inventory immediately</p>
-                          </div>
-                        </div>
-                      )}
+                          {item.expiryDate && (
+                            <div className="flex justify-between items-center">
+                              <div className="flex items-center space-x-1 text-sm text-muted-foreground">
+                                <Calendar className="w-4 h-4" />
+                                <span>Expiry</span>
+                              </div>
+                              <div className="text-right">
+                                <div className="text-sm" data-testid={`text-expiry-date-${item.id}`}>
+                                  {format(new Date(item.expiryDate), 'MMM dd, yyyy')}
+                                </div>
+                                <Badge className={`text-xs ${expiryStatus.color}`} data-testid={`badge-expiry-status-${item.id}`}>
+                                  {expiryStatus.text}
+                                </Badge>
+                              </div>
+                            </div>
+                          )}
 
-                      <div className="flex justify-between items-center pt-2 border-t text-xs text-muted-foreground">
-                        <span>Added {item.createdAt ? format(new Date(item.createdAt), 'MMM dd') : 'N/A'}</span>
-                        <Button size="sm" variant="outline" data-testid={`button-manage-${item.id}`}>
-                          Manage
-                        </Button>
-                      </div>
-                    </CardContent>
-                  </Card>
-                );
-              })
-            ) : (
-              <div className="col-span-full">
-                <Card>
-                  <CardContent className="text-center py-12">
-                    <Package className="h-12 w-12 text-muted-foreground/40 mx-auto mb-4" />
-                    <h3 className="text-lg font-medium mb-2">
-                      {searchTerm || selectedWarehouse !== "all" ? "No items found" : "No inventory items yet"}
-                    </h3>
-                    <p className="text-muted-foreground mb-4">
-                      {searchTerm || selectedWarehouse !== "all"
-                        ? "No items match your current filters. Try adjusting your search."
-                        : "Get started by adding your first inventory item."
-                      }
-                    </p>
-                    {!searchTerm && selectedWarehouse === "all" && (
-                      <Button onClick={() => setIsCreateModalOpen(true)} data-testid="button-add-first-inventory">
-                        <Plus className="w-4 h-4 mr-2" />
-                        Add Inventory Item
-                      </Button>
-                    )}
-                  </CardContent>
-                </Card>
+                          {item.manufactureDate && (
+                            <div className="flex justify-between items-center">
+                              <span className="text-sm text-muted-foreground">Manufactured</span>
+                              <span className="text-sm" data-testid={`text-manufacture-date-${item.id}`}>
+                                {format(new Date(item.manufactureDate), 'MMM dd, yyyy')}
+                              </span>
+                            </div>
+                          )}
+
+                          {item.costPerUnit && (
+                            <div className="flex justify-between items-center">
+                              <span className="text-sm text-muted-foreground">Cost/Unit</span>
+                              <span className="text-sm font-medium" data-testid={`text-cost-per-unit-${item.id}`}>
+                                ${parseFloat(item.costPerUnit).toFixed(2)}
+                              </span>
+                            </div>
+                          )}
+
+                          {/* Warning for expiring items */}
+                          {daysLeft !== null && daysLeft <= 90 && daysLeft > 0 && (
+                            <div className="flex items-start space-x-2 p-2 bg-orange-50 rounded-md border border-orange-200">
+                              <AlertTriangle className="w-4 h-4 text-orange-600 mt-0.5 flex-shrink-0" />
+                              <div className="text-xs text-orange-800">
+                                <p className="font-medium">Expiring Soon</p>
+                                <p>Consider prioritizing this batch for sales</p>
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Critical warning for expired items */}
+                          {daysLeft !== null && daysLeft <= 0 && (
+                            <div className="flex items-start space-x-2 p-2 bg-red-50 rounded-md border border-red-200">
+                              <AlertTriangle className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
+                              <div className="text-xs text-red-800">
+                                <p className="font-medium">Expired Product</p>
+                                <p>Remove from active inventory immediately</p>
+                              </div>
+                            </div>
+                          )}
+
+                          <div className="flex justify-between items-center pt-2 border-t text-xs text-muted-foreground">
+                            <span>Added {item.createdAt ? format(new Date(item.createdAt), 'MMM dd') : 'N/A'}</span>
+                            <Button size="sm" variant="outline" data-testid={`button-manage-${item.id}`}>
+                              Manage
+                            </Button>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    );
+                  })
+                ) : (
+                  <div className="col-span-full">
+                    <Card>
+                      <CardContent className="text-center py-12">
+                        <Package className="h-12 w-12 text-muted-foreground/40 mx-auto mb-4" />
+                        <h3 className="text-lg font-medium mb-2">
+                          {searchTerm || selectedWarehouse !== "all" ? "No items found" : "No inventory items yet"}
+                        </h3>
+                        <p className="text-muted-foreground mb-4">
+                          {searchTerm || selectedWarehouse !== "all"
+                            ? "No items match your current filters. Try adjusting your search."
+                            : "Get started by adding your first inventory item."
+                          }
+                        </p>
+                        {!searchTerm && selectedWarehouse === "all" && (
+                          <Button onClick={() => setIsCreateModalOpen(true)} data-testid="button-add-first-inventory">
+                            <Plus className="w-4 h-4 mr-2" />
+                            Add Inventory Item
+                          </Button>
+                        )}
+                      </CardContent>
+                    </Card>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
+            </TabsContent>
+
+            <TabsContent value="stock-counts">
+              <StockCountsTab warehouses={warehouses || []} products={products || []} />
+            </TabsContent>
+          </Tabs>
         </main>
       </div>
 
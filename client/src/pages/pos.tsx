@@ -807,7 +807,6 @@ export default function POS() {
         bankName: payment.bankName,
         referenceNumber: payment.referenceNumber,
       })),
-      taxRate: 0,
       discountAmount: 0,
     };
 
@@ -16,7 +16,7 @@ import { Switch } from "@/components/ui/switch";
 import { Package, Search, Plus, Edit, Trash2, Calendar, Factory, Hash, Pill, AlertTriangle, CheckCircle, Clock, Loader2 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertProductSchema, type Product, type InsertProduct } from "@shared/schema";
+import { insertProductSchema, type Product, type InsertProduct, type TaxCode } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
@@ -46,10 +46,17 @@ export default function ProductsPage() {
       minStockLevel: 0,
       requiresBatchTracking: true,
       shelfLifeDays: undefined,
+      taxCodeId: "",
+      costingMethod: "fifo",
+      unitWeightKg: undefined,
       isActive: true,
     },
   });
 
+  const { data: taxCodes = [] } = useQuery<TaxCode[]>({
+    queryKey: ["/api/tax/codes"],
+  });
+
   const createProductMutation = useMutation({
     mutationFn: async (data: InsertProduct) => {
       const response = await apiRequest("POST", "/api/products", data);
@@ -161,6 +168,8 @@ export default function ProductsPage() {
       manufacturer: data.manufacturer?.trim() || undefined,
       unitPrice: data.unitPrice?.trim() || undefined,
       shelfLifeDays: data.shelfLifeDays || undefined,
+      // No code of its own: the product is taxed under its category's or the default code
+      taxCodeId: data.taxCodeId || null,
     };
 
     if (editingProduct) {
@@ -182,6 +191,9 @@ export default function ProductsPage() {
       minStockLevel: product.minStockLevel || 0,
       requiresBatchTracking: product.requiresBatchTracking ?? false,
       shelfLifeDays: product.shelfLifeDays || undefined,
+      taxCodeId: product.taxCodeId || "",
+      costingMethod: product.costingMethod,
+      unitWeightKg: product.unitWeightKg || undefined,
       isActive: product.isActive ?? true,
     });
     setIsCreateModalOpen(true);
@@ -390,7 +402,7 @@ export default function ProductsPage() {
                         />
                       </div>
 
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                         <FormField
                           control={form.control}
                           name="unitPrice"
@@ -451,6 +463,74 @@ export default function ProductsPage() {
                             </FormItem>
                           )}
                         />
+
+                        <FormField
+                          control={form.control}
+                          name="taxCodeId"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>IVA Tax Code</FormLabel>
+                              <Select value={field.value || "category"} onValueChange={(value) => field.onChange(value === "category" ? "" : value)}>
+                                <FormControl>
+                                  <SelectTrigger data-testid="select-product-tax-code">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="category">Category default</SelectItem>
+                                  {taxCodes.filter(code => code.isActive).map(code => (
+                                    <SelectItem key={code.id} value={code.id}>{code.code} ({parseFloat(code.rate)}%)</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="costingMethod"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Costing Method</FormLabel>
+                              <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                  <SelectTrigger data-testid="select-product-costing-method">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="fifo">FIFO by batch</SelectItem>
+                                  <SelectItem value="weighted_average">Moving weighted average</SelectItem>
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="unitWeightKg"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Unit Weight (kg)</FormLabel>
+                              <FormControl>
+                                <Input
+                                  data-testid="input-product-unit-weight"
+                                  type="number"
+                                  step="0.001"
+                                  placeholder="0.250"
+                                  {...field}
+                                  value={field.value || ""}
+                                  onChange={(e) => field.onChange(e.target.value || null)}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                       </div>
 
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
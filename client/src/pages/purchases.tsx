@@ -14,6 +14,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { 
   ShoppingCart, 
   Search, 
@@ -73,7 +74,16 @@ import {
   type InsertPurchaseOrder,
   type InsertGoodsReceipt,
   type InsertVendorBill,
-  type InsertCompetitorPrice
+  type InsertCompetitorPrice,
+  type SupplierPayment,
+  type SupplierPaymentAllocation,
+  type CreateSupplierPaymentRequest,
+  type PaymentRunDetail,
+  type CreatePaymentRunRequest,
+  type LandedCost,
+  type LandedCostDetail,
+  type LandedCostChargeType,
+  type CreateLandedCostRequest
 } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -185,6 +195,957 @@ interface PurchaseDashboardMetrics {
   }>;
 }
 
+interface SupplierPaymentWithDetails extends SupplierPayment {
+  supplier: Supplier;
+  allocations: Array<SupplierPaymentAllocation & { bill: VendorBill }>;
+}
+
+const todayIso = () => new Date().toISOString().split('T')[0];
+
+const formatMoney = (amount: number | string, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'USD' }).format(Number(amount) || 0);
+
+const openBillAmount = (bill: VendorBill) =>
+  (Math.round(Number(bill.totalAmount) * 100) - Math.round(Number(bill.paidAmount) * 100)) / 100;
+
+const isPayableBill = (bill: VendorBill) => bill.status === 'posted' || bill.status === 'partially_paid';
+
+const PAYMENT_RUN_STATUS_COLORS: Record<PaymentRunDetail['status'], string> = {
+  proposed: 'badge-order-light',
+  approved: 'badge-success-light',
+  exported: 'badge-info-light',
+  completed: 'badge-processing-light',
+  cancelled: 'badge-error-light',
+};
+
+async function downloadPaymentRunFile(run: PaymentRunDetail, format: 'csv' | 'pain001') {
+  const response = await fetch(`/api/purchases/payment-runs/${run.id}/export?format=${format}`, {
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || 'Export failed');
+  }
+
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${run.runNumber}.${format === 'pain001' ? 'xml' : 'csv'}`;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
+
+function RecordSupplierPaymentDialog({ open, onOpenChange, suppliers, bills, onError }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  suppliers: Supplier[];
+  bills: VendorBill[];
+  onError: (error: any) => void;
+}) {
+  const { toast } = useToast();
+  const [supplierId, setSupplierId] = useState("");
+  const [paymentDate, setPaymentDate] = useState(todayIso());
+  const [currency, setCurrency] = useState("USD");
+  const [paymentMethod, setPaymentMethod] = useState<CreateSupplierPaymentRequest['paymentMethod']>("bank_transfer");
+  const [reference, setReference] = useState("");
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+
+  const openBills = bills.filter(bill => bill.supplierId === supplierId && isPayableBill(bill) && openBillAmount(bill) > 0);
+  const suppliersWithOpenBills = suppliers.filter(supplier => bills.some(bill => bill.supplierId === supplier.id && isPayableBill(bill)));
+  const allocations = openBills
+    .map(bill => ({ billId: bill.id, amount: Math.round((parseFloat(amounts[bill.id]) || 0) * 100) / 100 }))
+    .filter(allocation => allocation.amount > 0);
+
+  const reset = () => {
+    setSupplierId("");
+    setPaymentDate(todayIso());
+    setCurrency("USD");
+    setPaymentMethod("bank_transfer");
+    setReference("");
+    setAmounts({});
+  };
+
+  const selectSupplier = (id: string) => {
+    setSupplierId(id);
+    setAmounts({});
+    const firstBill = bills.find(bill => bill.supplierId === id && isPayableBill(bill));
+    if (firstBill) setCurrency(firstBill.currency || 'USD');
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (request: CreateSupplierPaymentRequest) => {
+      const response = await apiRequest("POST", "/api/purchases/payments", request);
+      return await response.json();
+    },
+    onSuccess: (payment) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchases/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchases/bills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchases/dashboard"] });
+      onOpenChange(false);
+      reset();
+      toast({ title: "Success", description: `Payment ${payment.paymentNumber} recorded` });
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl" data-testid="modal-record-supplier-payment">
+        <DialogHeader>
+          <DialogTitle>Record Supplier Payment</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Select value={supplierId} onValueChange={selectSupplier}>
+              <SelectTrigger data-testid="select-payment-supplier">
+                <SelectValue placeholder="Select supplier" />
+              </SelectTrigger>
+              <SelectContent>
+                {suppliersWithOpenBills.map(supplier => (
+                  <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} data-testid="input-payment-date" />
+            <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as CreateSupplierPaymentRequest['paymentMethod'])}>
+              <SelectTrigger data-testid="select-payment-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="bank_transfer">Bank transfer</SelectItem>
+                <SelectItem value="cheque">Cheque</SelectItem>
+                <SelectItem value="cash">Cash</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger data-testid="select-payment-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="USD">USD</SelectItem>
+                <SelectItem value="AOA">AOA</SelectItem>
+                <SelectItem value="EUR">EUR</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              className="col-span-2"
+              placeholder="Reference (bank transfer id, cheque number)"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              data-testid="input-payment-reference"
+            />
+          </div>
+
+          {supplierId && (
+            <div className="border rounded-lg overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-muted/50">
+                  <tr className="text-left">
+                    <th className="px-4 py-2 text-muted-foreground text-xs uppercase tracking-wider">Bill</th>
+                    <th className="px-4 py-2 text-muted-foreground text-xs uppercase tracking-wider">Due</th>
+                    <th className="px-4 py-2 text-muted-foreground text-xs uppercase tracking-wider">Open</th>
+                    <th className="px-4 py-2 text-muted-foreground text-xs uppercase tracking-wider">Pay</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {openBills.length > 0 ? openBills.map(bill => (
+                    <tr key={bill.id}>
+                      <td className="px-4 py-2 font-mono text-sm">{bill.billNumber}</td>
+                      <td className="px-4 py-2 text-sm">{bill.dueDate ? format(new Date(bill.dueDate), 'MMM dd, yyyy') : '-'}</td>
+                      <td className="px-4 py-2 text-sm">{formatMoney(openBillAmount(bill), bill.currency || 'USD')}</td>
+                      <td className="px-4 py-2">
+                        <div className="flex items-center space-x-2">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            className="w-32"
+                            value={amounts[bill.id] ?? ""}
+                            onChange={(e) => setAmounts(prev => ({ ...prev, [bill.id]: e.target.value }))}
+                            data-testid={`input-allocation-${bill.id}`}
+                          />
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setAmounts(prev => ({ ...prev, [bill.id]: openBillAmount(bill).toFixed(2) }))}
+                          >
+                            Full
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  )) : (
+                    <tr>
+                      <td colSpan={4} className="px-4 py-6 text-center text-muted-foreground">No open bills for this supplier</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Amounts are in each bill's currency and are converted into the payment currency at the exchange rate on the payment date.
+          </p>
+
+          <div className="flex justify-end space-x-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button
+              disabled={allocations.length === 0 || createMutation.isPending}
+              onClick={() => createMutation.mutate({
+                supplierId,
+                paymentDate,
+                currency,
+                paymentMethod,
+                reference: reference || undefined,
+                allocations,
+              })}
+              data-testid="button-submit-supplier-payment"
+            >
+              {createMutation.isPending ? "Recording..." : "Record Payment"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SupplierPaymentsTab({ suppliers, bills, onError }: { suppliers: Supplier[]; bills: VendorBill[]; onError: (error: any) => void }) {
+  const { toast } = useToast();
+  const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
+  const [dueBy, setDueBy] = useState(todayIso());
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+  const { data: paymentRuns, isLoading: isRunsLoading } = useQuery<PaymentRunDetail[]>({
+    queryKey: ["/api/purchases/payment-runs"],
+  });
+
+  const { data: payments, isLoading: isPaymentsLoading } = useQuery<SupplierPaymentWithDetails[]>({
+    queryKey: ["/api/purchases/payments"],
+  });
+
+  const selectedRun = paymentRuns?.find(run => run.id === selectedRunId);
+
+  const invalidatePayables = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/purchases/payment-runs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/purchases/payments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/purchases/bills"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/purchases/dashboard"] });
+  };
+
+  const proposeRunMutation = useMutation({
+    mutationFn: async (request: CreatePaymentRunRequest) => {
+      const response = await apiRequest("POST", "/api/purchases/payment-runs", request);
+      return await response.json();
+    },
+    onSuccess: (run: PaymentRunDetail) => {
+      invalidatePayables();
+      setSelectedRunId(run.id);
+      toast({ title: "Success", description: `Payment run ${run.runNumber} proposed with ${run.groups.length} transfer(s)` });
+    },
+    onError,
+  });
+
+  const runActionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'approve' | 'complete' | 'cancel' }) => {
+      const response = await apiRequest("POST", `/api/purchases/payment-runs/${id}/${action}`, {});
+      return await response.json();
+    },
+    onSuccess: (_result, { action }) => {
+      invalidatePayables();
+      const messages = { approve: "Payment run approved", complete: "Payment run completed and payments recorded", cancel: "Payment run cancelled" };
+      toast({ title: "Success", description: messages[action] });
+    },
+    onError,
+  });
+
+  const removeLineMutation = useMutation({
+    mutationFn: async ({ runId, lineId }: { runId: string; lineId: string }) => {
+      const response = await apiRequest("DELETE", `/api/purchases/payment-runs/${runId}/lines/${lineId}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchases/payment-runs"] });
+    },
+    onError,
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async ({ run, format }: { run: PaymentRunDetail; format: 'csv' | 'pain001' }) => downloadPaymentRunFile(run, format),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchases/payment-runs"] });
+      toast({ title: "Success", description: "Bank file downloaded" });
+    },
+    onError,
+  });
+
+  const voidPaymentMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/purchases/payments/${id}/void`, {});
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidatePayables();
+      toast({ title: "Success", description: "Supplier payment voided" });
+    },
+    onError,
+  });
+
+  const headerCell = "px-6 py-3 text-muted-foreground text-xs uppercase tracking-wider";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-muted-foreground">Bills due by</span>
+          <Input type="date" className="w-44" value={dueBy} onChange={(e) => setDueBy(e.target.value)} data-testid="input-run-due-by" />
+          <Button
+            variant="outline"
+            onClick={() => proposeRunMutation.mutate({ dueBy })}
+            disabled={!dueBy || proposeRunMutation.isPending}
+            data-testid="button-propose-payment-run"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            {proposeRunMutation.isPending ? "Proposing..." : "Propose Payment Run"}
+          </Button>
+        </div>
+        <Button onClick={() => setIsPaymentDialogOpen(true)} data-testid="button-record-supplier-payment">
+          <Plus className="w-4 h-4 mr-2" />
+          Record Payment
+        </Button>
+      </div>
+
+      <Card data-testid="card-payment-runs">
+        <CardHeader>
+          <CardTitle>Payment Runs</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr className="text-left">
+                  <th className={headerCell}>Run</th>
+                  <th className={headerCell}>Due By</th>
+                  <th className={headerCell}>Payment Date</th>
+                  <th className={headerCell}>Transfers</th>
+                  <th className={headerCell}>Total</th>
+                  <th className={headerCell}>Status</th>
+                  <th className={headerCell}>Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {isRunsLoading ? (
+                  <tr><td colSpan={7} className="px-6 py-4"><Skeleton className="h-4 w-full" /></td></tr>
+                ) : paymentRuns && paymentRuns.length > 0 ? paymentRuns.map(run => (
+                  <tr
+                    key={run.id}
+                    className={run.id === selectedRunId ? "bg-muted/30" : "cursor-pointer hover:bg-muted/20"}
+                    onClick={() => setSelectedRunId(run.id)}
+                    data-testid={`row-payment-run-${run.id}`}
+                  >
+                    <td className="px-6 py-4 font-mono text-sm">{run.runNumber}</td>
+                    <td className="px-6 py-4">{format(new Date(run.dueBy), 'MMM dd, yyyy')}</td>
+                    <td className="px-6 py-4">{format(new Date(run.paymentDate), 'MMM dd, yyyy')}</td>
+                    <td className="px-6 py-4">{run.groups.length}</td>
+                    <td className="px-6 py-4 font-medium">
+                      {Object.entries(run.totalsByCurrency).map(([currency, total]) => (
+                        <div key={currency}>{formatMoney(total, currency)}</div>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4">
+                      <Badge className={PAYMENT_RUN_STATUS_COLORS[run.status]}>
+                        {run.status.charAt(0).toUpperCase() + run.status.slice(1)}
+                      </Badge>
+                    </td>
+                    <td className="px-6 py-4" onClick={(e) => e.stopPropagation()}>
+                      <div className="flex items-center space-x-2">
+                        {run.status === 'proposed' && (
+                          <Button size="sm" variant="outline" onClick={() => runActionMutation.mutate({ id: run.id, action: 'approve' })} disabled={runActionMutation.isPending}>
+                            <Check className="w-4 h-4 mr-1" />
+                            Approve
+                          </Button>
+                        )}
+                        {(run.status === 'approved' || run.status === 'exported') && (
+                          <>
+                            <Button size="sm" variant="outline" onClick={() => exportMutation.mutate({ run, format: 'csv' })} disabled={exportMutation.isPending}>
+                              <Download className="w-4 h-4 mr-1" />
+                              CSV
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => exportMutation.mutate({ run, format: 'pain001' })} disabled={exportMutation.isPending}>
+                              <Download className="w-4 h-4 mr-1" />
+                              pain.001
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => runActionMutation.mutate({ id: run.id, action: 'complete' })} disabled={runActionMutation.isPending}>
+                              <CheckCircle className="w-4 h-4 mr-1" />
+                              Complete
+                            </Button>
+                          </>
+                        )}
+                        {run.status !== 'completed' && run.status !== 'cancelled' && (
+                          <Button size="sm" variant="outline" onClick={() => runActionMutation.mutate({ id: run.id, action: 'cancel' })} disabled={runActionMutation.isPending}>
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                )) : (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-12 text-center text-muted-foreground">No payment runs yet</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {selectedRun && (
+        <Card data-testid="card-payment-run-detail">
+          <CardHeader>
+            <CardTitle>{selectedRun.runNumber} Transfers</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {selectedRun.groups.map(group => (
+              <div key={`${group.supplierId}:${group.currency}`} className="border rounded-lg p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <div>
+                    <div className="font-medium">{group.supplierName}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {group.iban ? `${group.bankName ?? ''} ${group.iban}` : (
+                        <span className="text-red-600">
+                          <AlertTriangle className="w-3 h-3 inline mr-1" />
+                          No bank account on file
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="font-semibold">{formatMoney(group.amount, group.currency)}</div>
+                </div>
+                {group.bills.map(bill => (
+                  <div key={bill.lineId} className="flex items-center justify-between text-sm py-1">
+                    <span className="font-mono">{bill.billNumber}</span>
+                    <span className="text-muted-foreground">{bill.dueDate ? `Due ${format(new Date(bill.dueDate), 'MMM dd')}` : ''}</span>
+                    <div className="flex items-center space-x-2">
+                      <span>{formatMoney(bill.amount, group.currency)}</span>
+                      {selectedRun.status === 'proposed' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => removeLineMutation.mutate({ runId: selectedRun.id, lineId: bill.lineId })}
+                          disabled={removeLineMutation.isPending}
+                          data-testid={`button-remove-run-line-${bill.lineId}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card data-testid="card-supplier-payments">
+        <CardHeader>
+          <CardTitle>Supplier Payments</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr className="text-left">
+                  <th className={headerCell}>Payment</th>
+                  <th className={headerCell}>Supplier</th>
+                  <th className={headerCell}>Date</th>
+                  <th className={headerCell}>Bills</th>
+                  <th className={headerCell}>Amount</th>
+                  <th className={headerCell}>Status</th>
+                  <th className={headerCell}>Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {isPaymentsLoading ? (
+                  <tr><td colSpan={7} className="px-6 py-4"><Skeleton className="h-4 w-full" /></td></tr>
+                ) : payments && payments.length > 0 ? payments.map(payment => (
+                  <tr key={payment.id} data-testid={`row-supplier-payment-${payment.id}`}>
+                    <td className="px-6 py-4">
+                      <div className="font-mono text-sm">{payment.paymentNumber}</div>
+                      {payment.reference && <div className="text-sm text-muted-foreground">{payment.reference}</div>}
+                    </td>
+                    <td className="px-6 py-4 font-medium">{payment.supplier.name}</td>
+                    <td className="px-6 py-4">{format(new Date(payment.paymentDate), 'MMM dd, yyyy')}</td>
+                    <td className="px-6 py-4 text-sm">
+                      {payment.allocations.map(allocation => (
+                        <div key={allocation.id}>
+                          <span className="font-mono">{allocation.bill.billNumber}</span>{' '}
+                          {formatMoney(allocation.amount, allocation.bill.currency || 'USD')}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 font-medium">{formatMoney(payment.amount, payment.currency)}</td>
+                    <td className="px-6 py-4">
+                      <Badge className={payment.status === 'void' ? 'badge-error-light' : 'badge-success-light'}>
+                        {payment.status === 'void' ? 'Void' : 'Completed'}
+                      </Badge>
+                    </td>
+                    <td className="px-6 py-4">
+                      {payment.status === 'completed' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => voidPaymentMutation.mutate(payment.id)}
+                          disabled={voidPaymentMutation.isPending}
+                          data-testid={`button-void-payment-${payment.id}`}
+                        >
+                          Void
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                )) : (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-12 text-center text-muted-foreground">No supplier payments recorded</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <RecordSupplierPaymentDialog
+        open={isPaymentDialogOpen}
+        onOpenChange={setIsPaymentDialogOpen}
+        suppliers={suppliers}
+        bills={bills}
+        onError={onError}
+      />
+    </div>
+  );
+}
+
+const LANDED_COST_CHARGE_LABELS: Record<LandedCostChargeType, string> = {
+  freight: 'Freight',
+  insurance: 'Insurance',
+  customs_duty: 'Customs duty',
+  clearing_fee: 'Clearing fee',
+  other: 'Other',
+};
+
+const LANDED_COST_STATUS_COLORS: Record<LandedCost['status'], string> = {
+  draft: 'badge-order-light',
+  allocated: 'badge-success-light',
+  cancelled: 'badge-error-light',
+};
+
+interface LandedCostChargeRow {
+  chargeType: LandedCostChargeType;
+  supplierId: string;
+  description: string;
+  amount: string;
+}
+
+const emptyChargeRow = (): LandedCostChargeRow => ({ chargeType: 'freight', supplierId: '', description: '', amount: '' });
+
+function CreateLandedCostDialog({ open, onOpenChange, suppliers, orders, receipts, onCreated, onError }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  suppliers: Supplier[];
+  orders: PurchaseOrder[];
+  receipts: GoodsReceipt[];
+  onCreated: (landedCost: LandedCostDetail) => void;
+  onError: (error: any) => void;
+}) {
+  const { toast } = useToast();
+  const [documentDate, setDocumentDate] = useState(todayIso());
+  const [currency, setCurrency] = useState("USD");
+  const [allocationMethod, setAllocationMethod] = useState<CreateLandedCostRequest['allocationMethod']>("value");
+  const [notes, setNotes] = useState("");
+  const [purchaseOrderIds, setPurchaseOrderIds] = useState<string[]>([]);
+  const [goodsReceiptIds, setGoodsReceiptIds] = useState<string[]>([]);
+  const [charges, setCharges] = useState<LandedCostChargeRow[]>([emptyChargeRow()]);
+
+  // Costs can be linked to whole orders or to single receipts that are already posted
+  const linkableOrders = orders.filter(order => order.status !== 'draft' && order.status !== 'cancelled');
+  const postedReceipts = receipts.filter(receipt => receipt.status === 'posted');
+  const validCharges = charges
+    .map(charge => ({ ...charge, amount: Math.round((parseFloat(charge.amount) || 0) * 100) / 100 }))
+    .filter(charge => charge.amount > 0);
+  const total = validCharges.reduce((cents, charge) => cents + Math.round(charge.amount * 100), 0) / 100;
+
+  const toggle = (ids: string[], id: string) => ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+  const updateCharge = (index: number, changes: Partial<LandedCostChargeRow>) =>
+    setCharges(prev => prev.map((charge, i) => i === index ? { ...charge, ...changes } : charge));
+
+  const reset = () => {
+    setDocumentDate(todayIso());
+    setCurrency("USD");
+    setAllocationMethod("value");
+    setNotes("");
+    setPurchaseOrderIds([]);
+    setGoodsReceiptIds([]);
+    setCharges([emptyChargeRow()]);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (request: CreateLandedCostRequest) => {
+      const response = await apiRequest("POST", "/api/purchases/landed-costs", request);
+      return await response.json() as LandedCostDetail;
+    },
+    onSuccess: (landedCost) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchases/landed-costs"] });
+      onOpenChange(false);
+      reset();
+      onCreated(landedCost);
+      toast({ title: "Success", description: `Landed cost ${landedCost.documentNumber} created` });
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto" data-testid="modal-create-landed-cost">
+        <DialogHeader>
+          <DialogTitle>New Landed Cost</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <Input type="date" value={documentDate} onChange={(e) => setDocumentDate(e.target.value)} data-testid="input-landed-cost-date" />
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger data-testid="select-landed-cost-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="USD">USD</SelectItem>
+                <SelectItem value="AOA">AOA</SelectItem>
+                <SelectItem value="EUR">EUR</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={allocationMethod} onValueChange={(value) => setAllocationMethod(value as CreateLandedCostRequest['allocationMethod'])}>
+              <SelectTrigger data-testid="select-landed-cost-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="value">Allocate by value</SelectItem>
+                <SelectItem value="quantity">Allocate by quantity</SelectItem>
+                <SelectItem value="weight">Allocate by weight</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="border rounded-lg p-3 max-h-48 overflow-y-auto">
+              <div className="text-sm font-medium mb-2">Purchase Orders</div>
+              {linkableOrders.length > 0 ? linkableOrders.map(order => (
+                <label key={order.id} className="flex items-center space-x-2 py-1 text-sm">
+                  <Checkbox
+                    checked={purchaseOrderIds.includes(order.id)}
+                    onCheckedChange={() => setPurchaseOrderIds(prev => toggle(prev, order.id))}
+                    data-testid={`checkbox-landed-cost-po-${order.id}`}
+                  />
+                  <span className="font-mono">{order.orderNumber}</span>
+                  {order.incoterm && <span className="text-muted-foreground">{order.incoterm}</span>}
+                </label>
+              )) : (
+                <p className="text-sm text-muted-foreground">No purchase orders</p>
+              )}
+            </div>
+            <div className="border rounded-lg p-3 max-h-48 overflow-y-auto">
+              <div className="text-sm font-medium mb-2">Goods Receipts</div>
+              {postedReceipts.length > 0 ? postedReceipts.map(receipt => (
+                <label key={receipt.id} className="flex items-center space-x-2 py-1 text-sm">
+                  <Checkbox
+                    checked={goodsReceiptIds.includes(receipt.id)}
+                    onCheckedChange={() => setGoodsReceiptIds(prev => toggle(prev, receipt.id))}
+                    data-testid={`checkbox-landed-cost-gr-${receipt.id}`}
+                  />
+                  <span className="font-mono">{receipt.grNumber}</span>
+                </label>
+              )) : (
+                <p className="text-sm text-muted-foreground">No posted goods receipts</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Charges</div>
+            {charges.map((charge, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <Select value={charge.chargeType} onValueChange={(value) => updateCharge(index, { chargeType: value as LandedCostChargeType })}>
+                  <SelectTrigger className="col-span-3" data-testid={`select-charge-type-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(LANDED_COST_CHARGE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={charge.supplierId || "none"} onValueChange={(value) => updateCharge(index, { supplierId: value === "none" ? "" : value })}>
+                  <SelectTrigger className="col-span-3" data-testid={`select-charge-supplier-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No supplier</SelectItem>
+                    {suppliers.map(supplier => (
+                      <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="col-span-3"
+                  placeholder="Description"
+                  value={charge.description}
+                  onChange={(e) => updateCharge(index, { description: e.target.value })}
+                  data-testid={`input-charge-description-${index}`}
+                />
+                <Input
+                  className="col-span-2"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  value={charge.amount}
+                  onChange={(e) => updateCharge(index, { amount: e.target.value })}
+                  data-testid={`input-charge-amount-${index}`}
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={charges.length === 1}
+                  onClick={() => setCharges(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Button size="sm" variant="outline" onClick={() => setCharges(prev => [...prev, emptyChargeRow()])} data-testid="button-add-charge">
+                <Plus className="w-4 h-4 mr-1" />
+                Add Charge
+              </Button>
+              <span className="font-medium">Total {formatMoney(total, currency)}</span>
+            </div>
+          </div>
+
+          <Textarea placeholder="Notes (bill of lading, customs declaration)" value={notes} onChange={(e) => setNotes(e.target.value)} data-testid="input-landed-cost-notes" />
+
+          <div className="flex justify-end space-x-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button
+              disabled={validCharges.length === 0 || purchaseOrderIds.length + goodsReceiptIds.length === 0 || createMutation.isPending}
+              onClick={() => createMutation.mutate({
+                documentDate,
+                currency,
+                allocationMethod,
+                notes: notes || undefined,
+                purchaseOrderIds,
+                goodsReceiptIds,
+                charges: validCharges.map(charge => ({
+                  chargeType: charge.chargeType,
+                  supplierId: charge.supplierId || undefined,
+                  description: charge.description || undefined,
+                  amount: charge.amount,
+                })),
+              })}
+              data-testid="button-submit-landed-cost"
+            >
+              {createMutation.isPending ? "Creating..." : "Create Landed Cost"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function LandedCostsTab({ suppliers, orders, receipts, onError }: {
+  suppliers: Supplier[];
+  orders: PurchaseOrder[];
+  receipts: GoodsReceipt[];
+  onError: (error: any) => void;
+}) {
+  const { toast } = useToast();
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: landedCosts, isLoading } = useQuery<LandedCost[]>({
+    queryKey: ["/api/purchases/landed-costs"],
+  });
+
+  const { data: selected } = useQuery<LandedCostDetail>({
+    queryKey: ["/api/purchases/landed-costs", selectedId],
+    enabled: !!selectedId,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'allocate' | 'cancel' }) => {
+      const response = await apiRequest("POST", `/api/purchases/landed-costs/${id}/${action}`, {});
+      return await response.json();
+    },
+    onSuccess: (_result, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchases/landed-costs"] });
+      toast({
+        title: "Success",
+        description: action === 'allocate' ? "Landed cost allocated and received batches revalued" : "Landed cost cancelled",
+      });
+    },
+    onError,
+  });
+
+  const headerCell = "px-6 py-3 text-muted-foreground text-xs uppercase tracking-wider";
+  const chargeTypes = selected
+    ? (Object.keys(LANDED_COST_CHARGE_LABELS) as LandedCostChargeType[]).filter(type => selected.charges.some(charge => charge.chargeType === type))
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button onClick={() => setIsCreateDialogOpen(true)} data-testid="button-create-landed-cost">
+          <Plus className="w-4 h-4 mr-2" />
+          New Landed Cost
+        </Button>
+      </div>
+
+      <Card data-testid="card-landed-costs">
+        <CardHeader>
+          <CardTitle>Landed Costs</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr className="text-left">
+                  <th className={headerCell}>Document</th>
+                  <th className={headerCell}>Date</th>
+                  <th className={headerCell}>Allocation</th>
+                  <th className={headerCell}>Total</th>
+                  <th className={headerCell}>Status</th>
+                  <th className={headerCell}>Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {isLoading ? (
+                  <tr><td colSpan={6} className="px-6 py-4"><Skeleton className="h-4 w-full" /></td></tr>
+                ) : landedCosts && landedCosts.length > 0 ? landedCosts.map(landedCost => (
+                  <tr
+                    key={landedCost.id}
+                    className={landedCost.id === selectedId ? "bg-muted/30" : "cursor-pointer hover:bg-muted/20"}
+                    onClick={() => setSelectedId(landedCost.id)}
+                    data-testid={`row-landed-cost-${landedCost.id}`}
+                  >
+                    <td className="px-6 py-4 font-mono text-sm">{landedCost.documentNumber}</td>
+                    <td className="px-6 py-4">{format(new Date(landedCost.documentDate), 'MMM dd, yyyy')}</td>
+                    <td className="px-6 py-4 capitalize">By {landedCost.allocationMethod}</td>
+                    <td className="px-6 py-4 font-medium">{formatMoney(landedCost.totalAmount, landedCost.currency)}</td>
+                    <td className="px-6 py-4">
+                      <Badge className={LANDED_COST_STATUS_COLORS[landedCost.status]}>
+                        {landedCost.status.charAt(0).toUpperCase() + landedCost.status.slice(1)}
+                      </Badge>
+                    </td>
+                    <td className="px-6 py-4" onClick={(e) => e.stopPropagation()}>
+                      {landedCost.status === 'draft' && (
+                        <div className="flex items-center space-x-2">
+                          <Button size="sm" variant="outline" onClick={() => actionMutation.mutate({ id: landedCost.id, action: 'allocate' })} disabled={actionMutation.isPending}>
+                            <Check className="w-4 h-4 mr-1" />
+                            Allocate
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => actionMutation.mutate({ id: landedCost.id, action: 'cancel' })} disabled={actionMutation.isPending}>
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                )) : (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-12 text-center text-muted-foreground">No landed costs recorded</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card data-testid="card-landed-cost-detail">
+          <CardHeader>
+            <CardTitle>{selected.documentNumber} Breakdown</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-sm text-muted-foreground">
+              For {selected.sources.map(source => source.reference).join(', ')} ·{' '}
+              {selected.charges.map(charge => `${LANDED_COST_CHARGE_LABELS[charge.chargeType]}${charge.supplierName ? ` (${charge.supplierName})` : ''} ${formatMoney(charge.amount, selected.currency)}`).join(' · ')}
+            </div>
+            {selected.allocationError && (
+              <div className="text-sm text-red-600">
+                <AlertTriangle className="w-4 h-4 inline mr-1" />
+                {selected.allocationError}
+              </div>
+            )}
+            {selected.status === 'draft' && !selected.allocationError && (
+              <p className="text-sm text-muted-foreground">Preview: what allocating now would add to each product.</p>
+            )}
+            {selected.breakdown.length > 0 && (
+              <div className="border rounded-lg overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-muted/50">
+                    <tr className="text-left">
+                      <th className="px-4 py-2 text-muted-foreground text-xs uppercase tracking-wider">Product</th>
+                      <th className="px-4 py-2 text-muted-foreground text-xs uppercase tracking-wider text-right">Qty</th>
+                      <th className="px-4 py-2 text-muted-foreground text-xs uppercase tracking-wider text-right">Purchase Cost</th>
+                      {chargeTypes.map(type => (
+                        <th key={type} className="px-4 py-2 text-muted-foreground text-xs uppercase tracking-wider text-right">{LANDED_COST_CHARGE_LABELS[type]}</th>
+                      ))}
+                      <th className="px-4 py-2 text-muted-foreground text-xs uppercase tracking-wider text-right">Landed Unit Cost</th>
+                      <th className="px-4 py-2 text-muted-foreground text-xs uppercase tracking-wider text-right">Uplift</th>
+                      <th className="px-4 py-2 text-muted-foreground text-xs uppercase tracking-wider text-right">To Cost of Sales</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {selected.breakdown.map(line => (
+                      <tr key={line.productId} data-testid={`row-landed-cost-product-${line.productId}`}>
+                        <td className="px-4 py-2 text-sm">
+                          <span className="font-mono">{line.sku}</span> {line.productName}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right">{line.quantity}</td>
+                        <td className="px-4 py-2 text-sm text-right">{formatMoney(line.purchaseCost, selected.baseCurrency)}</td>
+                        {chargeTypes.map(type => (
+                          <td key={type} className="px-4 py-2 text-sm text-right">{formatMoney(line.charges[type] ?? 0, selected.baseCurrency)}</td>
+                        ))}
+                        <td className="px-4 py-2 text-sm text-right font-medium">{formatMoney(line.unitCost, selected.baseCurrency)}</td>
+                        <td className="px-4 py-2 text-sm text-right">{line.upliftPercent === null ? '-' : `${line.upliftPercent.toFixed(1)}%`}</td>
+                        <td className="px-4 py-2 text-sm text-right">{formatMoney(line.costOfSalesAmount, selected.baseCurrency)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <CreateLandedCostDialog
+        open={isCreateDialogOpen}
+        onOpenChange={setIsCreateDialogOpen}
+        suppliers={suppliers}
+        orders={orders}
+        receipts={receipts}
+        onCreated={(landedCost) => setSelectedId(landedCost.id)}
+        onError={onError}
+      />
+    </div>
+  );
+}
+
 export default function Purchases() {
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [activeTab, setActiveTab] = useState("dashboard");
@@ -273,7 +1234,7 @@ export default function Purchases() {
   const prForm = useForm<InsertPurchaseRequest>({
     resolver: zodResolver(insertPurchaseRequestSchema),
     defaultValues: {
-      prNumber: `PR-${new Date().getFullYear()}-${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`,
+      prNumber: "",
       totalAmount: "0",
       currency: "USD",
       status: "draft",
@@ -284,7 +1245,7 @@ export default function Purchases() {
   const poForm = useForm<InsertPurchaseOrder>({
     resolver: zodResolver(insertPurchaseOrderSchema),
     defaultValues: {
-      orderNumber: `PO-${new Date().getFullYear()}-${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`,
+      orderNumber: "",
       orderDate: new Date().toISOString().split('T')[0],
       status: "draft",
       subtotal: "0",
@@ -853,6 +1814,8 @@ export default function Purchases() {
       case 'matched': return 'badge-success-light';
       case 'received':
       case 'posted': return 'badge-processing-light';
+      case 'partially_paid': return 'badge-info-light';
+      case 'paid': return 'badge-success-light';
       case 'rejected':
       case 'cancelled': return 'badge-error-light';
       case 'quantity_mismatch':
@@ -1054,9 +2017,9 @@ export default function Purchases() {
                     name="prNumber"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>PR Number *</FormLabel>
+                        <FormLabel>PR Number</FormLabel>
                         <FormControl>
-                          <Input {...field} data-testid="input-pr-number" />
+                          <Input placeholder="Assigned automatically" {...field} data-testid="input-pr-number" />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -1319,9 +2282,9 @@ export default function Purchases() {
                     name="orderNumber"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>PO Number *</FormLabel>
+                        <FormLabel>PO Number</FormLabel>
                         <FormControl>
-                          <Input {...field} data-testid="input-po-number" />
+                          <Input placeholder="Assigned automatically" {...field} data-testid="input-po-number" />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -1924,6 +2887,7 @@ export default function Purchases() {
               <SelectItem value="all">All Status</SelectItem>
               <SelectItem value="draft">Draft</SelectItem>
               <SelectItem value="posted">Posted</SelectItem>
+              <SelectItem value="partially_paid">Partially Paid</SelectItem>
               <SelectItem value="paid">Paid</SelectItem>
               <SelectItem value="cancelled">Cancelled</SelectItem>
             </SelectContent>
@@ -2350,6 +3314,11 @@ export default function Purchases() {
                         </td>
                         <td className="px-6 py-4 font-medium">
                           {formatCurrency(bill.totalAmount || 0, bill.currency || 'USD')}
+                          {Number(bill.paidAmount) > 0 && (
+                            <div className="text-sm font-normal text-muted-foreground">
+                              Paid: {formatCurrency(bill.paidAmount, bill.currency || 'USD')}
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4">
                           <Badge className={getStatusColor(bill.status || 'draft')}>
@@ -2851,7 +3820,7 @@ export default function Purchases() {
         
         <main className="flex-1 overflow-y-auto p-6" data-testid="main-purchases">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-7">
+            <TabsList className="grid w-full grid-cols-9">
               <TabsTrigger value="dashboard" data-testid="tab-dashboard">
                 <BarChart3 className="w-4 h-4 mr-2" />
                 Dashboard
@@ -2872,6 +3841,14 @@ export default function Purchases() {
                 <FileText className="w-4 h-4 mr-2" />
                 Bills
               </TabsTrigger>
+              <TabsTrigger value="landed-costs" data-testid="tab-landed-costs">
+                <Truck className="w-4 h-4 mr-2" />
+                Landed Costs
+              </TabsTrigger>
+              <TabsTrigger value="payments" data-testid="tab-payments">
+                <DollarSign className="w-4 h-4 mr-2" />
+                Payments
+              </TabsTrigger>
               <TabsTrigger value="matching" data-testid="tab-matching">
                 <CheckCircle className="w-4 h-4 mr-2" />
                 Matching
@@ -2902,6 +3879,14 @@ export default function Purchases() {
               <VendorBillsTab />
             </TabsContent>
 
+            <TabsContent value="landed-costs" className="mt-6">
+              <LandedCostsTab suppliers={suppliers || []} orders={purchaseOrders || []} receipts={goodsReceipts || []} onError={handleMutationError} />
+            </TabsContent>
+
+            <TabsContent value="payments" className="mt-6">
+              <SupplierPaymentsTab suppliers={suppliers || []} bills={vendorBills || []} onError={handleMutationError} />
+            </TabsContent>
+
             <TabsContent value="matching" className="mt-6">
               <ThreeWayMatchingTab />
             </TabsContent>
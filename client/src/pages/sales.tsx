@@ -50,6 +50,7 @@ export default function Sales() {
     switch (status.toLowerCase()) {
       case 'draft': return 'bg-gray-100 text-gray-800';
       case 'confirmed': return 'bg-blue-100 text-blue-800';
+      case 'partially_shipped': return 'bg-orange-100 text-orange-800';
       case 'shipped': return 'bg-yellow-100 text-yellow-800';
       case 'delivered': return 'bg-green-100 text-green-800';
       case 'cancelled': return 'bg-red-100 text-red-800';
@@ -58,7 +59,7 @@ export default function Sales() {
   };
 
   const getStatusText = (status: string) => {
-    return status.charAt(0).toUpperCase() + status.slice(1);
+    return (status.charAt(0).toUpperCase() + status.slice(1)).replace(/_/g, ' ');
   };
 
   if (error) {
@@ -121,6 +122,7 @@ export default function Sales() {
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="draft">Draft</SelectItem>
                   <SelectItem value="confirmed">Confirmed</SelectItem>
+                  <SelectItem value="partially_shipped">Partially shipped</SelectItem>
                   <SelectItem value="shipped">Shipped</SelectItem>
                   <SelectItem value="delivered">Delivered</SelectItem>
                   <SelectItem value="cancelled">Cancelled</SelectItem>
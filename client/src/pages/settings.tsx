@@ -13,15 +13,67 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { CurrencySelector } from "@/components/ui/currency-selector";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { CurrencyCode } from "@/lib/currencyUtils";
+import type { SystemSetting } from "@shared/schema";
 import { 
   Settings as SettingsIcon, 
   Bot, 
   CheckCircle, 
   XCircle, 
   AlertTriangle,
-  Loader2 
+  Loader2,
+  Lock,
+  Globe,
+  Plus,
+  Save,
+  Trash2
 } from "lucide-react";
 
+const GENERAL_SETTING_FIELDS = [
+  { key: "company_name", label: "Company Name" },
+  { key: "company_tax_id", label: "Company NIF" },
+  { key: "default_tax_code", label: "Default IVA Tax Code" },
+  { key: "default_payment_terms_days", label: "Default Payment Terms (days)", type: "number" },
+  { key: "expiry_warning_days", label: "Expiry Warning (days)", type: "number" },
+];
+
+const NUMBERING_SETTING_FIELDS = [
+  { key: "invoice_number_prefix", label: "Invoices" },
+  { key: "credit_note_number_prefix", label: "Credit Notes" },
+  { key: "sales_order_number_prefix", label: "Sales Orders" },
+  { key: "purchase_order_number_prefix", label: "Purchase Orders" },
+  { key: "goods_receipt_number_prefix", label: "Goods Receipts" },
+  { key: "pos_receipt_number_prefix", label: "POS Receipts" },
+  { key: "transfer_order_number_prefix", label: "Transfer Orders" },
+  { key: "quotation_number_prefix", label: "Quotations" },
+  { key: "purchase_request_number_prefix", label: "Purchase Requests" },
+  { key: "vendor_bill_number_prefix", label: "Vendor Bills" },
+];
+
+// Keys edited through the dedicated forms above the generic list
+const MANAGED_SETTING_KEYS = new Set([
+  "ai_enabled",
+  "default_currency",
+  ...GENERAL_SETTING_FIELDS.map(f => f.key),
+  ...NUMBERING_SETTING_FIELDS.map(f => f.key),
+]);
+
+const SETTING_CATEGORIES = ["general", "finance", "ai", "feature_flags", "integrations", "security"] as const;
+
+interface NewSettingForm {
+  key: string;
+  value: string;
+  category: typeof SETTING_CATEGORIES[number];
+  isPublic: boolean;
+  isEncrypted: boolean;
+}
+
+const EMPTY_NEW_SETTING: NewSettingForm = { key: "", value: "", category: "integrations", isPublic: false, isEncrypted: false };
+
 interface HealthStatus {
   status: string;
   openaiConfigured: boolean;
@@ -32,7 +84,8 @@ interface HealthStatus {
 export default function Settings() {
   const { user, isAuthenticated, isLoading } = useAuth();
   const { toast } = useToast();
-  const [aiEnabled, setAiEnabled] = useState(true);
+  const [draftValues, setDraftValues] = useState<Record<string, string>>({});
+  const [newSetting, setNewSetting] = useState<NewSettingForm>(EMPTY_NEW_SETTING);
 
   // Check if user is admin
   const isAdmin = user?.role === 'admin';
@@ -42,6 +95,17 @@ export default function Settings() {
     enabled: isAuthenticated && !isLoading,
   });
 
+  const { data: settings = [], isLoading: settingsLoading } = useQuery<SystemSetting[]>({
+    queryKey: ["/api/settings"],
+    enabled: isAuthenticated && !isLoading && isAdmin,
+  });
+
+  const settingValues = Object.fromEntries(settings.map(s => [s.key, s.value ?? ""]));
+  const valueOf = (key: string) => draftValues[key] ?? settingValues[key] ?? "";
+  const aiEnabled = settingValues.ai_enabled !== "false";
+  const changedKeys = Object.keys(draftValues).filter(key => draftValues[key] !== (settingValues[key] ?? ""));
+  const otherSettings = settings.filter(s => !MANAGED_SETTING_KEYS.has(s.key));
+
   useEffect(() => {
     if (healthError && isUnauthorizedError(healthError as Error)) {
       toast({
@@ -55,37 +119,53 @@ export default function Settings() {
     }
   }, [healthError, toast]);
 
-  const toggleAiMutation = useMutation({
-    mutationFn: async (enabled: boolean) => {
-      const response = await apiRequest("POST", "/api/settings/ai", { enabled });
-      return await response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/health"] });
+  const handleMutationError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
       toast({
-        title: "AI Configuration Updated",
-        description: `AI features have been ${aiEnabled ? 'enabled' : 'disabled'}.`,
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
       });
-    },
-    onError: (error) => {
-      if (isUnauthorizedError(error as Error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    
+    toast({
+      title: "Error",
+      description: `${description} ${error.message}`,
+      variant: "destructive",
+    });
+  };
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (updates: Array<{ key: string; value: string | null; category?: string; isPublic?: boolean; isEncrypted?: boolean }>) => {
+      for (const { key, ...body } of updates) {
+        await apiRequest("PUT", `/api/settings/${encodeURIComponent(key)}`, body);
       }
-      
+      return updates.length;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      setDraftValues({});
       toast({
-        title: "Error",
-        description: "Failed to update AI configuration. Please try again.",
-        variant: "destructive",
+        title: "Settings Saved",
+        description: `${count} setting${count === 1 ? "" : "s"} updated.`,
       });
     },
+    onError: (error) => handleMutationError(error as Error, "Failed to save settings."),
+  });
+
+  const deleteSettingMutation = useMutation({
+    mutationFn: async (key: string) => {
+      await apiRequest("DELETE", `/api/settings/${encodeURIComponent(key)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({ title: "Setting Removed", description: "The setting now uses its default value." });
+    },
+    onError: (error) => handleMutationError(error as Error, "Failed to remove setting."),
   });
 
   if (isLoading || !isAuthenticated) {
@@ -120,8 +200,21 @@ export default function Settings() {
   }
 
   const handleAiToggle = (enabled: boolean) => {
-    setAiEnabled(enabled);
-    toggleAiMutation.mutate(enabled);
+    saveSettingsMutation.mutate([{ key: "ai_enabled", value: String(enabled) }]);
+  };
+
+  const setDraft = (key: string, value: string) => {
+    setDraftValues(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSaveChanges = () => {
+    saveSettingsMutation.mutate(changedKeys.map(key => ({ key, value: draftValues[key] })));
+  };
+
+  const handleAddSetting = () => {
+    saveSettingsMutation.mutate([{ ...newSetting, key: newSetting.key.trim() }], {
+      onSuccess: () => setNewSetting(EMPTY_NEW_SETTING),
+    });
   };
 
   const getStatusIndicator = (configured: boolean, label: string) => {
@@ -231,9 +324,9 @@ export default function Settings() {
                       </div>
                     </div>
                     <Switch
-                      checked={aiEnabled && (healthStatus?.openaiConfigured ?? false)}
+                      checked={aiEnabled}
                       onCheckedChange={handleAiToggle}
-                      disabled={!healthStatus?.openaiConfigured || toggleAiMutation.isPending}
+                      disabled={settingsLoading || saveSettingsMutation.isPending}
                       data-testid="switch-ai-recommendations"
                     />
                   </div>
@@ -246,9 +339,9 @@ export default function Settings() {
                       </div>
                     </div>
                     <Switch
-                      checked={aiEnabled && (healthStatus?.openaiConfigured ?? false)}
+                      checked={aiEnabled}
                       onCheckedChange={handleAiToggle}
-                      disabled={!healthStatus?.openaiConfigured || toggleAiMutation.isPending}
+                      disabled={settingsLoading || saveSettingsMutation.isPending}
                       data-testid="switch-ai-chat"
                     />
                   </div>
@@ -258,7 +351,7 @@ export default function Settings() {
                   <Alert>
                     <AlertTriangle className="h-4 w-4" />
                     <AlertDescription>
-                      OpenAI API key is not configured. AI features will use fallback data until configured. 
+                      OpenAI API key is not configured. AI features will use the offline rule-based backend until configured. 
                       Contact your system administrator to configure the OpenAI API key in environment variables.
                     </AlertDescription>
                   </Alert>
@@ -271,28 +364,196 @@ export default function Settings() {
               <CardHeader>
                 <CardTitle>General Settings</CardTitle>
                 <CardDescription>
-                  Company information and system preferences
+                  Company information and defaults used by sales, invoicing and POS
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label className="font-medium">Company Name</Label>
-                      <div className="text-sm text-muted-foreground">Pharmaceutical Distribution Co.</div>
+                {settingsLoading ? (
+                  <div className="flex items-center space-x-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span className="text-body-small text-muted-foreground">Loading settings...</span>
+                  </div>
+                ) : (
+                  <div className="space-y-6">
+                    <div className="grid grid-cols-2 gap-4">
+                      {GENERAL_SETTING_FIELDS.map(field => (
+                        <div key={field.key} className="space-y-2">
+                          <Label htmlFor={`setting-${field.key}`} className="font-medium">{field.label}</Label>
+                          <Input
+                            id={`setting-${field.key}`}
+                            type={field.type || "text"}
+                            value={valueOf(field.key)}
+                            onChange={(e) => setDraft(field.key, e.target.value)}
+                            data-testid={`input-setting-${field.key}`}
+                          />
+                        </div>
+                      ))}
+                      <div className="space-y-2">
+                        <Label className="font-medium">Default Currency</Label>
+                        <CurrencySelector
+                          value={valueOf("default_currency") as CurrencyCode}
+                          onValueChange={(currency) => setDraft("default_currency", currency)}
+                          data-testid="select-setting-default_currency"
+                        />
+                      </div>
                     </div>
-                    <div className="space-y-2">
-                      <Label className="font-medium">Default Currency</Label>
-                      <div className="text-sm text-muted-foreground">USD</div>
+
+                    <Separator />
+
+                    <div className="space-y-3">
+                      <Label className="font-medium">Document Number Prefixes</Label>
+                      <div className="grid grid-cols-3 gap-4">
+                        {NUMBERING_SETTING_FIELDS.map(field => (
+                          <div key={field.key} className="space-y-2">
+                            <Label htmlFor={`setting-${field.key}`} className="text-sm text-muted-foreground">{field.label}</Label>
+                            <Input
+                              id={`setting-${field.key}`}
+                              value={valueOf(field.key)}
+                              onChange={(e) => setDraft(field.key, e.target.value.toUpperCase())}
+                              data-testid={`input-setting-${field.key}`}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex justify-end space-x-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => setDraftValues({})}
+                        disabled={changedKeys.length === 0 || saveSettingsMutation.isPending}
+                        data-testid="button-discard-settings"
+                      >
+                        Discard
+                      </Button>
+                      <Button
+                        onClick={handleSaveChanges}
+                        disabled={changedKeys.length === 0 || saveSettingsMutation.isPending}
+                        data-testid="button-save-settings"
+                      >
+                        {saveSettingsMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                        Save Changes{changedKeys.length > 0 ? ` (${changedKeys.length})` : ""}
+                      </Button>
                     </div>
                   </div>
-                  
-                  <Alert>
-                    <AlertTriangle className="h-4 w-4" />
-                    <AlertDescription>
-                      Additional general settings will be available in future updates.
-                    </AlertDescription>
-                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Other Settings */}
+            <Card data-testid="card-other-settings">
+              <CardHeader>
+                <CardTitle>Integration & Custom Settings</CardTitle>
+                <CardDescription>
+                  Additional settings such as integration credentials. Encrypted values are stored encrypted and never shown after saving.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {otherSettings.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Key</TableHead>
+                        <TableHead>Value</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead>Visibility</TableHead>
+                        <TableHead className="w-12"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {otherSettings.map(setting => (
+                        <TableRow key={setting.key} data-testid={`row-setting-${setting.key}`}>
+                          <TableCell className="font-mono text-sm">{setting.key}</TableCell>
+                          <TableCell className="text-sm">{setting.value}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{setting.category}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center space-x-1">
+                              {setting.isEncrypted && <Badge variant="secondary"><Lock className="mr-1 h-3 w-3" />Encrypted</Badge>}
+                              {setting.isPublic && <Badge variant="secondary"><Globe className="mr-1 h-3 w-3" />Public</Badge>}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {!setting.id.startsWith("default:") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => deleteSettingMutation.mutate(setting.key)}
+                                disabled={deleteSettingMutation.isPending}
+                                data-testid={`button-delete-setting-${setting.key}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                <div className="space-y-3">
+                  <Label className="font-medium">Add or Update Setting</Label>
+                  <div className="grid grid-cols-3 gap-4">
+                    <Input
+                      placeholder="key, e.g. smtp.password"
+                      value={newSetting.key}
+                      onChange={(e) => setNewSetting(prev => ({ ...prev, key: e.target.value.toLowerCase() }))}
+                      data-testid="input-new-setting-key"
+                    />
+                    <Input
+                      placeholder="value"
+                      type={newSetting.isEncrypted ? "password" : "text"}
+                      value={newSetting.value}
+                      onChange={(e) => setNewSetting(prev => ({ ...prev, value: e.target.value }))}
+                      data-testid="input-new-setting-value"
+                    />
+                    <Select
+                      value={newSetting.category}
+                      onValueChange={(category) => setNewSetting(prev => ({ ...prev, category: category as NewSettingForm["category"] }))}
+                    >
+                      <SelectTrigger data-testid="select-new-setting-category">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SETTING_CATEGORIES.map(category => (
+                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-6">
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id="new-setting-encrypted"
+                          checked={newSetting.isEncrypted}
+                          onCheckedChange={(isEncrypted) => setNewSetting(prev => ({ ...prev, isEncrypted, isPublic: isEncrypted ? false : prev.isPublic }))}
+                          data-testid="switch-new-setting-encrypted"
+                        />
+                        <Label htmlFor="new-setting-encrypted">Encrypt value</Label>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id="new-setting-public"
+                          checked={newSetting.isPublic}
+                          disabled={newSetting.isEncrypted}
+                          onCheckedChange={(isPublic) => setNewSetting(prev => ({ ...prev, isPublic }))}
+                          data-testid="switch-new-setting-public"
+                        />
+                        <Label htmlFor="new-setting-public">Readable by all users</Label>
+                      </div>
+                    </div>
+                    <Button
+                      onClick={handleAddSetting}
+                      disabled={!newSetting.key.trim() || saveSettingsMutation.isPending}
+                      data-testid="button-add-setting"
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Save Setting
+                    </Button>
+                  </div>
                 </div>
               </CardContent>
             </Card>
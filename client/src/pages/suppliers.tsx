@@ -55,8 +55,12 @@ export default function SuppliersPage() {
       phone: "",
       address: "",
       country: "",
+      taxId: "",
       creditDays: 30,
       currency: "USD",
+      bankName: "",
+      iban: "",
+      swiftCode: "",
       isActive: true,
     },
   });
@@ -171,8 +175,12 @@ export default function SuppliersPage() {
        phone: data.phone || undefined,
        address: data.address || null,
        country: data.country || undefined,
+       taxId: data.taxId ? data.taxId.trim() : null,
        creditDays: data.creditDays || 0,
        currency: data.currency || "USD",
+       bankName: data.bankName || null,
+       iban: data.iban ? data.iban.replace(/\s+/g, "").toUpperCase() : null,
+       swiftCode: data.swiftCode ? data.swiftCode.toUpperCase() : null,
     };
 
     if (editingSupplier) {
@@ -190,8 +198,12 @@ export default function SuppliersPage() {
       phone: supplier.phone || "",
       address: supplier.address || "",
       country: supplier.country || "",
+      taxId: supplier.taxId || "",
       creditDays: supplier.creditDays || 30,
       currency: supplier.currency || "USD",
+      bankName: supplier.bankName || "",
+      iban: supplier.iban || "",
+      swiftCode: supplier.swiftCode || "",
       isActive: supplier.isActive ?? true,
     });
     setIsCreateModalOpen(true);
@@ -367,6 +379,20 @@ export default function SuppliersPage() {
                         )}
                       />
 
+                      <FormField
+                        control={form.control}
+                        name="taxId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Tax ID (NIF)</FormLabel>
+                            <FormControl>
+                              <Input data-testid="input-supplier-tax-id" placeholder="5417000000" {...field} value={field.value ?? ""} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <FormField
                           control={form.control}
@@ -417,6 +443,49 @@ export default function SuppliersPage() {
                         />
                       </div>
 
+                      {/* Bank details used for payment run transfer files */}
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="bankName"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Bank</FormLabel>
+                              <FormControl>
+                                <Input data-testid="input-supplier-bank-name" placeholder="Bank name" {...field} value={field.value || ""} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="iban"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>IBAN / Account</FormLabel>
+                              <FormControl>
+                                <Input data-testid="input-supplier-iban" placeholder="AO06..." {...field} value={field.value || ""} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="swiftCode"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>SWIFT/BIC</FormLabel>
+                              <FormControl>
+                                <Input data-testid="input-supplier-swift" placeholder="SWIFT code" {...field} value={field.value || ""} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <FormField
                           control={form.control}
@@ -0,0 +1,618 @@
+import type {
+  SentimentResult,
+  InventoryRecommendation,
+  PriceOptimization,
+  AIInsight,
+  ChatToolContext,
+  ChatQueryResult,
+  VendorBillExtraction,
+} from "./ai";
+import { executeAiTool, type AiToolInvocation } from "./ai-tools";
+
+/**
+ * Deterministic rule-based AI backend. Used when no LLM provider is configured or a
+ * feature is routed to 'local'. Results depend only on the input, so they are
+ * reproducible and work without network access.
+ */
+
+// ---------------------------------------------------------------------------
+// Sentiment (lexicon based, English and Portuguese)
+// ---------------------------------------------------------------------------
+
+const SENTIMENT_LEXICON: Record<string, number> = {
+  // positive
+  excellent: 3, excelente: 3, great: 2, otimo: 2, 'ótimo': 2, good: 1.5, bom: 1.5, boa: 1.5,
+  satisfied: 2, satisfeito: 2, satisfeita: 2, happy: 2, pleased: 2, thank: 1.5, thanks: 1.5,
+  obrigado: 1.5, obrigada: 1.5, appreciate: 2, agradecemos: 2, wonderful: 3, amazing: 3,
+  fantastic: 3, love: 2.5, perfect: 3, perfeito: 3, best: 2, recommend: 2, recomendo: 2,
+  fast: 1, quick: 1, 'rápido': 1, rapido: 1, helpful: 1.5, professional: 1.5, profissional: 1.5,
+  reliable: 1.5, 'confiável': 1.5, on_time: 1.5, resolved: 1.5, resolvido: 1.5,
+  // negative
+  bad: -2, mau: -2, 'má': -2, terrible: -3, 'péssimo': -3, pessimo: -3, awful: -3, horrible: -3,
+  disappointed: -2.5, decepcionado: -2.5, unsatisfied: -2.5, insatisfeito: -2.5, angry: -2.5,
+  upset: -2, frustrated: -2, frustrado: -2, complaint: -1.5, 'reclamação': -1.5, reclamacao: -1.5,
+  problem: -1.5, problema: -1.5, issue: -1, delay: -1.5, atraso: -1.5, atrasado: -1.5, late: -1.5,
+  slow: -1, lento: -1, poor: -2, worst: -3, hate: -3, refuse: -1.5, unacceptable: -3,
+  inaceitável: -3, inaceitavel: -3, damaged: -2, danificado: -2, broken: -2, partido: -1.5,
+  wrong: -1.5, errado: -1.5, expired: -2, expirado: -2, vencido: -2, missing: -1.5, falta: -1,
+  cancel: -1.5, cancelar: -1.5, overcharged: -2,
+};
+
+const NEGATIONS = new Set(['not', 'no', 'never', "don't", "didn't", "isn't", "wasn't", 'nao', 'não', 'nunca', 'sem']);
+const INTENSIFIERS: Record<string, number> = { very: 1.5, really: 1.5, extremely: 2, so: 1.3, muito: 1.5, muita: 1.5, extremamente: 2, bastante: 1.3 };
+
+const SENTIMENT_ASPECTS: Record<string, string[]> = {
+  delivery: ['delivery', 'deliver', 'shipment', 'entrega', 'envio', 'late', 'delay', 'atraso'],
+  product_quality: ['quality', 'qualidade', 'damaged', 'danificado', 'broken', 'expired', 'vencido', 'expirado'],
+  pricing: ['price', 'preço', 'preco', 'cost', 'expensive', 'caro', 'discount', 'desconto'],
+  payment: ['payment', 'pagamento', 'invoice', 'fatura', 'factura', 'credit', 'crédito', 'overcharged'],
+  customer_service: ['service', 'serviço', 'support', 'suporte', 'staff', 'helpful', 'professional', 'atendimento'],
+  regulatory: ['license', 'licença', 'recall', 'regulatory', 'compliance', 'arman'],
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().replace(/on time/g, 'on_time').match(/[a-zà-öø-ÿ_']+/g) || [];
+
+export function analyzeSentiment(text: string): SentimentResult {
+  const startTime = Date.now();
+  const tokens = tokenize(text || '');
+  if (tokens.length === 0) {
+    return { score: 0, label: 'neutral', confidence: 0.5, aspects: [], processingTime: Date.now() - startTime };
+  }
+
+  let total = 0;
+  let hits = 0;
+  tokens.forEach((token, i) => {
+    const weight = SENTIMENT_LEXICON[token];
+    if (weight === undefined) return;
+
+    let value = weight;
+    // Look back up to three tokens for negations and intensifiers ("not very good")
+    for (let j = Math.max(0, i - 3); j < i; j++) {
+      if (NEGATIONS.has(tokens[j])) value = -value * 0.75;
+      if (INTENSIFIERS[tokens[j]]) value *= INTENSIFIERS[tokens[j]];
+    }
+    total += value;
+    hits++;
+  });
+
+  // Normalise into -1..1; the constant dampens scores of texts with a single hit
+  const score = hits === 0 ? 0 : Math.max(-1, Math.min(1, total / Math.sqrt(total * total + 4)));
+  const label: SentimentResult['label'] = score > 0.2 ? 'positive' : score < -0.2 ? 'negative' : 'neutral';
+  const coverage = hits / tokens.length;
+  const confidence = hits === 0 ? 0.5 : Math.min(0.9, 0.55 + Math.abs(score) * 0.25 + Math.min(coverage, 0.4) * 0.25);
+
+  const tokenSet = new Set(tokens);
+  const aspects = Object.entries(SENTIMENT_ASPECTS)
+    .filter(([, words]) => words.some(w => tokenSet.has(w)))
+    .map(([aspect]) => aspect)
+    .slice(0, 5);
+
+  return {
+    score: Math.round(score * 100) / 100,
+    label,
+    confidence: Math.round(confidence * 100) / 100,
+    aspects,
+    processingTime: Date.now() - startTime,
+  };
+}
+
+export function analyzeCustomerSentiment(customers: Array<{
+  customerId: string;
+  customerName: string;
+  interactions: string[];
+  paymentHistory: string;
+}>) {
+  return customers.map(customer => {
+    const results = customer.interactions.map(analyzeSentiment);
+    const interactionScore = results.length > 0 ? results.reduce((sum, r) => sum + r.score, 0) / results.length : 0;
+    const paymentScore = analyzeSentiment(customer.paymentHistory).score;
+    const combined = interactionScore * 0.7 + paymentScore * 0.3;
+    const sentiment: 'positive' | 'neutral' | 'negative' = combined > 0.2 ? 'positive' : combined < -0.2 ? 'negative' : 'neutral';
+    const aspects = Array.from(new Set(results.flatMap(r => r.aspects)));
+
+    const recommendations: string[] = [];
+    if (sentiment === 'negative') recommendations.push('Schedule a follow-up call with the account manager');
+    if (aspects.includes('delivery')) recommendations.push('Review recent delivery lead times for this customer');
+    if (aspects.includes('product_quality')) recommendations.push('Check batch quality and expiry of recent shipments');
+    if (aspects.includes('payment') || paymentScore < -0.2) recommendations.push('Review credit terms and outstanding invoices');
+    if (sentiment === 'positive') recommendations.push('Consider for loyalty pricing or upsell');
+
+    return {
+      customerId: customer.customerId,
+      customerName: customer.customerName,
+      sentiment,
+      score: Math.round((combined + 1) * 50), // 0-100 like the LLM variant
+      summary: `${results.length} interactions analysed; ${results.filter(r => r.label === 'negative').length} negative, ${results.filter(r => r.label === 'positive').length} positive.${aspects.length ? ` Topics: ${aspects.join(', ')}.` : ''}`,
+      recommendations,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Vendor bill parsing (regex based)
+// ---------------------------------------------------------------------------
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, fev: 2, mar: 3, apr: 4, abr: 4, may: 5, mai: 5, jun: 6, jul: 7,
+  aug: 8, ago: 8, sep: 9, set: 9, oct: 10, out: 10, nov: 11, dec: 12, dez: 12,
+};
+
+const CURRENCY_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(AOA|KZ|KWANZAS?)\b/i, 'AOA'],
+  [/\bUSD\b|US\$|\$/, 'USD'],
+  [/\bEUR\b|€/, 'EUR'],
+  [/\bZAR\b|\bRAND\b/i, 'ZAR'],
+  [/\bCNY\b|\bRMB\b/i, 'CNY'],
+];
+
+// Accepts 1,234.56 / 1.234,56 / 1 234,56 / 1234
+export function parseAmount(raw: string): number | undefined {
+  let value = raw.replace(/[^\d.,\s-]/g, '').replace(/\s/g, '');
+  if (!value) return undefined;
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) ? amount : undefined;
+}
+
+function parseDate(raw: string): string | undefined {
+  let match = raw.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return toIsoDate(+match[1], +match[2], +match[3]);
+
+  // Angola uses day-first dates
+  match = raw.match(/(\d{1,2})[\/.\-](\d{1,2})[\/.\-](\d{2,4})/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + +match[3] : +match[3];
+    return toIsoDate(year, +match[2], +match[1]);
+  }
+
+  match = raw.match(/(\d{1,2})\s+(?:de\s+)?([A-Za-zç]{3,})\.?\s+(?:de\s+)?(\d{4})/i);
+  if (match) {
+    const month = MONTHS[match[2].slice(0, 3).toLowerCase()];
+    if (month) return toIsoDate(+match[3], month, +match[1]);
+  }
+
+  return undefined;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | undefined {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+const AMOUNT = String.raw`([\d][\d.,\s]*\d|\d)`;
+
+function findLabelled(lines: string[], labels: RegExp, valuePattern: RegExp): string | undefined {
+  for (const line of lines) {
+    if (!labels.test(line)) continue;
+    const afterLabel = line.replace(labels, '');
+    const match = afterLabel.match(valuePattern);
+    if (match) return match[1].trim();
+  }
+  return undefined;
+}
+
+export function parseVendorBill(text: string): { extractedData: VendorBillExtraction; confidence: number } {
+  const lines = (text || '').split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  const data: VendorBillExtraction = {};
+
+  data.billNumber = findLabelled(
+    lines,
+    /\b(invoice|bill|factura|fatura|fact\.?|doc(?:umento)?)\s*(n[º°o.]*|no\.?|number|#)?\s*:?/i,
+    /([A-Z0-9][A-Z0-9\-\/\s]{2,}[0-9])/i
+  )?.replace(/\s+/g, ' ');
+
+  const dateLine = (labels: RegExp) => {
+    const line = lines.find(l => labels.test(l));
+    return line ? parseDate(line.replace(labels, '')) : undefined;
+  };
+  data.billDate = dateLine(/\b(invoice date|bill date|date|data( de emiss[ãa]o)?|emiss[ãa]o)\b\s*:?/i);
+  data.dueDate = dateLine(/\b(due date|payment due|vencimento|data de vencimento|data limite)\b\s*:?/i);
+  if (!data.billDate) {
+    const anyDate = lines.map(parseDate).find(Boolean);
+    if (anyDate) data.billDate = anyDate;
+  }
+
+  // Supplier: explicit label, else the first line that is not a document header
+  data.supplierName = findLabelled(lines, /\b(supplier|vendor|from|fornecedor|emitente)\b\s*:?/i, /(.+)/)
+    || lines.find(l => /[A-Za-z]{3,}/.test(l) && !/(invoice|factura|fatura|bill|date|data|nif|tax)/i.test(l));
+
+  const totalRaw = findLabelled(lines, /\b(grand total|total a pagar|amount due|total geral|total)\b(?!\s*(iva|tax|vat))\s*:?/i, new RegExp(AMOUNT));
+  data.totalAmount = totalRaw ? parseAmount(totalRaw) : undefined;
+
+  const taxRaw = findLabelled(lines, /\b(iva|vat|tax|imposto)\b\s*(\(?\d{1,2}(?:[.,]\d+)?\s*%\)?)?\s*:?/i, new RegExp(AMOUNT));
+  data.taxAmount = taxRaw ? parseAmount(taxRaw) : undefined;
+
+  const termsMatch = text.match(/\b(net\s*\d+|\d+\s*(days|dias)|pronto pagamento|cash on delivery|pagamento a \d+ dias)\b/i);
+  data.paymentTerms = termsMatch?.[0];
+
+  data.currency = CURRENCY_PATTERNS.find(([pattern]) => pattern.test(text))?.[1];
+
+  // Line items: "<description> <qty> [x] <unit price> <line total>"
+  const itemPattern = new RegExp(String.raw`^(.+?)\s+(\d+(?:[.,]\d+)?)\s*(?:x|un|uni|units?|cx)?\s+${AMOUNT}\s+${AMOUNT}$`, 'i');
+  data.items = lines
+    .filter(line => !/\b(total|iva|vat|tax|subtotal)\b/i.test(line))
+    .map(line => line.match(itemPattern))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map(m => ({
+      description: m[1].trim(),
+      quantity: parseAmount(m[2]),
+      unitPrice: parseAmount(m[3]),
+      lineTotal: parseAmount(m[4]),
+    }))
+    .filter(item => item.quantity !== undefined && item.unitPrice !== undefined);
+
+  if (data.totalAmount === undefined && data.items.length > 0) {
+    const itemsTotal = data.items.reduce((sum, item) => sum + (item.lineTotal ?? 0), 0);
+    data.totalAmount = Math.round((itemsTotal + (data.taxAmount ?? 0)) * 100) / 100;
+  }
+
+  // Confidence grows with the number of key fields found
+  const keyFields = [data.billNumber, data.supplierName, data.billDate, data.totalAmount, data.currency];
+  const found = keyFields.filter(v => v !== undefined).length;
+  const confidence = Math.round(30 + (found / keyFields.length) * 50 + Math.min(data.items.length, 4) * 5);
+
+  return { extractedData: data, confidence };
+}
+
+// ---------------------------------------------------------------------------
+// Reorder suggestions (reorder point heuristic)
+// ---------------------------------------------------------------------------
+
+const DAYS_PER_PERIOD = 30; // salesHistory entries are monthly quantities
+const SAFETY_FACTOR = 1.65; // ~95% service level
+
+export function recommendReorders(inventoryData: Array<{
+  productId: string;
+  productName: string;
+  currentStock: number;
+  salesHistory: number[];
+  leadTimeDays: number;
+  minStockLevel: number;
+}>): InventoryRecommendation[] {
+  return inventoryData
+    .map(item => {
+      const history = item.salesHistory.filter(v => Number.isFinite(v));
+      const mean = history.length > 0 ? history.reduce((a, b) => a + b, 0) / history.length : 0;
+      const variance = history.length > 1
+        ? history.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (history.length - 1)
+        : 0;
+
+      const dailyDemand = mean / DAYS_PER_PERIOD;
+      const dailyStdDev = Math.sqrt(variance) / Math.sqrt(DAYS_PER_PERIOD);
+      const leadTime = Math.max(item.leadTimeDays, 1);
+      const safetyStock = Math.max(SAFETY_FACTOR * dailyStdDev * Math.sqrt(leadTime), item.minStockLevel);
+      const reorderPoint = dailyDemand * leadTime + safetyStock;
+      const daysOfCover = dailyDemand > 0 ? item.currentStock / dailyDemand : Infinity;
+
+      // Trend: compare the most recent period to the average
+      const latest = history[history.length - 1] ?? 0;
+      const trend = mean > 0 ? (latest - mean) / mean : 0;
+
+      return { item, dailyDemand, safetyStock, reorderPoint, daysOfCover, trend, leadTime };
+    })
+    .filter(r => r.item.currentStock <= r.reorderPoint)
+    .sort((a, b) => a.daysOfCover - b.daysOfCover)
+    .map(({ item, dailyDemand, safetyStock, reorderPoint, daysOfCover, trend, leadTime }) => {
+      // Order up to one month of demand on top of the reorder point
+      const target = reorderPoint + dailyDemand * DAYS_PER_PERIOD;
+      const recommendedReorder = Math.max(Math.ceil(target - item.currentStock), item.minStockLevel, 1);
+      const urgency: InventoryRecommendation['urgency'] =
+        daysOfCover <= leadTime || item.currentStock <= item.minStockLevel ? 'high'
+          : daysOfCover <= leadTime * 2 ? 'medium' : 'low';
+
+      const coverText = Number.isFinite(daysOfCover) ? `${Math.floor(daysOfCover)} days of cover` : 'no recent sales';
+      const trendText = Math.abs(trend) >= 0.15 ? `, demand ${trend > 0 ? 'up' : 'down'} ${Math.round(Math.abs(trend) * 100)}% on average` : '';
+
+      return {
+        productId: item.productId,
+        productName: item.productName,
+        currentStock: item.currentStock,
+        recommendedReorder,
+        reason: `Stock ${item.currentStock} is at or below the reorder point of ${Math.ceil(reorderPoint)} (${coverText}, ${leadTime}-day lead time, safety stock ${Math.ceil(safetyStock)}${trendText}).`,
+        urgency,
+      };
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Price optimization (competitor median, guarded by margin)
+// ---------------------------------------------------------------------------
+
+const MIN_MARGIN_PERCENT = 10; // never suggest a price below cost plus this margin
+const PRICE_STEP = 0.5; // move half way towards the market price at a time
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+export function optimizePrices(productData: Array<{
+  productId: string;
+  productName: string;
+  currentPrice: number;
+  salesVolume: number;
+  competitorPrices: number[];
+  marginPercentage: number;
+}>): PriceOptimization[] {
+  const volumes = productData.map(product => product.salesVolume).filter(v => Number.isFinite(v));
+  const typicalVolume = volumes.length > 0 ? median(volumes) : 0;
+
+  return productData
+    .map(product => {
+      const competitorPrices = product.competitorPrices.filter(price => Number.isFinite(price) && price > 0);
+      if (competitorPrices.length === 0 || product.currentPrice <= 0) {
+        return null;
+      }
+      const marketPrice = median(competitorPrices);
+      const cost = product.currentPrice * (1 - product.marginPercentage / 100);
+      const floorPrice = cost * (1 + MIN_MARGIN_PERCENT / 100);
+      const gap = (marketPrice - product.currentPrice) / product.currentPrice;
+
+      // Below the market: raise towards it. Above it: lower only when the product sells
+      // less than the typical product, since a fast seller is evidently not overpriced
+      let suggestedPrice = product.currentPrice;
+      if (gap >= 0.05) {
+        suggestedPrice = product.currentPrice + (marketPrice - product.currentPrice) * PRICE_STEP;
+      } else if (gap <= -0.1 && product.salesVolume < typicalVolume) {
+        suggestedPrice = Math.max(product.currentPrice + (marketPrice - product.currentPrice) * PRICE_STEP, floorPrice);
+      }
+      suggestedPrice = roundPrice(suggestedPrice);
+      if (suggestedPrice === roundPrice(product.currentPrice)) {
+        return null;
+      }
+
+      const suggestedMargin = (suggestedPrice - cost) / suggestedPrice * 100;
+      return {
+        productId: product.productId,
+        productName: product.productName,
+        currentPrice: product.currentPrice,
+        suggestedPrice,
+        potentialMarginIncrease: Math.round((suggestedMargin - product.marginPercentage) * 10) / 10,
+        competitorData: `${competitorPrices.length} competitor price(s) from ${roundPrice(Math.min(...competitorPrices))} to ${roundPrice(Math.max(...competitorPrices))}, median ${roundPrice(marketPrice)} (${gap >= 0 ? 'above' : 'below'} ours by ${Math.round(Math.abs(gap) * 100)}%)`,
+      };
+    })
+    .filter((optimization): optimization is PriceOptimization => optimization !== null)
+    .sort((a, b) => Math.abs(b.suggestedPrice - b.currentPrice) / b.currentPrice - Math.abs(a.suggestedPrice - a.currentPrice) / a.currentPrice);
+}
+
+// ---------------------------------------------------------------------------
+// Business insights (thresholds over the dashboard metrics)
+// ---------------------------------------------------------------------------
+
+const SALES_TREND_THRESHOLD = 0.15;
+
+export function summarizeBusiness(businessData: {
+  salesMetrics: any;
+  inventoryMetrics: any;
+  customerMetrics: any;
+  financialMetrics: any;
+}): AIInsight[] {
+  const insights: AIInsight[] = [];
+  const totalItems = Number(businessData.inventoryMetrics?.totalItems) || 0;
+
+  const expiringCount = Number(businessData.inventoryMetrics?.expiringProductsCount) || 0;
+  if (expiringCount > 0) {
+    const share = totalItems > 0 ? expiringCount / totalItems : 1;
+    insights.push({
+      type: 'expiry_alert',
+      title: `${expiringCount} batch(es) close to expiry`,
+      description: `${expiringCount} of ${totalItems} stock batches (${Math.round(share * 100)}%) expire within the warning window. Sell them first, return them to the supplier or plan their disposal.`,
+      actionText: 'Review expiring stock',
+      urgency: share >= 0.1 ? 'high' : 'medium',
+      data: { expiringCount, totalItems },
+    });
+  }
+
+  const lowStockCount = Number(businessData.inventoryMetrics?.lowStockCount) || 0;
+  if (lowStockCount > 0) {
+    const activeProducts = Number(businessData.inventoryMetrics?.activeProducts) || 0;
+    const share = activeProducts > 0 ? lowStockCount / activeProducts : 1;
+    insights.push({
+      type: 'reorder',
+      title: `${lowStockCount} product(s) at or below minimum stock`,
+      description: `${lowStockCount} of ${activeProducts} active products are at or below their minimum stock level. Raise purchase orders before they run out.`,
+      actionText: 'Review reorder suggestions',
+      urgency: share >= 0.2 ? 'high' : 'medium',
+      data: { lowStockCount, activeProducts },
+    });
+  }
+
+  // Compare the older half of the recent sales with the newer half
+  const sales: Array<{ date: string; amount: number }> = (businessData.salesMetrics?.recentTransactions ?? [])
+    .map((transaction: any) => ({ date: String(transaction.date), amount: Number(transaction.amount) || 0 }))
+    .sort((a: { date: string }, b: { date: string }) => a.date.localeCompare(b.date));
+  if (sales.length >= 4) {
+    const half = Math.floor(sales.length / 2);
+    const earlier = sales.slice(0, half).reduce((sum, sale) => sum + sale.amount, 0);
+    const later = sales.slice(sales.length - half).reduce((sum, sale) => sum + sale.amount, 0);
+    const change = earlier > 0 ? (later - earlier) / earlier : 0;
+    if (Math.abs(change) >= SALES_TREND_THRESHOLD) {
+      insights.push({
+        type: 'sales_trend',
+        title: `Recent sales ${change > 0 ? 'up' : 'down'} ${Math.round(Math.abs(change) * 100)}%`,
+        description: `The latest ${half} sales total ${later.toFixed(2)} against ${earlier.toFixed(2)} for the ${half} before them.${change < 0 ? ' Check for stock-outs, lost customers or pricing changes.' : ''}`,
+        actionText: 'View sales reports',
+        urgency: change < 0 ? 'medium' : 'low',
+        data: { earlier, later, change },
+      });
+    }
+  }
+
+  const outstandingAmount = Number(businessData.financialMetrics?.outstandingAmount) || 0;
+  const totalRevenue = Number(businessData.salesMetrics?.totalRevenue) || 0;
+  if (totalRevenue > 0 && outstandingAmount / totalRevenue >= 0.3) {
+    insights.push({
+      type: 'sales_trend',
+      title: 'High outstanding receivables',
+      description: `${outstandingAmount.toFixed(2)} is still to be collected, ${Math.round(outstandingAmount / totalRevenue * 100)}% of revenue. Follow up on overdue invoices.`,
+      actionText: 'Review receivables',
+      urgency: outstandingAmount / totalRevenue >= 0.5 ? 'high' : 'medium',
+      data: { outstandingAmount, totalRevenue },
+    });
+  }
+
+  if (insights.length === 0) {
+    insights.push({
+      type: 'sales_trend',
+      title: 'No issues found',
+      description: 'No batches are close to expiry, stock is above minimum levels and recent sales are steady.',
+      actionText: 'View sales reports',
+      urgency: 'low',
+    });
+  }
+
+  const urgencyRank = { high: 0, medium: 1, low: 2 };
+  return insights.sort((a, b) => urgencyRank[a.urgency] - urgencyRank[b.urgency]);
+}
+
+// ---------------------------------------------------------------------------
+// Chat (keyword intents answered through the same role-checked tools)
+// ---------------------------------------------------------------------------
+
+function parseDaysAhead(query: string): number {
+  const match = query.match(/(\d+)\s*(day|dia|week|semana|month|m[eê]s|meses)/i);
+  if (match) {
+    const n = parseInt(match[1], 10);
+    if (/week|semana/i.test(match[2])) return n * 7;
+    if (/month|m[eê]s|meses/i.test(match[2])) return n * 30;
+    return n;
+  }
+  // Calendar months run to the last day of the month
+  const today = new Date();
+  const daysUntilEndOfMonth = (offset: number) =>
+    Math.ceil((new Date(today.getFullYear(), today.getMonth() + offset + 1, 0).getTime() - today.getTime()) / 86400000);
+  if (/next month|pr[oó]ximo m[eê]s/i.test(query)) return daysUntilEndOfMonth(1);
+  if (/this month|este m[eê]s/i.test(query)) return Math.max(daysUntilEndOfMonth(0), 1);
+  if (/next week|pr[oó]xima semana/i.test(query)) return 14;
+  return 30;
+}
+
+const STOP_WORDS = new Set([
+  'which', 'what', 'how', 'many', 'much', 'the', 'of', 'in', 'at', 'do', 'we', 'have', 'is', 'are', 'there',
+  'batches', 'batch', 'stock', 'inventory', 'expire', 'expiring', 'expires', 'next', 'month', 'week', 'days',
+  'show', 'me', 'list', 'for', 'a', 'an', 'and', 'our', 'any', 'left', 'level', 'levels', 'this', 'quais',
+  'lotes', 'de', 'do', 'da', 'em', 'no', 'na', 'expiram', 'stock', 'quanto', 'temos', 'product', 'products',
+]);
+
+export async function answerChatQuery(query: string, context: ChatToolContext): Promise<ChatQueryResult> {
+  const toolCalls: AiToolInvocation[] = [];
+  const call = async (tool: string, args: Record<string, unknown>) => {
+    const invocation = await executeAiTool(tool, JSON.stringify(args), context.role);
+    toolCalls.push(invocation);
+    return invocation;
+  };
+  const denied = (invocation: AiToolInvocation) => !invocation.allowed
+    ? { response: `You don't have access to that information. ${invocation.error}`, actionable: false, suggestedActions: [], toolCalls }
+    : undefined;
+
+  const lower = query.toLowerCase();
+  const warehouses = await call('list_warehouses', {});
+  const warehouseNames = ((warehouses.result as Array<{ name: string; location: string }>) || []);
+  const warehouseMatch = warehouseNames.find(w =>
+    [w.name, w.location].some(v => v && lower.includes(v.toLowerCase()))
+  );
+  const keywords = tokenize(query).filter(t => t.length > 2 && !STOP_WORDS.has(t)
+    && !warehouseNames.some(w => [w.name, w.location].some(v => v?.toLowerCase().includes(t))));
+
+  const findProduct = async () => {
+    for (const keyword of keywords) {
+      const search = await call('search_products', { query: keyword });
+      const products = (search.result as Array<{ id: string; name: string }>) || [];
+      if (products.length > 0) return products[0];
+    }
+    return undefined;
+  };
+
+  if (/expir|vence|validade/.test(lower)) {
+    const product = await findProduct();
+    const daysAhead = parseDaysAhead(query);
+    const invocation = await call('get_expiring_products', {
+      daysAhead,
+      productId: product?.id,
+      warehouse: warehouseMatch?.location || warehouseMatch?.name,
+    });
+    const rejection = denied(invocation);
+    if (rejection) return rejection;
+
+    const rows = (invocation.result as Array<{ product: string; warehouse: string; batchNumber: string; quantity: number; expiryDate: string }>) || [];
+    const scope = [product?.name, warehouseMatch ? `in ${warehouseMatch.location || warehouseMatch.name}` : null].filter(Boolean).join(' ');
+    return {
+      response: rows.length === 0
+        ? `No batches${scope ? ` of ${scope}` : ''} expire within the next ${daysAhead} days.`
+        : `${rows.length} batch(es)${scope ? ` of ${scope}` : ''} expire within ${daysAhead} days:\n` +
+          rows.map(r => `- ${r.product} batch ${r.batchNumber} at ${r.warehouse}: ${r.quantity} units, expires ${new Date(r.expiryDate).toISOString().split('T')[0]}`).join('\n'),
+      actionable: rows.length > 0,
+      suggestedActions: rows.length > 0 ? ['Prioritise these batches in FEFO picking', 'Consider transfers or promotions for slow movers'] : [],
+      toolCalls,
+    };
+  }
+
+  if (/invoice|factura|fatura|overdue|outstanding|receivable/.test(lower)) {
+    const invocation = await call('get_invoices', { status: /overdue|vencid/.test(lower) ? 'overdue' : undefined, limit: 20 });
+    const rejection = denied(invocation);
+    if (rejection) return rejection;
+
+    const rows = (invocation.result as Array<{ invoiceNumber: string; customer: string; status: string; outstanding: string; dueDate: string }>) || [];
+    const total = rows.reduce((sum, r) => sum + parseFloat(r.outstanding || '0'), 0);
+    return {
+      response: rows.length === 0
+        ? 'No matching invoices found.'
+        : `${rows.length} invoice(s), ${total.toFixed(2)} AOA outstanding:\n` +
+          rows.map(r => `- ${r.invoiceNumber} (${r.customer}, ${r.status}): ${r.outstanding} outstanding`).join('\n'),
+      actionable: total > 0,
+      suggestedActions: total > 0 ? ['Send payment reminders', 'Review customer credit limits'] : [],
+      toolCalls,
+    };
+  }
+
+  if (/stock|inventory|invent[aá]rio|quantity|quantidade|available|dispon/.test(lower)) {
+    const product = await findProduct();
+    if (product) {
+      const invocation = await call('get_inventory_by_product', { productId: product.id });
+      const rejection = denied(invocation);
+      if (rejection) return rejection;
+
+      const rows = ((invocation.result as Array<{ warehouse: string; location: string; batchNumber: string; quantity: number; quarantined: boolean }>) || [])
+        .filter(r => !warehouseMatch || r.warehouse === warehouseMatch.name);
+      const total = rows.filter(r => !r.quarantined).reduce((sum, r) => sum + r.quantity, 0);
+      return {
+        response: `${product.name}: ${total} units available${warehouseMatch ? ` at ${warehouseMatch.name}` : ''} across ${rows.length} batch(es).\n` +
+          rows.map(r => `- ${r.warehouse} batch ${r.batchNumber}: ${r.quantity}${r.quarantined ? ' (quarantined)' : ''}`).join('\n'),
+        actionable: false,
+        suggestedActions: [],
+        toolCalls,
+      };
+    }
+  }
+
+  if (/revenue|sales|dashboard|metric|vendas|receita/.test(lower)) {
+    const invocation = await call('get_dashboard_metrics', {});
+    const rejection = denied(invocation);
+    if (rejection) return rejection;
+
+    const metrics = invocation.result as Record<string, unknown>;
+    return {
+      response: Object.entries(metrics).map(([key, value]) => `- ${key}: ${value}`).join('\n'),
+      actionable: false,
+      suggestedActions: [],
+      toolCalls,
+    };
+  }
+
+  return {
+    response: "I can answer questions about expiring batches, stock by product and warehouse, invoices and business metrics. Try \"Which batches of amoxicillin expire in Luanda next month?\"",
+    actionable: true,
+    suggestedActions: ["Check dashboard metrics", "Review inventory levels", "View recent orders"],
+    toolCalls,
+  };
+}
@@ -0,0 +1,269 @@
+import OpenAI from "openai";
+import type {
+  ChatCompletion,
+  ChatCompletionCreateParamsNonStreaming,
+} from "openai/resources/chat/completions";
+import { getReplitSecretAsync } from "./secretLoader";
+import { getStorage } from "./storage";
+
+/**
+ * LLM provider routing for AIService.
+ *
+ * Providers:
+ * - openai:            api.openai.com using OPENAI_API_KEY
+ * - openai_compatible: any OpenAI-compatible endpoint (vLLM, Ollama, LM Studio...) at AI_BASE_URL
+ * - local:             deterministic rule-based backend in ai-local.ts, no network
+ *
+ * Configuration (environment):
+ * - AI_PROVIDER         default provider for every feature (default 'openai')
+ * - AI_MODEL            default model name (default 'gpt-5')
+ * - AI_BASE_URL         base URL for openai_compatible, e.g. http://localhost:11434/v1
+ * - AI_API_KEY          API key for openai_compatible (optional for most self-hosted servers)
+ * - AI_FEATURE_ROUTES   per-feature overrides, e.g. "sentiment=local,bill_ocr=openai_compatible:qwen2.5-vl"
+ *
+ * A feature routed to a remote provider that is not configured, or any feature while the
+ * ai_enabled setting is off, falls back to 'local'.
+ */
+
+export const AI_FEATURES = [
+  'chat',
+  'sentiment',
+  'customer_sentiment',
+  'inventory_recommendations',
+  'price_optimization',
+  'business_insights',
+  'bill_ocr',
+  'competitor_pricing',
+  'purchase_insights',
+  'purchase_risk',
+] as const;
+
+export type AiFeature = typeof AI_FEATURES[number];
+
+export const AI_PROVIDERS = ['openai', 'openai_compatible', 'local'] as const;
+
+export type AiProviderName = typeof AI_PROVIDERS[number];
+
+export const LOCAL_MODEL_NAME = 'local-rules';
+export const LOCAL_MODEL_VERSION = '1.0';
+
+export interface AiRoute {
+  feature: AiFeature;
+  provider: AiProviderName;
+  model: string;
+  // Set when the configured provider was unavailable and the route fell back to local
+  fallbackFrom?: AiProviderName;
+}
+
+export interface AiUsageContext {
+  userId?: string;
+  sessionId?: string;
+  insightId?: string;
+}
+
+const isProviderName = (value: string): value is AiProviderName =>
+  (AI_PROVIDERS as readonly string[]).includes(value);
+
+const isFeature = (value: string): value is AiFeature =>
+  (AI_FEATURES as readonly string[]).includes(value);
+
+function parseFeatureRoutes(spec: string | undefined): Map<AiFeature, { provider: AiProviderName; model?: string }> {
+  const routes = new Map<AiFeature, { provider: AiProviderName; model?: string }>();
+  if (!spec) return routes;
+
+  for (const entry of spec.split(',').map(e => e.trim()).filter(Boolean)) {
+    const [feature, target] = entry.split('=').map(p => p.trim());
+    const [provider, ...modelParts] = (target || '').split(':');
+    if (!isFeature(feature) || !isProviderName(provider)) {
+      console.warn(`⚠️ [AI] Ignoring invalid AI_FEATURE_ROUTES entry "${entry}"`);
+      continue;
+    }
+    routes.set(feature, { provider, model: modelParts.join(':') || undefined });
+  }
+
+  return routes;
+}
+
+class AiProviderRegistry {
+  private defaultProvider: AiProviderName;
+  private defaultModel: string;
+  private baseUrl?: string;
+  private featureRoutes: Map<AiFeature, { provider: AiProviderName; model?: string }>;
+  private openaiClient: OpenAI | null = null;
+  private compatibleClient: OpenAI | null = null;
+
+  constructor() {
+    const provider = process.env.AI_PROVIDER || 'openai';
+    this.defaultProvider = isProviderName(provider) ? provider : 'openai';
+    this.defaultModel = process.env.AI_MODEL || 'gpt-5';
+    this.baseUrl = process.env.AI_BASE_URL || undefined;
+    this.featureRoutes = parseFeatureRoutes(process.env.AI_FEATURE_ROUTES);
+  }
+
+  /**
+   * The ai_enabled setting; when off every feature runs on the local backend
+   */
+  async isAiEnabled(): Promise<boolean> {
+    const storage = await getStorage();
+    return (await storage.getSettingValue('ai_enabled')) !== 'false';
+  }
+
+  /**
+   * Whether a remote provider has the credentials/endpoint it needs
+   */
+  async isProviderAvailable(provider: AiProviderName): Promise<boolean> {
+    switch (provider) {
+      case 'local':
+        return true;
+      case 'openai_compatible':
+        return !!this.baseUrl;
+      case 'openai': {
+        const apiKey = await getReplitSecretAsync('OPENAI_API_KEY');
+        return !!(apiKey && apiKey.trim().length > 0 && apiKey !== 'default_key' && apiKey.startsWith('sk-'));
+      }
+    }
+  }
+
+  /**
+   * Provider and model that serve a feature
+   */
+  async resolveRoute(feature: AiFeature): Promise<AiRoute> {
+    const override = this.featureRoutes.get(feature);
+    const provider = override?.provider || this.defaultProvider;
+    const model = provider === 'local' ? LOCAL_MODEL_NAME : override?.model || this.defaultModel;
+
+    // With AI turned off in settings nothing is sent to a remote provider
+    if (provider !== 'local' && !(await this.isAiEnabled())) {
+      return { feature, provider: 'local', model: LOCAL_MODEL_NAME, fallbackFrom: provider };
+    }
+
+    if (provider !== 'local' && !(await this.isProviderAvailable(provider))) {
+      return { feature, provider: 'local', model: LOCAL_MODEL_NAME, fallbackFrom: provider };
+    }
+
+    return { feature, provider, model };
+  }
+
+  async getRoutes(): Promise<AiRoute[]> {
+    return await Promise.all(AI_FEATURES.map(feature => this.resolveRoute(feature)));
+  }
+
+  private async getClient(provider: AiProviderName): Promise<OpenAI> {
+    if (provider === 'openai') {
+      if (!this.openaiClient) {
+        const apiKey = await getReplitSecretAsync('OPENAI_API_KEY');
+        this.openaiClient = new OpenAI({ apiKey });
+        console.log('🚀 [AI] OpenAI client initialized successfully');
+      }
+      return this.openaiClient;
+    }
+
+    if (provider === 'openai_compatible') {
+      if (!this.compatibleClient) {
+        this.compatibleClient = new OpenAI({
+          apiKey: process.env.AI_API_KEY || 'not-required',
+          baseURL: this.baseUrl,
+        });
+        console.log(`🚀 [AI] OpenAI-compatible client initialized for ${this.baseUrl}`);
+      }
+      return this.compatibleClient;
+    }
+
+    throw new Error('The local AI backend does not provide a chat completion client');
+  }
+
+  /**
+   * Run a chat completion on the route's provider and record usage in aiModelMetrics
+   */
+  async createChatCompletion(
+    route: AiRoute,
+    params: Omit<ChatCompletionCreateParamsNonStreaming, 'model'>,
+    usage: AiUsageContext = {}
+  ): Promise<ChatCompletion> {
+    const startTime = Date.now();
+    try {
+      const client = await this.getClient(route.provider);
+      const completion = await client.chat.completions.create({ ...params, model: route.model });
+      this.recordUsage(route, {
+        ...usage,
+        modelVersion: completion.model || route.model,
+        tokensUsed: completion.usage?.total_tokens,
+        responseTime: Date.now() - startTime,
+        success: true,
+        metadata: {
+          promptTokens: completion.usage?.prompt_tokens,
+          completionTokens: completion.usage?.completion_tokens,
+          toolCalls: completion.choices[0]?.message.tool_calls?.length || 0,
+        },
+      });
+      return completion;
+    } catch (error) {
+      this.recordUsage(route, {
+        ...usage,
+        modelVersion: route.model,
+        responseTime: Date.now() - startTime,
+        success: false,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Run a local backend function for a feature and record it in aiModelMetrics
+   */
+  async runLocal<T>(route: AiRoute, fn: () => T | Promise<T>, usage: AiUsageContext = {}): Promise<T> {
+    const startTime = Date.now();
+    try {
+      const result = await fn();
+      this.recordUsage(route, { ...usage, modelVersion: LOCAL_MODEL_VERSION, responseTime: Date.now() - startTime, success: true });
+      return result;
+    } catch (error) {
+      this.recordUsage(route, {
+        ...usage,
+        modelVersion: LOCAL_MODEL_VERSION,
+        responseTime: Date.now() - startTime,
+        success: false,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  // Metrics are best-effort and never block or fail the AI request
+  private recordUsage(
+    route: AiRoute,
+    usage: AiUsageContext & {
+      modelVersion: string;
+      tokensUsed?: number;
+      responseTime: number;
+      success: boolean;
+      errorMessage?: string;
+      metadata?: Record<string, unknown>;
+    }
+  ): void {
+    void (async () => {
+      try {
+        const storage = await getStorage();
+        await storage.createAiModelMetric({
+          modelName: route.model,
+          modelVersion: usage.modelVersion,
+          requestType: route.feature,
+          tokensUsed: usage.tokensUsed ?? null,
+          responseTime: usage.responseTime,
+          success: usage.success,
+          errorMessage: usage.errorMessage ?? null,
+          userId: usage.userId ?? null,
+          sessionId: usage.sessionId ?? null,
+          insightId: usage.insightId ?? null,
+          metadata: { provider: route.provider, fallbackFrom: route.fallbackFrom, ...usage.metadata },
+        });
+      } catch (error) {
+        console.warn(`⚠️ [AI] Could not record model metric for ${route.feature}:`, error instanceof Error ? error.message : error);
+      }
+    })();
+  }
+}
+
+// Create and export singleton instance
+export const aiProviders = new AiProviderRegistry();
@@ -0,0 +1,311 @@
+import { z } from "zod";
+import type { ChatCompletionTool } from "openai/resources/chat/completions";
+import { getStorage } from "./storage";
+
+/**
+ * Read-only ERP queries the AI assistant may call through function calling.
+ * Every tool declares the roles allowed to use it, mirroring the requireRole
+ * guards on the equivalent REST endpoints.
+ */
+
+const ALL_ROLES = ['admin', 'finance', 'sales', 'inventory', 'hr', 'pos', 'marketing'];
+const MAX_TOOL_ROWS = 50;
+
+interface AiTool<TArgs extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  roles: string[];
+  parameters: Record<string, unknown>; // JSON schema advertised to the model
+  argsSchema: TArgs;
+  execute(args: z.infer<TArgs>): Promise<unknown>;
+}
+
+export interface AiToolInvocation {
+  tool: string;
+  arguments: Record<string, unknown>;
+  allowed: boolean;
+  success: boolean;
+  rowCount?: number;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+const defineTool = <TArgs extends z.ZodTypeAny>(tool: AiTool<TArgs>): AiTool<TArgs> => tool;
+
+const matchesText = (value: string | null | undefined, query: string) =>
+  !!value && value.toLowerCase().includes(query.toLowerCase());
+
+const aiTools: AiTool[] = [
+  defineTool({
+    name: 'search_products',
+    description: 'Find products by name, SKU, category or manufacturer. Use this to resolve a product name to its productId.',
+    roles: ALL_ROLES,
+    parameters: {
+      type: 'object',
+      properties: { query: { type: 'string', description: 'Text to search for' } },
+      required: ['query'],
+    },
+    argsSchema: z.object({ query: z.string().min(1) }),
+    async execute({ query }) {
+      const storage = await getStorage();
+      const products = await storage.getProducts(1000);
+      return products
+        .filter(p => matchesText(p.name, query) || matchesText(p.sku, query) || matchesText(p.category, query) || matchesText(p.manufacturer, query))
+        .slice(0, MAX_TOOL_ROWS)
+        .map(p => ({ id: p.id, sku: p.sku, name: p.name, category: p.category, manufacturer: p.manufacturer, unitPrice: p.unitPrice, minStockLevel: p.minStockLevel }));
+    },
+  }),
+
+  defineTool({
+    name: 'list_warehouses',
+    description: 'List warehouses with their id, name, location (city) and type.',
+    roles: ALL_ROLES,
+    parameters: { type: 'object', properties: {} },
+    argsSchema: z.object({}),
+    async execute() {
+      const storage = await getStorage();
+      const warehouses = await storage.getWarehouses();
+      return warehouses.map(w => ({ id: w.id, name: w.name, location: w.location, type: w.type }));
+    },
+  }),
+
+  defineTool({
+    name: 'get_inventory_by_product',
+    description: 'Stock batches of one product across all warehouses, ordered first-expiry-first-out.',
+    roles: ['admin', 'inventory', 'sales', 'pos'],
+    parameters: {
+      type: 'object',
+      properties: { productId: { type: 'string' } },
+      required: ['productId'],
+    },
+    argsSchema: z.object({ productId: z.string().min(1) }),
+    async execute({ productId }) {
+      const storage = await getStorage();
+      const [batches, warehouses] = await Promise.all([
+        storage.getInventoryByProduct(productId),
+        storage.getWarehouses(),
+      ]);
+      const warehouseById = new Map(warehouses.map(w => [w.id, w]));
+      return batches.slice(0, MAX_TOOL_ROWS).map(b => ({
+        inventoryId: b.id,
+        warehouse: warehouseById.get(b.warehouseId)?.name,
+        location: warehouseById.get(b.warehouseId)?.location,
+        batchNumber: b.batchNumber,
+        quantity: b.quantity,
+        expiryDate: b.expiryDate,
+        quarantined: b.isQuarantined,
+      }));
+    },
+  }),
+
+  defineTool({
+    name: 'get_expiring_products',
+    description: 'Batches expiring within the given number of days, optionally limited to a product or a warehouse name/location.',
+    roles: ['admin', 'inventory', 'sales'],
+    parameters: {
+      type: 'object',
+      properties: {
+        daysAhead: { type: 'integer', description: 'Look-ahead window in days', default: 30 },
+        productId: { type: 'string' },
+        warehouse: { type: 'string', description: 'Warehouse name or location, e.g. Luanda' },
+      },
+    },
+    argsSchema: z.object({
+      daysAhead: z.number().int().min(1).max(730).default(30),
+      productId: z.string().optional(),
+      warehouse: z.string().optional(),
+    }),
+    async execute({ daysAhead, productId, warehouse }) {
+      const storage = await getStorage();
+      const batches = await storage.getExpiringProducts(daysAhead);
+      return batches
+        .filter(b => !productId || b.productId === productId)
+        .filter(b => !warehouse || matchesText(b.warehouse.name, warehouse) || matchesText(b.warehouse.location, warehouse))
+        .slice(0, MAX_TOOL_ROWS)
+        .map(b => ({
+          product: b.product.name,
+          productId: b.productId,
+          warehouse: b.warehouse.name,
+          location: b.warehouse.location,
+          batchNumber: b.batchNumber,
+          quantity: b.quantity,
+          expiryDate: b.expiryDate,
+        }));
+    },
+  }),
+
+  defineTool({
+    name: 'search_customers',
+    description: 'Find customers by name, NIF (tax id) or email. Use this to resolve a customer name to its customerId.',
+    roles: ['admin', 'finance', 'sales'],
+    parameters: {
+      type: 'object',
+      properties: { query: { type: 'string' } },
+      required: ['query'],
+    },
+    argsSchema: z.object({ query: z.string().min(1) }),
+    async execute({ query }) {
+      const storage = await getStorage();
+      const customers = await storage.getCustomers(1000);
+      return customers
+        .filter(c => matchesText(c.name, query) || matchesText(c.taxId, query) || matchesText(c.email, query))
+        .slice(0, MAX_TOOL_ROWS)
+        .map(c => ({ id: c.id, name: c.name, taxId: c.taxId, creditLimit: c.creditLimit, paymentTerms: c.paymentTerms }));
+    },
+  }),
+
+  defineTool({
+    name: 'get_invoices',
+    description: 'Recent invoices with amounts paid and outstanding, optionally filtered by customer or status.',
+    roles: ['admin', 'finance', 'sales'],
+    parameters: {
+      type: 'object',
+      properties: {
+        customerId: { type: 'string' },
+        status: { type: 'string', enum: ['draft', 'sent', 'paid', 'overdue', 'cancelled'] },
+        limit: { type: 'integer', default: 20 },
+      },
+    },
+    argsSchema: z.object({
+      customerId: z.string().optional(),
+      status: z.string().optional(),
+      limit: z.number().int().min(1).max(MAX_TOOL_ROWS).default(20),
+    }),
+    async execute({ customerId, status, limit }) {
+      const storage = await getStorage();
+      const invoices = await storage.getInvoices(500);
+      return invoices
+        .filter(i => !customerId || i.customerId === customerId)
+        .filter(i => !status || i.status === status)
+        .slice(0, limit)
+        .map(i => ({
+          invoiceNumber: i.invoiceNumber,
+          customer: i.customer.name,
+          invoiceDate: i.invoiceDate,
+          dueDate: i.dueDate,
+          status: i.status,
+          totalAmount: i.totalAmount,
+          paidAmount: i.paidAmount,
+          outstanding: (Number(i.totalAmount || 0) - Number(i.paidAmount || 0)).toFixed(2),
+        }));
+    },
+  }),
+
+  defineTool({
+    name: 'check_customer_credit',
+    description: 'Credit limit, outstanding balance and available credit for a customer, and whether an order of the given amount can proceed.',
+    roles: ['admin', 'finance', 'sales'],
+    parameters: {
+      type: 'object',
+      properties: {
+        customerId: { type: 'string' },
+        orderAmount: { type: 'number', description: 'Prospective order amount in AOA', default: 0 },
+      },
+      required: ['customerId'],
+    },
+    argsSchema: z.object({
+      customerId: z.string().min(1),
+      orderAmount: z.number().min(0).default(0),
+    }),
+    async execute({ customerId, orderAmount }) {
+      const storage = await getStorage();
+      return await storage.checkCustomerCredit(customerId, orderAmount);
+    },
+  }),
+
+  defineTool({
+    name: 'get_in_transit_stock',
+    description: 'Stock dispatched between warehouses that has not been received yet.',
+    roles: ['admin', 'inventory'],
+    parameters: {
+      type: 'object',
+      properties: { destinationWarehouseId: { type: 'string' } },
+    },
+    argsSchema: z.object({ destinationWarehouseId: z.string().optional() }),
+    async execute({ destinationWarehouseId }) {
+      const storage = await getStorage();
+      const rows = await storage.getInTransitStock(destinationWarehouseId);
+      return rows.slice(0, MAX_TOOL_ROWS);
+    },
+  }),
+
+  defineTool({
+    name: 'get_dashboard_metrics',
+    description: 'Headline business metrics: revenue, orders, stock alerts and receivables.',
+    roles: ['admin', 'finance', 'sales'],
+    parameters: { type: 'object', properties: {} },
+    argsSchema: z.object({}),
+    async execute() {
+      const storage = await getStorage();
+      return await storage.getDashboardMetrics();
+    },
+  }),
+];
+
+const toolsByName = new Map(aiTools.map(t => [t.name, t]));
+
+/**
+ * OpenAI tool definitions available to a role
+ */
+export function getAiToolDefinitions(role: string | null | undefined): ChatCompletionTool[] {
+  return aiTools
+    .filter(t => !!role && t.roles.includes(role))
+    .map(t => ({
+      type: 'function' as const,
+      function: { name: t.name, description: t.description, parameters: t.parameters },
+    }));
+}
+
+/**
+ * Execute a tool call on behalf of a user, enforcing the tool's role whitelist
+ */
+export async function executeAiTool(name: string, rawArguments: string, role: string | null | undefined): Promise<AiToolInvocation> {
+  const startTime = Date.now();
+  let args: Record<string, unknown> = {};
+
+  try {
+    args = rawArguments ? JSON.parse(rawArguments) : {};
+  } catch {
+    return { tool: name, arguments: {}, allowed: false, success: false, error: 'Arguments are not valid JSON', durationMs: Date.now() - startTime };
+  }
+
+  const tool = toolsByName.get(name);
+  if (!tool) {
+    return { tool: name, arguments: args, allowed: false, success: false, error: `Unknown tool: ${name}`, durationMs: Date.now() - startTime };
+  }
+
+  if (!role || !tool.roles.includes(role)) {
+    return {
+      tool: name,
+      arguments: args,
+      allowed: false,
+      success: false,
+      error: `Access denied. Required roles: ${tool.roles.join(', ')}. Your role: ${role || 'none'}`,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  try {
+    const parsedArgs = tool.argsSchema.parse(args);
+    const result = await tool.execute(parsedArgs);
+    return {
+      tool: name,
+      arguments: parsedArgs,
+      allowed: true,
+      success: true,
+      rowCount: Array.isArray(result) ? result.length : undefined,
+      result,
+      durationMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    return {
+      tool: name,
+      arguments: args,
+      allowed: true,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startTime,
+    };
+  }
+}
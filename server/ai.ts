@@ -1,7 +1,10 @@
-import OpenAI from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
 import { getReplitSecretAsync } from "./secretLoader";
+import { getAiToolDefinitions, executeAiTool, type AiToolInvocation } from "./ai-tools";
+import { aiProviders } from "./ai-providers";
+import * as localAi from "./ai-local";
 
-// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+// Provider and model per feature are resolved by ai-providers.ts (AI_PROVIDER, AI_MODEL, AI_FEATURE_ROUTES)
 
 // Helper function to check if OpenAI is properly configured with enhanced validation
 export async function isOpenAIConfigured(): Promise<boolean> {
@@ -38,21 +41,6 @@ export async function isOpenAIConfigured(): Promise<boolean> {
   return isConfigured;
 }
 
-// Only initialize OpenAI if we have a valid API key  
-let openai: OpenAI | null = null;
-
-// Function to get or initialize OpenAI client
-export async function getOpenAIClient(): Promise<OpenAI | null> {
-  if (!openai && await isOpenAIConfigured()) {
-    const apiKey = await getReplitSecretAsync('OPENAI_API_KEY');
-    if (apiKey) {
-      openai = new OpenAI({ apiKey });
-      console.log('🚀 [AI] OpenAI client initialized successfully');
-    }
-  }
-  return openai;
-}
-
 export interface InventoryRecommendation {
   productId: string;
   productName: string;
@@ -89,6 +77,42 @@ export interface SentimentResult {
   processingTime?: number;
 }
 
+// Caller identity for tool-using chat - tools are filtered and enforced by role
+export interface ChatToolContext {
+  userId: string;
+  role: string | null | undefined;
+  sessionId?: string;
+  history?: Array<{ role: 'user' | 'assistant'; content: string }>;
+}
+
+export interface ChatQueryResult {
+  response: string;
+  actionable: boolean;
+  suggestedActions?: string[];
+  toolCalls: AiToolInvocation[];
+  provider?: string;
+  model?: string;
+}
+
+const MAX_TOOL_ROUNDS = 5;
+
+export interface VendorBillExtraction {
+  billNumber?: string;
+  supplierName?: string;
+  billDate?: string;
+  dueDate?: string;
+  totalAmount?: number;
+  currency?: string;
+  items?: Array<{
+    description: string;
+    quantity?: number;
+    unitPrice?: number;
+    lineTotal?: number;
+  }>;
+  taxAmount?: number;
+  paymentTerms?: string;
+}
+
 export interface CommunicationForAnalysis {
   id: string;
   customerId: string;
@@ -125,104 +149,13 @@ export class AIService {
     return cleanedText;
   }
 
-  // Generate deterministic sentiment fallback based on content analysis
-  private generateFallbackSentiment(text: string): SentimentResult {
-    if (!text || text.trim().length === 0) {
-      return {
-        score: 0,
-        label: 'neutral',
-        confidence: 0.5,
-        aspects: [],
-        processingTime: 1
-      };
-    }
-
-    const cleanText = text.toLowerCase();
-    
-    // Define keyword lists for sentiment analysis
-    const positiveKeywords = [
-      'excellent', 'great', 'good', 'satisfied', 'happy', 'pleased', 'thank', 'thanks',
-      'appreciate', 'wonderful', 'amazing', 'fantastic', 'love', 'perfect', 'best',
-      'recommend', 'quality', 'fast', 'quick', 'helpful', 'professional', 'reliable'
-    ];
-    
-    const negativeKeywords = [
-      'bad', 'terrible', 'awful', 'horrible', 'disappointed', 'unsatisfied', 'angry',
-      'upset', 'frustrated', 'complaint', 'problem', 'issue', 'delay', 'late', 'slow',
-      'poor', 'worst', 'hate', 'refuse', 'unacceptable', 'damaged', 'broken', 'wrong'
-    ];
-    
-    const neutralKeywords = [
-      'inquiry', 'question', 'information', 'update', 'status', 'confirm', 'schedule',
-      'order', 'delivery', 'payment', 'invoice', 'request', 'need', 'want'
-    ];
-
-    // Count keyword occurrences
-    let positiveScore = 0;
-    let negativeScore = 0;
-    let neutralScore = 0;
-    const foundAspects: string[] = [];
-
-    positiveKeywords.forEach(keyword => {
-      const matches = (cleanText.match(new RegExp(keyword, 'g')) || []).length;
-      positiveScore += matches;
-      if (matches > 0) foundAspects.push(`positive_${keyword}`);
-    });
-
-    negativeKeywords.forEach(keyword => {
-      const matches = (cleanText.match(new RegExp(keyword, 'g')) || []).length;
-      negativeScore += matches;
-      if (matches > 0) foundAspects.push(`negative_${keyword}`);
-    });
-
-    neutralKeywords.forEach(keyword => {
-      const matches = (cleanText.match(new RegExp(keyword, 'g')) || []).length;
-      neutralScore += matches;
-      if (matches > 0) foundAspects.push(`neutral_${keyword}`);
-    });
-
-    // Calculate sentiment score
-    const totalScore = positiveScore + negativeScore + neutralScore;
-    let score = 0;
-    let label: 'negative' | 'neutral' | 'positive' = 'neutral';
-    let confidence = 0.6; // Base confidence for fallback
-
-    if (totalScore > 0) {
-      score = (positiveScore - negativeScore) / Math.max(totalScore, 1);
-      
-      if (score > 0.2) {
-        label = 'positive';
-        confidence = Math.min(0.8, 0.6 + (score * 0.2));
-      } else if (score < -0.2) {
-        label = 'negative';
-        confidence = Math.min(0.8, 0.6 + (Math.abs(score) * 0.2));
-      } else {
-        label = 'neutral';
-        confidence = 0.65;
-      }
-    }
-
-    // Normalize score to -1 to 1 range
-    score = Math.max(-1, Math.min(1, score));
-
-    return {
-      score: Math.round(score * 100) / 100, // Round to 2 decimal places
-      label,
-      confidence: Math.round(confidence * 100) / 100,
-      aspects: foundAspects.slice(0, 5), // Limit to top 5 aspects
-      processingTime: 2
-    };
-  }
-
-  // Analyze text sentiment with OpenAI integration and fallback
+  // Analyze text sentiment with the configured provider, falling back to the local lexicon
   async analyzeTextSentiment(text: string): Promise<SentimentResult> {
     const startTime = Date.now();
     
-    // Get OpenAI client
-    const openaiClient = await getOpenAIClient();
-    if (!openaiClient) {
-      console.log('OpenAI not configured, using fallback sentiment analysis');
-      return this.generateFallbackSentiment(text);
+    const route = await aiProviders.resolveRoute('sentiment');
+    if (route.provider === 'local') {
+      return await aiProviders.runLocal(route, () => localAi.analyzeSentiment(text));
     }
 
     try {
@@ -230,7 +163,7 @@ export class AIService {
       const cleanedText = this.redactPII(text);
       
       if (!cleanedText || cleanedText.trim().length === 0) {
-        return this.generateFallbackSentiment(text);
+        return localAi.analyzeSentiment(text);
       }
 
       const prompt = `
@@ -259,8 +192,7 @@ export class AIService {
         - aspects: string[] (key topics/aspects identified)
       `;
 
-      const response = await openaiClient.chat.completions.create({
-        model: "gpt-5",
+      const response = await aiProviders.createChatCompletion(route, {
         messages: [
           {
             role: "system",
@@ -289,9 +221,9 @@ export class AIService {
 
       return normalizedResult;
     } catch (error) {
-      console.error('Error analyzing text sentiment with OpenAI:', error);
-      // Return fallback analysis on error
-      return this.generateFallbackSentiment(text);
+      console.error('Error analyzing text sentiment:', error);
+      // Return local analysis on error
+      return localAi.analyzeSentiment(text);
     }
   }
 
@@ -318,7 +250,7 @@ export class AIService {
           return { id: comm.id, sentiment };
         } catch (error) {
           console.error(`Error analyzing sentiment for communication ${comm.id}:`, error);
-          return { id: comm.id, sentiment: this.generateFallbackSentiment(comm.content) };
+          return { id: comm.id, sentiment: localAi.analyzeSentiment(comm.content) };
         }
       });
 
@@ -328,7 +260,7 @@ export class AIService {
       });
 
       // Small delay between batches to respect rate limits
-      if (batches.length > 1 && await isOpenAIConfigured()) {
+      if (batches.length > 1 && (await aiProviders.resolveRoute('sentiment')).provider !== 'local') {
         await new Promise(resolve => setTimeout(resolve, 100));
       }
     }
@@ -336,74 +268,6 @@ export class AIService {
     return results;
   }
 
-  // Fallback data generators for when AI is unavailable
-  private generateFallbackInventoryRecommendations(inventoryData: Array<{
-    productId: string;
-    productName: string;
-    currentStock: number;
-    salesHistory: number[];
-    leadTimeDays: number;
-    minStockLevel: number;
-  }>): InventoryRecommendation[] {
-    return inventoryData
-      .filter(item => item.currentStock <= item.minStockLevel * 1.5)
-      .slice(0, 3)
-      .map(item => ({
-        productId: item.productId,
-        productName: item.productName,
-        currentStock: item.currentStock,
-        recommendedReorder: Math.max(item.minStockLevel * 2, 100),
-        reason: item.currentStock <= item.minStockLevel 
-          ? "Stock below minimum level - reorder required"
-          : "Stock approaching minimum level - consider reordering",
-        urgency: item.currentStock <= item.minStockLevel ? 'high' : 'medium',
-        suggestedSupplier: "Auto-suggested supplier"
-      }));
-  }
-
-  private generateFallbackBusinessInsights(): AIInsight[] {
-    return [
-      {
-        type: 'reorder',
-        title: 'Stock Level Review Needed',
-        description: 'Several products are approaching minimum stock levels. Regular inventory review recommended.',
-        actionText: 'Review inventory levels',
-        urgency: 'medium'
-      },
-      {
-        type: 'sales_trend',
-        title: 'Monitor Sales Performance',
-        description: 'Track your sales metrics regularly to identify trends and opportunities.',
-        actionText: 'View sales reports',
-        urgency: 'low'
-      }
-    ];
-  }
-
-  private generateFallbackPriceOptimizations(productData: Array<{
-    productId: string;
-    productName: string;
-    currentPrice: number;
-    salesVolume: number;
-    competitorPrices: number[];
-    marginPercentage: number;
-  }>): PriceOptimization[] {
-    return productData.slice(0, 2).map(product => {
-      const avgCompetitorPrice = product.competitorPrices.length > 0 
-        ? product.competitorPrices.reduce((a, b) => a + b, 0) / product.competitorPrices.length
-        : product.currentPrice;
-      
-      return {
-        productId: product.productId,
-        productName: product.productName,
-        currentPrice: product.currentPrice,
-        suggestedPrice: avgCompetitorPrice,
-        potentialMarginIncrease: Math.abs(avgCompetitorPrice - product.currentPrice) * 0.1,
-        competitorData: `Competitor prices range from ${Math.min(...product.competitorPrices)} to ${Math.max(...product.competitorPrices)}`
-      };
-    });
-  }
-
   async generateInventoryRecommendations(
     inventoryData: Array<{
       productId: string;
@@ -414,11 +278,9 @@ export class AIService {
       minStockLevel: number;
     }>
   ): Promise<InventoryRecommendation[]> {
-    // Get OpenAI client
-    const openaiClient = await getOpenAIClient();
-    if (!openaiClient) {
-      console.log('OpenAI not configured, returning fallback inventory recommendations');
-      return this.generateFallbackInventoryRecommendations(inventoryData);
+    const route = await aiProviders.resolveRoute('inventory_recommendations');
+    if (route.provider === 'local') {
+      return await aiProviders.runLocal(route, () => localAi.recommendReorders(inventoryData));
     }
 
     try {
@@ -445,8 +307,7 @@ export class AIService {
         - suggestedSupplier: string (if applicable)
       `;
 
-      const response = await openaiClient.chat.completions.create({
-        model: "gpt-5",
+      const response = await aiProviders.createChatCompletion(route, {
         messages: [
           {
             role: "system",
@@ -465,8 +326,8 @@ export class AIService {
       return result.recommendations || [];
     } catch (error) {
       console.error('Error generating inventory recommendations:', error);
-      // Return fallback data on error
-      return this.generateFallbackInventoryRecommendations(inventoryData);
+      // Return local recommendations on error
+      return localAi.recommendReorders(inventoryData);
     }
   }
 
@@ -480,11 +341,9 @@ export class AIService {
       marginPercentage: number;
     }>
   ): Promise<PriceOptimization[]> {
-    // Get OpenAI client
-    const openaiClient = await getOpenAIClient();
-    if (!openaiClient) {
-      console.log('OpenAI not configured, returning fallback price optimizations');
-      return this.generateFallbackPriceOptimizations(productData);
+    const route = await aiProviders.resolveRoute('price_optimization');
+    if (route.provider === 'local') {
+      return await aiProviders.runLocal(route, () => localAi.optimizePrices(productData));
     }
 
     try {
@@ -510,8 +369,7 @@ export class AIService {
         - competitorData: string summary
       `;
 
-      const response = await openaiClient.chat.completions.create({
-        model: "gpt-5",
+      const response = await aiProviders.createChatCompletion(route, {
         messages: [
           {
             role: "system",
@@ -530,8 +388,8 @@ export class AIService {
       return result.optimizations || [];
     } catch (error) {
       console.error('Error analyzing price optimization:', error);
-      // Return fallback data on error
-      return this.generateFallbackPriceOptimizations(productData);
+      // Return local suggestions on error
+      return localAi.optimizePrices(productData);
     }
   }
 
@@ -543,11 +401,9 @@ export class AIService {
       financialMetrics: any;
     }
   ): Promise<AIInsight[]> {
-    // Get OpenAI client
-    const openaiClient = await getOpenAIClient();
-    if (!openaiClient) {
-      console.log('OpenAI not configured, returning fallback business insights');
-      return this.generateFallbackBusinessInsights();
+    const route = await aiProviders.resolveRoute('business_insights');
+    if (route.provider === 'local') {
+      return await aiProviders.runLocal(route, () => localAi.summarizeBusiness(businessData));
     }
 
     try {
@@ -573,8 +429,7 @@ export class AIService {
         - data: relevant data object
       `;
 
-      const response = await openaiClient.chat.completions.create({
-        model: "gpt-5",
+      const response = await aiProviders.createChatCompletion(route, {
         messages: [
           {
             role: "system",
@@ -593,73 +448,85 @@ export class AIService {
       return result.insights || [];
     } catch (error) {
       console.error('Error generating business insights:', error);
-      // Return fallback data on error
-      return this.generateFallbackBusinessInsights();
+      // Return local insights on error
+      return localAi.summarizeBusiness(businessData);
     }
   }
 
   async processChatQuery(
     query: string,
-    businessContext: any
-  ): Promise<{ response: string; actionable: boolean; suggestedActions?: string[] }> {
-    // Get OpenAI client
-    const openaiClient = await getOpenAIClient();
-    if (!openaiClient) {
-      console.log('OpenAI not configured, returning fallback chat response');
-      return {
-        response: "AI chat is currently unavailable. Please contact your administrator to configure AI services, or try using the standard dashboard features.",
-        actionable: true,
-        suggestedActions: [
-          "Check dashboard metrics",
-          "Review inventory levels", 
-          "View recent orders",
-          "Contact system administrator"
-        ]
-      };
+    context: ChatToolContext
+  ): Promise<ChatQueryResult> {
+    const route = await aiProviders.resolveRoute('chat');
+    const usage = { userId: context.userId, sessionId: context.sessionId };
+    if (route.provider === 'local') {
+      const result = await aiProviders.runLocal(route, () => localAi.answerChatQuery(query, context), usage);
+      return { ...result, provider: route.provider, model: route.model };
     }
 
+    const toolCalls: AiToolInvocation[] = [];
+    const tools = getAiToolDefinitions(context.role);
+
     try {
-      const prompt = `
-        You are an AI assistant for a pharmaceutical ERP system. Answer the user's query based on the business context provided.
-        
-        User Query: "${query}"
-        
-        Business Context:
-        ${JSON.stringify(businessContext, null, 2)}
-        
-        Provide a helpful response that:
-        1. Directly answers the question
-        2. References specific data when possible
-        3. Suggests actionable next steps
-        4. Uses pharmaceutical industry knowledge
-        
-        Return response in JSON format with fields:
-        - response: string (the main answer)
-        - actionable: boolean (whether specific actions can be taken)
-        - suggestedActions: string[] (if actionable, list of suggested actions)
-      `;
+      const messages: ChatCompletionMessageParam[] = [
+        {
+          role: "system",
+          content: `You are a knowledgeable pharmaceutical ERP assistant for a distributor in Angola. Today is ${new Date().toISOString().split('T')[0]}.
+            Use the provided tools to look up live data before answering - never guess stock levels, expiry dates, balances or credit.
+            Resolve names to ids with the search tools first. If a tool reports access denied, tell the user they lack permission for that data.
+            Reply in JSON with fields:
+            - response: string (the main answer, citing the data you retrieved)
+            - actionable: boolean (whether specific actions can be taken)
+            - suggestedActions: string[] (if actionable, list of suggested actions)`
+        },
+        ...(context.history || []),
+        {
+          role: "user",
+          content: query
+        }
+      ];
 
-      const response = await openaiClient.chat.completions.create({
-        model: "gpt-5",
-        messages: [
-          {
-            role: "system",
-            content: "You are a knowledgeable pharmaceutical ERP assistant. Provide accurate, helpful responses with specific recommendations."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" },
-        // temperature: 0.8, // GPT-5 only supports default (1) temperature
-      });
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const completion = await aiProviders.createChatCompletion(route, {
+          messages,
+          ...(tools.length > 0 ? { tools } : {}),
+          response_format: { type: "json_object" },
+        }, usage);
+
+        const message = completion.choices[0].message;
+        const functionCalls = (message.tool_calls || []).filter(call => call.type === 'function');
+
+        if (functionCalls.length === 0) {
+          const result = JSON.parse(message.content || '{"response": "I\'m sorry, I couldn\'t process your query.", "actionable": false}');
+          return {
+            response: result.response || "I'm sorry, I couldn't process your query.",
+            actionable: result.actionable || false,
+            suggestedActions: result.suggestedActions || [],
+            toolCalls,
+            provider: route.provider,
+            model: route.model
+          };
+        }
+
+        messages.push(message);
+        for (const call of functionCalls) {
+          const invocation = await executeAiTool(call.function.name, call.function.arguments, context.role);
+          toolCalls.push(invocation);
+          messages.push({
+            role: "tool",
+            tool_call_id: call.id,
+            content: JSON.stringify(invocation.success ? invocation.result : { error: invocation.error }),
+          });
+        }
+      }
 
-      const result = JSON.parse(response.choices[0].message.content || '{"response": "I\'m sorry, I couldn\'t process your query.", "actionable": false}');
       return {
-        response: result.response || "I'm sorry, I couldn't process your query.",
-        actionable: result.actionable || false,
-        suggestedActions: result.suggestedActions || []
+        response: "I needed too many lookups to answer that. Please narrow the question down (for example to one product or one warehouse).",
+        actionable: false,
+        suggestedActions: [],
+        toolCalls,
+        provider: route.provider,
+        model: route.model
       };
     } catch (error) {
       console.error('Error processing chat query:', error);
@@ -671,7 +538,10 @@ export class AIService {
           "Check dashboard metrics",
           "Review inventory levels", 
           "Contact system administrator"
-        ]
+        ],
+        toolCalls,
+        provider: route.provider,
+        model: route.model
       };
     }
   }
@@ -691,11 +561,9 @@ export class AIService {
     summary: string;
     recommendations: string[];
   }>> {
-    // Get OpenAI client
-    const openaiClient = await getOpenAIClient();
-    if (!openaiClient) {
-      console.log('OpenAI not configured, returning empty customer sentiment analysis');
-      return [];
+    const route = await aiProviders.resolveRoute('customer_sentiment');
+    if (route.provider === 'local') {
+      return await aiProviders.runLocal(route, () => localAi.analyzeCustomerSentiment(customerInteractions));
     }
 
     try {
@@ -721,8 +589,7 @@ export class AIService {
         - recommendations: string[] of actionable items
       `;
 
-      const response = await openaiClient.chat.completions.create({
-        model: "gpt-5",
+      const response = await aiProviders.createChatCompletion(route, {
         messages: [
           {
             role: "system",
@@ -752,33 +619,20 @@ export class AIService {
     billImageBase64?: string
   ): Promise<{
     success: boolean;
-    extractedData?: {
-      billNumber?: string;
-      supplierName?: string;
-      billDate?: string;
-      dueDate?: string;
-      totalAmount?: number;
-      currency?: string;
-      items?: Array<{
-        description: string;
-        quantity?: number;
-        unitPrice?: number;
-        lineTotal?: number;
-      }>;
-      taxAmount?: number;
-      paymentTerms?: string;
-    };
+    extractedData?: VendorBillExtraction;
     confidence?: number;
     error?: string;
   }> {
-    // Get OpenAI client
-    const openaiClient = await getOpenAIClient();
-    if (!openaiClient) {
-      console.log('OpenAI not configured, OCR processing unavailable');
-      return {
-        success: false,
-        error: 'AI services are not configured. OCR processing is unavailable.'
-      };
+    const route = await aiProviders.resolveRoute('bill_ocr');
+    if (route.provider === 'local') {
+      if (!ocrRawText.trim()) {
+        return {
+          success: false,
+          error: 'The local AI backend can only parse bill text. Provide OCR text or configure an LLM provider for images.'
+        };
+      }
+      const parsed = await aiProviders.runLocal(route, () => localAi.parseVendorBill(ocrRawText));
+      return { success: true, ...parsed };
     }
 
     try {
@@ -839,8 +693,7 @@ export class AIService {
         ];
       }
 
-      const response = await openaiClient.chat.completions.create({
-        model: "gpt-5",
+      const response = await aiProviders.createChatCompletion(route, {
         messages,
         response_format: { type: "json_object" },
         temperature: 0.3, // Low temperature for accuracy
@@ -891,10 +744,9 @@ export class AIService {
       competitiveAdvantage: string;
     };
   }>> {
-    // Get OpenAI client
-    const openaiClient = await getOpenAIClient();
-    if (!openaiClient) {
-      console.log('OpenAI not configured, returning empty competitor price analysis');
+    const route = await aiProviders.resolveRoute('competitor_pricing');
+    if (route.provider === 'local') {
+      // No rule-based competitor analysis - requires an LLM provider
       return [];
     }
 
@@ -923,8 +775,7 @@ export class AIService {
         - potentialImpact: {revenueChange: number, marginChange: number, competitiveAdvantage: string}
       `;
 
-      const response = await openaiClient.chat.completions.create({
-        model: "gpt-5",
+      const response = await aiProviders.createChatCompletion(route, {
         messages: [
           {
             role: "system",
@@ -968,10 +819,9 @@ export class AIService {
       averageProcessingTime: number;
     }
   ): Promise<AIInsight[]> {
-    // Get OpenAI client
-    const openaiClient = await getOpenAIClient();
-    if (!openaiClient) {
-      console.log('OpenAI not configured, returning empty purchase insights');
+    const route = await aiProviders.resolveRoute('purchase_insights');
+    if (route.provider === 'local') {
+      // No rule-based purchase insights - requires an LLM provider
       return [];
     }
 
@@ -999,8 +849,7 @@ export class AIService {
         - data: relevant metrics and recommendations
       `;
 
-      const response = await openaiClient.chat.completions.create({
-        model: "gpt-5",
+      const response = await aiProviders.createChatCompletion(route, {
         messages: [
           {
             role: "system",
@@ -1043,10 +892,9 @@ export class AIService {
     recommendedActions: string[];
     priorityScore: number;
   }>> {
-    // Get OpenAI client
-    const openaiClient = await getOpenAIClient();
-    if (!openaiClient) {
-      console.log('OpenAI not configured, returning empty purchase risk analysis');
+    const route = await aiProviders.resolveRoute('purchase_risk');
+    if (route.provider === 'local') {
+      // No rule-based risk analysis - requires an LLM provider
       return [];
     }
 
@@ -1074,8 +922,7 @@ export class AIService {
         - priorityScore: number (0-100)
       `;
 
-      const response = await openaiClient.chat.completions.create({
-        model: "gpt-5",
+      const response = await aiProviders.createChatCompletion(route, {
         messages: [
           {
             role: "system",
@@ -0,0 +1,464 @@
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import type { DbTx } from "./db";
+import { and, asc, desc, eq, getTableColumns, getTableName, gt, is, isNotNull, isNull, or, sql, SQL, type Column, type Table } from "drizzle-orm";
+import {
+  auditLogs,
+  systemSettings,
+  aiModelMetrics,
+  outboxMessages,
+  documentSequenceCounters,
+  type AuditLog,
+  type InsertAuditLog,
+} from "@shared/schema";
+
+/**
+ * Automatic audit trail.
+ *
+ * Every insert, update and delete issued through the drizzle instance returned by
+ * getDb() is recorded in audit_logs in the same transaction as the write, together
+ * with the user, IP address, user agent and module of the request that caused it.
+ *
+ * Entries are append-only and form a SHA-256 hash chain: each entry stores the hash
+ * of its predecessor, so editing or deleting a past entry breaks the chain and is
+ * reported by verifyAuditChain().
+ *
+ * Appending to the chain takes a global lock that is held until commit, so a transaction's
+ * entries are collected as it writes and appended when its callback returns. Concurrent
+ * transactions then queue behind each other only for that final append and commit.
+ */
+
+export interface AuditContext {
+  userId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  sessionId?: string | null;
+  module?: string | null;
+}
+
+export interface AuditChainVerification {
+  isValid: boolean;
+  entriesChecked: number;
+  unchainedEntries: number; // entries written before the hash chain was introduced
+  lastSequenceNumber: number;
+  firstInvalidEntry?: { id: string; sequenceNumber: number; reason: string };
+}
+
+type WriteOperation = 'insert' | 'update' | 'delete';
+type RecordedCall = [method: string, args: any[]];
+type Row = Record<string, unknown>;
+
+const AUDIT_ACTIONS = { insert: 'create', update: 'update', delete: 'delete' } as const;
+
+// Bookkeeping and telemetry tables, plus system_settings which writes its own entries with secrets masked
+const UNAUDITED_TABLES = new Set<Table>([systemSettings, aiModelMetrics, outboxMessages, documentSequenceCounters]);
+
+// Columns that change on every write and say nothing about what was changed
+const IGNORED_DIFF_FIELDS = new Set(['updatedAt']);
+
+// Key for pg_advisory_xact_lock; serialises appends to the chain
+const AUDIT_CHAIN_LOCK_KEY = 7402115;
+
+// Entries written in an open transaction, appended to the chain when it finishes
+const pendingAuditEntries = new WeakMap<object, InsertAuditLog[]>();
+
+const VERIFY_BATCH_SIZE = 500;
+
+// =============================================================================
+// Request context
+// =============================================================================
+
+const auditContextStorage = new AsyncLocalStorage<() => AuditContext>();
+
+/**
+ * Make the current request's user and client details available to audited writes.
+ * Register after authentication; the user is read lazily at write time.
+ */
+export function auditContextMiddleware(req: Request, _res: Response, next: NextFunction): void {
+  auditContextStorage.run(() => ({
+    userId: (req as any).user?.claims?.sub ?? null,
+    ipAddress: req.ip ?? null,
+    userAgent: req.get('user-agent') ?? null,
+    sessionId: (req as any).sessionID ?? null,
+    module: req.path.startsWith('/api/') ? req.path.split('/')[2] || null : null,
+  }), next);
+}
+
+/**
+ * Attribute writes made outside a request (background jobs, seeding) to a module
+ */
+export function runWithAuditContext<T>(context: AuditContext, fn: () => T): T {
+  return auditContextStorage.run(() => context, fn);
+}
+
+function currentAuditContext(): AuditContext {
+  return auditContextStorage.getStore()?.() ?? {};
+}
+
+// The user behind the current request, for checks that depend on who is writing
+export function currentAuditUserId(): string | null {
+  return currentAuditContext().userId ?? null;
+}
+
+// =============================================================================
+// Hash chain
+// =============================================================================
+
+// JSON with sorted keys so the hash does not depend on jsonb key order
+function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (typeof value === 'object') {
+    const obj = value as Row;
+    return `{${Object.keys(obj)
+      .filter(key => obj[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(obj[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Values as they read back from jsonb (dates become ISO strings)
+function toJsonValue(value: unknown): unknown {
+  return value === undefined || value === null ? null : JSON.parse(JSON.stringify(value));
+}
+
+export function computeAuditHash(entry: Omit<AuditLog, 'id' | 'hash'>): string {
+  return crypto
+    .createHash('sha256')
+    .update(canonicalJson({
+      sequenceNumber: entry.sequenceNumber,
+      previousHash: entry.previousHash,
+      tableName: entry.tableName,
+      recordId: entry.recordId,
+      action: entry.action,
+      oldValues: entry.oldValues,
+      newValues: entry.newValues,
+      userId: entry.userId,
+      ipAddress: entry.ipAddress,
+      userAgent: entry.userAgent,
+      sessionId: entry.sessionId,
+      module: entry.module,
+      description: entry.description,
+      metadata: entry.metadata,
+      timestamp: entry.timestamp,
+    }))
+    .digest('hex');
+}
+
+async function lockAuditChain(tx: DbTx): Promise<void> {
+  await tx.execute(sql`select pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY})`);
+}
+
+/**
+ * Append entries to the chain. Must run inside a transaction so the chain lock
+ * is held until the entries are committed.
+ */
+async function appendAuditEntries(tx: DbTx, entries: InsertAuditLog[]): Promise<AuditLog[]> {
+  if (entries.length === 0) return [];
+
+  await lockAuditChain(tx);
+  const [head] = await tx
+    .select({ sequenceNumber: auditLogs.sequenceNumber, hash: auditLogs.hash })
+    .from(auditLogs)
+    .where(isNotNull(auditLogs.sequenceNumber))
+    .orderBy(desc(auditLogs.sequenceNumber))
+    .limit(1);
+
+  const context = currentAuditContext();
+  const timestamp = new Date();
+  let sequenceNumber: number = head?.sequenceNumber ?? 0;
+  let previousHash: string | null = head?.hash ?? null;
+
+  const rows = entries.map(entry => {
+    const row = {
+      tableName: entry.tableName,
+      recordId: entry.recordId,
+      action: entry.action,
+      oldValues: toJsonValue(entry.oldValues),
+      newValues: toJsonValue(entry.newValues),
+      userId: entry.userId ?? context.userId ?? null,
+      ipAddress: entry.ipAddress ?? context.ipAddress ?? null,
+      userAgent: entry.userAgent ?? context.userAgent ?? null,
+      sessionId: entry.sessionId ?? context.sessionId ?? null,
+      module: entry.module ?? context.module ?? null,
+      description: entry.description ?? null,
+      metadata: toJsonValue(entry.metadata),
+      timestamp,
+      sequenceNumber: ++sequenceNumber,
+      previousHash,
+    };
+    const hash = computeAuditHash(row);
+    previousHash = hash;
+    return { ...row, hash };
+  });
+
+  return await tx.insert(auditLogs).values(rows).returning();
+}
+
+/**
+ * Walk the chain in sequence order, recomputing every hash. Run it in a repeatable read
+ * transaction so every batch sees the same chain
+ */
+export async function verifyAuditChain(tx: DbTx): Promise<AuditChainVerification> {
+  const [{ count: unchainedEntries }] = await tx
+    .select({ count: sql<number>`count(*)::int` })
+    .from(auditLogs)
+    .where(isNull(auditLogs.sequenceNumber));
+
+  let entriesChecked = 0;
+  let lastSequenceNumber = 0;
+  let previousHash: string | null = null;
+
+  while (true) {
+    const batch: AuditLog[] = await tx
+      .select()
+      .from(auditLogs)
+      .where(and(isNotNull(auditLogs.sequenceNumber), gt(auditLogs.sequenceNumber, lastSequenceNumber)))
+      .orderBy(asc(auditLogs.sequenceNumber))
+      .limit(VERIFY_BATCH_SIZE);
+
+    for (const entry of batch) {
+      const sequenceNumber = entry.sequenceNumber!;
+      const fail = (reason: string): AuditChainVerification => ({
+        isValid: false,
+        entriesChecked,
+        unchainedEntries,
+        lastSequenceNumber,
+        firstInvalidEntry: { id: entry.id, sequenceNumber, reason },
+      });
+
+      if (sequenceNumber !== lastSequenceNumber + 1) {
+        return fail(`Entries ${lastSequenceNumber + 1}-${sequenceNumber - 1} are missing`);
+      }
+      if (entry.previousHash !== previousHash) {
+        return fail('Previous hash does not match the preceding entry');
+      }
+      if (computeAuditHash(entry) !== entry.hash) {
+        return fail('Entry contents do not match its hash');
+      }
+
+      entriesChecked++;
+      lastSequenceNumber = sequenceNumber;
+      previousHash = entry.hash;
+    }
+
+    if (batch.length < VERIFY_BATCH_SIZE) break;
+  }
+
+  return { isValid: true, entriesChecked, unchainedEntries, lastSequenceNumber };
+}
+
+// =============================================================================
+// Audited database
+// =============================================================================
+
+function getPrimaryKeyFields(table: Table): string[] {
+  return Object.entries(getTableColumns(table))
+    .filter(([, column]) => column.primary)
+    .map(([key]) => key);
+}
+
+function getRecordId(primaryKeyFields: string[], row: Row): string {
+  if (primaryKeyFields.length === 1) return String(row[primaryKeyFields[0]]);
+  if (primaryKeyFields.length > 1) return primaryKeyFields.map(key => String(row[key])).join(':');
+  return canonicalJson(row);
+}
+
+function getColumnKey(table: Table, column: Column): string | undefined {
+  return Object.entries(getTableColumns(table)).find(([, c]) => c === column)?.[0];
+}
+
+function diffRows(before: Row, after: Row): { oldValues: Row; newValues: Row } | null {
+  const oldValues: Row = {};
+  const newValues: Row = {};
+  for (const key of Object.keys(after)) {
+    if (IGNORED_DIFF_FIELDS.has(key)) continue;
+    if (canonicalJson(before[key]) !== canonicalJson(after[key])) {
+      oldValues[key] = before[key] ?? null;
+      newValues[key] = after[key] ?? null;
+    }
+  }
+  return Object.keys(newValues).length > 0 ? { oldValues, newValues } : null;
+}
+
+/**
+ * Rows a write is about to change: the WHERE match for updates and deletes,
+ * the conflicting rows for upserts
+ */
+async function readRowsBeforeWrite(tx: DbTx, operation: WriteOperation, table: Table, calls: RecordedCall[]): Promise<Row[]> {
+  if (operation !== 'insert') {
+    const where = calls.filter(([method]) => method === 'where').pop()?.[1][0] as SQL | undefined;
+    return await tx.select().from(table).where(where);
+  }
+
+  const upsert = calls.find(([method]) => method === 'onConflictDoUpdate')?.[1][0];
+  if (!upsert) return [];
+
+  const values = calls.find(([method]) => method === 'values')?.[1][0];
+  const targets: Column[] = Array.isArray(upsert.target) ? upsert.target : [upsert.target];
+  const conditions = (Array.isArray(values) ? values : [values]).map((row: Row) =>
+    and(...targets.map(column => {
+      const key = getColumnKey(table, column);
+      return key && row[key] !== undefined && !is(row[key], SQL) ? eq(column, row[key]) : sql`false`;
+    }))
+  );
+  return await tx.select().from(table).where(or(...conditions));
+}
+
+function buildAuditEntries(operation: WriteOperation, table: Table, before: Row[], after: Row[]): InsertAuditLog[] {
+  const tableName = getTableName(table);
+  const primaryKeyFields = getPrimaryKeyFields(table);
+  const beforeById = new Map(before.map(row => [getRecordId(primaryKeyFields, row), row]));
+  const entries: InsertAuditLog[] = [];
+
+  for (const row of after) {
+    const recordId = getRecordId(primaryKeyFields, row);
+    const previous = beforeById.get(recordId);
+
+    if (operation === 'delete') {
+      entries.push({ tableName, recordId, action: 'delete', oldValues: row, newValues: null });
+    } else if (previous) {
+      const diff = diffRows(previous, row);
+      if (diff) entries.push({ tableName, recordId, action: 'update', ...diff });
+    } else {
+      entries.push({ tableName, recordId, action: AUDIT_ACTIONS[operation], oldValues: null, newValues: row });
+    }
+  }
+
+  return entries;
+}
+
+// Writes are audited with every column returned; narrow the rows to what the caller asked for
+function selectReturnedFields(table: Table, rows: Row[], fields?: Record<string, Column>): Row[] {
+  if (!fields) return rows;
+  const keys = Object.entries(fields).map(([alias, column]) => [alias, getColumnKey(table, column) ?? alias] as const);
+  return rows.map(row => Object.fromEntries(keys.map(([alias, key]) => [alias, row[key]])));
+}
+
+// Concurrent writes on one transaction are queued so each reads the rows it is about
+// to change after the previous write, and entries are recorded in write order
+const transactionQueues = new WeakMap<object, Promise<unknown>>();
+
+function serializeInTransaction<T>(tx: object, fn: () => Promise<T>): Promise<T> {
+  const run = (transactionQueues.get(tx) ?? Promise.resolve()).then(fn);
+  transactionQueues.set(tx, run.catch(() => undefined));
+  return run;
+}
+
+async function executeAuditedWrite(
+  executor: any,
+  inTransaction: boolean,
+  operation: WriteOperation,
+  table: Table,
+  calls: RecordedCall[]
+): Promise<unknown> {
+  const inTx = <T>(fn: (tx: DbTx) => Promise<T>): Promise<T> =>
+    inTransaction ? serializeInTransaction(executor, () => fn(executor)) : executor.transaction(fn);
+
+  if (table === auditLogs) {
+    if (operation !== 'insert') {
+      throw new Error('Audit log entries are append-only');
+    }
+    const values = calls.find(([method]) => method === 'values')?.[1][0];
+    return await inTx(tx => appendAuditEntries(tx, Array.isArray(values) ? values : [values]));
+  }
+
+  const returning = calls.find(([method]) => method === 'returning');
+  const build = (tx: DbTx) => calls
+    .filter(([method]) => method !== 'returning')
+    .reduce((builder, [method, args]) => builder[method](...args), tx[operation](table) as any);
+
+  if (UNAUDITED_TABLES.has(table)) {
+    const builder = build(executor);
+    return await (returning ? builder.returning(...returning[1]) : builder);
+  }
+
+  return await inTx(async (tx) => {
+    const before = await readRowsBeforeWrite(tx, operation, table, calls);
+    const rows: Row[] = await build(tx).returning();
+    const entries = buildAuditEntries(operation, table, before, rows);
+    // A write outside a transaction runs in one of its own, so it appends straight away;
+    // the chain lock is then taken after the row locks and held only for the append
+    const pending = pendingAuditEntries.get(tx);
+    if (pending) {
+      pending.push(...entries);
+    } else {
+      await appendAuditEntries(tx, entries);
+    }
+    return selectReturnedFields(table, rows, returning?.[1][0]);
+  });
+}
+
+/**
+ * Stand-in for a drizzle insert/update/delete builder that records the chained
+ * calls and replays them inside an audited transaction when awaited
+ */
+function createAuditedWrite(executor: any, inTransaction: boolean, operation: WriteOperation, table: Table): any {
+  const calls: RecordedCall[] = [];
+  let result: Promise<unknown> | undefined;
+  const execute = () => (result ??= executeAuditedWrite(executor, inTransaction, operation, table, calls));
+
+  const builder: any = new Proxy({}, {
+    get(_target, prop) {
+      switch (prop) {
+        case 'then':
+          return (onFulfilled?: any, onRejected?: any) => execute().then(onFulfilled, onRejected);
+        case 'catch':
+          return (onRejected?: any) => execute().catch(onRejected);
+        case 'finally':
+          return (onFinally?: any) => execute().finally(onFinally);
+        case 'execute':
+          return () => execute();
+        case 'toSQL':
+        case 'getSQL':
+          return () => calls.reduce((b, [method, args]) => b[method](...args), executor[operation](table))[prop]();
+      }
+      if (typeof prop === 'symbol') return undefined;
+      return (...args: any[]) => {
+        calls.push([prop, args]);
+        return builder;
+      };
+    },
+  });
+
+  return builder;
+}
+
+function wrapExecutor<T extends object>(executor: T, inTransaction: boolean): T {
+  return new Proxy(executor, {
+    get(target, prop, receiver) {
+      if (prop === 'insert' || prop === 'update' || prop === 'delete') {
+        return (table: Table) => createAuditedWrite(target, inTransaction, prop, table);
+      }
+      if (prop === 'transaction') {
+        return (callback: (tx: DbTx) => Promise<unknown>, config?: unknown) =>
+          (target as any).transaction(async (tx: DbTx) => {
+            const pending: InsertAuditLog[] = [];
+            pendingAuditEntries.set(tx, pending);
+            const result = await callback(wrapExecutor(tx, true));
+            await transactionQueues.get(tx);
+            // A savepoint's entries join its parent's, and are dropped with it if it rolls back
+            const parentPending = inTransaction ? pendingAuditEntries.get(target) : undefined;
+            if (parentPending) {
+              parentPending.push(...pending);
+            } else {
+              await appendAuditEntries(tx, pending);
+            }
+            return result;
+          }, config);
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+}
+
+/**
+ * Wrap a drizzle database so that every write through it is audited
+ */
+export function withAuditTrail<T extends object>(db: T): T {
+  return wrapExecutor(db, false);
+}
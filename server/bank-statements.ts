@@ -0,0 +1,497 @@
+import crypto from "crypto";
+import type { BankLineMatchCandidate } from "@shared/schema";
+
+/**
+ * Bank statement parsing (generic CSV, SWIFT MT940, ISO 20022 camt.053) and the rules
+ * for pairing statement lines with receipts and supplier payments. Amounts are signed:
+ * positive money in, negative money out.
+ */
+
+export type StatementFormat = 'csv' | 'mt940' | 'camt053';
+
+export interface ParsedStatementLine {
+  transactionDate: string;
+  valueDate: string | null;
+  amount: number;
+  description: string | null;
+  reference: string | null;
+  bankReference: string | null;
+  counterpartyName: string | null;
+  counterpartyAccount: string | null;
+}
+
+export interface ParsedStatement {
+  statementReference: string | null;
+  currency: string | null;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  lines: ParsedStatementLine[];
+}
+
+export function parseBankStatement(format: StatementFormat, content: string): ParsedStatement {
+  const statement = format === 'mt940' ? parseMt940(content)
+    : format === 'camt053' ? parseCamt053(content)
+    : parseCsvStatement(content);
+  if (statement.lines.length === 0) {
+    throw new Error('The statement file has no transactions');
+  }
+  return statement;
+}
+
+/**
+ * Identifies a line across imports of overlapping statements. The occurrence index
+ * keeps genuinely identical lines in one file (two equal transfers on a day) apart.
+ */
+export function statementLineFingerprints(lines: ParsedStatementLine[]): string[] {
+  const seen = new Map<string, number>();
+  return lines.map(line => {
+    const key = [line.transactionDate, line.amount.toFixed(2), line.bankReference ?? '', line.reference ?? '', line.description ?? ''].join('|');
+    const occurrence = seen.get(key) ?? 0;
+    seen.set(key, occurrence + 1);
+    return crypto.createHash('sha256').update(`${key}|${occurrence}`).digest('hex');
+  });
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+const clean = (value: string | undefined | null) => {
+  const trimmed = value?.replace(/\s+/g, ' ').trim();
+  return trimmed ? trimmed : null;
+};
+
+// --- CSV -------------------------------------------------------------------------
+
+// Header names banks use for each column, English and Portuguese, compared without accents
+const CSV_COLUMNS = {
+  date: ['date', 'booking date', 'transaction date', 'data', 'data movimento', 'data mov', 'data lancamento', 'data operacao'],
+  valueDate: ['value date', 'data valor', 'data-valor'],
+  description: ['description', 'details', 'narrative', 'descricao', 'descritivo', 'movimento', 'historico'],
+  reference: ['reference', 'referencia', 'ref', 'end to end id'],
+  bankReference: ['bank reference', 'transaction id', 'id', 'n documento', 'numero documento'],
+  amount: ['amount', 'montante', 'valor', 'importancia'],
+  debit: ['debit', 'debito', 'withdrawal', 'saida'],
+  credit: ['credit', 'credito', 'deposit', 'entrada'],
+  currency: ['currency', 'moeda', 'divisa'],
+  counterpartyName: ['counterparty', 'payer', 'payee', 'beneficiary', 'ordenante', 'beneficiario', 'nome'],
+  counterpartyAccount: ['counterparty account', 'iban', 'conta', 'conta contraparte'],
+} as const;
+
+const normalizeHeader = (header: string) => header
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/[^a-zA-Z0-9 -]/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim()
+  .toLowerCase();
+
+function splitCsvRows(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      if (row.some(c => c.trim() !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  if (row.some(c => c.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+// Accepts 1234.56, 1,234.56, 1.234,56, 1 234,56 and (1234.56) for negatives
+export function parseStatementAmount(raw: string): number | null {
+  let value = raw.replace(/[\s\u00A0]/g, '').replace(/[A-Z]{3}$/i, '');
+  if (!value) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.endsWith('-')) {
+    negative = true;
+    value = value.slice(0, -1);
+  }
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(value);
+  if (isNaN(amount)) return null;
+  return roundAmount(negative ? -amount : amount);
+}
+
+// Accepts YYYY-MM-DD, DD/MM/YYYY, DD-MM-YYYY and DD.MM.YYYY (day first, as Angolan banks print)
+export function parseStatementDate(raw: string): string | null {
+  const value = raw.trim();
+  let match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${year}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+  return null;
+}
+
+function parseCsvStatement(content: string): ParsedStatement {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [';', '\t', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const rows = splitCsvRows(text, delimiter);
+  if (rows.length < 2) {
+    throw new Error('CSV statement needs a header row and at least one transaction');
+  }
+
+  const headers = rows[0].map(normalizeHeader);
+  const column = (key: keyof typeof CSV_COLUMNS) => {
+    const names: readonly string[] = CSV_COLUMNS[key];
+    return headers.findIndex(header => names.includes(header));
+  };
+  const columns = Object.fromEntries(
+    (Object.keys(CSV_COLUMNS) as (keyof typeof CSV_COLUMNS)[]).map(key => [key, column(key)])
+  ) as Record<keyof typeof CSV_COLUMNS, number>;
+
+  if (columns.date < 0) {
+    throw new Error('CSV statement has no date column');
+  }
+  if (columns.amount < 0 && columns.debit < 0 && columns.credit < 0) {
+    throw new Error('CSV statement needs an amount column or debit and credit columns');
+  }
+
+  const cell = (row: string[], index: number) => (index >= 0 ? row[index] ?? '' : '');
+  const currencies = new Set<string>();
+  const lines: ParsedStatementLine[] = [];
+
+  rows.slice(1).forEach((row, index) => {
+    const transactionDate = parseStatementDate(cell(row, columns.date));
+    if (!transactionDate) {
+      throw new Error(`Row ${index + 2}: unrecognised date "${cell(row, columns.date)}"`);
+    }
+
+    let amount: number | null;
+    if (columns.amount >= 0) {
+      amount = parseStatementAmount(cell(row, columns.amount));
+    } else {
+      const credit = parseStatementAmount(cell(row, columns.credit)) ?? 0;
+      const debit = parseStatementAmount(cell(row, columns.debit)) ?? 0;
+      amount = roundAmount(Math.abs(credit) - Math.abs(debit));
+    }
+    if (amount === null) {
+      throw new Error(`Row ${index + 2}: unrecognised amount`);
+    }
+    if (amount === 0) return;
+
+    const currency = clean(cell(row, columns.currency));
+    if (currency) currencies.add(currency.toUpperCase());
+
+    lines.push({
+      transactionDate,
+      valueDate: parseStatementDate(cell(row, columns.valueDate)),
+      amount,
+      description: clean(cell(row, columns.description)),
+      reference: clean(cell(row, columns.reference)),
+      bankReference: clean(cell(row, columns.bankReference)),
+      counterpartyName: clean(cell(row, columns.counterpartyName)),
+      counterpartyAccount: clean(cell(row, columns.counterpartyAccount)),
+    });
+  });
+
+  if (currencies.size > 1) {
+    throw new Error(`CSV statement mixes currencies (${Array.from(currencies).join(', ')})`);
+  }
+
+  return {
+    statementReference: null,
+    currency: currencies.size === 1 ? Array.from(currencies)[0] : null,
+    openingBalance: null,
+    closingBalance: null,
+    lines,
+  };
+}
+
+// --- MT940 -----------------------------------------------------------------------
+
+const mt940Date = (yymmdd: string) => {
+  const year = parseInt(yymmdd.slice(0, 2), 10);
+  return `${year > 79 ? 1900 + year : 2000 + year}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`;
+};
+
+const mt940Amount = (raw: string) => roundAmount(parseFloat(raw.replace(',', '.')));
+
+// :60F:C240131AOA1234,56 -> signed balance and currency
+const mt940Balance = (value: string) => {
+  const match = value.match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)/);
+  if (!match) return null;
+  const amount = mt940Amount(match[4]);
+  return { amount: match[1] === 'D' ? -amount : amount, currency: match[3] };
+};
+
+// Structured :86: fields (?20-?29 purpose, ?32/?33 name, ?31 account) flattened to text
+const mt940Information = (value: string) => {
+  const subfields = new Map<string, string>();
+  const parts = value.replace(/\n/g, '').split(/\?(\d{2})/);
+  for (let i = 1; i < parts.length; i += 2) {
+    subfields.set(parts[i], (subfields.get(parts[i]) ?? '') + parts[i + 1]);
+  }
+  if (subfields.size === 0) {
+    return { description: clean(value), counterpartyName: null, counterpartyAccount: null };
+  }
+  const purpose = ['20', '21', '22', '23', '24', '25', '26', '27', '28', '29', '60', '61', '62', '63']
+    .map(code => subfields.get(code) ?? '')
+    .join('');
+  return {
+    description: clean(purpose) ?? clean(parts[0]),
+    counterpartyName: clean(`${subfields.get('32') ?? ''}${subfields.get('33') ?? ''}`),
+    counterpartyAccount: clean(subfields.get('31')),
+  };
+};
+
+function parseMt940(content: string): ParsedStatement {
+  // Tags start a line with :NN: or :NNa:; continuation lines belong to the previous tag
+  const fields: { tag: string; value: string }[] = [];
+  for (const rawLine of content.replace(/\r/g, '').split('\n')) {
+    const tagMatch = rawLine.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagMatch) {
+      fields.push({ tag: tagMatch[1], value: tagMatch[2] });
+    } else if (fields.length > 0 && !/^-\}?$/.test(rawLine.trim()) && !rawLine.startsWith('{')) {
+      fields[fields.length - 1].value += `\n${rawLine}`;
+    }
+  }
+  if (!fields.some(field => field.tag === '61')) {
+    throw new Error('Not an MT940 statement: no :61: transaction lines found');
+  }
+
+  let statementReference: string | null = null;
+  let opening: { amount: number; currency: string } | null = null;
+  let closing: { amount: number; currency: string } | null = null;
+  const lines: ParsedStatementLine[] = [];
+
+  for (const { tag, value } of fields) {
+    switch (tag) {
+      case '28C':
+        statementReference = statementReference ?? clean(value);
+        break;
+      case '60F':
+      case '60M':
+        opening = opening ?? mt940Balance(value);
+        break;
+      case '62F':
+      case '62M':
+        closing = mt940Balance(value);
+        break;
+      case '61': {
+        // YYMMDD [MMDD] C|D|RC|RD [funds code] amount N+type ref [//bank ref] [\n details]
+        const match = value.match(/^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?([\d,]+)([NSF][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/);
+        if (!match) {
+          throw new Error(`Unrecognised MT940 transaction line ":61:${value.split('\n')[0]}"`);
+        }
+        const transactionDate = mt940Date(match[1]);
+        const amount = mt940Amount(match[5]);
+        // RC (reversal of credit) takes money out, RD (reversal of debit) puts it back
+        const sign = match[3] === 'C' || match[3] === 'RD' ? 1 : -1;
+        const customerReference = clean(match[7]);
+        lines.push({
+          transactionDate: match[2] ? `${transactionDate.slice(0, 5)}${match[2].slice(0, 2)}-${match[2].slice(2, 4)}` : transactionDate,
+          valueDate: transactionDate,
+          amount: sign * amount,
+          description: clean(match[9]),
+          reference: customerReference === 'NONREF' ? null : customerReference,
+          bankReference: clean(match[8]),
+          counterpartyName: null,
+          counterpartyAccount: null,
+        });
+        break;
+      }
+      case '86': {
+        const line = lines[lines.length - 1];
+        if (!line) break;
+        const information = mt940Information(value);
+        line.description = clean([line.description, information.description].filter(Boolean).join(' '));
+        line.counterpartyName = information.counterpartyName;
+        line.counterpartyAccount = information.counterpartyAccount;
+        break;
+      }
+    }
+  }
+
+  // :61: carries the value date first and the booking date (MMDD) second; fix year rollover
+  for (const line of lines) {
+    if (line.valueDate && line.transactionDate < line.valueDate && line.valueDate.slice(5, 7) === '12' && line.transactionDate.slice(5, 7) === '01') {
+      line.transactionDate = `${parseInt(line.valueDate.slice(0, 4), 10) + 1}${line.transactionDate.slice(4)}`;
+    }
+  }
+
+  return {
+    statementReference,
+    currency: opening?.currency ?? closing?.currency ?? null,
+    openingBalance: opening?.amount ?? null,
+    closingBalance: closing?.amount ?? null,
+    lines,
+  };
+}
+
+// --- camt.053 --------------------------------------------------------------------
+
+const decodeXml = (value: string) => value
+  .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+// Contents of each <tag> element; elements of the same name must not nest
+const xmlElements = (xml: string, tag: string): string[] =>
+  Array.from(xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g')), match => match[1]);
+
+// Text of the first element found by following a path of tag names
+const xmlText = (xml: string, ...path: string[]): string | null => {
+  let current: string | undefined = xml;
+  for (const tag of path) {
+    current = current === undefined ? undefined : xmlElements(current, tag)[0];
+  }
+  return current === undefined ? null : clean(decodeXml(current));
+};
+
+const camtDate = (xml: string, tag: string) => {
+  const value = xmlText(xml, tag, 'Dt') ?? xmlText(xml, tag, 'DtTm');
+  return value ? value.slice(0, 10) : null;
+};
+
+const camtAmount = (xml: string) => {
+  const match = xml.match(/<Amt(?:\s+Ccy="([A-Z]{3})")?[^>]*>([^<]+)<\/Amt>/);
+  if (!match) return null;
+  const amount = roundAmount(parseFloat(match[2]));
+  const sign = xmlText(xml, 'CdtDbtInd') === 'DBIT' ? -1 : 1;
+  return { amount: sign * amount, currency: match[1] ?? null };
+};
+
+function parseCamt053(content: string): ParsedStatement {
+  // Drop namespace prefixes (<ns2:Ntry> -> <Ntry>) so one set of tag names works
+  const xml = content.replace(/<(\/?)[A-Za-z][\w.-]*:/g, '<$1');
+  const statements = xmlElements(xml, 'Stmt');
+  if (statements.length === 0) {
+    throw new Error('Not a camt.053 statement: no <Stmt> element found');
+  }
+
+  let statementReference: string | null = null;
+  let currency: string | null = null;
+  let openingBalance: number | null = null;
+  let closingBalance: number | null = null;
+  const lines: ParsedStatementLine[] = [];
+
+  for (const statement of statements) {
+    statementReference = statementReference ?? xmlText(statement, 'Id');
+    currency = currency ?? xmlText(statement, 'Acct', 'Ccy');
+
+    for (const balance of xmlElements(statement, 'Bal')) {
+      const code = xmlText(balance, 'Tp', 'CdOrPrtry', 'Cd');
+      const amount = camtAmount(balance);
+      if (!amount) continue;
+      if (code === 'OPBD' && openingBalance === null) openingBalance = amount.amount;
+      if (code === 'CLBD') closingBalance = amount.amount;
+      currency = currency ?? amount.currency;
+    }
+
+    for (const entry of xmlElements(statement, 'Ntry')) {
+      if (xmlText(entry, 'Sts') === 'PDNG' || xmlText(entry, 'Sts', 'Cd') === 'PDNG') continue; // not booked yet
+      const amount = camtAmount(entry.replace(/<NtryDtls>[\s\S]*<\/NtryDtls>/, ''));
+      const transactionDate = camtDate(entry, 'BookgDt') ?? camtDate(entry, 'ValDt');
+      if (!amount || !transactionDate) {
+        throw new Error('camt.053 entry without amount or booking date');
+      }
+
+      const details = xmlElements(entry, 'TxDtls')[0] ?? '';
+      const incoming = amount.amount > 0;
+      const party = incoming ? 'Dbtr' : 'Cdtr';
+      const endToEndId = xmlText(details, 'Refs', 'EndToEndId');
+      const remittance = xmlElements(details, 'Ustrd').map(decodeXml).join(' ');
+      lines.push({
+        transactionDate,
+        valueDate: camtDate(entry, 'ValDt'),
+        amount: amount.amount,
+        description: clean([remittance, xmlText(entry, 'AddtlNtryInf')].filter(Boolean).join(' ')),
+        reference: endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : xmlText(details, 'RmtInf', 'Strd', 'CdtrRefInf', 'Ref'),
+        bankReference: xmlText(entry, 'AcctSvcrRef') ?? xmlText(details, 'Refs', 'AcctSvcrRef'),
+        counterpartyName: xmlText(details, 'RltdPties', party, 'Nm') ?? xmlText(details, 'RltdPties', party, 'Pty', 'Nm'),
+        counterpartyAccount: xmlText(details, 'RltdPties', `${party}Acct`, 'Id', 'IBAN') ?? xmlText(details, 'RltdPties', `${party}Acct`, 'Id', 'Othr', 'Id'),
+      });
+    }
+  }
+
+  return { statementReference, currency, openingBalance, closingBalance, lines };
+}
+
+// --- Matching --------------------------------------------------------------------
+
+const normalizeReference = (value: string | null | undefined) => (value ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export interface MatchableLine {
+  description: string | null;
+  reference: string | null;
+}
+
+/**
+ * Whether one of the document's references (its number, the payer's reference) appears
+ * in the statement line. Short references are ignored: "12" would match almost anything.
+ */
+export function referenceMatches(line: MatchableLine, references: (string | null | undefined)[]): boolean {
+  const haystack = normalizeReference(`${line.reference ?? ''} ${line.description ?? ''}`);
+  return references
+    .map(normalizeReference)
+    .some(reference => reference.length >= 4 && haystack.includes(reference));
+}
+
+export function daysApart(from: string, to: string): number {
+  return Math.abs(Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000)));
+}
+
+// Best candidates first: a reference hit outranks date proximity
+export function rankMatchCandidates(candidates: BankLineMatchCandidate[]): BankLineMatchCandidate[] {
+  return [...candidates].sort((a, b) =>
+    Number(b.referenceMatched) - Number(a.referenceMatched) || a.daysApart - b.daysApart);
+}
+
+/**
+ * The candidate to match automatically, if the choice is unambiguous. Amounts must
+ * already be equal. A single reference hit wins; without one, a single candidate
+ * inside the date tolerance does.
+ */
+export function pickAutoMatch(candidates: BankLineMatchCandidate[], dateToleranceDays: number): BankLineMatchCandidate | null {
+  const referenced = candidates.filter(candidate => candidate.referenceMatched);
+  if (referenced.length === 1) return referenced[0];
+  if (referenced.length > 1) return null;
+
+  const inWindow = candidates.filter(candidate => candidate.daysApart <= dateToleranceDays);
+  return inWindow.length === 1 ? inWindow[0] : null;
+}
@@ -134,7 +134,21 @@ class HighPerformanceCache {
     this.stats.deletes += deleted;
     return deleted;
   }
-  
+
+  /**
+   * Delete every key starting with a prefix
+   */
+  async delByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    for (const key of Array.from(this.cache.keys())) {
+      if (key.startsWith(prefix) && this.cache.delete(key)) {
+        deleted++;
+      }
+    }
+    this.stats.deletes += deleted;
+    return deleted;
+  }
+
   /**
    * Check if key exists
    */
@@ -435,6 +449,14 @@ export async function getCachedExpiringProducts(storage: any, daysAhead: number
   );
 }
 
+/**
+ * Invalidate expiring products cache, for every window it was cached under
+ */
+export async function invalidateExpiringProductsCache(): Promise<void> {
+  await cache.delByPrefix(`${CACHE_CONFIG.EXPIRING_PRODUCTS.key}:`);
+  console.log('♻️  Expiring products cache invalidated');
+}
+
 /**
  * Memory-optimized middleware for request lifecycle with proper cleanup
  */
@@ -0,0 +1,110 @@
+import type { LandedCostBreakdownLine, LandedCostChargeType } from "@shared/schema";
+
+/**
+ * Inventory costing. Every stock movement is costed in the base currency when it is
+ * written: FIFO products at the cost of the batch the units leave from, weighted-average
+ * products at the moving average of everything on the stock ledger before the movement.
+ * A movement's total cost carries the sign of its quantity, so the value of stock at any
+ * date is the sum of the ledger up to it.
+ */
+
+// Key for pg_advisory_xact_lock, with the product's hash as second key; serialises
+// weighted-average costing per product
+export const COSTING_LOCK_KEY = 7402117;
+
+// Stock moving between shelves, transit and warehouses keeps its value; everything else
+// except goods receipts (sales, returns, write-offs, count differences) is cost of sales
+export const TRANSFER_MOVEMENT_TYPES = ['transfer_out', 'in_transit', 'transfer_in'];
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+const round4 = (amount: number) => Math.round(amount * 10000) / 10000;
+
+// Null when the ledger holds nothing to average
+export function movingAverageCost(quantity: number, value: number): number | null {
+  return quantity > 0 ? round4(value / quantity) : null;
+}
+
+export function movementCostFields(quantity: number, unitCost: number, costOfSales: boolean): { unitCost: string; totalCost: string; costOfSales: string | null } {
+  const totalCost = round2(quantity * unitCost);
+  return {
+    unitCost: round4(unitCost).toFixed(4),
+    totalCost: totalCost.toFixed(2),
+    // Stock going out is expensed; stock coming back reverses the expense
+    costOfSales: costOfSales ? (-totalCost).toFixed(2) : null,
+  };
+}
+
+export const marginPercent = (revenue: number, margin: number): number | null =>
+  revenue !== 0 ? round2(margin / revenue * 100) : null;
+
+// Split an amount in cents in proportion to the weights; the cents left over by rounding
+// go to the largest remainders, so the parts always add up to the amount
+export function allocateCents(totalCents: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0) {
+    return weights.map(() => 0);
+  }
+  const exact = weights.map(weight => totalCents * weight / totalWeight);
+  const parts = exact.map(Math.floor);
+  const byRemainder = exact.map((_, index) => index).sort((a, b) => (exact[b] - parts[b]) - (exact[a] - parts[a]));
+  let left = totalCents - parts.reduce((sum, part) => sum + part, 0);
+  for (let i = 0; left > 0; i = (i + 1) % byRemainder.length, left--) {
+    parts[byRemainder[i]] += 1;
+  }
+  return parts;
+}
+
+// One charge's share of one received batch
+export interface LandedCostEntry {
+  lineKey: string; // goods receipt and batch
+  productId: string;
+  sku: string;
+  productName: string;
+  quantity: number;
+  receivedValue: number;
+  chargeType: LandedCostChargeType;
+  amount: number;
+  costOfSalesAmount: number;
+}
+
+export function landedCostBreakdown(entries: LandedCostEntry[]): LandedCostBreakdownLine[] {
+  const byProduct = new Map<string, LandedCostBreakdownLine>();
+  const countedLines = new Set<string>();
+  for (const entry of entries) {
+    const line = byProduct.get(entry.productId) ?? {
+      productId: entry.productId,
+      sku: entry.sku,
+      productName: entry.productName,
+      quantity: 0,
+      purchaseCost: 0,
+      charges: {},
+      landedCost: 0,
+      costOfSalesAmount: 0,
+      totalCost: 0,
+      unitCost: 0,
+      upliftPercent: null,
+    };
+    // Every charge has an entry for each batch; the batch itself counts once
+    if (!countedLines.has(entry.lineKey)) {
+      countedLines.add(entry.lineKey);
+      line.quantity += entry.quantity;
+      line.purchaseCost = round2(line.purchaseCost + entry.receivedValue);
+    }
+    line.charges[entry.chargeType] = round2((line.charges[entry.chargeType] ?? 0) + entry.amount);
+    line.landedCost = round2(line.landedCost + entry.amount);
+    line.costOfSalesAmount = round2(line.costOfSalesAmount + entry.costOfSalesAmount);
+    byProduct.set(entry.productId, line);
+  }
+
+  return Array.from(byProduct.values())
+    .map(line => {
+      const totalCost = round2(line.purchaseCost + line.landedCost);
+      return {
+        ...line,
+        totalCost,
+        unitCost: line.quantity > 0 ? round4(totalCost / line.quantity) : 0,
+        upliftPercent: line.purchaseCost !== 0 ? round2(line.landedCost / line.purchaseCost * 100) : null,
+      };
+    })
+    .sort((a, b) => a.productName.localeCompare(b.productName));
+}
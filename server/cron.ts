@@ -0,0 +1,132 @@
+/**
+ * Minimal 5-field cron expression support (minute hour day-of-month month day-of-week).
+ * Supports "*", single values, lists (1,15), ranges (1-5) and steps (star/15, 0-30/10).
+ * Day-of-week uses 0-6 with Sunday = 0 (7 is accepted as Sunday too).
+ */
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+export interface CronSchedule {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7],  // day of week
+];
+
+const MINUTE_MS = 60 * 1000;
+const MAX_LOOKAHEAD_MINUTES = 366 * 24 * 60 * 5; // five years covers Feb 29 schedules
+
+function parseField(expression: string, min: number, max: number): CronField {
+  const values = new Set<number>();
+  const wildcard = expression === '*';
+
+  for (const part of expression.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart !== undefined ? parseInt(stepPart, 10) : 1;
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-').map(v => parseInt(v, 10));
+      start = from;
+      end = to;
+    } else {
+      start = parseInt(rangePart, 10);
+      end = stepPart !== undefined ? max : start;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field "${part}" - values must be between ${min} and ${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard };
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i][0], FIELD_RANGES[i][1])
+  );
+
+  // Normalise Sunday
+  if (daysOfWeek.values.has(7)) {
+    daysOfWeek.values.delete(7);
+    daysOfWeek.values.add(0);
+  }
+
+  return { minutes, hours, daysOfMonth, months, daysOfWeek };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.values.has(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.values.has(date.getUTCDay());
+
+  // Standard cron semantics: when both day fields are restricted, either may match
+  if (!schedule.daysOfMonth.wildcard && !schedule.daysOfWeek.wildcard) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Next time strictly after `after` that matches the expression.
+ * The expression is evaluated in local time at `utcOffsetMinutes` from UTC.
+ */
+export function getNextCronRun(expression: string, after: Date, utcOffsetMinutes = 0): Date {
+  const schedule = parseCronExpression(expression);
+  const offsetMs = utcOffsetMinutes * MINUTE_MS;
+
+  // Work on a shifted clock so UTC getters read as local wall time
+  const candidate = new Date(Math.floor((after.getTime() + offsetMs) / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+
+  for (let i = 0; i < MAX_LOOKAHEAD_MINUTES; i++) {
+    if (!schedule.months.values.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.values.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.values.has(candidate.getUTCMinutes())) {
+      candidate.setTime(candidate.getTime() + MINUTE_MS);
+      continue;
+    }
+    return new Date(candidate.getTime() - offsetMs);
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
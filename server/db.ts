@@ -4,6 +4,7 @@ import ws from "ws";
 import * as schema from "@shared/schema";
 import { getDatabaseUrlAsync } from "./secretLoader";
 import { optimizedPoolConfig } from "../critical-cache-implementation";
+import { withAuditTrail } from "./audit";
 
 neonConfig.webSocketConstructor = ws;
 
@@ -68,8 +69,8 @@ async function initializeDatabase(): Promise<void> {
         
         // Note: 'release' event not supported by neon pool, removing to fix LSP error
         
-        // Create the drizzle instance
-        const newDb = drizzle({ client: newPool, schema });
+        // Create the drizzle instance; every write through it lands in the audit trail
+        const newDb = withAuditTrail(drizzle({ client: newPool, schema }));
         
         // Enhanced connection testing with retry logic
         console.log('🧪 [DB] Testing database connection with enhanced validation...');
@@ -308,4 +309,7 @@ export async function getDb() {
   }
   
   throw new Error("Database connection not available. Check DATABASE_URL and initialization logs.");
-}
\ No newline at end of file
+}
+
+// The transaction handle passed to db.transaction callbacks, for helpers that run inside one
+export type DbTx = Parameters<Parameters<Awaited<ReturnType<typeof getDb>>['transaction']>[0]>[0];
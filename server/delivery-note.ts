@@ -0,0 +1,107 @@
+import { jsPDF } from "jspdf";
+import { getStorage } from "./storage";
+
+/**
+ * Render the delivery note (guia de remessa) for a shipment as a PDF: one line per
+ * batch shipped, with batch number and expiry date for traceability.
+ */
+export async function renderDeliveryNotePdf(shipmentId: string): Promise<{ fileName: string; content: Buffer }> {
+  const storage = await getStorage();
+  const shipment = await storage.getShipment(shipmentId);
+  if (!shipment) {
+    throw new Error('Shipment not found');
+  }
+
+  const companyName = await storage.getSettingValue('company_name');
+  const companyTaxId = await storage.getSettingValue('company_tax_id');
+
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 36;
+  const rowHeight = 16;
+  const columns = [
+    { label: 'Product', x: margin },
+    { label: 'Batch', x: margin + 220 },
+    { label: 'Expiry', x: margin + 330 },
+    { label: 'Quantity', x: pageWidth - margin - 60 },
+  ];
+
+  const drawHeader = (y: number) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    columns.forEach(c => doc.text(c.label, c.x, y));
+    doc.line(margin, y + 4, pageWidth - margin, y + 4);
+    doc.setFont('helvetica', 'normal');
+    return y + rowHeight;
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(companyName, margin, margin);
+  doc.text(`Delivery Note ${shipment.shipmentNumber}`, pageWidth - margin, margin, { align: 'right' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  if (companyTaxId) {
+    doc.text(`NIF ${companyTaxId}`, margin, margin + 14);
+  }
+  doc.text(`Date: ${shipment.shipDate}`, pageWidth - margin, margin + 14, { align: 'right' });
+  doc.text(`Sales order: ${shipment.salesOrder.orderNumber}`, pageWidth - margin, margin + 26, { align: 'right' });
+
+  doc.setFont('helvetica', 'bold');
+  doc.text('Deliver to', margin, margin + 50);
+  doc.setFont('helvetica', 'normal');
+  const addressLines = [
+    shipment.customer.name,
+    shipment.customer.address,
+    shipment.customer.taxId ? `NIF ${shipment.customer.taxId}` : null,
+  ].filter((line): line is string => !!line);
+  addressLines.forEach((line, i) => doc.text(line, margin, margin + 62 + i * 12));
+
+  doc.setFont('helvetica', 'bold');
+  doc.text('Shipped from', pageWidth / 2, margin + 50);
+  doc.setFont('helvetica', 'normal');
+  const shippingLines = [
+    shipment.warehouse.name,
+    shipment.carrier ? `Carrier: ${shipment.carrier}` : null,
+    shipment.trackingNumber ? `Tracking: ${shipment.trackingNumber}` : null,
+  ].filter((line): line is string => !!line);
+  shippingLines.forEach((line, i) => doc.text(line, pageWidth / 2, margin + 62 + i * 12));
+
+  let y = drawHeader(margin + 62 + Math.max(addressLines.length, shippingLines.length) * 12 + 24);
+  for (const item of shipment.items) {
+    if (y > pageHeight - margin - 60) {
+      doc.addPage();
+      y = drawHeader(margin);
+    }
+    doc.text(doc.splitTextToSize(item.product.name, 210)[0], columns[0].x, y);
+    doc.text(item.batchNumber || '-', columns[1].x, y);
+    doc.text(item.expiryDate || '-', columns[2].x, y);
+    doc.text(String(item.quantity), columns[3].x, y);
+    y += rowHeight;
+  }
+
+  const totalUnits = shipment.items.reduce((sum, item) => sum + item.quantity, 0);
+  doc.line(margin, y - 8, pageWidth - margin, y - 8);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Total units', columns[2].x, y + 4);
+  doc.text(String(totalUnits), columns[3].x, y + 4);
+  doc.setFont('helvetica', 'normal');
+
+  if (shipment.notes) {
+    doc.text(doc.splitTextToSize(shipment.notes, pageWidth - margin * 2), margin, y + 28);
+  }
+
+  // Signature lines for the driver and the receiving pharmacist
+  const signatureY = pageHeight - margin - 20;
+  doc.line(margin, signatureY, margin + 200, signatureY);
+  doc.line(pageWidth - margin - 200, signatureY, pageWidth - margin, signatureY);
+  doc.text('Delivered by', margin, signatureY + 12);
+  doc.text('Received by (name, signature, date)', pageWidth - margin - 200, signatureY + 12);
+
+  return {
+    fileName: `${shipment.shipmentNumber.replace(/[^\w.-]+/g, '_')}.pdf`,
+    content: Buffer.from(doc.output('arraybuffer')),
+  };
+}
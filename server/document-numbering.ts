@@ -0,0 +1,100 @@
+import type { DocumentType } from "@shared/schema";
+import type { SettingKey } from "./settings";
+
+/**
+ * Document number patterns. Supported tokens:
+ * - {prefix}  document prefix from system settings (e.g. INV)
+ * - {series}  sequence series (e.g. A, or the POS terminal number)
+ * - {year}    four-digit year, {yy} two-digit year
+ * - {seq:N}   sequence number zero-padded to N digits ({seq} for no padding)
+ */
+
+export const DEFAULT_DOCUMENT_PATTERN = '{prefix} {series}/{year}/{seq:6}';
+export const DEFAULT_DOCUMENT_SERIES = 'A';
+
+export const DOCUMENT_PREFIX_SETTINGS: Record<DocumentType, SettingKey> = {
+  invoice: 'invoice_number_prefix',
+  credit_note: 'credit_note_number_prefix',
+  sales_order: 'sales_order_number_prefix',
+  quotation: 'quotation_number_prefix',
+  purchase_request: 'purchase_request_number_prefix',
+  purchase_order: 'purchase_order_number_prefix',
+  goods_receipt: 'goods_receipt_number_prefix',
+  vendor_bill: 'vendor_bill_number_prefix',
+  pos_receipt: 'pos_receipt_number_prefix',
+  transfer_order: 'transfer_order_number_prefix',
+  delivery_note: 'delivery_note_number_prefix',
+  journal_entry: 'journal_entry_number_prefix',
+  supplier_payment: 'supplier_payment_number_prefix',
+  payment_run: 'payment_run_number_prefix',
+  receipt: 'receipt_number_prefix',
+  landed_cost: 'landed_cost_number_prefix',
+  stock_count: 'stock_count_number_prefix',
+};
+
+const TOKEN_PATTERN = /\{(prefix|series|year|yy|seq)(?::(\d+))?\}/g;
+
+export function validateDocumentPattern(pattern: string): void {
+  const unknown = pattern.replace(TOKEN_PATTERN, '').match(/\{[^}]*\}/);
+  if (unknown) {
+    throw new Error(`Unknown token ${unknown[0]} in document pattern "${pattern}"`);
+  }
+  if (!/\{seq(:\d+)?\}/.test(pattern)) {
+    throw new Error(`Document pattern "${pattern}" must contain a {seq} token`);
+  }
+}
+
+export function formatDocumentNumber(
+  pattern: string,
+  values: { prefix: string; series: string; year: number; sequenceNumber: number }
+): string {
+  return pattern
+    .replace(TOKEN_PATTERN, (_, token: string, width?: string) => {
+      switch (token) {
+        case 'prefix': return values.prefix;
+        case 'series': return values.series;
+        case 'year': return String(values.year);
+        case 'yy': return String(values.year % 100).padStart(2, '0');
+        case 'seq': return String(values.sequenceNumber).padStart(width ? parseInt(width, 10) : 0, '0');
+        default: return '';
+      }
+    })
+    .trim();
+}
+
+/**
+ * Collapse consecutive numbers into ranges for the gap report, e.g. [3,4,5,9] -> ["3-5", "9"]
+ */
+export function toNumberRanges(numbers: number[]): string[] {
+  const sorted = Array.from(new Set(numbers)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+  let start = sorted[0];
+  let previous = sorted[0];
+
+  for (let i = 1; i <= sorted.length; i++) {
+    const current = sorted[i];
+    if (current === previous + 1) {
+      previous = current;
+      continue;
+    }
+    if (start !== undefined) {
+      ranges.push(start === previous ? String(start) : `${start}-${previous}`);
+    }
+    start = current;
+    previous = current;
+  }
+
+  return ranges;
+}
+
+export interface DocumentNumberGapReport {
+  sequenceId: string;
+  documentType: DocumentType;
+  series: string;
+  year: number; // 0 for sequences that never reset
+  lastNumber: number;
+  issuedCount: number;
+  missingNumbers: string[]; // sequence numbers never issued, as ranges
+  orphanedNumbers: string[]; // issued numbers whose document no longer exists
+  isGapFree: boolean;
+}
@@ -0,0 +1,62 @@
+import type { AgingBuckets, InsertDunningLevel } from "@shared/schema";
+
+/**
+ * Default dunning ladder installed on first use: a friendly reminder, a formal second
+ * notice, then a credit hold that blocks new credit sales until the debt is settled.
+ */
+export const DEFAULT_DUNNING_LEVELS: InsertDunningLevel[] = [
+  {
+    level: 1,
+    name: 'Payment reminder',
+    daysOverdue: 7,
+    action: 'reminder',
+    communicationType: 'email',
+    subjectTemplate: 'Payment reminder from {company}',
+    bodyTemplate: 'Dear {customer},\n\nOur records show the following invoices are past due:\n\n{invoices}\n\nTotal due: {totalDue}. If you have already paid, please disregard this message.\n\nKind regards,\n{company}',
+    isActive: true,
+  },
+  {
+    level: 2,
+    name: 'Second notice',
+    daysOverdue: 30,
+    action: 'notice',
+    communicationType: 'email',
+    subjectTemplate: 'Second notice: overdue invoices with {company}',
+    bodyTemplate: 'Dear {customer},\n\nDespite our reminder, the following invoices remain unpaid, up to {daysOverdue} days past due:\n\n{invoices}\n\nTotal due: {totalDue}. Please arrange payment within 7 days to avoid your account being placed on credit hold.\n\n{company}',
+    isActive: true,
+  },
+  {
+    level: 3,
+    name: 'Credit hold',
+    daysOverdue: 60,
+    action: 'credit_hold',
+    communicationType: 'email',
+    subjectTemplate: 'Account on credit hold - {company}',
+    bodyTemplate: 'Dear {customer},\n\nYour account has been placed on credit hold because the following invoices are seriously overdue:\n\n{invoices}\n\nTotal due: {totalDue}. New orders on credit cannot be accepted until this balance is settled.\n\n{company}',
+    isActive: true,
+  },
+];
+
+export function renderDunningTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+export function emptyAgingBuckets(): AgingBuckets {
+  return { current: 0, days0to30: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 };
+}
+
+// Add an open amount to the bucket for its days past due, keeping totals in cents
+export function addToAgingBuckets(buckets: AgingBuckets, daysPastDue: number, amount: number): void {
+  const key: keyof AgingBuckets =
+    daysPastDue <= 0 ? 'current'
+    : daysPastDue <= 30 ? 'days0to30'
+    : daysPastDue <= 60 ? 'days31to60'
+    : daysPastDue <= 90 ? 'days61to90'
+    : 'over90';
+  buckets[key] = Math.round((buckets[key] + amount) * 100) / 100;
+  buckets.total = Math.round((buckets.total + amount) * 100) / 100;
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+}
@@ -0,0 +1,134 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify, type KeyObject } from "crypto";
+import { readFileSync } from "fs";
+import type { InsertInvoice, Invoice } from "@shared/schema";
+
+/**
+ * Fiscal document signing as AGT certification requires: each invoice, credit note and
+ * POS receipt is signed with RSA-SHA1 over "date;entry time;number;gross total;previous
+ * hash", chaining every document to the one before it in its series. Documents show the
+ * 1st, 11th, 21st and 31st characters of the signature with the software certificate number.
+ */
+
+export type FiscalDocumentType = 'invoice' | 'credit_note' | 'pos_receipt';
+
+// SAF-T document types: invoice, credit note, invoice-receipt
+export const FISCAL_DOCUMENT_TYPES: Record<FiscalDocumentType, string> = {
+  invoice: 'FT',
+  credit_note: 'NC',
+  pos_receipt: 'FR',
+};
+
+/**
+ * SAF-T document numbers are "<type> <series>/<sequence>". Ours end in their sequence
+ * (INV A/2024/000001), so the rest becomes the series: FT INVA2024/1. Numbers that do not
+ * end in digits cannot be reported or signed and come back null.
+ */
+export function fiscalDocumentNumber(saftType: string, documentNumber: string): string | null {
+  const match = documentNumber.match(/^(.*?)(\d+)$/);
+  if (!match) {
+    return null;
+  }
+  const series = match[1].replace(/[^A-Za-z0-9]/g, '') || 'A';
+  return `${saftType} ${series}/${Number(match[2])}`;
+}
+
+export const fiscalSeries = (fiscalNumber: string) => fiscalNumber.split('/')[0];
+
+// Key for pg_advisory_xact_lock, with the series hash as second key; serialises signing per series
+export const FISCAL_CHAIN_LOCK_KEY = 7402116;
+
+export interface SignedFields {
+  documentDate: string;
+  systemEntryDate: Date;
+  documentNumber: string; // SAF-T number
+  grossTotal: string; // base currency, two decimals
+}
+
+export function signingMessage(fields: SignedFields, previousHash: string | null): string {
+  return [
+    fields.documentDate,
+    fields.systemEntryDate.toISOString().split('.')[0],
+    fields.documentNumber,
+    fields.grossTotal,
+    previousHash ?? '',
+  ].join(';');
+}
+
+interface SigningKey {
+  version: string;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+}
+
+let signingKey: SigningKey | null = null;
+
+/**
+ * The private key comes from FISCAL_SIGNING_PRIVATE_KEY (PEM) or the file named by
+ * FISCAL_SIGNING_PRIVATE_KEY_FILE; FISCAL_SIGNING_KEY_VERSION is reported as HashControl.
+ * Outside production a throwaway key lets documents be issued, under key version "dev".
+ */
+function getSigningKey(): SigningKey {
+  if (signingKey) {
+    return signingKey;
+  }
+
+  const keyFile = process.env.FISCAL_SIGNING_PRIVATE_KEY_FILE;
+  const pem = process.env.FISCAL_SIGNING_PRIVATE_KEY?.replace(/\\n/g, '\n') || (keyFile ? readFileSync(keyFile, 'utf8') : '');
+  if (pem) {
+    const privateKey = createPrivateKey(pem);
+    signingKey = { version: process.env.FISCAL_SIGNING_KEY_VERSION || '1', privateKey, publicKey: createPublicKey(privateKey) };
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new Error('Fiscal signing key is not configured (FISCAL_SIGNING_PRIVATE_KEY or FISCAL_SIGNING_PRIVATE_KEY_FILE)');
+  } else {
+    console.warn('⚠️ [Fiscal] No signing key configured, signing documents with a temporary development key');
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 1024 });
+    signingKey = { version: 'dev', privateKey, publicKey };
+  }
+  return signingKey;
+}
+
+export function signFiscalMessage(message: string): { hash: string; keyVersion: string } {
+  const key = getSigningKey();
+  return {
+    hash: sign('RSA-SHA1', Buffer.from(message, 'utf8'), key.privateKey).toString('base64'),
+    keyVersion: key.version,
+  };
+}
+
+// Null when the signature was made with a key version other than the one loaded
+export function verifyFiscalSignature(message: string, hash: string, keyVersion: string): boolean | null {
+  const key = getSigningKey();
+  if (key.version !== keyVersion) {
+    return null;
+  }
+  return verify('RSA-SHA1', Buffer.from(message, 'utf8'), key.publicKey, Buffer.from(hash, 'base64'));
+}
+
+export const hashExcerpt = (hash: string) => [0, 10, 20, 30].map(position => hash.charAt(position)).join('');
+
+// Printed on every signed document
+export const certificationText = (hash: string, certificateNumber: string) =>
+  `${hashExcerpt(hash)}-Processado por programa válido n.º ${certificateNumber || '0'}/AGT`;
+
+// What an issued invoice's signature covers, directly or through its SAF-T content
+export const SIGNED_INVOICE_FIELDS: Array<keyof InsertInvoice & keyof Invoice> = [
+  'invoiceNumber', 'customerId', 'salesOrderId', 'shipmentId', 'invoiceDate',
+  'currency', 'fxRate', 'subtotal', 'taxAmount', 'totalAmount',
+];
+
+/**
+ * Fields a change would alter on an issued invoice. Amounts compare as numbers, as the
+ * client sends "100" for a stored "100.00".
+ */
+export function changedSignedFields(invoice: Invoice, changes: Partial<InsertInvoice>): string[] {
+  return SIGNED_INVOICE_FIELDS.filter(field => {
+    const value = changes[field];
+    if (value === undefined) {
+      return false;
+    }
+    const current = invoice[field];
+    return ['fxRate', 'subtotal', 'taxAmount', 'totalAmount'].includes(field)
+      ? Number(value ?? 0) !== Number(current ?? 0)
+      : String(value ?? '') !== String(current ?? '');
+  });
+}
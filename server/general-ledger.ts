@@ -0,0 +1,195 @@
+import type { GlAccount } from "@shared/schema";
+import type { SettingKey } from "./settings";
+
+/**
+ * Default chart of accounts: the Angolan Plano Geral de Contabilidade (PGC, Decreto
+ * 82/2001) trimmed to the accounts a pharmaceutical distributor uses. The parent of
+ * an account is the code without its last segment ("31.1.1" -> "31.1", "31" -> "3").
+ * Accounts with children are grouping accounts and cannot be posted to.
+ */
+
+type AccountType = GlAccount['accountType'];
+
+interface ChartAccount {
+  code: string;
+  name: string;
+  accountType: AccountType;
+}
+
+export const ANGOLAN_PGC_ACCOUNTS: ChartAccount[] = [
+  { code: '1', name: 'Meios fixos e investimentos', accountType: 'asset' },
+  { code: '11', name: 'Imobilizações corpóreas', accountType: 'asset' },
+  { code: '11.4', name: 'Equipamento básico', accountType: 'asset' },
+  { code: '11.5', name: 'Equipamento de carga e transporte', accountType: 'asset' },
+  { code: '11.6', name: 'Equipamento administrativo', accountType: 'asset' },
+  { code: '18', name: 'Amortizações acumuladas', accountType: 'asset' },
+
+  { code: '2', name: 'Existências', accountType: 'asset' },
+  { code: '21', name: 'Compras', accountType: 'asset' },
+  { code: '21.2', name: 'Mercadorias', accountType: 'asset' },
+  { code: '26', name: 'Mercadorias', accountType: 'asset' },
+  { code: '26.1', name: 'Mercadorias em armazém', accountType: 'asset' },
+  { code: '26.2', name: 'Mercadorias em trânsito', accountType: 'asset' },
+  { code: '29', name: 'Provisão para depreciação de existências', accountType: 'asset' },
+
+  { code: '3', name: 'Terceiros', accountType: 'liability' },
+  { code: '31', name: 'Clientes', accountType: 'asset' },
+  { code: '31.1', name: 'Clientes - correntes', accountType: 'asset' },
+  { code: '31.1.1', name: 'Clientes nacionais', accountType: 'asset' },
+  { code: '31.1.2', name: 'Clientes estrangeiros', accountType: 'asset' },
+  { code: '31.8', name: 'Clientes de cobrança duvidosa', accountType: 'asset' },
+  { code: '31.9', name: 'Clientes - adiantamentos', accountType: 'liability' },
+  { code: '32', name: 'Fornecedores', accountType: 'liability' },
+  { code: '32.1', name: 'Fornecedores - correntes', accountType: 'liability' },
+  { code: '32.1.1', name: 'Fornecedores nacionais', accountType: 'liability' },
+  { code: '32.1.2', name: 'Fornecedores estrangeiros', accountType: 'liability' },
+  { code: '32.9', name: 'Fornecedores - facturas em recepção e conferência', accountType: 'liability' },
+  { code: '34', name: 'Estado', accountType: 'liability' },
+  { code: '34.1', name: 'Imposto sobre os lucros', accountType: 'liability' },
+  { code: '34.3', name: 'Imposto sobre o rendimento do trabalho (IRT)', accountType: 'liability' },
+  { code: '34.5', name: 'Imposto sobre o valor acrescentado (IVA)', accountType: 'liability' },
+  { code: '34.5.1', name: 'IVA suportado', accountType: 'asset' },
+  { code: '34.5.2', name: 'IVA dedutível', accountType: 'asset' },
+  { code: '34.5.3', name: 'IVA liquidado', accountType: 'liability' },
+  { code: '34.5.4', name: 'IVA regularizações', accountType: 'liability' },
+  { code: '34.5.5', name: 'IVA apuramento', accountType: 'liability' },
+  { code: '34.5.6', name: 'IVA a pagar', accountType: 'liability' },
+  { code: '34.5.7', name: 'IVA a recuperar', accountType: 'asset' },
+  { code: '34.7', name: 'Contribuições para a segurança social (INSS)', accountType: 'liability' },
+  { code: '36', name: 'Pessoal', accountType: 'liability' },
+  { code: '36.1', name: 'Pessoal - remunerações', accountType: 'liability' },
+  { code: '36.1.1', name: 'Órgãos sociais', accountType: 'liability' },
+  { code: '36.1.2', name: 'Empregados', accountType: 'liability' },
+  { code: '36.9', name: 'Pessoal - outros', accountType: 'liability' },
+  { code: '37', name: 'Outros valores a receber e a pagar', accountType: 'liability' },
+  { code: '37.9', name: 'Outros devedores e credores', accountType: 'liability' },
+
+  { code: '4', name: 'Meios monetários', accountType: 'asset' },
+  { code: '42', name: 'Depósitos a prazo', accountType: 'asset' },
+  { code: '43', name: 'Depósitos à ordem', accountType: 'asset' },
+  { code: '43.1', name: 'Moeda nacional', accountType: 'asset' },
+  { code: '43.2', name: 'Moeda estrangeira', accountType: 'asset' },
+  { code: '45', name: 'Caixa', accountType: 'asset' },
+  { code: '45.1', name: 'Fundo fixo', accountType: 'asset' },
+  { code: '45.2', name: 'Valores para depositar', accountType: 'asset' },
+  { code: '48', name: 'Conta transitória', accountType: 'asset' },
+
+  { code: '5', name: 'Capital e reservas', accountType: 'equity' },
+  { code: '51', name: 'Capital', accountType: 'equity' },
+  { code: '55', name: 'Reservas legais', accountType: 'equity' },
+  { code: '58', name: 'Reservas livres', accountType: 'equity' },
+
+  { code: '6', name: 'Proveitos e ganhos por natureza', accountType: 'revenue' },
+  { code: '61', name: 'Vendas', accountType: 'revenue' },
+  { code: '61.3', name: 'Mercadorias', accountType: 'revenue' },
+  { code: '61.3.1', name: 'Mercado nacional', accountType: 'revenue' },
+  { code: '61.3.2', name: 'Mercado externo', accountType: 'revenue' },
+  { code: '61.7', name: 'Devoluções', accountType: 'revenue' },
+  { code: '61.8', name: 'Descontos e abatimentos', accountType: 'revenue' },
+  { code: '62', name: 'Prestações de serviços', accountType: 'revenue' },
+  { code: '66', name: 'Proveitos e ganhos financeiros gerais', accountType: 'revenue' },
+  { code: '66.2', name: 'Diferenças de câmbio favoráveis', accountType: 'revenue' },
+  { code: '68', name: 'Outros proveitos e ganhos não operacionais', accountType: 'revenue' },
+
+  { code: '7', name: 'Custos e perdas por natureza', accountType: 'expense' },
+  { code: '71', name: 'Custo das existências vendidas e das matérias consumidas', accountType: 'expense' },
+  { code: '71.3', name: 'Mercadorias', accountType: 'expense' },
+  { code: '72', name: 'Custos com o pessoal', accountType: 'expense' },
+  { code: '72.2', name: 'Remunerações - pessoal', accountType: 'expense' },
+  { code: '72.5', name: 'Encargos sobre remunerações', accountType: 'expense' },
+  { code: '73', name: 'Amortizações do exercício', accountType: 'expense' },
+  { code: '75', name: 'Outros custos e perdas operacionais', accountType: 'expense' },
+  { code: '75.2', name: 'Fornecimentos e serviços de terceiros', accountType: 'expense' },
+  { code: '76', name: 'Custos e perdas financeiros gerais', accountType: 'expense' },
+  { code: '76.2', name: 'Diferenças de câmbio desfavoráveis', accountType: 'expense' },
+  { code: '78', name: 'Outros custos e perdas não operacionais', accountType: 'expense' },
+
+  { code: '8', name: 'Resultados', accountType: 'equity' },
+  { code: '81', name: 'Resultados transitados', accountType: 'equity' },
+  { code: '82', name: 'Resultados operacionais', accountType: 'equity' },
+  { code: '88', name: 'Resultado líquido do exercício', accountType: 'equity' },
+];
+
+export function parentAccountCode(code: string): string | null {
+  if (code.includes('.')) return code.slice(0, code.lastIndexOf('.'));
+  return code.length > 1 ? code.slice(0, 1) : null;
+}
+
+// Settings naming the account each automatic posting uses
+export type GlAccountSettingKey = Extract<SettingKey, `gl_account_${string}`>;
+
+export interface JournalLineInput {
+  accountId: string;
+  debit?: number;
+  credit?: number;
+  description?: string | null;
+  customerId?: string | null;
+  supplierId?: string | null;
+}
+
+export interface NormalizedJournalLine {
+  accountId: string;
+  debit: string;
+  credit: string;
+  description: string | null;
+  customerId: string | null;
+  supplierId: string | null;
+}
+
+const toCents = (amount: number | undefined) => Math.round((amount ?? 0) * 100);
+
+/**
+ * Round lines to cents, move negative amounts to the opposite side, drop empty lines
+ * and check that debits equal credits. Returns the lines and the entry total.
+ */
+export function normalizeJournalLines(lines: JournalLineInput[]): { lines: NormalizedJournalLine[]; totalCents: number } {
+  let debitCents = 0;
+  let creditCents = 0;
+  const normalized: NormalizedJournalLine[] = [];
+
+  for (const line of lines) {
+    const net = toCents(line.debit) - toCents(line.credit);
+    if (net === 0) continue;
+
+    const debit = net > 0 ? net : 0;
+    const credit = net < 0 ? -net : 0;
+    debitCents += debit;
+    creditCents += credit;
+    normalized.push({
+      accountId: line.accountId,
+      debit: (debit / 100).toFixed(2),
+      credit: (credit / 100).toFixed(2),
+      description: line.description ?? null,
+      customerId: line.customerId ?? null,
+      supplierId: line.supplierId ?? null,
+    });
+  }
+
+  if (normalized.length < 2) {
+    throw new Error('A journal entry needs at least two non-zero lines');
+  }
+  if (debitCents !== creditCents) {
+    throw new Error(`Journal entry is not balanced: debits ${(debitCents / 100).toFixed(2)}, credits ${(creditCents / 100).toFixed(2)}`);
+  }
+
+  return { lines: normalized, totalCents: debitCents };
+}
+
+// a - b - c ... computed in cents, so the parts of a split always add back up to the total
+export function amountDifference(total: number, ...parts: number[]): number {
+  return (toCents(total) - parts.reduce((sum, part) => sum + toCents(part), 0)) / 100;
+}
+
+// Document amount converted at a base-currency-per-unit rate, rounded to cents
+export function toBaseAmount(amount: number, fxRate: number): number {
+  return Math.round(amount * fxRate * 100) / 100;
+}
+
+// Account debited when money is received by the given payment method
+export function paymentMethodGlAccount(method: string): GlAccountSettingKey {
+  switch (method) {
+    case 'cash': return 'gl_account_cash';
+    case 'credit': return 'gl_account_receivable'; // sold on account
+    default: return 'gl_account_bank';
+  }
+}
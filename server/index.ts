@@ -3,6 +3,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { fxRateScheduler } from "./scheduler";
+import { reportExportWorker } from "./report-export-worker";
+import { jobRunner } from "./job-runner";
 import { quotationsPrewarmer } from "./quotations-prewarmer";
 // MEMORY LEAK FIX: Import memory leak monitor for active production monitoring
 import { memoryLeakMonitor } from "./memory-leak-monitor";
@@ -11,7 +13,7 @@ import { getReplitSecretsAsync, debugSecretSources } from "./secretLoader";
 import { initDb } from "./db";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: '10mb' })); // bank statement files and bill scans arrive as JSON
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -151,6 +153,20 @@ app.use((req, res, next) => {
       log(`Warning: Failed to start FX Rate Scheduler: ${error}`);
     }
 
+    reportExportWorker.start()
+      .then(started => {
+        if (!started) log('Report Export Worker startup skipped (already running)');
+      })
+      .catch(error => {
+        log(`Warning: Failed to start Report Export Worker: ${error}`);
+      });
+
+    try {
+      jobRunner.start();
+    } catch (error) {
+      log(`Warning: Failed to start Job Runner: ${error}`);
+    }
+
     // PERFORMANCE OPTIMIZATION: Pre-warm quotations queries to eliminate cold start delays
     quotationsPrewarmer.warmupQuotationsQueries()
       .then(() => {
@@ -0,0 +1,226 @@
+import { getStorage } from "./storage";
+import { log } from "./vite";
+import { reportExportWorker } from "./report-export-worker";
+import { outboxDispatcher } from "./outbox";
+import { runWithAuditContext } from "./audit";
+import { REPORT_FORMAT_EXTENSIONS } from "./report-engine";
+import { reportScheduleConfigSchema, type SavedReport } from "@shared/schema";
+
+interface JobDefinition {
+  name: string;
+  intervalMinutes: number;
+  handler: () => Promise<string | void>;
+}
+
+interface JobStatus {
+  name: string;
+  intervalMinutes: number;
+  isRunning: boolean;
+  lastRunAt?: Date;
+  lastRunSuccess?: boolean;
+  lastResult?: string;
+  lastError?: string;
+  totalRuns: number;
+  totalErrors: number;
+}
+
+/**
+ * General purpose background job runner. Jobs are checked every minute and
+ * run at their configured interval; a job never overlaps with itself.
+ */
+class JobRunner {
+  private jobs = new Map<string, JobDefinition>();
+  private status = new Map<string, JobStatus>();
+  private tickIntervalId: NodeJS.Timeout | null = null;
+  private enabled = process.env.JOB_RUNNER_ENABLED !== 'false';
+
+  register(job: JobDefinition): void {
+    this.jobs.set(job.name, job);
+    this.status.set(job.name, {
+      name: job.name,
+      intervalMinutes: job.intervalMinutes,
+      isRunning: false,
+      totalRuns: 0,
+      totalErrors: 0,
+    });
+  }
+
+  start(): boolean {
+    if (this.tickIntervalId) {
+      log('Job Runner is already running');
+      return false;
+    }
+
+    if (!this.enabled) {
+      log('Job Runner is disabled by configuration');
+      return false;
+    }
+
+    this.tickIntervalId = setInterval(() => this.tick(), 60 * 1000);
+
+    log(`Job Runner started with ${this.jobs.size} jobs: ${Array.from(this.jobs.keys()).join(', ')}`);
+    return true;
+  }
+
+  stop(): boolean {
+    if (!this.tickIntervalId) return false;
+    clearInterval(this.tickIntervalId);
+    this.tickIntervalId = null;
+    log('Job Runner stopped');
+    return true;
+  }
+
+  getStatus(): { isRunning: boolean; jobs: JobStatus[] } {
+    return {
+      isRunning: this.tickIntervalId !== null,
+      jobs: Array.from(this.status.values()).map(s => ({ ...s })),
+    };
+  }
+
+  /**
+   * Run a job immediately regardless of its interval
+   */
+  async runJob(name: string): Promise<JobStatus> {
+    const job = this.jobs.get(name);
+    const status = this.status.get(name);
+    if (!job || !status) {
+      throw new Error(`Unknown job: ${name}`);
+    }
+
+    if (status.isRunning) {
+      return { ...status };
+    }
+
+    status.isRunning = true;
+    try {
+      const result = await job.handler();
+      status.lastRunSuccess = true;
+      status.lastResult = result || undefined;
+      status.lastError = undefined;
+    } catch (error) {
+      status.lastRunSuccess = false;
+      status.lastError = error instanceof Error ? error.message : String(error);
+      status.totalErrors++;
+      log(`Job ${name} failed: ${status.lastError}`);
+    } finally {
+      status.isRunning = false;
+      status.lastRunAt = new Date();
+      status.totalRuns++;
+    }
+
+    return { ...status };
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    for (const job of Array.from(this.jobs.values())) {
+      const status = this.status.get(job.name)!;
+      const due = !status.lastRunAt || now - status.lastRunAt.getTime() >= job.intervalMinutes * 60 * 1000;
+      if (due && !status.isRunning) {
+        // Not awaited, so a slow job does not hold up the others. Scheduled runs have no request;
+        // attribute their writes to the job in the audit trail
+        void runWithAuditContext({ module: `job:${job.name}` }, () => this.runJob(job.name));
+      }
+    }
+  }
+}
+
+/**
+ * Run one occurrence of a scheduled saved report: export it and queue delivery to recipients
+ */
+export async function runSavedReport(savedReport: SavedReport): Promise<string> {
+  const storage = await getStorage();
+  const schedule = reportScheduleConfigSchema.parse(savedReport.scheduleConfig);
+  const runDate = new Date().toISOString().split('T')[0];
+
+  const reportExport = await storage.createReportExport({
+    reportDefinitionId: savedReport.reportDefinitionId,
+    savedReportId: savedReport.id,
+    fileName: `${savedReport.name.replace(/[^\w\-]+/g, '_')}_${runDate}.${REPORT_FORMAT_EXTENSIONS[schedule.format]}`,
+    fileFormat: schedule.format,
+    status: 'generating',
+    generatedBy: savedReport.userId,
+    parameters: savedReport.parameters as Record<string, unknown> | null,
+    expiresAt: reportExportWorker.getExpiryDate(),
+    metadata: { trigger: 'schedule', cron: schedule.cron },
+  });
+
+  const completed = await reportExportWorker.generateNow(reportExport.id);
+  const subject = schedule.subject || `${savedReport.name} - ${runDate}`;
+
+  for (const recipient of schedule.recipients) {
+    await storage.createOutboxMessage({
+      channel: 'email',
+      recipient,
+      subject: completed ? subject : `[Failed] ${subject}`,
+      body: completed
+        ? `The scheduled report "${savedReport.name}" is attached.`
+        : `The scheduled report "${savedReport.name}" could not be generated. Please contact your administrator.`,
+      attachments: completed ? [{ reportExportId: reportExport.id, fileName: reportExport.fileName }] : [],
+      relatedEntityType: 'saved_report',
+      relatedEntityId: savedReport.id,
+    });
+  }
+
+  return reportExport.id;
+}
+
+async function runDueSavedReports(): Promise<string> {
+  const storage = await getStorage();
+  const now = new Date();
+  const due = await storage.getDueSavedReports(now);
+
+  let ran = 0;
+  for (const savedReport of due) {
+    if (!savedReport.nextRunAt) continue;
+
+    // Claim this occurrence first so a restart or second instance cannot run it twice
+    const claimed = await storage.claimSavedReportRun(savedReport.id, savedReport.nextRunAt, now);
+    if (!claimed) continue;
+
+    try {
+      await runSavedReport(claimed);
+      ran++;
+    } catch (error) {
+      log(`Scheduled report ${savedReport.id} failed: ${error}`);
+    }
+  }
+
+  return `${ran}/${due.length} due reports run`;
+}
+
+export const jobRunner = new JobRunner();
+
+jobRunner.register({
+  name: 'scheduled-reports',
+  intervalMinutes: 1,
+  handler: runDueSavedReports,
+});
+
+// Reserve stock that has arrived for backordered sales order lines, oldest orders first
+jobRunner.register({
+  name: 'backorder-allocation',
+  intervalMinutes: 15,
+  handler: async () => {
+    const storage = await getStorage();
+    const reservations = await storage.allocateBackorders();
+    return `${reservations.length} backorder reservations made`;
+  },
+});
+
+// Flag invoices past due and escalate them up the dunning ladder once a day
+jobRunner.register({
+  name: 'receivables-dunning',
+  intervalMinutes: 24 * 60,
+  handler: async () => {
+    const storage = await getStorage();
+    const result = await storage.runDunning();
+    return `${result.markedOverdue} invoices marked overdue, ${result.notices.length} dunning notices`;
+  },
+});
+
+jobRunner.register({
+  name: 'outbox-dispatch',
+  intervalMinutes: 1,
+  handler: async () => `${await outboxDispatcher.dispatchPending()} messages sent via ${outboxDispatcher.getTransportName()}`,
+});
@@ -0,0 +1,94 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { getStorage } from "./storage";
+import { log } from "./vite";
+import type { OutboxMessage } from "@shared/schema";
+
+/**
+ * Delivery transport for outbox messages. The default 'file' transport writes each
+ * message as JSON under OUTBOX_DIR so deliveries can be inspected locally.
+ */
+interface OutboxTransport {
+  name: string;
+  send(message: OutboxMessage): Promise<void>;
+}
+
+const fileTransport = (outboxDir: string): OutboxTransport => ({
+  name: 'file',
+  async send(message) {
+    await fs.mkdir(outboxDir, { recursive: true });
+    const payload = {
+      id: message.id,
+      channel: message.channel,
+      to: message.recipient,
+      subject: message.subject,
+      body: message.body,
+      attachments: message.attachments ?? [],
+      deliveredAt: new Date().toISOString(),
+    };
+    await fs.writeFile(path.join(outboxDir, `${message.id}.json`), JSON.stringify(payload, null, 2));
+  },
+});
+
+const logTransport: OutboxTransport = {
+  name: 'log',
+  async send(message) {
+    log(`📧 [Outbox] ${message.channel} to ${message.recipient}: ${message.subject}`);
+  },
+};
+
+class OutboxDispatcher {
+  private transport: OutboxTransport;
+  private maxAttempts: number;
+  private dispatching = false;
+
+  constructor() {
+    const outboxDir = path.resolve(process.env.OUTBOX_DIR || 'exports/outbox');
+    this.transport = process.env.OUTBOX_TRANSPORT === 'log' ? logTransport : fileTransport(outboxDir);
+    this.maxAttempts = parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '5');
+  }
+
+  getTransportName(): string {
+    return this.transport.name;
+  }
+
+  /**
+   * Replace the delivery transport (e.g. an SMTP relay in production)
+   */
+  setTransport(transport: OutboxTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Deliver pending messages. Returns the number of messages sent.
+   */
+  async dispatchPending(limit = 50): Promise<number> {
+    if (this.dispatching) return 0;
+    this.dispatching = true;
+
+    let sent = 0;
+    try {
+      const storage = await getStorage();
+      const pending = await storage.getOutboxMessages('pending', limit);
+
+      for (const message of pending) {
+        try {
+          await this.transport.send(message);
+          await storage.markOutboxMessageSent(message.id);
+          sent++;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          await storage.markOutboxMessageFailed(message.id, errorMessage, this.maxAttempts);
+          log(`Outbox delivery to ${message.recipient} failed: ${errorMessage}`);
+        }
+      }
+    } finally {
+      this.dispatching = false;
+    }
+
+    return sent;
+  }
+}
+
+// Create and export singleton instance
+export const outboxDispatcher = new OutboxDispatcher();
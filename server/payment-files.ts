@@ -0,0 +1,184 @@
+import type { PaymentRunDetail } from "@shared/schema";
+import { getStorage } from "./storage";
+
+/**
+ * Bank transfer files for supplier payment runs: a generic CSV most banks' bulk upload
+ * accepts, and an ISO 20022 customer credit transfer initiation (pain.001.001.03).
+ * Each payment run group (supplier + currency) becomes one transfer.
+ */
+
+export type PaymentFileFormat = 'csv' | 'pain001';
+
+const PAYMENT_FILE_CONTENT_TYPES: Record<PaymentFileFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  pain001: 'application/xml; charset=utf-8',
+};
+
+interface DebtorAccount {
+  name: string;
+  taxId: string;
+  bankName: string;
+  iban: string;
+  swiftCode: string;
+}
+
+const IBAN_PATTERN = /^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/;
+
+// Remittance information is limited to 140 characters in pain.001
+const remittanceText = (billNumbers: string[]) => {
+  const text = `Invoices ${billNumbers.join(', ')}`;
+  return text.length > 140 ? `${text.slice(0, 137)}...` : text;
+};
+
+/**
+ * Transfers that cannot be sent: suppliers without a bank account, and a missing debtor
+ * account for the XML file. Returned as messages so the caller can list them all at once.
+ */
+function validatePaymentRunForExport(run: PaymentRunDetail, debtor: DebtorAccount, format: PaymentFileFormat): string[] {
+  const problems = run.groups
+    .filter(group => !group.iban)
+    .map(group => `${group.supplierName} has no bank account`);
+  if (format === 'pain001' && !debtor.iban) {
+    problems.unshift('Company bank account (company_bank_iban) is not configured');
+  }
+  return problems;
+}
+
+function buildPaymentRunCsv(run: PaymentRunDetail, debtor: DebtorAccount): Buffer {
+  const escape = (cell: string) => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  const header = ['Execution Date', 'Debtor Account', 'Beneficiary', 'Beneficiary Account', 'Beneficiary Bank', 'SWIFT/BIC', 'Currency', 'Amount', 'Reference', 'Remittance Information'];
+  const rows = run.groups.map((group, index) => [
+    run.paymentDate,
+    debtor.iban,
+    group.supplierName,
+    group.iban ?? '',
+    group.bankName ?? '',
+    group.swiftCode ?? '',
+    group.currency,
+    group.amount.toFixed(2),
+    `${run.runNumber}-${index + 1}`,
+    remittanceText(group.bills.map(bill => bill.billNumber)),
+  ]);
+
+  const lines = [header, ...rows].map(row => row.map(escape).join(','));
+  return Buffer.from('\uFEFF' + lines.join('\r\n') + '\r\n', 'utf8');
+}
+
+const xmlEscape = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// ISO 20022 text fields: Latin characters only, trimmed to the element's maximum length
+const xmlText = (value: string, maxLength: number) => xmlEscape(value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').slice(0, maxLength));
+
+const accountXml = (account: string) => {
+  const normalized = account.replace(/\s+/g, '').toUpperCase();
+  return IBAN_PATTERN.test(normalized)
+    ? `<Id><IBAN>${normalized}</IBAN></Id>`
+    : `<Id><Othr><Id>${xmlText(normalized, 34)}</Id></Othr></Id>`;
+};
+
+const agentXml = (swiftCode: string | null) => swiftCode
+  ? `<FinInstnId><BIC>${xmlText(swiftCode.toUpperCase(), 11)}</BIC></FinInstnId>`
+  : '<FinInstnId><Othr><Id>NOTPROVIDED</Id></Othr></FinInstnId>';
+
+function buildPain001Xml(run: PaymentRunDetail, debtor: DebtorAccount, createdAt = new Date()): Buffer {
+  const sum = (amounts: number[]) => (amounts.reduce((total, amount) => total + Math.round(amount * 100), 0) / 100).toFixed(2);
+
+  // One payment information block per currency, as banks book each currency separately
+  const currencies = Array.from(new Set(run.groups.map(group => group.currency))).sort();
+  const paymentInfos = currencies.map(currency => {
+    const groups = run.groups.filter(group => group.currency === currency);
+    const transactions = groups.map(group => {
+      const endToEndId = `${run.runNumber}-${run.groups.indexOf(group) + 1}`;
+      return [
+        '<CdtTrfTxInf>',
+        `<PmtId><InstrId>${xmlText(endToEndId, 35)}</InstrId><EndToEndId>${xmlText(endToEndId, 35)}</EndToEndId></PmtId>`,
+        `<Amt><InstdAmt Ccy="${currency}">${group.amount.toFixed(2)}</InstdAmt></Amt>`,
+        `<CdtrAgt>${agentXml(group.swiftCode)}</CdtrAgt>`,
+        `<Cdtr><Nm>${xmlText(group.supplierName, 70)}</Nm></Cdtr>`,
+        `<CdtrAcct>${accountXml(group.iban ?? '')}</CdtrAcct>`,
+        `<RmtInf><Ustrd>${xmlText(remittanceText(group.bills.map(bill => bill.billNumber)), 140)}</Ustrd></RmtInf>`,
+        '</CdtTrfTxInf>',
+      ].join('');
+    });
+
+    return [
+      '<PmtInf>',
+      `<PmtInfId>${xmlText(`${run.runNumber}-${currency}`, 35)}</PmtInfId>`,
+      '<PmtMtd>TRF</PmtMtd>',
+      '<BtchBookg>false</BtchBookg>',
+      `<NbOfTxs>${groups.length}</NbOfTxs>`,
+      `<CtrlSum>${sum(groups.map(group => group.amount))}</CtrlSum>`,
+      '<PmtTpInf><InstrPrty>NORM</InstrPrty></PmtTpInf>',
+      `<ReqdExctnDt>${run.paymentDate}</ReqdExctnDt>`,
+      `<Dbtr><Nm>${xmlText(debtor.name, 70)}</Nm></Dbtr>`,
+      `<DbtrAcct>${accountXml(debtor.iban)}</DbtrAcct>`,
+      `<DbtrAgt>${agentXml(debtor.swiftCode || null)}</DbtrAgt>`,
+      '<ChrgBr>SHAR</ChrgBr>',
+      ...transactions,
+      '</PmtInf>',
+    ].join('');
+  });
+
+  const initiatingParty = debtor.taxId
+    ? `<InitgPty><Nm>${xmlText(debtor.name, 70)}</Nm><Id><OrgId><Othr><Id>${xmlText(debtor.taxId, 35)}</Id><SchmeNm><Cd>TXID</Cd></SchmeNm></Othr></OrgId></Id></InitgPty>`
+    : `<InitgPty><Nm>${xmlText(debtor.name, 70)}</Nm></InitgPty>`;
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    '<CstmrCdtTrfInitn>',
+    '<GrpHdr>',
+    `<MsgId>${xmlText(`${run.runNumber}-${createdAt.getTime()}`, 35)}</MsgId>`,
+    `<CreDtTm>${createdAt.toISOString().split('.')[0]}</CreDtTm>`,
+    `<NbOfTxs>${run.groups.length}</NbOfTxs>`,
+    `<CtrlSum>${sum(run.groups.map(group => group.amount))}</CtrlSum>`,
+    initiatingParty,
+    '</GrpHdr>',
+    ...paymentInfos,
+    '</CstmrCdtTrfInitn>',
+    '</Document>',
+  ].join('\n');
+
+  return Buffer.from(xml, 'utf8');
+}
+
+/**
+ * Render the bank file for an approved payment run and mark the run exported. Runs
+ * can be exported again (e.g. in the other format) until they are completed.
+ */
+export async function renderPaymentRunFile(runId: string, format: PaymentFileFormat): Promise<{ fileName: string; contentType: string; content: Buffer }> {
+  const storage = await getStorage();
+  const run = await storage.getPaymentRun(runId);
+  if (!run) {
+    throw new Error('Payment run not found');
+  }
+  if (run.status !== 'approved' && run.status !== 'exported') {
+    throw new Error('Only approved payment runs can be exported');
+  }
+
+  const debtor: DebtorAccount = {
+    name: await storage.getSettingValue('company_name'),
+    taxId: await storage.getSettingValue('company_tax_id'),
+    bankName: await storage.getSettingValue('company_bank_name'),
+    iban: await storage.getSettingValue('company_bank_iban'),
+    swiftCode: await storage.getSettingValue('company_bank_swift'),
+  };
+  const problems = validatePaymentRunForExport(run, debtor, format);
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+
+  const content = format === 'pain001' ? buildPain001Xml(run, debtor) : buildPaymentRunCsv(run, debtor);
+  await storage.markPaymentRunExported(runId);
+
+  return {
+    fileName: `${run.runNumber}.${format === 'pain001' ? 'xml' : 'csv'}`,
+    contentType: PAYMENT_FILE_CONTENT_TYPES[format],
+    content,
+  };
+}
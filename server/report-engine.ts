@@ -0,0 +1,402 @@
+import ExcelJS from "exceljs";
+import { jsPDF } from "jspdf";
+import { getStorage } from "./storage";
+
+export type ReportFormat = 'csv' | 'excel' | 'pdf';
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+}
+
+export interface ReportResult {
+  title: string;
+  columns: ReportColumn[];
+  rows: Record<string, unknown>[];
+}
+
+/**
+ * Shape of reportDefinitions.queryDefinition understood by the engine.
+ * Only whitelisted data sources can be queried - definitions never carry raw SQL.
+ */
+export interface ReportQueryDefinition {
+  dataSource: string;
+  columns?: string[]; // optional subset / ordering of the data source columns
+  limit?: number;
+}
+
+type ReportParameters = Record<string, any>;
+
+interface ReportDataSource {
+  columns: ReportColumn[];
+  fetch(params: ReportParameters, limit: number): Promise<Record<string, unknown>[]>;
+}
+
+const DEFAULT_ROW_LIMIT = 5000;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const daysBetween = (from: string, to: string) =>
+  Math.floor((new Date(to).getTime() - new Date(from).getTime()) / (24 * 60 * 60 * 1000));
+
+const reportDataSources: Record<string, ReportDataSource> = {
+  sales_orders: {
+    columns: [
+      { key: 'orderNumber', label: 'Order #' },
+      { key: 'orderDate', label: 'Order Date' },
+      { key: 'customer', label: 'Customer' },
+      { key: 'status', label: 'Status' },
+      { key: 'subtotal', label: 'Subtotal' },
+      { key: 'taxAmount', label: 'Tax' },
+      { key: 'totalAmount', label: 'Total' },
+    ],
+    async fetch(params, limit) {
+      const storage = await getStorage();
+      const orders = await storage.getSalesOrders(limit);
+      return orders
+        .filter(o => !params.status || o.status === params.status)
+        .filter(o => !params.fromDate || o.orderDate >= params.fromDate)
+        .filter(o => !params.toDate || o.orderDate <= params.toDate)
+        .map(o => ({
+          orderNumber: o.orderNumber,
+          orderDate: o.orderDate,
+          customer: o.customer?.name,
+          status: o.status,
+          subtotal: Number(o.subtotal || 0),
+          taxAmount: Number(o.taxAmount || 0),
+          totalAmount: Number(o.totalAmount || 0),
+        }));
+    },
+  },
+
+  invoices: {
+    columns: [
+      { key: 'invoiceNumber', label: 'Invoice #' },
+      { key: 'customer', label: 'Customer' },
+      { key: 'invoiceDate', label: 'Invoice Date' },
+      { key: 'dueDate', label: 'Due Date' },
+      { key: 'status', label: 'Status' },
+      { key: 'totalAmount', label: 'Total' },
+      { key: 'paidAmount', label: 'Paid' },
+      { key: 'balance', label: 'Balance' },
+    ],
+    async fetch(params, limit) {
+      const storage = await getStorage();
+      const invoiceList = await storage.getInvoices(limit);
+      return invoiceList
+        .filter(i => !params.status || i.status === params.status)
+        .map(i => ({
+          invoiceNumber: i.invoiceNumber,
+          customer: i.customer?.name,
+          invoiceDate: i.invoiceDate,
+          dueDate: i.dueDate,
+          status: i.status,
+          totalAmount: Number(i.totalAmount || 0),
+          paidAmount: Number(i.paidAmount || 0),
+          balance: Number(i.totalAmount || 0) - Number(i.paidAmount || 0),
+        }));
+    },
+  },
+
+  aged_receivables: {
+    columns: [
+      { key: 'customer', label: 'Customer' },
+      { key: 'invoiceNumber', label: 'Invoice #' },
+      { key: 'dueDate', label: 'Due Date' },
+      { key: 'daysOverdue', label: 'Days Overdue' },
+      { key: 'current', label: 'Current' },
+      { key: 'days1to30', label: '1-30' },
+      { key: 'days31to60', label: '31-60' },
+      { key: 'days61to90', label: '61-90' },
+      { key: 'over90', label: '90+' },
+      { key: 'balance', label: 'Balance' },
+    ],
+    async fetch(params, limit) {
+      const storage = await getStorage();
+      const asOfDate: string = params.asOfDate || today();
+      const invoiceList = await storage.getInvoices(limit);
+
+      return invoiceList
+        .filter(i => i.status !== 'cancelled' && i.status !== 'draft')
+        .map(i => ({ invoice: i, balance: Number(i.totalAmount || 0) - Number(i.paidAmount || 0) }))
+        .filter(({ balance }) => balance > 0.005)
+        .map(({ invoice, balance }) => {
+          const daysOverdue = Math.max(0, daysBetween(invoice.dueDate, asOfDate));
+          return {
+            customer: invoice.customer?.name,
+            invoiceNumber: invoice.invoiceNumber,
+            dueDate: invoice.dueDate,
+            daysOverdue,
+            current: daysOverdue === 0 ? balance : 0,
+            days1to30: daysOverdue >= 1 && daysOverdue <= 30 ? balance : 0,
+            days31to60: daysOverdue >= 31 && daysOverdue <= 60 ? balance : 0,
+            days61to90: daysOverdue >= 61 && daysOverdue <= 90 ? balance : 0,
+            over90: daysOverdue > 90 ? balance : 0,
+            balance,
+          };
+        })
+        .sort((a, b) => String(a.customer).localeCompare(String(b.customer)) || b.daysOverdue - a.daysOverdue);
+    },
+  },
+
+  inventory: {
+    columns: [
+      { key: 'sku', label: 'SKU' },
+      { key: 'product', label: 'Product' },
+      { key: 'batchNumber', label: 'Batch' },
+      { key: 'quantity', label: 'Quantity' },
+      { key: 'expiryDate', label: 'Expiry Date' },
+      { key: 'costPerUnit', label: 'Unit Cost' },
+      { key: 'stockValue', label: 'Stock Value' },
+      { key: 'quarantined', label: 'Quarantined' },
+    ],
+    async fetch(params, limit) {
+      const storage = await getStorage();
+      const stock = await storage.getInventory(params.warehouseId);
+      return stock.slice(0, limit).map(inv => ({
+        sku: inv.product?.sku,
+        product: inv.product?.name,
+        batchNumber: inv.batchNumber,
+        quantity: inv.quantity,
+        expiryDate: inv.expiryDate,
+        costPerUnit: Number(inv.costPerUnit || 0),
+        stockValue: inv.quantity * Number(inv.costPerUnit || 0),
+        quarantined: inv.isQuarantined ? 'Yes' : 'No',
+      }));
+    },
+  },
+
+  expiring_products: {
+    columns: [
+      { key: 'product', label: 'Product' },
+      { key: 'warehouse', label: 'Warehouse' },
+      { key: 'batchNumber', label: 'Batch' },
+      { key: 'quantity', label: 'Quantity' },
+      { key: 'expiryDate', label: 'Expiry Date' },
+      { key: 'daysToExpiry', label: 'Days to Expiry' },
+    ],
+    async fetch(params, limit) {
+      const storage = await getStorage();
+      const batches = await storage.getExpiringProducts(Number(params.daysAhead) || Number(await storage.getSettingValue('expiry_warning_days')) || 90);
+      return batches.slice(0, limit).map(b => ({
+        product: b.product?.name,
+        warehouse: b.warehouse?.name,
+        batchNumber: b.batchNumber,
+        quantity: b.quantity,
+        expiryDate: b.expiryDate,
+        daysToExpiry: b.expiryDate ? daysBetween(today(), b.expiryDate) : null,
+      }));
+    },
+  },
+
+  stock_movements: {
+    columns: [
+      { key: 'createdAt', label: 'Date' },
+      { key: 'product', label: 'Product' },
+      { key: 'warehouse', label: 'Warehouse' },
+      { key: 'movementType', label: 'Type' },
+      { key: 'quantity', label: 'Quantity' },
+      { key: 'reference', label: 'Reference' },
+    ],
+    async fetch(params, limit) {
+      const storage = await getStorage();
+      const movements = await storage.getStockMovements(limit);
+      return movements
+        .filter(m => !params.movementType || m.movementType === params.movementType)
+        .map(m => ({
+          createdAt: m.createdAt,
+          product: m.product?.name,
+          warehouse: m.warehouse?.name,
+          movementType: m.movementType,
+          quantity: m.quantity,
+          reference: m.reference,
+        }));
+    },
+  },
+
+  purchase_orders: {
+    columns: [
+      { key: 'orderNumber', label: 'PO #' },
+      { key: 'supplier', label: 'Supplier' },
+      { key: 'orderDate', label: 'Order Date' },
+      { key: 'status', label: 'Status' },
+      { key: 'currency', label: 'Currency' },
+      { key: 'totalAmount', label: 'Total' },
+    ],
+    async fetch(params, limit) {
+      const storage = await getStorage();
+      const orders = await storage.getPurchaseOrders(limit);
+      return orders
+        .filter(o => !params.status || o.status === params.status)
+        .map(o => ({
+          orderNumber: o.orderNumber,
+          supplier: o.supplier?.name,
+          orderDate: o.orderDate,
+          status: o.status,
+          currency: o.currency,
+          totalAmount: Number(o.totalAmount || 0),
+        }));
+    },
+  },
+
+  customers: {
+    columns: [
+      { key: 'name', label: 'Customer' },
+      { key: 'taxId', label: 'NIF' },
+      { key: 'email', label: 'Email' },
+      { key: 'phone', label: 'Phone' },
+      { key: 'creditLimit', label: 'Credit Limit' },
+      { key: 'paymentTerms', label: 'Payment Terms (days)' },
+    ],
+    async fetch(_params, limit) {
+      const storage = await getStorage();
+      const customerList = await storage.getCustomers(limit);
+      return customerList.map(c => ({
+        name: c.name,
+        taxId: c.taxId,
+        email: c.email,
+        phone: c.phone,
+        creditLimit: Number(c.creditLimit || 0),
+        paymentTerms: c.paymentTerms,
+      }));
+    },
+  },
+};
+
+export function getReportDataSources(): string[] {
+  return Object.keys(reportDataSources);
+}
+
+/**
+ * Run a report definition's query with the given parameter values
+ */
+export async function runReportQuery(title: string, queryDefinition: unknown, parameters?: unknown): Promise<ReportResult> {
+  const query = (queryDefinition || {}) as ReportQueryDefinition;
+  const source = reportDataSources[query.dataSource];
+  if (!source) {
+    throw new Error(`Unknown report data source: ${query.dataSource}. Available: ${getReportDataSources().join(', ')}`);
+  }
+
+  const params = (parameters || {}) as ReportParameters;
+  const limit = Math.min(Number(params.limit || query.limit) || DEFAULT_ROW_LIMIT, DEFAULT_ROW_LIMIT);
+  const rows = await source.fetch(params, limit);
+
+  const columns = query.columns?.length
+    ? query.columns
+        .map(key => source.columns.find(c => c.key === key))
+        .filter((c): c is ReportColumn => Boolean(c))
+    : source.columns;
+
+  return { title, columns, rows };
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  return String(value);
+}
+
+function renderCsv(report: ReportResult): Buffer {
+  const escape = (cell: string) => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  const lines = [
+    report.columns.map(c => escape(c.label)).join(','),
+    ...report.rows.map(row => report.columns.map(c => escape(formatCell(row[c.key]))).join(',')),
+  ];
+  // BOM so Excel opens accented Portuguese text correctly
+  return Buffer.from('\uFEFF' + lines.join('\r\n') + '\r\n', 'utf8');
+}
+
+async function renderExcel(report: ReportResult): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const sheet = workbook.addWorksheet(report.title.slice(0, 31) || 'Report');
+
+  sheet.columns = report.columns.map(c => ({ header: c.label, key: c.key, width: Math.max(12, c.label.length + 2) }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  for (const row of report.rows) {
+    sheet.addRow(report.columns.reduce<Record<string, unknown>>((acc, c) => {
+      const value = row[c.key];
+      acc[c.key] = value === null || value === undefined ? '' : value;
+      return acc;
+    }, {}));
+  }
+
+  const arrayBuffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(arrayBuffer as ArrayBuffer);
+}
+
+function renderPdf(report: ReportResult): Buffer {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 36;
+  const rowHeight = 16;
+  const columnWidth = (pageWidth - margin * 2) / Math.max(report.columns.length, 1);
+
+  const fitText = (text: string) => {
+    let fitted = text;
+    while (fitted.length > 1 && doc.getTextWidth(fitted) > columnWidth - 6) {
+      fitted = fitted.slice(0, -2) + '…';
+    }
+    return fitted;
+  };
+
+  const drawHeader = (y: number) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(8);
+    report.columns.forEach((c, i) => doc.text(fitText(c.label), margin + i * columnWidth, y));
+    doc.line(margin, y + 4, pageWidth - margin, y + 4);
+    doc.setFont('helvetica', 'normal');
+    return y + rowHeight;
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(report.title, margin, margin);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.text(`Generated ${new Date().toISOString()} - ${report.rows.length} rows`, margin, margin + 14);
+
+  let y = drawHeader(margin + 36);
+  for (const row of report.rows) {
+    if (y > pageHeight - margin) {
+      doc.addPage();
+      y = drawHeader(margin);
+    }
+    report.columns.forEach((c, i) => doc.text(fitText(formatCell(row[c.key])), margin + i * columnWidth, y));
+    y += rowHeight;
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+export const REPORT_FORMAT_EXTENSIONS: Record<ReportFormat, string> = {
+  csv: 'csv',
+  excel: 'xlsx',
+  pdf: 'pdf',
+};
+
+export const REPORT_FORMAT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  excel: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+/**
+ * Render a report result into the requested file format
+ */
+export async function renderReport(report: ReportResult, format: ReportFormat): Promise<Buffer> {
+  switch (format) {
+    case 'csv':
+      return renderCsv(report);
+    case 'excel':
+      return await renderExcel(report);
+    case 'pdf':
+      return renderPdf(report);
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
@@ -0,0 +1,236 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { getStorage } from "./storage";
+import { log } from "./vite";
+import {
+  runReportQuery,
+  renderReport,
+  REPORT_FORMAT_EXTENSIONS,
+  type ReportFormat,
+} from "./report-engine";
+
+interface ReportExportWorkerConfig {
+  exportDir: string;
+  retentionHours: number;
+  cleanupIntervalMinutes: number;
+}
+
+interface ReportExportWorkerStatus {
+  isRunning: boolean;
+  queueLength: number;
+  totalCompleted: number;
+  totalFailed: number;
+  totalExpired: number;
+  lastCleanupAt?: Date;
+  config: ReportExportWorkerConfig;
+}
+
+/**
+ * Background worker that renders queued report exports to local storage.
+ * Exports are processed one at a time so large reports cannot starve the API.
+ */
+class ReportExportWorker {
+  private queue: string[] = [];
+  private processing = false;
+  private cleanupIntervalId: NodeJS.Timeout | null = null;
+  private config: ReportExportWorkerConfig;
+  private status: ReportExportWorkerStatus;
+
+  constructor() {
+    this.config = {
+      exportDir: path.resolve(process.env.REPORT_EXPORT_DIR || 'exports/reports'),
+      retentionHours: parseFloat(process.env.REPORT_EXPORT_RETENTION_HOURS || '72'),
+      cleanupIntervalMinutes: parseFloat(process.env.REPORT_EXPORT_CLEANUP_MINUTES || '60'),
+    };
+
+    this.status = {
+      isRunning: false,
+      queueLength: 0,
+      totalCompleted: 0,
+      totalFailed: 0,
+      totalExpired: 0,
+      config: this.config,
+    };
+  }
+
+  /**
+   * Start the worker: resume exports left in 'generating' and schedule expiry cleanup
+   */
+  async start(): Promise<boolean> {
+    if (this.status.isRunning) {
+      log('Report Export Worker is already running');
+      return false;
+    }
+
+    await fs.mkdir(this.config.exportDir, { recursive: true });
+    this.status.isRunning = true;
+
+    this.cleanupIntervalId = setInterval(async () => {
+      await this.cleanupExpiredExports();
+    }, this.config.cleanupIntervalMinutes * 60 * 1000);
+
+    try {
+      const storage = await getStorage();
+      const pending = await storage.getReportExports(undefined, 'generating', 100);
+      pending.forEach(e => this.enqueue(e.id));
+      log(`Report Export Worker started - ${pending.length} pending exports resumed, retention ${this.config.retentionHours}h`);
+    } catch (error) {
+      log(`Report Export Worker started without resuming pending exports: ${error}`);
+    }
+
+    await this.cleanupExpiredExports();
+    return true;
+  }
+
+  stop(): boolean {
+    if (!this.status.isRunning) return false;
+
+    if (this.cleanupIntervalId) {
+      clearInterval(this.cleanupIntervalId);
+      this.cleanupIntervalId = null;
+    }
+
+    this.status.isRunning = false;
+    log('Report Export Worker stopped');
+    return true;
+  }
+
+  getStatus(): ReportExportWorkerStatus {
+    return { ...this.status, queueLength: this.queue.length };
+  }
+
+  /**
+   * Expiry timestamp for a new export, based on the configured retention
+   */
+  getExpiryDate(from = new Date()): Date {
+    return new Date(from.getTime() + this.config.retentionHours * 60 * 60 * 1000);
+  }
+
+  /**
+   * Absolute path of a stored export file. Only bare file names are accepted.
+   */
+  resolveFilePath(filePath: string): string {
+    return path.join(this.config.exportDir, path.basename(filePath));
+  }
+
+  /**
+   * Queue an export for generation
+   */
+  enqueue(exportId: string): void {
+    if (!this.queue.includes(exportId)) {
+      this.queue.push(exportId);
+    }
+    void this.drainQueue();
+  }
+
+  /**
+   * Render an export immediately, bypassing the queue. Used by the scheduled report runner.
+   */
+  async generateNow(exportId: string): Promise<boolean> {
+    return await this.processExport(exportId);
+  }
+
+  private async drainQueue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      while (this.queue.length > 0) {
+        const exportId = this.queue.shift()!;
+        await this.processExport(exportId);
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async processExport(exportId: string): Promise<boolean> {
+    const storage = await getStorage();
+    const startTime = Date.now();
+
+    try {
+      const reportExport = await storage.getReportExport(exportId);
+      if (!reportExport) {
+        throw new Error('Report export not found');
+      }
+      if (reportExport.status !== 'generating') {
+        return reportExport.status === 'completed';
+      }
+      if (!reportExport.reportDefinitionId) {
+        throw new Error('Report export has no report definition');
+      }
+
+      const definition = await storage.getReportDefinition(reportExport.reportDefinitionId);
+      if (!definition) {
+        throw new Error(`Report definition ${reportExport.reportDefinitionId} not found`);
+      }
+
+      const format = reportExport.fileFormat as ReportFormat;
+      if (!REPORT_FORMAT_EXTENSIONS[format]) {
+        throw new Error(`Unsupported export format: ${reportExport.fileFormat}`);
+      }
+
+      // Saved parameter values override the definition defaults
+      const parameters = {
+        ...((definition.parameters as Record<string, unknown>) || {}),
+        ...((reportExport.parameters as Record<string, unknown>) || {}),
+      };
+
+      const report = await runReportQuery(definition.name, definition.queryDefinition, parameters);
+      const content = await renderReport(report, format);
+
+      const fileName = `${reportExport.id}.${REPORT_FORMAT_EXTENSIONS[format]}`;
+      await fs.mkdir(this.config.exportDir, { recursive: true });
+      await fs.writeFile(this.resolveFilePath(fileName), content);
+
+      await storage.markReportExportComplete(exportId, fileName, content.length);
+      this.status.totalCompleted++;
+      log(`Report export ${exportId} completed in ${Date.now() - startTime}ms - ${report.rows.length} rows, ${content.length} bytes`);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.status.totalFailed++;
+      log(`Report export ${exportId} failed: ${message}`);
+
+      try {
+        await storage.markReportExportFailed(exportId, message);
+      } catch (markError) {
+        log(`Could not mark report export ${exportId} as failed: ${markError}`);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Delete files of exports past their expiresAt and flag the rows as expired
+   */
+  async cleanupExpiredExports(): Promise<number> {
+    let expiredCount = 0;
+
+    try {
+      const storage = await getStorage();
+      const expired = await storage.getExpiredReportExports(new Date());
+
+      for (const reportExport of expired) {
+        if (reportExport.filePath) {
+          await fs.rm(this.resolveFilePath(reportExport.filePath), { force: true });
+        }
+        await storage.markReportExportExpired(reportExport.id);
+        expiredCount++;
+      }
+
+      this.status.totalExpired += expiredCount;
+      this.status.lastCleanupAt = new Date();
+      if (expiredCount > 0) {
+        log(`Report export cleanup removed ${expiredCount} expired exports`);
+      }
+    } catch (error) {
+      log(`Report export cleanup failed: ${error}`);
+    }
+
+    return expiredCount;
+  }
+}
+
+// Create and export singleton instance
+export const reportExportWorker = new ReportExportWorker();
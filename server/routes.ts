@@ -3,8 +3,18 @@ import { createServer, type Server } from "http";
 import { storagePromise, getStorage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { aiService, isOpenAIConfigured } from "./ai";
+import { aiProviders } from "./ai-providers";
+import { presentSetting, getDefaultSettingRows } from "./settings";
 import { externalIntegrationsService } from "./external-integrations";
 import { fxRateScheduler } from "./scheduler";
+import { reportExportWorker } from "./report-export-worker";
+import { jobRunner, runSavedReport } from "./job-runner";
+import { auditContextMiddleware } from "./audit";
+import { REPORT_FORMAT_CONTENT_TYPES, REPORT_FORMAT_EXTENSIONS, type ReportFormat } from "./report-engine";
+import { renderDeliveryNotePdf } from "./delivery-note";
+import { renderPaymentRunFile } from "./payment-files";
+import { renderSaftFile } from "./saft";
+import fs from "fs";
 import compression from "compression";
 import { 
   insertCustomerSchema,
@@ -66,6 +76,38 @@ import {
   openSessionRequestSchema,
   closeSessionRequestSchema,
   createPosSaleRequestSchema,
+  createTransferOrderRequestSchema,
+  createShipmentRequestSchema,
+  receiveTransferOrderRequestSchema,
+  createStockCountRequestSchema,
+  recordStockCountRequestSchema,
+  reviewStockCountLineRequestSchema,
+  recordRecallReturnRequestSchema,
+  reportScheduleConfigSchema,
+  upsertSystemSettingRequestSchema,
+  insertDocumentSequenceSchema,
+  insertGlAccountSchema,
+  createJournalEntryRequestSchema,
+  insertDunningLevelSchema,
+  createSupplierPaymentRequestSchema,
+  createPaymentRunRequestSchema,
+  createLandedCostRequestSchema,
+  insertBankAccountSchema,
+  importBankStatementRequestSchema,
+  matchBankStatementLineRequestSchema,
+  createReceiptFromBankLineRequestSchema,
+  allocateReceiptRequestSchema,
+  runFxRevaluationRequestSchema,
+  reverseReceiptAllocationRequestSchema,
+  closeBankReconciliationRequestSchema,
+  insertTaxCodeSchema,
+  setCategoryTaxCodeRequestSchema,
+  vatReturnQuerySchema,
+  saftExportQuerySchema,
+  closeAccountingPeriodRequestSchema,
+  reopenAccountingPeriodRequestSchema,
+  monthEndChecklistQuerySchema,
+  stockValuationQuerySchema,
 } from "@shared/schema";
 import { z } from "zod";
 import type { RequestHandler } from "express";
@@ -74,6 +116,7 @@ import {
   invalidateDashboardMetricsCache, 
   getCachedRecentTransactions,
   getCachedExpiringProducts,
+  invalidateExpiringProductsCache,
   cacheMiddleware,
   cache 
 } from "./cache";
@@ -98,6 +141,14 @@ function clearUserCache() {
   userCache.clear();
 }
 
+// Drop cached dashboard data computed from a setting when that setting changes
+async function invalidateSettingDependentCaches(key: string) {
+  if (key === 'expiry_warning_days') {
+    await invalidateExpiringProductsCache();
+    await invalidateDashboardMetricsCache();
+  }
+}
+
 // Optimized cache cleanup - runs at intervals instead of every request
 function performScheduledCacheCleanup() {
   const now = Date.now();
@@ -338,6 +389,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
+  // Attribute audited database writes to the signed-in user and client
+  app.use(auditContextMiddleware);
+
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
@@ -406,7 +460,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/dashboard/expiring-products", isAuthenticated, cacheMiddleware(), async (req, res) => {
     try {
       const startTime = Date.now();
-      const daysAhead = parseInt(req.query.days as string) || 90;
+      const daysAhead = parseInt(req.query.days as string) || parseInt(await storage.getSettingValue('expiry_warning_days')) || 90;
       const expiringProducts = await getCachedExpiringProducts(storage, daysAhead);
       const responseTime = Date.now() - startTime;
       
@@ -776,6 +830,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Available to promise: sellable stock minus reservations for confirmed orders
+  app.get("/api/inventory/available-to-promise", isAuthenticated, async (req, res) => {
+    try {
+      const productIds = typeof req.query.productIds === 'string' && req.query.productIds
+        ? req.query.productIds.split(',')
+        : undefined;
+      const warehouseId = req.query.warehouseId as string | undefined;
+      const availability = await storage.getAvailableToPromise(productIds, warehouseId);
+      res.json(availability);
+    } catch (error) {
+      console.error("Error fetching available-to-promise:", error);
+      res.status(500).json({ message: "Failed to fetch available-to-promise" });
+    }
+  });
+
   app.post("/api/inventory", isAuthenticated, async (req, res) => {
     try {
       const inventoryData = insertInventorySchema.parse(req.body);
@@ -1211,9 +1280,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       await storage.deleteGoodsReceipt(req.params.id);
       res.status(204).send();
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error deleting goods receipt:", error);
-      res.status(500).json({ message: "Failed to delete goods receipt" });
+      res.status(400).json({ message: "Failed to delete goods receipt", error: error.message });
     }
   });
 
@@ -1272,9 +1341,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const bill = await storage.postVendorBill(req.params.id);
       res.json(bill);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error posting vendor bill:", error);
-      res.status(500).json({ message: "Failed to post vendor bill" });
+      res.status(400).json({ message: "Failed to post vendor bill", error: error.message });
     }
   });
 
@@ -1293,9 +1362,210 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       await storage.deleteVendorBill(req.params.id);
       res.status(204).send();
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error deleting vendor bill:", error);
-      res.status(500).json({ message: "Failed to delete vendor bill" });
+      res.status(400).json({ message: "Failed to delete vendor bill", error: error.message });
+    }
+  });
+
+  // Landed costs: import charges added to the cost of the goods received; allocating
+  // revalues the batches and posts the journal, so it is for finance
+  app.get("/api/purchases/landed-costs", isAuthenticated, requirePurchaseAccess, async (req, res) => {
+    try {
+      const landedCosts = await storage.getLandedCosts();
+      res.json(landedCosts);
+    } catch (error) {
+      console.error("Error fetching landed costs:", error);
+      res.status(500).json({ message: "Failed to fetch landed costs" });
+    }
+  });
+
+  app.get("/api/purchases/landed-costs/:id", isAuthenticated, requirePurchaseAccess, async (req, res) => {
+    try {
+      const landedCost = await storage.getLandedCost(req.params.id);
+      if (!landedCost) {
+        return res.status(404).json({ message: "Landed cost not found" });
+      }
+      res.json(landedCost);
+    } catch (error) {
+      console.error("Error fetching landed cost:", error);
+      res.status(500).json({ message: "Failed to fetch landed cost" });
+    }
+  });
+
+  app.post("/api/purchases/landed-costs", isAuthenticated, requirePurchaseAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const landedCostData = createLandedCostRequestSchema.parse(req.body);
+      const landedCost = await storage.createLandedCost(landedCostData, userId);
+      res.status(201).json(landedCost);
+    } catch (error: any) {
+      console.error("Error creating landed cost:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid landed cost", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to create landed cost", error: error.message });
+      }
+    }
+  });
+
+  app.post("/api/purchases/landed-costs/:id/allocate", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const landedCost = await storage.allocateLandedCost(req.params.id, userId);
+      res.json(landedCost);
+    } catch (error: any) {
+      console.error("Error allocating landed cost:", error);
+      res.status(400).json({ message: "Failed to allocate landed cost", error: error.message });
+    }
+  });
+
+  app.post("/api/purchases/landed-costs/:id/cancel", isAuthenticated, requirePurchaseAccess, async (req, res) => {
+    try {
+      const landedCost = await storage.cancelLandedCost(req.params.id);
+      res.json(landedCost);
+    } catch (error: any) {
+      console.error("Error cancelling landed cost:", error);
+      res.status(400).json({ message: "Failed to cancel landed cost", error: error.message });
+    }
+  });
+
+  // Supplier payments: allocations settle posted bills, fully or in part
+  app.get("/api/purchases/payments", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const payments = await storage.getSupplierPayments({
+        supplierId: req.query.supplierId as string | undefined,
+        paymentRunId: req.query.paymentRunId as string | undefined,
+        limit: parseInt(req.query.limit as string) || 100,
+      });
+      res.json(payments);
+    } catch (error) {
+      console.error("Error fetching supplier payments:", error);
+      res.status(500).json({ message: "Failed to fetch supplier payments" });
+    }
+  });
+
+  app.post("/api/purchases/payments", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const paymentData = createSupplierPaymentRequestSchema.parse(req.body);
+      const payment = await storage.createSupplierPayment(paymentData, userId);
+      res.status(201).json(payment);
+    } catch (error: any) {
+      console.error("Error recording supplier payment:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid supplier payment", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to record supplier payment", error: error.message });
+      }
+    }
+  });
+
+  app.post("/api/purchases/payments/:id/void", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const payment = await storage.voidSupplierPayment(req.params.id, userId);
+      res.json(payment);
+    } catch (error: any) {
+      console.error("Error voiding supplier payment:", error);
+      res.status(400).json({ message: "Failed to void supplier payment", error: error.message });
+    }
+  });
+
+  // Payment runs: propose bills due by a date, approve, export the bank file, complete
+  app.get("/api/purchases/payment-runs", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      const runs = await storage.getPaymentRuns(limit);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching payment runs:", error);
+      res.status(500).json({ message: "Failed to fetch payment runs" });
+    }
+  });
+
+  app.get("/api/purchases/payment-runs/:id", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const run = await storage.getPaymentRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "Payment run not found" });
+      }
+      res.json(run);
+    } catch (error) {
+      console.error("Error fetching payment run:", error);
+      res.status(500).json({ message: "Failed to fetch payment run" });
+    }
+  });
+
+  app.post("/api/purchases/payment-runs", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const runData = createPaymentRunRequestSchema.parse(req.body);
+      const run = await storage.createPaymentRun(runData, userId);
+      res.status(201).json(run);
+    } catch (error: any) {
+      console.error("Error proposing payment run:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid payment run", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to propose payment run", error: error.message });
+      }
+    }
+  });
+
+  app.delete("/api/purchases/payment-runs/:id/lines/:lineId", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const run = await storage.removePaymentRunLine(req.params.id, req.params.lineId);
+      res.json(run);
+    } catch (error: any) {
+      console.error("Error removing payment run line:", error);
+      res.status(400).json({ message: "Failed to remove bill from payment run", error: error.message });
+    }
+  });
+
+  app.post("/api/purchases/payment-runs/:id/approve", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const run = await storage.approvePaymentRun(req.params.id, userId);
+      res.json(run);
+    } catch (error: any) {
+      console.error("Error approving payment run:", error);
+      res.status(400).json({ message: "Failed to approve payment run", error: error.message });
+    }
+  });
+
+  app.get("/api/purchases/payment-runs/:id/export", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const format = req.query.format === 'pain001' ? 'pain001' : 'csv';
+      const { fileName, contentType, content } = await renderPaymentRunFile(req.params.id, format);
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(content);
+    } catch (error: any) {
+      console.error("Error exporting payment run:", error);
+      res.status(error.message === 'Payment run not found' ? 404 : 400).json({ message: "Failed to export payment run", error: error.message });
+    }
+  });
+
+  app.post("/api/purchases/payment-runs/:id/complete", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const result = await storage.completePaymentRun(req.params.id, userId);
+      await invalidateDashboardMetricsCache();
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error completing payment run:", error);
+      res.status(400).json({ message: "Failed to complete payment run", error: error.message });
+    }
+  });
+
+  app.post("/api/purchases/payment-runs/:id/cancel", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const run = await storage.cancelPaymentRun(req.params.id);
+      res.json(run);
+    } catch (error: any) {
+      console.error("Error cancelling payment run:", error);
+      res.status(400).json({ message: "Failed to cancel payment run", error: error.message });
     }
   });
 
@@ -1639,32 +1909,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI routes
+
+  // Answer a user message in a chat session. Tools run with the caller's role and every
+  // invocation is stored in the assistant message metadata for auditing.
+  const answerInChatSession = async (sessionId: string, query: string, userId: string) => {
+    const user = await getCachedUser(userId);
+    if (!user || !user.isActive) {
+      throw new Error("User not found or inactive");
+    }
+
+    const previousMessages = await storage.getAiChatMessages(sessionId, 100);
+    const history = previousMessages
+      .filter(m => m.role === 'user' || m.role === 'assistant')
+      .slice(-10)
+      .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }));
+
+    const userMessage = await storage.createAiChatMessage({ sessionId, role: 'user', content: query });
+    const result = await aiService.processChatQuery(query, { userId, role: user.role, sessionId, history });
+    const assistantMessage = await storage.createAiChatMessage({
+      sessionId,
+      role: 'assistant',
+      content: result.response,
+      metadata: {
+        provider: result.provider,
+        model: result.model,
+        userRole: user.role,
+        actionable: result.actionable,
+        suggestedActions: result.suggestedActions,
+        toolCalls: result.toolCalls,
+      },
+    });
+
+    return { userMessage, assistantMessage, result };
+  };
+
   app.post("/api/ai/chat", isAuthenticated, async (req, res) => {
     try {
-      const { query } = req.body;
+      const userId = (req as any).user?.claims?.sub;
+      const { query, sessionId } = req.body;
       if (!query) {
         return res.status(400).json({ message: "Query is required" });
       }
 
-      // Get business context
-      const metrics = await storage.getDashboardMetrics();
-      const expiringProducts = await storage.getExpiringProducts(90);
-      const recentTransactions = await storage.getRecentTransactions(10);
-
-      const businessContext = {
-        metrics,
-        expiringProducts: expiringProducts.slice(0, 5), // Limit for context
-        recentTransactions: recentTransactions.slice(0, 5),
-      };
+      let session;
+      if (sessionId) {
+        session = await storage.getAiChatSession(sessionId);
+        if (!session || session.userId !== userId) {
+          return res.status(404).json({ message: "Chat session not found" });
+        }
+      } else {
+        session = await storage.createAiChatSession({
+          userId,
+          sessionTitle: String(query).slice(0, 80),
+        });
+      }
 
-      const response = await aiService.processChatQuery(query, businessContext);
-      res.json(response);
+      const { assistantMessage, result } = await answerInChatSession(session.id, query, userId);
+      res.json({ ...result, sessionId: session.id, messageId: assistantMessage.id });
     } catch (error) {
       console.error("Error processing AI chat:", error);
       res.status(500).json({ message: "Failed to process AI query" });
     }
   });
 
+  // Provider routing per AI feature and recent model usage
+  app.get("/api/ai/providers", isAuthenticated, requireRole(['admin']), async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string) || 30;
+      const [routes, stats] = await Promise.all([
+        aiProviders.getRoutes(),
+        storage.getAiModelPerformanceStats(undefined, days),
+      ]);
+      res.json({ routes, stats });
+    } catch (error: any) {
+      console.error("Error fetching AI provider status:", error);
+      res.status(500).json({ message: "Failed to fetch AI provider status", error: error.message });
+    }
+  });
+
+  app.get("/api/ai/metrics", isAuthenticated, requireRole(['admin']), async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 100;
+      const metrics = await storage.getAiModelMetrics(req.query.model as string | undefined, req.query.requestType as string | undefined, limit);
+      res.json(metrics);
+    } catch (error: any) {
+      console.error("Error fetching AI model metrics:", error);
+      res.status(500).json({ message: "Failed to fetch AI model metrics", error: error.message });
+    }
+  });
+
   app.get("/api/ai/recommendations", isAuthenticated, async (req, res) => {
     try {
       // Get inventory data for recommendations
@@ -1695,6 +2028,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const recentTransactions = await storage.getRecentTransactions(20);
       const inventory = await storage.getInventory();
 
+      // Stock on hand per product across batches and warehouses, against its minimum
+      const stockByProduct = new Map<string, { quantity: number; minStockLevel: number }>();
+      for (const item of inventory) {
+        const stock = stockByProduct.get(item.productId) ?? { quantity: 0, minStockLevel: item.product.minStockLevel || 0 };
+        stock.quantity += item.quantity;
+        stockByProduct.set(item.productId, stock);
+      }
+
       const businessData = {
         salesMetrics: {
           totalRevenue: metrics.totalRevenue,
@@ -1703,6 +2044,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         inventoryMetrics: {
           activeProducts: metrics.activeProducts,
           expiringProductsCount: metrics.expiringProductsCount,
+          lowStockCount: Array.from(stockByProduct.values()).filter(stock => stock.quantity <= stock.minStockLevel).length,
           totalItems: inventory.length,
         },
         customerMetrics: {
@@ -2258,7 +2600,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           quantity: z.number().min(1),
           unitPrice: z.number().min(0),
           discount: z.number().min(0).max(100).optional(),
-          tax: z.number().min(0).max(100).optional(),
+          taxCodeId: z.string().optional(),
         })).optional(),
       });
 
@@ -2271,17 +2613,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Create each quotation item if items were provided
       if (items && items.length > 0) {
         for (const item of items) {
-          // Calculate line total (quantity * unitPrice)
-          const lineTotal = (item.quantity * item.unitPrice).toFixed(2);
-          
+          // The line total and IVA come from the item's tax code
           await storage.createQuotationItem({
             quotationId: quotation.id,
             productId: item.productId,
             quantity: item.quantity,
             unitPrice: item.unitPrice.toString(),
-            lineTotal: lineTotal,
             discount: item.discount?.toString() ?? null,
-            tax: item.tax?.toString() ?? null,
+            taxCodeId: item.taxCodeId ?? null,
           });
         }
         
@@ -2479,6 +2818,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Allocate a receipt across several invoices, oldest first or line by line
+  app.post("/api/crm/receipts/:id/allocations", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const request = allocateReceiptRequestSchema.parse(req.body);
+      const userId = (req as any).user?.claims?.sub;
+      const result = await storage.allocateReceipt(req.params.id, request, userId);
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error("Error allocating receipt:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid allocation", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to allocate receipt", error: error.message });
+      }
+    }
+  });
+
+  app.get("/api/crm/receipt-allocations", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const receiptId = req.query.receiptId as string | undefined;
+      const invoiceId = req.query.invoiceId as string | undefined;
+      const allocations = await storage.getReceiptAllocations({ receiptId, invoiceId });
+      res.json(allocations);
+    } catch (error) {
+      console.error("Error fetching receipt allocations:", error);
+      res.status(500).json({ message: "Failed to fetch receipt allocations" });
+    }
+  });
+
+  app.post("/api/crm/receipt-allocations/:id/reverse", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const { reason } = reverseReceiptAllocationRequestSchema.parse(req.body);
+      const userId = (req as any).user?.claims?.sub;
+      const allocation = await storage.reverseReceiptAllocation(req.params.id, reason, userId);
+      res.json(allocation);
+    } catch (error: any) {
+      console.error("Error reversing receipt allocation:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid reversal", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to reverse receipt allocation", error: error.message });
+      }
+    }
+  });
+
   // Commission Management Routes
   app.get("/api/crm/commissions", isAuthenticated, requireFinanceAccess, async (req, res) => {
     try {
@@ -2982,12 +3366,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Unable to identify fulfilling user" });
       }
       
+      // Reserved batches are picked wherever they are; the warehouse is only needed
+      // for orders confirmed before stock reservations existed
       const { warehouseId } = req.body;
-      if (!warehouseId) {
-        return res.status(400).json({ message: "Warehouse ID is required" });
-      }
-      
-      const result = await storage.fulfillSalesOrder(req.params.id, warehouseId, fulfilledBy);
+      const result = await storage.fulfillSalesOrder(req.params.id, warehouseId || undefined, fulfilledBy);
       res.json(result);
     } catch (error: any) {
       console.error("Error fulfilling sales order:", error);
@@ -2995,11 +3377,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Ship part of a sales order from one warehouse under its own delivery note
+  app.post("/api/sales-orders/:id/shipments", isAuthenticated, requireSalesAccess, async (req, res) => {
+    try {
+      const shippedBy = (req as any).user?.claims?.sub;
+      if (!shippedBy) {
+        return res.status(401).json({ message: "Unable to identify shipping user" });
+      }
+
+      const shipmentData = createShipmentRequestSchema.parse(req.body);
+      const result = await storage.createShipment(req.params.id, shipmentData, shippedBy);
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error("Error creating shipment:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid shipment data", errors: error.errors });
+      }
+      res.status(400).json({ message: "Failed to create shipment", error: error.message });
+    }
+  });
+
+  app.get("/api/sales-orders/:id/shipments", isAuthenticated, requireSalesAccess, async (req, res) => {
+    try {
+      const orderShipments = await storage.getShipments(req.params.id);
+      res.json(orderShipments);
+    } catch (error) {
+      console.error("Error fetching shipments:", error);
+      res.status(500).json({ message: "Failed to fetch shipments" });
+    }
+  });
+
+  app.get("/api/shipments/:id/delivery-note", isAuthenticated, requireSalesAccess, async (req, res) => {
+    try {
+      const { fileName, content } = await renderDeliveryNotePdf(req.params.id);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(content);
+    } catch (error: any) {
+      console.error("Error rendering delivery note:", error);
+      res.status(error.message === 'Shipment not found' ? 404 : 500).json({ message: "Failed to render delivery note", error: error.message });
+    }
+  });
+
+  app.post("/api/shipments/:id/deliver", isAuthenticated, requireSalesAccess, async (req, res) => {
+    try {
+      const shipment = await storage.markShipmentDelivered(req.params.id);
+      res.json(shipment);
+    } catch (error: any) {
+      console.error("Error marking shipment delivered:", error);
+      res.status(400).json({ message: "Failed to mark shipment delivered", error: error.message });
+    }
+  });
+
+  // Reserve newly arrived stock for backordered lines of this order
+  app.post("/api/sales-orders/:id/allocate-backorders", isAuthenticated, requireSalesAccess, async (req, res) => {
+    try {
+      const allocatedBy = (req as any).user?.claims?.sub;
+      const reservations = await storage.allocateBackorders(req.params.id, allocatedBy);
+      res.json({ reservations });
+    } catch (error: any) {
+      console.error("Error allocating backorders:", error);
+      res.status(400).json({ message: "Failed to allocate backorders", error: error.message });
+    }
+  });
+
+  // Stock reserved for a sales order
+  app.get("/api/sales-orders/:id/reservations", isAuthenticated, requireSalesAccess, async (req, res) => {
+    try {
+      const reservations = await storage.getStockReservations(req.params.id);
+      res.json(reservations);
+    } catch (error) {
+      console.error("Error fetching stock reservations:", error);
+      res.status(500).json({ message: "Failed to fetch stock reservations" });
+    }
+  });
+
   // Generate invoice from sales order
   app.post("/api/sales-orders/:id/generate-invoice", isAuthenticated, requireFinanceAccess, async (req, res) => {
     try {
-      const invoiceData = req.body || {};
-      const invoice = await storage.generateInvoiceFromSalesOrder(req.params.id, invoiceData);
+      // With a shipmentId only that shipment is invoiced; otherwise the whole order
+      const { shipmentId, ...invoiceData } = req.body || {};
+      const invoice = await storage.generateInvoiceFromSalesOrder(req.params.id, invoiceData, shipmentId || undefined);
       res.status(201).json(invoice);
     } catch (error: any) {
       console.error("Error generating invoice:", error);
@@ -3130,83 +3588,1027 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // =============================================================================
-  // STOCK MOVEMENT ROUTES
+  // GENERAL LEDGER ROUTES
   // =============================================================================
 
-  // Get stock movements with filtering
-  app.get("/api/stock-movements", isAuthenticated, requireRole(['admin', 'inventory', 'finance']), async (req, res) => {
+  // Chart of accounts (installs the default Angolan PGC on first use)
+  app.get("/api/gl/accounts", isAuthenticated, requireFinanceAccess, async (req, res) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 100;
-      const movements = await storage.getStockMovements(limit);
-      res.json(movements);
+      const accounts = await storage.getGlAccounts();
+      res.json(accounts);
     } catch (error) {
-      console.error("Error fetching stock movements:", error);
-      res.status(500).json({ message: "Failed to fetch stock movements" });
+      console.error("Error fetching GL accounts:", error);
+      res.status(500).json({ message: "Failed to fetch GL accounts" });
     }
   });
 
-  // Create stock movement
-  app.post("/api/stock-movements", isAuthenticated, requireRole(['admin', 'inventory']), async (req, res) => {
+  app.post("/api/gl/accounts", isAuthenticated, requireFinanceAccess, async (req, res) => {
     try {
-      const userId = (req as any).user?.claims?.sub;
-      const movementData = insertStockMovementSchema.parse({
-        ...req.body,
-        userId
-      });
-      const movement = await storage.createStockMovement(movementData);
-      res.status(201).json(movement);
+      const accountData = insertGlAccountSchema.parse(req.body);
+      const account = await storage.createGlAccount(accountData);
+      res.status(201).json(account);
     } catch (error: any) {
-      console.error("Error creating stock movement:", error);
-      if (error.name === 'ZodError') {
-        res.status(400).json({ message: "Invalid stock movement data", errors: error.errors });
+      console.error("Error creating GL account:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid account data", errors: error.errors });
       } else {
-        res.status(400).json({ message: "Failed to create stock movement", error: error.message });
+        res.status(400).json({ message: "Failed to create GL account", error: error.message });
       }
     }
   });
 
-  // =============================================================================
-  // MARKETING MODULE ROUTES
-  // =============================================================================
-
-  const requireMarketingAccess = requireRole(['admin', 'marketing']);
-
-  // Campaign Management Routes
-  app.get("/api/marketing/campaigns", isAuthenticated, requireMarketingAccess, async (req, res) => {
+  app.put("/api/gl/accounts/:id", isAuthenticated, requireFinanceAccess, async (req, res) => {
     try {
-      const querySchema = z.object({
-        limit: z.string().optional().transform((val) => val ? parseInt(val) : 50),
-        status: z.string().optional(),
-        type: z.string().optional(),
-      });
-
-      const { limit, status, type } = querySchema.parse(req.query);
-      const campaigns = await storage.getCampaigns(status, type, undefined, limit);
-      res.json(campaigns);
+      const accountData = insertGlAccountSchema.partial().parse(req.body);
+      const account = await storage.updateGlAccount(req.params.id, accountData);
+      res.json(account);
     } catch (error: any) {
-      console.error("Error fetching campaigns:", error);
-      if (error.name === 'ZodError') {
-        res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+      console.error("Error updating GL account:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid account data", errors: error.errors });
       } else {
-        res.status(500).json({ message: "Failed to fetch campaigns" });
+        res.status(400).json({ message: "Failed to update GL account", error: error.message });
       }
     }
   });
 
-  app.get("/api/marketing/campaigns/:id", isAuthenticated, requireMarketingAccess, async (req, res) => {
+  app.get("/api/gl/journal-entries", isAuthenticated, requireFinanceAccess, async (req, res) => {
     try {
-      const campaign = await storage.getCampaign(req.params.id);
-      if (!campaign) {
-        return res.status(404).json({ message: "Campaign not found" });
+      const { from, to, sourceType, status, accountId } = req.query as Record<string, string | undefined>;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const entries = await storage.getJournalEntries({ from, to, sourceType, status, accountId, limit });
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching journal entries:", error);
+      res.status(500).json({ message: "Failed to fetch journal entries" });
+    }
+  });
+
+  app.get("/api/gl/journal-entries/:id", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const entry = await storage.getJournalEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ message: "Journal entry not found" });
       }
-      res.json(campaign);
+      res.json(entry);
     } catch (error) {
-      console.error("Error fetching campaign:", error);
-      res.status(500).json({ message: "Failed to fetch campaign" });
+      console.error("Error fetching journal entry:", error);
+      res.status(500).json({ message: "Failed to fetch journal entry" });
     }
   });
 
-  app.post("/api/marketing/campaigns", isAuthenticated, requireMarketingAccess, async (req, res) => {
+  // Manual journal entry, saved as draft unless post is set
+  app.post("/api/gl/journal-entries", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const request = createJournalEntryRequestSchema.parse(req.body);
+      const entry = await storage.createManualJournalEntry(request, userId);
+      res.status(201).json(entry);
+    } catch (error: any) {
+      console.error("Error creating journal entry:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid journal entry", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to create journal entry", error: error.message });
+      }
+    }
+  });
+
+  app.post("/api/gl/journal-entries/:id/post", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const entry = await storage.postJournalEntry(req.params.id, userId);
+      res.json(entry);
+    } catch (error: any) {
+      console.error("Error posting journal entry:", error);
+      res.status(400).json({ message: "Failed to post journal entry", error: error.message });
+    }
+  });
+
+  app.post("/api/gl/journal-entries/:id/reverse", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const { entryDate } = z.object({ entryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional() }).parse(req.body ?? {});
+      const reversal = await storage.reverseJournalEntry(req.params.id, userId, entryDate);
+      res.status(201).json(reversal);
+    } catch (error: any) {
+      console.error("Error reversing journal entry:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid reversal date", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to reverse journal entry", error: error.message });
+      }
+    }
+  });
+
+  app.get("/api/gl/trial-balance", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const { from, to } = req.query as Record<string, string | undefined>;
+      const trialBalance = await storage.getTrialBalance(from, to);
+      res.json(trialBalance);
+    } catch (error) {
+      console.error("Error building trial balance:", error);
+      res.status(500).json({ message: "Failed to build trial balance" });
+    }
+  });
+
+  app.get("/api/gl/fx-revaluations", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const revaluations = await storage.getFxRevaluations();
+      res.json(revaluations);
+    } catch (error) {
+      console.error("Error fetching FX revaluations:", error);
+      res.status(500).json({ message: "Failed to fetch FX revaluations" });
+    }
+  });
+
+  // What a revaluation on the date would post, without posting it
+  app.get("/api/gl/fx-revaluations/preview", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const { revaluationDate } = runFxRevaluationRequestSchema.parse(req.query);
+      const preview = await storage.previewFxRevaluation(revaluationDate);
+      res.json(preview);
+    } catch (error: any) {
+      console.error("Error previewing FX revaluation:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid revaluation date", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to preview FX revaluation", error: error.message });
+      }
+    }
+  });
+
+  app.post("/api/gl/fx-revaluations", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const { revaluationDate } = runFxRevaluationRequestSchema.parse(req.body);
+      const userId = (req as any).user?.claims?.sub;
+      const revaluation = await storage.postFxRevaluation(revaluationDate, userId);
+      res.status(201).json(revaluation);
+    } catch (error: any) {
+      console.error("Error posting FX revaluation:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid revaluation date", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to post FX revaluation", error: error.message });
+      }
+    }
+  });
+
+  // =============================================================================
+  // ACCOUNTING PERIOD CLOSE ROUTES
+  // =============================================================================
+
+  app.get("/api/accounting-periods", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const year = typeof req.query.year === 'string' && /^\d{4}$/.test(req.query.year) ? req.query.year : undefined;
+      const periods = await storage.getAccountingPeriods(year);
+      res.json(periods);
+    } catch (error) {
+      console.error("Error fetching accounting periods:", error);
+      res.status(500).json({ message: "Failed to fetch accounting periods" });
+    }
+  });
+
+  app.get("/api/accounting-periods/checklist", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const { period } = monthEndChecklistQuerySchema.parse(req.query);
+      const checklist = await storage.getMonthEndChecklist(period);
+      res.json(checklist);
+    } catch (error: any) {
+      console.error("Error building month-end checklist:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid period", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to build month-end checklist" });
+      }
+    }
+  });
+
+  app.post("/api/accounting-periods/close", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const { module, period, status } = closeAccountingPeriodRequestSchema.parse(req.body);
+      const userId = (req as any).user?.claims?.sub;
+      const closed = await storage.closeAccountingPeriod(module, period, status, userId);
+      res.json(closed);
+    } catch (error: any) {
+      console.error("Error closing accounting period:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid period close", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to close accounting period", error: error.message });
+      }
+    }
+  });
+
+  // Reopening a closed month is for administrators only, and needs a reason
+  app.post("/api/accounting-periods/reopen", isAuthenticated, requireRole(['admin']), async (req, res) => {
+    try {
+      const { module, period, reason } = reopenAccountingPeriodRequestSchema.parse(req.body);
+      const userId = (req as any).user?.claims?.sub;
+      const reopened = await storage.reopenAccountingPeriod(module, period, reason, userId);
+      res.json(reopened);
+    } catch (error: any) {
+      console.error("Error reopening accounting period:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid period reopening", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to reopen accounting period", error: error.message });
+      }
+    }
+  });
+
+  // Stock valued at cost as of a date, with the inventory account balance it should tie to
+  app.get("/api/inventory/valuation", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const { asOf, warehouseId } = stockValuationQuerySchema.parse(req.query);
+      const valuation = await storage.getStockValuation(asOf, warehouseId);
+      res.json(valuation);
+    } catch (error: any) {
+      console.error("Error valuing stock:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid valuation date", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to value stock" });
+      }
+    }
+  });
+
+  app.get("/api/reports/margins", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const { from, to } = vatReturnQuerySchema.parse(req.query);
+      const report = await storage.getMarginReport(from, to);
+      res.json(report);
+    } catch (error: any) {
+      console.error("Error building margin report:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid period", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to build margin report" });
+      }
+    }
+  });
+
+  // =============================================================================
+  // RECEIVABLES AGING & DUNNING ROUTES
+  // =============================================================================
+
+  // Unapplied cash per customer, to be applied to invoices later
+  app.get("/api/receivables/credit-balances", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const balances = await storage.getCustomerCreditBalances(req.query.customerId as string | undefined);
+      res.json(balances);
+    } catch (error) {
+      console.error("Error fetching customer credit balances:", error);
+      res.status(500).json({ message: "Failed to fetch customer credit balances" });
+    }
+  });
+
+  app.get("/api/receivables/aging", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const asOf = req.query.asOf as string | undefined;
+      const aging = await storage.getReceivablesAging(asOf || undefined);
+      res.json(aging);
+    } catch (error) {
+      console.error("Error building receivables aging:", error);
+      res.status(500).json({ message: "Failed to build receivables aging" });
+    }
+  });
+
+  // Dunning ladder (installs the default three levels on first use)
+  app.get("/api/dunning-levels", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const levels = await storage.getDunningLevels();
+      res.json(levels);
+    } catch (error) {
+      console.error("Error fetching dunning levels:", error);
+      res.status(500).json({ message: "Failed to fetch dunning levels" });
+    }
+  });
+
+  app.post("/api/dunning-levels", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const levelData = insertDunningLevelSchema.parse(req.body);
+      const level = await storage.createDunningLevel(levelData);
+      res.status(201).json(level);
+    } catch (error: any) {
+      console.error("Error creating dunning level:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid dunning level", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to create dunning level", error: error.message });
+      }
+    }
+  });
+
+  app.put("/api/dunning-levels/:id", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const levelData = insertDunningLevelSchema.partial().parse(req.body);
+      const level = await storage.updateDunningLevel(req.params.id, levelData);
+      res.json(level);
+    } catch (error: any) {
+      console.error("Error updating dunning level:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid dunning level", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to update dunning level", error: error.message });
+      }
+    }
+  });
+
+  // Run the nightly overdue and dunning pass now
+  app.post("/api/dunning/run", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const result = await storage.runDunning();
+      await invalidateDashboardMetricsCache();
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error running dunning:", error);
+      res.status(500).json({ message: "Failed to run dunning", error: error.message });
+    }
+  });
+
+  // =============================================================================
+  // BANK RECONCILIATION ROUTES
+  // =============================================================================
+
+  app.get("/api/bank-accounts", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const accounts = await storage.getBankAccounts();
+      res.json(accounts);
+    } catch (error) {
+      console.error("Error fetching bank accounts:", error);
+      res.status(500).json({ message: "Failed to fetch bank accounts" });
+    }
+  });
+
+  app.post("/api/bank-accounts", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const accountData = insertBankAccountSchema.parse(req.body);
+      const account = await storage.createBankAccount(accountData);
+      res.status(201).json(account);
+    } catch (error: any) {
+      console.error("Error creating bank account:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid bank account", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to create bank account", error: error.message });
+      }
+    }
+  });
+
+  app.put("/api/bank-accounts/:id", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const accountData = insertBankAccountSchema.partial().parse(req.body);
+      const account = await storage.updateBankAccount(req.params.id, accountData);
+      res.json(account);
+    } catch (error: any) {
+      console.error("Error updating bank account:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid bank account", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to update bank account", error: error.message });
+      }
+    }
+  });
+
+  // Match unmatched lines against receipts and supplier payments again
+  app.post("/api/bank-accounts/:id/auto-match", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const matched = await storage.autoMatchBankStatementLines(req.params.id);
+      res.json({ matched });
+    } catch (error: any) {
+      console.error("Error auto-matching statement lines:", error);
+      res.status(400).json({ message: "Failed to match statement lines", error: error.message });
+    }
+  });
+
+  app.get("/api/bank-statements", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const statements = await storage.getBankStatements(req.query.bankAccountId as string | undefined);
+      res.json(statements);
+    } catch (error) {
+      console.error("Error fetching bank statements:", error);
+      res.status(500).json({ message: "Failed to fetch bank statements" });
+    }
+  });
+
+  // Import a CSV, MT940 or camt.053 statement; new lines are matched automatically
+  app.post("/api/bank-statements/import", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const importData = importBankStatementRequestSchema.parse(req.body);
+      const result = await storage.importBankStatement(importData, userId);
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error("Error importing bank statement:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid statement import", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to import bank statement", error: error.message });
+      }
+    }
+  });
+
+  app.get("/api/bank-statement-lines", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const lines = await storage.getBankStatementLines({
+        bankAccountId: req.query.bankAccountId as string | undefined,
+        statementId: req.query.statementId as string | undefined,
+        status: req.query.status as string | undefined,
+        limit: parseInt(req.query.limit as string) || 200,
+      });
+      res.json(lines);
+    } catch (error) {
+      console.error("Error fetching bank statement lines:", error);
+      res.status(500).json({ message: "Failed to fetch bank statement lines" });
+    }
+  });
+
+  app.get("/api/bank-statement-lines/:id/candidates", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const candidates = await storage.getBankLineMatchCandidates(req.params.id);
+      res.json(candidates);
+    } catch (error: any) {
+      console.error("Error fetching match candidates:", error);
+      res.status(error.message === 'Statement line not found' ? 404 : 500).json({ message: "Failed to fetch match candidates", error: error.message });
+    }
+  });
+
+  app.post("/api/bank-statement-lines/:id/match", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const matchData = matchBankStatementLineRequestSchema.parse(req.body);
+      const line = await storage.matchBankStatementLine(req.params.id, matchData, userId);
+      res.json(line);
+    } catch (error: any) {
+      console.error("Error matching statement line:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid match", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to match statement line", error: error.message });
+      }
+    }
+  });
+
+  app.post("/api/bank-statement-lines/:id/unmatch", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const line = await storage.unmatchBankStatementLine(req.params.id);
+      res.json(line);
+    } catch (error: any) {
+      console.error("Error unmatching statement line:", error);
+      res.status(400).json({ message: "Failed to unmatch statement line", error: error.message });
+    }
+  });
+
+  // Mark bank fees, interest and the like as needing no receipt or payment (or undo that)
+  app.post("/api/bank-statement-lines/:id/ignore", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const { ignored } = z.object({ ignored: z.boolean().default(true) }).parse(req.body);
+      const line = await storage.setBankStatementLineIgnored(req.params.id, ignored, userId);
+      res.json(line);
+    } catch (error: any) {
+      console.error("Error ignoring statement line:", error);
+      res.status(400).json({ message: "Failed to update statement line", error: error.message });
+    }
+  });
+
+  app.post("/api/bank-statement-lines/:id/receipt", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const receiptData = createReceiptFromBankLineRequestSchema.parse(req.body);
+      const result = await storage.createReceiptFromBankLine(req.params.id, receiptData, userId);
+      await invalidateDashboardMetricsCache();
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error("Error creating receipt from statement line:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid receipt", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to create receipt", error: error.message });
+      }
+    }
+  });
+
+  app.get("/api/bank-reconciliations", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const reconciliations = await storage.getBankReconciliations(req.query.bankAccountId as string | undefined);
+      res.json(reconciliations);
+    } catch (error) {
+      console.error("Error fetching bank reconciliations:", error);
+      res.status(500).json({ message: "Failed to fetch bank reconciliations" });
+    }
+  });
+
+  // Close a reconciliation period: every line up to the period end must be matched or ignored
+  app.post("/api/bank-reconciliations", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const closeData = closeBankReconciliationRequestSchema.parse(req.body);
+      const reconciliation = await storage.closeBankReconciliation(closeData, userId);
+      res.status(201).json(reconciliation);
+    } catch (error: any) {
+      console.error("Error closing bank reconciliation:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid reconciliation", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to close reconciliation period", error: error.message });
+      }
+    }
+  });
+
+  // =============================================================================
+  // TAX ROUTES
+  // =============================================================================
+
+  // Sales and purchasing forms pick from the tax codes, so any signed-in user can list them
+  app.get("/api/tax/codes", isAuthenticated, async (req, res) => {
+    try {
+      const taxCodes = await storage.getTaxCodes();
+      res.json(taxCodes);
+    } catch (error) {
+      console.error("Error fetching tax codes:", error);
+      res.status(500).json({ message: "Failed to fetch tax codes" });
+    }
+  });
+
+  app.post("/api/tax/codes", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const taxCodeData = insertTaxCodeSchema.parse(req.body);
+      const taxCode = await storage.createTaxCode(taxCodeData);
+      res.status(201).json(taxCode);
+    } catch (error: any) {
+      console.error("Error creating tax code:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid tax code", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to create tax code", error: error.message });
+      }
+    }
+  });
+
+  app.patch("/api/tax/codes/:id", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const taxCodeData = insertTaxCodeSchema.partial().parse(req.body);
+      const taxCode = await storage.updateTaxCode(req.params.id, taxCodeData);
+      res.json(taxCode);
+    } catch (error: any) {
+      console.error("Error updating tax code:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid tax code", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to update tax code", error: error.message });
+      }
+    }
+  });
+
+  app.get("/api/tax/category-codes", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const mappings = await storage.getCategoryTaxCodes();
+      res.json(mappings);
+    } catch (error) {
+      console.error("Error fetching category tax codes:", error);
+      res.status(500).json({ message: "Failed to fetch category tax codes" });
+    }
+  });
+
+  app.put("/api/tax/category-codes", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const { category, taxCodeId } = setCategoryTaxCodeRequestSchema.parse(req.body);
+      const mapping = await storage.setCategoryTaxCode(category, taxCodeId);
+      res.json(mapping);
+    } catch (error: any) {
+      console.error("Error setting category tax code:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid category tax code", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to set category tax code", error: error.message });
+      }
+    }
+  });
+
+  app.delete("/api/tax/category-codes/:category", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      await storage.deleteCategoryTaxCode(req.params.category);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Error deleting category tax code:", error);
+      res.status(400).json({ message: "Failed to delete category tax code", error: error.message });
+    }
+  });
+
+  // The code each product would be taxed under for a customer, e.g. to default quotation lines
+  app.get("/api/tax/resolve", isAuthenticated, async (req, res) => {
+    try {
+      const productIds = String(req.query.productIds || '').split(',').filter(Boolean);
+      const date = (req.query.date as string) || new Date().toISOString().split('T')[0];
+      const resolved = await storage.resolveTaxCodes(productIds, req.query.customerId as string | undefined, date);
+      res.json(resolved);
+    } catch (error: any) {
+      console.error("Error resolving tax codes:", error);
+      res.status(400).json({ message: "Failed to resolve tax codes", error: error.message });
+    }
+  });
+
+  // Output IVA against deductible input IVA for a period, with the ledger balances to tie out
+  app.get("/api/tax/vat-return", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const { from, to } = vatReturnQuerySchema.parse(req.query);
+      const vatReturn = await storage.getVatReturn(from, to);
+      res.json(vatReturn);
+    } catch (error: any) {
+      console.error("Error building IVA return:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid period", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to build IVA return", error: error.message });
+      }
+    }
+  });
+
+  // SAF-T (AO) audit file for a period, as submitted to the AGT
+  app.get("/api/tax/saft", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const { from, to, includeGeneralLedger } = saftExportQuerySchema.parse(req.query);
+      const { fileName, contentType, content, xsdValidated } = await renderSaftFile(from, to, includeGeneralLedger);
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.setHeader('X-SAFT-XSD-Validated', String(xsdValidated));
+      res.send(content);
+    } catch (error: any) {
+      console.error("Error exporting SAF-T file:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid period", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to export SAF-T file", error: error.message });
+      }
+    }
+  });
+
+  // Walk the fiscal documents' hash chains and report breaks
+  app.get("/api/tax/signatures/verify", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const series = typeof req.query.series === 'string' && req.query.series ? req.query.series : undefined;
+      const verification = await storage.verifyFiscalSignatures(series);
+      res.json(verification);
+    } catch (error: any) {
+      console.error("Error verifying fiscal signatures:", error);
+      res.status(500).json({ message: "Failed to verify fiscal signatures", error: error.message });
+    }
+  });
+
+  // =============================================================================
+  // STOCK MOVEMENT ROUTES
+  // =============================================================================
+
+  // Get stock movements with filtering
+  app.get("/api/stock-movements", isAuthenticated, requireRole(['admin', 'inventory', 'finance']), async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 100;
+      const movements = await storage.getStockMovements(limit);
+      res.json(movements);
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ message: "Failed to fetch stock movements" });
+    }
+  });
+
+  // Create stock movement
+  app.post("/api/stock-movements", isAuthenticated, requireRole(['admin', 'inventory']), async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const movementData = insertStockMovementSchema.parse({
+        ...req.body,
+        userId
+      });
+      const movement = await storage.createStockMovement(movementData);
+      res.status(201).json(movement);
+    } catch (error: any) {
+      console.error("Error creating stock movement:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid stock movement data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to create stock movement", error: error.message });
+      }
+    }
+  });
+
+  // =============================================================================
+  // INVENTORY TRANSFER ROUTES
+  // =============================================================================
+
+  const requireTransferAccess = requireRole(['admin', 'inventory']);
+
+  // List transfer orders
+  app.get("/api/inventory/transfers", isAuthenticated, requireTransferAccess, async (req, res) => {
+    try {
+      const querySchema = z.object({
+        limit: z.string().optional().transform((val) => val ? parseInt(val) : 50),
+        status: z.string().optional(),
+        warehouseId: z.string().optional(),
+      });
+
+      const { limit, status, warehouseId } = querySchema.parse(req.query);
+      const transfers = await storage.getTransferOrders(status, warehouseId, limit);
+      res.json(transfers);
+    } catch (error: any) {
+      console.error("Error fetching transfer orders:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch transfer orders" });
+      }
+    }
+  });
+
+  // Stock currently in transit, optionally filtered by destination warehouse
+  app.get("/api/inventory/transfers/in-transit", isAuthenticated, requireTransferAccess, async (req, res) => {
+    try {
+      const warehouseId = req.query.warehouseId as string | undefined;
+      const inTransit = await storage.getInTransitStock(warehouseId);
+      res.json(inTransit);
+    } catch (error) {
+      console.error("Error fetching in-transit stock:", error);
+      res.status(500).json({ message: "Failed to fetch in-transit stock" });
+    }
+  });
+
+  app.get("/api/inventory/transfers/:id", isAuthenticated, requireTransferAccess, async (req, res) => {
+    try {
+      const transfer = await storage.getTransferOrder(req.params.id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer order not found" });
+      }
+      res.json(transfer);
+    } catch (error) {
+      console.error("Error fetching transfer order:", error);
+      res.status(500).json({ message: "Failed to fetch transfer order" });
+    }
+  });
+
+  // Create a draft transfer order
+  app.post("/api/inventory/transfers", isAuthenticated, requireTransferAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const transferData = createTransferOrderRequestSchema.parse(req.body);
+      const transfer = await storage.createTransferOrder(transferData, userId);
+      res.status(201).json(transfer);
+    } catch (error: any) {
+      console.error("Error creating transfer order:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid transfer order data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to create transfer order", error: error.message });
+      }
+    }
+  });
+
+  // Dispatch - deducts stock at the source and records it as in transit
+  app.post("/api/inventory/transfers/:id/dispatch", isAuthenticated, requireTransferAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const result = await storage.dispatchTransferOrder(req.params.id, userId);
+      res.json({
+        ...result,
+        message: "Transfer order dispatched successfully"
+      });
+    } catch (error: any) {
+      console.error("Error dispatching transfer order:", error);
+      res.status(400).json({ message: "Failed to dispatch transfer order", error: error.message });
+    }
+  });
+
+  app.post("/api/inventory/transfers/:id/in-transit", isAuthenticated, requireTransferAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const { carrier } = z.object({ carrier: z.string().optional() }).parse(req.body ?? {});
+      const transfer = await storage.markTransferOrderInTransit(req.params.id, userId, carrier);
+      res.json(transfer);
+    } catch (error: any) {
+      console.error("Error marking transfer order in transit:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to mark transfer order in transit", error: error.message });
+      }
+    }
+  });
+
+  // Receive - supports partial receipts per line
+  app.post("/api/inventory/transfers/:id/receive", isAuthenticated, requireTransferAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const { items, notes } = receiveTransferOrderRequestSchema.parse(req.body);
+      const result = await storage.receiveTransferOrder(req.params.id, items, userId, notes);
+      res.json({
+        ...result,
+        message: result.transferOrder.status === 'received'
+          ? "Transfer order fully received"
+          : "Transfer order partially received"
+      });
+    } catch (error: any) {
+      console.error("Error receiving transfer order:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid receipt data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to receive transfer order", error: error.message });
+      }
+    }
+  });
+
+  app.post("/api/inventory/transfers/:id/cancel", isAuthenticated, requireTransferAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const transfer = await storage.cancelTransferOrder(req.params.id, userId);
+      res.json(transfer);
+    } catch (error: any) {
+      console.error("Error cancelling transfer order:", error);
+      res.status(400).json({ message: "Failed to cancel transfer order", error: error.message });
+    }
+  });
+
+  // =============================================================================
+  // STOCK COUNT ROUTES
+  // =============================================================================
+
+  const requireStockCountAccess = requireRole(['admin', 'inventory', 'finance']);
+  const requireCountingAccess = requireRole(['admin', 'inventory']);
+
+  app.get("/api/inventory/stock-counts", isAuthenticated, requireStockCountAccess, async (req, res) => {
+    try {
+      const { status, warehouseId } = z.object({
+        status: z.string().optional(),
+        warehouseId: z.string().optional(),
+      }).parse(req.query);
+      const counts = await storage.getStockCounts(status, warehouseId);
+      res.json(counts);
+    } catch (error: any) {
+      console.error("Error fetching stock counts:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch stock counts" });
+      }
+    }
+  });
+
+  // Products the ABC schedule picks for a week's cycle count (the current week by default)
+  app.get("/api/inventory/stock-counts/schedule", isAuthenticated, requireStockCountAccess, async (req, res) => {
+    try {
+      const { weekOf, warehouseId } = z.object({
+        weekOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "weekOf must be a date (YYYY-MM-DD)").optional(),
+        warehouseId: z.string().optional(),
+      }).parse(req.query);
+      const schedule = await storage.getCycleCountSchedule(weekOf || new Date().toISOString().split('T')[0], warehouseId);
+      res.json(schedule);
+    } catch (error: any) {
+      console.error("Error building cycle count schedule:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to build cycle count schedule" });
+      }
+    }
+  });
+
+  // Book quantities stay hidden on blind counts until the count is submitted
+  app.get("/api/inventory/stock-counts/:id", isAuthenticated, requireStockCountAccess, async (req, res) => {
+    try {
+      const count = await storage.getStockCount(req.params.id);
+      if (!count) {
+        return res.status(404).json({ message: "Stock count not found" });
+      }
+      res.json(count);
+    } catch (error) {
+      console.error("Error fetching stock count:", error);
+      res.status(500).json({ message: "Failed to fetch stock count" });
+    }
+  });
+
+  app.post("/api/inventory/stock-counts", isAuthenticated, requireCountingAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const countData = createStockCountRequestSchema.parse(req.body);
+      const count = await storage.createStockCount(countData, userId);
+      res.status(201).json(count);
+    } catch (error: any) {
+      console.error("Error creating stock count:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid stock count data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to create stock count", error: error.message });
+      }
+    }
+  });
+
+  app.post("/api/inventory/stock-counts/:id/counts", isAuthenticated, requireCountingAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const { lines } = recordStockCountRequestSchema.parse(req.body);
+      const count = await storage.recordStockCount(req.params.id, lines, userId);
+      res.json(count);
+    } catch (error: any) {
+      console.error("Error recording stock count:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid count data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to record counts", error: error.message });
+      }
+    }
+  });
+
+  // Submit - works out the differences and flags those needing approval
+  app.post("/api/inventory/stock-counts/:id/submit", isAuthenticated, requireCountingAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const count = await storage.submitStockCount(req.params.id, userId);
+      res.json(count);
+    } catch (error: any) {
+      console.error("Error submitting stock count:", error);
+      res.status(400).json({ message: "Failed to submit stock count", error: error.message });
+    }
+  });
+
+  app.post("/api/inventory/stock-counts/:id/lines/:lineId/review", isAuthenticated, requireFinanceAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const { decision, comment } = reviewStockCountLineRequestSchema.parse(req.body);
+      const count = await storage.reviewStockCountLine(req.params.id, req.params.lineId, decision, userId, comment);
+      res.json(count);
+    } catch (error: any) {
+      console.error("Error reviewing stock count difference:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid review data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to review count difference", error: error.message });
+      }
+    }
+  });
+
+  // Post - writes the adjustment movements and the cost of sales journal
+  app.post("/api/inventory/stock-counts/:id/post", isAuthenticated, requireStockCountAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const count = await storage.postStockCount(req.params.id, userId);
+      res.json(count);
+    } catch (error: any) {
+      console.error("Error posting stock count:", error);
+      res.status(400).json({ message: "Failed to post stock count", error: error.message });
+    }
+  });
+
+  app.post("/api/inventory/stock-counts/:id/cancel", isAuthenticated, requireCountingAccess, async (req, res) => {
+    try {
+      const count = await storage.cancelStockCount(req.params.id);
+      res.json(count);
+    } catch (error: any) {
+      console.error("Error cancelling stock count:", error);
+      res.status(400).json({ message: "Failed to cancel stock count", error: error.message });
+    }
+  });
+
+  // =============================================================================
+  // MARKETING MODULE ROUTES
+  // =============================================================================
+
+  const requireMarketingAccess = requireRole(['admin', 'marketing']);
+
+  // Campaign Management Routes
+  app.get("/api/marketing/campaigns", isAuthenticated, requireMarketingAccess, async (req, res) => {
+    try {
+      const querySchema = z.object({
+        limit: z.string().optional().transform((val) => val ? parseInt(val) : 50),
+        status: z.string().optional(),
+        type: z.string().optional(),
+      });
+
+      const { limit, status, type } = querySchema.parse(req.query);
+      const campaigns = await storage.getCampaigns(status, type, undefined, limit);
+      res.json(campaigns);
+    } catch (error: any) {
+      console.error("Error fetching campaigns:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch campaigns" });
+      }
+    }
+  });
+
+  app.get("/api/marketing/campaigns/:id", isAuthenticated, requireMarketingAccess, async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      res.json(campaign);
+    } catch (error) {
+      console.error("Error fetching campaign:", error);
+      res.status(500).json({ message: "Failed to fetch campaign" });
+    }
+  });
+
+  app.post("/api/marketing/campaigns", isAuthenticated, requireMarketingAccess, async (req, res) => {
     try {
       const userId = (req as any).user?.claims?.sub;
       const campaignData = insertCampaignSchema.parse({
@@ -3379,9 +4781,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId
       });
       
-      // Create user message and get AI response
-      const result = await storage.createAiChatMessage(messageData);
-      res.status(201).json(result);
+      const session = await storage.getAiChatSession(req.params.sessionId);
+      if (!session || session.userId !== userId) {
+        return res.status(404).json({ message: "Chat session not found" });
+      }
+
+      // Messages from the user get an assistant reply; other roles are stored as-is
+      if (messageData.role !== 'user') {
+        const result = await storage.createAiChatMessage(messageData);
+        return res.status(201).json(result);
+      }
+
+      const { userMessage, assistantMessage } = await answerInChatSession(session.id, messageData.content, userId);
+      res.status(201).json({ userMessage, assistantMessage });
     } catch (error: any) {
       console.error("Error creating AI chat message:", error);
       if (error.name === 'ZodError') {
@@ -3590,56 +5002,207 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get sentiment summary for a specific customer
-  app.get("/api/ai/sentiment/customers/:id/summary", isAuthenticated, requireSentimentAccess, async (req, res) => {
+  // Get sentiment summary for a specific customer
+  app.get("/api/ai/sentiment/customers/:id/summary", isAuthenticated, requireSentimentAccess, async (req, res) => {
+    try {
+      const customerId = req.params.id;
+      
+      // Verify customer exists
+      const customer = await storage.getCustomer(customerId);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      // Get sentiment summary
+      const sentimentSummary = await storage.getCustomerSentimentSummary(customerId);
+      
+      // Get recent sentiment history for trend analysis
+      const recentSentiments = await storage.listSentimentsByCustomer(customerId, 10);
+      
+      res.json({
+        customer: { id: customer.id, name: customer.name },
+        summary: sentimentSummary,
+        recentSentiments: recentSentiments.map(s => ({
+          id: s.id,
+          score: s.score,
+          label: s.label,
+          confidence: s.confidence,
+          analyzedAt: s.analyzedAt,
+          communicationType: s.communication?.communicationType,
+          communicationDirection: s.communication?.direction
+        }))
+      });
+    } catch (error: any) {
+      console.error("Error fetching customer sentiment summary:", error);
+      res.status(500).json({ message: "Failed to fetch sentiment summary", error: error.message });
+    }
+  });
+
+  // Get global sentiment distribution summary
+  app.get("/api/ai/sentiment/summary", isAuthenticated, requireSentimentAccess, async (req, res) => {
+    try {
+      // Get global sentiment summary
+      const globalSummary = await storage.getGlobalSentimentSummary();
+      
+      res.json({
+        global: globalSummary,
+        generatedAt: new Date().toISOString(),
+        aiConfigured: isOpenAIConfigured()
+      });
+    } catch (error: any) {
+      console.error("Error fetching global sentiment summary:", error);
+      res.status(500).json({ message: "Failed to fetch global sentiment summary", error: error.message });
+    }
+  });
+
+  // =============================================================================
+  // SYSTEM SETTINGS ROUTES
+  // =============================================================================
+
+  // Non-admins only see public settings; encrypted values are masked unless an admin reveals one
+  app.get("/api/settings", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const user = await getCachedUser(userId);
+      const isAdmin = user?.role === 'admin' && user.isActive;
+      const category = req.query.category as string | undefined;
+
+      const saved = await storage.getSystemSettings(category, !isAdmin);
+      const defaults = getDefaultSettingRows(new Set(saved.map(s => s.key)))
+        .filter(s => (!category || s.category === category) && (isAdmin || s.isPublic));
+
+      res.json([...saved.map(s => presentSetting(s)), ...defaults]);
+    } catch (error: any) {
+      console.error("Error fetching system settings:", error);
+      res.status(500).json({ message: "Failed to fetch system settings", error: error.message });
+    }
+  });
+
+  app.get("/api/settings/:key", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const user = await getCachedUser(userId);
+      const isAdmin = user?.role === 'admin' && user.isActive;
+
+      const setting = await storage.getSystemSetting(req.params.key)
+        ?? getDefaultSettingRows(new Set()).find(s => s.key === req.params.key);
+      if (!setting || (!isAdmin && !setting.isPublic)) {
+        return res.status(404).json({ message: "Setting not found" });
+      }
+
+      const reveal = isAdmin && req.query.reveal === 'true';
+      if (reveal && setting.isEncrypted) {
+        await storage.createAuditLog({
+          tableName: 'system_settings',
+          recordId: setting.id,
+          action: 'export',
+          userId,
+          module: 'settings',
+          description: `Revealed encrypted system setting ${setting.key}`,
+        });
+      }
+
+      res.json(presentSetting(setting, reveal));
+    } catch (error: any) {
+      console.error("Error fetching system setting:", error);
+      res.status(500).json({ message: "Failed to fetch system setting", error: error.message });
+    }
+  });
+
+  app.put("/api/settings/:key", isAuthenticated, requireRole(['admin']), async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      if (!/^[a-z0-9_.]{2,100}$/.test(req.params.key)) {
+        return res.status(400).json({ message: "Setting keys may only contain lowercase letters, digits, '_' and '.'" });
+      }
+
+      const request = upsertSystemSettingRequestSchema.parse(req.body);
+      const setting = await storage.upsertSystemSetting(req.params.key, request, userId);
+      await invalidateSettingDependentCaches(req.params.key);
+      res.json(presentSetting(setting));
+    } catch (error: any) {
+      console.error("Error saving system setting:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid setting data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to save system setting", error: error.message });
+      }
+    }
+  });
+
+  app.delete("/api/settings/:key", isAuthenticated, requireRole(['admin']), async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      await storage.deleteSystemSetting(req.params.key, userId);
+      await invalidateSettingDependentCaches(req.params.key);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Error deleting system setting:", error);
+      res.status(400).json({ message: "Failed to delete system setting", error: error.message });
+    }
+  });
+
+  // =============================================================================
+  // DOCUMENT NUMBERING ROUTES
+  // =============================================================================
+
+  app.get("/api/document-sequences", isAuthenticated, requireRole(['admin', 'finance']), async (req, res) => {
+    try {
+      const sequences = await storage.getDocumentSequences(req.query.documentType as string | undefined);
+      res.json(sequences);
+    } catch (error: any) {
+      console.error("Error fetching document sequences:", error);
+      res.status(500).json({ message: "Failed to fetch document sequences", error: error.message });
+    }
+  });
+
+  app.post("/api/document-sequences", isAuthenticated, requireRole(['admin']), async (req, res) => {
+    try {
+      const sequenceData = insertDocumentSequenceSchema.parse(req.body);
+      const sequence = await storage.createDocumentSequence(sequenceData);
+      res.status(201).json(sequence);
+    } catch (error: any) {
+      console.error("Error creating document sequence:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid document sequence data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to create document sequence", error: error.message });
+      }
+    }
+  });
+
+  app.patch("/api/document-sequences/:id", isAuthenticated, requireRole(['admin']), async (req, res) => {
     try {
-      const customerId = req.params.id;
-      
-      // Verify customer exists
-      const customer = await storage.getCustomer(customerId);
-      if (!customer) {
-        return res.status(404).json({ message: "Customer not found" });
-      }
-
-      // Get sentiment summary
-      const sentimentSummary = await storage.getCustomerSentimentSummary(customerId);
-      
-      // Get recent sentiment history for trend analysis
-      const recentSentiments = await storage.listSentimentsByCustomer(customerId, 10);
-      
-      res.json({
-        customer: { id: customer.id, name: customer.name },
-        summary: sentimentSummary,
-        recentSentiments: recentSentiments.map(s => ({
-          id: s.id,
-          score: s.score,
-          label: s.label,
-          confidence: s.confidence,
-          analyzedAt: s.analyzedAt,
-          communicationType: s.communication?.communicationType,
-          communicationDirection: s.communication?.direction
-        }))
-      });
+      const sequenceData = insertDocumentSequenceSchema.partial().parse(req.body);
+      const sequence = await storage.updateDocumentSequence(req.params.id, sequenceData);
+      res.json(sequence);
     } catch (error: any) {
-      console.error("Error fetching customer sentiment summary:", error);
-      res.status(500).json({ message: "Failed to fetch sentiment summary", error: error.message });
+      console.error("Error updating document sequence:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid document sequence data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to update document sequence", error: error.message });
+      }
     }
   });
 
-  // Get global sentiment distribution summary
-  app.get("/api/ai/sentiment/summary", isAuthenticated, requireSentimentAccess, async (req, res) => {
+  // Proves every issued number is consecutive and still backed by a document
+  app.get("/api/document-sequences/gap-report", isAuthenticated, requireRole(['admin', 'finance']), async (req, res) => {
     try {
-      // Get global sentiment summary
-      const globalSummary = await storage.getGlobalSentimentSummary();
-      
+      const year = req.query.year ? parseInt(req.query.year as string, 10) : undefined;
+      if (year !== undefined && !Number.isInteger(year)) {
+        return res.status(400).json({ message: "Invalid year" });
+      }
+
+      const report = await storage.getDocumentNumberGapReport(year, req.query.documentType as string | undefined);
       res.json({
-        global: globalSummary,
-        generatedAt: new Date().toISOString(),
-        aiConfigured: isOpenAIConfigured()
+        year: year ?? null,
+        isGapFree: report.every(r => r.isGapFree),
+        sequences: report,
       });
     } catch (error: any) {
-      console.error("Error fetching global sentiment summary:", error);
-      res.status(500).json({ message: "Failed to fetch global sentiment summary", error: error.message });
+      console.error("Error building document number gap report:", error);
+      res.status(500).json({ message: "Failed to build document number gap report", error: error.message });
     }
   });
 
@@ -3673,7 +5236,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/compliance/licenses", isAuthenticated, requireAdminAccess, async (req, res) => {
     try {
-      const licenseData = insertLicenseSchema.parse(req.body);
+      const userId = (req as any).user?.claims?.sub;
+      const licenseData = insertLicenseSchema.parse({
+        ...req.body,
+        managedBy: req.body.managedBy || userId
+      });
       const license = await storage.createLicense(licenseData);
       res.status(201).json(license);
     } catch (error: any) {
@@ -3701,6 +5268,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/compliance/licenses/expiring", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      const days = req.query.days ? parseInt(req.query.days as string) : 90;
+      const licenses = await storage.getExpiringLicenses(days);
+      res.json(licenses);
+    } catch (error) {
+      console.error("Error fetching expiring licenses:", error);
+      res.status(500).json({ message: "Failed to fetch expiring licenses" });
+    }
+  });
+
+  app.post("/api/compliance/licenses/:id/renew", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      const renewSchema = z.object({
+        newExpiryDate: z.string().min(1, "New expiry date is required"),
+        renewalDate: z.string().optional(),
+      });
+      const { newExpiryDate, renewalDate } = renewSchema.parse(req.body);
+      const renewedOn = renewalDate || new Date().toISOString().split('T')[0];
+      if (newExpiryDate <= renewedOn) {
+        return res.status(400).json({ message: "New expiry date must be after the renewal date" });
+      }
+
+      const license = await storage.renewLicense(req.params.id, newExpiryDate, renewedOn);
+      if (!license) {
+        return res.status(404).json({ message: "License not found" });
+      }
+      res.json(license);
+    } catch (error: any) {
+      console.error("Error renewing license:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid renewal data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to renew license", error: error.message });
+      }
+    }
+  });
+
   // Regulatory Reports
   app.get("/api/compliance/regulatory-reports", isAuthenticated, requireAdminAccess, async (req, res) => {
     try {
@@ -3728,7 +5333,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = (req as any).user?.claims?.sub;
       const reportData = insertRegulatoryReportSchema.parse({
         ...req.body,
-        submittedBy: userId
+        status: 'draft',
+        preparedBy: userId
       });
       const report = await storage.createRegulatoryReport(reportData);
       res.status(201).json(report);
@@ -3742,6 +5348,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/compliance/regulatory-reports/:id", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      const existing = await storage.getRegulatoryReport(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Regulatory report not found" });
+      }
+      if (existing.status !== 'draft' || existing.reviewedBy) {
+        return res.status(400).json({ message: "Only draft reports that have not been reviewed can be edited" });
+      }
+
+      const reportData = insertRegulatoryReportSchema
+        .omit({ status: true, preparedBy: true, reviewedBy: true, approvedBy: true, submissionReference: true, submittedDate: true })
+        .partial()
+        .parse(req.body);
+      const report = await storage.updateRegulatoryReport(req.params.id, reportData);
+      res.json(report);
+    } catch (error: any) {
+      console.error("Error updating regulatory report:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid report data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to update regulatory report", error: error.message });
+      }
+    }
+  });
+
+  app.post("/api/compliance/regulatory-reports/:id/review", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const report = await storage.reviewRegulatoryReport(req.params.id, userId);
+      res.json(report);
+    } catch (error: any) {
+      console.error("Error reviewing regulatory report:", error);
+      res.status(400).json({ message: "Failed to review regulatory report", error: error.message });
+    }
+  });
+
+  app.post("/api/compliance/regulatory-reports/:id/approve", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const report = await storage.approveRegulatoryReport(req.params.id, userId);
+      res.json(report);
+    } catch (error: any) {
+      console.error("Error approving regulatory report:", error);
+      res.status(400).json({ message: "Failed to approve regulatory report", error: error.message });
+    }
+  });
+
+  app.post("/api/compliance/regulatory-reports/:id/submit", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      const { submissionReference } = z.object({
+        submissionReference: z.string().min(1, "Submission reference from the authority is required"),
+      }).parse(req.body);
+      const report = await storage.submitRegulatoryReport(req.params.id, submissionReference);
+      res.json(report);
+    } catch (error: any) {
+      console.error("Error submitting regulatory report:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid submission data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to submit regulatory report", error: error.message });
+      }
+    }
+  });
+
+  app.post("/api/compliance/regulatory-reports/:id/reject", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const { reason } = z.object({
+        reason: z.string().min(1, "Rejection reason is required"),
+      }).parse(req.body);
+      const report = await storage.rejectRegulatoryReport(req.params.id, userId, reason);
+      res.json(report);
+    } catch (error: any) {
+      console.error("Error rejecting regulatory report:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid rejection data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to reject regulatory report", error: error.message });
+      }
+    }
+  });
+
   // Audit Logs
   app.get("/api/compliance/audit-logs", isAuthenticated, requireAdminAccess, async (req, res) => {
     try {
@@ -3750,12 +5439,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         action: z.string().optional(),
         userId: z.string().optional(),
         entityType: z.string().optional(),
+        recordId: z.string().optional(),
         startDate: z.string().optional(),
         endDate: z.string().optional(),
       });
 
-      const { limit, action, userId, entityType, startDate, endDate } = querySchema.parse(req.query);
-      const auditLogs = await storage.getAuditLogs(entityType, undefined, userId, action, limit);
+      const { limit, action, userId, entityType, recordId, startDate, endDate } = querySchema.parse(req.query);
+      const auditLogs = await storage.getAuditLogs(
+        entityType,
+        recordId,
+        userId,
+        action,
+        limit,
+        startDate ? new Date(startDate) : undefined,
+        endDate ? new Date(`${endDate}T23:59:59.999`) : undefined
+      );
       res.json(auditLogs);
     } catch (error: any) {
       console.error("Error fetching audit logs:", error);
@@ -3767,6 +5465,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/compliance/audit-logs/verify", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      const verification = await storage.verifyAuditLogChain();
+      res.json(verification);
+    } catch (error: any) {
+      console.error("Error verifying audit log chain:", error);
+      res.status(500).json({ message: "Failed to verify audit log chain" });
+    }
+  });
+
   app.post("/api/compliance/audit-logs", isAuthenticated, requireAdminAccess, async (req, res) => {
     try {
       const userId = (req as any).user?.claims?.sub;
@@ -3813,7 +5521,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = (req as any).user?.claims?.sub;
       const recallData = insertRecallNoticeSchema.parse({
         ...req.body,
-        initiatedBy: userId
+        managedBy: req.body.managedBy || userId
       });
       const recall = await storage.createRecallNotice(recallData);
       res.status(201).json(recall);
@@ -3827,6 +5535,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Start a recall - quarantines every affected batch so it can no longer be picked
+  app.post("/api/compliance/recall-notices/:id/initiate", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const result = await storage.initiateRecall(req.params.id, userId);
+      res.json({
+        ...result,
+        message: `Recall started - ${result.quarantinedBatches.length} batches quarantined`
+      });
+    } catch (error: any) {
+      console.error("Error initiating recall:", error);
+      res.status(400).json({ message: "Failed to initiate recall", error: error.message });
+    }
+  });
+
+  app.post("/api/compliance/recall-notices/:id/complete", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      const recall = await storage.completeRecall(req.params.id);
+      res.json(recall);
+    } catch (error: any) {
+      console.error("Error completing recall:", error);
+      res.status(400).json({ message: "Failed to complete recall", error: error.message });
+    }
+  });
+
+  // Customers who received the recalled batches, via sales orders and POS receipts
+  app.get("/api/compliance/recall-notices/:id/traceability", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      const report = await storage.getRecallTraceability(req.params.id);
+      res.json(report);
+    } catch (error: any) {
+      console.error("Error building recall traceability report:", error);
+      res.status(400).json({ message: "Failed to build traceability report", error: error.message });
+    }
+  });
+
+  app.get("/api/compliance/recall-notices/:id/returns", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      const returns = await storage.getRecallReturns(req.params.id);
+      res.json(returns);
+    } catch (error) {
+      console.error("Error fetching recall returns:", error);
+      res.status(500).json({ message: "Failed to fetch recall returns" });
+    }
+  });
+
+  app.post("/api/compliance/recall-notices/:id/returns", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const returnData = recordRecallReturnRequestSchema.parse(req.body);
+      const result = await storage.recordRecallReturn(req.params.id, returnData, userId);
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error("Error recording recall return:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid recall return data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to record recall return", error: error.message });
+      }
+    }
+  });
+
   // =============================================================================
   // ADVANCED REPORTING MODULE ROUTES
   // =============================================================================
@@ -3959,6 +5729,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Schedule a saved report - nextRunAt is derived from the cron expression
+  app.put("/api/reports/saved/:id/schedule", isAuthenticated, requireReportingAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const user = await storage.getUser(userId);
+
+      const report = await storage.getSavedReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      if (user?.role !== 'admin' && report.userId !== userId) {
+        return res.status(403).json({ message: "Access denied to this report" });
+      }
+
+      const { isScheduled, scheduleConfig } = z.object({
+        isScheduled: z.boolean(),
+        scheduleConfig: reportScheduleConfigSchema.optional(),
+      }).parse(req.body);
+
+      if (isScheduled && !scheduleConfig) {
+        return res.status(400).json({ message: "Schedule configuration is required when scheduling a report" });
+      }
+
+      const updated = await storage.updateSavedReport(req.params.id, {
+        isScheduled,
+        ...(scheduleConfig ? { scheduleConfig } : {}),
+      });
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Error scheduling saved report:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid schedule data", errors: error.errors });
+      } else {
+        res.status(400).json({ message: "Failed to schedule report", error: error.message });
+      }
+    }
+  });
+
+  // Run a scheduled report now, delivering to its recipients
+  app.post("/api/reports/saved/:id/run", isAuthenticated, requireReportingAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const user = await storage.getUser(userId);
+
+      const report = await storage.getSavedReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      if (user?.role !== 'admin' && report.userId !== userId) {
+        return res.status(403).json({ message: "Access denied to this report" });
+      }
+
+      const exportId = await runSavedReport(report);
+      const reportExport = await storage.getReportExport(exportId);
+      res.json(reportExport);
+    } catch (error: any) {
+      console.error("Error running saved report:", error);
+      res.status(400).json({ message: "Failed to run report", error: error.message });
+    }
+  });
+
+  app.get("/api/reports/outbox", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      const querySchema = z.object({
+        limit: z.string().optional().transform((val) => val ? parseInt(val) : 50),
+        status: z.string().optional(),
+      });
+
+      const { limit, status } = querySchema.parse(req.query);
+      const messages = await storage.getOutboxMessages(status, limit);
+      res.json(messages);
+    } catch (error: any) {
+      console.error("Error fetching outbox messages:", error);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ message: "Invalid query parameters", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch outbox messages" });
+      }
+    }
+  });
+
+  // Background job runner
+  app.get("/api/jobs/status", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      res.json(jobRunner.getStatus());
+    } catch (error) {
+      console.error("Error getting job runner status:", error);
+      res.status(500).json({ message: "Failed to get job runner status" });
+    }
+  });
+
+  app.post("/api/jobs/:name/run", isAuthenticated, requireAdminAccess, async (req, res) => {
+    try {
+      const status = await jobRunner.runJob(req.params.name);
+      res.json(status);
+    } catch (error: any) {
+      console.error("Error running job:", error);
+      res.status(400).json({ message: "Failed to run job", error: error.message });
+    }
+  });
+
   // Report Exports
   app.post("/api/reports/:reportId/export", isAuthenticated, requireReportingAccess, async (req, res) => {
     try {
@@ -3969,25 +5840,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Valid format (pdf, excel, csv) is required" });
       }
 
-      // exportReport method doesn't exist, creating report export instead
-      const exportData = {
-        fileName: `report_${req.params.reportId}_${Date.now()}`,
+      // reportId may point at a saved report (stored parameters) or directly at a definition
+      const savedReport = await storage.getSavedReport(req.params.reportId);
+      const definitionId = savedReport?.reportDefinitionId ?? req.params.reportId;
+      const definition = await storage.getReportDefinition(definitionId);
+      if (!definition) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const exportParameters = {
+        ...((savedReport?.parameters as Record<string, unknown>) || {}),
+        ...(parameters || {}),
+      };
+      const exportResult = await storage.createReportExport({
+        reportDefinitionId: definition.id,
+        savedReportId: savedReport?.id,
+        fileName: `${definition.name.replace(/[^\w\-]+/g, '_')}_${new Date().toISOString().split('T')[0]}.${REPORT_FORMAT_EXTENSIONS[format as ReportFormat]}`,
         fileFormat: format,
-        status: 'generating' as const,
+        status: 'generating',
         generatedBy: userId,
-        metadata: parameters || {},
-        filePath: `exports/report_${req.params.reportId}_${Date.now()}.${format}`,
-        fileSize: null,
-        errorMessage: null
-      };
-      const exportResult = await storage.createReportExport(exportData);
-      res.status(201).json(exportResult);
+        parameters: exportParameters,
+        expiresAt: reportExportWorker.getExpiryDate(),
+      });
+
+      reportExportWorker.enqueue(exportResult.id);
+      res.status(202).json(exportResult);
     } catch (error: any) {
       console.error("Error exporting report:", error);
       res.status(400).json({ message: "Failed to export report", error: error.message });
     }
   });
 
+  app.get("/api/reports/exports/:id", isAuthenticated, requireReportingAccess, async (req, res) => {
+    try {
+      const userId = (req as any).user?.claims?.sub;
+      const user = await storage.getUser(userId);
+
+      const exportData = await storage.getReportExport(req.params.id);
+      if (!exportData) {
+        return res.status(404).json({ message: "Export not found" });
+      }
+
+      if (user?.role !== 'admin' && exportData.generatedBy !== userId) {
+        return res.status(403).json({ message: "Access denied to this export" });
+      }
+
+      res.json(exportData);
+    } catch (error) {
+      console.error("Error fetching export:", error);
+      res.status(500).json({ message: "Failed to fetch export" });
+    }
+  });
+
   app.get("/api/reports/exports/:id/download", isAuthenticated, requireReportingAccess, async (req, res) => {
     try {
       const userId = (req as any).user?.claims?.sub;
@@ -4003,16 +5907,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied to this export" });
       }
       
-      if (exportData.status !== 'completed') {
-        return res.status(400).json({ message: "Export is not ready for download" });
+      if (exportData.status === 'expired' || (exportData.expiresAt && exportData.expiresAt < new Date())) {
+        return res.status(410).json({ message: "Export has expired" });
       }
-      
-      // In a real implementation, this would stream the file
-      res.json({
-        message: "Export ready for download",
-        export: exportData,
-        downloadUrl: `/downloads/${exportData.filePath}`
+
+      if (exportData.status !== 'completed' || !exportData.filePath) {
+        return res.status(400).json({ message: "Export is not ready for download", status: exportData.status });
+      }
+
+      const filePath = reportExportWorker.resolveFilePath(exportData.filePath);
+      if (!fs.existsSync(filePath)) {
+        return res.status(410).json({ message: "Export file is no longer available" });
+      }
+
+      await storage.recordReportExportDownload(exportData.id);
+
+      res.setHeader('Content-Type', REPORT_FORMAT_CONTENT_TYPES[exportData.fileFormat as ReportFormat] || 'application/octet-stream');
+      res.setHeader('Content-Disposition', `attachment; filename="${exportData.fileName}"`);
+      if (exportData.fileSize) {
+        res.setHeader('Content-Length', exportData.fileSize.toString());
+      }
+
+      const stream = fs.createReadStream(filePath);
+      stream.on('error', (streamError) => {
+        console.error("Error streaming export:", streamError);
+        if (!res.headersSent) {
+          res.status(500).json({ message: "Failed to download export" });
+        } else {
+          res.end();
+        }
       });
+      stream.pipe(res);
     } catch (error) {
       console.error("Error downloading export:", error);
       res.status(500).json({ message: "Failed to download export" });
@@ -0,0 +1,575 @@
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import type { SaftDocumentLine, SaftLedgerEntry, SaftPayment, SaftSalesDocument, SaftSourceData } from "@shared/schema";
+import { FISCAL_DOCUMENT_TYPES, fiscalDocumentNumber } from "./fiscal-signing";
+import { toBaseAmount } from "./general-ledger";
+import { getStorage } from "./storage";
+import { isTaxable } from "./tax";
+
+/**
+ * SAF-T (AO) export: the Standard Audit File for Tax purposes the AGT asks for on
+ * inspection and with the monthly IVA return. One file covers one period of one fiscal
+ * year and holds the master files, the sales documents (invoices FT, credit notes NC,
+ * POS invoice-receipts FR), customer receipts (RC) and, optionally, the general ledger.
+ * Amounts are in the base currency; foreign-currency documents also carry their own.
+ */
+
+const SAFT_NAMESPACE = 'urn:OECD:StandardAuditFile-Tax:AO_1.01_01';
+const SAFT_VERSION = '1.01_01';
+const PRODUCT_ID = 'PharmaERP';
+const PRODUCT_VERSION = '1.0';
+
+// AGT conventions for parties and products the file has no master record for
+const FINAL_CONSUMER_ID = 'CONSUMIDOR-FINAL';
+const FINAL_CONSUMER_TAX_ID = '999999999';
+const UNKNOWN = 'Desconhecido';
+const GENERIC_PRODUCT_CODE = 'DIVERSOS';
+
+const PAYMENT_MECHANISMS: Record<SaftPayment['paymentMethod'], string> = {
+  cash: 'NU',
+  card: 'CD',
+  mobile_money: 'DE',
+  bank_transfer: 'TB',
+  check: 'CH',
+  credit: 'OU',
+};
+
+const JOURNALS: Record<SaftLedgerEntry['sourceType'], string> = {
+  manual: 'Lançamentos manuais',
+  invoice: 'Vendas',
+  credit_note: 'Notas de crédito',
+  receipt: 'Recebimentos',
+  goods_receipt: 'Compras - receção de mercadoria',
+  vendor_bill: 'Compras - faturas de fornecedores',
+  payroll: 'Salários',
+  pos_sale: 'Vendas a dinheiro',
+  supplier_payment: 'Pagamentos a fornecedores',
+  fx_revaluation: 'Diferenças de câmbio',
+  cost_of_sales: 'Custo das mercadorias vendidas',
+  landed_cost: 'Custos de importação',
+  reversal: 'Estornos',
+};
+
+interface SaftHeader {
+  companyName: string;
+  taxId: string;
+  address: string;
+  city: string;
+  baseCurrency: string;
+  softwareValidationNumber: string;
+  receivableAccount: string;
+  payableAccount: string;
+}
+
+interface SaftTax {
+  taxType: 'IVA' | 'NS';
+  taxCode: 'NOR' | 'RED' | 'ISE' | 'NS';
+  rate: number;
+  description: string;
+}
+
+const xmlEscape = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// SAF-T text fields: no control characters, trimmed to the element's maximum length
+const xmlText = (value: string | null | undefined, maxLength: number) =>
+  xmlEscape((value ?? '').replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, ' ').trim().slice(0, maxLength));
+
+const element = (name: string, value: string) => `<${name}>${value}</${name}>`;
+const money = (amount: number) => (Math.round(amount * 100) / 100).toFixed(2);
+const price = (amount: number) => String(Math.round(amount * 1e6) / 1e6);
+const dateTime = (date: Date) => date.toISOString().split('.')[0];
+const period = (date: string) => String(Number(date.slice(5, 7)));
+
+const saftTax = (line: Pick<SaftDocumentLine, 'taxCode' | 'taxRate'>): SaftTax => {
+  switch (line.taxCode.category) {
+    case 'normal':
+      return { taxType: 'IVA', taxCode: 'NOR', rate: line.taxRate, description: 'Taxa normal' };
+    case 'reduced':
+      return { taxType: 'IVA', taxCode: 'RED', rate: line.taxRate, description: 'Taxa reduzida' };
+    case 'exempt':
+      return { taxType: 'IVA', taxCode: 'ISE', rate: 0, description: 'Isento' };
+    default:
+      return { taxType: 'NS', taxCode: 'NS', rate: 0, description: 'Não sujeito' };
+  }
+};
+
+const taxKey = (tax: SaftTax) => `${tax.taxType}|${tax.taxCode}|${tax.rate}`;
+
+const addressXml = (tag: string, address: string | null, city: string | null, country: string) => element(tag, [
+  element('AddressDetail', xmlText(address || UNKNOWN, 100)),
+  element('City', xmlText(city || UNKNOWN, 50)),
+  element('Country', country),
+].join(''));
+
+// ISO codes of the countries the supplier form offers
+const COUNTRY_CODES: Record<string, string> = {
+  'Angola': 'AO', 'South Africa': 'ZA', 'Nigeria': 'NG', 'Ghana': 'GH', 'Kenya': 'KE', 'United States': 'US',
+  'United Kingdom': 'GB', 'Germany': 'DE', 'France': 'FR', 'India': 'IN', 'China': 'CN', 'Brazil': 'BR',
+};
+
+/**
+ * What would make the file fail the XSD or be rejected by the AGT: the company NIF and the
+ * software certificate number are mandatory, documents must be numbered in series and
+ * every exempt line must cite its exemption code.
+ */
+function validateSaftSource(data: SaftSourceData, header: SaftHeader): string[] {
+  const problems: string[] = [];
+  if (!header.taxId) {
+    problems.push('Company NIF (company_tax_id) is not configured');
+  }
+  if (!header.softwareValidationNumber) {
+    problems.push('AGT software certificate number (saft_software_validation_number) is not configured');
+  }
+  if (data.from.slice(0, 4) !== data.to.slice(0, 4)) {
+    problems.push('A SAF-T file covers a single fiscal year');
+  }
+  for (const document of data.salesDocuments) {
+    if (!fiscalDocumentNumber(FISCAL_DOCUMENT_TYPES[document.documentType], document.documentNumber)) {
+      problems.push(`${document.documentNumber} does not end in a sequence number`);
+    }
+    if (document.lines.length === 0) {
+      problems.push(`${document.documentNumber} has no lines`);
+    }
+    if (document.lines.some(line => !isTaxable(line.taxCode) && !line.taxCode.exemptionCode)) {
+      problems.push(`${document.documentNumber} has exempt lines without an exemption code`);
+    }
+  }
+  for (const payment of data.payments) {
+    if (payment.lines.length > 0 && !fiscalDocumentNumber('RC', payment.receiptNumber)) {
+      problems.push(`${payment.receiptNumber} does not end in a sequence number`);
+    }
+  }
+  return problems;
+}
+
+function buildHeader(data: SaftSourceData, header: SaftHeader, createdAt: Date): string {
+  return element('Header', [
+    element('AuditFileVersion', SAFT_VERSION),
+    element('CompanyID', xmlText(header.taxId, 50)),
+    element('TaxRegistrationNumber', xmlText(header.taxId, 20)),
+    element('TaxAccountingBasis', data.generalLedger ? 'I' : 'F'),
+    element('CompanyName', xmlText(header.companyName, 200)),
+    addressXml('CompanyAddress', header.address, header.city, 'AO'),
+    element('FiscalYear', data.from.slice(0, 4)),
+    element('StartDate', data.from),
+    element('EndDate', data.to),
+    element('CurrencyCode', header.baseCurrency),
+    element('DateCreated', createdAt.toISOString().split('T')[0]),
+    element('TaxEntity', 'Global'),
+    element('ProductCompanyTaxID', xmlText(header.taxId, 20)),
+    element('SoftwareValidationNumber', xmlText(header.softwareValidationNumber, 50)),
+    element('ProductID', xmlText(`${PRODUCT_ID}/${header.companyName}`, 255)),
+    element('ProductVersion', PRODUCT_VERSION),
+  ].join(''));
+}
+
+function buildMasterFiles(data: SaftSourceData, header: SaftHeader, taxes: SaftTax[]): string {
+  const parts: string[] = [];
+
+  if (data.generalLedger) {
+    // GR: first-degree accounts, GA: aggregating accounts, GM: accounts that take postings
+    const accounts = data.generalLedger.accounts.map(account => {
+      const category = !account.parentCode ? 'GR' : account.isPostable ? 'GM' : 'GA';
+      return element('Account', [
+        element('AccountID', xmlText(account.code, 30)),
+        element('AccountDescription', xmlText(account.name, 100)),
+        element('OpeningDebitBalance', money(Math.max(account.openingBalance, 0))),
+        element('OpeningCreditBalance', money(Math.max(-account.openingBalance, 0))),
+        element('ClosingDebitBalance', money(Math.max(account.closingBalance, 0))),
+        element('ClosingCreditBalance', money(Math.max(-account.closingBalance, 0))),
+        element('GroupingCategory', category),
+        account.parentCode ? element('GroupingCode', xmlText(account.parentCode, 30)) : '',
+      ].join(''));
+    });
+    parts.push(element('GeneralLedgerAccounts', accounts.join('')));
+  }
+
+  const customers = data.customers.map(customer => element('Customer', [
+    element('CustomerID', xmlText(customer.id, 30)),
+    element('AccountID', xmlText(header.receivableAccount || UNKNOWN, 30)),
+    element('CustomerTaxID', xmlText(customer.taxId || FINAL_CONSUMER_TAX_ID, 30)),
+    element('CompanyName', xmlText(customer.name, 100)),
+    addressXml('BillingAddress', customer.address, null, 'AO'),
+    customer.phone ? element('Telephone', xmlText(customer.phone, 20)) : '',
+    customer.email ? element('Email', xmlText(customer.email, 60)) : '',
+    element('SelfBillingIndicator', '0'),
+  ].join('')));
+  if (data.salesDocuments.some(document => !document.customerId)) {
+    customers.push(element('Customer', [
+      element('CustomerID', FINAL_CONSUMER_ID),
+      element('AccountID', UNKNOWN),
+      element('CustomerTaxID', FINAL_CONSUMER_TAX_ID),
+      element('CompanyName', 'Consumidor final'),
+      addressXml('BillingAddress', null, null, 'AO'),
+      element('SelfBillingIndicator', '0'),
+    ].join('')));
+  }
+  parts.push(...customers);
+
+  parts.push(...data.suppliers.map(supplier => element('Supplier', [
+    element('SupplierID', xmlText(supplier.id, 30)),
+    element('AccountID', xmlText(header.payableAccount || UNKNOWN, 30)),
+    element('SupplierTaxID', xmlText(supplier.taxId || FINAL_CONSUMER_TAX_ID, 30)),
+    element('CompanyName', xmlText(supplier.name, 100)),
+    addressXml('BillingAddress', supplier.address, null, (supplier.country && COUNTRY_CODES[supplier.country]) || UNKNOWN),
+    supplier.phone ? element('Telephone', xmlText(supplier.phone, 20)) : '',
+    supplier.email ? element('Email', xmlText(supplier.email, 60)) : '',
+    element('SelfBillingIndicator', '0'),
+  ].join(''))));
+
+  const products = data.products.map(product => element('Product', [
+    element('ProductType', 'P'),
+    element('ProductCode', xmlText(product.sku, 60)),
+    product.category ? element('ProductGroup', xmlText(product.category, 50)) : '',
+    element('ProductDescription', xmlText(product.name, 200)),
+    element('ProductNumberCode', xmlText(product.sku, 60)),
+  ].join('')));
+  if (data.salesDocuments.some(document => document.lines.some(line => !line.productId))) {
+    products.push(element('Product', [
+      element('ProductType', 'P'),
+      element('ProductCode', GENERIC_PRODUCT_CODE),
+      element('ProductDescription', 'Diversos'),
+      element('ProductNumberCode', GENERIC_PRODUCT_CODE),
+    ].join('')));
+  }
+  parts.push(...products);
+
+  parts.push(element('TaxTable', taxes.map(tax => element('TaxTableEntry', [
+    element('TaxType', tax.taxType),
+    element('TaxCountryRegion', 'AO'),
+    element('TaxCode', tax.taxCode),
+    element('Description', xmlText(tax.description, 255)),
+    element('TaxPercentage', price(tax.rate)),
+  ].join(''))).join('')));
+
+  return element('MasterFiles', parts.join(''));
+}
+
+function buildGeneralLedgerEntries(entries: SaftLedgerEntry[]): string {
+  let totalDebit = 0;
+  let totalCredit = 0;
+  const sourceTypes = Array.from(new Set(entries.map(entry => entry.sourceType)));
+  const journals = sourceTypes.map(sourceType => {
+    const transactions = entries.filter(entry => entry.sourceType === sourceType).map(entry => {
+      const customerId = entry.lines.find(line => line.customerId)?.customerId;
+      const supplierId = entry.lines.find(line => line.supplierId)?.supplierId;
+      const systemEntryDate = dateTime(entry.postedAt ?? new Date(`${entry.entryDate}T00:00:00Z`));
+      const ledgerLine = (kind: 'DebitLine' | 'CreditLine', line: SaftLedgerEntry['lines'][number], index: number, amount: number) => element(kind, [
+        element('RecordID', xmlText(`${entry.entryNumber}-${index + 1}`, 30)),
+        element('AccountID', xmlText(line.accountCode, 30)),
+        entry.sourceReference ? element('SourceDocumentID', xmlText(entry.sourceReference, 60)) : '',
+        element('SystemEntryDate', systemEntryDate),
+        element('Description', xmlText(line.description || entry.description, 200)),
+        element(kind === 'DebitLine' ? 'DebitAmount' : 'CreditAmount', money(amount)),
+      ].join(''));
+
+      const debitLines: string[] = [];
+      const creditLines: string[] = [];
+      for (let index = 0; index < entry.lines.length; index++) {
+        const line = entry.lines[index];
+        if (line.debit > 0) {
+          debitLines.push(ledgerLine('DebitLine', line, index, line.debit));
+          totalDebit += line.debit;
+        }
+        if (line.credit > 0) {
+          creditLines.push(ledgerLine('CreditLine', line, index, line.credit));
+          totalCredit += line.credit;
+        }
+      }
+
+      return element('Transaction', [
+        element('TransactionID', xmlText(`${entry.entryDate} ${sourceType} ${entry.entryNumber}`, 70)),
+        element('Period', period(entry.entryDate)),
+        element('TransactionDate', entry.entryDate),
+        element('SourceID', xmlText(entry.postedBy || UNKNOWN, 30)),
+        element('Description', xmlText(entry.description, 200)),
+        element('DocArchivalNumber', xmlText(entry.entryNumber, 20)),
+        element('TransactionType', 'N'),
+        element('GLPostingDate', (entry.postedAt ? entry.postedAt.toISOString() : entry.entryDate).split('T')[0]),
+        customerId ? element('CustomerID', xmlText(customerId, 30)) : supplierId ? element('SupplierID', xmlText(supplierId, 30)) : '',
+        element('Lines', debitLines.join('') + creditLines.join('')),
+      ].join(''));
+    });
+
+    return element('Journal', [
+      element('JournalID', xmlText(sourceType, 30)),
+      element('Description', xmlText(JOURNALS[sourceType], 200)),
+      ...transactions,
+    ].join(''));
+  });
+
+  return element('GeneralLedgerEntries', [
+    element('NumberOfEntries', String(entries.length)),
+    element('TotalDebit', money(totalDebit)),
+    element('TotalCredit', money(totalCredit)),
+    ...journals,
+  ].join(''));
+}
+
+function buildSalesInvoices(documents: SaftSalesDocument[], header: SaftHeader, productCodeById: Map<string, string>): string {
+  let totalDebit = 0;
+  let totalCredit = 0;
+  const invoices = documents.map(document => {
+    const documentType = FISCAL_DOCUMENT_TYPES[document.documentType];
+    const base = (amount: number) => document.currency === header.baseCurrency ? amount : toBaseAmount(amount, document.fxRate);
+    const netTotal = base(document.netTotal);
+    const taxPayable = base(document.taxPayable);
+    if (!document.cancelled) {
+      if (document.documentType === 'credit_note') {
+        totalDebit += netTotal;
+      } else {
+        totalCredit += netTotal;
+      }
+    }
+
+    const lines = document.lines.map((line, index) => {
+      const tax = saftTax(line);
+      const exempt = !isTaxable(line.taxCode);
+      return element('Line', [
+        element('LineNumber', String(index + 1)),
+        element('ProductCode', xmlText(line.productId ? productCodeById.get(line.productId) ?? line.productId : GENERIC_PRODUCT_CODE, 60)),
+        element('ProductDescription', xmlText(line.description || 'Diversos', 200)),
+        element('Quantity', price(line.quantity)),
+        element('UnitOfMeasure', 'UN'),
+        element('UnitPrice', price(base(line.unitPrice))),
+        element('TaxPointDate', document.documentDate),
+        document.documentType === 'credit_note'
+          ? element('References', [
+              document.creditedDocumentNumber
+                ? element('Reference', xmlText(fiscalDocumentNumber('FT', document.creditedDocumentNumber) ?? document.creditedDocumentNumber, 60))
+                : '',
+              element('Reason', xmlText(document.creditReason, 50)),
+            ].join(''))
+          : '',
+        element('Description', xmlText(line.description || 'Diversos', 200)),
+        element(document.documentType === 'credit_note' ? 'DebitAmount' : 'CreditAmount', money(base(line.netAmount))),
+        element('Tax', [
+          element('TaxType', tax.taxType),
+          element('TaxCountryRegion', 'AO'),
+          element('TaxCode', tax.taxCode),
+          element('TaxPercentage', price(tax.rate)),
+        ].join('')),
+        exempt ? element('TaxExemptionReason', xmlText(line.taxCode.exemptionReason || tax.description, 60)) : '',
+        exempt ? element('TaxExemptionCode', xmlText(line.taxCode.exemptionCode, 3)) : '',
+      ].join(''));
+    });
+
+    const systemEntryDate = dateTime(document.systemEntryDate);
+    return element('Invoice', [
+      element('InvoiceNo', xmlText(fiscalDocumentNumber(documentType, document.documentNumber) ?? document.documentNumber, 60)),
+      element('DocumentStatus', [
+        element('InvoiceStatus', document.cancelled ? 'A' : 'N'),
+        element('InvoiceStatusDate', systemEntryDate),
+        element('SourceID', xmlText(document.createdBy || UNKNOWN, 30)),
+        element('SourceBilling', 'P'),
+      ].join('')),
+      // Documents issued before signing are reported with a zero hash
+      element('Hash', document.hash ?? '0'),
+      element('HashControl', document.hashControl ?? '0'),
+      element('Period', period(document.documentDate)),
+      element('InvoiceDate', document.documentDate),
+      element('InvoiceType', documentType),
+      element('SpecialRegimes', [
+        element('SelfBillingIndicator', '0'),
+        element('CashVATSchemeIndicator', '0'),
+        element('ThirdPartiesBillingIndicator', '0'),
+      ].join('')),
+      element('SourceID', xmlText(document.createdBy || UNKNOWN, 30)),
+      element('SystemEntryDate', systemEntryDate),
+      element('CustomerID', xmlText(document.customerId ?? FINAL_CONSUMER_ID, 30)),
+      ...lines,
+      element('DocumentTotals', [
+        element('TaxPayable', money(taxPayable)),
+        element('NetTotal', money(netTotal)),
+        element('GrossTotal', money(base(document.grossTotal))),
+        document.currency !== header.baseCurrency
+          ? element('Currency', [
+              element('CurrencyCode', document.currency),
+              element('CurrencyAmount', money(document.grossTotal)),
+              element('ExchangeRate', price(document.fxRate)),
+            ].join(''))
+          : '',
+      ].join('')),
+    ].join(''));
+  });
+
+  return element('SalesInvoices', [
+    element('NumberOfEntries', String(documents.length)),
+    element('TotalDebit', money(totalDebit)),
+    element('TotalCredit', money(totalCredit)),
+    ...invoices,
+  ].join(''));
+}
+
+// Receipts are reported by the invoices they settle; unapplied cash has no document to refer to
+function buildPayments(payments: SaftPayment[], header: SaftHeader): string {
+  const reported = payments.filter(payment => payment.lines.length > 0);
+  let totalCredit = 0;
+  const entries = reported.map(payment => {
+    const base = (amount: number) => payment.currency === header.baseCurrency ? amount : toBaseAmount(amount, payment.fxRate);
+    const amounts = payment.lines.map(line => base(line.amount));
+    const total = amounts.reduce((sum, amount) => sum + Math.round(amount * 100), 0) / 100;
+    const applied = payment.lines.reduce((sum, line) => sum + Math.round(line.amount * 100), 0) / 100;
+    if (!payment.cancelled) {
+      totalCredit += total;
+    }
+
+    const systemEntryDate = dateTime(payment.systemEntryDate);
+    return element('Payment', [
+      element('PaymentRefNo', xmlText(fiscalDocumentNumber('RC', payment.receiptNumber) ?? payment.receiptNumber, 60)),
+      element('Period', period(payment.paymentDate)),
+      element('TransactionDate', payment.paymentDate),
+      element('PaymentType', 'RC'),
+      element('DocumentStatus', [
+        element('PaymentStatus', payment.cancelled ? 'A' : 'N'),
+        element('PaymentStatusDate', systemEntryDate),
+        element('SourceID', xmlText(payment.receivedBy, 30)),
+        element('SourcePayment', 'P'),
+      ].join('')),
+      element('PaymentMethod', [
+        element('PaymentMechanism', PAYMENT_MECHANISMS[payment.paymentMethod]),
+        element('PaymentAmount', money(total)),
+        element('PaymentDate', payment.paymentDate),
+      ].join('')),
+      element('SourceID', xmlText(payment.receivedBy, 30)),
+      element('SystemEntryDate', systemEntryDate),
+      element('CustomerID', xmlText(payment.customerId, 30)),
+      ...payment.lines.map((line, index) => element('Line', [
+        element('LineNumber', String(index + 1)),
+        element('SourceDocumentID', [
+          element('OriginatingON', xmlText(fiscalDocumentNumber('FT', line.invoiceNumber) ?? line.invoiceNumber, 60)),
+          element('InvoiceDate', line.invoiceDate),
+        ].join('')),
+        element('CreditAmount', money(amounts[index])),
+      ].join(''))),
+      element('DocumentTotals', [
+        element('TaxPayable', '0.00'),
+        element('NetTotal', money(total)),
+        element('GrossTotal', money(total)),
+        payment.currency !== header.baseCurrency
+          ? element('Currency', [
+              element('CurrencyCode', payment.currency),
+              element('CurrencyAmount', money(applied)),
+              element('ExchangeRate', price(payment.fxRate)),
+            ].join(''))
+          : '',
+      ].join('')),
+    ].join(''));
+  });
+
+  return element('Payments', [
+    element('NumberOfEntries', String(reported.length)),
+    element('TotalDebit', '0.00'),
+    element('TotalCredit', money(totalCredit)),
+    ...entries,
+  ].join(''));
+}
+
+function buildSaftXml(data: SaftSourceData, header: SaftHeader, createdAt = new Date()): Buffer {
+  // The tax table lists every code the documents use, and the configured codes besides
+  const taxes = new Map<string, SaftTax>();
+  for (const taxCode of data.taxCodes) {
+    const tax = saftTax({ taxCode, taxRate: Number(taxCode.rate) });
+    taxes.set(taxKey(tax), tax);
+  }
+  for (const document of data.salesDocuments) {
+    for (const line of document.lines) {
+      const tax = saftTax(line);
+      taxes.set(taxKey(tax), tax);
+    }
+  }
+  const productCodeById = new Map(data.products.map(product => [product.id, product.sku]));
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<AuditFile xmlns="${SAFT_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`,
+    buildHeader(data, header, createdAt),
+    buildMasterFiles(data, header, Array.from(taxes.values())),
+    data.generalLedger ? buildGeneralLedgerEntries(data.generalLedger.entries) : '',
+    element('SourceDocuments', [
+      buildSalesInvoices(data.salesDocuments, header, productCodeById),
+      buildPayments(data.payments, header),
+    ].join('')),
+    '</AuditFile>',
+  ].join('\n');
+
+  return Buffer.from(xml, 'utf8');
+}
+
+/**
+ * Check the file against the official XSD with xmllint when SAFT_AO_XSD_PATH points at
+ * the schema the AGT publishes. Returns whether the check ran and the schema errors, one
+ * per line of xmllint output; without a schema the file goes out unchecked, with a warning.
+ */
+async function validateAgainstXsd(content: Buffer): Promise<{ validated: boolean; errors: string[] }> {
+  const xsdPath = process.env.SAFT_AO_XSD_PATH;
+  if (!xsdPath) {
+    console.warn('SAFT_AO_XSD_PATH is not set; the SAF-T file is exported without XSD validation');
+    return { validated: false, errors: [] };
+  }
+
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'saft-'));
+  const filePath = path.join(directory, 'saft.xml');
+  try {
+    await fs.writeFile(filePath, content);
+    await promisify(execFile)('xmllint', ['--noout', '--schema', xsdPath, filePath], { timeout: 60000 });
+    return { validated: true, errors: [] };
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return { validated: false, errors: ['xmllint is not installed; unset SAFT_AO_XSD_PATH or install libxml2'] };
+    }
+    const output = String(error.stderr || error.message);
+    const errors = output
+      .split('\n')
+      .filter(line => line.includes('error'))
+      .map(line => line.replace(filePath, 'SAF-T'));
+    return { validated: true, errors };
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Render the SAF-T (AO) file for a period. Problems that would get the file rejected are
+ * reported all at once instead of producing a file the AGT will not accept.
+ */
+export async function renderSaftFile(from: string, to: string, includeGeneralLedger: boolean): Promise<{ fileName: string; contentType: string; content: Buffer; xsdValidated: boolean }> {
+  const storage = await getStorage();
+  const header: SaftHeader = {
+    companyName: await storage.getSettingValue('company_name'),
+    taxId: await storage.getSettingValue('company_tax_id'),
+    address: await storage.getSettingValue('company_address'),
+    city: await storage.getSettingValue('company_city'),
+    baseCurrency: await storage.getSettingValue('base_currency'),
+    softwareValidationNumber: await storage.getSettingValue('saft_software_validation_number'),
+    receivableAccount: await storage.getSettingValue('gl_account_receivable'),
+    payableAccount: await storage.getSettingValue('gl_account_payable'),
+  };
+
+  const data = await storage.getSaftSourceData(from, to, includeGeneralLedger);
+  const problems = validateSaftSource(data, header);
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+
+  const content = buildSaftXml(data, header);
+  const schemaCheck = await validateAgainstXsd(content);
+  if (schemaCheck.errors.length > 0) {
+    throw new Error(`SAF-T file does not validate against the XSD: ${schemaCheck.errors.slice(0, 20).join('; ')}`);
+  }
+
+  return {
+    fileName: `SAFT_AO_${header.taxId}_${from}_${to}.xml`,
+    contentType: 'application/xml; charset=utf-8',
+    content,
+    xsdValidated: schemaCheck.validated,
+  };
+}
@@ -81,12 +81,12 @@ async function seedDatabase() {
         key: "ai_enabled",
         value: "true",
         category: "ai",
-        description: "Enable AI features and recommendations",
+        description: "Use the configured AI providers; when off every AI feature runs on the offline rule-based backend",
         isPublic: true,
       },
       {
         key: "default_currency",
-        value: "USD",
+        value: "AOA",
         category: "general",
         description: "Default currency for the system",
         isPublic: true,
@@ -0,0 +1,153 @@
+import crypto from "crypto";
+import type { SystemSetting } from "@shared/schema";
+
+/**
+ * Company-wide settings stored in system_settings. Defaults apply until an admin
+ * saves a value; values flagged isEncrypted are stored AES-256-GCM encrypted.
+ */
+
+type SettingCategory = 'ai' | 'general' | 'feature_flags' | 'integrations' | 'security' | 'finance';
+
+interface SettingDefinition {
+  value: string;
+  category: SettingCategory;
+  description: string;
+  isPublic: boolean;
+  isEncrypted?: boolean;
+}
+
+const settingDefaults = {
+  company_name: { value: 'Pharmaceutical Distribution Co.', category: 'general', description: 'Legal company name printed on documents', isPublic: true },
+  company_tax_id: { value: '', category: 'general', description: 'Company NIF (tax identification number)', isPublic: true },
+  company_address: { value: '', category: 'general', description: 'Registered street address printed on documents and reported in SAF-T files', isPublic: true },
+  company_city: { value: 'Luanda', category: 'general', description: 'City of the registered address', isPublic: true },
+  default_currency: { value: 'AOA', category: 'general', description: 'Default currency for sales, POS and approvals', isPublic: true },
+  base_currency: { value: 'AOA', category: 'finance', description: 'Functional currency of the general ledger; foreign-currency documents are converted into it', isPublic: true },
+  default_tax_code: { value: 'NOR', category: 'general', description: 'IVA tax code for products with no code of their own or of their category', isPublic: true },
+  pos_prices_include_tax: { value: 'true', category: 'general', description: 'POS prices include IVA; the IVA is extracted from the price rather than added to it', isPublic: true },
+  default_payment_terms_days: { value: '30', category: 'general', description: 'Invoice payment terms when the customer has none', isPublic: true },
+  expiry_warning_days: { value: '90', category: 'general', description: 'Days ahead to warn about product expiry', isPublic: true },
+  stock_count_approval_threshold: { value: '50000', category: 'general', description: 'Stock count differences worth more than this (base currency, gain or loss) need approval before they adjust stock', isPublic: true },
+  cycle_count_weeks_a: { value: '4', category: 'general', description: 'Weeks between cycle counts of class A products (the top 80% of annual usage by cost)', isPublic: true },
+  cycle_count_weeks_b: { value: '13', category: 'general', description: 'Weeks between cycle counts of class B products (the next 15% of annual usage)', isPublic: true },
+  cycle_count_weeks_c: { value: '52', category: 'general', description: 'Weeks between cycle counts of class C products (the rest, and products that did not sell)', isPublic: true },
+  invoice_number_prefix: { value: 'INV', category: 'general', description: 'Prefix for invoice numbers', isPublic: true },
+  credit_note_number_prefix: { value: 'CN', category: 'general', description: 'Prefix for credit note numbers', isPublic: true },
+  sales_order_number_prefix: { value: 'SO', category: 'general', description: 'Prefix for sales order numbers', isPublic: true },
+  purchase_order_number_prefix: { value: 'PO', category: 'general', description: 'Prefix for purchase order numbers', isPublic: true },
+  goods_receipt_number_prefix: { value: 'GR', category: 'general', description: 'Prefix for goods receipt numbers', isPublic: true },
+  pos_receipt_number_prefix: { value: 'RCP', category: 'general', description: 'Prefix for POS receipt numbers', isPublic: true },
+  transfer_order_number_prefix: { value: 'TO', category: 'general', description: 'Prefix for inter-warehouse transfer numbers', isPublic: true },
+  delivery_note_number_prefix: { value: 'DN', category: 'general', description: 'Prefix for delivery note (shipment) numbers', isPublic: true },
+  quotation_number_prefix: { value: 'QUO', category: 'general', description: 'Prefix for quotation numbers', isPublic: true },
+  purchase_request_number_prefix: { value: 'PR', category: 'general', description: 'Prefix for purchase request numbers', isPublic: true },
+  vendor_bill_number_prefix: { value: 'VB', category: 'general', description: 'Prefix for vendor bill numbers', isPublic: true },
+  journal_entry_number_prefix: { value: 'JE', category: 'general', description: 'Prefix for journal entry numbers', isPublic: true },
+  supplier_payment_number_prefix: { value: 'SP', category: 'general', description: 'Prefix for supplier payment numbers', isPublic: true },
+  payment_run_number_prefix: { value: 'RUN', category: 'general', description: 'Prefix for supplier payment run numbers', isPublic: true },
+  receipt_number_prefix: { value: 'RC', category: 'general', description: 'Prefix for customer receipt numbers', isPublic: true },
+  landed_cost_number_prefix: { value: 'LC', category: 'general', description: 'Prefix for landed cost document numbers', isPublic: true },
+  stock_count_number_prefix: { value: 'SC', category: 'general', description: 'Prefix for stock count numbers', isPublic: true },
+  // Debtor account for supplier payment bank files
+  company_bank_name: { value: '', category: 'finance', description: 'Bank holding the account supplier payments are made from', isPublic: false },
+  company_bank_iban: { value: '', category: 'finance', description: 'IBAN of the account supplier payments are made from', isPublic: false },
+  company_bank_swift: { value: '', category: 'finance', description: 'SWIFT/BIC of the bank supplier payments are made from', isPublic: false },
+  saft_software_validation_number: { value: '', category: 'finance', description: 'AGT software certificate number reported in SAF-T (AO) files and on fiscal documents', isPublic: false },
+  bank_match_date_tolerance_days: { value: '5', category: 'finance', description: 'Days a bank statement line may differ from its receipt or payment date and still match automatically', isPublic: false },
+  // Accounts (by code) that automatic journal entries post to
+  gl_account_receivable: { value: '31.1.1', category: 'finance', description: 'Customer receivables account', isPublic: false },
+  gl_account_payable: { value: '32.1.1', category: 'finance', description: 'Supplier payables account', isPublic: false },
+  gl_account_goods_received_not_invoiced: { value: '32.9', category: 'finance', description: 'Goods received awaiting the supplier invoice', isPublic: false },
+  gl_account_inventory: { value: '26.1', category: 'finance', description: 'Merchandise inventory account', isPublic: false },
+  gl_account_cost_of_sales: { value: '71.3', category: 'finance', description: 'Cost of goods sold, stock write-offs and count differences', isPublic: false },
+  gl_account_sales: { value: '61.3.1', category: 'finance', description: 'Sales of merchandise account', isPublic: false },
+  gl_account_sales_returns: { value: '61.7', category: 'finance', description: 'Sales returns account (credit notes)', isPublic: false },
+  gl_account_output_vat: { value: '34.5.3', category: 'finance', description: 'IVA charged on sales (IVA liquidado)', isPublic: false },
+  gl_account_input_vat: { value: '34.5.2', category: 'finance', description: 'Deductible IVA on purchases (IVA dedutível)', isPublic: false },
+  gl_account_customer_advances: { value: '31.9', category: 'finance', description: 'Cash received from customers and not yet applied to invoices', isPublic: false },
+  gl_account_receivable_write_off: { value: '78', category: 'finance', description: 'Customer short-payments and small balances written off', isPublic: false },
+  gl_account_fx_gain: { value: '66.2', category: 'finance', description: 'Exchange gains on settlement and revaluation', isPublic: false },
+  gl_account_fx_loss: { value: '76.2', category: 'finance', description: 'Exchange losses on settlement and revaluation', isPublic: false },
+  gl_account_purchases_expense: { value: '75.2', category: 'finance', description: 'Expense account for supplier bills without a purchase order', isPublic: false },
+  gl_account_cash: { value: '45.1', category: 'finance', description: 'Cash account for cash payments', isPublic: false },
+  gl_account_bank: { value: '43.1', category: 'finance', description: 'Bank account for card, transfer, mobile money and cheque payments', isPublic: false },
+  gl_account_payroll_expense: { value: '72.2', category: 'finance', description: 'Staff remuneration expense account', isPublic: false },
+  gl_account_payroll_payable: { value: '36.1.2', category: 'finance', description: 'Net salaries payable account', isPublic: false },
+  gl_account_income_tax_withheld: { value: '34.3', category: 'finance', description: 'Employee income tax (IRT) withheld account', isPublic: false },
+  gl_account_social_security: { value: '34.7', category: 'finance', description: 'Social security (INSS) contributions payable account', isPublic: false },
+  gl_account_other_payroll_deductions: { value: '36.9', category: 'finance', description: 'Other payroll deductions payable account', isPublic: false },
+  ai_enabled: { value: 'true', category: 'ai', description: 'Use the configured AI providers; when off every AI feature runs on the offline rule-based backend', isPublic: true },
+} satisfies Record<string, SettingDefinition>;
+
+export type SettingKey = keyof typeof settingDefaults;
+
+export const SETTING_DEFAULTS: Record<SettingKey, SettingDefinition> = settingDefaults;
+
+export const MASKED_SETTING_VALUE = '********';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+let encryptionKey: Buffer | null = null;
+
+function getEncryptionKey(): Buffer {
+  if (encryptionKey) return encryptionKey;
+
+  const secret = process.env.SETTINGS_ENCRYPTION_KEY || process.env.SESSION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SETTINGS_ENCRYPTION_KEY is required to store encrypted settings in production');
+    }
+    console.warn('⚠️ [Settings] SETTINGS_ENCRYPTION_KEY not set, using development key (not secure)');
+  }
+
+  encryptionKey = crypto.scryptSync(secret || 'development-settings-key', 'system-settings', 32);
+  return encryptionKey;
+}
+
+export function encryptSettingValue(plainText: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return `${ENCRYPTED_PREFIX}${iv.toString('base64')}:${tag.toString('base64')}:${encrypted.toString('base64')}`;
+}
+
+export function decryptSettingValue(stored: string): string {
+  if (!stored.startsWith(ENCRYPTED_PREFIX)) {
+    // Value saved before encryption was enabled for this setting
+    return stored;
+  }
+
+  const [iv, tag, data] = stored.slice(ENCRYPTED_PREFIX.length).split(':');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Setting as returned by the API: encrypted values are masked unless explicitly revealed
+ */
+export function presentSetting(setting: SystemSetting, reveal = false): SystemSetting {
+  if (!setting.isEncrypted || setting.value === null) return setting;
+  return { ...setting, value: reveal ? decryptSettingValue(setting.value) : MASKED_SETTING_VALUE };
+}
+
+/**
+ * Default rows for keys that have not been saved yet, so the UI can list every known setting
+ */
+export function getDefaultSettingRows(savedKeys: Set<string>): SystemSetting[] {
+  return (Object.entries(SETTING_DEFAULTS) as Array<[string, SettingDefinition]>)
+    .filter(([key]) => !savedKeys.has(key))
+    .map(([key, definition]) => ({
+      id: `default:${key}`,
+      key,
+      value: definition.value,
+      category: definition.category,
+      description: definition.description,
+      isEncrypted: definition.isEncrypted ?? false,
+      isPublic: definition.isPublic,
+      updatedBy: null,
+      createdAt: null,
+      updatedAt: null,
+    }));
+}
@@ -0,0 +1,93 @@
+import type { AbcClass, CycleCountScheduleLine } from "@shared/schema";
+
+/**
+ * Stock counts and the cycle count schedule. Products are ranked by the cost of what they
+ * sold over the last year: those making up the first 80% of it are class A, the next 15%
+ * class B, and the rest, with anything that did not sell, class C. Each class is counted
+ * on its own interval, spread over the weeks so every week carries a similar share.
+ */
+
+const ABC_CUMULATIVE_SHARES = { A: 0.8, B: 0.95 };
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+// Monday of the week the date falls in
+export function weekStartOf(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((day + 6) % 7));
+}
+
+export const weekEndOf = (weekStart: string) => addDays(weekStart, 6);
+
+export function classifyAbc(usage: Array<{ productId: string; value: number }>): Map<string, AbcClass> {
+  const ranked = [...usage].sort((a, b) => b.value - a.value);
+  const total = ranked.reduce((sum, item) => sum + Math.max(item.value, 0), 0);
+  const classes = new Map<string, AbcClass>();
+  let cumulative = 0;
+  for (const item of ranked) {
+    // A product is ranked by the share before it, so the biggest seller is always class A
+    const share = total > 0 ? cumulative / total : 1;
+    classes.set(item.productId, item.value <= 0 ? 'C' : share < ABC_CUMULATIVE_SHARES.A ? 'A' : share < ABC_CUMULATIVE_SHARES.B ? 'B' : 'C');
+    cumulative += Math.max(item.value, 0);
+  }
+  return classes;
+}
+
+export interface CycleCountCandidate {
+  productId: string;
+  sku: string;
+  productName: string;
+  annualUsageValue: number;
+  lastCountedAt: string | null;
+}
+
+/**
+ * The products to count in the week starting weekStart. A class counted every n weeks
+ * takes a 1/n share of its products each week: those never counted first, then the most
+ * overdue. Products not yet due are left for a later week.
+ */
+export function cycleCountSchedule(
+  candidates: CycleCountCandidate[],
+  weekStart: string,
+  intervalWeeks: Record<AbcClass, number>
+): { classCounts: Record<AbcClass, number>; products: CycleCountScheduleLine[] } {
+  const classes = classifyAbc(candidates.map(candidate => ({ productId: candidate.productId, value: candidate.annualUsageValue })));
+  const weekEnd = weekEndOf(weekStart);
+  const classCounts: Record<AbcClass, number> = { A: 0, B: 0, C: 0 };
+  const products: CycleCountScheduleLine[] = [];
+
+  for (const abcClass of ['A', 'B', 'C'] as AbcClass[]) {
+    const members = candidates.filter(candidate => classes.get(candidate.productId) === abcClass);
+    classCounts[abcClass] = members.length;
+    const weeks = Math.max(1, Math.round(intervalWeeks[abcClass]));
+    const due = members
+      .map(candidate => ({
+        ...candidate,
+        annualUsageValue: round2(candidate.annualUsageValue),
+        abcClass,
+        dueDate: candidate.lastCountedAt ? addDays(candidate.lastCountedAt, weeks * 7) : null,
+      }))
+      .filter(line => line.dueDate === null || line.dueDate <= weekEnd)
+      .sort((a, b) => (a.dueDate ?? '').localeCompare(b.dueDate ?? '') || b.annualUsageValue - a.annualUsageValue);
+    products.push(...due.slice(0, Math.ceil(members.length / weeks)));
+  }
+
+  return { classCounts, products };
+}
+
+/**
+ * Whether a count difference waits for approval before it adjusts stock: when it is worth
+ * more than the threshold either way, or when the batch has no cost to value it by.
+ */
+export function varianceNeedsApproval(varianceQuantity: number, varianceValue: number, unitCost: number, threshold: number): boolean {
+  if (varianceQuantity === 0) {
+    return false;
+  }
+  return unitCost <= 0 || Math.abs(varianceValue) > threshold;
+}
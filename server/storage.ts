@@ -7,13 +7,41 @@ import {
   inventory,
   salesOrders,
   salesOrderItems,
+  stockReservations,
+  shipments,
+  shipmentItems,
+  glAccounts,
+  journalEntries,
+  journalLines,
+  dunningLevels,
+  supplierPayments,
+  supplierPaymentAllocations,
+  paymentRuns,
+  paymentRunLines,
+  bankAccounts,
+  bankStatements,
+  bankStatementLines,
+  bankReconciliations,
   purchaseOrders,
   purchaseOrderItems,
   invoices,
   stockMovements,
+  transferOrders,
+  transferOrderItems,
+  stockCounts,
+  stockCountLines,
   quotations,
   quotationItems,
   receipts,
+  receiptAllocations,
+  fxRevaluations,
+  accountingPeriods,
+  landedCosts,
+  landedCostCharges,
+  landedCostSources,
+  landedCostAllocations,
+  taxCodes,
+  categoryTaxCodes,
   commissionEntries,
   creditOverrides,
   leads,
@@ -63,10 +91,18 @@ import {
   regulatoryReports,
   auditLogs,
   recallNotices,
+  recallReturns,
   // Advanced Reporting tables
   reportDefinitions,
   savedReports,
   reportExports,
+  outboxMessages,
+  systemSettings,
+  documentSequences,
+  documentSequenceCounters,
+  issuedDocumentNumbers,
+  fiscalSignatures,
+  reportScheduleConfigSchema,
   type User,
   type UpsertUser,
   type Customer,
@@ -91,6 +127,18 @@ import {
   type InsertInvoice,
   type StockMovement,
   type InsertStockMovement,
+  type TransferOrder,
+  type TransferOrderItem,
+  type CreateTransferOrderRequest,
+  type StockCount,
+  type StockCountLine,
+  type StockCountSummary,
+  type StockCountDetail,
+  type CreateStockCountRequest,
+  type RecordStockCountRequest,
+  type ReviewStockCountLineRequest,
+  type CycleCountSchedule,
+  type CreateShipmentRequest,
   type Quotation,
   type InsertQuotation,
   type QuotationItem,
@@ -188,6 +236,8 @@ import {
   type InsertAuditLog,
   type RecallNotice,
   type InsertRecallNotice,
+  type RecallReturn,
+  type RecordRecallReturnRequest,
   // Advanced Reporting types
   type ReportDefinition,
   type InsertReportDefinition,
@@ -195,11 +245,163 @@ import {
   type InsertSavedReport,
   type ReportExport,
   type InsertReportExport,
+  type OutboxMessage,
+  type InsertOutboxMessage,
+  type SystemSetting,
+  type UpsertSystemSettingRequest,
+  type DocumentSequence,
+  type InsertDocumentSequence,
+  type DocumentType,
+  type StockReservation,
+  type AvailableToPromise,
+  type Shipment,
+  type ShipmentItem,
+  type GlAccount,
+  type InsertGlAccount,
+  type JournalEntry,
+  type JournalLine,
+  type JournalSource,
+  type CreateJournalEntryRequest,
+  type TrialBalance,
+  type DunningLevel,
+  type InsertDunningLevel,
+  type ReceivablesAging,
+  type ReceivablesAgingCustomerRow,
+  type ReceivablesAgingSalesRepRow,
+  type DunningRunResult,
+  type SupplierPayment,
+  type SupplierPaymentAllocation,
+  type CreateSupplierPaymentRequest,
+  type PaymentRun,
+  type PaymentRunDetail,
+  type PaymentRunGroup,
+  type CreatePaymentRunRequest,
+  type BankAccount,
+  type InsertBankAccount,
+  type BankStatement,
+  type BankStatementLine,
+  type BankReconciliation,
+  type ImportBankStatementRequest,
+  type MatchBankStatementLineRequest,
+  type CreateReceiptFromBankLineRequest,
+  type CloseBankReconciliationRequest,
+  type BankStatementImportResult,
+  type BankStatementLineWithMatch,
+  type BankLineMatchCandidate,
+  type ReceiptAllocation,
+  type ReceiptAllocationDetail,
+  type ReceiptAllocationResult,
+  type AllocateReceiptRequest,
+  type CustomerCreditBalance,
+  type FxRevaluation,
+  type FxRevaluationLine,
+  type FxRevaluationPreview,
+  type TaxCode,
+  type InsertTaxCode,
+  type CategoryTaxCode,
+  type TaxBreakdownLine,
+  type VatReturn,
+  type VatReturnLine,
+  type CreditedLine,
+  type SaftSourceData,
+  type FiscalSignature,
+  type FiscalChainBreak,
+  type FiscalChainVerification,
+  type AccountingModule,
+  type AccountingPeriod,
+  type MonthEndChecklist,
+  type StockValuation,
+  type StockValuationLine,
+  type MarginLine,
+  type MarginSummary,
+  type MarginReport,
+  type LandedCost,
+  type LandedCostCharge,
+  type LandedCostSource,
+  type LandedCostAllocation,
+  type LandedCostBreakdownLine,
+  type LandedCostDetail,
+  type CreateLandedCostRequest,
+  type SaftSalesDocument,
+  type SaftDocumentLine,
+  type SaftPayment,
+  type SaftLedgerAccount,
+  type SaftLedgerEntry,
 } from "@shared/schema";
-import { getDb } from "./db";
-import { eq, and, gte, lte, desc, asc, sql, inArray } from "drizzle-orm";
+import { getDb, type DbTx } from "./db";
+import { eq, ne, and, gt, gte, lte, lt, desc, asc, sql, inArray, notInArray, isNull, isNotNull, or, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import { advancedCache, CACHE_KEYS } from "./advanced-cache-system";
 import { queryOptimizer } from "./query-optimization";
+import { getNextCronRun } from "./cron";
+import { verifyAuditChain, currentAuditUserId, type AuditChainVerification } from "./audit";
+import {
+  SETTING_DEFAULTS,
+  MASKED_SETTING_VALUE,
+  encryptSettingValue,
+  decryptSettingValue,
+  type SettingKey,
+} from "./settings";
+import {
+  DEFAULT_DOCUMENT_PATTERN,
+  DEFAULT_DOCUMENT_SERIES,
+  DOCUMENT_PREFIX_SETTINGS,
+  formatDocumentNumber,
+  toNumberRanges,
+  validateDocumentPattern,
+  type DocumentNumberGapReport,
+} from "./document-numbering";
+import {
+  FISCAL_CHAIN_LOCK_KEY,
+  FISCAL_DOCUMENT_TYPES,
+  certificationText,
+  changedSignedFields,
+  fiscalDocumentNumber,
+  fiscalSeries,
+  hashExcerpt,
+  signFiscalMessage,
+  signingMessage,
+  verifyFiscalSignature,
+  type FiscalDocumentType,
+} from "./fiscal-signing";
+import { COSTING_LOCK_KEY, TRANSFER_MOVEMENT_TYPES, allocateCents, landedCostBreakdown, marginPercent, movementCostFields, movingAverageCost, type LandedCostEntry } from "./costing";
+import { cycleCountSchedule, varianceNeedsApproval, weekEndOf, weekStartOf } from "./stock-count";
+import {
+  ANGOLAN_PGC_ACCOUNTS,
+  amountDifference,
+  normalizeJournalLines,
+  parentAccountCode,
+  paymentMethodGlAccount,
+  toBaseAmount,
+  type GlAccountSettingKey,
+  type JournalLineInput,
+} from "./general-ledger";
+import {
+  DEFAULT_DUNNING_LEVELS,
+  addToAgingBuckets,
+  daysBetween,
+  emptyAgingBuckets,
+  renderDunningTemplate,
+} from "./dunning";
+import {
+  parseBankStatement,
+  statementLineFingerprints,
+  referenceMatches,
+  daysApart,
+  rankMatchCandidates,
+  pickAutoMatch,
+} from "./bank-statements";
+import {
+  DEFAULT_TAX_CODES,
+  isTaxable,
+  lineTax,
+  pickTaxCode,
+  scaleTaxBreakdown,
+  splitTaxIncluded,
+  summarizeTax,
+  validateTaxCode,
+  type TaxedLine,
+} from "./tax";
 
 // Interface for storage operations
 export interface IStorage {
@@ -238,8 +440,9 @@ export interface IStorage {
   deleteProduct(id: string): Promise<void>;
   
   // Inventory operations
-  getInventory(warehouseId?: string): Promise<(Inventory & { product: Product })[]>;
+  getInventory(warehouseId?: string): Promise<(Inventory & { product: Product; reservedQuantity: number })[]>;
   getInventoryByProduct(productId: string): Promise<Inventory[]>;
+  getAvailableToPromise(productIds?: string[], warehouseId?: string): Promise<AvailableToPromise[]>;
   createInventory(inventory: InsertInventory): Promise<Inventory>;
   updateInventory(id: string, inventory: Partial<InsertInventory>): Promise<Inventory>;
   getExpiringProducts(daysAhead: number): Promise<(Inventory & { product: Product; warehouse: Warehouse })[]>;
@@ -252,9 +455,15 @@ export interface IStorage {
   createSalesOrderItem(item: InsertSalesOrderItem): Promise<SalesOrderItem>;
   
   // Sales lifecycle operations
-  confirmSalesOrder(orderId: string, confirmedBy: string): Promise<{ order: SalesOrder; allocations: Array<{ inventoryId: string; qty: number }> }>;
-  fulfillSalesOrder(orderId: string, warehouseId: string, fulfilledBy: string): Promise<{ order: SalesOrder; movements: StockMovement[] }>;
-  generateInvoiceFromSalesOrder(orderId: string, invoiceData?: Partial<InsertInvoice>): Promise<Invoice>;
+  confirmSalesOrder(orderId: string, confirmedBy: string): Promise<{ order: SalesOrder; reservations: StockReservation[] }>;
+  fulfillSalesOrder(orderId: string, warehouseId: string | undefined, fulfilledBy: string): Promise<{ order: SalesOrder; shipments: Shipment[]; movements: StockMovement[] }>;
+  allocateBackorders(orderId?: string, allocatedBy?: string): Promise<StockReservation[]>;
+  createShipment(orderId: string, shipmentData: CreateShipmentRequest, shippedBy: string): Promise<{ order: SalesOrder; shipment: Shipment; items: ShipmentItem[]; movements: StockMovement[] }>;
+  getShipments(salesOrderId: string): Promise<(Shipment & { warehouse: Warehouse; items: ShipmentItem[]; invoice: Invoice | null })[]>;
+  getShipment(id: string): Promise<(Shipment & { warehouse: Warehouse; salesOrder: SalesOrder; customer: Customer; items: (ShipmentItem & { product: Product })[] }) | undefined>;
+  markShipmentDelivered(id: string): Promise<Shipment>;
+  getStockReservations(salesOrderId: string): Promise<StockReservation[]>;
+  generateInvoiceFromSalesOrder(orderId: string, invoiceData?: Partial<InsertInvoice>, shipmentId?: string): Promise<Invoice>;
   processSalesReturn(refId: string, items: Array<{ productId: string; inventoryId?: string; qty: number; reason?: string }>, warehouseId: string, processedBy: string): Promise<{ creditNote: Invoice; movements: StockMovement[] }>;
   cancelSalesOrder(orderId: string, cancelledBy: string): Promise<SalesOrder>;
   
@@ -266,7 +475,7 @@ export interface IStorage {
   createPurchaseOrderItem(item: InsertPurchaseOrderItem): Promise<PurchaseOrderItem>;
   
   // Invoice operations
-  getInvoices(limit?: number): Promise<(Invoice & { customer: Customer })[]>;
+  getInvoices(limit?: number): Promise<(Invoice & { customer: Customer; hashExcerpt: string | null })[]>;
   getInvoice(id: string): Promise<Invoice | undefined>;
   createInvoice(invoice: InsertInvoice): Promise<Invoice>;
   updateInvoice(id: string, invoice: Partial<InsertInvoice>): Promise<Invoice>;
@@ -275,6 +484,35 @@ export interface IStorage {
   getStockMovements(limit?: number): Promise<(StockMovement & { product: Product; warehouse: Warehouse; user?: User })[]>;
   createStockMovement(movement: InsertStockMovement): Promise<StockMovement>;
   
+  // Inter-warehouse transfer operations
+  getTransferOrders(status?: string, warehouseId?: string, limit?: number): Promise<(TransferOrder & { sourceWarehouse: Warehouse; destinationWarehouse: Warehouse })[]>;
+  getTransferOrder(id: string): Promise<(TransferOrder & { sourceWarehouse: Warehouse; destinationWarehouse: Warehouse; items: (TransferOrderItem & { product: Product })[] }) | undefined>;
+  createTransferOrder(request: CreateTransferOrderRequest, createdBy: string): Promise<TransferOrder>;
+  dispatchTransferOrder(id: string, dispatchedBy: string): Promise<{ transferOrder: TransferOrder; movements: StockMovement[] }>;
+  markTransferOrderInTransit(id: string, userId: string, carrier?: string): Promise<TransferOrder>;
+  receiveTransferOrder(id: string, lines: Array<{ itemId: string; quantity: number }>, receivedBy: string, notes?: string): Promise<{ transferOrder: TransferOrder; movements: StockMovement[] }>;
+  cancelTransferOrder(id: string, cancelledBy: string): Promise<TransferOrder>;
+  getInTransitStock(warehouseId?: string): Promise<Array<{
+    transferOrderId: string;
+    transferNumber: string;
+    productId: string;
+    batchNumber: string | null;
+    sourceWarehouseId: string;
+    destinationWarehouseId: string;
+    quantityInTransit: number;
+  }>>;
+
+  // Stock counts and cycle counting
+  getStockCounts(status?: string, warehouseId?: string): Promise<StockCountSummary[]>;
+  getStockCount(id: string): Promise<StockCountDetail | undefined>;
+  createStockCount(request: CreateStockCountRequest, createdBy: string): Promise<StockCountDetail>;
+  recordStockCount(id: string, lines: RecordStockCountRequest['lines'], countedBy: string): Promise<StockCountDetail>;
+  submitStockCount(id: string, submittedBy: string): Promise<StockCountDetail>;
+  reviewStockCountLine(id: string, lineId: string, decision: ReviewStockCountLineRequest['decision'], reviewedBy: string, comment?: string): Promise<StockCountDetail>;
+  postStockCount(id: string, postedBy: string): Promise<StockCountDetail>;
+  cancelStockCount(id: string): Promise<StockCount>;
+  getCycleCountSchedule(weekOf: string, warehouseId?: string): Promise<CycleCountSchedule>;
+  
   // Dashboard analytics
   getDashboardMetrics(): Promise<{
     totalRevenue: number;
@@ -282,6 +520,8 @@ export interface IStorage {
     openOrders: number;
     outstandingAmount: number;
     expiringProductsCount: number;
+    grossMargin: number;
+    grossMarginPercent: number | null;
   }>;
   
   // Recent transactions
@@ -443,6 +683,10 @@ export interface IStorage {
   createReceipt(receipt: InsertReceipt): Promise<Receipt>;
   updateReceipt(id: string, receipt: Partial<InsertReceipt>): Promise<Receipt>;
   allocateReceiptToInvoice(receiptId: string, invoiceId: string, amount: number): Promise<{ receipt: Receipt; invoice: Invoice }>;
+  allocateReceipt(receiptId: string, request: AllocateReceiptRequest, allocatedBy: string): Promise<ReceiptAllocationResult>;
+  getReceiptAllocations(filters?: { receiptId?: string; invoiceId?: string }): Promise<ReceiptAllocationDetail[]>;
+  reverseReceiptAllocation(allocationId: string, reason: string, reversedBy: string): Promise<ReceiptAllocation>;
+  getCustomerCreditBalances(customerId?: string): Promise<CustomerCreditBalance[]>;
 
   // CRM Module - Commission operations
   getCommissionEntries(salesRepId?: string, status?: string, limit?: number, startDate?: string, endDate?: string): Promise<(CommissionEntry & { invoice: Invoice; salesRep: User; approver?: User })[]>;
@@ -487,6 +731,8 @@ export interface IStorage {
     availableCredit: number;
     canProceed: boolean;
     requiresOverride: boolean;
+    dunningLevel: number;
+    creditHold: boolean;
   }>;
 
   // CRM Module - Lead operations
@@ -766,16 +1012,35 @@ export interface IStorage {
   rejectRegulatoryReport(id: string, approverId: string, reason: string): Promise<RegulatoryReport>;
   
   // Audit Log operations
-  getAuditLogs(tableName?: string, recordId?: string, userId?: string, action?: string, limit?: number): Promise<(AuditLog & { user?: User })[]>;
+  getAuditLogs(tableName?: string, recordId?: string, userId?: string, action?: string, limit?: number, startDate?: Date, endDate?: Date): Promise<(AuditLog & { user?: User })[]>;
   createAuditLog(auditLog: InsertAuditLog): Promise<AuditLog>;
+  verifyAuditLogChain(): Promise<AuditChainVerification>;
   
   // Recall Notice operations
   getRecallNotices(status?: string, productId?: string, managedBy?: string, limit?: number): Promise<(RecallNotice & { product: Product; manager: User })[]>;
   getRecallNotice(id: string): Promise<(RecallNotice & { product: Product; manager: User }) | undefined>;
   createRecallNotice(recall: InsertRecallNotice): Promise<RecallNotice>;
   updateRecallNotice(id: string, recall: Partial<InsertRecallNotice>): Promise<RecallNotice>;
-  initiateRecall(id: string): Promise<RecallNotice>;
-  completeRecall(id: string, recoveryPercentage: number): Promise<RecallNotice>;
+  initiateRecall(id: string, initiatedBy: string): Promise<{ recall: RecallNotice; quarantinedBatches: Inventory[] }>;
+  completeRecall(id: string): Promise<RecallNotice>;
+  getRecallTraceability(id: string): Promise<{
+    recall: RecallNotice;
+    batches: Inventory[];
+    recipients: Array<{
+      source: 'sales_order' | 'pos';
+      documentId: string;
+      documentNumber: string;
+      customerId: string | null;
+      customerName: string | null;
+      inventoryId: string;
+      batchNumber: string | null;
+      quantity: number;
+      date: Date | null;
+    }>;
+    totalDistributed: number;
+  }>;
+  getRecallReturns(recallId: string): Promise<RecallReturn[]>;
+  recordRecallReturn(recallId: string, request: RecordRecallReturnRequest, recordedBy: string): Promise<{ recallReturn: RecallReturn; recall: RecallNotice }>;
   
   // Advanced Reporting Operations
   
@@ -792,6 +1057,8 @@ export interface IStorage {
   createSavedReport(savedReport: InsertSavedReport): Promise<SavedReport>;
   updateSavedReport(id: string, savedReport: Partial<InsertSavedReport>): Promise<SavedReport>;
   deleteSavedReport(id: string): Promise<void>;
+  getDueSavedReports(asOf: Date, limit?: number): Promise<SavedReport[]>;
+  claimSavedReportRun(id: string, expectedNextRunAt: Date, runAt: Date): Promise<SavedReport | undefined>;
   
   // Report Export operations
   getReportExports(generatedBy?: string, status?: string, limit?: number): Promise<(ReportExport & { generator: User })[]>;
@@ -800,8 +1067,116 @@ export interface IStorage {
   updateReportExport(id: string, reportExport: Partial<InsertReportExport>): Promise<ReportExport>;
   markReportExportComplete(id: string, filePath: string, fileSize: number): Promise<ReportExport>;
   markReportExportFailed(id: string, errorMessage: string): Promise<ReportExport>;
+  markReportExportExpired(id: string): Promise<ReportExport>;
+  getExpiredReportExports(asOf: Date, limit?: number): Promise<ReportExport[]>;
+  recordReportExportDownload(id: string): Promise<void>;
+
+  // Outbox operations
+  getOutboxMessages(status?: string, limit?: number): Promise<OutboxMessage[]>;
+  createOutboxMessage(message: InsertOutboxMessage): Promise<OutboxMessage>;
+  markOutboxMessageSent(id: string): Promise<OutboxMessage>;
+  markOutboxMessageFailed(id: string, error: string, maxAttempts: number): Promise<OutboxMessage>;
+
+  // System Settings operations
+  getSystemSettings(category?: string, publicOnly?: boolean): Promise<SystemSetting[]>;
+  getSystemSetting(key: string): Promise<SystemSetting | undefined>;
+  upsertSystemSetting(key: string, request: UpsertSystemSettingRequest, updatedBy: string): Promise<SystemSetting>;
+  deleteSystemSetting(key: string, deletedBy: string): Promise<void>;
+  getSettingValue(key: SettingKey): Promise<string>;
+
+  // Document numbering operations
+  getDocumentSequences(documentType?: string): Promise<DocumentSequence[]>;
+  createDocumentSequence(sequence: InsertDocumentSequence): Promise<DocumentSequence>;
+  updateDocumentSequence(id: string, sequence: Partial<InsertDocumentSequence>): Promise<DocumentSequence>;
+  getDocumentNumberGapReport(year?: number, documentType?: string): Promise<DocumentNumberGapReport[]>;
+
+  // General ledger operations
+  getGlAccounts(): Promise<GlAccount[]>;
+  createGlAccount(account: InsertGlAccount): Promise<GlAccount>;
+  updateGlAccount(id: string, account: Partial<InsertGlAccount>): Promise<GlAccount>;
+  getJournalEntries(filters?: { from?: string; to?: string; sourceType?: string; status?: string; accountId?: string; limit?: number }): Promise<(JournalEntry & { lines: (JournalLine & { account: GlAccount })[] })[]>;
+  getJournalEntry(id: string): Promise<(JournalEntry & { lines: (JournalLine & { account: GlAccount })[] }) | undefined>;
+  createManualJournalEntry(request: CreateJournalEntryRequest, createdBy: string): Promise<JournalEntry & { lines: JournalLine[] }>;
+  postJournalEntry(id: string, postedBy: string): Promise<JournalEntry>;
+  reverseJournalEntry(id: string, reversedBy: string, entryDate?: string): Promise<JournalEntry & { lines: JournalLine[] }>;
+  getTrialBalance(from?: string, to?: string): Promise<TrialBalance>;
+
+  // Receivables aging and dunning
+  getReceivablesAging(asOf?: string): Promise<ReceivablesAging>;
+  getDunningLevels(): Promise<DunningLevel[]>;
+  createDunningLevel(level: InsertDunningLevel): Promise<DunningLevel>;
+  updateDunningLevel(id: string, level: Partial<InsertDunningLevel>): Promise<DunningLevel>;
+  markOverdueInvoices(asOf?: string): Promise<number>;
+  runDunning(asOf?: string): Promise<DunningRunResult>;
+
+  // Supplier payments and payment runs
+  getSupplierPayments(filters?: { supplierId?: string; paymentRunId?: string; limit?: number }): Promise<(SupplierPayment & { supplier: Supplier; allocations: (SupplierPaymentAllocation & { bill: VendorBill })[] })[]>;
+  createSupplierPayment(request: CreateSupplierPaymentRequest, createdBy: string): Promise<SupplierPayment & { allocations: SupplierPaymentAllocation[] }>;
+  voidSupplierPayment(id: string, voidedBy: string): Promise<SupplierPayment>;
+  getPaymentRuns(limit?: number): Promise<PaymentRunDetail[]>;
+  getPaymentRun(id: string): Promise<PaymentRunDetail | undefined>;
+  createPaymentRun(request: CreatePaymentRunRequest, createdBy: string): Promise<PaymentRunDetail>;
+  removePaymentRunLine(runId: string, lineId: string): Promise<PaymentRunDetail>;
+  approvePaymentRun(id: string, approvedBy: string): Promise<PaymentRun>;
+  markPaymentRunExported(id: string): Promise<PaymentRun>;
+  completePaymentRun(id: string, completedBy: string): Promise<{ run: PaymentRun; payments: SupplierPayment[] }>;
+  cancelPaymentRun(id: string): Promise<PaymentRun>;
+
+  // Foreign exchange revaluation
+  getFxRevaluations(limit?: number): Promise<FxRevaluation[]>;
+  previewFxRevaluation(revaluationDate: string): Promise<FxRevaluationPreview>;
+  postFxRevaluation(revaluationDate: string, createdBy: string): Promise<FxRevaluation>;
+
+  // Accounting periods and month-end close
+  getAccountingPeriods(year?: string): Promise<AccountingPeriod[]>;
+  closeAccountingPeriod(module: AccountingModule, period: string, status: 'soft_closed' | 'hard_closed', closedBy: string): Promise<AccountingPeriod>;
+  reopenAccountingPeriod(module: AccountingModule, period: string, reason: string, reopenedBy: string): Promise<AccountingPeriod>;
+  getMonthEndChecklist(period: string): Promise<MonthEndChecklist>;
+
+  // Costing: stock valuation and margins
+  getStockValuation(asOf: string, warehouseId?: string): Promise<StockValuation>;
+  getMarginReport(from: string, to: string): Promise<MarginReport>;
+
+  // Landed costs
+  getLandedCosts(): Promise<LandedCost[]>;
+  getLandedCost(id: string): Promise<LandedCostDetail | undefined>;
+  createLandedCost(request: CreateLandedCostRequest, createdBy: string): Promise<LandedCostDetail>;
+  allocateLandedCost(id: string, allocatedBy: string): Promise<LandedCostDetail>;
+  cancelLandedCost(id: string): Promise<LandedCost>;
+
+  // Bank accounts, statement import and reconciliation
+  getBankAccounts(): Promise<BankAccount[]>;
+  createBankAccount(account: InsertBankAccount): Promise<BankAccount>;
+  updateBankAccount(id: string, account: Partial<InsertBankAccount>): Promise<BankAccount>;
+  getBankStatements(bankAccountId?: string): Promise<BankStatement[]>;
+  importBankStatement(request: ImportBankStatementRequest, importedBy: string): Promise<BankStatementImportResult>;
+  getBankStatementLines(filters: { bankAccountId?: string; statementId?: string; status?: string; limit?: number }): Promise<BankStatementLineWithMatch[]>;
+  autoMatchBankStatementLines(bankAccountId: string): Promise<number>;
+  getBankLineMatchCandidates(lineId: string): Promise<BankLineMatchCandidate[]>;
+  matchBankStatementLine(lineId: string, match: MatchBankStatementLineRequest, matchedBy: string): Promise<BankStatementLine>;
+  unmatchBankStatementLine(lineId: string): Promise<BankStatementLine>;
+  setBankStatementLineIgnored(lineId: string, ignored: boolean, userId: string): Promise<BankStatementLine>;
+  createReceiptFromBankLine(lineId: string, request: CreateReceiptFromBankLineRequest, receivedBy: string): Promise<{ receipt: Receipt; line: BankStatementLine }>;
+  getBankReconciliations(bankAccountId?: string): Promise<BankReconciliation[]>;
+  closeBankReconciliation(request: CloseBankReconciliationRequest, closedBy: string): Promise<BankReconciliation>;
+
+  // Tax codes and IVA return
+  getTaxCodes(): Promise<TaxCode[]>;
+  createTaxCode(taxCode: InsertTaxCode): Promise<TaxCode>;
+  updateTaxCode(id: string, taxCode: Partial<InsertTaxCode>): Promise<TaxCode>;
+  getCategoryTaxCodes(): Promise<(CategoryTaxCode & { taxCode: TaxCode })[]>;
+  setCategoryTaxCode(category: string, taxCodeId: string): Promise<CategoryTaxCode>;
+  deleteCategoryTaxCode(category: string): Promise<void>;
+  resolveTaxCodes(productIds: string[], customerId: string | undefined, date: string): Promise<{ productId: string; taxCode: TaxCode }[]>;
+  getVatReturn(from: string, to: string): Promise<VatReturn>;
+  getSaftSourceData(from: string, to: string, includeGeneralLedger: boolean): Promise<SaftSourceData>;
+  verifyFiscalSignatures(series?: string): Promise<FiscalChainVerification>;
 }
 
+// Settings are read on hot paths (numbering, POS) - cache effective values briefly
+const SETTING_CACHE_TTL_MS = 60 * 1000;
+const settingValueCache = new Map<string, { value: string; expiresAt: number }>();
+
 export class DatabaseStorage implements IStorage {
   // User operations
   // (IMPORTANT) these user operations are mandatory for Replit Auth.
@@ -1095,7 +1470,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Inventory operations
-  async getInventory(warehouseId?: string): Promise<(Inventory & { product: Product })[]> {
+  async getInventory(warehouseId?: string): Promise<(Inventory & { product: Product; reservedQuantity: number })[]> {
     const startTime = Date.now();
     
     // PERFORMANCE OPTIMIZATION: Cache frequently accessed inventory lists
@@ -1107,6 +1482,7 @@ export class DatabaseStorage implements IStorage {
     }
 
     const db = await getDb();
+    const reserved = this.activeReservationTotals(db);
     const query = db
       .select({
         id: inventory.id,
@@ -1117,12 +1493,18 @@ export class DatabaseStorage implements IStorage {
         manufactureDate: inventory.manufactureDate,
         expiryDate: inventory.expiryDate,
         costPerUnit: inventory.costPerUnit,
+        isQuarantined: inventory.isQuarantined,
+        quarantineReason: inventory.quarantineReason,
+        quarantinedAt: inventory.quarantinedAt,
+        recallNoticeId: inventory.recallNoticeId,
         createdAt: inventory.createdAt,
         updatedAt: inventory.updatedAt,
+        reservedQuantity: sql<number>`coalesce(${reserved.quantity}, 0)::int`,
         product: products,
       })
       .from(inventory)
       .innerJoin(products, eq(inventory.productId, products.id))
+      .leftJoin(reserved, eq(reserved.inventoryId, inventory.id))
       .where(eq(products.isActive, true));
 
     const result = warehouseId ? 
@@ -1135,12 +1517,18 @@ export class DatabaseStorage implements IStorage {
         manufactureDate: inventory.manufactureDate,
         expiryDate: inventory.expiryDate,
         costPerUnit: inventory.costPerUnit,
+        isQuarantined: inventory.isQuarantined,
+        quarantineReason: inventory.quarantineReason,
+        quarantinedAt: inventory.quarantinedAt,
+        recallNoticeId: inventory.recallNoticeId,
         createdAt: inventory.createdAt,
         updatedAt: inventory.updatedAt,
+        reservedQuantity: sql<number>`coalesce(${reserved.quantity}, 0)::int`,
         product: products,
       })
       .from(inventory)
       .innerJoin(products, eq(inventory.productId, products.id))
+      .leftJoin(reserved, eq(reserved.inventoryId, inventory.id))
       .where(and(eq(inventory.warehouseId, warehouseId), eq(products.isActive, true)))
       .orderBy(desc(inventory.createdAt)) : 
       await query.orderBy(desc(inventory.createdAt));
@@ -1167,6 +1555,31 @@ export class DatabaseStorage implements IStorage {
       .orderBy(asc(inventory.expiryDate)); // FEFO ordering
   }
 
+  async getAvailableToPromise(productIds?: string[], warehouseId?: string): Promise<AvailableToPromise[]> {
+    const db = await getDb();
+    const reserved = this.activeReservationTotals(db);
+    const conditions = [this.sellableBatchCondition()];
+    if (productIds?.length) conditions.push(inArray(inventory.productId, productIds));
+    if (warehouseId) conditions.push(eq(inventory.warehouseId, warehouseId));
+
+    const rows = await db
+      .select({
+        productId: inventory.productId,
+        onHand: sql<number>`coalesce(sum(${inventory.quantity}), 0)::int`,
+        reserved: sql<number>`coalesce(sum(${reserved.quantity}), 0)::int`,
+      })
+      .from(inventory)
+      .leftJoin(reserved, eq(reserved.inventoryId, inventory.id))
+      .where(and(...conditions))
+      .groupBy(inventory.productId);
+
+    return rows.map(row => ({
+      ...row,
+      ...(warehouseId ? { warehouseId } : {}),
+      available: Math.max(0, row.onHand - row.reserved),
+    }));
+  }
+
   async createInventory(inventoryData: InsertInventory): Promise<Inventory> {
     const db = await getDb();
     const [newInventory] = await db
@@ -1201,6 +1614,10 @@ export class DatabaseStorage implements IStorage {
         manufactureDate: inventory.manufactureDate,
         expiryDate: inventory.expiryDate,
         costPerUnit: inventory.costPerUnit,
+        isQuarantined: inventory.isQuarantined,
+        quarantineReason: inventory.quarantineReason,
+        quarantinedAt: inventory.quarantinedAt,
+        recallNoticeId: inventory.recallNoticeId,
         createdAt: inventory.createdAt,
         updatedAt: inventory.updatedAt,
         product: products,
@@ -1231,9 +1648,13 @@ export class DatabaseStorage implements IStorage {
         orderDate: salesOrders.orderDate,
         deliveryDate: salesOrders.deliveryDate,
         status: salesOrders.status,
+        currency: salesOrders.currency,
+        fxRate: salesOrders.fxRate,
         subtotal: salesOrders.subtotal,
         taxAmount: salesOrders.taxAmount,
         totalAmount: salesOrders.totalAmount,
+        baseTotalAmount: salesOrders.baseTotalAmount,
+        taxBreakdown: salesOrders.taxBreakdown,
         notes: salesOrders.notes,
         createdAt: salesOrders.createdAt,
         updatedAt: salesOrders.updatedAt,
@@ -1262,9 +1683,13 @@ export class DatabaseStorage implements IStorage {
         orderDate: salesOrders.orderDate,
         deliveryDate: salesOrders.deliveryDate,
         status: salesOrders.status,
+        currency: salesOrders.currency,
+        fxRate: salesOrders.fxRate,
         subtotal: salesOrders.subtotal,
         taxAmount: salesOrders.taxAmount,
         totalAmount: salesOrders.totalAmount,
+        baseTotalAmount: salesOrders.baseTotalAmount,
+        taxBreakdown: salesOrders.taxBreakdown,
         notes: salesOrders.notes,
         createdAt: salesOrders.createdAt,
         updatedAt: salesOrders.updatedAt,
@@ -1283,8 +1708,13 @@ export class DatabaseStorage implements IStorage {
         productId: salesOrderItems.productId,
         inventoryId: salesOrderItems.inventoryId,
         quantity: salesOrderItems.quantity,
+        quantityShipped: salesOrderItems.quantityShipped,
+        quantityBackordered: salesOrderItems.quantityBackordered,
         unitPrice: salesOrderItems.unitPrice,
         totalPrice: salesOrderItems.totalPrice,
+        taxCodeId: salesOrderItems.taxCodeId,
+        taxRate: salesOrderItems.taxRate,
+        taxAmount: salesOrderItems.taxAmount,
         createdAt: salesOrderItems.createdAt,
         product: products,
       })
@@ -1297,11 +1727,23 @@ export class DatabaseStorage implements IStorage {
 
   async createSalesOrder(order: InsertSalesOrder): Promise<SalesOrder> {
     const db = await getDb();
-    const [newOrder] = await db
-      .insert(salesOrders)
-      .values(order)
-      .returning();
-    return newOrder;
+    return await db.transaction(async (tx) => {
+      await this.assertPeriodOpen(tx, 'sales', order.orderDate);
+      const orderNumber = order.orderNumber || await this.allocateDocumentNumber(tx, 'sales_order');
+      const currency = order.currency || await this.getSettingValue('default_currency');
+      const fxRate = await this.resolveFxRate(tx, currency, order.fxRate, order.orderDate);
+      const [newOrder] = await tx
+        .insert(salesOrders)
+        .values({
+          ...order,
+          orderNumber,
+          currency,
+          fxRate: fxRate.toFixed(6),
+          baseTotalAmount: toBaseAmount(Number(order.totalAmount || 0), fxRate).toFixed(2),
+        })
+        .returning();
+      return newOrder;
+    });
   }
 
   async updateSalesOrder(id: string, order: Partial<InsertSalesOrder>): Promise<SalesOrder> {
@@ -1323,6 +1765,7 @@ export class DatabaseStorage implements IStorage {
         const validTransitions = {
           'draft': ['confirmed', 'cancelled'],
           'confirmed': ['shipped', 'cancelled'],
+          'partially_shipped': ['shipped'],
           'shipped': ['delivered'],
           'delivered': [], // Terminal state
           'cancelled': [] // Terminal state
@@ -1334,12 +1777,35 @@ export class DatabaseStorage implements IStorage {
         }
       }
       
+      // Moving an order along its workflow does not edit the month it was booked in
+      if (Object.keys(order).some(field => field !== 'status')) {
+        await this.assertPeriodOpen(tx, 'sales', currentOrder.orderDate);
+        await this.assertPeriodOpen(tx, 'sales', order.orderDate);
+      }
+
+      // Cancelling a confirmed order gives its reserved stock back
+      if (order.status === 'cancelled' && currentOrder.status === 'confirmed') {
+        await tx
+          .update(stockReservations)
+          .set({ status: 'released', releasedAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(stockReservations.salesOrderId, id), eq(stockReservations.status, 'active')));
+      }
+      
       // Optimistic concurrency control - commented out since Partial<InsertSalesOrder> doesn't include updatedAt
       // This would be handled at the API level where updatedAt is available
       
+      // A new total or currency moves the base-currency total with it
+      const currencyFields: Partial<SalesOrder> = {};
+      if (order.totalAmount !== undefined || order.currency !== undefined || order.fxRate !== undefined) {
+        const currency = order.currency ?? currentOrder.currency;
+        const fxRate = await this.resolveFxRate(tx, currency, order.fxRate ?? (order.currency ? undefined : currentOrder.fxRate), order.orderDate ?? currentOrder.orderDate);
+        currencyFields.fxRate = fxRate.toFixed(6);
+        currencyFields.baseTotalAmount = toBaseAmount(Number(order.totalAmount ?? currentOrder.totalAmount ?? 0), fxRate).toFixed(2);
+      }
+
       const [updatedOrder] = await tx
         .update(salesOrders)
-        .set({ ...order, updatedAt: new Date() })
+        .set({ ...order, ...currencyFields, updatedAt: new Date() })
         .where(eq(salesOrders.id, id))
         .returning();
       
@@ -1349,17 +1815,30 @@ export class DatabaseStorage implements IStorage {
 
   async createSalesOrderItem(item: InsertSalesOrderItem): Promise<SalesOrderItem> {
     const db = await getDb();
-    const [newItem] = await db
-      .insert(salesOrderItems)
-      .values(item)
-      .returning();
-    return newItem;
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(salesOrders).where(eq(salesOrders.id, item.orderId));
+      if (!order) throw new Error('Sales order not found');
+
+      const [taxCode] = await this.resolveLineTaxCodes(tx, [item], order.customerId, order.orderDate);
+      const [newItem] = await tx
+        .insert(salesOrderItems)
+        .values({
+          ...item,
+          taxCodeId: taxCode.id,
+          taxRate: taxCode.rate,
+          taxAmount: lineTax(Number(item.totalPrice), Number(taxCode.rate)).toFixed(2),
+        })
+        .returning();
+
+      await this.recalculateSalesOrderTotals(tx, order.id);
+      return newItem;
+    });
   }
 
   // Sales Lifecycle Operations with Transactions and FEFO
-  async confirmSalesOrder(orderId: string, confirmedBy: string): Promise<{ order: SalesOrder; allocations: Array<{ inventoryId: string; qty: number }> }> {
+  async confirmSalesOrder(orderId: string, confirmedBy: string): Promise<{ order: SalesOrder; reservations: StockReservation[] }> {
     const db = await getDb();
-    return await db.transaction(async (tx) => {
+    const result = await db.transaction(async (tx) => {
       // Get order with items
       const order = await this.getSalesOrder(orderId);
       if (!order) throw new Error('Sales order not found');
@@ -1368,179 +1847,346 @@ export class DatabaseStorage implements IStorage {
         throw new Error('Only draft orders can be confirmed');
       }
 
-      const allocations: Array<{ inventoryId: string; qty: number }> = [];
+      const reservations: StockReservation[] = [];
 
-      // Check stock availability and create allocations for all items
+      // Reserve what is in stock now; the shortfall of each line is backordered
+      // and reserved by allocateBackorders when stock arrives
       for (const item of order.items) {
-        let remainingQty = item.quantity;
-        
-        // Get available inventory batches ordered by expiry date (FEFO)
-        const batches = await tx
-          .select()
-          .from(inventory)
-          .where(and(
-            eq(inventory.productId, item.productId),
-            gte(inventory.quantity, 1)
-          ))
-          .orderBy(asc(inventory.expiryDate));
-        
-        for (const batch of batches) {
-          if (remainingQty <= 0) break;
-          
-          const allocateQty = Math.min(batch.quantity, remainingQty);
-          allocations.push({
-            inventoryId: batch.id,
-            qty: allocateQty
-          });
-          
-          remainingQty -= allocateQty;
-        }
-        
-        if (remainingQty > 0) {
-          throw new Error(`Insufficient stock for product ${item.product.name}. Missing: ${remainingQty} units`);
+        const itemReservations = await this.reserveStockFefo(tx, item, item.quantity, confirmedBy);
+        reservations.push(...itemReservations);
+
+        const reservedQty = itemReservations.reduce((sum, r) => sum + r.quantity, 0);
+        if (reservedQty < item.quantity) {
+          await tx
+            .update(salesOrderItems)
+            .set({ quantityBackordered: item.quantity - reservedQty })
+            .where(eq(salesOrderItems.id, item.id));
         }
       }
 
-      // Reserve stock and update order status
       const [confirmedOrder] = await tx
         .update(salesOrders)
         .set({ status: 'confirmed', updatedAt: new Date() })
         .where(eq(salesOrders.id, orderId))
         .returning();
 
-      return { order: confirmedOrder, allocations };
+      return { order: confirmedOrder, reservations };
+    });
+
+    await advancedCache.invalidate('inventory:list:*');
+    return result;
+  }
+
+  async allocateBackorders(orderId?: string, allocatedBy?: string): Promise<StockReservation[]> {
+    const db = await getDb();
+    const reservations = await db.transaction(async (tx) => {
+      // Oldest orders are served first
+      const lines = await tx
+        .select({ item: salesOrderItems })
+        .from(salesOrderItems)
+        .innerJoin(salesOrders, eq(salesOrderItems.orderId, salesOrders.id))
+        .where(and(
+          orderId ? eq(salesOrderItems.orderId, orderId) : undefined,
+          inArray(salesOrders.status, ['confirmed', 'partially_shipped']),
+          gte(salesOrderItems.quantityBackordered, 1)
+        ))
+        .orderBy(asc(salesOrders.orderDate), asc(salesOrders.createdAt))
+        .for('update');
+
+      const reservations: StockReservation[] = [];
+      for (const { item } of lines) {
+        const itemReservations = await this.reserveStockFefo(tx, item, item.quantityBackordered, allocatedBy);
+        if (itemReservations.length === 0) continue;
+
+        reservations.push(...itemReservations);
+        const reservedQty = itemReservations.reduce((sum, r) => sum + r.quantity, 0);
+        await tx
+          .update(salesOrderItems)
+          .set({ quantityBackordered: item.quantityBackordered - reservedQty })
+          .where(eq(salesOrderItems.id, item.id));
+      }
+
+      return reservations;
     });
+
+    if (reservations.length > 0) {
+      await advancedCache.invalidate('inventory:list:*');
+    }
+    return reservations;
   }
 
-  async fulfillSalesOrder(orderId: string, warehouseId: string, fulfilledBy: string): Promise<{ order: SalesOrder; movements: StockMovement[] }> {
+  async createShipment(orderId: string, shipmentData: CreateShipmentRequest, shippedBy: string): Promise<{ order: SalesOrder; shipment: Shipment; items: ShipmentItem[]; movements: StockMovement[] }> {
     const db = await getDb();
-    return await db.transaction(async (tx) => {
-      const order = await this.getSalesOrder(orderId);
+    const result = await db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(salesOrders)
+        .where(eq(salesOrders.id, orderId))
+        .for('update');
       if (!order) throw new Error('Sales order not found');
-      
-      if (order.status !== 'confirmed') {
-        throw new Error('Only confirmed orders can be fulfilled');
-      }
 
-      const movements: StockMovement[] = [];
+      if (order.status !== 'confirmed' && order.status !== 'partially_shipped') {
+        throw new Error('Only confirmed or partially shipped orders can be shipped');
+      }
 
-      // Process each order item with FEFO (First Expired, First Out)
-      for (const item of order.items) {
-        let remainingQuantity = item.quantity;
-        
-        // Get inventory batches ordered by expiry date (FEFO)
-        const batches = await tx
-          .select()
-          .from(inventory)
-          .where(and(
-            eq(inventory.productId, item.productId),
-            eq(inventory.warehouseId, warehouseId),
-            gte(inventory.quantity, 1)
-          ))
-          .orderBy(asc(inventory.expiryDate));
-        
-        for (const batch of batches) {
-          if (remainingQuantity <= 0) break;
-          
-          const deductQuantity = Math.min(batch.quantity, remainingQuantity);
-          
-          // Update inventory
-          await tx
-            .update(inventory)
-            .set({ 
-              quantity: batch.quantity - deductQuantity,
-              updatedAt: new Date()
-            })
-            .where(eq(inventory.id, batch.id));
-          
-          // Create stock movement
-          const [movement] = await tx
-            .insert(stockMovements)
-            .values({
-              productId: item.productId,
-              warehouseId,
-              inventoryId: batch.id,
-              movementType: 'out',
-              quantity: -deductQuantity,
-              reference: order.orderNumber,
-              notes: `Sales fulfillment by ${fulfilledBy}`,
-              userId: fulfilledBy
-            })
-            .returning();
-          
-          movements.push(movement);
-          remainingQuantity -= deductQuantity;
-        }
-        
-        if (remainingQuantity > 0) {
-          throw new Error(`Insufficient stock to fulfill ${item.product.name}. Missing: ${remainingQuantity}`);
+      // A shipment leaves from one warehouse; default to the one holding the reserved stock
+      let warehouseId = shipmentData.warehouseId;
+      if (!warehouseId) {
+        const holding = await this.getReservationWarehouses(tx, orderId);
+        if (holding.length !== 1) {
+          throw new Error(holding.length === 0
+            ? 'This order has no reserved stock; a warehouse is required to ship it'
+            : 'Reserved stock is held in several warehouses; choose the warehouse to ship from');
         }
+        warehouseId = holding[0];
       }
 
-      // Update order status
-      const [fulfilledOrder] = await tx
-        .update(salesOrders)
-        .set({ 
-          status: 'shipped',
-          deliveryDate: new Date().toISOString().split('T')[0],
-          updatedAt: new Date()
-        })
+      const shipped = await this.shipFromWarehouse(tx, order, warehouseId, shipmentData, shippedBy);
+      if (!shipped) {
+        throw new Error('Nothing left to ship from this warehouse');
+      }
+      return shipped;
+    });
+
+    await advancedCache.invalidate('inventory:list:*');
+    return result;
+  }
+
+  async fulfillSalesOrder(orderId: string, warehouseId: string | undefined, fulfilledBy: string): Promise<{ order: SalesOrder; shipments: Shipment[]; movements: StockMovement[] }> {
+    const db = await getDb();
+    const result = await db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(salesOrders)
         .where(eq(salesOrders.id, orderId))
-        .returning();
+        .for('update');
+      if (!order) throw new Error('Sales order not found');
+      
+      if (order.status !== 'confirmed' && order.status !== 'partially_shipped') {
+        throw new Error('Only confirmed or partially shipped orders can be fulfilled');
+      }
+
+      // Ship everything reserved, one shipment per warehouse. The warehouse argument is
+      // only needed for orders confirmed before stock reservations existed.
+      const warehouseIds = Array.from(new Set([
+        ...await this.getReservationWarehouses(tx, orderId),
+        ...(warehouseId ? [warehouseId] : []),
+      ]));
+      if (warehouseIds.length === 0) {
+        throw new Error('This order has no stock reservations; a warehouse is required to fulfill it');
+      }
+
+      let currentOrder = order;
+      const createdShipments: Shipment[] = [];
+      const movements: StockMovement[] = [];
+      for (const id of warehouseIds) {
+        const shipped = await this.shipFromWarehouse(tx, currentOrder, id, {}, fulfilledBy);
+        if (!shipped) continue;
+        currentOrder = shipped.order;
+        createdShipments.push(shipped.shipment);
+        movements.push(...shipped.movements);
+      }
 
-      return { order: fulfilledOrder, movements };
+      if (createdShipments.length === 0) {
+        throw new Error('No reserved or available stock to ship for this order');
+      }
+
+      return { order: currentOrder, shipments: createdShipments, movements };
     });
+
+    await advancedCache.invalidate('inventory:list:*');
+    return result;
+  }
+
+  async getShipments(salesOrderId: string): Promise<(Shipment & { warehouse: Warehouse; items: ShipmentItem[]; invoice: Invoice | null })[]> {
+    const db = await getDb();
+    const rows = await db
+      .select({ shipment: shipments, warehouse: warehouses, invoice: invoices })
+      .from(shipments)
+      .innerJoin(warehouses, eq(shipments.warehouseId, warehouses.id))
+      .leftJoin(invoices, eq(invoices.shipmentId, shipments.id))
+      .where(eq(shipments.salesOrderId, salesOrderId))
+      .orderBy(asc(shipments.createdAt));
+    if (rows.length === 0) return [];
+
+    const items = await db
+      .select()
+      .from(shipmentItems)
+      .where(inArray(shipmentItems.shipmentId, rows.map(r => r.shipment.id)));
+
+    return rows.map(r => ({
+      ...r.shipment,
+      warehouse: r.warehouse,
+      invoice: r.invoice,
+      items: items.filter(i => i.shipmentId === r.shipment.id),
+    }));
+  }
+
+  async getShipment(id: string): Promise<(Shipment & { warehouse: Warehouse; salesOrder: SalesOrder; customer: Customer; items: (ShipmentItem & { product: Product })[] }) | undefined> {
+    const db = await getDb();
+    const [row] = await db
+      .select({ shipment: shipments, warehouse: warehouses, salesOrder: salesOrders, customer: customers })
+      .from(shipments)
+      .innerJoin(warehouses, eq(shipments.warehouseId, warehouses.id))
+      .innerJoin(salesOrders, eq(shipments.salesOrderId, salesOrders.id))
+      .innerJoin(customers, eq(salesOrders.customerId, customers.id))
+      .where(eq(shipments.id, id));
+    if (!row) return undefined;
+
+    const items = await db
+      .select({ item: shipmentItems, product: products })
+      .from(shipmentItems)
+      .innerJoin(products, eq(shipmentItems.productId, products.id))
+      .where(eq(shipmentItems.shipmentId, id))
+      .orderBy(asc(products.name), asc(shipmentItems.expiryDate));
+
+    return {
+      ...row.shipment,
+      warehouse: row.warehouse,
+      salesOrder: row.salesOrder,
+      customer: row.customer,
+      items: items.map(i => ({ ...i.item, product: i.product })),
+    };
+  }
+
+  async markShipmentDelivered(id: string): Promise<Shipment> {
+    const db = await getDb();
+    const [shipment] = await db
+      .update(shipments)
+      .set({ status: 'delivered', deliveredAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(shipments.id, id), eq(shipments.status, 'shipped')))
+      .returning();
+    if (!shipment) {
+      throw new Error('Shipment not found or already delivered');
+    }
+    return shipment;
+  }
+
+  async getStockReservations(salesOrderId: string): Promise<StockReservation[]> {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(stockReservations)
+      .where(eq(stockReservations.salesOrderId, salesOrderId))
+      .orderBy(asc(stockReservations.createdAt));
   }
 
-  async generateInvoiceFromSalesOrder(orderId: string, invoiceData?: Partial<InsertInvoice>): Promise<Invoice> {
+  async generateInvoiceFromSalesOrder(orderId: string, invoiceData?: Partial<InsertInvoice>, shipmentId?: string): Promise<Invoice> {
     const db = await getDb();
     return await db.transaction(async (tx) => {
       const order = await this.getSalesOrder(orderId);
       if (!order) throw new Error('Sales order not found');
       
-      if (order.status !== 'shipped' && order.status !== 'delivered') {
-        throw new Error('Only shipped or delivered orders can be invoiced');
-      }
+      let subtotal = order.subtotal;
+      let taxAmount = order.taxAmount;
+      let totalAmount = order.totalAmount;
+      let taxBreakdown = order.taxBreakdown;
+      let defaultNotes = `Generated from Sales Order ${order.orderNumber}`;
+
+      if (shipmentId) {
+        // Invoice one shipment: the goods on its delivery note, taxed as they were ordered
+        const [shipment] = await tx
+          .select()
+          .from(shipments)
+          .where(and(eq(shipments.id, shipmentId), eq(shipments.salesOrderId, orderId)));
+        if (!shipment) throw new Error('Shipment not found for this sales order');
 
-      // Check if invoice already exists
-      const [existingInvoice] = await tx
-        .select()
-        .from(invoices)
-        .where(eq(invoices.salesOrderId, orderId))
-        .limit(1);
-      
-      if (existingInvoice) {
-        throw new Error('Invoice already exists for this sales order');
+        const [existingInvoice] = await tx
+          .select()
+          .from(invoices)
+          .where(and(eq(invoices.salesOrderId, orderId), or(eq(invoices.shipmentId, shipmentId), isNull(invoices.shipmentId))))
+          .limit(1);
+        if (existingInvoice) {
+          throw new Error(existingInvoice.shipmentId
+            ? 'Invoice already exists for this shipment'
+            : 'This sales order has already been invoiced in full');
+        }
+
+        const lines = await tx
+          .select({ line: shipmentItems, item: salesOrderItems })
+          .from(shipmentItems)
+          .innerJoin(salesOrderItems, eq(shipmentItems.salesOrderItemId, salesOrderItems.id))
+          .where(eq(shipmentItems.shipmentId, shipmentId));
+        const shipmentTax = summarizeTax(await this.salesOrderTaxLines(tx, order, lines.map(({ line, item }) => ({
+          ...item,
+          netAmount: Math.round(Number(line.unitPrice) * line.quantity * 100) / 100,
+        }))));
+
+        subtotal = shipmentTax.subtotal.toFixed(2);
+        taxAmount = shipmentTax.taxAmount.toFixed(2);
+        totalAmount = ((Math.round(shipmentTax.subtotal * 100) + Math.round(shipmentTax.taxAmount * 100)) / 100).toFixed(2);
+        taxBreakdown = shipmentTax.breakdown;
+        defaultNotes = `Generated from delivery note ${shipment.shipmentNumber} (Sales Order ${order.orderNumber})`;
+      } else {
+        if (order.status !== 'shipped' && order.status !== 'delivered') {
+          throw new Error('Only shipped or delivered orders can be invoiced');
+        }
+
+        // Check if invoice already exists
+        const [existingInvoice] = await tx
+          .select()
+          .from(invoices)
+          .where(eq(invoices.salesOrderId, orderId))
+          .limit(1);
+        
+        if (existingInvoice) {
+          throw new Error('Invoice already exists for this sales order');
+        }
       }
 
       // Generate invoice number
-      const invoiceNumber = invoiceData?.invoiceNumber || `INV-${Date.now()}`;
+      const invoiceNumber = invoiceData?.invoiceNumber || await this.allocateDocumentNumber(tx, 'invoice');
       const invoiceDate = invoiceData?.invoiceDate || new Date().toISOString().split('T')[0];
-      const dueDate = invoiceData?.dueDate || new Date(Date.now() + (30 * 24 * 60 * 60 * 1000)).toISOString().split('T')[0]; // 30 days
-
+      await this.assertPeriodOpen(tx, 'sales', invoiceDate);
+      const paymentTermsDays = order.customer.paymentTerms ?? await this.getNumericSetting('default_payment_terms_days');
+      const dueDate = invoiceData?.dueDate || new Date(Date.now() + (paymentTermsDays * 24 * 60 * 60 * 1000)).toISOString().split('T')[0];
+
+      const invoiceValues = {
+        invoiceNumber,
+        customerId: order.customerId,
+        salesOrderId: orderId,
+        shipmentId: shipmentId ?? null,
+        invoiceDate,
+        dueDate,
+        status: 'sent' as const,
+        currency: order.currency,
+        subtotal,
+        taxAmount,
+        totalAmount,
+        taxBreakdown,
+        paidAmount: '0',
+        notes: invoiceData?.notes || defaultNotes,
+        ...invoiceData
+      };
+      // The rate is fixed on the invoice date, not carried over from the order
       const [invoice] = await tx
         .insert(invoices)
-        .values({
-          invoiceNumber,
-          customerId: order.customerId,
-          salesOrderId: orderId,
-          invoiceDate,
-          dueDate,
-          status: 'sent',
-          subtotal: order.subtotal,
-          taxAmount: order.taxAmount,
-          totalAmount: order.totalAmount,
-          paidAmount: '0',
-          notes: invoiceData?.notes || `Generated from Sales Order ${order.orderNumber}`,
-          ...invoiceData
-        })
+        .values({ ...invoiceValues, ...await this.invoiceCurrencyFields(tx, invoiceValues) })
         .returning();
 
-      // Update order status
-      await tx
-        .update(salesOrders)
-        .set({ status: 'delivered', updatedAt: new Date() })
-        .where(eq(salesOrders.id, orderId));
+      if (invoice.status !== 'draft') {
+        await this.signInvoice(tx, invoice);
+        await this.postInvoiceJournal(tx, invoice);
+      }
+
+      // The order is delivered once everything has shipped and every shipment is invoiced
+      let invoicedInFull = !shipmentId;
+      if (shipmentId && order.status === 'shipped') {
+        const [uninvoiced] = await tx
+          .select({ id: shipments.id })
+          .from(shipments)
+          .leftJoin(invoices, eq(invoices.shipmentId, shipments.id))
+          .where(and(eq(shipments.salesOrderId, orderId), isNull(invoices.id)))
+          .limit(1);
+        invoicedInFull = !uninvoiced;
+      }
+
+      if (invoicedInFull) {
+        await tx
+          .update(salesOrders)
+          .set({ status: 'delivered', updatedAt: new Date() })
+          .where(eq(salesOrders.id, orderId));
+      }
 
       return invoice;
     });
@@ -1555,9 +2201,12 @@ export class DatabaseStorage implements IStorage {
       if (originalOrder.status !== 'delivered') {
         throw new Error('Only delivered orders can have returns processed');
       }
+      // The credit note and the stock coming back are both dated today
+      await this.assertPeriodOpen(tx, 'sales', new Date());
+      await this.assertPeriodOpen(tx, 'inventory', new Date());
 
       const movements: StockMovement[] = [];
-      let totalCreditAmount = 0;
+      const creditedLines: Array<SalesOrderItem & { netAmount: number; reason: string | null }> = [];
       
       // Process return items
       for (const returnItem of items) {
@@ -1571,7 +2220,42 @@ export class DatabaseStorage implements IStorage {
           throw new Error(`Return quantity exceeds original quantity for product ${returnItem.productId}`);
         }
 
-        // Create new inventory entry for returned goods
+        // Returns of a batch under an active recall go straight to quarantine and count towards recovery
+        const soldInventoryId = returnItem.inventoryId || originalItem.inventoryId;
+        const [soldBatch] = soldInventoryId
+          ? await tx.select().from(inventory).where(eq(inventory.id, soldInventoryId))
+          : [];
+        const [activeRecall] = soldBatch?.recallNoticeId
+          ? await tx
+              .select()
+              .from(recallNotices)
+              .where(and(eq(recallNotices.id, soldBatch.recallNoticeId), eq(recallNotices.status, 'in_progress')))
+          : [];
+
+        if (soldBatch && activeRecall) {
+          const { inventoryId: returnedInventoryId, movement } = await this.receiveRecalledUnits(tx, activeRecall, soldBatch, warehouseId, returnItem.qty, processedBy);
+          movements.push(movement);
+          await tx
+            .insert(recallReturns)
+            .values({
+              recallNoticeId: activeRecall.id,
+              customerId: originalOrder.customerId,
+              inventoryId: soldBatch.id,
+              returnedInventoryId,
+              salesOrderId: refId,
+              batchNumber: soldBatch.batchNumber,
+              quantity: returnItem.qty,
+              notes: returnItem.reason,
+              recordedBy: processedBy,
+            });
+          await this.refreshRecallRecovery(tx, activeRecall.id);
+          creditedLines.push({ ...originalItem, quantity: returnItem.qty, netAmount: Math.round(Number(originalItem.unitPrice) * returnItem.qty * 100) / 100, reason: returnItem.reason ?? null });
+          continue;
+        }
+
+        // Returned goods come back at what they cost when they were sold
+        const returnCost = await this.soldUnitCost(tx, originalOrder.orderNumber, returnItem.productId)
+          ?? Number(soldBatch?.costPerUnit ?? 0);
         const [newInventory] = await tx
           .insert(inventory)
           .values({
@@ -1581,55 +2265,88 @@ export class DatabaseStorage implements IStorage {
             quantity: returnItem.qty,
             manufactureDate: new Date().toISOString().split('T')[0],
             expiryDate: new Date(Date.now() + (365 * 24 * 60 * 60 * 1000)).toISOString().split('T')[0], // 1 year default
-            costPerUnit: originalItem.unitPrice
+            costPerUnit: returnCost.toFixed(2)
           })
           .returning();
 
-        // Create stock movement
-        const [movement] = await tx
-          .insert(stockMovements)
-          .values({
-            productId: returnItem.productId,
-            warehouseId,
-            inventoryId: newInventory.id,
-            movementType: 'in',
-            quantity: returnItem.qty,
-            reference: originalOrder.orderNumber,
-            notes: `Return: ${returnItem.reason || 'Customer return'} - Processed by ${processedBy}`,
-            userId: processedBy
-          })
-          .returning();
+        const movement = await this.insertStockMovement(tx, {
+          productId: returnItem.productId,
+          warehouseId,
+          inventoryId: newInventory.id,
+          movementType: 'in',
+          quantity: returnItem.qty,
+          reference: originalOrder.orderNumber,
+          notes: `Return: ${returnItem.reason || 'Customer return'} - Processed by ${processedBy}`,
+          userId: processedBy
+        }, { unitCost: returnCost });
         
         movements.push(movement);
-        totalCreditAmount += Number(originalItem.unitPrice) * returnItem.qty;
+        creditedLines.push({ ...originalItem, quantity: returnItem.qty, netAmount: Math.round(Number(originalItem.unitPrice) * returnItem.qty * 100) / 100, reason: returnItem.reason ?? null });
       }
 
-      // Create credit note (negative invoice)
-      const creditNoteNumber = `CN-${Date.now()}`;
+      // Create credit note (negative invoice), refunding the IVA charged on the returned goods
+      const taxedLines = await this.salesOrderTaxLines(tx, originalOrder, creditedLines);
+      const credit = summarizeTax(taxedLines);
+      const [creditedInvoice] = await tx
+        .select({ id: invoices.id })
+        .from(invoices)
+        .where(and(
+          eq(invoices.salesOrderId, refId),
+          ne(invoices.status, 'cancelled'),
+          sql`${invoices.totalAmount} > 0`
+        ))
+        .orderBy(desc(invoices.invoiceDate), desc(invoices.createdAt))
+        .limit(1);
+      const totalCreditAmount = (Math.round(credit.subtotal * 100) + Math.round(credit.taxAmount * 100)) / 100;
+      const creditNoteNumber = await this.allocateDocumentNumber(tx, 'credit_note');
+      const creditNoteValues = {
+        invoiceNumber: creditNoteNumber,
+        customerId: originalOrder.customerId,
+        salesOrderId: refId,
+        invoiceDate: new Date().toISOString().split('T')[0],
+        dueDate: new Date().toISOString().split('T')[0],
+        status: 'paid' as const,
+        currency: originalOrder.currency,
+        subtotal: (-credit.subtotal).toFixed(2),
+        taxAmount: (-credit.taxAmount).toFixed(2),
+        totalAmount: (-totalCreditAmount).toFixed(2),
+        taxBreakdown: scaleTaxBreakdown(credit.breakdown, -1),
+        creditedInvoiceId: creditedInvoice?.id ?? null,
+        creditedLines: creditedLines.map((line, index): CreditedLine => ({
+          productId: line.productId,
+          quantity: line.quantity,
+          unitPrice: Number(line.unitPrice),
+          netAmount: line.netAmount,
+          taxCodeId: taxedLines[index].taxCode.id,
+          taxRate: line.taxCodeId === taxedLines[index].taxCode.id ? Number(line.taxRate) : Number(taxedLines[index].taxCode.rate),
+          taxAmount: taxedLines[index].taxAmount,
+          reason: line.reason,
+        })),
+        paidAmount: (-totalCreditAmount).toFixed(2),
+        notes: `Credit note for returned items - Processed by ${processedBy}`
+      };
       const [creditNote] = await tx
         .insert(invoices)
-        .values({
-          invoiceNumber: creditNoteNumber,
-          customerId: originalOrder.customerId,
-          salesOrderId: refId,
-          invoiceDate: new Date().toISOString().split('T')[0],
-          dueDate: new Date().toISOString().split('T')[0],
-          status: 'paid',
-          subtotal: (-totalCreditAmount).toString(),
-          taxAmount: '0',
-          totalAmount: (-totalCreditAmount).toString(),
-          paidAmount: (-totalCreditAmount).toString(),
-          notes: `Credit note for returned items - Processed by ${processedBy}`
-        })
+        .values({ ...creditNoteValues, ...await this.invoiceCurrencyFields(tx, creditNoteValues) })
         .returning();
 
+      await this.signInvoice(tx, creditNote);
+      await this.postInvoiceJournal(tx, creditNote, processedBy);
+      await this.postCostOfSalesJournal(tx, {
+        entryDate: creditNote.invoiceDate,
+        description: `Goods returned on credit note ${creditNote.invoiceNumber}`,
+        sourceId: creditNote.id,
+        sourceReference: creditNote.invoiceNumber,
+        postedBy: processedBy,
+      }, movements);
+
       return { creditNote, movements };
     });
   }
 
   async cancelSalesOrder(orderId: string, cancelledBy: string): Promise<SalesOrder> {
     const db = await getDb();
-    return await db.transaction(async (tx) => {
+    const cancelledOrder = await db.transaction(async (tx) => {
       const order = await this.getSalesOrder(orderId);
       if (!order) throw new Error('Sales order not found');
       
@@ -1638,22 +2355,12 @@ export class DatabaseStorage implements IStorage {
         throw new Error(`Cannot cancel order with status: ${order.status}. Only draft or confirmed orders can be cancelled.`);
       }
 
-      // If order was confirmed, release any stock reservations
+      // If order was confirmed, release its stock reservations
       if (order.status === 'confirmed') {
-        // Note: In a full implementation, you might track specific allocations
-        // For now, we just update the order status and log the cancellation
-        const [stockMovement] = await tx
-          .insert(stockMovements)
-          .values({
-            productId: order.items[0]?.productId || '', // Reference item for logging
-            warehouseId: '', // Would be tracked with allocations
-            movementType: 'adjustment',
-            quantity: 0, // No actual stock movement, just audit trail
-            reference: order.orderNumber,
-            notes: `Order cancelled - Stock reservations released by ${cancelledBy}`,
-            userId: cancelledBy
-          })
-          .returning();
+        await tx
+          .update(stockReservations)
+          .set({ status: 'released', releasedAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(stockReservations.salesOrderId, orderId), eq(stockReservations.status, 'active')));
       }
 
       // Update order status to cancelled
@@ -1669,6 +2376,9 @@ export class DatabaseStorage implements IStorage {
 
       return cancelledOrder;
     });
+
+    await advancedCache.invalidate('inventory:list:*');
+    return cancelledOrder;
   }
 
   // Purchase operations
@@ -1754,11 +2464,15 @@ export class DatabaseStorage implements IStorage {
 
   async createPurchaseOrder(order: InsertPurchaseOrder): Promise<PurchaseOrder> {
     const db = await getDb();
-    const [newOrder] = await db
-      .insert(purchaseOrders)
-      .values(order)
-      .returning();
-    return newOrder;
+    return await db.transaction(async (tx) => {
+      await this.assertPeriodOpen(tx, 'purchases', order.orderDate);
+      const orderNumber = order.orderNumber || await this.allocateDocumentNumber(tx, 'purchase_order');
+      const [newOrder] = await tx
+        .insert(purchaseOrders)
+        .values({ ...order, orderNumber })
+        .returning();
+      return newOrder;
+    });
   }
 
   async updatePurchaseOrder(id: string, order: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder> {
@@ -1792,6 +2506,11 @@ export class DatabaseStorage implements IStorage {
         }
       }
       
+      if (Object.keys(order).some(field => field !== 'status')) {
+        await this.assertPeriodOpen(tx, 'purchases', currentOrder.orderDate);
+        await this.assertPeriodOpen(tx, 'purchases', order.orderDate);
+      }
+
       // Prevent modification of confirmed/received orders
       if (['confirmed', 'received', 'closed'].includes(currentOrder.status!) && 
           (order.supplierId || order.orderDate || order.totalAmount)) {
@@ -1818,30 +2537,48 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Invoice operations
-  async getInvoices(limit = 50): Promise<(Invoice & { customer: Customer })[]> {
+  async getInvoices(limit = 50): Promise<(Invoice & { customer: Customer; hashExcerpt: string | null })[]> {
     const db = await getDb();
-    return await db
+    const rows = await db
       .select({
         id: invoices.id,
         invoiceNumber: invoices.invoiceNumber,
         customerId: invoices.customerId,
         salesOrderId: invoices.salesOrderId,
+        shipmentId: invoices.shipmentId,
         invoiceDate: invoices.invoiceDate,
         dueDate: invoices.dueDate,
         status: invoices.status,
+        currency: invoices.currency,
+        fxRate: invoices.fxRate,
         subtotal: invoices.subtotal,
         taxAmount: invoices.taxAmount,
         totalAmount: invoices.totalAmount,
+        baseSubtotal: invoices.baseSubtotal,
+        baseTaxAmount: invoices.baseTaxAmount,
+        baseTotalAmount: invoices.baseTotalAmount,
+        taxBreakdown: invoices.taxBreakdown,
+        creditedInvoiceId: invoices.creditedInvoiceId,
+        creditedLines: invoices.creditedLines,
         paidAmount: invoices.paidAmount,
+        writtenOffAmount: invoices.writtenOffAmount,
         notes: invoices.notes,
+        dunningLevel: invoices.dunningLevel,
+        lastDunnedAt: invoices.lastDunnedAt,
         createdAt: invoices.createdAt,
         updatedAt: invoices.updatedAt,
         customer: customers,
+        signatureHash: fiscalSignatures.hash,
       })
       .from(invoices)
       .innerJoin(customers, eq(invoices.customerId, customers.id))
+      .leftJoin(fiscalSignatures, and(
+        eq(fiscalSignatures.documentId, invoices.id),
+        inArray(fiscalSignatures.documentType, ['invoice', 'credit_note'])
+      ))
       .limit(limit)
       .orderBy(desc(invoices.createdAt));
+    return rows.map(({ signatureHash, ...invoice }) => ({ ...invoice, hashExcerpt: signatureHash ? hashExcerpt(signatureHash) : null }));
   }
 
   async getInvoice(id: string): Promise<Invoice | undefined> {
@@ -1855,21 +2592,112 @@ export class DatabaseStorage implements IStorage {
 
   async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
     const db = await getDb();
-    const [newInvoice] = await db
-      .insert(invoices)
-      .values(invoice)
-      .returning();
-    return newInvoice;
+    return await db.transaction(async (tx) => {
+      await this.assertPeriodOpen(tx, 'sales', invoice.invoiceDate);
+      const invoiceNumber = invoice.invoiceNumber || await this.allocateDocumentNumber(tx, 'invoice');
+      const taxed = { ...invoice, ...await this.manualInvoiceTaxFields(tx, invoice) };
+      const [newInvoice] = await tx
+        .insert(invoices)
+        .values({ ...taxed, invoiceNumber, ...await this.invoiceCurrencyFields(tx, taxed) })
+        .returning();
+
+      // Drafts reach the ledger, and are signed, when they are issued
+      if (newInvoice.status !== 'draft' && newInvoice.status !== 'cancelled') {
+        await this.signInvoice(tx, newInvoice);
+        await this.postInvoiceJournal(tx, newInvoice);
+      }
+      return newInvoice;
+    });
   }
 
-  async updateInvoice(id: string, invoice: Partial<InsertInvoice>): Promise<Invoice> {
+  async updateInvoice(id: string, changes: Partial<InsertInvoice>): Promise<Invoice> {
     const db = await getDb();
-    const [updatedInvoice] = await db
-      .update(invoices)
-      .set({ ...invoice, updatedAt: new Date() })
-      .where(eq(invoices.id, id))
-      .returning();
-    return updatedInvoice;
+    return await db.transaction(async (tx) => {
+      const [currentInvoice] = await tx.select().from(invoices).where(eq(invoices.id, id));
+      if (!currentInvoice) return currentInvoice;
+
+      const isDraft = currentInvoice.status === 'draft';
+
+      // Sending or settling an issued invoice leaves its month alone; issuing a draft does not
+      if (isDraft || Object.keys(changes).some(field => field !== 'status')) {
+        await this.assertPeriodOpen(tx, 'sales', currentInvoice.invoiceDate);
+        await this.assertPeriodOpen(tx, 'sales', changes.invoiceDate);
+      }
+
+      if (!isDraft && (changes.status === 'draft' || (currentInvoice.status === 'cancelled' && changes.status && changes.status !== 'cancelled'))) {
+        throw new Error(`Invoice ${currentInvoice.invoiceNumber} has been ${currentInvoice.status === 'cancelled' ? 'cancelled' : 'issued'} and cannot be reopened`);
+      }
+
+      // Draft invoices without a sales order are taxed on their subtotal; a new amount,
+      // customer or date recomputes the IVA
+      const recomputeTax = isDraft && !currentInvoice.salesOrderId && (changes.subtotal !== undefined || changes.totalAmount !== undefined
+        || changes.customerId !== undefined || changes.invoiceDate !== undefined);
+      const invoice: Partial<InsertInvoice> & Partial<Pick<Invoice, 'taxBreakdown'>> = recomputeTax
+        ? {
+            ...changes,
+            ...await this.manualInvoiceTaxFields(tx, {
+              customerId: changes.customerId ?? currentInvoice.customerId,
+              invoiceDate: changes.invoiceDate ?? currentInvoice.invoiceDate,
+              // A new total without a subtotal is taken as including IVA
+              ...(changes.subtotal === undefined && changes.totalAmount !== undefined
+                ? { totalAmount: changes.totalAmount }
+                : { subtotal: changes.subtotal ?? currentInvoice.subtotal }),
+            }),
+          }
+        : changes;
+
+      // Issued invoices are signed: their content is fixed and they are corrected by credit
+      // notes. The check runs on what would be written, so a resent unchanged value passes
+      if (!isDraft) {
+        const changedFields = changedSignedFields(currentInvoice, invoice);
+        if (changedFields.length > 0) {
+          throw new Error(`Invoice ${currentInvoice.invoiceNumber} has been issued and cannot be changed (${changedFields.join(', ')}); issue a credit note to correct it`);
+        }
+      }
+
+      // Every accounting field is signed, so only a draft's can actually change
+      const accountingChanged = isDraft && (invoice.totalAmount !== undefined || invoice.taxAmount !== undefined
+        || invoice.customerId !== undefined || invoice.invoiceDate !== undefined
+        || invoice.currency !== undefined || invoice.fxRate !== undefined);
+
+      // Amounts, currency or date changes recompute the base-currency amounts; a new
+      // currency without a rate takes the rate of the invoice date
+      const currencyFields = accountingChanged
+        ? await this.invoiceCurrencyFields(tx, {
+            ...currentInvoice,
+            ...invoice,
+            fxRate: invoice.fxRate ?? (invoice.currency && invoice.currency !== currentInvoice.currency ? null : currentInvoice.fxRate),
+          })
+        : {};
+
+      const [updatedInvoice] = await tx
+        .update(invoices)
+        .set({ ...invoice, ...currencyFields, updatedAt: new Date() })
+        .where(eq(invoices.id, id))
+        .returning();
+
+      const [postedEntry] = await tx
+        .select()
+        .from(journalEntries)
+        .where(and(
+          eq(journalEntries.sourceId, id),
+          inArray(journalEntries.sourceType, ['invoice', 'credit_note']),
+          eq(journalEntries.status, 'posted')
+        ));
+
+      // Cancelling reverses the posting; amount changes on an issued invoice re-post it
+      if (postedEntry && (updatedInvoice.status === 'cancelled' || accountingChanged)) {
+        await this.reverseJournalInTx(tx, postedEntry);
+      }
+      if (currentInvoice.status === 'draft' && updatedInvoice.status !== 'draft' && updatedInvoice.status !== 'cancelled') {
+        await this.signInvoice(tx, updatedInvoice);
+      }
+      if (updatedInvoice.status !== 'draft' && updatedInvoice.status !== 'cancelled' && (!postedEntry || accountingChanged)) {
+        await this.postInvoiceJournal(tx, updatedInvoice);
+      }
+
+      return updatedInvoice;
+    });
   }
 
   // Stock movement operations
@@ -1885,6 +2713,9 @@ export class DatabaseStorage implements IStorage {
         quantity: stockMovements.quantity,
         reference: stockMovements.reference,
         notes: stockMovements.notes,
+        unitCost: stockMovements.unitCost,
+        totalCost: stockMovements.totalCost,
+        costOfSales: stockMovements.costOfSales,
         userId: stockMovements.userId,
         createdAt: stockMovements.createdAt,
         product: products,
@@ -1905,5473 +2736,11903 @@ export class DatabaseStorage implements IStorage {
 
   async createStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
     const db = await getDb();
-    const [newMovement] = await db
-      .insert(stockMovements)
-      .values(movement)
-      .returning();
-    return newMovement;
+    return await db.transaction(async (tx) => {
+      await this.assertPeriodOpen(tx, 'inventory', new Date());
+      const newMovement = await this.insertStockMovement(tx, movement);
+      await this.postCostOfSalesJournal(tx, {
+        entryDate: new Date().toISOString().split('T')[0],
+        description: `Stock ${movement.movementType.replace(/_/g, ' ')}${movement.reference ? ` ${movement.reference}` : ''}`,
+        sourceId: newMovement.id,
+        sourceReference: movement.reference,
+        postedBy: movement.userId,
+      }, [newMovement]);
+      return newMovement;
+    });
   }
 
-  // Dashboard analytics - OPTIMIZED for parallel execution
-  async getDashboardMetrics(): Promise<{
-    totalRevenue: number;
-    activeProducts: number;
-    openOrders: number;
-    outstandingAmount: number;
-    expiringProductsCount: number;
-  }> {
+  // Inter-warehouse transfer operations
+  async getTransferOrders(status?: string, warehouseId?: string, limit = 50): Promise<(TransferOrder & { sourceWarehouse: Warehouse; destinationWarehouse: Warehouse })[]> {
     const db = await getDb();
-    
-    // Expiring products cutoff date calculation
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() + 90);
-    const cutoffDateStr = cutoffDate.toISOString().split('T')[0];
-
-    // MEMORY LEAK FIX: Execute all queries in parallel with proper error handling
-    const results = await Promise.allSettled([
-      // Total revenue from confirmed sales orders
-      db
-        .select({
-          total: sql<number>`COALESCE(SUM(${salesOrders.totalAmount}), 0)`,
-        })
-        .from(salesOrders)
-        .where(eq(salesOrders.status, 'confirmed')),
-      
-      // Active products count
-      db
-        .select({
-          count: sql<number>`COUNT(*)`,
-        })
-        .from(products)
-        .where(eq(products.isActive, true)),
-      
-      // Open orders count
-      db
-        .select({
-          count: sql<number>`COUNT(*)`,
-        })
-        .from(salesOrders)
-        .where(sql`${salesOrders.status} IN ('draft', 'confirmed')`),
-      
-      // Outstanding amount from unpaid invoices
-      db
-        .select({
-          total: sql<number>`COALESCE(SUM(${invoices.totalAmount} - ${invoices.paidAmount}), 0)`,
-        })
-        .from(invoices)
-        .where(sql`${invoices.status} IN ('sent', 'overdue')`),
-      
-      // Expiring products count (90 days)
-      db
-        .select({
-          count: sql<number>`COUNT(*)`,
-        })
-        .from(inventory)
-        .where(
-          and(
-            lte(inventory.expiryDate, cutoffDateStr),
-            gte(inventory.quantity, 1)
-          )
-        )
-    ]);
-
-    // MEMORY LEAK FIX: Handle Promise.allSettled results with proper error handling
-    const [
-      revenueResults,
-      productsResults, 
-      ordersResults,
-      outstandingResults,
-      expiringResults
-    ] = results;
-
-    // Safely extract results or log errors for each query
-    const totalRevenue = revenueResults.status === 'fulfilled' 
-      ? Number(revenueResults.value[0]?.total || 0) 
-      : (console.error('Revenue query failed:', revenueResults.reason), 0);
-    
-    const activeProducts = productsResults.status === 'fulfilled' 
-      ? Number(productsResults.value[0]?.count || 0) 
-      : (console.error('Products query failed:', productsResults.reason), 0);
-    
-    const openOrders = ordersResults.status === 'fulfilled' 
-      ? Number(ordersResults.value[0]?.count || 0) 
-      : (console.error('Orders query failed:', ordersResults.reason), 0);
-    
-    const outstandingAmount = outstandingResults.status === 'fulfilled' 
-      ? Number(outstandingResults.value[0]?.total || 0) 
-      : (console.error('Outstanding query failed:', outstandingResults.reason), 0);
-    
-    const expiringProductsCount = expiringResults.status === 'fulfilled' 
-      ? Number(expiringResults.value[0]?.count || 0) 
-      : (console.error('Expiring products query failed:', expiringResults.reason), 0);
-
-    return {
-      totalRevenue,
-      activeProducts,
-      openOrders,
-      outstandingAmount,
-      expiringProductsCount,
-    };
-  }
+    const destinationWarehouses = alias(warehouses, 'destination_warehouses');
 
-  // PHASE 2 OPTIMIZATION: Batch helper methods for efficient data loading
-  // Target: Eliminate N+1 query patterns and improve performance
-  
-  private async getCustomersBatch(customerIds: string[]): Promise<Map<string, Customer>> {
-    if (customerIds.length === 0) return new Map();
-    
-    const cacheKey = `customers:batch:${customerIds.sort().join(',')}`;
-    const cached = await advancedCache.get(cacheKey, 'HOT');
-    if (cached && Array.isArray(cached)) return new Map(cached);
-    
-    const db = await getDb();
-    const customerData = await db
-      .select()
-      .from(customers)
-      .where(inArray(customers.id, customerIds));
-    
-    const customerMap = new Map(customerData.map(c => [c.id, c]));
-    await advancedCache.set(cacheKey, Array.from(customerMap.entries()), 'HOT', { ttl: 300 });
-    
-    return customerMap;
-  }
-  
-  private async getUsersBatch(userIds: string[]): Promise<Map<string, User>> {
-    if (userIds.length === 0) return new Map();
-    
-    const cacheKey = `users:batch:${userIds.sort().join(',')}`;
-    const cached = await advancedCache.get(cacheKey, 'SESSION');
-    if (cached && Array.isArray(cached)) return new Map(cached);
-    
-    const db = await getDb();
-    const userData = await db
-      .select()
-      .from(users)
-      .where(and(inArray(users.id, userIds), eq(users.isActive, true)));
-    
-    const userMap = new Map(userData.map(u => [u.id, u]));
-    await advancedCache.set(cacheKey, Array.from(userMap.entries()), 'SESSION', { ttl: 900 });
-    
-    return userMap;
-  }
-  
-  private async getQuotationItemsBatch(quotationIds: string[]): Promise<Map<string, (QuotationItem & { product: Product })[]>> {
-    if (quotationIds.length === 0) return new Map();
-    
-    const cacheKey = `quotation_items:batch:${quotationIds.sort().join(',')}`;
-    const cached = await advancedCache.get(cacheKey, 'WARM');
-    if (cached) {
-      // Convert from object format back to Map
-      const result = new Map<string, (QuotationItem & { product: Product })[]>();
-      Object.entries(cached).forEach(([quotationId, items]) => {
-        result.set(quotationId, items as (QuotationItem & { product: Product })[]);
-      });
-      return result;
+    const conditions = [];
+    if (status) conditions.push(eq(transferOrders.status, status as any));
+    if (warehouseId) {
+      conditions.push(or(
+        eq(transferOrders.sourceWarehouseId, warehouseId),
+        eq(transferOrders.destinationWarehouseId, warehouseId)
+      ));
     }
-    
-    const db = await getDb();
-    const itemsData = await db
+
+    const results = await db
       .select({
-        quotationItem: quotationItems,
-        product: products
+        transferOrder: transferOrders,
+        sourceWarehouse: warehouses,
+        destinationWarehouse: destinationWarehouses,
       })
-      .from(quotationItems)
-      .leftJoin(products, eq(quotationItems.productId, products.id))
-      .where(inArray(quotationItems.quotationId, quotationIds));
-    
-    // Group items by quotation ID
-    const itemsMap = new Map<string, (QuotationItem & { product: Product })[]>();
-    
-    itemsData.forEach(row => {
-      if (row.quotationItem && row.product) {
-        const quotationId = row.quotationItem.quotationId;
-        if (!itemsMap.has(quotationId)) {
-          itemsMap.set(quotationId, []);
-        }
-        itemsMap.get(quotationId)!.push({
-          ...row.quotationItem,
-          product: row.product
-        });
-      }
-    });
-    
-    // Cache as plain object for JSON serialization
-    const cacheData = Object.fromEntries(itemsMap.entries());
-    await advancedCache.set(cacheKey, cacheData, 'WARM', { ttl: 600 });
-    
-    return itemsMap;
+      .from(transferOrders)
+      .innerJoin(warehouses, eq(transferOrders.sourceWarehouseId, warehouses.id))
+      .innerJoin(destinationWarehouses, eq(transferOrders.destinationWarehouseId, destinationWarehouses.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .limit(limit)
+      .orderBy(desc(transferOrders.createdAt));
+
+    return results.map(r => ({
+      ...r.transferOrder,
+      sourceWarehouse: r.sourceWarehouse,
+      destinationWarehouse: r.destinationWarehouse,
+    }));
   }
 
-  // Recent transactions
-  async getRecentTransactions(limit = 10): Promise<Array<{
-    id: string;
-    date: string;
-    type: 'sale' | 'purchase' | 'payment';
-    customerOrSupplier: string;
-    amount: number;
-    status: string;
-    reference: string;
-  }>> {
+  async getTransferOrder(id: string): Promise<(TransferOrder & { sourceWarehouse: Warehouse; destinationWarehouse: Warehouse; items: (TransferOrderItem & { product: Product })[] }) | undefined> {
     const db = await getDb();
-    // Get recent sales
-    const recentSales = await db
+    const destinationWarehouses = alias(warehouses, 'destination_warehouses');
+
+    const [result] = await db
       .select({
-        id: salesOrders.id,
-        date: salesOrders.orderDate,
-        customerOrSupplier: customers.name,
-        amount: salesOrders.totalAmount,
-        status: salesOrders.status,
-        reference: salesOrders.orderNumber,
+        transferOrder: transferOrders,
+        sourceWarehouse: warehouses,
+        destinationWarehouse: destinationWarehouses,
       })
-      .from(salesOrders)
-      .innerJoin(customers, eq(salesOrders.customerId, customers.id))
-      .orderBy(desc(salesOrders.createdAt))
-      .limit(limit);
+      .from(transferOrders)
+      .innerJoin(warehouses, eq(transferOrders.sourceWarehouseId, warehouses.id))
+      .innerJoin(destinationWarehouses, eq(transferOrders.destinationWarehouseId, destinationWarehouses.id))
+      .where(eq(transferOrders.id, id));
 
-    // Get recent purchases
-    const recentPurchases = await db
+    if (!result) return undefined;
+
+    const items = await db
       .select({
-        id: purchaseOrders.id,
-        date: purchaseOrders.orderDate,
-        customerOrSupplier: suppliers.name,
-        amount: purchaseOrders.totalAmount,
-        status: purchaseOrders.status,
-        reference: purchaseOrders.orderNumber,
+        item: transferOrderItems,
+        product: products,
       })
-      .from(purchaseOrders)
-      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
-      .orderBy(desc(purchaseOrders.createdAt))
-      .limit(limit);
-
-    // Combine and format transactions
-    const transactions = [
-      ...recentSales.map(sale => ({
-        id: sale.id,
-        date: sale.date || new Date().toISOString().split('T')[0],
-        type: 'sale' as const,
-        customerOrSupplier: sale.customerOrSupplier || 'Unknown',
-        amount: Number(sale.amount || 0),
-        status: sale.status || 'draft',
-        reference: sale.reference || '',
-      })),
-      ...recentPurchases.map(purchase => ({
-        id: purchase.id,
-        date: purchase.date || new Date().toISOString().split('T')[0],
-        type: 'purchase' as const,
-        customerOrSupplier: purchase.customerOrSupplier || 'Unknown',
-        amount: Number(purchase.amount || 0),
-        status: purchase.status || 'draft',
-        reference: purchase.reference || '',
-      })),
-    ];
+      .from(transferOrderItems)
+      .innerJoin(products, eq(transferOrderItems.productId, products.id))
+      .where(eq(transferOrderItems.transferOrderId, id))
+      .orderBy(asc(transferOrderItems.createdAt));
 
-    // Sort by date and limit
-    return transactions
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-      .slice(0, limit);
+    return {
+      ...result.transferOrder,
+      sourceWarehouse: result.sourceWarehouse,
+      destinationWarehouse: result.destinationWarehouse,
+      items: items.map(i => ({ ...i.item, product: i.product })),
+    };
   }
 
-  // POS Terminal operations
-  async getPosTerminals(): Promise<PosTerminal[]> {
+  async createTransferOrder(request: CreateTransferOrderRequest, createdBy: string): Promise<TransferOrder> {
     const db = await getDb();
-    return await db
-      .select()
-      .from(posTerminals)
-      .where(eq(posTerminals.isActive, true))
-      .orderBy(asc(posTerminals.name));
-  }
+    return await db.transaction(async (tx) => {
+      const warehouseRows = await tx
+        .select()
+        .from(warehouses)
+        .where(inArray(warehouses.id, [request.sourceWarehouseId, request.destinationWarehouseId]));
 
-  async getPosTerminal(id: string): Promise<PosTerminal | undefined> {
-    const db = await getDb();
-    const [terminal] = await db
-      .select()
-      .from(posTerminals)
-      .where(and(eq(posTerminals.id, id), eq(posTerminals.isActive, true)));
-    return terminal;
-  }
+      if (!warehouseRows.find(w => w.id === request.sourceWarehouseId)) {
+        throw new Error('Source warehouse not found');
+      }
+      if (!warehouseRows.find(w => w.id === request.destinationWarehouseId)) {
+        throw new Error('Destination warehouse not found');
+      }
 
-  async createPosTerminal(terminal: InsertPosTerminal): Promise<PosTerminal> {
-    const db = await getDb();
-    const [newTerminal] = await db
-      .insert(posTerminals)
-      .values(terminal)
-      .returning();
-    return newTerminal;
-  }
+      // Resolve each requested line into concrete source batches
+      const lines: Array<{ batch: Inventory; quantity: number }> = [];
+      for (const item of request.items) {
+        if (item.inventoryId) {
+          const [batch] = await tx
+            .select()
+            .from(inventory)
+            .where(eq(inventory.id, item.inventoryId));
 
-  async updatePosTerminal(id: string, terminal: Partial<InsertPosTerminal>): Promise<PosTerminal> {
-    const db = await getDb();
-    const [updatedTerminal] = await db
-      .update(posTerminals)
-      .set({ ...terminal, updatedAt: new Date() })
-      .where(eq(posTerminals.id, id))
-      .returning();
-    return updatedTerminal;
-  }
+          if (!batch || batch.warehouseId !== request.sourceWarehouseId || batch.productId !== item.productId) {
+            throw new Error(`Batch ${item.inventoryId} does not hold product ${item.productId} in the source warehouse`);
+          }
+          if (batch.isQuarantined) {
+            throw new Error(`Batch ${batch.batchNumber} is quarantined and cannot be transferred`);
+          }
+          const available = batch.quantity - ((await this.getReservedQuantities(tx, [batch.id])).get(batch.id) ?? 0);
+          if (available < item.quantity) {
+            throw new Error(`Insufficient unreserved stock in batch ${batch.batchNumber}. Available: ${available}, requested: ${item.quantity}`);
+          }
+          lines.push({ batch, quantity: item.quantity });
+          continue;
+        }
 
-  // POS Session operations
-  async getPosSessions(limit = 50): Promise<(PosSession & { terminal: PosTerminal; cashier: User })[]> {
-    const db = await getDb();
-    return await db
-      .select({
-        id: posSessions.id,
-        terminalId: posSessions.terminalId,
-        cashierId: posSessions.cashierId,
-        sessionNumber: posSessions.sessionNumber,
-        startTime: posSessions.startTime,
-        endTime: posSessions.endTime,
-        startingCash: posSessions.startingCash,
-        expectedCash: posSessions.expectedCash,
-        actualCash: posSessions.actualCash,
-        cashVariance: posSessions.cashVariance,
-        totalSales: posSessions.totalSales,
-        totalTransactions: posSessions.totalTransactions,
-        currency: posSessions.currency,
-        status: posSessions.status,
-        notes: posSessions.notes,
-        createdAt: posSessions.createdAt,
-        terminal: posTerminals,
-        cashier: users,
-      })
-      .from(posSessions)
-      .innerJoin(posTerminals, eq(posSessions.terminalId, posTerminals.id))
-      .innerJoin(users, eq(posSessions.cashierId, users.id))
-      .limit(limit)
-      .orderBy(desc(posSessions.createdAt));
+        // No batch specified - allocate FEFO across the source warehouse
+        let remainingQty = item.quantity;
+        const batches = await tx
+          .select()
+          .from(inventory)
+          .where(and(
+            eq(inventory.productId, item.productId),
+            eq(inventory.warehouseId, request.sourceWarehouseId),
+            eq(inventory.isQuarantined, false),
+            gte(inventory.quantity, 1)
+          ))
+          .orderBy(asc(inventory.expiryDate));
+        const reservedByBatch = await this.getReservedQuantities(tx, batches.map(b => b.id));
+
+        for (const batch of batches) {
+          if (remainingQty <= 0) break;
+          const allocateQty = Math.min(batch.quantity - (reservedByBatch.get(batch.id) ?? 0), remainingQty);
+          if (allocateQty <= 0) continue;
+          lines.push({ batch, quantity: allocateQty });
+          remainingQty -= allocateQty;
+        }
+
+        if (remainingQty > 0) {
+          throw new Error(`Insufficient stock for product ${item.productId} in source warehouse. Missing: ${remainingQty} units`);
+        }
+      }
+
+      const transferNumber = await this.allocateDocumentNumber(tx, 'transfer_order');
+      const [transferOrder] = await tx
+        .insert(transferOrders)
+        .values({
+          transferNumber,
+          sourceWarehouseId: request.sourceWarehouseId,
+          destinationWarehouseId: request.destinationWarehouseId,
+          expectedArrivalDate: request.expectedArrivalDate,
+          carrier: request.carrier,
+          notes: request.notes,
+          status: 'draft',
+          createdBy,
+        })
+        .returning();
+
+      for (const line of lines) {
+        await tx
+          .insert(transferOrderItems)
+          .values({
+            transferOrderId: transferOrder.id,
+            productId: line.batch.productId,
+            sourceInventoryId: line.batch.id,
+            batchNumber: line.batch.batchNumber,
+            manufactureDate: line.batch.manufactureDate,
+            expiryDate: line.batch.expiryDate,
+            costPerUnit: line.batch.costPerUnit,
+            quantity: line.quantity,
+          });
+      }
+
+      return transferOrder;
+    });
   }
 
-  async getPosSession(id: string): Promise<(PosSession & { terminal: PosTerminal; cashier: User }) | undefined> {
+  async dispatchTransferOrder(id: string, dispatchedBy: string): Promise<{ transferOrder: TransferOrder; movements: StockMovement[] }> {
     const db = await getDb();
-    const [session] = await db
-      .select({
-        id: posSessions.id,
-        terminalId: posSessions.terminalId,
-        cashierId: posSessions.cashierId,
-        sessionNumber: posSessions.sessionNumber,
-        startTime: posSessions.startTime,
-        endTime: posSessions.endTime,
-        startingCash: posSessions.startingCash,
-        expectedCash: posSessions.expectedCash,
-        actualCash: posSessions.actualCash,
-        cashVariance: posSessions.cashVariance,
-        totalSales: posSessions.totalSales,
-        totalTransactions: posSessions.totalTransactions,
-        currency: posSessions.currency,
-        status: posSessions.status,
-        notes: posSessions.notes,
-        createdAt: posSessions.createdAt,
-        terminal: posTerminals,
-        cashier: users,
-      })
-      .from(posSessions)
-      .innerJoin(posTerminals, eq(posSessions.terminalId, posTerminals.id))
-      .innerJoin(users, eq(posSessions.cashierId, users.id))
-      .where(eq(posSessions.id, id));
-    return session;
+    const result = await db.transaction(async (tx) => {
+      // Locked so concurrent dispatches or receipts of the same order queue behind each other
+      const [order] = await tx
+        .select()
+        .from(transferOrders)
+        .where(eq(transferOrders.id, id))
+        .for('update');
+
+      if (!order) throw new Error('Transfer order not found');
+      await this.assertPeriodOpen(tx, 'inventory', new Date());
+      if (order.status !== 'draft') {
+        throw new Error(`Only draft transfer orders can be dispatched. Current status: ${order.status}`);
+      }
+
+      const items = await tx
+        .select()
+        .from(transferOrderItems)
+        .where(eq(transferOrderItems.transferOrderId, id));
+
+      if (items.length === 0) {
+        throw new Error('Transfer order has no items');
+      }
+
+      const movements: StockMovement[] = [];
+
+      for (const item of items) {
+        // Guarded decrement so concurrent picks cannot drive the batch negative
+        const [updatedBatch] = await tx
+          .update(inventory)
+          .set({
+            quantity: sql`${inventory.quantity} - ${item.quantity}`,
+            updatedAt: new Date()
+          })
+          .where(and(
+            eq(inventory.id, item.sourceInventoryId),
+            eq(inventory.isQuarantined, false),
+            gte(inventory.quantity, item.quantity)
+          ))
+          .returning();
+
+        if (!updatedBatch) {
+          throw new Error(`Batch ${item.batchNumber} is quarantined or has insufficient stock to dispatch ${item.quantity} units`);
+        }
+
+        // Paired movements: stock leaves the source shelf and enters transit towards the destination
+        // Every leg of a transfer carries the batch's cost, so the stock keeps its value
+        const unitCost = Number(item.costPerUnit ?? 0);
+        const outMovement = await this.insertStockMovement(tx, {
+          productId: item.productId,
+          warehouseId: order.sourceWarehouseId,
+          inventoryId: item.sourceInventoryId,
+          movementType: 'transfer_out',
+          quantity: -item.quantity,
+          reference: order.transferNumber,
+          notes: `Transfer dispatch - Batch: ${item.batchNumber || 'N/A'}`,
+          userId: dispatchedBy
+        }, { unitCost });
+
+        const transitMovement = await this.insertStockMovement(tx, {
+          productId: item.productId,
+          warehouseId: order.destinationWarehouseId,
+          movementType: 'in_transit',
+          quantity: item.quantity,
+          reference: order.transferNumber,
+          notes: `In transit from source warehouse - Batch: ${item.batchNumber || 'N/A'}`,
+          userId: dispatchedBy
+        }, { unitCost });
+
+        movements.push(outMovement, transitMovement);
+
+        await tx
+          .update(transferOrderItems)
+          .set({ quantityDispatched: item.quantity })
+          .where(eq(transferOrderItems.id, item.id));
+      }
+
+      const [transferOrder] = await tx
+        .update(transferOrders)
+        .set({
+          status: 'dispatched',
+          dispatchedBy,
+          dispatchedAt: new Date(),
+          updatedAt: new Date()
+        })
+        .where(eq(transferOrders.id, id))
+        .returning();
+
+      return { transferOrder, movements };
+    });
+
+    await advancedCache.invalidate('inventory:list:*');
+    return result;
   }
 
-  async getActivePosSession(terminalId: string): Promise<PosSession | undefined> {
+  async markTransferOrderInTransit(id: string, userId: string, carrier?: string): Promise<TransferOrder> {
     const db = await getDb();
-    const [session] = await db
+    const [order] = await db
       .select()
-      .from(posSessions)
-      .where(and(eq(posSessions.terminalId, terminalId), eq(posSessions.status, 'open')));
-    return session;
-  }
+      .from(transferOrders)
+      .where(eq(transferOrders.id, id));
 
-  async openPosSession(session: InsertPosSession): Promise<PosSession> {
-    const db = await getDb();
-    const [newSession] = await db
-      .insert(posSessions)
-      .values(session)
-      .returning();
-    return newSession;
-  }
+    if (!order) throw new Error('Transfer order not found');
+    if (order.status !== 'dispatched') {
+      throw new Error(`Only dispatched transfer orders can be marked in transit. Current status: ${order.status}`);
+    }
 
-  async closePosSession(sessionId: string, actualCash: number, notes?: string): Promise<PosSession> {
-    const db = await getDb();
-    const [closedSession] = await db
-      .update(posSessions)
+    const [updatedOrder] = await db
+      .update(transferOrders)
       .set({
-        actualCash: actualCash.toString(),
-        cashVariance: sql`${actualCash} - ${posSessions.expectedCash}`,
-        endTime: new Date(),
-        status: 'closed',
-        notes: notes || null,
+        status: 'in_transit',
+        carrier: carrier ?? order.carrier,
+        inTransitAt: new Date(),
+        updatedAt: new Date()
       })
-      .where(eq(posSessions.id, sessionId))
+      .where(eq(transferOrders.id, id))
       .returning();
-    return closedSession;
+
+    console.log(`🚚 [Transfers] ${order.transferNumber} marked in transit by ${userId}`);
+    return updatedOrder;
   }
 
-  // POS Sales/Receipt operations
-  async getPosReceipts(sessionId?: string, limit = 50): Promise<(PosReceipt & { session: PosSession; customer?: Customer })[]> {
+  async receiveTransferOrder(id: string, lines: Array<{ itemId: string; quantity: number }>, receivedBy: string, notes?: string): Promise<{ transferOrder: TransferOrder; movements: StockMovement[] }> {
     const db = await getDb();
-    const baseQuery = sessionId 
-      ? db.select().from(posReceipts).where(eq(posReceipts.sessionId, sessionId))
-      : db.select().from(posReceipts);
-    
-    const receipts = await baseQuery
-      .limit(limit)
-      .orderBy(desc(posReceipts.createdAt));
+    const result = await db.transaction(async (tx) => {
+      // Locked so concurrent dispatches or receipts of the same order queue behind each other
+      const [order] = await tx
+        .select()
+        .from(transferOrders)
+        .where(eq(transferOrders.id, id))
+        .for('update');
+
+      if (!order) throw new Error('Transfer order not found');
+      await this.assertPeriodOpen(tx, 'inventory', new Date());
+      if (!['dispatched', 'in_transit', 'partially_received'].includes(order.status || '')) {
+        throw new Error(`Cannot receive transfer order with status: ${order.status}`);
+      }
 
-    const results = [];
-    for (const receipt of receipts) {
-      // Get session data
-      const [session] = await db
+      const items = await tx
         .select()
-        .from(posSessions)
-        .where(eq(posSessions.id, receipt.sessionId));
+        .from(transferOrderItems)
+        .where(eq(transferOrderItems.transferOrderId, id));
 
-      // Get customer data if exists
-      let customer = undefined;
-      if (receipt.customerId) {
-        const [customerData] = await db
-          .select()
-          .from(customers)
-          .where(eq(customers.id, receipt.customerId));
-        customer = customerData;
-      }
+      const movements: StockMovement[] = [];
 
-      results.push({
-        ...receipt,
-        session,
-        customer,
-      });
+      for (const line of lines) {
+        const item = items.find(i => i.id === line.itemId);
+        if (!item) {
+          throw new Error(`Item ${line.itemId} does not belong to transfer order ${order.transferNumber}`);
+        }
+
+        const outstanding = item.quantityDispatched - item.quantityReceived;
+        if (line.quantity > outstanding) {
+          throw new Error(`Received quantity ${line.quantity} exceeds quantity in transit (${outstanding}) for batch ${item.batchNumber}`);
+        }
+
+        // Locate the matching destination batch, creating it on first receipt
+        let destinationInventoryId = item.destinationInventoryId;
+        if (!destinationInventoryId) {
+          const [existingBatch] = await tx
+            .select()
+            .from(inventory)
+            .where(and(
+              eq(inventory.productId, item.productId),
+              eq(inventory.warehouseId, order.destinationWarehouseId),
+              item.batchNumber ? eq(inventory.batchNumber, item.batchNumber) : isNull(inventory.batchNumber),
+              item.expiryDate ? eq(inventory.expiryDate, item.expiryDate) : isNull(inventory.expiryDate),
+              item.costPerUnit ? eq(inventory.costPerUnit, item.costPerUnit) : isNull(inventory.costPerUnit)
+            ))
+            .limit(1);
+
+          if (existingBatch) {
+            destinationInventoryId = existingBatch.id;
+          } else {
+            const [newBatch] = await tx
+              .insert(inventory)
+              .values({
+                productId: item.productId,
+                warehouseId: order.destinationWarehouseId,
+                batchNumber: item.batchNumber,
+                quantity: 0,
+                manufactureDate: item.manufactureDate,
+                expiryDate: item.expiryDate,
+                costPerUnit: item.costPerUnit,
+              })
+              .returning();
+            destinationInventoryId = newBatch.id;
+          }
+        }
+
+        await tx
+          .update(inventory)
+          .set({
+            quantity: sql`${inventory.quantity} + ${line.quantity}`,
+            updatedAt: new Date()
+          })
+          .where(eq(inventory.id, destinationInventoryId));
+
+        // Paired movements: stock leaves transit and lands on the destination shelf
+        const unitCost = Number(item.costPerUnit ?? 0);
+        const transitMovement = await this.insertStockMovement(tx, {
+          productId: item.productId,
+          warehouseId: order.destinationWarehouseId,
+          movementType: 'in_transit',
+          quantity: -line.quantity,
+          reference: order.transferNumber,
+          notes: `Released from transit on receipt - Batch: ${item.batchNumber || 'N/A'}`,
+          userId: receivedBy
+        }, { unitCost });
+
+        const inMovement = await this.insertStockMovement(tx, {
+          productId: item.productId,
+          warehouseId: order.destinationWarehouseId,
+          inventoryId: destinationInventoryId,
+          movementType: 'transfer_in',
+          quantity: line.quantity,
+          reference: order.transferNumber,
+          notes: `Transfer receipt - Batch: ${item.batchNumber || 'N/A'}${notes ? ` - ${notes}` : ''}`,
+          userId: receivedBy
+        }, { unitCost });
+
+        movements.push(transitMovement, inMovement);
+
+        const newReceived = item.quantityReceived + line.quantity;
+        await tx
+          .update(transferOrderItems)
+          .set({ quantityReceived: newReceived, destinationInventoryId })
+          .where(eq(transferOrderItems.id, item.id));
+
+        item.quantityReceived = newReceived;
+        item.destinationInventoryId = destinationInventoryId;
+      }
+
+      const fullyReceived = items.every(i => i.quantityReceived >= i.quantityDispatched);
+      const [transferOrder] = await tx
+        .update(transferOrders)
+        .set({
+          status: fullyReceived ? 'received' : 'partially_received',
+          receivedBy,
+          receivedAt: fullyReceived ? new Date() : order.receivedAt,
+          updatedAt: new Date()
+        })
+        .where(eq(transferOrders.id, id))
+        .returning();
+
+      return { transferOrder, movements };
+    });
+
+    await advancedCache.invalidate('inventory:list:*');
+    return result;
+  }
+
+  async cancelTransferOrder(id: string, cancelledBy: string): Promise<TransferOrder> {
+    const db = await getDb();
+    const [order] = await db
+      .select()
+      .from(transferOrders)
+      .where(eq(transferOrders.id, id));
+
+    if (!order) throw new Error('Transfer order not found');
+    if (order.status !== 'draft') {
+      throw new Error(`Only draft transfer orders can be cancelled. Current status: ${order.status}`);
     }
 
-    return results.map(row => ({
+    const [cancelledOrder] = await db
+      .update(transferOrders)
+      .set({
+        status: 'cancelled',
+        notes: `${order.notes ? `${order.notes}\n` : ''}Cancelled by ${cancelledBy} at ${new Date().toISOString()}`,
+        updatedAt: new Date()
+      })
+      .where(eq(transferOrders.id, id))
+      .returning();
+
+    return cancelledOrder;
+  }
+
+  async getInTransitStock(warehouseId?: string): Promise<Array<{
+    transferOrderId: string;
+    transferNumber: string;
+    productId: string;
+    batchNumber: string | null;
+    sourceWarehouseId: string;
+    destinationWarehouseId: string;
+    quantityInTransit: number;
+  }>> {
+    const db = await getDb();
+    const conditions = [
+      inArray(transferOrders.status, ['dispatched', 'in_transit', 'partially_received']),
+      sql`${transferOrderItems.quantityDispatched} > ${transferOrderItems.quantityReceived}`,
+    ];
+    if (warehouseId) {
+      conditions.push(eq(transferOrders.destinationWarehouseId, warehouseId));
+    }
+
+    const rows = await db
+      .select({
+        transferOrderId: transferOrders.id,
+        transferNumber: transferOrders.transferNumber,
+        productId: transferOrderItems.productId,
+        batchNumber: transferOrderItems.batchNumber,
+        sourceWarehouseId: transferOrders.sourceWarehouseId,
+        destinationWarehouseId: transferOrders.destinationWarehouseId,
+        quantityDispatched: transferOrderItems.quantityDispatched,
+        quantityReceived: transferOrderItems.quantityReceived,
+      })
+      .from(transferOrderItems)
+      .innerJoin(transferOrders, eq(transferOrderItems.transferOrderId, transferOrders.id))
+      .where(and(...conditions))
+      .orderBy(asc(transferOrders.dispatchedAt));
+
+    return rows.map(({ quantityDispatched, quantityReceived, ...row }) => ({
       ...row,
-      items: (row.receiptData as any)?.items || []
+      quantityInTransit: quantityDispatched - quantityReceived,
     }));
   }
 
-  async getPosReceipt(id: string): Promise<(PosReceipt & { payments: PosPayment[] }) | undefined> {
+  // Stock counts: blind count sheets by batch, differences approved above a threshold
+  async getStockCounts(status?: string, warehouseId?: string): Promise<StockCountSummary[]> {
     const db = await getDb();
-    const [receipt] = await db
-      .select()
-      .from(posReceipts)
-      .where(eq(posReceipts.id, id));
+    const conditions = [];
+    if (status) conditions.push(eq(stockCounts.status, status as any));
+    if (warehouseId) conditions.push(eq(stockCounts.warehouseId, warehouseId));
 
-    if (!receipt) return undefined;
+    const rows = await db
+      .select({
+        count: stockCounts,
+        warehouseName: warehouses.name,
+        lineCount: sql<number>`count(${stockCountLines.id})`.mapWith(Number),
+        countedLines: sql<number>`count(${stockCountLines.countedQuantity})`.mapWith(Number),
+        pendingApprovals: sql<number>`count(*) filter (where ${stockCountLines.approvalStatus} = 'pending')`.mapWith(Number),
+        varianceValue: sql<string>`coalesce(sum(${stockCountLines.varianceValue}), 0)`,
+      })
+      .from(stockCounts)
+      .innerJoin(warehouses, eq(stockCounts.warehouseId, warehouses.id))
+      .leftJoin(stockCountLines, eq(stockCountLines.stockCountId, stockCounts.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(stockCounts.id, warehouses.name)
+      .orderBy(desc(stockCounts.createdAt));
 
-    const payments = await db
-      .select()
-      .from(posPayments)
-      .where(eq(posPayments.receiptId, id))
-      .orderBy(asc(posPayments.createdAt));
+    return rows.map(row => ({
+      ...row.count,
+      warehouseName: row.warehouseName,
+      lineCount: row.lineCount,
+      countedLines: row.countedLines,
+      pendingApprovals: row.pendingApprovals,
+      varianceValue: Number(row.varianceValue),
+    }));
+  }
 
-    return { ...receipt, payments };
+  async getStockCount(id: string): Promise<StockCountDetail | undefined> {
+    const db = await getDb();
+    const [count] = await db.select().from(stockCounts).where(eq(stockCounts.id, id));
+    if (!count) return undefined;
+    return await db.transaction(async (tx) => this.stockCountDetail(tx, count));
   }
 
-  async createPosSale(saleData: {
-    sessionId: string;
-    customerId?: string;
-    items: Array<{
-      productId: string;
-      inventoryId?: string;
-      quantity: number;
-      unitPrice: number;
-    }>;
-    payments: Array<{
-      method: 'cash' | 'card' | 'mobile_money' | 'bank_transfer' | 'check' | 'credit';
-      amount: number;
-      cardTransactionId?: string;
-      cardLast4?: string;
-      cardType?: string;
-      mobileMoneyNumber?: string;
-      mobileMoneyProvider?: string;
-      checkNumber?: string;
-      bankName?: string;
-      referenceNumber?: string;
-    }>;
-    taxRate?: number;
-    discountAmount?: number;
-  }): Promise<{ receipt: PosReceipt; payments: PosPayment[] }> {
+  /**
+   * Issue count sheets: one line for every batch holding stock in the warehouse, or only
+   * those of the chosen products. A batch can be on one open count at a time.
+   */
+  async createStockCount(request: CreateStockCountRequest, createdBy: string): Promise<StockCountDetail> {
     const db = await getDb();
-    
     return await db.transaction(async (tx) => {
-      // Calculate totals
-      const subtotal = saleData.items.reduce((sum, item) => sum + (item.quantity * item.unitPrice), 0);
-      const taxAmount = (saleData.taxRate || 0) * subtotal / 100;
-      const discountAmount = saleData.discountAmount || 0;
-      const totalAmount = subtotal + taxAmount - discountAmount;
+      const [warehouse] = await tx.select().from(warehouses).where(eq(warehouses.id, request.warehouseId));
+      if (!warehouse) throw new Error('Warehouse not found');
 
-      // Generate receipt number
-      const receiptNumber = `RCP-${Date.now()}`;
+      const conditions = [eq(inventory.warehouseId, request.warehouseId), gt(inventory.quantity, 0)];
+      if (request.countType !== 'full') {
+        conditions.push(inArray(inventory.productId, request.productIds));
+      }
+      const batches = await tx
+        .select({ batch: inventory })
+        .from(inventory)
+        .innerJoin(products, eq(inventory.productId, products.id))
+        .where(and(...conditions))
+        .orderBy(asc(products.name), asc(inventory.expiryDate));
 
-      // Create receipt
-      const [receipt] = await tx
-        .insert(posReceipts)
+      if (batches.length === 0) {
+        throw new Error(`${warehouse.name} holds no stock of the products to count`);
+      }
+
+      const [alreadyCounting] = await tx
+        .select({ countNumber: stockCounts.countNumber, batchNumber: stockCountLines.batchNumber })
+        .from(stockCountLines)
+        .innerJoin(stockCounts, eq(stockCountLines.stockCountId, stockCounts.id))
+        .where(and(
+          inArray(stockCountLines.inventoryId, batches.map(row => row.batch.id)),
+          inArray(stockCounts.status, ['counting', 'review'])
+        ))
+        .limit(1);
+      if (alreadyCounting) {
+        throw new Error(`Batch ${alreadyCounting.batchNumber || 'N/A'} is already on open stock count ${alreadyCounting.countNumber}`);
+      }
+
+      const countDate = request.countDate || new Date().toISOString().split('T')[0];
+      const countNumber = await this.allocateDocumentNumber(tx, 'stock_count', { date: new Date(countDate) });
+      const [count] = await tx
+        .insert(stockCounts)
         .values({
-          receiptNumber,
-          sessionId: saleData.sessionId,
-          customerId: saleData.customerId,
-          subtotal: subtotal.toFixed(2),
-          taxAmount: taxAmount.toFixed(2),
-          discountAmount: discountAmount.toFixed(2),
-          totalAmount: totalAmount.toFixed(2),
-          currency: 'AOA',
-          receiptData: {
-            items: saleData.items,
-            timestamp: new Date().toISOString(),
-          },
-          status: 'completed',
+          countNumber,
+          warehouseId: request.warehouseId,
+          countType: request.countType,
+          isBlind: request.isBlind,
+          countDate,
+          notes: request.notes,
+          createdBy,
         })
         .returning();
 
-      // Create payments
-      const payments = [];
-      for (const paymentData of saleData.payments) {
-        const [payment] = await tx
-          .insert(posPayments)
-          .values({
-            receiptId: receipt.id,
-            paymentMethod: paymentData.method,
-            amount: paymentData.amount.toFixed(2),
-            currency: 'AOA',
-            cardTransactionId: paymentData.cardTransactionId,
-            cardLast4: paymentData.cardLast4,
-            cardType: paymentData.cardType,
-            mobileMoneyNumber: paymentData.mobileMoneyNumber,
-            mobileMoneyProvider: paymentData.mobileMoneyProvider,
-            checkNumber: paymentData.checkNumber,
-            bankName: paymentData.bankName,
-            referenceNumber: paymentData.referenceNumber,
-            status: 'completed',
+      await tx.insert(stockCountLines).values(batches.map(({ batch }) => ({
+        stockCountId: count.id,
+        productId: batch.productId,
+        inventoryId: batch.id,
+        batchNumber: batch.batchNumber,
+        expiryDate: batch.expiryDate,
+        bookQuantity: batch.quantity,
+      })));
+
+      return await this.stockCountDetail(tx, count);
+    });
+  }
+
+  // Counts can be entered and corrected line by line until the count is submitted
+  async recordStockCount(id: string, lines: RecordStockCountRequest['lines'], countedBy: string): Promise<StockCountDetail> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [count] = await tx.select().from(stockCounts).where(eq(stockCounts.id, id)).for('update');
+      if (!count) throw new Error('Stock count not found');
+      if (count.status !== 'counting') {
+        throw new Error(`Counts can only be entered while counting. Current status: ${count.status}`);
+      }
+
+      for (const line of lines) {
+        const [updated] = await tx
+          .update(stockCountLines)
+          .set({ countedQuantity: line.countedQuantity, notes: line.notes, countedBy, countedAt: new Date() })
+          .where(and(eq(stockCountLines.id, line.lineId), eq(stockCountLines.stockCountId, id)))
+          .returning();
+        if (!updated) {
+          throw new Error(`Count line ${line.lineId} is not on stock count ${count.countNumber}`);
+        }
+      }
+
+      await tx.update(stockCounts).set({ updatedAt: new Date() }).where(eq(stockCounts.id, id));
+      return await this.stockCountDetail(tx, count);
+    });
+  }
+
+  /**
+   * Close counting and work out the differences against what the batches hold now, valued
+   * at the cost the adjustments will be written at. Differences above the approval threshold
+   * wait for an approver.
+   */
+  async submitStockCount(id: string, submittedBy: string): Promise<StockCountDetail> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [count] = await tx.select().from(stockCounts).where(eq(stockCounts.id, id)).for('update');
+      if (!count) throw new Error('Stock count not found');
+      if (count.status !== 'counting') {
+        throw new Error(`Only counts in progress can be submitted. Current status: ${count.status}`);
+      }
+
+      const lines = await tx.select().from(stockCountLines).where(eq(stockCountLines.stockCountId, id));
+      const uncounted = lines.filter((line: StockCountLine) => line.countedQuantity === null).length;
+      if (uncounted > 0) {
+        throw new Error(`${uncounted} line(s) on stock count ${count.countNumber} have not been counted`);
+      }
+
+      const threshold = await this.getNumericSetting('stock_count_approval_threshold');
+      for (const line of lines) {
+        const [batch] = await tx.select().from(inventory).where(eq(inventory.id, line.inventoryId)).for('update');
+        const bookQuantity = batch?.quantity ?? 0;
+        const varianceQuantity = (line.countedQuantity ?? 0) - bookQuantity;
+        const unitCost = varianceQuantity !== 0
+          ? await this.stockMovementUnitCost(tx, { productId: line.productId, warehouseId: count.warehouseId, inventoryId: line.inventoryId })
+          : Number(batch?.costPerUnit ?? 0);
+        const { unitCost: costedUnitCost, totalCost } = movementCostFields(varianceQuantity, unitCost, false);
+
+        await tx
+          .update(stockCountLines)
+          .set({
+            bookQuantity,
+            varianceQuantity,
+            unitCost: costedUnitCost,
+            varianceValue: totalCost,
+            approvalStatus: varianceNeedsApproval(varianceQuantity, Number(totalCost), unitCost, threshold) ? 'pending' : 'not_required',
+          })
+          .where(eq(stockCountLines.id, line.id));
+      }
+
+      const [submitted] = await tx
+        .update(stockCounts)
+        .set({ status: 'review', submittedBy, submittedAt: new Date(), updatedAt: new Date() })
+        .where(eq(stockCounts.id, id))
+        .returning();
+      return await this.stockCountDetail(tx, submitted);
+    });
+  }
+
+  // Whoever counted a line cannot approve its difference
+  async reviewStockCountLine(id: string, lineId: string, decision: ReviewStockCountLineRequest['decision'], reviewedBy: string, comment?: string): Promise<StockCountDetail> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [count] = await tx.select().from(stockCounts).where(eq(stockCounts.id, id)).for('update');
+      if (!count) throw new Error('Stock count not found');
+      if (count.status !== 'review') {
+        throw new Error(`Only submitted stock counts can be reviewed. Current status: ${count.status}`);
+      }
+
+      const [line] = await tx
+        .select()
+        .from(stockCountLines)
+        .where(and(eq(stockCountLines.id, lineId), eq(stockCountLines.stockCountId, id)));
+      if (!line) throw new Error('Count line not found');
+      if (line.approvalStatus !== 'pending') {
+        throw new Error('This count difference does not await approval');
+      }
+      if (line.countedBy === reviewedBy) {
+        throw new Error('A count difference must be approved by someone other than the counter');
+      }
+
+      await tx
+        .update(stockCountLines)
+        .set({ approvalStatus: decision, approvedBy: reviewedBy, approvedAt: new Date(), approvalComment: comment })
+        .where(eq(stockCountLines.id, lineId));
+      return await this.stockCountDetail(tx, count);
+    });
+  }
+
+  /**
+   * Write an adjustment movement for every difference not rejected and post the net loss
+   * or gain to cost of sales. A batch that moved since the count was submitted has to be
+   * recounted, so the count is refused rather than posting a stale difference.
+   */
+  async postStockCount(id: string, postedBy: string): Promise<StockCountDetail> {
+    const db = await getDb();
+    const result = await db.transaction(async (tx) => {
+      const [count] = await tx.select().from(stockCounts).where(eq(stockCounts.id, id)).for('update');
+      if (!count) throw new Error('Stock count not found');
+      if (count.status !== 'review') {
+        throw new Error(`Only submitted stock counts can be posted. Current status: ${count.status}`);
+      }
+      await this.assertPeriodOpen(tx, 'inventory', new Date());
+
+      const lines = await tx.select().from(stockCountLines).where(eq(stockCountLines.stockCountId, id));
+      const pending = lines.filter((line: StockCountLine) => line.approvalStatus === 'pending').length;
+      if (pending > 0) {
+        throw new Error(`${pending} count difference(s) still await approval`);
+      }
+
+      const movements: StockMovement[] = [];
+      for (const line of lines) {
+        if (!line.varianceQuantity || line.approvalStatus === 'rejected') {
+          continue;
+        }
+
+        const [batch] = await tx
+          .update(inventory)
+          .set({
+            quantity: sql`${inventory.quantity} + ${line.varianceQuantity}`,
+            updatedAt: new Date()
           })
+          .where(and(eq(inventory.id, line.inventoryId), eq(inventory.quantity, line.bookQuantity)))
           .returning();
-        payments.push(payment);
+        if (!batch) {
+          throw new Error(`Batch ${line.batchNumber || 'N/A'} has moved since stock count ${count.countNumber} was submitted; cancel the count and recount it`);
+        }
+
+        const movement = await this.insertStockMovement(tx, {
+          productId: line.productId,
+          warehouseId: count.warehouseId,
+          inventoryId: line.inventoryId,
+          movementType: 'adjustment',
+          quantity: line.varianceQuantity,
+          reference: count.countNumber,
+          notes: `Stock count difference - Batch: ${line.batchNumber || 'N/A'}`,
+          userId: postedBy
+        }, { unitCost: Number(line.unitCost ?? 0) });
+        movements.push(movement);
+
+        await tx
+          .update(stockCountLines)
+          .set({ stockMovementId: movement.id })
+          .where(eq(stockCountLines.id, line.id));
       }
 
-      // Update inventory quantities and create stock movements with pharmaceutical compliance
-      const today = new Date();
-      today.setHours(0, 0, 0, 0); // Start of day for comparison
-      
-      for (const item of saleData.items) {
-        let selectedInventoryRecords: Inventory[] = [];
-        let remainingQuantity = item.quantity;
-        
-        if (item.inventoryId) {
-          // Use specific inventory batch
-          const allInventoryRecords = await tx
-            .select()
-            .from(inventory)
-            .where(eq(inventory.productId, item.productId));
-          const specificRecord = allInventoryRecords.find(inv => inv.id === item.inventoryId);
-          
-          if (!specificRecord) {
-            throw new Error(`Inventory batch ${item.inventoryId} not found for product ${item.productId}`);
-          }
-          
-          // Check expiry date for specific batch
-          if (specificRecord.expiryDate) {
-            const expiryDate = new Date(specificRecord.expiryDate);
-            if (expiryDate < today) {
-              throw new Error(`Cannot sell expired product. Batch ${specificRecord.batchNumber} expired on ${expiryDate.toDateString()}`);
-            }
-          }
-          
-          if (specificRecord.quantity < item.quantity) {
-            throw new Error(`Insufficient stock in batch ${specificRecord.batchNumber}. Available: ${specificRecord.quantity}, Required: ${item.quantity}`);
-          }
-          
-          selectedInventoryRecords = [specificRecord];
-        } else {
-          // Use FEFO (First Expired, First Out) with expiry validation
-          const inventoryRecords = await tx
-            .select()
-            .from(inventory)
-            .where(eq(inventory.productId, item.productId));
-          
-          // Filter out expired products
-          const validInventoryRecords = inventoryRecords.filter(inv => {
-            if (!inv.expiryDate) return true; // No expiry date means no expiry
-            const expiryDate = new Date(inv.expiryDate);
-            return expiryDate >= today;
-          });
-          
-          if (validInventoryRecords.length === 0) {
-            throw new Error(`No valid (non-expired) inventory available for product ${item.productId}`);
-          }
-          
-          // Sort by expiry date (FEFO) - earliest expiry first, then by quantity
-          validInventoryRecords.sort((a, b) => {
-            if (!a.expiryDate && !b.expiryDate) return 0;
-            if (!a.expiryDate) return 1; // No expiry goes last
-            if (!b.expiryDate) return -1;
-            
-            const dateA = new Date(a.expiryDate);
-            const dateB = new Date(b.expiryDate);
-            
-            if (dateA.getTime() === dateB.getTime()) {
-              // Same expiry date, prefer larger quantities to minimize batch splits
-              return b.quantity - a.quantity;
-            }
-            
-            return dateA.getTime() - dateB.getTime();
-          });
-          
-          // Select inventory batches using FEFO
-          for (const invRecord of validInventoryRecords) {
-            if (remainingQuantity <= 0) break;
-            
-            if (invRecord.quantity > 0) {
-              const quantityToTake = Math.min(remainingQuantity, invRecord.quantity);
-              selectedInventoryRecords.push({
-                ...invRecord,
-                quantity: quantityToTake // Override with the quantity we're taking
-              });
-              remainingQuantity -= quantityToTake;
-            }
-          }
-          
-          if (remainingQuantity > 0) {
-            const totalAvailable = validInventoryRecords.reduce((sum, inv) => sum + inv.quantity, 0);
-            throw new Error(`Insufficient stock for product ${item.productId}. Required: ${item.quantity}, Available: ${totalAvailable}`);
-          }
-        }
-        
-        // Process the selected inventory records
-        for (const inventoryRecord of selectedInventoryRecords) {
-          const quantityToDeduct = inventoryRecord.quantity;
-          
-          // Get the actual current quantity from database (not the modified one)
-          const [currentRecord] = await tx
-            .select()
-            .from(inventory)
-            .where(eq(inventory.id, inventoryRecord.id));
-            
-          if (!currentRecord) {
-            throw new Error(`Inventory record ${inventoryRecord.id} not found`);
-          }
-          
-          // Update inventory
-          await tx
-            .update(inventory)
-            .set({ 
-              quantity: currentRecord.quantity - quantityToDeduct,
-              updatedAt: new Date()
-            })
-            .where(eq(inventory.id, inventoryRecord.id));
-
-          // Create stock movement
-          await tx
-            .insert(stockMovements)
-            .values({
-              productId: item.productId,
-              warehouseId: inventoryRecord.warehouseId,
-              inventoryId: inventoryRecord.id,
-              movementType: 'out',
-              quantity: -quantityToDeduct, // negative for outbound
-              reference: receiptNumber,
-              notes: `POS sale - Receipt ${receiptNumber} - Batch: ${inventoryRecord.batchNumber || 'N/A'}`,
-              userId: saleData.customerId, // Will be set properly in API route
-            });
-        }
-      }
-
-      // Update session totals
-      await tx
-        .update(posSessions)
-        .set({
-          totalSales: sql`${posSessions.totalSales} + ${totalAmount}`,
-          totalTransactions: sql`${posSessions.totalTransactions} + 1`,
-          expectedCash: sql`${posSessions.expectedCash} + ${saleData.payments.filter(p => p.method === 'cash').reduce((sum, p) => sum + p.amount, 0)}`,
-        })
-        .where(eq(posSessions.id, saleData.sessionId));
-
-      return { receipt, payments };
+      const journal = await this.postCostOfSalesJournal(tx, {
+        entryDate: new Date().toISOString().split('T')[0],
+        description: `Stock count ${count.countNumber} differences`,
+        sourceId: count.id,
+        sourceReference: count.countNumber,
+        postedBy,
+      }, movements);
+
+      const [posted] = await tx
+        .update(stockCounts)
+        .set({ status: 'posted', postedBy, postedAt: new Date(), journalEntryId: journal?.id ?? null, updatedAt: new Date() })
+        .where(eq(stockCounts.id, id))
+        .returning();
+      return await this.stockCountDetail(tx, posted);
     });
-  }
 
-  // Cash movement operations
-  async getCashMovements(sessionId: string): Promise<(CashMovement & { user: User })[]> {
-    const db = await getDb();
-    return await db
-      .select({
-        id: cashMovements.id,
-        sessionId: cashMovements.sessionId,
-        movementType: cashMovements.movementType,
-        amount: cashMovements.amount,
-        currency: cashMovements.currency,
-        reference: cashMovements.reference,
-        description: cashMovements.description,
-        userId: cashMovements.userId,
-        createdAt: cashMovements.createdAt,
-        user: users,
-      })
-      .from(cashMovements)
-      .innerJoin(users, eq(cashMovements.userId, users.id))
-      .where(eq(cashMovements.sessionId, sessionId))
-      .orderBy(asc(cashMovements.createdAt));
+    await advancedCache.invalidate('inventory:list:*');
+    return result;
   }
 
-  async createCashMovement(movement: InsertCashMovement): Promise<CashMovement> {
+  async cancelStockCount(id: string): Promise<StockCount> {
     const db = await getDb();
-    const [newMovement] = await db
-      .insert(cashMovements)
-      .values(movement)
+    const [count] = await db
+      .update(stockCounts)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(eq(stockCounts.id, id), inArray(stockCounts.status, ['counting', 'review'])))
       .returning();
-    return newMovement;
-  }
-
-  // HR Module - Employee Management
-  async getEmployees(limit = 100, department?: string): Promise<(Employee & { user: User; manager?: User })[]> {
-    const db = await getDb();
-    
-    const baseConditions = [eq(employees.isActive, true)];
-    if (department) {
-      baseConditions.push(eq(employees.department, department));
+    if (!count) {
+      throw new Error('Stock count not found or already posted');
     }
-    
-    const results = await db
-      .select({
-        id: employees.id,
-        userId: employees.userId,
-        employeeNumber: employees.employeeNumber,
-        department: employees.department,
-        position: employees.position,
-        hireDate: employees.hireDate,
-        baseSalary: employees.baseSalary,
-        currency: employees.currency,
-        employmentStatus: employees.employmentStatus,
-        managerId: employees.managerId,
-        workSchedule: employees.workSchedule,
-        emergencyContactName: employees.emergencyContactName,
-        emergencyContactPhone: employees.emergencyContactPhone,
-        bankAccountNumber: employees.bankAccountNumber,
-        taxIdNumber: employees.taxIdNumber,
-        socialSecurityNumber: employees.socialSecurityNumber,
-        isActive: employees.isActive,
-        createdAt: employees.createdAt,
-        updatedAt: employees.updatedAt,
-        user: {
-          id: users.id,
-          email: users.email,
-          firstName: users.firstName,
-          lastName: users.lastName,
-          profileImageUrl: users.profileImageUrl,
-          role: users.role,
-          isActive: users.isActive,
-          createdAt: users.createdAt,
-          updatedAt: users.updatedAt,
-        },
-        manager: sql<User | null>`manager_user.*`.as('manager'),
-      })
-      .from(employees)
-      .innerJoin(users, eq(employees.userId, users.id))
-      .leftJoin(sql`${users} AS manager_user`, sql`manager_user.id = ${employees.managerId}`)
-      .where(and(...baseConditions))
-      .limit(limit)
-      .orderBy(desc(employees.createdAt));
-
-    return results.map(r => ({
-      ...r,
-      manager: r.manager || undefined
-    }));
+    return count;
   }
 
-  async getEmployee(id: string): Promise<(Employee & { user: User; manager?: User }) | undefined> {
+  /**
+   * The products due for a cycle count in the week of weekOf, classed A, B or C by the
+   * cost of what they sold over the year before that week. Only products in stock (in the
+   * warehouse, when one is given) are scheduled.
+   */
+  async getCycleCountSchedule(weekOf: string, warehouseId?: string): Promise<CycleCountSchedule> {
     const db = await getDb();
-    const [result] = await db
-      .select({
-        id: employees.id,
-        userId: employees.userId,
-        employeeNumber: employees.employeeNumber,
-        department: employees.department,
-        position: employees.position,
-        hireDate: employees.hireDate,
-        baseSalary: employees.baseSalary,
-        currency: employees.currency,
-        employmentStatus: employees.employmentStatus,
-        managerId: employees.managerId,
-        workSchedule: employees.workSchedule,
-        emergencyContactName: employees.emergencyContactName,
-        emergencyContactPhone: employees.emergencyContactPhone,
-        bankAccountNumber: employees.bankAccountNumber,
-        taxIdNumber: employees.taxIdNumber,
-        socialSecurityNumber: employees.socialSecurityNumber,
-        isActive: employees.isActive,
-        createdAt: employees.createdAt,
-        updatedAt: employees.updatedAt,
-        user: {
-          id: users.id,
-          email: users.email,
-          firstName: users.firstName,
-          lastName: users.lastName,
-          profileImageUrl: users.profileImageUrl,
-          role: users.role,
-          isActive: users.isActive,
-          createdAt: users.createdAt,
-          updatedAt: users.updatedAt,
-        },
-        manager: sql<User | null>`manager_user.*`.as('manager'),
-      })
-      .from(employees)
-      .innerJoin(users, eq(employees.userId, users.id))
-      .leftJoin(sql`${users} AS manager_user`, sql`manager_user.id = ${employees.managerId}`)
-      .where(and(eq(employees.id, id), eq(employees.isActive, true)));
-
-    return result ? {
-      ...result,
-      manager: result.manager || undefined
-    } : undefined;
-  }
+    const weekStart = weekStartOf(weekOf);
+    const yearBefore = new Date(`${weekStart}T00:00:00Z`);
+    yearBefore.setUTCFullYear(yearBefore.getUTCFullYear() - 1);
 
-  async createEmployee(employee: InsertEmployee): Promise<Employee> {
-    const db = await getDb();
-    const [newEmployee] = await db
-      .insert(employees)
-      .values(employee)
-      .returning();
-    return newEmployee;
-  }
+    const stockConditions = [gt(inventory.quantity, 0), eq(products.isActive, true)];
+    const usageConditions = [
+      eq(stockMovements.movementType, 'out'),
+      gte(stockMovements.createdAt, yearBefore),
+      lt(stockMovements.createdAt, new Date(`${weekStart}T00:00:00Z`)),
+    ];
+    const countConditions = [eq(stockCounts.status, 'posted')];
+    if (warehouseId) {
+      stockConditions.push(eq(inventory.warehouseId, warehouseId));
+      usageConditions.push(eq(stockMovements.warehouseId, warehouseId));
+      countConditions.push(eq(stockCounts.warehouseId, warehouseId));
+    }
 
-  async updateEmployee(id: string, employee: Partial<InsertEmployee>): Promise<Employee> {
-    const db = await getDb();
-    const [updatedEmployee] = await db
-      .update(employees)
-      .set({ ...employee, updatedAt: new Date() })
-      .where(eq(employees.id, id))
-      .returning();
-    return updatedEmployee;
-  }
+    const [stocked, usage, lastCounts, intervalA, intervalB, intervalC] = await Promise.all([
+      db
+        .selectDistinct({ productId: products.id, sku: products.sku, productName: products.name })
+        .from(inventory)
+        .innerJoin(products, eq(inventory.productId, products.id))
+        .where(and(...stockConditions)),
+      db
+        .select({ productId: stockMovements.productId, value: sql<string>`coalesce(sum(${stockMovements.costOfSales}), 0)` })
+        .from(stockMovements)
+        .where(and(...usageConditions))
+        .groupBy(stockMovements.productId),
+      db
+        .select({ productId: stockCountLines.productId, lastCountedAt: sql<string>`max(${stockCounts.countDate})` })
+        .from(stockCountLines)
+        .innerJoin(stockCounts, eq(stockCountLines.stockCountId, stockCounts.id))
+        .where(and(...countConditions))
+        .groupBy(stockCountLines.productId),
+      this.getNumericSetting('cycle_count_weeks_a'),
+      this.getNumericSetting('cycle_count_weeks_b'),
+      this.getNumericSetting('cycle_count_weeks_c'),
+    ]);
 
-  async deleteEmployee(id: string): Promise<void> {
-    const db = await getDb();
-    await db
-      .update(employees)
-      .set({ isActive: false, updatedAt: new Date() })
-      .where(eq(employees.id, id));
-  }
+    const usageByProduct = new Map(usage.map(row => [row.productId, Number(row.value)]));
+    const lastCountedByProduct = new Map(lastCounts.map(row => [row.productId, row.lastCountedAt]));
+    const intervalWeeks = { A: intervalA, B: intervalB, C: intervalC };
+    const { classCounts, products: scheduled } = cycleCountSchedule(
+      stocked.map(product => ({
+        ...product,
+        annualUsageValue: usageByProduct.get(product.productId) ?? 0,
+        lastCountedAt: lastCountedByProduct.get(product.productId) ?? null,
+      })),
+      weekStart,
+      intervalWeeks
+    );
 
-  async getEmployeeByUserId(userId: string): Promise<Employee | undefined> {
-    const db = await getDb();
-    const [employee] = await db
-      .select()
-      .from(employees)
-      .where(and(eq(employees.userId, userId), eq(employees.isActive, true)));
-    return employee;
+    return {
+      weekStart,
+      weekEnd: weekEndOf(weekStart),
+      warehouseId: warehouseId ?? null,
+      intervalWeeks,
+      classCounts,
+      products: scheduled,
+    };
   }
 
-  // HR Module - Time Tracking
-  async getTimeEntries(employeeId?: string, startDate?: string, endDate?: string, limit = 100): Promise<(TimeEntry & { employee: Employee & { user: User }; approver?: User })[]> {
+  // Dashboard analytics - OPTIMIZED for parallel execution
+  async getDashboardMetrics(): Promise<{
+    totalRevenue: number;
+    activeProducts: number;
+    openOrders: number;
+    outstandingAmount: number;
+    expiringProductsCount: number;
+    grossMargin: number;
+    grossMarginPercent: number | null;
+  }> {
     const db = await getDb();
-    const conditions = [];
+    
+    // Expiring products cutoff date calculation
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() + await this.getNumericSetting('expiry_warning_days'));
+    const cutoffDateStr = cutoffDate.toISOString().split('T')[0];
+    const todayStr = new Date().toISOString().split('T')[0];
 
-    if (employeeId) {
-      conditions.push(eq(timeEntries.employeeId, employeeId));
-    }
-
-    if (startDate) {
-      conditions.push(gte(timeEntries.date, startDate));
-    }
-
-    if (endDate) {
-      conditions.push(lte(timeEntries.date, endDate));
-    }
-
-    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+    // MEMORY LEAK FIX: Execute all queries in parallel with proper error handling
+    const results = await Promise.allSettled([
+      // Total revenue from confirmed sales orders
+      db
+        .select({
+          total: sql<number>`COALESCE(SUM(${salesOrders.totalAmount}), 0)`,
+        })
+        .from(salesOrders)
+        .where(eq(salesOrders.status, 'confirmed')),
+      
+      // Active products count
+      db
+        .select({
+          count: sql<number>`COUNT(*)`,
+        })
+        .from(products)
+        .where(eq(products.isActive, true)),
+      
+      // Open orders count
+      db
+        .select({
+          count: sql<number>`COUNT(*)`,
+        })
+        .from(salesOrders)
+        .where(sql`${salesOrders.status} IN ('draft', 'confirmed')`),
+      
+      // Outstanding amount from unpaid invoices
+      db
+        .select({
+          total: sql<number>`COALESCE(SUM(${invoices.totalAmount} - ${invoices.paidAmount}), 0)`,
+        })
+        .from(invoices)
+        .where(sql`${invoices.status} IN ('sent', 'overdue')`),
+      
+      // Expiring products count (within the expiry warning window)
+      db
+        .select({
+          count: sql<number>`COUNT(*)`,
+        })
+        .from(inventory)
+        .where(
+          and(
+            lte(inventory.expiryDate, cutoffDateStr),
+            gte(inventory.quantity, 1)
+          )
+        ),
 
-    let query = db
-      .select({
-        timeEntry: timeEntries,
-        employee: employees,
-        user: users,
-        approver: sql<User | null>`approver_user.*`.as('approver'),
-      })
-      .from(timeEntries)
-      .innerJoin(employees, eq(timeEntries.employeeId, employees.id))
-      .innerJoin(users, eq(employees.userId, users.id))
-      .leftJoin(sql`${users} AS approver_user`, sql`approver_user.id = ${timeEntries.approvedBy}`);
+      // Gross margin month to date
+      this.getMarginReport(`${todayStr.slice(0, 7)}-01`, todayStr)
+    ]);
 
-    // Apply where clause and execute query
-    const baseQuery = whereCondition ? query.where(whereCondition) : query;
-    const queryResults = await baseQuery
-      .limit(limit)
-      .orderBy(desc(timeEntries.date));
+    // MEMORY LEAK FIX: Handle Promise.allSettled results with proper error handling
+    const [
+      revenueResults,
+      productsResults, 
+      ordersResults,
+      outstandingResults,
+      expiringResults,
+      marginResults
+    ] = results;
 
-    return queryResults.map(r => ({
-      ...r.timeEntry,
-      employee: {
-        ...r.employee,
-        user: r.user
-      },
-      approver: r.approver || undefined
-    }));
-  }
+    // Safely extract results or log errors for each query
+    const totalRevenue = revenueResults.status === 'fulfilled' 
+      ? Number(revenueResults.value[0]?.total || 0) 
+      : (console.error('Revenue query failed:', revenueResults.reason), 0);
+    
+    const activeProducts = productsResults.status === 'fulfilled' 
+      ? Number(productsResults.value[0]?.count || 0) 
+      : (console.error('Products query failed:', productsResults.reason), 0);
+    
+    const openOrders = ordersResults.status === 'fulfilled' 
+      ? Number(ordersResults.value[0]?.count || 0) 
+      : (console.error('Orders query failed:', ordersResults.reason), 0);
+    
+    const outstandingAmount = outstandingResults.status === 'fulfilled' 
+      ? Number(outstandingResults.value[0]?.total || 0) 
+      : (console.error('Outstanding query failed:', outstandingResults.reason), 0);
+    
+    const expiringProductsCount = expiringResults.status === 'fulfilled' 
+      ? Number(expiringResults.value[0]?.count || 0) 
+      : (console.error('Expiring products query failed:', expiringResults.reason), 0);
 
-  async getTimeEntry(id: string): Promise<(TimeEntry & { employee: Employee & { user: User }; approver?: User }) | undefined> {
-    const db = await getDb();
-    const [result] = await db
-      .select({
-        timeEntry: timeEntries,
-        employee: employees,
-        user: users,
-        approver: sql<User | null>`approver_user.*`.as('approver'),
-      })
-      .from(timeEntries)
-      .innerJoin(employees, eq(timeEntries.employeeId, employees.id))
-      .innerJoin(users, eq(employees.userId, users.id))
-      .leftJoin(sql`${users} AS approver_user`, sql`approver_user.id = ${timeEntries.approvedBy}`)
-      .where(eq(timeEntries.id, id));
+    const marginTotals = marginResults.status === 'fulfilled'
+      ? marginResults.value.totals
+      : (console.error('Margin query failed:', marginResults.reason), null);
 
-    return result ? {
-      ...result.timeEntry,
-      employee: {
-        ...result.employee,
-        user: result.user
-      },
-      approver: result.approver || undefined
-    } : undefined;
+    return {
+      totalRevenue,
+      activeProducts,
+      openOrders,
+      outstandingAmount,
+      expiringProductsCount,
+      grossMargin: marginTotals?.margin ?? 0,
+      grossMarginPercent: marginTotals?.marginPercent ?? null,
+    };
   }
 
-  async createTimeEntry(timeEntry: InsertTimeEntry): Promise<TimeEntry> {
+  // PHASE 2 OPTIMIZATION: Batch helper methods for efficient data loading
+  // Target: Eliminate N+1 query patterns and improve performance
+  
+  private async getCustomersBatch(customerIds: string[]): Promise<Map<string, Customer>> {
+    if (customerIds.length === 0) return new Map();
+    
+    const cacheKey = `customers:batch:${customerIds.sort().join(',')}`;
+    const cached = await advancedCache.get(cacheKey, 'HOT');
+    if (cached && Array.isArray(cached)) return new Map(cached);
+    
     const db = await getDb();
-    const [newEntry] = await db
-      .insert(timeEntries)
-      .values(timeEntry)
-      .returning();
-    return newEntry;
+    const customerData = await db
+      .select()
+      .from(customers)
+      .where(inArray(customers.id, customerIds));
+    
+    const customerMap = new Map(customerData.map(c => [c.id, c]));
+    await advancedCache.set(cacheKey, Array.from(customerMap.entries()), 'HOT', { ttl: 300 });
+    
+    return customerMap;
   }
-
-  async updateTimeEntry(id: string, timeEntry: Partial<InsertTimeEntry>): Promise<TimeEntry> {
+  
+  private async getUsersBatch(userIds: string[]): Promise<Map<string, User>> {
+    if (userIds.length === 0) return new Map();
+    
+    const cacheKey = `users:batch:${userIds.sort().join(',')}`;
+    const cached = await advancedCache.get(cacheKey, 'SESSION');
+    if (cached && Array.isArray(cached)) return new Map(cached);
+    
     const db = await getDb();
-    const [updatedEntry] = await db
-      .update(timeEntries)
-      .set(timeEntry)
-      .where(eq(timeEntries.id, id))
-      .returning();
-    return updatedEntry;
+    const userData = await db
+      .select()
+      .from(users)
+      .where(and(inArray(users.id, userIds), eq(users.isActive, true)));
+    
+    const userMap = new Map(userData.map(u => [u.id, u]));
+    await advancedCache.set(cacheKey, Array.from(userMap.entries()), 'SESSION', { ttl: 900 });
+    
+    return userMap;
   }
-
-  async approveTimeEntry(id: string, approverId: string): Promise<TimeEntry> {
+  
+  private async getQuotationItemsBatch(quotationIds: string[]): Promise<Map<string, (QuotationItem & { product: Product })[]>> {
+    if (quotationIds.length === 0) return new Map();
+    
+    const cacheKey = `quotation_items:batch:${quotationIds.sort().join(',')}`;
+    const cached = await advancedCache.get(cacheKey, 'WARM');
+    if (cached) {
+      // Convert from object format back to Map
+      const result = new Map<string, (QuotationItem & { product: Product })[]>();
+      Object.entries(cached).forEach(([quotationId, items]) => {
+        result.set(quotationId, items as (QuotationItem & { product: Product })[]);
+      });
+      return result;
+    }
+    
     const db = await getDb();
-    const [approvedEntry] = await db
-      .update(timeEntries)
-      .set({
-        approvedBy: approverId,
-        approvedAt: new Date(),
+    const itemsData = await db
+      .select({
+        quotationItem: quotationItems,
+        product: products
       })
-      .where(eq(timeEntries.id, id))
-      .returning();
-    return approvedEntry;
+      .from(quotationItems)
+      .leftJoin(products, eq(quotationItems.productId, products.id))
+      .where(inArray(quotationItems.quotationId, quotationIds));
+    
+    // Group items by quotation ID
+    const itemsMap = new Map<string, (QuotationItem & { product: Product })[]>();
+    
+    itemsData.forEach(row => {
+      if (row.quotationItem && row.product) {
+        const quotationId = row.quotationItem.quotationId;
+        if (!itemsMap.has(quotationId)) {
+          itemsMap.set(quotationId, []);
+        }
+        itemsMap.get(quotationId)!.push({
+          ...row.quotationItem,
+          product: row.product
+        });
+      }
+    });
+    
+    // Cache as plain object for JSON serialization
+    const cacheData = Object.fromEntries(itemsMap.entries());
+    await advancedCache.set(cacheKey, cacheData, 'WARM', { ttl: 600 });
+    
+    return itemsMap;
   }
 
-  // HR Module - Payroll Processing
-  async getPayrollRuns(limit = 50): Promise<(PayrollRun & { processedBy?: User })[]> {
+  // Recent transactions
+  async getRecentTransactions(limit = 10): Promise<Array<{
+    id: string;
+    date: string;
+    type: 'sale' | 'purchase' | 'payment';
+    customerOrSupplier: string;
+    amount: number;
+    status: string;
+    reference: string;
+  }>> {
     const db = await getDb();
-    const results = await db
+    // Get recent sales
+    const recentSales = await db
       .select({
-        id: payrollRuns.id,
-        payrollPeriod: payrollRuns.payrollPeriod,
-        startDate: payrollRuns.startDate,
-        endDate: payrollRuns.endDate,
-        status: payrollRuns.status,
-        totalGrossPay: payrollRuns.totalGrossPay,
-        totalDeductions: payrollRuns.totalDeductions,
-        totalNetPay: payrollRuns.totalNetPay,
-        currency: payrollRuns.currency,
-        processedBy: payrollRuns.processedBy,
-        processedAt: payrollRuns.processedAt,
-        createdAt: payrollRuns.createdAt,
-        processedByUser: {
-          id: users.id,
-          email: users.email,
-          firstName: users.firstName,
-          lastName: users.lastName,
-          profileImageUrl: users.profileImageUrl,
-          role: users.role,
-          isActive: users.isActive,
-          createdAt: users.createdAt,
-          updatedAt: users.updatedAt,
-        },
+        id: salesOrders.id,
+        date: salesOrders.orderDate,
+        customerOrSupplier: customers.name,
+        amount: salesOrders.totalAmount,
+        status: salesOrders.status,
+        reference: salesOrders.orderNumber,
       })
-      .from(payrollRuns)
-      .leftJoin(users, eq(payrollRuns.processedBy, users.id))
-      .limit(limit)
-      .orderBy(desc(payrollRuns.createdAt));
-
-    return results.map(r => ({
-      id: r.id,
-      payrollPeriod: r.payrollPeriod,
-      startDate: r.startDate,
-      endDate: r.endDate,
-      status: r.status,
-      totalGrossPay: r.totalGrossPay,
-      totalDeductions: r.totalDeductions,
-      totalNetPay: r.totalNetPay,
-      currency: r.currency,
-      processedAt: r.processedAt,
-      createdAt: r.createdAt,
-      processedBy: r.processedByUser
-    } as PayrollRun & { processedBy?: User }));
-  }
+      .from(salesOrders)
+      .innerJoin(customers, eq(salesOrders.customerId, customers.id))
+      .orderBy(desc(salesOrders.createdAt))
+      .limit(limit);
 
-  async getPayrollRun(id: string): Promise<(PayrollRun & { processedBy?: User; payrollItems: (PayrollItem & { employee: Employee & { user: User } })[] }) | undefined> {
-    const db = await getDb();
-    const [payrollRunResult] = await db
+    // Get recent purchases
+    const recentPurchases = await db
       .select({
-        id: payrollRuns.id,
-        payrollPeriod: payrollRuns.payrollPeriod,
-        startDate: payrollRuns.startDate,
-        endDate: payrollRuns.endDate,
-        status: payrollRuns.status,
-        totalGrossPay: payrollRuns.totalGrossPay,
-        totalDeductions: payrollRuns.totalDeductions,
-        totalNetPay: payrollRuns.totalNetPay,
-        currency: payrollRuns.currency,
-        processedBy: payrollRuns.processedBy,
-        processedAt: payrollRuns.processedAt,
-        createdAt: payrollRuns.createdAt,
-        processedByUser: users,
+        id: purchaseOrders.id,
+        date: purchaseOrders.orderDate,
+        customerOrSupplier: suppliers.name,
+        amount: purchaseOrders.totalAmount,
+        status: purchaseOrders.status,
+        reference: purchaseOrders.orderNumber,
       })
-      .from(payrollRuns)
-      .leftJoin(users, eq(payrollRuns.processedBy, users.id))
-      .where(eq(payrollRuns.id, id));
-
-    if (!payrollRunResult) return undefined;
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .orderBy(desc(purchaseOrders.createdAt))
+      .limit(limit);
 
-    // Get payroll items for this run
-    const payrollItemsResults = await db
-      .select({
-        payrollItem: payrollItems,
-        employee: employees,
-        user: users,
-      })
-      .from(payrollItems)
-      .innerJoin(employees, eq(payrollItems.employeeId, employees.id))
-      .innerJoin(users, eq(employees.userId, users.id))
-      .where(eq(payrollItems.payrollRunId, id))
-      .orderBy(asc(employees.employeeNumber));
+    // Combine and format transactions
+    const transactions = [
+      ...recentSales.map(sale => ({
+        id: sale.id,
+        date: sale.date || new Date().toISOString().split('T')[0],
+        type: 'sale' as const,
+        customerOrSupplier: sale.customerOrSupplier || 'Unknown',
+        amount: Number(sale.amount || 0),
+        status: sale.status || 'draft',
+        reference: sale.reference || '',
+      })),
+      ...recentPurchases.map(purchase => ({
+        id: purchase.id,
+        date: purchase.date || new Date().toISOString().split('T')[0],
+        type: 'purchase' as const,
+        customerOrSupplier: purchase.customerOrSupplier || 'Unknown',
+        amount: Number(purchase.amount || 0),
+        status: purchase.status || 'draft',
+        reference: purchase.reference || '',
+      })),
+    ];
 
-    const payrollItemsWithEmployee = payrollItemsResults.map(item => ({
-      ...item.payrollItem,
-      employee: {
-        ...item.employee,
-        user: item.user
-      }
-    }));
+    // Sort by date and limit
+    return transactions
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+      .slice(0, limit);
+  }
 
-    // Construct the return object matching the expected interface
-    const result = {
-      id: payrollRunResult.id,
-      payrollPeriod: payrollRunResult.payrollPeriod,
-      startDate: payrollRunResult.startDate,
-      endDate: payrollRunResult.endDate,
-      status: payrollRunResult.status,
-      totalGrossPay: payrollRunResult.totalGrossPay,
-      totalDeductions: payrollRunResult.totalDeductions,
-      totalNetPay: payrollRunResult.totalNetPay,
-      currency: payrollRunResult.currency,
-      processedAt: payrollRunResult.processedAt,
-      createdAt: payrollRunResult.createdAt,
-      processedBy: payrollRunResult.processedByUser || undefined,
-      payrollItems: payrollItemsWithEmployee,
-    } as PayrollRun & { processedBy?: User; payrollItems: (PayrollItem & { employee: Employee & { user: User } })[] };
+  // POS Terminal operations
+  async getPosTerminals(): Promise<PosTerminal[]> {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(posTerminals)
+      .where(eq(posTerminals.isActive, true))
+      .orderBy(asc(posTerminals.name));
+  }
 
-    return result;
+  async getPosTerminal(id: string): Promise<PosTerminal | undefined> {
+    const db = await getDb();
+    const [terminal] = await db
+      .select()
+      .from(posTerminals)
+      .where(and(eq(posTerminals.id, id), eq(posTerminals.isActive, true)));
+    return terminal;
   }
 
-  async createPayrollRun(payrollRun: InsertPayrollRun): Promise<PayrollRun> {
+  async createPosTerminal(terminal: InsertPosTerminal): Promise<PosTerminal> {
     const db = await getDb();
-    const [newRun] = await db
-      .insert(payrollRuns)
-      .values(payrollRun)
+    const [newTerminal] = await db
+      .insert(posTerminals)
+      .values(terminal)
       .returning();
-    return newRun;
+    return newTerminal;
   }
 
-  async updatePayrollRun(id: string, payrollRun: Partial<InsertPayrollRun>): Promise<PayrollRun> {
+  async updatePosTerminal(id: string, terminal: Partial<InsertPosTerminal>): Promise<PosTerminal> {
     const db = await getDb();
-    const [updatedRun] = await db
-      .update(payrollRuns)
-      .set(payrollRun)
-      .where(eq(payrollRuns.id, id))
+    const [updatedTerminal] = await db
+      .update(posTerminals)
+      .set({ ...terminal, updatedAt: new Date() })
+      .where(eq(posTerminals.id, id))
       .returning();
-    return updatedRun;
+    return updatedTerminal;
   }
 
-  async getPayrollItems(payrollRunId?: string, employeeId?: string): Promise<(PayrollItem & { employee: Employee & { user: User }; payrollRun: PayrollRun })[]> {
+  // POS Session operations
+  async getPosSessions(limit = 50): Promise<(PosSession & { terminal: PosTerminal; cashier: User })[]> {
     const db = await getDb();
-    const conditions = [];
-
-    if (payrollRunId) {
-      conditions.push(eq(payrollItems.payrollRunId, payrollRunId));
-    }
-
-    if (employeeId) {
-      conditions.push(eq(payrollItems.employeeId, employeeId));
-    }
-
-    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
-
-    // Build the query with simplified select structure
-    let query = db
+    return await db
       .select({
-        payrollItem: payrollItems,
-        employee: employees,
-        user: users,
-        payrollRun: payrollRuns,
+        id: posSessions.id,
+        terminalId: posSessions.terminalId,
+        cashierId: posSessions.cashierId,
+        sessionNumber: posSessions.sessionNumber,
+        startTime: posSessions.startTime,
+        endTime: posSessions.endTime,
+        startingCash: posSessions.startingCash,
+        expectedCash: posSessions.expectedCash,
+        actualCash: posSessions.actualCash,
+        cashVariance: posSessions.cashVariance,
+        totalSales: posSessions.totalSales,
+        totalTransactions: posSessions.totalTransactions,
+        currency: posSessions.currency,
+        status: posSessions.status,
+        notes: posSessions.notes,
+        createdAt: posSessions.createdAt,
+        terminal: posTerminals,
+        cashier: users,
       })
-      .from(payrollItems)
-      .innerJoin(employees, eq(payrollItems.employeeId, employees.id))
-      .innerJoin(users, eq(employees.userId, users.id))
-      .innerJoin(payrollRuns, eq(payrollItems.payrollRunId, payrollRuns.id));
-
-    const baseQuery = whereCondition ? query.where(whereCondition) : query;
-    const results = await baseQuery.orderBy(desc(payrollItems.createdAt));
-
-    return results.map(r => ({
-      ...r.payrollItem,
-      employee: {
-        ...r.employee,
-        user: r.user
-      },
-      payrollRun: r.payrollRun
-    }));
-  }
-
-  async createPayrollItem(payrollItem: InsertPayrollItem): Promise<PayrollItem> {
-    const db = await getDb();
-    const [newItem] = await db
-      .insert(payrollItems)
-      .values(payrollItem)
-      .returning();
-    return newItem;
+      .from(posSessions)
+      .innerJoin(posTerminals, eq(posSessions.terminalId, posTerminals.id))
+      .innerJoin(users, eq(posSessions.cashierId, users.id))
+      .limit(limit)
+      .orderBy(desc(posSessions.createdAt));
   }
 
-  async processPayroll(payrollRunId: string, processedBy: string): Promise<{ payrollRun: PayrollRun; payrollItems: PayrollItem[] }> {
+  async getPosSession(id: string): Promise<(PosSession & { terminal: PosTerminal; cashier: User }) | undefined> {
     const db = await getDb();
+    const [session] = await db
+      .select({
+        id: posSessions.id,
+        terminalId: posSessions.terminalId,
+        cashierId: posSessions.cashierId,
+        sessionNumber: posSessions.sessionNumber,
+        startTime: posSessions.startTime,
+        endTime: posSessions.endTime,
+        startingCash: posSessions.startingCash,
+        expectedCash: posSessions.expectedCash,
+        actualCash: posSessions.actualCash,
+        cashVariance: posSessions.cashVariance,
+        totalSales: posSessions.totalSales,
+        totalTransactions: posSessions.totalTransactions,
+        currency: posSessions.currency,
+        status: posSessions.status,
+        notes: posSessions.notes,
+        createdAt: posSessions.createdAt,
+        terminal: posTerminals,
+        cashier: users,
+      })
+      .from(posSessions)
+      .innerJoin(posTerminals, eq(posSessions.terminalId, posTerminals.id))
+      .innerJoin(users, eq(posSessions.cashierId, users.id))
+      .where(eq(posSessions.id, id));
+    return session;
+  }
 
-    return await db.transaction(async (tx) => {
-      // Validate payroll run exists and is in correct state
-      const [currentRun] = await tx
-        .select()
-        .from(payrollRuns)
-        .where(eq(payrollRuns.id, payrollRunId));
-      
-      if (!currentRun) {
-        throw new Error('Payroll run not found');
-      }
-      
-      if (currentRun.status === 'completed') {
-        throw new Error('Payroll run has already been processed');
-      }
-      
-      if (currentRun.status !== 'processing' && currentRun.status !== 'draft') {
-        throw new Error(`Cannot process payroll run in ${currentRun.status} status`);
-      }
-
-      // Get payroll items for totals
-      const items = await tx
-        .select()
-        .from(payrollItems)
-        .where(eq(payrollItems.payrollRunId, payrollRunId));
-      
-      if (items.length === 0) {
-        throw new Error('No payroll items found for this run');
-      }
-
-      const totals = items.reduce((acc, item) => {
-        acc.totalGrossPay += Number(item.grossPay || 0);
-        acc.totalDeductions += Number(item.totalDeductions || 0);
-        acc.totalNetPay += Number(item.netPay || 0);
-        return acc;
-      }, { totalGrossPay: 0, totalDeductions: 0, totalNetPay: 0 });
+  async getActivePosSession(terminalId: string): Promise<PosSession | undefined> {
+    const db = await getDb();
+    const [session] = await db
+      .select()
+      .from(posSessions)
+      .where(and(eq(posSessions.terminalId, terminalId), eq(posSessions.status, 'open')));
+    return session;
+  }
 
-      // Update payroll run status and totals
-      const [payrollRun] = await tx
-        .update(payrollRuns)
-        .set({
-          status: 'completed',
-          totalGrossPay: totals.totalGrossPay.toFixed(2),
-          totalDeductions: totals.totalDeductions.toFixed(2),
-          totalNetPay: totals.totalNetPay.toFixed(2),
-          processedBy,
-          processedAt: new Date(),
-        })
-        .where(eq(payrollRuns.id, payrollRunId))
-        .returning();
+  async openPosSession(session: InsertPosSession): Promise<PosSession> {
+    const db = await getDb();
+    const [newSession] = await db
+      .insert(posSessions)
+      .values(session)
+      .returning();
+    return newSession;
+  }
 
-      return { payrollRun, payrollItems: items };
-    });
+  async closePosSession(sessionId: string, actualCash: number, notes?: string): Promise<PosSession> {
+    const db = await getDb();
+    const [closedSession] = await db
+      .update(posSessions)
+      .set({
+        actualCash: actualCash.toString(),
+        cashVariance: sql`${actualCash} - ${posSessions.expectedCash}`,
+        endTime: new Date(),
+        status: 'closed',
+        notes: notes || null,
+      })
+      .where(eq(posSessions.id, sessionId))
+      .returning();
+    return closedSession;
   }
 
-  // HR Module - Performance Reviews
-  async getPerformanceReviews(employeeId?: string, reviewerId?: string, status?: string, limit = 50): Promise<(PerformanceReview & { employee: Employee & { user: User }; reviewer: User })[]> {
+  // POS Sales/Receipt operations
+  async getPosReceipts(sessionId?: string, limit = 50): Promise<(PosReceipt & { session: PosSession; customer?: Customer })[]> {
     const db = await getDb();
-    const conditions = [];
+    const baseQuery = sessionId 
+      ? db.select().from(posReceipts).where(eq(posReceipts.sessionId, sessionId))
+      : db.select().from(posReceipts);
+    
+    const receipts = await baseQuery
+      .limit(limit)
+      .orderBy(desc(posReceipts.createdAt));
 
-    if (employeeId) {
-      conditions.push(eq(performanceReviews.employeeId, employeeId));
-    }
+    const results = [];
+    for (const receipt of receipts) {
+      // Get session data
+      const [session] = await db
+        .select()
+        .from(posSessions)
+        .where(eq(posSessions.id, receipt.sessionId));
 
-    if (reviewerId) {
-      conditions.push(eq(performanceReviews.reviewerId, reviewerId));
-    }
+      // Get customer data if exists
+      let customer = undefined;
+      if (receipt.customerId) {
+        const [customerData] = await db
+          .select()
+          .from(customers)
+          .where(eq(customers.id, receipt.customerId));
+        customer = customerData;
+      }
 
-    if (status) {
-      conditions.push(sql`${performanceReviews.status} = ${status}`);
+      results.push({
+        ...receipt,
+        session,
+        customer,
+      });
     }
 
-    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
-
-    let query = db
-      .select({
-        performanceReview: performanceReviews,
-        employee: employees,
-        user: users,
-        reviewer: sql<User>`reviewer_user.*`.as('reviewer'),
-      })
-      .from(performanceReviews)
-      .innerJoin(employees, eq(performanceReviews.employeeId, employees.id))
-      .innerJoin(users, eq(employees.userId, users.id))
-      .innerJoin(sql`${users} AS reviewer_user`, sql`reviewer_user.id = ${performanceReviews.reviewerId}`);
-
-    const baseQuery = whereCondition ? query.where(whereCondition) : query;
-    const results = await baseQuery
-      .limit(limit)
-      .orderBy(desc(performanceReviews.createdAt));
-
-    return results.map(r => ({
-      ...r.performanceReview,
-      employee: {
-        ...r.employee,
-        user: r.user
-      },
-      reviewer: r.reviewer
+    return results.map(row => ({
+      ...row,
+      items: (row.receiptData as any)?.items || []
     }));
   }
 
-  async getPerformanceReview(id: string): Promise<(PerformanceReview & { employee: Employee & { user: User }; reviewer: User }) | undefined> {
+  async getPosReceipt(id: string): Promise<(PosReceipt & { payments: PosPayment[] }) | undefined> {
     const db = await getDb();
-    const [result] = await db
-      .select({
-        performanceReview: performanceReviews,
-        employee: employees,
-        user: users,
-        reviewer: sql<User>`reviewer_user.*`.as('reviewer'),
-      })
-      .from(performanceReviews)
-      .innerJoin(employees, eq(performanceReviews.employeeId, employees.id))
-      .innerJoin(users, eq(employees.userId, users.id))
-      .innerJoin(sql`${users} AS reviewer_user`, sql`reviewer_user.id = ${performanceReviews.reviewerId}`)
-      .where(eq(performanceReviews.id, id));
+    const [receipt] = await db
+      .select()
+      .from(posReceipts)
+      .where(eq(posReceipts.id, id));
 
-    return result ? {
-      ...result.performanceReview,
-      employee: {
-        ...result.employee,
-        user: result.user
-      },
-      reviewer: result.reviewer
-    } : undefined;
-  }
+    if (!receipt) return undefined;
 
-  async createPerformanceReview(review: InsertPerformanceReview): Promise<PerformanceReview> {
-    const db = await getDb();
-    const [newReview] = await db
-      .insert(performanceReviews)
-      .values(review)
-      .returning();
-    return newReview;
-  }
+    const payments = await db
+      .select()
+      .from(posPayments)
+      .where(eq(posPayments.receiptId, id))
+      .orderBy(asc(posPayments.createdAt));
 
-  async updatePerformanceReview(id: string, review: Partial<InsertPerformanceReview>): Promise<PerformanceReview> {
-    const db = await getDb();
-    const [updatedReview] = await db
-      .update(performanceReviews)
-      .set({ ...review, updatedAt: new Date() })
-      .where(eq(performanceReviews.id, id))
-      .returning();
-    return updatedReview;
+    return { ...receipt, payments };
   }
 
-  async completePerformanceReview(id: string): Promise<PerformanceReview> {
-    const db = await getDb();
-    const [completedReview] = await db
-      .update(performanceReviews)
-      .set({
-        status: 'completed',
-        completedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(performanceReviews.id, id))
-      .returning();
-    return completedReview;
-  }
-  
-  // AI Analytics - Sales History and Business Intelligence
-  
-  async getSalesHistory(productId?: string, daysBack = 90): Promise<Array<{
-    productId: string;
-    productName: string;
-    salesData: Array<{
-      date: string;
+  async createPosSale(saleData: {
+    sessionId: string;
+    customerId?: string;
+    items: Array<{
+      productId: string;
+      inventoryId?: string;
       quantity: number;
-      revenue: number;
+      unitPrice: number;
     }>;
-    totalSold: number;
-    averageDailySales: number;
-    salesVelocity: number;
-  }>> {
-    const db = await getDb();
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - daysBack);
+    payments: Array<{
+      method: 'cash' | 'card' | 'mobile_money' | 'bank_transfer' | 'check' | 'credit';
+      amount: number;
+      cardTransactionId?: string;
+      cardLast4?: string;
+      cardType?: string;
+      mobileMoneyNumber?: string;
+      mobileMoneyProvider?: string;
+      checkNumber?: string;
+      bankName?: string;
+      referenceNumber?: string;
+    }>;
+    discountAmount?: number;
+  }): Promise<{ receipt: PosReceipt; payments: PosPayment[] }> {
+    const db = await getDb();
+    
+    return await db.transaction(async (tx) => {
+      // Calculate totals. The discount is spread over the lines before IVA; shelf prices
+      // include IVA unless pos_prices_include_tax is turned off.
+      const saleDate = new Date().toISOString().split('T')[0];
+      await this.assertPeriodOpen(tx, 'sales', saleDate);
+      await this.assertPeriodOpen(tx, 'inventory', saleDate);
+      const taxCodesByLine = await this.resolveLineTaxCodes(tx, saleData.items, saleData.customerId, saleDate);
+      const pricesIncludeTax = await this.getSettingValue('pos_prices_include_tax') === 'true';
+      const grossLines = saleData.items.map(item => item.quantity * item.unitPrice);
+      const lineAmountsTotal = grossLines.reduce((sum, amount) => sum + amount, 0);
+      const discountAmount = saleData.discountAmount || 0;
+      const taxedLines: TaxedLine[] = grossLines.map((amount, index) => {
+        const discounted = Math.round((lineAmountsTotal > 0 ? amount - discountAmount * amount / lineAmountsTotal : amount) * 100) / 100;
+        const rate = Number(taxCodesByLine[index].rate);
+        return pricesIncludeTax
+          ? { taxCode: taxCodesByLine[index], ...splitTaxIncluded(discounted, rate) }
+          : { taxCode: taxCodesByLine[index], netAmount: discounted, taxAmount: lineTax(discounted, rate) };
+      });
+      const { subtotal: netSubtotal, taxAmount, breakdown } = summarizeTax(taxedLines);
+      // The receipt's subtotal is before the discount, as the till shows it
+      const subtotal = netSubtotal + discountAmount;
+      const totalAmount = subtotal + taxAmount - discountAmount;
+      const currency = await this.getSettingValue('default_currency');
+
+      // Receipts are numbered per terminal series
+      const [session] = await tx.select().from(posSessions).where(eq(posSessions.id, saleData.sessionId));
+      if (!session) throw new Error('POS session not found');
+      const receiptNumber = await this.allocateDocumentNumber(tx, 'pos_receipt', { terminalId: session.terminalId });
+
+      // Create receipt
+      const [receipt] = await tx
+        .insert(posReceipts)
+        .values({
+          receiptNumber,
+          sessionId: saleData.sessionId,
+          customerId: saleData.customerId,
+          subtotal: subtotal.toFixed(2),
+          taxAmount: taxAmount.toFixed(2),
+          discountAmount: discountAmount.toFixed(2),
+          totalAmount: totalAmount.toFixed(2),
+          currency,
+          taxBreakdown: breakdown,
+          receiptData: {
+            items: saleData.items.map((item, index) => ({
+              ...item,
+              taxCode: taxCodesByLine[index].code,
+              taxRate: Number(taxCodesByLine[index].rate),
+              netAmount: taxedLines[index].netAmount,
+              taxAmount: taxedLines[index].taxAmount,
+            })),
+            timestamp: new Date().toISOString(),
+          },
+          status: 'completed',
+        })
+        .returning();
+
+      // Create payments
+      const payments = [];
+      for (const paymentData of saleData.payments) {
+        const [payment] = await tx
+          .insert(posPayments)
+          .values({
+            receiptId: receipt.id,
+            paymentMethod: paymentData.method,
+            amount: paymentData.amount.toFixed(2),
+            currency,
+            cardTransactionId: paymentData.cardTransactionId,
+            cardLast4: paymentData.cardLast4,
+            cardType: paymentData.cardType,
+            mobileMoneyNumber: paymentData.mobileMoneyNumber,
+            mobileMoneyProvider: paymentData.mobileMoneyProvider,
+            checkNumber: paymentData.checkNumber,
+            bankName: paymentData.bankName,
+            referenceNumber: paymentData.referenceNumber,
+            status: 'completed',
+          })
+          .returning();
+        payments.push(payment);
+      }
+
+      // Update inventory quantities and create stock movements with pharmaceutical compliance
+      const today = new Date();
+      today.setHours(0, 0, 0, 0); // Start of day for comparison
+      const soldMovements: StockMovement[] = [];
+      
+      for (const item of saleData.items) {
+        let selectedInventoryRecords: Inventory[] = [];
+        let remainingQuantity = item.quantity;
+        
+        if (item.inventoryId) {
+          // Use specific inventory batch
+          const allInventoryRecords = await tx
+            .select()
+            .from(inventory)
+            .where(eq(inventory.productId, item.productId));
+          const specificRecord = allInventoryRecords.find(inv => inv.id === item.inventoryId);
+          
+          if (!specificRecord) {
+            throw new Error(`Inventory batch ${item.inventoryId} not found for product ${item.productId}`);
+          }
+          
+          if (specificRecord.isQuarantined) {
+            throw new Error(`Cannot sell quarantined product. Batch ${specificRecord.batchNumber} is under recall`);
+          }
+          
+          // Check expiry date for specific batch
+          if (specificRecord.expiryDate) {
+            const expiryDate = new Date(specificRecord.expiryDate);
+            if (expiryDate < today) {
+              throw new Error(`Cannot sell expired product. Batch ${specificRecord.batchNumber} expired on ${expiryDate.toDateString()}`);
+            }
+          }
+          
+          // Stock reserved for confirmed sales orders cannot be sold over the counter
+          const available = specificRecord.quantity - ((await this.getReservedQuantities(tx, [specificRecord.id])).get(specificRecord.id) ?? 0);
+          if (available < item.quantity) {
+            throw new Error(`Insufficient stock in batch ${specificRecord.batchNumber}. Available: ${available}, Required: ${item.quantity}`);
+          }
+          
+          selectedInventoryRecords = [specificRecord];
+        } else {
+          // Use FEFO (First Expired, First Out) with expiry validation
+          const inventoryRecords = await tx
+            .select()
+            .from(inventory)
+            .where(eq(inventory.productId, item.productId));
+          
+          // Filter out expired and quarantined products; reserved stock is not available
+          const reservedByBatch = await this.getReservedQuantities(tx, inventoryRecords.map(inv => inv.id));
+          const validInventoryRecords = inventoryRecords
+            .map(inv => ({ ...inv, quantity: inv.quantity - (reservedByBatch.get(inv.id) ?? 0) }))
+            .filter(inv => {
+              if (inv.isQuarantined) return false;
+              if (!inv.expiryDate) return true; // No expiry date means no expiry
+              const expiryDate = new Date(inv.expiryDate);
+              return expiryDate >= today;
+            });
+          
+          if (validInventoryRecords.length === 0) {
+            throw new Error(`No valid (non-expired, non-quarantined) inventory available for product ${item.productId}`);
+          }
+          
+          // Sort by expiry date (FEFO) - earliest expiry first, then by quantity
+          validInventoryRecords.sort((a, b) => {
+            if (!a.expiryDate && !b.expiryDate) return 0;
+            if (!a.expiryDate) return 1; // No expiry goes last
+            if (!b.expiryDate) return -1;
+            
+            const dateA = new Date(a.expiryDate);
+            const dateB = new Date(b.expiryDate);
+            
+            if (dateA.getTime() === dateB.getTime()) {
+              // Same expiry date, prefer larger quantities to minimize batch splits
+              return b.quantity - a.quantity;
+            }
+            
+            return dateA.getTime() - dateB.getTime();
+          });
+          
+          // Select inventory batches using FEFO
+          for (const invRecord of validInventoryRecords) {
+            if (remainingQuantity <= 0) break;
+            
+            if (invRecord.quantity > 0) {
+              const quantityToTake = Math.min(remainingQuantity, invRecord.quantity);
+              selectedInventoryRecords.push({
+                ...invRecord,
+                quantity: quantityToTake // Override with the quantity we're taking
+              });
+              remainingQuantity -= quantityToTake;
+            }
+          }
+          
+          if (remainingQuantity > 0) {
+            const totalAvailable = validInventoryRecords.reduce((sum, inv) => sum + inv.quantity, 0);
+            throw new Error(`Insufficient stock for product ${item.productId}. Required: ${item.quantity}, Available: ${totalAvailable}`);
+          }
+        }
+        
+        // Process the selected inventory records
+        for (const inventoryRecord of selectedInventoryRecords) {
+          const quantityToDeduct = inventoryRecord.quantity;
+          
+          // Get the actual current quantity from database (not the modified one)
+          const [currentRecord] = await tx
+            .select()
+            .from(inventory)
+            .where(eq(inventory.id, inventoryRecord.id));
+            
+          if (!currentRecord) {
+            throw new Error(`Inventory record ${inventoryRecord.id} not found`);
+          }
+          
+          // Update inventory
+          await tx
+            .update(inventory)
+            .set({ 
+              quantity: currentRecord.quantity - quantityToDeduct,
+              updatedAt: new Date()
+            })
+            .where(eq(inventory.id, inventoryRecord.id));
+
+          // Create stock movement
+          soldMovements.push(await this.insertStockMovement(tx, {
+            productId: item.productId,
+            warehouseId: inventoryRecord.warehouseId,
+            inventoryId: inventoryRecord.id,
+            movementType: 'out',
+            quantity: -quantityToDeduct, // negative for outbound
+            reference: receiptNumber,
+            notes: `POS sale - Receipt ${receiptNumber} - Batch: ${inventoryRecord.batchNumber || 'N/A'}`,
+            userId: saleData.customerId, // Will be set properly in API route
+          }));
+        }
+      }
+
+      // Update session totals
+      await tx
+        .update(posSessions)
+        .set({
+          totalSales: sql`${posSessions.totalSales} + ${totalAmount}`,
+          totalTransactions: sql`${posSessions.totalTransactions} + 1`,
+          expectedCash: sql`${posSessions.expectedCash} + ${saleData.payments.filter(p => p.method === 'cash').reduce((sum, p) => sum + p.amount, 0)}`,
+        })
+        .where(eq(posSessions.id, saleData.sessionId));
+
+      // Payments against sales and IVA. Overpayment is change given from the till;
+      // an unpaid remainder stays with the customer.
+      const paidAmount = saleData.payments.reduce((sum, p) => sum + p.amount, 0);
+      const unpaid = amountDifference(Number(receipt.totalAmount), paidAmount);
+      await this.postAutomaticJournal(tx, {
+        entryDate: new Date().toISOString().split('T')[0],
+        description: `POS sale ${receiptNumber}`,
+        sourceType: 'pos_sale',
+        sourceId: receipt.id,
+        sourceReference: receiptNumber,
+      }, [
+        ...saleData.payments.map(p => ({
+          account: paymentMethodGlAccount(p.method),
+          debit: p.amount,
+          customerId: p.method === 'credit' ? saleData.customerId : null,
+        })),
+        unpaid < 0
+          ? { account: 'gl_account_cash' as const, credit: -unpaid }
+          : { account: 'gl_account_receivable' as const, debit: unpaid, customerId: saleData.customerId },
+        { account: 'gl_account_sales', credit: amountDifference(Number(receipt.totalAmount), Number(receipt.taxAmount)) },
+        { account: 'gl_account_output_vat', credit: Number(receipt.taxAmount) },
+      ]);
+      await this.postCostOfSalesJournal(tx, {
+        entryDate: new Date().toISOString().split('T')[0],
+        description: `Cost of POS sale ${receiptNumber}`,
+        sourceId: receipt.id,
+        sourceReference: receiptNumber,
+      }, soldMovements);
+
+      // Reprints carry the signature excerpt the receipt was issued with
+      const signature = await this.signFiscalDocument(tx, {
+        documentType: 'pos_receipt',
+        documentId: receipt.id,
+        documentNumber: receiptNumber,
+        documentDate: (receipt.createdAt ?? new Date()).toISOString().split('T')[0],
+        grossTotal: Number(receipt.totalAmount),
+      });
+      const [signedReceipt] = await tx
+        .update(posReceipts)
+        .set({
+          receiptData: {
+            ...(receipt.receiptData as Record<string, unknown>),
+            certification: certificationText(signature.hash, await this.getSettingValue('saft_software_validation_number')),
+          },
+        })
+        .where(eq(posReceipts.id, receipt.id))
+        .returning();
+
+      return { receipt: signedReceipt, payments };
+    });
+  }
+
+  // Cash movement operations
+  async getCashMovements(sessionId: string): Promise<(CashMovement & { user: User })[]> {
+    const db = await getDb();
+    return await db
+      .select({
+        id: cashMovements.id,
+        sessionId: cashMovements.sessionId,
+        movementType: cashMovements.movementType,
+        amount: cashMovements.amount,
+        currency: cashMovements.currency,
+        reference: cashMovements.reference,
+        description: cashMovements.description,
+        userId: cashMovements.userId,
+        createdAt: cashMovements.createdAt,
+        user: users,
+      })
+      .from(cashMovements)
+      .innerJoin(users, eq(cashMovements.userId, users.id))
+      .where(eq(cashMovements.sessionId, sessionId))
+      .orderBy(asc(cashMovements.createdAt));
+  }
+
+  async createCashMovement(movement: InsertCashMovement): Promise<CashMovement> {
+    const db = await getDb();
+    const [newMovement] = await db
+      .insert(cashMovements)
+      .values(movement)
+      .returning();
+    return newMovement;
+  }
+
+  // HR Module - Employee Management
+  async getEmployees(limit = 100, department?: string): Promise<(Employee & { user: User; manager?: User })[]> {
+    const db = await getDb();
+    
+    const baseConditions = [eq(employees.isActive, true)];
+    if (department) {
+      baseConditions.push(eq(employees.department, department));
+    }
+    
+    const results = await db
+      .select({
+        id: employees.id,
+        userId: employees.userId,
+        employeeNumber: employees.employeeNumber,
+        department: employees.department,
+        position: employees.position,
+        hireDate: employees.hireDate,
+        baseSalary: employees.baseSalary,
+        currency: employees.currency,
+        employmentStatus: employees.employmentStatus,
+        managerId: employees.managerId,
+        workSchedule: employees.workSchedule,
+        emergencyContactName: employees.emergencyContactName,
+        emergencyContactPhone: employees.emergencyContactPhone,
+        bankAccountNumber: employees.bankAccountNumber,
+        taxIdNumber: employees.taxIdNumber,
+        socialSecurityNumber: employees.socialSecurityNumber,
+        isActive: employees.isActive,
+        createdAt: employees.createdAt,
+        updatedAt: employees.updatedAt,
+        user: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profileImageUrl: users.profileImageUrl,
+          role: users.role,
+          isActive: users.isActive,
+          createdAt: users.createdAt,
+          updatedAt: users.updatedAt,
+        },
+        manager: sql<User | null>`manager_user.*`.as('manager'),
+      })
+      .from(employees)
+      .innerJoin(users, eq(employees.userId, users.id))
+      .leftJoin(sql`${users} AS manager_user`, sql`manager_user.id = ${employees.managerId}`)
+      .where(and(...baseConditions))
+      .limit(limit)
+      .orderBy(desc(employees.createdAt));
+
+    return results.map(r => ({
+      ...r,
+      manager: r.manager || undefined
+    }));
+  }
+
+  async getEmployee(id: string): Promise<(Employee & { user: User; manager?: User }) | undefined> {
+    const db = await getDb();
+    const [result] = await db
+      .select({
+        id: employees.id,
+        userId: employees.userId,
+        employeeNumber: employees.employeeNumber,
+        department: employees.department,
+        position: employees.position,
+        hireDate: employees.hireDate,
+        baseSalary: employees.baseSalary,
+        currency: employees.currency,
+        employmentStatus: employees.employmentStatus,
+        managerId: employees.managerId,
+        workSchedule: employees.workSchedule,
+        emergencyContactName: employees.emergencyContactName,
+        emergencyContactPhone: employees.emergencyContactPhone,
+        bankAccountNumber: employees.bankAccountNumber,
+        taxIdNumber: employees.taxIdNumber,
+        socialSecurityNumber: employees.socialSecurityNumber,
+        isActive: employees.isActive,
+        createdAt: employees.createdAt,
+        updatedAt: employees.updatedAt,
+        user: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profileImageUrl: users.profileImageUrl,
+          role: users.role,
+          isActive: users.isActive,
+          createdAt: users.createdAt,
+          updatedAt: users.updatedAt,
+        },
+        manager: sql<User | null>`manager_user.*`.as('manager'),
+      })
+      .from(employees)
+      .innerJoin(users, eq(employees.userId, users.id))
+      .leftJoin(sql`${users} AS manager_user`, sql`manager_user.id = ${employees.managerId}`)
+      .where(and(eq(employees.id, id), eq(employees.isActive, true)));
+
+    return result ? {
+      ...result,
+      manager: result.manager || undefined
+    } : undefined;
+  }
+
+  async createEmployee(employee: InsertEmployee): Promise<Employee> {
+    const db = await getDb();
+    const [newEmployee] = await db
+      .insert(employees)
+      .values(employee)
+      .returning();
+    return newEmployee;
+  }
+
+  async updateEmployee(id: string, employee: Partial<InsertEmployee>): Promise<Employee> {
+    const db = await getDb();
+    const [updatedEmployee] = await db
+      .update(employees)
+      .set({ ...employee, updatedAt: new Date() })
+      .where(eq(employees.id, id))
+      .returning();
+    return updatedEmployee;
+  }
+
+  async deleteEmployee(id: string): Promise<void> {
+    const db = await getDb();
+    await db
+      .update(employees)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(employees.id, id));
+  }
+
+  async getEmployeeByUserId(userId: string): Promise<Employee | undefined> {
+    const db = await getDb();
+    const [employee] = await db
+      .select()
+      .from(employees)
+      .where(and(eq(employees.userId, userId), eq(employees.isActive, true)));
+    return employee;
+  }
+
+  // HR Module - Time Tracking
+  async getTimeEntries(employeeId?: string, startDate?: string, endDate?: string, limit = 100): Promise<(TimeEntry & { employee: Employee & { user: User }; approver?: User })[]> {
+    const db = await getDb();
+    const conditions = [];
+
+    if (employeeId) {
+      conditions.push(eq(timeEntries.employeeId, employeeId));
+    }
+
+    if (startDate) {
+      conditions.push(gte(timeEntries.date, startDate));
+    }
+
+    if (endDate) {
+      conditions.push(lte(timeEntries.date, endDate));
+    }
+
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    let query = db
+      .select({
+        timeEntry: timeEntries,
+        employee: employees,
+        user: users,
+        approver: sql<User | null>`approver_user.*`.as('approver'),
+      })
+      .from(timeEntries)
+      .innerJoin(employees, eq(timeEntries.employeeId, employees.id))
+      .innerJoin(users, eq(employees.userId, users.id))
+      .leftJoin(sql`${users} AS approver_user`, sql`approver_user.id = ${timeEntries.approvedBy}`);
+
+    // Apply where clause and execute query
+    const baseQuery = whereCondition ? query.where(whereCondition) : query;
+    const queryResults = await baseQuery
+      .limit(limit)
+      .orderBy(desc(timeEntries.date));
+
+    return queryResults.map(r => ({
+      ...r.timeEntry,
+      employee: {
+        ...r.employee,
+        user: r.user
+      },
+      approver: r.approver || undefined
+    }));
+  }
+
+  async getTimeEntry(id: string): Promise<(TimeEntry & { employee: Employee & { user: User }; approver?: User }) | undefined> {
+    const db = await getDb();
+    const [result] = await db
+      .select({
+        timeEntry: timeEntries,
+        employee: employees,
+        user: users,
+        approver: sql<User | null>`approver_user.*`.as('approver'),
+      })
+      .from(timeEntries)
+      .innerJoin(employees, eq(timeEntries.employeeId, employees.id))
+      .innerJoin(users, eq(employees.userId, users.id))
+      .leftJoin(sql`${users} AS approver_user`, sql`approver_user.id = ${timeEntries.approvedBy}`)
+      .where(eq(timeEntries.id, id));
+
+    return result ? {
+      ...result.timeEntry,
+      employee: {
+        ...result.employee,
+        user: result.user
+      },
+      approver: result.approver || undefined
+    } : undefined;
+  }
+
+  async createTimeEntry(timeEntry: InsertTimeEntry): Promise<TimeEntry> {
+    const db = await getDb();
+    const [newEntry] = await db
+      .insert(timeEntries)
+      .values(timeEntry)
+      .returning();
+    return newEntry;
+  }
+
+  async updateTimeEntry(id: string, timeEntry: Partial<InsertTimeEntry>): Promise<TimeEntry> {
+    const db = await getDb();
+    const [updatedEntry] = await db
+      .update(timeEntries)
+      .set(timeEntry)
+      .where(eq(timeEntries.id, id))
+      .returning();
+    return updatedEntry;
+  }
+
+  async approveTimeEntry(id: string, approverId: string): Promise<TimeEntry> {
+    const db = await getDb();
+    const [approvedEntry] = await db
+      .update(timeEntries)
+      .set({
+        approvedBy: approverId,
+        approvedAt: new Date(),
+      })
+      .where(eq(timeEntries.id, id))
+      .returning();
+    return approvedEntry;
+  }
+
+  // HR Module - Payroll Processing
+  async getPayrollRuns(limit = 50): Promise<(PayrollRun & { processedBy?: User })[]> {
+    const db = await getDb();
+    const results = await db
+      .select({
+        id: payrollRuns.id,
+        payrollPeriod: payrollRuns.payrollPeriod,
+        startDate: payrollRuns.startDate,
+        endDate: payrollRuns.endDate,
+        status: payrollRuns.status,
+        totalGrossPay: payrollRuns.totalGrossPay,
+        totalDeductions: payrollRuns.totalDeductions,
+        totalNetPay: payrollRuns.totalNetPay,
+        currency: payrollRuns.currency,
+        processedBy: payrollRuns.processedBy,
+        processedAt: payrollRuns.processedAt,
+        createdAt: payrollRuns.createdAt,
+        processedByUser: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profileImageUrl: users.profileImageUrl,
+          role: users.role,
+          isActive: users.isActive,
+          createdAt: users.createdAt,
+          updatedAt: users.updatedAt,
+        },
+      })
+      .from(payrollRuns)
+      .leftJoin(users, eq(payrollRuns.processedBy, users.id))
+      .limit(limit)
+      .orderBy(desc(payrollRuns.createdAt));
+
+    return results.map(r => ({
+      id: r.id,
+      payrollPeriod: r.payrollPeriod,
+      startDate: r.startDate,
+      endDate: r.endDate,
+      status: r.status,
+      totalGrossPay: r.totalGrossPay,
+      totalDeductions: r.totalDeductions,
+      totalNetPay: r.totalNetPay,
+      currency: r.currency,
+      processedAt: r.processedAt,
+      createdAt: r.createdAt,
+      processedBy: r.processedByUser
+    } as PayrollRun & { processedBy?: User }));
+  }
+
+  async getPayrollRun(id: string): Promise<(PayrollRun & { processedBy?: User; payrollItems: (PayrollItem & { employee: Employee & { user: User } })[] }) | undefined> {
+    const db = await getDb();
+    const [payrollRunResult] = await db
+      .select({
+        id: payrollRuns.id,
+        payrollPeriod: payrollRuns.payrollPeriod,
+        startDate: payrollRuns.startDate,
+        endDate: payrollRuns.endDate,
+        status: payrollRuns.status,
+        totalGrossPay: payrollRuns.totalGrossPay,
+        totalDeductions: payrollRuns.totalDeductions,
+        totalNetPay: payrollRuns.totalNetPay,
+        currency: payrollRuns.currency,
+        processedBy: payrollRuns.processedBy,
+        processedAt: payrollRuns.processedAt,
+        createdAt: payrollRuns.createdAt,
+        processedByUser: users,
+      })
+      .from(payrollRuns)
+      .leftJoin(users, eq(payrollRuns.processedBy, users.id))
+      .where(eq(payrollRuns.id, id));
+
+    if (!payrollRunResult) return undefined;
+
+    // Get payroll items for this run
+    const payrollItemsResults = await db
+      .select({
+        payrollItem: payrollItems,
+        employee: employees,
+        user: users,
+      })
+      .from(payrollItems)
+      .innerJoin(employees, eq(payrollItems.employeeId, employees.id))
+      .innerJoin(users, eq(employees.userId, users.id))
+      .where(eq(payrollItems.payrollRunId, id))
+      .orderBy(asc(employees.employeeNumber));
+
+    const payrollItemsWithEmployee = payrollItemsResults.map(item => ({
+      ...item.payrollItem,
+      employee: {
+        ...item.employee,
+        user: item.user
+      }
+    }));
+
+    // Construct the return object matching the expected interface
+    const result = {
+      id: payrollRunResult.id,
+      payrollPeriod: payrollRunResult.payrollPeriod,
+      startDate: payrollRunResult.startDate,
+      endDate: payrollRunResult.endDate,
+      status: payrollRunResult.status,
+      totalGrossPay: payrollRunResult.totalGrossPay,
+      totalDeductions: payrollRunResult.totalDeductions,
+      totalNetPay: payrollRunResult.totalNetPay,
+      currency: payrollRunResult.currency,
+      processedAt: payrollRunResult.processedAt,
+      createdAt: payrollRunResult.createdAt,
+      processedBy: payrollRunResult.processedByUser || undefined,
+      payrollItems: payrollItemsWithEmployee,
+    } as PayrollRun & { processedBy?: User; payrollItems: (PayrollItem & { employee: Employee & { user: User } })[] };
+
+    return result;
+  }
+
+  async createPayrollRun(payrollRun: InsertPayrollRun): Promise<PayrollRun> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      await this.assertPeriodOpen(tx, 'payroll', payrollRun.payrollPeriod);
+      const [newRun] = await tx
+        .insert(payrollRuns)
+        .values(payrollRun)
+        .returning();
+      return newRun;
+    });
+  }
+
+  async updatePayrollRun(id: string, payrollRun: Partial<InsertPayrollRun>): Promise<PayrollRun> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [currentRun] = await tx
+        .select({ payrollPeriod: payrollRuns.payrollPeriod })
+        .from(payrollRuns)
+        .where(eq(payrollRuns.id, id))
+        .for('update');
+      await this.assertPeriodOpen(tx, 'payroll', currentRun?.payrollPeriod);
+      await this.assertPeriodOpen(tx, 'payroll', payrollRun.payrollPeriod);
+      const [updatedRun] = await tx
+        .update(payrollRuns)
+        .set(payrollRun)
+        .where(eq(payrollRuns.id, id))
+        .returning();
+      return updatedRun;
+    });
+  }
+
+  async getPayrollItems(payrollRunId?: string, employeeId?: string): Promise<(PayrollItem & { employee: Employee & { user: User }; payrollRun: PayrollRun })[]> {
+    const db = await getDb();
+    const conditions = [];
+
+    if (payrollRunId) {
+      conditions.push(eq(payrollItems.payrollRunId, payrollRunId));
+    }
+
+    if (employeeId) {
+      conditions.push(eq(payrollItems.employeeId, employeeId));
+    }
+
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    // Build the query with simplified select structure
+    let query = db
+      .select({
+        payrollItem: payrollItems,
+        employee: employees,
+        user: users,
+        payrollRun: payrollRuns,
+      })
+      .from(payrollItems)
+      .innerJoin(employees, eq(payrollItems.employeeId, employees.id))
+      .innerJoin(users, eq(employees.userId, users.id))
+      .innerJoin(payrollRuns, eq(payrollItems.payrollRunId, payrollRuns.id));
+
+    const baseQuery = whereCondition ? query.where(whereCondition) : query;
+    const results = await baseQuery.orderBy(desc(payrollItems.createdAt));
+
+    return results.map(r => ({
+      ...r.payrollItem,
+      employee: {
+        ...r.employee,
+        user: r.user
+      },
+      payrollRun: r.payrollRun
+    }));
+  }
+
+  async createPayrollItem(payrollItem: InsertPayrollItem): Promise<PayrollItem> {
+    const db = await getDb();
+    const [newItem] = await db
+      .insert(payrollItems)
+      .values(payrollItem)
+      .returning();
+    return newItem;
+  }
+
+  async processPayroll(payrollRunId: string, processedBy: string): Promise<{ payrollRun: PayrollRun; payrollItems: PayrollItem[] }> {
+    const db = await getDb();
+
+    return await db.transaction(async (tx) => {
+      // Validate payroll run exists and is in correct state
+      const [currentRun] = await tx
+        .select()
+        .from(payrollRuns)
+        .where(eq(payrollRuns.id, payrollRunId));
+      
+      if (!currentRun) {
+        throw new Error('Payroll run not found');
+      }
+      
+      if (currentRun.status === 'completed') {
+        throw new Error('Payroll run has already been processed');
+      }
+      await this.assertPeriodOpen(tx, 'payroll', currentRun.payrollPeriod);
+      
+      if (currentRun.status !== 'processing' && currentRun.status !== 'draft') {
+        throw new Error(`Cannot process payroll run in ${currentRun.status} status`);
+      }
+
+      // Get payroll items for totals
+      const items = await tx
+        .select()
+        .from(payrollItems)
+        .where(eq(payrollItems.payrollRunId, payrollRunId));
+      
+      if (items.length === 0) {
+        throw new Error('No payroll items found for this run');
+      }
+
+      const totals = items.reduce((acc, item) => {
+        acc.totalGrossPay += Number(item.grossPay || 0);
+        acc.totalDeductions += Number(item.totalDeductions || 0);
+        acc.totalNetPay += Number(item.netPay || 0);
+        return acc;
+      }, { totalGrossPay: 0, totalDeductions: 0, totalNetPay: 0 });
+
+      // Update payroll run status and totals
+      const [payrollRun] = await tx
+        .update(payrollRuns)
+        .set({
+          status: 'completed',
+          totalGrossPay: totals.totalGrossPay.toFixed(2),
+          totalDeductions: totals.totalDeductions.toFixed(2),
+          totalNetPay: totals.totalNetPay.toFixed(2),
+          processedBy,
+          processedAt: new Date(),
+        })
+        .where(eq(payrollRuns.id, payrollRunId))
+        .returning();
+
+      const withheld = items.reduce((acc, item) => {
+        acc.incomeTax += Number(item.taxDeductions || 0);
+        acc.socialSecurity += Number(item.socialSecurityDeductions || 0);
+        acc.other += Number(item.otherDeductions || 0);
+        return acc;
+      }, { incomeTax: 0, socialSecurity: 0, other: 0 });
+
+      await this.postAutomaticJournal(tx, {
+        entryDate: currentRun.endDate,
+        description: `Payroll ${currentRun.payrollPeriod}`,
+        sourceType: 'payroll',
+        sourceId: payrollRunId,
+        sourceReference: currentRun.payrollPeriod,
+        postedBy: processedBy,
+      }, [
+        { account: 'gl_account_payroll_expense', debit: totals.totalGrossPay },
+        { account: 'gl_account_income_tax_withheld', credit: withheld.incomeTax },
+        { account: 'gl_account_social_security', credit: withheld.socialSecurity },
+        { account: 'gl_account_other_payroll_deductions', credit: withheld.other },
+        // Net pay is what gross pay leaves after withholdings, so the entry always balances
+        { account: 'gl_account_payroll_payable', credit: amountDifference(totals.totalGrossPay, withheld.incomeTax, withheld.socialSecurity, withheld.other) },
+      ]);
+
+      return { payrollRun, payrollItems: items };
+    });
+  }
+
+  // HR Module - Performance Reviews
+  async getPerformanceReviews(employeeId?: string, reviewerId?: string, status?: string, limit = 50): Promise<(PerformanceReview & { employee: Employee & { user: User }; reviewer: User })[]> {
+    const db = await getDb();
+    const conditions = [];
+
+    if (employeeId) {
+      conditions.push(eq(performanceReviews.employeeId, employeeId));
+    }
+
+    if (reviewerId) {
+      conditions.push(eq(performanceReviews.reviewerId, reviewerId));
+    }
+
+    if (status) {
+      conditions.push(sql`${performanceReviews.status} = ${status}`);
+    }
+
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    let query = db
+      .select({
+        performanceReview: performanceReviews,
+        employee: employees,
+        user: users,
+        reviewer: sql<User>`reviewer_user.*`.as('reviewer'),
+      })
+      .from(performanceReviews)
+      .innerJoin(employees, eq(performanceReviews.employeeId, employees.id))
+      .innerJoin(users, eq(employees.userId, users.id))
+      .innerJoin(sql`${users} AS reviewer_user`, sql`reviewer_user.id = ${performanceReviews.reviewerId}`);
+
+    const baseQuery = whereCondition ? query.where(whereCondition) : query;
+    const results = await baseQuery
+      .limit(limit)
+      .orderBy(desc(performanceReviews.createdAt));
+
+    return results.map(r => ({
+      ...r.performanceReview,
+      employee: {
+        ...r.employee,
+        user: r.user
+      },
+      reviewer: r.reviewer
+    }));
+  }
+
+  async getPerformanceReview(id: string): Promise<(PerformanceReview & { employee: Employee & { user: User }; reviewer: User }) | undefined> {
+    const db = await getDb();
+    const [result] = await db
+      .select({
+        performanceReview: performanceReviews,
+        employee: employees,
+        user: users,
+        reviewer: sql<User>`reviewer_user.*`.as('reviewer'),
+      })
+      .from(performanceReviews)
+      .innerJoin(employees, eq(performanceReviews.employeeId, employees.id))
+      .innerJoin(users, eq(employees.userId, users.id))
+      .innerJoin(sql`${users} AS reviewer_user`, sql`reviewer_user.id = ${performanceReviews.reviewerId}`)
+      .where(eq(performanceReviews.id, id));
+
+    return result ? {
+      ...result.performanceReview,
+      employee: {
+        ...result.employee,
+        user: result.user
+      },
+      reviewer: result.reviewer
+    } : undefined;
+  }
+
+  async createPerformanceReview(review: InsertPerformanceReview): Promise<PerformanceReview> {
+    const db = await getDb();
+    const [newReview] = await db
+      .insert(performanceReviews)
+      .values(review)
+      .returning();
+    return newReview;
+  }
+
+  async updatePerformanceReview(id: string, review: Partial<InsertPerformanceReview>): Promise<PerformanceReview> {
+    const db = await getDb();
+    const [updatedReview] = await db
+      .update(performanceReviews)
+      .set({ ...review, updatedAt: new Date() })
+      .where(eq(performanceReviews.id, id))
+      .returning();
+    return updatedReview;
+  }
+
+  async completePerformanceReview(id: string): Promise<PerformanceReview> {
+    const db = await getDb();
+    const [completedReview] = await db
+      .update(performanceReviews)
+      .set({
+        status: 'completed',
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(performanceReviews.id, id))
+      .returning();
+    return completedReview;
+  }
+  
+  // AI Analytics - Sales History and Business Intelligence
+  
+  async getSalesHistory(productId?: string, daysBack = 90): Promise<Array<{
+    productId: string;
+    productName: string;
+    salesData: Array<{
+      date: string;
+      quantity: number;
+      revenue: number;
+    }>;
+    totalSold: number;
+    averageDailySales: number;
+    salesVelocity: number;
+  }>> {
+    const db = await getDb();
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - daysBack);
+    
+    // Get sales data from both sales orders and POS receipts
+    const salesQuery = db
+      .select({
+        productId: salesOrderItems.productId,
+        productName: products.name,
+        orderDate: salesOrders.orderDate,
+        quantity: salesOrderItems.quantity,
+        revenue: salesOrderItems.totalPrice,
+        status: salesOrders.status,
+      })
+      .from(salesOrderItems)
+      .innerJoin(salesOrders, eq(salesOrderItems.orderId, salesOrders.id))
+      .innerJoin(products, eq(salesOrderItems.productId, products.id))
+      .where(
+        and(
+          gte(salesOrders.orderDate, cutoffDate.toISOString().split('T')[0]),
+          eq(salesOrders.status, 'delivered'),
+          productId ? eq(salesOrderItems.productId, productId) : sql`true`
+        )
+      );
+
+    const salesData = await salesQuery;
+    
+    // Group by product and aggregate data
+    const productSalesMap = new Map<string, {
+      productId: string;
+      productName: string;
+      salesByDate: Map<string, { quantity: number; revenue: number }>;
+      totalSold: number;
+      totalRevenue: number;
+    }>();
+
+    salesData.forEach(sale => {
+      if (!productSalesMap.has(sale.productId)) {
+        productSalesMap.set(sale.productId, {
+          productId: sale.productId,
+          productName: sale.productName,
+          salesByDate: new Map(),
+          totalSold: 0,
+          totalRevenue: 0,
+        });
+      }
+      
+      const product = productSalesMap.get(sale.productId)!;
+      const dateKey = sale.orderDate || new Date().toISOString().split('T')[0];
+      
+      if (!product.salesByDate.has(dateKey)) {
+        product.salesByDate.set(dateKey, { quantity: 0, revenue: 0 });
+      }
+      
+      const dayData = product.salesByDate.get(dateKey)!;
+      dayData.quantity += sale.quantity;
+      dayData.revenue += parseFloat(sale.revenue?.toString() || '0');
+      
+      product.totalSold += sale.quantity;
+      product.totalRevenue += parseFloat(sale.revenue?.toString() || '0');
+    });
+
+    return Array.from(productSalesMap.values()).map(product => ({
+      productId: product.productId,
+      productName: product.productName,
+      salesData: Array.from(product.salesByDate.entries()).map(([date, data]) => ({
+        date,
+        quantity: data.quantity,
+        revenue: data.revenue,
+      })).sort((a, b) => a.date.localeCompare(b.date)),
+      totalSold: product.totalSold,
+      averageDailySales: product.totalSold / daysBack,
+      salesVelocity: product.totalSold / Math.max(1, product.salesByDate.size), // avg per active day
+    }));
+  }
+
+  async getLeadTimeAnalysis(supplierId?: string): Promise<Array<{
+    supplierId: string;
+    supplierName: string;
+    productId: string;
+    productName: string;
+    averageLeadTimeDays: number;
+    minLeadTimeDays: number;
+    maxLeadTimeDays: number;
+    orderCount: number;
+    reliability: number;
+  }>> {
+    const db = await getDb();
+    
+    // Get purchase orders with actual delivery data
+    const purchaseData = await db
+      .select({
+        supplierId: purchaseOrders.supplierId,
+        supplierName: suppliers.name,
+        productId: purchaseOrderItems.productId,
+        productName: products.name,
+        orderDate: purchaseOrders.orderDate,
+        expectedDeliveryDate: purchaseOrders.expectedDeliveryDate,
+        status: purchaseOrders.status,
+        actualDeliveryDate: sql<string>`
+          CASE 
+            WHEN ${purchaseOrders.status} = 'received' 
+            THEN ${purchaseOrders.updatedAt}::date
+            ELSE NULL
+          END
+        `.as('actualDeliveryDate'),
+      })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.orderId, purchaseOrders.id))
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .innerJoin(products, eq(purchaseOrderItems.productId, products.id))
+      .where(
+        and(
+          supplierId ? eq(purchaseOrders.supplierId, supplierId) : sql`true`,
+          eq(purchaseOrders.status, 'received')
+        )
+      );
+
+    // Group by supplier and product combination
+    const leadTimeMap = new Map<string, {
+      supplierId: string;
+      supplierName: string;
+      productId: string;
+      productName: string;
+      leadTimes: number[];
+      onTimeDeliveries: number;
+      totalOrders: number;
+    }>();
+
+    purchaseData.forEach(order => {
+      if (!order.actualDeliveryDate || !order.orderDate) return;
+      
+      const key = `${order.supplierId}-${order.productId}`;
+      
+      if (!leadTimeMap.has(key)) {
+        leadTimeMap.set(key, {
+          supplierId: order.supplierId,
+          supplierName: order.supplierName,
+          productId: order.productId,
+          productName: order.productName,
+          leadTimes: [],
+          onTimeDeliveries: 0,
+          totalOrders: 0,
+        });
+      }
+      
+      const analysis = leadTimeMap.get(key)!;
+      const orderDate = new Date(order.orderDate);
+      const actualDate = new Date(order.actualDeliveryDate);
+      const expectedDate = order.expectedDeliveryDate ? new Date(order.expectedDeliveryDate) : null;
+      
+      const leadTime = Math.ceil((actualDate.getTime() - orderDate.getTime()) / (1000 * 60 * 60 * 24));
+      analysis.leadTimes.push(leadTime);
+      analysis.totalOrders++;
+      
+      // Check if delivery was on time (within expected date or reasonable buffer)
+      if (expectedDate && actualDate <= expectedDate) {
+        analysis.onTimeDeliveries++;
+      } else if (!expectedDate && leadTime <= 14) { // default 14 days as reasonable
+        analysis.onTimeDeliveries++;
+      }
+    });
+
+    return Array.from(leadTimeMap.values()).map(analysis => ({
+      supplierId: analysis.supplierId,
+      supplierName: analysis.supplierName,
+      productId: analysis.productId,
+      productName: analysis.productName,
+      averageLeadTimeDays: Math.round(
+        analysis.leadTimes.reduce((sum, lt) => sum + lt, 0) / analysis.leadTimes.length
+      ),
+      minLeadTimeDays: Math.min(...analysis.leadTimes),
+      maxLeadTimeDays: Math.max(...analysis.leadTimes),
+      orderCount: analysis.totalOrders,
+      reliability: Math.round((analysis.onTimeDeliveries / analysis.totalOrders) * 100),
+    }));
+  }
+
+  async getProductDemandAnalysis(productId?: string): Promise<Array<{
+    productId: string;
+    productName: string;
+    currentStock: number;
+    averageMonthlySales: number;
+    stockTurnoverRate: number;
+    seasonalPattern: number[];
+    demandTrend: 'increasing' | 'decreasing' | 'stable';
+    forecastedDemand: number;
+  }>> {
+    const db = await getDb();
+    
+    // Get current inventory levels
+    const inventoryData = await db
+      .select({
+        productId: inventory.productId,
+        productName: products.name,
+        totalStock: sql<number>`SUM(${inventory.quantity})`.as('totalStock'),
+      })
+      .from(inventory)
+      .innerJoin(products, eq(inventory.productId, products.id))
+      .where(productId ? eq(inventory.productId, productId) : sql`true`)
+      .groupBy(inventory.productId, products.name);
+
+    // Get sales history for the past 12 months for seasonal analysis
+    const twelveMonthsAgo = new Date();
+    twelveMonthsAgo.setMonth(twelveMonthsAgo.getMonth() - 12);
+    
+    const salesHistory = await db
+      .select({
+        productId: salesOrderItems.productId,
+        month: sql<number>`EXTRACT(MONTH FROM ${salesOrders.orderDate})`.as('month'),
+        quantity: sql<number>`SUM(${salesOrderItems.quantity})`.as('quantity'),
+        orderDate: salesOrders.orderDate,
+      })
+      .from(salesOrderItems)
+      .innerJoin(salesOrders, eq(salesOrderItems.orderId, salesOrders.id))
+      .where(
+        and(
+          gte(salesOrders.orderDate, twelveMonthsAgo.toISOString().split('T')[0]),
+          eq(salesOrders.status, 'delivered'),
+          productId ? eq(salesOrderItems.productId, productId) : sql`true`
+        )
+      )
+      .groupBy(salesOrderItems.productId, sql`EXTRACT(MONTH FROM ${salesOrders.orderDate})`, salesOrders.orderDate)
+      .orderBy(salesOrders.orderDate);
+
+    // Process demand analysis
+    const demandMap = new Map<string, {
+      productId: string;
+      productName: string;
+      currentStock: number;
+      monthlySales: number[];
+      salesByMonth: Map<number, number>;
+    }>();
+
+    // Initialize with inventory data
+    inventoryData.forEach(item => {
+      demandMap.set(item.productId, {
+        productId: item.productId,
+        productName: item.productName,
+        currentStock: item.totalStock || 0,
+        monthlySales: [],
+        salesByMonth: new Map(),
+      });
+    });
+
+    // Add sales data
+    salesHistory.forEach(sale => {
+      const product = demandMap.get(sale.productId);
+      if (product) {
+        const month = sale.month;
+        const currentSales = product.salesByMonth.get(month) || 0;
+        product.salesByMonth.set(month, currentSales + sale.quantity);
+      }
+    });
+
+    return Array.from(demandMap.values()).map(product => {
+      // Create seasonal pattern array (12 months)
+      const seasonalPattern = Array.from({ length: 12 }, (_, i) => 
+        product.salesByMonth.get(i + 1) || 0
+      );
+      
+      const monthlySales = Array.from(product.salesByMonth.values());
+      const averageMonthlySales = monthlySales.length > 0 
+        ? monthlySales.reduce((sum, sales) => sum + sales, 0) / monthlySales.length
+        : 0;
+      
+      // Calculate trend (simple linear regression on last 6 months)
+      const recentMonths = monthlySales.slice(-6);
+      let demandTrend: 'increasing' | 'decreasing' | 'stable' = 'stable';
+      
+      if (recentMonths.length >= 3) {
+        const firstHalf = recentMonths.slice(0, 3).reduce((sum, val) => sum + val, 0) / 3;
+        const secondHalf = recentMonths.slice(-3).reduce((sum, val) => sum + val, 0) / 3;
+        const change = (secondHalf - firstHalf) / Math.max(firstHalf, 1);
+        
+        if (change > 0.15) demandTrend = 'increasing';
+        else if (change < -0.15) demandTrend = 'decreasing';
+      }
+      
+      // Forecast next 30 days based on average and trend
+      const forecastedDemand = Math.round(averageMonthlySales * 
+        (demandTrend === 'increasing' ? 1.1 : demandTrend === 'decreasing' ? 0.9 : 1.0));
+      
+      return {
+        productId: product.productId,
+        productName: product.productName,
+        currentStock: product.currentStock,
+        averageMonthlySales: Math.round(averageMonthlySales),
+        stockTurnoverRate: product.currentStock > 0 ? averageMonthlySales / product.currentStock : 0,
+        seasonalPattern,
+        demandTrend,
+        forecastedDemand,
+      };
+    });
+  }
+
+  async getPriceOptimizationData(productId?: string): Promise<Array<{
+    productId: string;
+    productName: string;
+    currentPrice: number;
+    averageCost: number;
+    currentMargin: number;
+    salesVolume: number;
+    competitorPrices: number[];
+    priceElasticity: number;
+    optimalPriceRange: {
+      min: number;
+      max: number;
+      recommended: number;
+    };
+  }>> {
+    const db = await getDb();
+    
+    // Get product pricing and sales data
+    const productData = await db
+      .select({
+        productId: products.id,
+        productName: products.name,
+        currentPrice: products.unitPrice,
+        averageCost: sql<number>`COALESCE(AVG(${inventory.costPerUnit}), 0)`.as('averageCost'),
+        totalSalesVolume: sql<number>`COALESCE(SUM(${salesOrderItems.quantity}), 0)`.as('totalSalesVolume'),
+      })
+      .from(products)
+      .leftJoin(inventory, eq(products.id, inventory.productId))
+      .leftJoin(salesOrderItems, eq(products.id, salesOrderItems.productId))
+      .leftJoin(salesOrders, and(
+        eq(salesOrderItems.orderId, salesOrders.id),
+        eq(salesOrders.status, 'delivered'),
+        gte(salesOrders.orderDate, sql`CURRENT_DATE - INTERVAL '90 days'`)
+      ))
+      .where(
+        and(
+          eq(products.isActive, true),
+          productId ? eq(products.id, productId) : sql`true`
+        )
+      )
+      .groupBy(products.id, products.name, products.unitPrice);
+
+    return productData.map(product => {
+      const currentPrice = parseFloat(product.currentPrice?.toString() || '0');
+      const averageCost = product.averageCost || 0;
+      const salesVolume = product.totalSalesVolume || 0;
+      
+      // Calculate current margin
+      const currentMargin = currentPrice > 0 ? ((currentPrice - averageCost) / currentPrice) * 100 : 0;
+      
+      // Mock competitor prices (in real implementation, this would come from market data)
+      const competitorPrices = [
+        currentPrice * 0.95, // slightly lower
+        currentPrice * 1.05, // slightly higher
+        currentPrice * 0.90, // significantly lower
+      ].filter(price => price > 0);
+      
+      // Simple price elasticity calculation (would be more sophisticated in real implementation)
+      const priceElasticity = salesVolume > 0 ? -1.2 : 0; // typical pharmaceutical elasticity
+      
+      // Calculate optimal price range
+      const minPrice = averageCost * 1.1; // at least 10% margin
+      const maxPrice = currentPrice * 1.3; // not more than 30% increase
+      const recommended = averageCost > 0 ? averageCost * 1.4 : currentPrice; // target 40% margin
+      
+      return {
+        productId: product.productId,
+        productName: product.productName,
+        currentPrice,
+        averageCost,
+        currentMargin: Math.round(currentMargin * 100) / 100,
+        salesVolume,
+        competitorPrices,
+        priceElasticity: Math.round(priceElasticity * 100) / 100,
+        optimalPriceRange: {
+          min: Math.round(minPrice * 100) / 100,
+          max: Math.round(maxPrice * 100) / 100,
+          recommended: Math.round(recommended * 100) / 100,
+        },
+      };
+    });
+  }
+
+  // CRM Module - Quotation operations  
+  async getQuotations(limit = 100, status?: string, offset = 0): Promise<(Quotation & { customer: Customer; salesRep?: User; items: (QuotationItem & { product: Product })[] })[]> {
+    const startTime = Date.now();
+    
+    // PHASE 2 PERFORMANCE OPTIMIZATION: Target 316ms → <150ms (52% improvement)
+    // Enhanced Strategy: Optimized indexing + intelligent caching + parallel batch queries
+    
+    // Check cache first with improved cache key strategy
+    const cacheKey = `quotations:list:${status || 'all'}:${limit}:${offset}`;
+    const cached = await advancedCache.get(cacheKey);
+    if (cached) {
+      console.log(`🚀 [Cache Hit] Quotations query served from cache in ${Date.now() - startTime}ms`);
+       return cached as any;
+    }
+
+    const db = await getDb();
+    
+    // OPTIMIZATION 1: Use optimized index-backed query (idx_quotations_status_created_at)
+    const quotationData = await db
+      .select()
+      .from(quotations)
+      .where(status ? eq(quotations.status, status as any) : sql`true`)
+      .orderBy(desc(quotations.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    if (quotationData.length === 0) {
+      await advancedCache.set(cacheKey, [], 'WARM'); // 5 minute cache
+      console.log(`⚡ [Quotations] Empty result cached in ${Date.now() - startTime}ms`);
+      return [];
+    }
+
+    // OPTIMIZATION 2: Extract IDs for batch fetching
+    const quotationIds = quotationData.map(q => q.id);
+    const customerIds = Array.from(new Set(quotationData.map(q => q.customerId).filter(Boolean)));
+    const salesRepIds = Array.from(new Set(quotationData.map(q => q.salesRepId).filter((id): id is string => Boolean(id))));
+
+    // OPTIMIZATION 3: Batch fetch related data in parallel
+    const [customerMap, salesRepMap, quotationItemsData] = await Promise.all([
+      this.getCustomersBatch(customerIds),
+      this.getUsersBatch(salesRepIds),
+      this.getQuotationItemsBatch(quotationIds)
+    ]);
+
+    // OPTIMIZATION 4: Efficiently construct result with batched data
+    const result = quotationData.map(quotation => {
+      const customer = customerMap.get(quotation.customerId!);
+      const salesRep = quotation.salesRepId ? salesRepMap.get(quotation.salesRepId) : undefined;
+      const items = quotationItemsData.get(quotation.id) || [];
+
+      return {
+        ...quotation,
+        customer: customer!,
+        salesRep,
+        items
+      };
+    });
+
+    // OPTIMIZATION 5: Cache the result for subsequent requests
+    await advancedCache.set(cacheKey, result, 'WARM', { ttl: 600 }); // 10 minutes
+    
+    const executionTime = Date.now() - startTime;
+    console.log(`⚡ [Optimized Quotations] Query completed in ${executionTime}ms (target: <200ms)`);
+    
+    if (executionTime > 200) {
+      console.warn(`⚠️ [Performance Warning] Quotations query took ${executionTime}ms, exceeding 200ms target`);
+    }
+    
+    return result;
+  }
+
+  async getQuotation(id: string): Promise<(Quotation & { customer: Customer; salesRep?: User; items: (QuotationItem & { product: Product })[] }) | undefined> {
+    const db = await getDb();
+    const quotationData = await db
+      .select({
+        quotation: quotations,
+        customer: customers,
+        salesRep: users,
+      })
+      .from(quotations)
+      .leftJoin(customers, eq(quotations.customerId, customers.id))
+      .leftJoin(users, eq(quotations.salesRepId, users.id))
+      .where(eq(quotations.id, id));
+
+    if (quotationData.length === 0) return undefined;
+
+    const row = quotationData[0];
+    const items = await db
+      .select({
+        quotationItem: quotationItems,
+        product: products,
+      })
+      .from(quotationItems)
+      .leftJoin(products, eq(quotationItems.productId, products.id))
+      .where(eq(quotationItems.quotationId, id));
+
+    return {
+      ...row.quotation,
+      customer: row.customer!,
+      salesRep: row.salesRep || undefined,
+      items: items.map(item => ({ ...item.quotationItem, product: item.product! })),
+    };
+  }
+
+  async createQuotation(quotationData: InsertQuotation): Promise<Quotation> {
+    const db = await getDb();
+    const quotation = await db.transaction(async (tx) => {
+      const quotationNumber = quotationData.quotationNumber || await this.allocateDocumentNumber(tx, 'quotation');
+      const [created] = await tx.insert(quotations).values({ ...quotationData, quotationNumber }).returning();
+      return created;
+    });
+    
+    // PERFORMANCE OPTIMIZATION: Invalidate quotations cache after creation
+    await advancedCache.invalidate('quotations:list:*');
+    console.log('♻️  [Cache Invalidation] Quotations cache cleared after create');
+    
+    return quotation;
+  }
+
+  async updateQuotation(id: string, quotationData: Partial<InsertQuotation>): Promise<Quotation> {
+    const db = await getDb();
+    const [quotation] = await db
+      .update(quotations)
+      .set({ ...quotationData, updatedAt: new Date() })
+      .where(eq(quotations.id, id))
+      .returning();
+    
+    // PERFORMANCE OPTIMIZATION: Invalidate quotations cache after update
+    await advancedCache.invalidate('quotations:list:*');
+    console.log('♻️  [Cache Invalidation] Quotations cache cleared after update');
+    
+    return quotation;
+  }
+
+  async deleteQuotation(id: string): Promise<void> {
+    const db = await getDb();
+    await db.delete(quotationItems).where(eq(quotationItems.quotationId, id));
+    await db.delete(quotations).where(eq(quotations.id, id));
+    
+    // PERFORMANCE OPTIMIZATION: Invalidate quotations cache after deletion
+    await advancedCache.invalidate('quotations:list:*');
+    console.log('♻️  [Cache Invalidation] Quotations cache cleared after delete');
+  }
+
+  async createQuotationItem(itemData: InsertQuotationItem): Promise<QuotationItem> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [item] = await tx
+        .insert(quotationItems)
+        .values({ ...itemData, ...await this.quotationItemTaxFields(tx, itemData) })
+        .returning();
+      return item;
+    });
+  }
+
+  async getQuotationItems(quotationId: string): Promise<(QuotationItem & { product: Product })[]> {
+    const db = await getDb();
+    const items = await db
+      .select({
+        quotationItem: quotationItems,
+        product: products,
+      })
+      .from(quotationItems)
+      .leftJoin(products, eq(quotationItems.productId, products.id))
+      .where(eq(quotationItems.quotationId, quotationId));
+
+    return items.map(item => ({ ...item.quotationItem, product: item.product! }));
+  }
+
+  async updateQuotationItem(id: string, itemData: Partial<InsertQuotationItem>): Promise<QuotationItem> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(quotationItems).where(eq(quotationItems.id, id));
+      if (!current) throw new Error('Quotation item not found');
+
+      // A new product drops the old line's code so the new product's code applies
+      const merged = { ...current, ...(itemData.productId && itemData.productId !== current.productId ? { taxCodeId: null } : {}), ...itemData };
+      const [item] = await tx
+        .update(quotationItems)
+        .set({ ...itemData, ...await this.quotationItemTaxFields(tx, merged) })
+        .where(eq(quotationItems.id, id))
+        .returning();
+      return item;
+    });
+  }
+
+  async deleteQuotationItem(id: string): Promise<void> {
+    const db = await getDb();
+    await db.delete(quotationItems).where(eq(quotationItems.id, id));
+  }
+
+  async recalculateQuotationTotals(quotationId: string): Promise<Quotation> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [quotation] = await tx
+        .select()
+        .from(quotations)
+        .where(eq(quotations.id, quotationId));
+
+      if (!quotation) throw new Error("Quotation not found");
+
+      const items = await tx
+        .select()
+        .from(quotationItems)
+        .where(eq(quotationItems.quotationId, quotationId));
+
+      // Discounts come off each line before IVA; IVA follows each line's tax code
+      const taxCodesByLine = await this.resolveLineTaxCodes(tx, items, quotation.customerId, quotation.quotationDate);
+      let subtotal = 0;
+      let totalDiscount = 0;
+      const taxedLines: TaxedLine[] = items.map((item, index) => {
+        const lineSubtotal = item.quantity * parseFloat(item.unitPrice);
+        const discountAmount = lineSubtotal * (parseFloat(item.discount || '0') / 100);
+        const netAmount = Math.round((lineSubtotal - discountAmount) * 100) / 100;
+        subtotal += lineSubtotal;
+        totalDiscount += discountAmount;
+        return { taxCode: taxCodesByLine[index], netAmount, taxAmount: lineTax(netAmount, Number(taxCodesByLine[index].rate)) };
+      });
+      const { taxAmount, breakdown } = summarizeTax(taxedLines);
+      const totalAmount = subtotal - totalDiscount + taxAmount;
+
+      const [updated] = await tx
+        .update(quotations)
+        .set({
+          subtotal: subtotal.toFixed(2),
+          discountAmount: totalDiscount.toFixed(2),
+          taxAmount: taxAmount.toFixed(2),
+          totalAmount: totalAmount.toFixed(2),
+          taxBreakdown: breakdown,
+          updatedAt: new Date()
+        })
+        .where(eq(quotations.id, quotationId))
+        .returning();
+
+      return updated;
+    });
+  }
+
+  async convertQuotationToOrder(quotationId: string, orderData?: Partial<InsertSalesOrder>): Promise<SalesOrder> {
+    const db = await getDb();
+    
+    const quotation = await this.getQuotation(quotationId);
+    if (!quotation) throw new Error("Quotation not found");
+
+    return await db.transaction(async (tx) => {
+      // Create sales order
+      const orderNumber = orderData?.orderNumber || await this.allocateDocumentNumber(tx, 'sales_order');
+      const orderDate = orderData?.orderDate || new Date().toISOString().split('T')[0];
+      await this.assertPeriodOpen(tx, 'sales', orderDate);
+      // The order keeps the quotation's currency and agreed rate
+      const currency = orderData?.currency || quotation.currency || await this.getSettingValue('default_currency');
+      const fxRate = await this.resolveFxRate(tx, currency, orderData?.fxRate ?? quotation.fxRate, orderDate);
+      const totalAmount = orderData?.totalAmount ?? quotation.totalAmount;
+      const [order] = await tx.insert(salesOrders).values({
+        customerId: quotation.customerId,
+        salesRepId: quotation.salesRepId,
+        subtotal: quotation.subtotal,
+        taxAmount: quotation.taxAmount,
+        notes: quotation.notes,
+        ...orderData,
+        orderDate,
+        orderNumber,
+        currency,
+        fxRate: fxRate.toFixed(6),
+        totalAmount,
+        baseTotalAmount: toBaseAmount(Number(totalAmount || 0), fxRate).toFixed(2),
+      }).returning();
+
+      // Create order items at their net price, keeping the quoted tax codes
+      const taxCodesByLine = await this.resolveLineTaxCodes(tx, quotation.items, quotation.customerId, orderDate);
+      for (let index = 0; index < quotation.items.length; index++) {
+        const item = quotation.items[index];
+        const netAmount = Math.round(item.quantity * Number(item.unitPrice) * (1 - Number(item.discount || 0) / 100) * 100) / 100;
+        const taxCode = taxCodesByLine[index];
+        await tx.insert(salesOrderItems).values({
+          orderId: order.id,
+          productId: item.productId,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          totalPrice: netAmount.toFixed(2),
+          taxCodeId: taxCode.id,
+          taxRate: taxCode.rate,
+          taxAmount: lineTax(netAmount, Number(taxCode.rate)).toFixed(2),
+        });
+      }
+      const orderWithTotals = quotation.items.length > 0 ? await this.recalculateSalesOrderTotals(tx, order.id) : order;
+
+      // Update quotation status
+      await tx.update(quotations)
+        .set({ 
+          status: 'accepted', 
+          convertedToOrderId: order.id,
+          convertedAt: new Date(),
+          updatedAt: new Date() 
+        })
+        .where(eq(quotations.id, quotationId));
+
+      return orderWithTotals;
+    });
+  }
+
+  // CRM Module - Receipt operations
+  async getReceipts(limit = 100, customerId?: string): Promise<(Omit<Receipt, 'receivedBy'> & { customer: Customer; invoice?: Invoice; receivedBy: User })[]> {
+    const db = await getDb();
+    return await db
+      .select({
+        receipt: receipts,
+        customer: customers,
+        invoice: invoices,
+        receivedBy: users,
+      })
+      .from(receipts)
+      .leftJoin(customers, eq(receipts.customerId, customers.id))
+      .leftJoin(invoices, eq(receipts.invoiceId, invoices.id))
+      .leftJoin(users, eq(receipts.receivedBy, users.id))
+      .where(customerId ? eq(receipts.customerId, customerId) : sql`true`)
+      .limit(limit)
+      .orderBy(desc(receipts.createdAt))
+      .then(rows => rows.map(row => ({
+        ...row.receipt,
+        customer: row.customer!,
+        invoice: row.invoice || undefined,
+        receivedBy: row.receivedBy!,
+      })));
+  }
+
+  async getReceipt(id: string): Promise<(Omit<Receipt, 'receivedBy'> & { customer: Customer; invoice?: Invoice; receivedBy: User }) | undefined> {
+    const db = await getDb();
+    const [row] = await db
+      .select({
+        receipt: receipts,
+        customer: customers,
+        invoice: invoices,
+        receivedBy: users,
+      })
+      .from(receipts)
+      .leftJoin(customers, eq(receipts.customerId, customers.id))
+      .leftJoin(invoices, eq(receipts.invoiceId, invoices.id))
+      .leftJoin(users, eq(receipts.receivedBy, users.id))
+      .where(eq(receipts.id, id));
+
+    if (!row) return undefined;
+
+    return {
+      ...row.receipt,
+      customer: row.customer!,
+      invoice: row.invoice || undefined,
+      receivedBy: row.receivedBy!,
+    };
+  }
+
+  async createReceipt(receiptData: InsertReceipt): Promise<Receipt> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const currency = receiptData.currency || await this.getSettingValue('default_currency');
+      const fxRate = await this.resolveFxRate(tx, currency, receiptData.fxRate, new Date().toISOString().split('T')[0]);
+      const [receipt] = await tx
+        .insert(receipts)
+        .values({
+          ...receiptData,
+          currency,
+          fxRate: fxRate.toFixed(6),
+          baseAmount: toBaseAmount(Number(receiptData.amount), fxRate).toFixed(2),
+        })
+        .returning();
+      return await this.postReceiptCashJournal(tx, receipt, new Date().toISOString().split('T')[0]);
+    });
+  }
+
+  async updateReceipt(id: string, receiptData: Partial<InsertReceipt>): Promise<Receipt> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [currentReceipt] = await tx
+        .select()
+        .from(receipts)
+        .where(eq(receipts.id, id))
+        .for('update');
+      if (!currentReceipt) {
+        throw new Error('Receipt not found');
+      }
+
+      const voided = ['bounced', 'cancelled'];
+      const voiding = !!receiptData.status && voided.includes(receiptData.status) && !voided.includes(currentReceipt.status || '');
+      const cashChanged = (['amount', 'fxRate'] as const)
+        .some(field => receiptData[field] !== undefined && Number(receiptData[field]) !== Number(currentReceipt[field]))
+        || (['currency', 'paymentMethod', 'customerId'] as const)
+          .some(field => receiptData[field] !== undefined && receiptData[field] !== currentReceipt[field]);
+      if ((voiding || cashChanged) && Number(currentReceipt.appliedAmount || 0) > 0) {
+        throw new Error(`Receipt ${currentReceipt.receiptNumber} has been applied to invoices; reverse its allocations first`);
+      }
+
+      const today = new Date().toISOString().split('T')[0];
+      let changes: Partial<InsertReceipt> & { baseAmount?: string } = receiptData;
+      if (cashChanged) {
+        // A new currency without a rate takes today's rate
+        const currency = receiptData.currency ?? currentReceipt.currency ?? await this.getSettingValue('default_currency');
+        const fxRate = await this.resolveFxRate(tx, currency, receiptData.fxRate ?? (currency !== currentReceipt.currency ? null : currentReceipt.fxRate), today);
+        changes = {
+          ...receiptData,
+          fxRate: fxRate.toFixed(6),
+          baseAmount: toBaseAmount(Number(receiptData.amount ?? currentReceipt.amount), fxRate).toFixed(2),
+        };
+      }
+
+      const [receipt] = await tx
+        .update(receipts)
+        .set(changes)
+        .where(eq(receipts.id, id))
+        .returning();
+
+      // Voiding takes the cash back out of the ledger; a new amount or account re-posts it
+      if (currentReceipt.journalEntryId && (voiding || cashChanged)) {
+        const [entry] = await tx
+          .select()
+          .from(journalEntries)
+          .where(eq(journalEntries.id, currentReceipt.journalEntryId));
+        if (entry?.status === 'posted') {
+          await this.assertPeriodOpen(tx, 'sales', today);
+          await this.reverseJournalInTx(tx, entry);
+        }
+        if (!voiding && !voided.includes(receipt.status || '')) {
+          return await this.postReceiptCashJournal(tx, receipt, today);
+        }
+      }
+      return receipt;
+    });
+  }
+
+  async allocateReceiptToInvoice(receiptId: string, invoiceId: string, amount: number): Promise<{ receipt: Receipt; invoice: Invoice }> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const { receipt, invoice } = await this.allocateReceiptInTx(tx, receiptId, invoiceId, amount);
+      return { receipt, invoice };
+    });
+  }
+
+  async allocateReceipt(receiptId: string, request: AllocateReceiptRequest, allocatedBy: string): Promise<ReceiptAllocationResult> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [receipt] = await tx
+        .select()
+        .from(receipts)
+        .where(eq(receipts.id, receiptId))
+        .for('update');
+      if (!receipt) {
+        throw new Error('Receipt not found');
+      }
+
+      let lines: NonNullable<AllocateReceiptRequest['allocations']> = request.allocations ?? [];
+      if (request.mode === 'auto') {
+        let remaining = amountDifference(Number(receipt.amount), Number(receipt.appliedAmount || 0));
+        if (remaining <= 0) {
+          throw new Error(`Receipt ${receipt.receiptNumber} has no unapplied amount`);
+        }
+
+        // Oldest first: by due date, then invoice date
+        const openInvoices = await tx
+          .select()
+          .from(invoices)
+          .where(and(
+            eq(invoices.customerId, receipt.customerId),
+            inArray(invoices.status, ['sent', 'overdue']),
+            sql`${invoices.totalAmount} > ${invoices.paidAmount}`,
+            request.invoiceIds?.length ? inArray(invoices.id, request.invoiceIds) : undefined
+          ))
+          .orderBy(asc(invoices.dueDate), asc(invoices.invoiceDate), asc(invoices.invoiceNumber));
+
+        lines = [];
+        for (const invoice of openInvoices) {
+          if (remaining <= 0) break;
+          const amount = Math.min(remaining, amountDifference(Number(invoice.totalAmount), Number(invoice.paidAmount || 0)));
+          lines.push({ invoiceId: invoice.id, amount });
+          remaining = amountDifference(remaining, amount);
+        }
+        if (lines.length === 0) {
+          throw new Error('The customer has no open invoices to allocate to');
+        }
+      }
+
+      const allocationIds: string[] = [];
+      for (const line of lines) {
+        const { allocation } = await this.allocateReceiptInTx(tx, receiptId, line.invoiceId, line.amount, {
+          writeOffAmount: line.writeOffAmount,
+          writeOffReason: line.writeOffReason,
+          notes: line.notes,
+          allocatedBy,
+        });
+        allocationIds.push(allocation.id);
+      }
+
+      const [updated] = await tx.select().from(receipts).where(eq(receipts.id, receiptId));
+      return {
+        receipt: updated,
+        allocations: await this.selectReceiptAllocations(tx, inArray(receiptAllocations.id, allocationIds)),
+        unappliedAmount: amountDifference(Number(updated.amount), Number(updated.appliedAmount || 0)),
+      };
+    });
+  }
+
+  async getReceiptAllocations(filters: { receiptId?: string; invoiceId?: string } = {}): Promise<ReceiptAllocationDetail[]> {
+    const db = await getDb();
+    return await this.selectReceiptAllocations(db, and(
+      filters.receiptId ? eq(receiptAllocations.receiptId, filters.receiptId) : undefined,
+      filters.invoiceId ? eq(receiptAllocations.invoiceId, filters.invoiceId) : undefined
+    ));
+  }
+
+  /**
+   * Undo an allocation: the cash goes back to the receipt as unapplied, the invoice is
+   * reopened by the cash and any write-off, and the allocation's journal is reversed.
+   */
+  async reverseReceiptAllocation(allocationId: string, reason: string, reversedBy: string): Promise<ReceiptAllocation> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [allocation] = await tx
+        .select()
+        .from(receiptAllocations)
+        .where(eq(receiptAllocations.id, allocationId))
+        .for('update');
+      if (!allocation) {
+        throw new Error('Receipt allocation not found');
+      }
+      if (allocation.reversedAt) {
+        throw new Error('Receipt allocation has already been reversed');
+      }
+      // The reversal is posted today, like the allocation it undoes
+      await this.assertPeriodOpen(tx, 'sales', new Date());
+
+      const amount = Number(allocation.amount);
+      const writeOffAmount = Number(allocation.writeOffAmount);
+
+      const [receipt] = await tx
+        .select()
+        .from(receipts)
+        .where(eq(receipts.id, allocation.receiptId))
+        .for('update');
+      const [invoice] = await tx
+        .select()
+        .from(invoices)
+        .where(eq(invoices.id, allocation.invoiceId))
+        .for('update');
+
+      // The receipt keeps pointing at an invoice it still settles, if any
+      const [otherAllocation] = await tx
+        .select({ invoiceId: receiptAllocations.invoiceId })
+        .from(receiptAllocations)
+        .where(and(
+          eq(receiptAllocations.receiptId, receipt.id),
+          ne(receiptAllocations.id, allocation.id),
+          isNull(receiptAllocations.reversedAt)
+        ))
+        .orderBy(asc(receiptAllocations.createdAt))
+        .limit(1);
+
+      await tx
+        .update(receipts)
+        .set({
+          appliedAmount: amountDifference(Number(receipt.appliedAmount || 0), amount).toFixed(2),
+          status: receipt.status === 'cleared' && amount > 0 ? 'pending' : receipt.status,
+          invoiceId: receipt.invoiceId === allocation.invoiceId ? otherAllocation?.invoiceId ?? null : receipt.invoiceId,
+        })
+        .where(eq(receipts.id, receipt.id));
+
+      const paidAmount = amountDifference(Number(invoice.paidAmount || 0), amount, writeOffAmount);
+      await tx
+        .update(invoices)
+        .set({
+          paidAmount: paidAmount.toFixed(2),
+          writtenOffAmount: amountDifference(Number(invoice.writtenOffAmount || 0), writeOffAmount).toFixed(2),
+          status: this.invoiceStatusAfterSettlement(invoice, paidAmount),
+          updatedAt: new Date(),
+        })
+        .where(eq(invoices.id, invoice.id));
+
+      if (allocation.journalEntryId) {
+        const [entry] = await tx
+          .select()
+          .from(journalEntries)
+          .where(eq(journalEntries.id, allocation.journalEntryId));
+        if (entry?.status === 'posted') {
+          await this.reverseJournalInTx(tx, entry, reversedBy);
+        }
+      }
+
+      const [reversed] = await tx
+        .update(receiptAllocations)
+        .set({ reversedAt: new Date(), reversedBy, reversalReason: reason })
+        .where(eq(receiptAllocations.id, allocation.id))
+        .returning();
+      return reversed;
+    });
+  }
+
+  async getCustomerCreditBalances(customerId?: string): Promise<CustomerCreditBalance[]> {
+    const db = await getDb();
+    const rows = await db
+      .select({ receipt: receipts, customerName: customers.name })
+      .from(receipts)
+      .innerJoin(customers, eq(receipts.customerId, customers.id))
+      .where(and(
+        eq(receipts.status, 'pending'),
+        sql`${receipts.amount} > ${receipts.appliedAmount}`,
+        customerId ? eq(receipts.customerId, customerId) : undefined
+      ))
+      .orderBy(asc(customers.name), asc(receipts.createdAt));
+    if (rows.length === 0) return [];
+
+    const customerIds = Array.from(new Set(rows.map(row => row.receipt.customerId)));
+    const openInvoices = await db
+      .select()
+      .from(invoices)
+      .where(and(
+        inArray(invoices.customerId, customerIds),
+        inArray(invoices.status, ['sent', 'overdue']),
+        sql`${invoices.totalAmount} > ${invoices.paidAmount}`
+      ))
+      .orderBy(asc(invoices.dueDate), asc(invoices.invoiceDate), asc(invoices.invoiceNumber));
+
+    const balances = new Map<string, CustomerCreditBalance>();
+    for (const { receipt, customerName } of rows) {
+      let balance = balances.get(receipt.customerId);
+      if (!balance) {
+        const customerInvoices = openInvoices
+          .filter(invoice => invoice.customerId === receipt.customerId)
+          .map(invoice => ({
+            id: invoice.id,
+            invoiceNumber: invoice.invoiceNumber,
+            invoiceDate: invoice.invoiceDate,
+            dueDate: invoice.dueDate,
+            totalAmount: Number(invoice.totalAmount),
+            openAmount: amountDifference(Number(invoice.totalAmount), Number(invoice.paidAmount || 0)),
+          }));
+        balance = {
+          customerId: receipt.customerId,
+          customerName,
+          unappliedAmount: 0,
+          openInvoiceAmount: amountDifference(customerInvoices.reduce((sum, invoice) => sum + invoice.openAmount, 0)),
+          receipts: [],
+          openInvoices: customerInvoices,
+        };
+        balances.set(receipt.customerId, balance);
+      }
+      const unappliedAmount = amountDifference(Number(receipt.amount), Number(receipt.appliedAmount || 0));
+      balance.unappliedAmount = Math.round((balance.unappliedAmount + unappliedAmount) * 100) / 100;
+      balance.receipts.push({
+        id: receipt.id,
+        receiptNumber: receipt.receiptNumber,
+        createdAt: receipt.createdAt,
+        currency: receipt.currency,
+        amount: Number(receipt.amount),
+        unappliedAmount,
+      });
+    }
+    return Array.from(balances.values());
+  }
+
+  private async selectReceiptAllocations(db: any, where: SQL | undefined): Promise<ReceiptAllocationDetail[]> {
+    const rows = await db
+      .select({ allocation: receiptAllocations, invoiceNumber: invoices.invoiceNumber, receiptNumber: receipts.receiptNumber })
+      .from(receiptAllocations)
+      .innerJoin(invoices, eq(receiptAllocations.invoiceId, invoices.id))
+      .innerJoin(receipts, eq(receiptAllocations.receiptId, receipts.id))
+      .where(where)
+      .orderBy(desc(receiptAllocations.createdAt));
+    return rows.map((row: any) => ({ ...row.allocation, invoiceNumber: row.invoiceNumber, receiptNumber: row.receiptNumber }));
+  }
+
+  // Cash received is held against customer advances until it is applied to invoices
+  private async postReceiptCashJournal(tx: DbTx, receipt: Receipt, entryDate: string): Promise<Receipt> {
+    await this.assertPeriodOpen(tx, 'sales', entryDate);
+    const amount = Number(receipt.baseAmount ?? receipt.amount);
+    const journal = await this.postAutomaticJournal(tx, {
+      entryDate,
+      description: `Receipt ${receipt.receiptNumber} from customer`,
+      sourceType: 'receipt',
+      sourceId: receipt.id,
+      sourceReference: receipt.receiptNumber,
+      postedBy: receipt.receivedBy,
+    }, [
+      { account: paymentMethodGlAccount(receipt.paymentMethod), debit: amount },
+      { account: 'gl_account_customer_advances', credit: amount, customerId: receipt.customerId },
+    ]);
+    if (!journal) {
+      return receipt;
+    }
+    const [updated] = await tx
+      .update(receipts)
+      .set({ journalEntryId: journal.id })
+      .where(eq(receipts.id, receipt.id))
+      .returning();
+    return updated;
+  }
+
+  // Paid once nothing is left open; reopening a paid invoice puts it back to sent or overdue
+  private invoiceStatusAfterSettlement(invoice: Invoice, paidAmount: number): Invoice['status'] {
+    if (paidAmount >= Number(invoice.totalAmount || 0)) return 'paid';
+    if (invoice.status !== 'paid') return invoice.status;
+    return invoice.dueDate < new Date().toISOString().split('T')[0] ? 'overdue' : 'sent';
+  }
+
+  /**
+   * Apply cash from a receipt to one invoice, optionally writing off the short-paid rest
+   * of it. Posts cash (and the write-off) against the customer's receivable.
+   */
+  private async allocateReceiptInTx(
+    tx: DbTx,
+    receiptId: string,
+    invoiceId: string,
+    amount: number,
+    options: { writeOffAmount?: number; writeOffReason?: ReceiptAllocation['writeOffReason']; notes?: string; allocatedBy?: string } = {}
+  ): Promise<{ receipt: Receipt; invoice: Invoice; allocation: ReceiptAllocation }> {
+    const writeOffAmount = options.writeOffAmount ?? 0;
+    if (writeOffAmount > 0 && !options.writeOffReason) {
+      throw new Error('A write-off needs a reason');
+    }
+    await this.assertPeriodOpen(tx, 'sales', new Date());
+
+    // Validate receipt exists and is available for allocation
+    const [currentReceipt] = await tx
+      .select()
+      .from(receipts)
+      .where(eq(receipts.id, receiptId))
+      .for('update');
+    
+    if (!currentReceipt) {
+      throw new Error('Receipt not found');
+    }
+    
+    if (currentReceipt.status === 'bounced' || currentReceipt.status === 'cancelled') {
+      throw new Error(`Receipt ${currentReceipt.receiptNumber} is ${currentReceipt.status}`);
+    }
+
+    if (amount > 0 && currentReceipt.status === 'cleared') {
+      throw new Error('Receipt has already been allocated');
+    }
+    
+    const remainingAmount = amountDifference(Number(currentReceipt.amount), Number(currentReceipt.appliedAmount || 0));
+    if (amount > remainingAmount) {
+      throw new Error(`Allocation amount ${amount} exceeds remaining receipt amount ${remainingAmount}`);
+    }
+    
+    // Validate invoice exists and still has that much open
+    const [currentInvoice] = await tx
+      .select()
+      .from(invoices)
+      .where(eq(invoices.id, invoiceId))
+      .for('update');
+    
+    if (!currentInvoice) {
+      throw new Error('Invoice not found');
+    }
+
+    if (currentInvoice.customerId !== currentReceipt.customerId) {
+      throw new Error(`Invoice ${currentInvoice.invoiceNumber} belongs to another customer`);
+    }
+
+    if (currentInvoice.status === 'draft' || currentInvoice.status === 'cancelled') {
+      throw new Error(`Invoice ${currentInvoice.invoiceNumber} is ${currentInvoice.status} and cannot be settled`);
+    }
+
+    if (currentReceipt.currency !== currentInvoice.currency) {
+      throw new Error(`Receipt ${currentReceipt.receiptNumber} is in ${currentReceipt.currency} but invoice ${currentInvoice.invoiceNumber} is in ${currentInvoice.currency}`);
+    }
+
+    const openAmount = amountDifference(Number(currentInvoice.totalAmount || 0), Number(currentInvoice.paidAmount || 0));
+    if (amountDifference(openAmount, amount, writeOffAmount) < 0) {
+      throw new Error(`Invoice ${currentInvoice.invoiceNumber} has only ${openAmount.toFixed(2)} open`);
+    }
+    
+    // Update receipt
+    const appliedAmount = amountDifference(Number(currentReceipt.appliedAmount || 0), -amount);
+    const [receipt] = await tx
+      .update(receipts)
+      .set({ 
+        invoiceId: currentReceipt.invoiceId ?? invoiceId,
+        appliedAmount: appliedAmount.toFixed(2),
+        status: appliedAmount >= Number(currentReceipt.amount) ? 'cleared' : 'pending'
+      })
+      .where(eq(receipts.id, receiptId))
+      .returning();
+
+    // Update invoice paid amount and status; write-offs settle the invoice like cash
+    const paidAmount = amountDifference(Number(currentInvoice.paidAmount || 0), -amount, -writeOffAmount);
+    const [invoice] = await tx
+      .update(invoices)
+      .set({ 
+        paidAmount: paidAmount.toFixed(2),
+        writtenOffAmount: amountDifference(Number(currentInvoice.writtenOffAmount || 0), -writeOffAmount).toFixed(2),
+        status: this.invoiceStatusAfterSettlement(currentInvoice, paidAmount),
+        updatedAt: new Date()
+      })
+      .where(eq(invoices.id, invoiceId))
+      .returning();
+
+    // Cash comes in at the receipt's rate and clears the receivable at the invoice's rate;
+    // the difference is realized exchange gain or loss
+    const cashBase = toBaseAmount(amount, Number(currentReceipt.fxRate || 1));
+    const settledBase = toBaseAmount(amount, Number(currentInvoice.fxRate || 1));
+    const writeOffBase = toBaseAmount(writeOffAmount, Number(currentInvoice.fxRate || 1));
+    const realizedFx = amountDifference(cashBase, settledBase);
+
+    const journal = await this.postAutomaticJournal(tx, {
+      entryDate: new Date().toISOString().split('T')[0],
+      description: writeOffAmount > 0
+        ? `Receipt ${currentReceipt.receiptNumber} applied to invoice ${currentInvoice.invoiceNumber}, ${writeOffAmount.toFixed(2)} written off (${options.writeOffReason})`
+        : `Receipt ${currentReceipt.receiptNumber} applied to invoice ${currentInvoice.invoiceNumber}`,
+      sourceType: 'receipt',
+      sourceId: receiptId,
+      sourceReference: currentReceipt.receiptNumber,
+      postedBy: options.allocatedBy ?? currentReceipt.receivedBy,
+    }, [
+      // The cash was held as a customer advance when received; older receipts bring it in now
+      currentReceipt.journalEntryId
+        ? { account: 'gl_account_customer_advances', debit: cashBase, customerId: currentInvoice.customerId }
+        : { account: paymentMethodGlAccount(currentReceipt.paymentMethod), debit: cashBase },
+      { account: 'gl_account_receivable_write_off', debit: writeOffBase },
+      { account: 'gl_account_receivable', credit: amountDifference(settledBase, -writeOffBase), customerId: currentInvoice.customerId },
+      { account: 'gl_account_fx_gain', credit: Math.max(realizedFx, 0) },
+      { account: 'gl_account_fx_loss', debit: Math.max(-realizedFx, 0) },
+    ]);
+
+    const [allocation] = await tx
+      .insert(receiptAllocations)
+      .values({
+        receiptId,
+        invoiceId,
+        amount: amount.toFixed(2),
+        writeOffAmount: writeOffAmount.toFixed(2),
+        writeOffReason: writeOffAmount > 0 ? options.writeOffReason : null,
+        realizedFxAmount: realizedFx.toFixed(2),
+        notes: options.notes,
+        journalEntryId: journal?.id,
+        allocatedBy: options.allocatedBy ?? currentReceipt.receivedBy,
+      })
+      .returning();
+
+    return { receipt, invoice, allocation };
+  }
+
+  // CRM Module - Commission operations
+  async getCommissionEntries(salesRepId?: string, status?: string, limit = 100, startDate?: string, endDate?: string): Promise<(CommissionEntry & { invoice: Invoice; salesRep: User; approver?: User })[]> {
+    const db = await getDb();
+    
+    const dateFilter = and(
+      startDate ? gte(commissionEntries.createdAt, new Date(startDate)) : sql`true`,
+      endDate ? lte(commissionEntries.createdAt, new Date(endDate)) : sql`true`
+    );
+
+    return await db
+      .select({
+        commission: commissionEntries,
+        invoice: invoices,
+        salesRep: users,
+        approver: sql<User>`approver_user.*`.as('approver'),
+      })
+      .from(commissionEntries)
+      .leftJoin(invoices, eq(commissionEntries.invoiceId, invoices.id))
+      .leftJoin(users, eq(commissionEntries.salesRepId, users.id))
+      .leftJoin(sql`users AS approver_user`, sql`${commissionEntries.approvedBy} = approver_user.id`)
+      .where(
+        and(
+          salesRepId ? eq(commissionEntries.salesRepId, salesRepId) : sql`true`,
+          status ? sql`${commissionEntries.status} = ${status}` : sql`true`,
+          dateFilter
+        )
+      )
+      .limit(limit)
+      .orderBy(desc(commissionEntries.createdAt))
+      .then(rows => rows.map(row => ({
+        ...row.commission,
+        invoice: row.invoice!,
+        salesRep: row.salesRep!,
+        approver: row.approver || undefined,
+      })));
+  }
+
+  async getCommissionEntry(id: string): Promise<(CommissionEntry & { invoice: Invoice; salesRep: User; approver?: User }) | undefined> {
+    const db = await getDb();
+    const [row] = await db
+      .select({
+        commission: commissionEntries,
+        invoice: invoices,
+        salesRep: users,
+        approver: sql<User>`approver_user.*`.as('approver'),
+      })
+      .from(commissionEntries)
+      .leftJoin(invoices, eq(commissionEntries.invoiceId, invoices.id))
+      .leftJoin(users, eq(commissionEntries.salesRepId, users.id))
+      .leftJoin(sql`users AS approver_user`, sql`${commissionEntries.approvedBy} = approver_user.id`)
+      .where(eq(commissionEntries.id, id));
+
+    if (!row) return undefined;
+
+    return {
+      ...row.commission,
+      invoice: row.invoice!,
+      salesRep: row.salesRep!,
+      approver: row.approver || undefined,
+    };
+  }
+
+  async createCommissionEntry(commissionData: InsertCommissionEntry): Promise<CommissionEntry> {
+    const db = await getDb();
+    const [commission] = await db.insert(commissionEntries).values(commissionData).returning();
+    return commission;
+  }
+
+  async updateCommissionEntry(id: string, commissionData: Partial<InsertCommissionEntry>): Promise<CommissionEntry> {
+    const db = await getDb();
+    const [commission] = await db
+      .update(commissionEntries)
+      .set(commissionData)
+      .where(eq(commissionEntries.id, id))
+      .returning();
+    return commission;
+  }
+
+  async approveCommission(id: string, approverId: string): Promise<CommissionEntry> {
+    const db = await getDb();
+    const [commission] = await db
+      .update(commissionEntries)
+      .set({ 
+        status: 'approved',
+        approvedBy: approverId,
+        approvedAt: new Date()
+      })
+      .where(eq(commissionEntries.id, id))
+      .returning();
+    return commission;
+  }
+
+  async getSalesRepCommissionSummary(salesRepId: string, startDate?: string, endDate?: string): Promise<{
+    totalAccrued: number;
+    totalApproved: number;
+    totalPaid: number;
+    entries: (CommissionEntry & { invoice: Invoice })[];
+  }> {
+    const db = await getDb();
+    
+    const dateFilter = and(
+      startDate ? gte(commissionEntries.createdAt, new Date(startDate)) : sql`true`,
+      endDate ? lte(commissionEntries.createdAt, new Date(endDate)) : sql`true`
+    );
+
+    const entries = await db
+      .select({
+        commission: commissionEntries,
+        invoice: invoices,
+      })
+      .from(commissionEntries)
+      .leftJoin(invoices, eq(commissionEntries.invoiceId, invoices.id))
+      .where(and(eq(commissionEntries.salesRepId, salesRepId), dateFilter))
+      .orderBy(desc(commissionEntries.createdAt));
+
+    const totals = entries.reduce((acc, entry) => {
+      const amount = parseFloat(entry.commission.commissionAmount);
+      if (entry.commission.status === 'accrued') acc.totalAccrued += amount;
+      if (entry.commission.status === 'approved') acc.totalApproved += amount;
+      if (entry.commission.status === 'paid') acc.totalPaid += amount;
+      return acc;
+    }, { totalAccrued: 0, totalApproved: 0, totalPaid: 0 });
+
+    return {
+      ...totals,
+      entries: entries.map(row => ({ ...row.commission, invoice: row.invoice! })),
+    };
+  }
+
+  async markCommissionAsPaid(id: string): Promise<CommissionEntry> {
+    const db = await getDb();
+    const [commission] = await db
+      .update(commissionEntries)
+      .set({ 
+        status: 'paid',
+        paidAt: new Date()
+      })
+      .where(eq(commissionEntries.id, id))
+      .returning();
+    return commission;
+  }
+
+  async updateCommissionNotes(id: string, notes?: string): Promise<CommissionEntry> {
+    const db = await getDb();
+    const [commission] = await db
+      .update(commissionEntries)
+      .set({ notes })
+      .where(eq(commissionEntries.id, id))
+      .returning();
+    return commission;
+  }
+
+  async getCommissionEntriesForExport(filters: {
+    salesRepId?: string;
+    status?: string;
+    startDate?: string;
+    endDate?: string;
+  }): Promise<(CommissionEntry & { 
+    invoice: Invoice & { customer: Customer }; 
+    salesRep: User; 
+    approver?: User 
+  })[]> {
+    const db = await getDb();
+    
+    const dateFilter = and(
+      filters.startDate ? gte(commissionEntries.createdAt, new Date(filters.startDate)) : sql`true`,
+      filters.endDate ? lte(commissionEntries.createdAt, new Date(filters.endDate)) : sql`true`
+    );
+
+    const rows = await db
+      .select({
+        commission: commissionEntries,
+        invoice: invoices,
+        customer: customers,
+        salesRep: users,
+        approver: sql<User>`approver_user.*`.as('approver'),
+      })
+      .from(commissionEntries)
+      .leftJoin(invoices, eq(commissionEntries.invoiceId, invoices.id))
+      .leftJoin(customers, eq(invoices.customerId, customers.id))
+      .leftJoin(users, eq(commissionEntries.salesRepId, users.id))
+      .leftJoin(sql`users AS approver_user`, sql`${commissionEntries.approvedBy} = approver_user.id`)
+      .where(
+        and(
+          filters.salesRepId ? eq(commissionEntries.salesRepId, filters.salesRepId) : sql`true`,
+          filters.status ? sql`${commissionEntries.status} = ${filters.status}` : sql`true`,
+          dateFilter
+        )
+      )
+      .orderBy(desc(commissionEntries.createdAt));
+
+    return rows.map(row => ({
+      ...row.commission,
+      invoice: { ...row.invoice!, customer: row.customer! },
+      salesRep: row.salesRep!,
+      approver: row.approver || undefined,
+    }));
+  }
+
+  async bulkCommissionActions(
+    commissionIds: string[], 
+    action: 'approve' | 'mark-paid' | 'cancel',
+    userId: string,
+    notes?: string
+  ): Promise<{ success: string[]; failed: { id: string; error: string }[] }> {
+    const db = await getDb();
+    const results: { success: string[]; failed: { id: string; error: string }[] } = { success: [], failed: [] };
+    
+    for (const commissionId of commissionIds) {
+      try {
+        let updateData: any = {};
+        
+        switch (action) {
+          case 'approve':
+            updateData = {
+              status: 'approved',
+              approvedBy: userId,
+              approvedAt: new Date(),
+              ...(notes && { notes })
+            };
+            break;
+          case 'mark-paid':
+            updateData = {
+              status: 'paid',
+              paidAt: new Date(),
+              ...(notes && { notes })
+            };
+            break;
+          case 'cancel':
+            updateData = {
+              status: 'cancelled',
+              ...(notes && { notes })
+            };
+            break;
+        }
+        
+        await db
+          .update(commissionEntries)
+          .set(updateData)
+          .where(eq(commissionEntries.id, commissionId));
+          
+        results.success.push(commissionId);
+      } catch (error) {
+        results.failed.push({
+          id: commissionId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+    
+    return results;
+  }
+
+  // CRM Module - Credit Override operations
+  async getCreditOverrides(customerId?: string, status?: string, limit = 100): Promise<(CreditOverride & { customer: Customer; requester: User; approver?: User; invoice?: Invoice })[]> {
+    const db = await getDb();
+    return await db
+      .select({
+        override: creditOverrides,
+        customer: customers,
+        requester: users,
+        approver: sql<User>`approver_user.*`.as('approver'),
+        invoice: invoices,
+      })
+      .from(creditOverrides)
+      .leftJoin(customers, eq(creditOverrides.customerId, customers.id))
+      .leftJoin(users, eq(creditOverrides.requestedBy, users.id))
+      .leftJoin(sql`users AS approver_user`, sql`${creditOverrides.approvedBy} = approver_user.id`)
+      .leftJoin(invoices, eq(creditOverrides.invoiceId, invoices.id))
+      .where(
+        and(
+          customerId ? eq(creditOverrides.customerId, customerId) : sql`true`,
+          status ? sql`${creditOverrides.status} = ${status}` : sql`true`
+        )
+      )
+      .limit(limit)
+      .orderBy(desc(creditOverrides.createdAt))
+      .then(rows => rows.map(row => ({
+        ...row.override,
+        customer: row.customer!,
+        requester: row.requester!,
+        approver: row.approver || undefined,
+        invoice: row.invoice || undefined,
+      })));
+  }
+
+  async getCreditOverride(id: string): Promise<(CreditOverride & { customer: Customer; requester: User; approver?: User; invoice?: Invoice }) | undefined> {
+    const db = await getDb();
+    const [row] = await db
+      .select({
+        override: creditOverrides,
+        customer: customers,
+        requester: users,
+        approver: sql<User>`approver_user.*`.as('approver'),
+        invoice: invoices,
+      })
+      .from(creditOverrides)
+      .leftJoin(customers, eq(creditOverrides.customerId, customers.id))
+      .leftJoin(users, eq(creditOverrides.requestedBy, users.id))
+      .leftJoin(sql`users AS approver_user`, sql`${creditOverrides.approvedBy} = approver_user.id`)
+      .leftJoin(invoices, eq(creditOverrides.invoiceId, invoices.id))
+      .where(eq(creditOverrides.id, id));
+
+    if (!row) return undefined;
+
+    return {
+      ...row.override,
+      customer: row.customer!,
+      requester: row.requester!,
+      approver: row.approver || undefined,
+      invoice: row.invoice || undefined,
+    };
+  }
+
+  async createCreditOverride(overrideData: InsertCreditOverride): Promise<CreditOverride> {
+    const db = await getDb();
+    const [override] = await db.insert(creditOverrides).values(overrideData).returning();
+    return override;
+  }
+
+  async updateCreditOverride(id: string, overrideData: Partial<InsertCreditOverride>): Promise<CreditOverride> {
+    const db = await getDb();
+    const [override] = await db
+      .update(creditOverrides)
+      .set(overrideData)
+      .where(eq(creditOverrides.id, id))
+      .returning();
+    return override;
+  }
+
+  async approveCreditOverride(id: string, approverId: string, approvedAmount: number): Promise<CreditOverride> {
+    const db = await getDb();
+    const [override] = await db
+      .update(creditOverrides)
+      .set({ 
+        status: 'approved',
+        approvedBy: approverId,
+        approvedAmount: String(approvedAmount),
+        approvedAt: new Date()
+      })
+      .where(eq(creditOverrides.id, id))
+      .returning();
+    return override;
+  }
+
+  async checkCustomerCredit(customerId: string, newOrderAmount: number): Promise<{
+    creditLimit: number;
+    outstandingAmount: number;
+    availableCredit: number;
+    canProceed: boolean;
+    requiresOverride: boolean;
+    dunningLevel: number;
+    creditHold: boolean;
+  }> {
+    const db = await getDb();
+    
+    // Get customer credit limit
+    const [customer] = await db
+      .select({ creditLimit: customers.creditLimit })
+      .from(customers)
+      .where(eq(customers.id, customerId));
+
+    if (!customer) throw new Error("Customer not found");
+
+    // Calculate outstanding amount
+    const [outstandingResult] = await db
+      .select({
+        outstanding: sql<number>`COALESCE(SUM(${invoices.totalAmount} - ${invoices.paidAmount}), 0)`.as('outstanding')
+      })
+      .from(invoices)
+      .where(and(
+        eq(invoices.customerId, customerId),
+        sql`${invoices.status} != 'paid'`
+      ));
+
+    const creditLimit = parseFloat(customer.creditLimit || '0');
+    const outstandingAmount = outstandingResult?.outstanding || 0;
+    const availableCredit = creditLimit - outstandingAmount;
+
+    // A customer on dunning credit hold is blocked outright; an override cannot lift it
+    const dunning = (await this.getCustomerDunningStatus(db, customerId)).get(customerId);
+    const creditHold = dunning?.creditHold ?? false;
+    const canProceed = !creditHold && availableCredit >= newOrderAmount;
+    const requiresOverride = !canProceed && !creditHold && creditLimit > 0;
+
+    return {
+      creditLimit,
+      outstandingAmount,
+      availableCredit,
+      canProceed,
+      requiresOverride,
+      dunningLevel: dunning?.level ?? 0,
+      creditHold,
+    };
+  }
+
+  // CRM Module - Lead operations
+  async getLeads(limit = 100, status?: string, assignedTo?: string): Promise<(Lead & { assignee?: User; campaign?: any; communications: Communication[] })[]> {
+    const db = await getDb();
+    const leadData = await db
+      .select({
+        lead: leads,
+        assignee: users,
+      })
+      .from(leads)
+      .leftJoin(users, eq(leads.assignedTo, users.id))
+      .where(
+        and(
+          eq(leads.isActive, true),
+          status ? sql`${leads.leadStatus} = ${status}` : sql`true`,
+          assignedTo ? eq(leads.assignedTo, assignedTo) : sql`true`
+        )
+      )
+      .limit(limit)
+      .orderBy(desc(leads.createdAt));
+
+    const leadsWithCommunications = await Promise.all(
+      leadData.map(async (row) => {
+        const comms = await db
+          .select()
+          .from(communications)
+          .where(eq(communications.leadId, row.lead.id))
+          .orderBy(desc(communications.createdAt));
+
+        return {
+          ...row.lead,
+          assignee: row.assignee || undefined,
+          campaign: undefined, // TODO: Add campaign data if needed
+          communications: comms,
+        };
+      })
+    );
+
+    return leadsWithCommunications;
+  }
+
+  async getLead(id: string): Promise<(Lead & { assignee?: User; campaign?: any; communications: Communication[] }) | undefined> {
+    const db = await getDb();
+    const [leadData] = await db
+      .select({
+        lead: leads,
+        assignee: users,
+      })
+      .from(leads)
+      .leftJoin(users, eq(leads.assignedTo, users.id))
+      .where(eq(leads.id, id));
+
+    if (!leadData) return undefined;
+
+    const comms = await db
+      .select()
+      .from(communications)
+      .where(eq(communications.leadId, id))
+      .orderBy(desc(communications.createdAt));
+
+    return {
+      ...leadData.lead,
+      assignee: leadData.assignee || undefined,
+      campaign: undefined, // TODO: Add campaign data if needed
+      communications: comms,
+    };
+  }
+
+  async createLead(leadData: InsertLead): Promise<Lead> {
+    const db = await getDb();
+    const [lead] = await db.insert(leads).values(leadData).returning();
+    return lead;
+  }
+
+  async updateLead(id: string, leadData: Partial<InsertLead>): Promise<Lead> {
+    const db = await getDb();
+    const [lead] = await db
+      .update(leads)
+      .set({ ...leadData, updatedAt: new Date() })
+      .where(eq(leads.id, id))
+      .returning();
+    return lead;
+  }
+
+  async deleteLead(id: string): Promise<void> {
+    const db = await getDb();
+    await db.update(leads).set({ isActive: false }).where(eq(leads.id, id));
+  }
+
+  async convertLeadToCustomer(leadId: string, customerData: InsertCustomer): Promise<{ lead: Lead; customer: Customer }> {
+    const db = await getDb();
+    
+    // Create customer
+    const [customer] = await db.insert(customers).values(customerData).returning();
+    
+    // Update lead
+    const [lead] = await db
+      .update(leads)
+      .set({ 
+        leadStatus: 'converted',
+        convertedAt: new Date(),
+        convertedToCustomerId: customer.id,
+        updatedAt: new Date()
+      })
+      .where(eq(leads.id, leadId))
+      .returning();
+
+    return { lead, customer };
+  }
+
+  // CRM Module - Lead Communication operations
+  async getLeadCommunications(leadId: string, limit = 50): Promise<(Communication & { user: User })[]> {
+    const db = await getDb();
+    return await db
+      .select({
+        communication: communications,
+        user: users,
+      })
+      .from(communications)
+      .leftJoin(users, eq(communications.userId, users.id))
+      .where(eq(communications.leadId, leadId))
+      .limit(limit)
+      .orderBy(desc(communications.createdAt))
+      .then(rows => rows.map(row => ({
+        ...row.communication,
+        user: row.user!,
+      })));
+  }
+
+  async createLeadCommunication(communicationData: InsertCommunication): Promise<Communication> {
+    const db = await getDb();
+    const [communication] = await db.insert(communications).values(communicationData).returning();
+    return communication;
+  }
+
+  async updateLeadCommunication(id: string, communicationData: Partial<InsertCommunication>): Promise<Communication> {
+    const db = await getDb();
+    const [communication] = await db
+      .update(communications)
+      .set(communicationData)
+      .where(eq(communications.id, id))
+      .returning();
+    return communication;
+  }
+
+  // CRM Module - General Communication operations
+  async getCommunication(id: string): Promise<Communication | undefined> {
+    const db = await getDb();
+    const [communication] = await db
+      .select()
+      .from(communications)
+      .where(eq(communications.id, id))
+      .limit(1);
+    return communication;
+  }
+
+  async getCustomerCommunications(customerId: string, limit = 50): Promise<Communication[]> {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(communications)
+      .where(eq(communications.customerId, customerId))
+      .limit(limit)
+      .orderBy(desc(communications.createdAt));
+  }
+
+  // Sentiment Analysis operations
+  async upsertSentiment(sentimentData: InsertSentimentAnalysis): Promise<SentimentAnalysis> {
+    const db = await getDb();
+    
+    // Check if sentiment analysis already exists for this communication
+    const existing = await db
+      .select()
+      .from(sentimentAnalyses)
+      .where(eq(sentimentAnalyses.communicationId, sentimentData.communicationId))
+      .limit(1);
+    
+    if (existing.length > 0) {
+      // Update existing
+      const [sentiment] = await db
+        .update(sentimentAnalyses)
+        .set({
+          ...sentimentData,
+          analyzedAt: new Date()
+        })
+        .where(eq(sentimentAnalyses.communicationId, sentimentData.communicationId))
+        .returning();
+      return sentiment;
+    } else {
+      // Insert new
+      const [sentiment] = await db.insert(sentimentAnalyses).values(sentimentData).returning();
+      return sentiment;
+    }
+  }
+
+  async getSentimentByCommunication(communicationId: string): Promise<SentimentAnalysis | undefined> {
+    const db = await getDb();
+    const [sentiment] = await db
+      .select()
+      .from(sentimentAnalyses)
+      .where(eq(sentimentAnalyses.communicationId, communicationId))
+      .limit(1);
+    return sentiment;
+  }
+
+  async listSentimentsByCustomer(customerId: string, limit = 50): Promise<(SentimentAnalysis & { communication: Communication })[]> {
+    const db = await getDb();
+    return await db
+      .select({
+        sentiment: sentimentAnalyses,
+        communication: communications,
+      })
+      .from(sentimentAnalyses)
+      .leftJoin(communications, eq(sentimentAnalyses.communicationId, communications.id))
+      .where(eq(sentimentAnalyses.customerId, customerId))
+      .limit(limit)
+      .orderBy(desc(sentimentAnalyses.analyzedAt))
+      .then(rows => rows.map(row => ({
+        ...row.sentiment,
+        communication: row.communication!,
+      })));
+  }
+
+  async getCustomerSentimentSummary(customerId: string): Promise<{
+    totalCommunications: number;
+    averageScore: number;
+    sentimentDistribution: { negative: number; neutral: number; positive: number };
+    recentTrend: 'improving' | 'declining' | 'stable';
+    lastAnalyzedAt: Date | null;
+  }> {
+    const db = await getDb();
+    
+    // Get overall metrics
+    const [metrics] = await db
+      .select({
+        totalCommunications: sql<number>`COUNT(*)`.as('totalCommunications'),
+        averageScore: sql<number>`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`.as('averageScore'),
+        negativeCount: sql<number>`COUNT(CASE WHEN ${sentimentAnalyses.label} = 'negative' THEN 1 END)`.as('negativeCount'),
+        neutralCount: sql<number>`COUNT(CASE WHEN ${sentimentAnalyses.label} = 'neutral' THEN 1 END)`.as('neutralCount'),
+        positiveCount: sql<number>`COUNT(CASE WHEN ${sentimentAnalyses.label} = 'positive' THEN 1 END)`.as('positiveCount'),
+        lastAnalyzedAt: sql<Date>`MAX(${sentimentAnalyses.analyzedAt})`.as('lastAnalyzedAt'),
+      })
+      .from(sentimentAnalyses)
+      .where(eq(sentimentAnalyses.customerId, customerId));
+
+    // Get recent trend (compare last 30 days vs previous 30 days)
+    const thirtyDaysAgo = new Date();
+    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+    const sixtyDaysAgo = new Date();
+    sixtyDaysAgo.setDate(sixtyDaysAgo.getDate() - 60);
+
+    const [recentAvg] = await db
+      .select({
+        avgScore: sql<number>`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`.as('avgScore'),
+      })
+      .from(sentimentAnalyses)
+      .where(and(
+        eq(sentimentAnalyses.customerId, customerId),
+        gte(sentimentAnalyses.analyzedAt, thirtyDaysAgo)
+      ));
+
+    const [previousAvg] = await db
+      .select({
+        avgScore: sql<number>`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`.as('avgScore'),
+      })
+      .from(sentimentAnalyses)
+      .where(and(
+        eq(sentimentAnalyses.customerId, customerId),
+        gte(sentimentAnalyses.analyzedAt, sixtyDaysAgo),
+        lte(sentimentAnalyses.analyzedAt, thirtyDaysAgo)
+      ));
+
+    // Determine trend
+    let recentTrend: 'improving' | 'declining' | 'stable' = 'stable';
+    if (recentAvg?.avgScore && previousAvg?.avgScore) {
+      const difference = recentAvg.avgScore - previousAvg.avgScore;
+      if (difference > 0.1) recentTrend = 'improving';
+      else if (difference < -0.1) recentTrend = 'declining';
+    }
+
+    return {
+      totalCommunications: metrics?.totalCommunications || 0,
+      averageScore: metrics?.averageScore || 0,
+      sentimentDistribution: {
+        negative: metrics?.negativeCount || 0,
+        neutral: metrics?.neutralCount || 0,
+        positive: metrics?.positiveCount || 0,
+      },
+      recentTrend,
+      lastAnalyzedAt: metrics?.lastAnalyzedAt || null,
+    };
+  }
+
+  async getGlobalSentimentSummary(): Promise<{
+    totalCommunications: number;
+    averageScore: number;
+    sentimentDistribution: { negative: number; neutral: number; positive: number };
+    topNegativeCustomers: { customerId: string; customerName: string; averageScore: number }[];
+    topPositiveCustomers: { customerId: string; customerName: string; averageScore: number }[];
+  }> {
+    const db = await getDb();
+    
+    // Get overall metrics
+    const [metrics] = await db
+      .select({
+        totalCommunications: sql<number>`COUNT(*)`.as('totalCommunications'),
+        averageScore: sql<number>`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`.as('averageScore'),
+        negativeCount: sql<number>`COUNT(CASE WHEN ${sentimentAnalyses.label} = 'negative' THEN 1 END)`.as('negativeCount'),
+        neutralCount: sql<number>`COUNT(CASE WHEN ${sentimentAnalyses.label} = 'neutral' THEN 1 END)`.as('neutralCount'),
+        positiveCount: sql<number>`COUNT(CASE WHEN ${sentimentAnalyses.label} = 'positive' THEN 1 END)`.as('positiveCount'),
+      })
+      .from(sentimentAnalyses);
+
+    // Get top negative customers
+    const topNegativeCustomers = await db
+      .select({
+        customerId: sentimentAnalyses.customerId,
+        customerName: customers.name,
+        averageScore: sql<number>`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`.as('averageScore'),
+      })
+      .from(sentimentAnalyses)
+      .leftJoin(customers, eq(sentimentAnalyses.customerId, customers.id))
+      .groupBy(sentimentAnalyses.customerId, customers.name)
+      .having(sql`COUNT(*) >= 3`) // At least 3 communications
+      .orderBy(asc(sql`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`))
+      .limit(5);
+
+    // Get top positive customers
+    const topPositiveCustomers = await db
+      .select({
+        customerId: sentimentAnalyses.customerId,
+        customerName: customers.name,
+        averageScore: sql<number>`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`.as('averageScore'),
+      })
+      .from(sentimentAnalyses)
+      .leftJoin(customers, eq(sentimentAnalyses.customerId, customers.id))
+      .groupBy(sentimentAnalyses.customerId, customers.name)
+      .having(sql`COUNT(*) >= 3`) // At least 3 communications
+      .orderBy(desc(sql`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`))
+      .limit(5);
+
+    return {
+      totalCommunications: metrics?.totalCommunications || 0,
+      averageScore: metrics?.averageScore || 0,
+      sentimentDistribution: {
+        negative: metrics?.negativeCount || 0,
+        neutral: metrics?.neutralCount || 0,
+        positive: metrics?.positiveCount || 0,
+      },
+      topNegativeCustomers: topNegativeCustomers.map(row => ({
+        customerId: row.customerId,
+        customerName: row.customerName || 'Unknown Customer',
+        averageScore: row.averageScore || 0,
+      })),
+      topPositiveCustomers: topPositiveCustomers.map(row => ({
+        customerId: row.customerId,
+        customerName: row.customerName || 'Unknown Customer',
+        averageScore: row.averageScore || 0,
+      })),
+    };
+  }
+
+  // Enhanced Dashboard metrics for CRM
+  async getCrmDashboardMetrics(): Promise<{
+    totalQuotations: number;
+    pendingQuotations: number;
+    quotationValue: number;
+    conversionRate: number;
+    totalLeads: number;
+    qualifiedLeads: number;
+    totalCommissions: number;
+    outstandingReceipts: number;
+    creditOverridesPending: number;
+  }> {
+    const db = await getDb();
+
+    // Get quotation metrics
+    const [quotationMetrics] = await db
+      .select({
+        totalQuotations: sql<number>`COUNT(*)`.as('totalQuotations'),
+        pendingQuotations: sql<number>`COUNT(CASE WHEN status IN ('draft', 'sent') THEN 1 END)`.as('pendingQuotations'),
+        quotationValue: sql<number>`COALESCE(SUM(${quotations.totalAmount}), 0)`.as('quotationValue'),
+        acceptedQuotations: sql<number>`COUNT(CASE WHEN status = 'accepted' THEN 1 END)`.as('acceptedQuotations'),
+      })
+      .from(quotations);
+
+    // Get lead metrics
+    const [leadMetrics] = await db
+      .select({
+        totalLeads: sql<number>`COUNT(*)`.as('totalLeads'),
+        qualifiedLeads: sql<number>`COUNT(CASE WHEN lead_status IN ('qualified', 'converted') THEN 1 END)`.as('qualifiedLeads'),
+      })
+      .from(leads)
+      .where(eq(leads.isActive, true));
+
+    // Get commission metrics
+    const [commissionMetrics] = await db
+      .select({
+        totalCommissions: sql<number>`COALESCE(SUM(${commissionEntries.commissionAmount}), 0)`.as('totalCommissions'),
+      })
+      .from(commissionEntries)
+      .where(eq(commissionEntries.status, 'accrued'));
+
+    // Get receipt metrics
+    const [receiptMetrics] = await db
+      .select({
+        outstandingReceipts: sql<number>`COALESCE(SUM(${receipts.amount} - ${receipts.appliedAmount}), 0)`.as('outstandingReceipts'),
+      })
+      .from(receipts)
+      .where(eq(receipts.status, 'pending'));
+
+    // Get credit override metrics
+    const [creditMetrics] = await db
+      .select({
+        creditOverridesPending: sql<number>`COUNT(*)`.as('creditOverridesPending'),
+      })
+      .from(creditOverrides)
+      .where(eq(creditOverrides.status, 'pending'));
+
+    const totalQuotations = quotationMetrics?.totalQuotations || 0;
+    const acceptedQuotations = quotationMetrics?.acceptedQuotations || 0;
+    const conversionRate = totalQuotations > 0 ? (acceptedQuotations / totalQuotations) * 100 : 0;
+
+    return {
+      totalQuotations: totalQuotations,
+      pendingQuotations: quotationMetrics?.pendingQuotations || 0,
+      quotationValue: parseFloat(quotationMetrics?.quotationValue?.toString() || '0'),
+      conversionRate: Math.round(conversionRate * 100) / 100,
+      totalLeads: leadMetrics?.totalLeads || 0,
+      qualifiedLeads: leadMetrics?.qualifiedLeads || 0,
+      totalCommissions: parseFloat(commissionMetrics?.totalCommissions?.toString() || '0'),
+      outstandingReceipts: parseFloat(receiptMetrics?.outstandingReceipts?.toString() || '0'),
+      creditOverridesPending: creditMetrics?.creditOverridesPending || 0,
+    };
+  }
+
+  // Enhanced Purchase Module Operations Implementation
+  
+  // Purchase Request operations
+  async getPurchaseRequests(limit = 50, status?: string, requesterId?: string): Promise<(PurchaseRequest & { requester: User; supplier?: Supplier; items: (PurchaseRequestItem & { product: Product })[] })[]> {
+    const db = await getDb();
+    
+    let conditions = [];
+    if (status) conditions.push(eq(purchaseRequests.status, status as any));
+    if (requesterId) conditions.push(eq(purchaseRequests.requesterId, requesterId));
+    
+    const prs = await db
+      .select({
+        pr: purchaseRequests,
+        requester: users,
+        supplier: suppliers,
+      })
+      .from(purchaseRequests)
+      .leftJoin(users, eq(purchaseRequests.requesterId, users.id))
+      .leftJoin(suppliers, eq(purchaseRequests.supplierId, suppliers.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .limit(limit)
+      .orderBy(desc(purchaseRequests.createdAt));
+
+    // Get items for each PR
+    const results = [];
+    for (const pr of prs) {
+      const items = await db
+        .select({
+          item: purchaseRequestItems,
+          product: products,
+        })
+        .from(purchaseRequestItems)
+        .innerJoin(products, eq(purchaseRequestItems.productId, products.id))
+        .where(eq(purchaseRequestItems.prId, pr.pr.id));
+      
+      results.push({ 
+        ...pr.pr, 
+        requester: pr.requester!, 
+        supplier: pr.supplier || undefined,
+        items: items.map(item => ({ ...item.item, product: item.product }))
+      });
+    }
+    
+    return results;
+  }
+
+  async getPurchaseRequest(id: string): Promise<(PurchaseRequest & { requester: User; supplier?: Supplier; items: (PurchaseRequestItem & { product: Product })[] }) | undefined> {
+    const db = await getDb();
+    
+    const [pr] = await db
+      .select({
+        pr: purchaseRequests,
+        requester: users,
+        supplier: suppliers,
+      })
+      .from(purchaseRequests)
+      .leftJoin(users, eq(purchaseRequests.requesterId, users.id))
+      .leftJoin(suppliers, eq(purchaseRequests.supplierId, suppliers.id))
+      .where(eq(purchaseRequests.id, id));
+
+    if (!pr) return undefined;
+
+    const items = await db
+      .select({
+        item: purchaseRequestItems,
+        product: products,
+      })
+      .from(purchaseRequestItems)
+      .innerJoin(products, eq(purchaseRequestItems.productId, products.id))
+      .where(eq(purchaseRequestItems.prId, id));
+
+    return { 
+      ...pr.pr, 
+      requester: pr.requester!,
+      supplier: pr.supplier || undefined,
+      items: items.map(item => ({ ...item.item, product: item.product }))
+    };
+  }
+
+  async createPurchaseRequest(prData: InsertPurchaseRequest): Promise<PurchaseRequest> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const prNumber = prData.prNumber || await this.allocateDocumentNumber(tx, 'purchase_request');
+      const [pr] = await tx
+        .insert(purchaseRequests)
+        .values({ ...prData, prNumber })
+        .returning();
+      return pr;
+    });
+  }
+
+  async updatePurchaseRequest(id: string, prData: Partial<InsertPurchaseRequest>): Promise<PurchaseRequest> {
+    const db = await getDb();
+    const [pr] = await db
+      .update(purchaseRequests)
+      .set({ ...prData, updatedAt: new Date() })
+      .where(eq(purchaseRequests.id, id))
+      .returning();
+    return pr;
+  }
+
+  async deletePurchaseRequest(id: string): Promise<void> {
+    const db = await getDb();
+    // Delete items first
+    await db.delete(purchaseRequestItems).where(eq(purchaseRequestItems.prId, id));
+    // Then delete the PR
+    await db.delete(purchaseRequests).where(eq(purchaseRequests.id, id));
+  }
+
+  async createPurchaseRequestItem(item: InsertPurchaseRequestItem): Promise<PurchaseRequestItem> {
+    const db = await getDb();
+    const [prItem] = await db
+      .insert(purchaseRequestItems)
+      .values(item)
+      .returning();
+    return prItem;
+  }
+
+  async submitPurchaseRequest(id: string): Promise<PurchaseRequest> {
+    const db = await getDb();
+    const [pr] = await db
+      .update(purchaseRequests)
+      .set({ 
+        status: 'submitted',
+        submittedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(purchaseRequests.id, id))
+      .returning();
+    return pr;
+  }
+
+  async approvePurchaseRequest(id: string, approverId: string): Promise<PurchaseRequest> {
+    const db = await getDb();
+    const [pr] = await db
+      .update(purchaseRequests)
+      .set({ 
+        status: 'approved',
+        approvedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(purchaseRequests.id, id))
+      .returning();
+    
+    // Create approval record
+    await this.createApproval({
+      entityType: 'purchase_request',
+      entityId: id,
+      step: 1,
+      approverId,
+      status: 'approved',
+      decidedAt: new Date(),
+    });
+    
+    return pr;
+  }
+
+  async rejectPurchaseRequest(id: string, approverId: string, comment: string): Promise<PurchaseRequest> {
+    const db = await getDb();
+    const [pr] = await db
+      .update(purchaseRequests)
+      .set({ 
+        status: 'rejected',
+        updatedAt: new Date()
+      })
+      .where(eq(purchaseRequests.id, id))
+      .returning();
+    
+    // Create approval record
+    await this.createApproval({
+      entityType: 'purchase_request',
+      entityId: id,
+      step: 1,
+      approverId,
+      status: 'rejected',
+      decidedAt: new Date(),
+      comment,
+    });
+    
+    return pr;
+  }
+
+  async convertPRtoPO(prId: string, poData: Partial<InsertPurchaseOrder>): Promise<{ pr: PurchaseRequest; po: PurchaseOrder }> {
+    const db = await getDb();
+    
+    const pr = await this.getPurchaseRequest(prId);
+    if (!pr) throw new Error('Purchase request not found');
+    
+    return await db.transaction(async (tx) => {
+      await this.assertPeriodOpen(tx, 'purchases', new Date());
+      // Create PO with default data from PR
+      const poNumber = poData.orderNumber || await this.allocateDocumentNumber(tx, 'purchase_order');
+      const [po] = await tx
+        .insert(purchaseOrders)
+        .values({
+          prId: prId,
+          supplierId: pr.supplierId!,
+          orderDate: new Date().toISOString().split('T')[0],
+          totalAmount: pr.totalAmount,
+          currency: pr.currency,
+          status: 'draft',
+          createdBy: poData.createdBy!,
+          ...poData,
+          orderNumber: poNumber,
+        })
+        .returning();
+      
+      // Create PO items from PR items
+      for (const prItem of pr.items) {
+        await tx
+          .insert(purchaseOrderItems)
+          .values({
+            orderId: po.id,
+            productId: prItem.productId,
+            quantity: prItem.quantity,
+            unitPrice: prItem.unitPrice || '0',
+            totalPrice: prItem.lineTotal || '0',
+          });
+      }
+      
+      // Update PR status
+      const [updatedPr] = await tx
+        .update(purchaseRequests)
+        .set({ 
+          status: 'converted',
+          convertedToPo: po.id,
+          updatedAt: new Date()
+        })
+        .where(eq(purchaseRequests.id, prId))
+        .returning();
+      
+      return { pr: updatedPr, po };
+    });
+  }
+
+  // Enhanced PR workflow methods with multi-level approval
+  async submitPurchaseRequestWithApproval(id: string, submitterId: string): Promise<{ pr: PurchaseRequest; approvals: PurchaseRequestApproval[] }> {
+    const db = await getDb();
+    
+    const pr = await this.getPurchaseRequest(id);
+    if (!pr) throw new Error('Purchase request not found');
+
+    // Get applicable approval rules for this PR
+    const rules = await this.getApprovalRules('purchase_request', pr.currency || await this.getSettingValue('default_currency'));
+    
+    const prTotalAmount = parseFloat(pr.totalAmount || '0');
+    const applicableRules = rules.filter(rule => 
+      prTotalAmount >= (rule.amountRangeMin ? parseFloat(rule.amountRangeMin) : 0) &&
+      prTotalAmount <= (rule.amountRangeMax ? parseFloat(rule.amountRangeMax) : Infinity)
+    );
+
+    // Update PR status to submitted
+    const [updatedPr] = await db
+      .update(purchaseRequests)
+      .set({ 
+        status: 'submitted',
+        submittedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(purchaseRequests.id, id))
+      .returning();
+
+    // Create approval records
+    const approvals: PurchaseRequestApproval[] = [];
+    for (const rule of applicableRules) {
+      const [approval] = await db
+        .insert(purchaseRequestApprovals)
+        .values({
+          prId: id,
+          ruleId: rule.id,
+          level: rule.level,
+          approverId: rule.specificApproverId || submitterId,
+          status: 'pending',
+        })
+        .returning();
+      approvals.push(approval);
+    }
+
+    return { pr: updatedPr, approvals };
+  }
+
+  async approvePurchaseRequestLevel(prId: string, level: number, approverId: string, comment?: string): Promise<{ pr: PurchaseRequest; approval: PurchaseRequestApproval; isFullyApproved: boolean }> {
+    const db = await getDb();
+    
+    // Update approval for this level
+    const [approval] = await db
+      .update(purchaseRequestApprovals)
+      .set({
+        status: 'approved',
+        approverId: approverId,
+        decidedAt: new Date(),
+        comment,
+      })
+      .where(and(
+        eq(purchaseRequestApprovals.prId, prId),
+        eq(purchaseRequestApprovals.level, level)
+      ))
+      .returning();
+
+    // Check if all levels are approved
+    const pendingApprovals = await db
+      .select()
+      .from(purchaseRequestApprovals)
+      .where(and(
+        eq(purchaseRequestApprovals.prId, prId),
+        eq(purchaseRequestApprovals.status, 'pending')
+      ));
+
+    const isFullyApproved = pendingApprovals.length === 0;
+
+    // If fully approved, update PR status
+    let updatedPr;
+    if (isFullyApproved) {
+      [updatedPr] = await db
+        .update(purchaseRequests)
+        .set({ 
+          status: 'approved',
+          approvedAt: new Date(),
+          updatedAt: new Date()
+        })
+        .where(eq(purchaseRequests.id, prId))
+        .returning();
+    } else {
+      updatedPr = await this.getPurchaseRequest(prId);
+    }
+
+    return { pr: updatedPr!, approval, isFullyApproved };
+  }
+
+  async rejectPurchaseRequestLevel(prId: string, level: number, approverId: string, comment: string): Promise<{ pr: PurchaseRequest; approval: PurchaseRequestApproval }> {
+    const db = await getDb();
+    
+    // Update approval for this level
+    const [approval] = await db
+      .update(purchaseRequestApprovals)
+      .set({
+        status: 'rejected',
+        approverId: approverId,
+        decidedAt: new Date(),
+        comment,
+      })
+      .where(and(
+        eq(purchaseRequestApprovals.prId, prId),
+        eq(purchaseRequestApprovals.level, level)
+      ))
+      .returning();
+
+    // Update PR status to rejected
+    const [updatedPr] = await db
+      .update(purchaseRequests)
+      .set({ 
+        status: 'rejected',
+        updatedAt: new Date()
+      })
+      .where(eq(purchaseRequests.id, prId))
+      .returning();
+
+    return { pr: updatedPr, approval };
+  }
+
+  async getPurchaseRequestApprovals(prId: string): Promise<(PurchaseRequestApproval & { approver: User; rule: ApprovalRule })[]> {
+    const db = await getDb();
+    
+    const results = await db
+      .select({
+        id: purchaseRequestApprovals.id,
+        prId: purchaseRequestApprovals.prId,
+        ruleId: purchaseRequestApprovals.ruleId,
+        level: purchaseRequestApprovals.level,
+        status: purchaseRequestApprovals.status,
+        approverId: purchaseRequestApprovals.approverId,
+        decidedAt: purchaseRequestApprovals.decidedAt,
+        comment: purchaseRequestApprovals.comment,
+        notifiedAt: purchaseRequestApprovals.notifiedAt,
+        createdAt: purchaseRequestApprovals.createdAt,
+        approver: users,
+        rule: approvalRules,
+      })
+      .from(purchaseRequestApprovals)
+      .leftJoin(users, eq(purchaseRequestApprovals.approverId, users.id))
+      .leftJoin(approvalRules, eq(purchaseRequestApprovals.ruleId, approvalRules.id))
+      .where(eq(purchaseRequestApprovals.prId, prId))
+      .orderBy(asc(purchaseRequestApprovals.level));
+    
+    return results.map(row => ({
+      id: row.id,
+      prId: row.prId,
+      ruleId: row.ruleId,
+      level: row.level,
+      status: row.status,
+      approverId: row.approverId,
+      decidedAt: row.decidedAt,
+      comment: row.comment,
+      notifiedAt: row.notifiedAt,
+      createdAt: row.createdAt,
+      approver: row.approver!,
+      rule: row.rule!,
+    }));
+  }
+
+  async getPendingApprovalsForUser(userId: string, limit = 50): Promise<(PurchaseRequestApproval & { purchaseRequest: PurchaseRequest & { requester: User; items: (PurchaseRequestItem & { product: Product })[] }; rule: ApprovalRule })[]> {
+    const db = await getDb();
+    
+    // Get pending approvals for this user
+    const approvals = await db
+      .select({
+        id: purchaseRequestApprovals.id,
+        prId: purchaseRequestApprovals.prId,
+        ruleId: purchaseRequestApprovals.ruleId,
+        level: purchaseRequestApprovals.level,
+        status: purchaseRequestApprovals.status,
+        approverId: purchaseRequestApprovals.approverId,
+        decidedAt: purchaseRequestApprovals.decidedAt,
+        comment: purchaseRequestApprovals.comment,
+        notifiedAt: purchaseRequestApprovals.notifiedAt,
+        createdAt: purchaseRequestApprovals.createdAt,
+        rule: approvalRules,
+      })
+      .from(purchaseRequestApprovals)
+      .leftJoin(approvalRules, eq(purchaseRequestApprovals.ruleId, approvalRules.id))
+      .where(and(
+        eq(purchaseRequestApprovals.status, 'pending'),
+        eq(purchaseRequestApprovals.approverId, userId)
+      ))
+      .limit(limit)
+      .orderBy(desc(purchaseRequestApprovals.createdAt));
+
+    // Get purchase request details for each approval
+    const results = [];
+    for (const approval of approvals) {
+      const pr = await this.getPurchaseRequest(approval.prId);
+      if (pr) {
+        results.push({
+          id: approval.id,
+          prId: approval.prId,
+          ruleId: approval.ruleId,
+          level: approval.level,
+          status: approval.status,
+          approverId: approval.approverId,
+          decidedAt: approval.decidedAt,
+          comment: approval.comment,
+          notifiedAt: approval.notifiedAt,
+          createdAt: approval.createdAt,
+          purchaseRequest: pr,
+          rule: approval.rule!,
+        });
+      }
+    }
+
+    return results;
+  }
+
+  // Approval workflow operations
+  async getApprovals(entityType?: string, entityId?: string, approverId?: string): Promise<(Approval & { approver: User })[]> {
+    const db = await getDb();
+    
+    let conditions = [];
+    if (entityType) conditions.push(eq(approvals.entityType, entityType));
+    if (entityId) conditions.push(eq(approvals.entityId, entityId));
+    if (approverId) conditions.push(eq(approvals.approverId, approverId));
+    
+    return await db
+      .select({
+        id: approvals.id,
+        entityType: approvals.entityType,
+        entityId: approvals.entityId,
+        step: approvals.step,
+        approverId: approvals.approverId,
+        status: approvals.status,
+        comment: approvals.comment,
+        decidedAt: approvals.decidedAt,
+        createdAt: approvals.createdAt,
+        approver: users,
+      })
+      .from(approvals)
+      .innerJoin(users, eq(approvals.approverId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(approvals.createdAt));
+  }
+
+  async createApproval(approval: InsertApproval): Promise<Approval> {
+    const db = await getDb();
+    const [newApproval] = await db
+      .insert(approvals)
+      .values(approval)
+      .returning();
+    return newApproval;
+  }
+
+  async processApproval(id: string, status: 'approved' | 'rejected', comment?: string): Promise<Approval> {
+    const db = await getDb();
+    const [approval] = await db
+      .update(approvals)
+      .set({ 
+        status,
+        decidedAt: new Date(),
+        comment
+      })
+      .where(eq(approvals.id, id))
+      .returning();
+    return approval;
+  }
+
+  // Multi-level approval rules management
+  async getApprovalRules(entityType?: string, currency?: string): Promise<ApprovalRule[]> {
+    const db = await getDb();
+    
+    let conditions = [];
+    if (entityType) conditions.push(eq(approvalRules.entityType, entityType));
+    if (currency) conditions.push(eq(approvalRules.currency, currency));
+    
+    return await db
+      .select()
+      .from(approvalRules)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(approvalRules.level));
+  }
+
+  async createApprovalRule(rule: InsertApprovalRule): Promise<ApprovalRule> {
+    const db = await getDb();
+    const [approvalRule] = await db.insert(approvalRules).values(rule).returning();
+    return approvalRule;
+  }
+
+  async updateApprovalRule(id: string, rule: Partial<InsertApprovalRule>): Promise<ApprovalRule> {
+    const db = await getDb();
+    const [approvalRule] = await db
+      .update(approvalRules)
+      .set({ ...rule, updatedAt: new Date() })
+      .where(eq(approvalRules.id, id))
+      .returning();
+    return approvalRule;
+  }
+
+  async deleteApprovalRule(id: string): Promise<void> {
+    const db = await getDb();
+    await db.delete(approvalRules).where(eq(approvalRules.id, id));
+  }
+
+  // Goods Receipt operations
+  async getGoodsReceipts(limit = 50, poId?: string): Promise<(Omit<GoodsReceipt, 'receivedBy'> & { purchaseOrder: PurchaseOrder & { supplier: Supplier }; warehouse: Warehouse; receivedBy: User; items: (GoodsReceiptItem & { product: Product })[] })[]> {
+    const db = await getDb();
+    
+    let conditions = [];
+    if (poId) conditions.push(eq(goodsReceipts.poId, poId));
+    
+    const grs = await db
+      .select({
+        goodsReceipt: goodsReceipts,
+        purchaseOrder: purchaseOrders,
+        supplier: suppliers,
+        warehouse: warehouses,
+        receivedBy: users,
+      })
+      .from(goodsReceipts)
+      .innerJoin(purchaseOrders, eq(goodsReceipts.poId, purchaseOrders.id))
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .innerJoin(warehouses, eq(goodsReceipts.warehouseId, warehouses.id))
+      .innerJoin(users, eq(goodsReceipts.receivedBy, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .limit(limit)
+      .orderBy(desc(goodsReceipts.createdAt));
+
+    // Get items for each GR
+    const results = [];
+    for (const gr of grs) {
+      const items = await db
+        .select({
+          goodsReceiptItem: goodsReceiptItems,
+          product: products,
+        })
+        .from(goodsReceiptItems)
+        .innerJoin(products, eq(goodsReceiptItems.productId, products.id))
+        .where(eq(goodsReceiptItems.grId, gr.goodsReceipt.id));
+      
+      results.push({ 
+        ...gr.goodsReceipt, 
+        purchaseOrder: { ...gr.purchaseOrder, supplier: gr.supplier },
+        warehouse: gr.warehouse,
+        receivedBy: gr.receivedBy,
+        items: items.map(item => ({ ...item.goodsReceiptItem, product: item.product }))
+      });
+    }
+    
+    return results;
+  }
+
+  async getGoodsReceipt(id: string): Promise<(Omit<GoodsReceipt, 'receivedBy'> & { purchaseOrder: PurchaseOrder & { supplier: Supplier }; warehouse: Warehouse; receivedBy: User; items: (GoodsReceiptItem & { product: Product })[] }) | undefined> {
+    const db = await getDb();
+    
+    const [gr] = await db
+      .select({
+        goodsReceipt: goodsReceipts,
+        purchaseOrder: purchaseOrders,
+        supplier: suppliers,
+        warehouse: warehouses,
+        receivedBy: users,
+      })
+      .from(goodsReceipts)
+      .innerJoin(purchaseOrders, eq(goodsReceipts.poId, purchaseOrders.id))
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .innerJoin(warehouses, eq(goodsReceipts.warehouseId, warehouses.id))
+      .innerJoin(users, eq(goodsReceipts.receivedBy, users.id))
+      .where(eq(goodsReceipts.id, id));
+
+    if (!gr) return undefined;
+
+    const items = await db
+      .select({
+        goodsReceiptItem: goodsReceiptItems,
+        product: products,
+      })
+      .from(goodsReceiptItems)
+      .innerJoin(products, eq(goodsReceiptItems.productId, products.id))
+      .where(eq(goodsReceiptItems.grId, id));
+
+    return { 
+      ...gr.goodsReceipt, 
+      purchaseOrder: { ...gr.purchaseOrder, supplier: gr.supplier },
+      warehouse: gr.warehouse,
+      receivedBy: gr.receivedBy,
+      items: items.map(item => ({ ...item.goodsReceiptItem, product: item.product }))
+    };
+  }
+
+  async createGoodsReceipt(receiptData: InsertGoodsReceipt, items: InsertGoodsReceiptItem[]): Promise<GoodsReceipt> {
+    const db = await getDb();
     
-    // Get sales data from both sales orders and POS receipts
-    const salesQuery = db
+    return await db.transaction(async (tx) => {
+      const grNumber = await this.allocateDocumentNumber(tx, 'goods_receipt');
+      
+      const [gr] = await tx
+        .insert(goodsReceipts)
+        .values({
+          ...receiptData,
+          grNumber,
+        })
+        .returning();
+
+      // Create GR items
+      for (const item of items) {
+        await tx
+          .insert(goodsReceiptItems)
+          .values({
+            ...item,
+            grId: gr.id,
+          });
+      }
+
+      return gr;
+    });
+  }
+
+  async updateGoodsReceipt(id: string, receiptData: Partial<InsertGoodsReceipt>): Promise<GoodsReceipt> {
+    const db = await getDb();
+    const [gr] = await db
+      .update(goodsReceipts)
+      .set(receiptData)
+      .where(eq(goodsReceipts.id, id))
+      .returning();
+    return gr;
+  }
+
+  async postGoodsReceipt(id: string): Promise<GoodsReceipt> {
+    const db = await getDb();
+    
+    return await db.transaction(async (tx) => {
+      // Get GR details and validate state
+      const grDetail = await this.getGoodsReceipt(id);
+      if (!grDetail) throw new Error('Goods receipt not found');
+      
+      if (grDetail.status === 'posted') {
+        throw new Error('Goods receipt has already been posted');
+      }
+      // Stock movements are dated when they are written, not when the goods arrived
+      await this.assertPeriodOpen(tx, 'inventory', new Date());
+      
+      // Validate associated purchase order exists
+      const [po] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.id, grDetail.purchaseOrder.id));
+      
+      if (!po) {
+        throw new Error('Associated purchase order not found');
+      }
+      
+      // Get PO items for cost reference
+      const poItems = await tx
+        .select()
+        .from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.orderId, po.id));
+      
+      // Update GR status
+      const [gr] = await tx
+        .update(goodsReceipts)
+        .set({ status: 'posted' })
+        .where(eq(goodsReceipts.id, id))
+        .returning();
+
+      // Get GR items to create inventory and stock movements
+      const grItems = await tx
+        .select()
+        .from(goodsReceiptItems)
+        .where(eq(goodsReceiptItems.grId, id));
+      
+      if (grItems.length === 0) {
+        throw new Error('No goods receipt items found');
+      }
+
+      // Create/update inventory and stock movements with proper batch/expiry data. Batches
+      // are costed in the base currency at the rate of the receipt date.
+      const receivedDate = new Date(gr.receivedAt).toISOString().split('T')[0];
+      const fxRate = await this.resolveFxRate(tx, po.currency || 'USD', po.fxRate, receivedDate);
+      let receivedCents = 0;
+      for (const item of grItems) {
+        // Find corresponding PO item for cost data
+        const poItem = poItems.find(pi => pi.productId === item.productId);
+        const costPerUnit = toBaseAmount(Number(poItem?.unitPrice || 0), fxRate);
+        
+        // Validate expiry date is in the future for pharmaceuticals
+        if (item.expiryDate) {
+          const expiryDate = new Date(item.expiryDate);
+          const today = new Date();
+          if (expiryDate <= today) {
+            throw new Error(`Cannot receive expired product. Batch ${item.batchNumber} expires on ${expiryDate.toDateString()}`);
+          }
+        }
+        
+        // Create inventory entry with proper batch and expiry tracking
+        const [inventoryEntry] = await tx
+          .insert(inventory)
+          .values({
+            productId: item.productId,
+            warehouseId: grDetail.warehouseId,
+            batchNumber: item.batchNumber || `BATCH-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            quantity: item.quantity,
+            manufactureDate: new Date().toISOString().split('T')[0], // Today as received date
+            expiryDate: item.expiryDate,
+            costPerUnit: costPerUnit.toFixed(2),
+          })
+          .returning();
+
+        // Create stock movement
+        const movementData: InsertStockMovement = {
+          productId: item.productId,
+          warehouseId: grDetail.warehouseId,
+          inventoryId: inventoryEntry.id,
+          movementType: 'in',
+          quantity: item.quantity,
+          reference: grDetail.grNumber,
+          notes: `Goods receipt: ${grDetail.grNumber} - Batch: ${item.batchNumber || 'Auto-generated'}${item.expiryDate ? ` - Expires: ${item.expiryDate}` : ''}`,
+          userId: typeof grDetail.receivedBy === 'string' ? grDetail.receivedBy : grDetail.receivedBy.id,
+        };
+        const movement = await this.insertStockMovement(tx, movementData, { unitCost: costPerUnit, costOfSales: false });
+        receivedCents += Math.round(Number(movement.totalCost) * 100);
+      }
+      
+      // Update PO status if all items received
+      const totalPOItems = poItems.reduce((sum, item) => sum + item.quantity, 0);
+      const totalGRItems = grItems.reduce((sum, item) => sum + item.quantity, 0);
+      
+      if (totalGRItems >= totalPOItems) {
+        await tx
+          .update(purchaseOrders)
+          .set({ 
+            status: 'received',
+            deliveryDate: new Date().toISOString().split('T')[0],
+            updatedAt: new Date()
+          })
+          .where(eq(purchaseOrders.id, po.id));
+      }
+
+      // Stock at the value the stock ledger received it at, against the accrual the
+      // supplier's bill will clear
+      const receivedBy = typeof grDetail.receivedBy === 'string' ? grDetail.receivedBy : grDetail.receivedBy.id;
+      const receivedBase = receivedCents / 100;
+      await this.postAutomaticJournal(tx, {
+        entryDate: receivedDate,
+        description: `Goods receipt ${gr.grNumber} for ${po.orderNumber}`,
+        sourceType: 'goods_receipt',
+        sourceId: gr.id,
+        sourceReference: gr.grNumber,
+        postedBy: receivedBy,
+      }, [
+        { account: 'gl_account_inventory', debit: receivedBase },
+        { account: 'gl_account_goods_received_not_invoiced', credit: receivedBase, supplierId: po.supplierId },
+      ]);
+
+      return gr;
+    });
+  }
+
+  // Vendor Bill operations
+  async getVendorBills(limit = 50, supplierId?: string): Promise<(Omit<VendorBill, 'createdBy'> & { supplier: Supplier; purchaseOrder?: PurchaseOrder; createdBy: User; items: (VendorBillItem & { product?: Product })[] })[]> {
+    const db = await getDb();
+    
+    let conditions = [];
+    if (supplierId) conditions.push(eq(vendorBills.supplierId, supplierId));
+    
+    const bills = await db
       .select({
-        productId: salesOrderItems.productId,
-        productName: products.name,
-        orderDate: salesOrders.orderDate,
-        quantity: salesOrderItems.quantity,
-        revenue: salesOrderItems.totalPrice,
-        status: salesOrders.status,
+        vendorBill: vendorBills,
+        supplier: suppliers,
+        purchaseOrder: purchaseOrders,
+        createdBy: users,
       })
-      .from(salesOrderItems)
-      .innerJoin(salesOrders, eq(salesOrderItems.orderId, salesOrders.id))
-      .innerJoin(products, eq(salesOrderItems.productId, products.id))
-      .where(
-        and(
-          gte(salesOrders.orderDate, cutoffDate.toISOString().split('T')[0]),
-          eq(salesOrders.status, 'delivered'),
-          productId ? eq(salesOrderItems.productId, productId) : sql`true`
-        )
-      );
+      .from(vendorBills)
+      .innerJoin(suppliers, eq(vendorBills.supplierId, suppliers.id))
+      .leftJoin(purchaseOrders, eq(vendorBills.poId, purchaseOrders.id))
+      .innerJoin(users, eq(vendorBills.createdBy, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .limit(limit)
+      .orderBy(desc(vendorBills.createdAt));
+
+    // Get items for each bill
+    const results = [];
+    for (const bill of bills) {
+      const items = await db
+        .select({
+          vendorBillItem: vendorBillItems,
+          product: products,
+        })
+        .from(vendorBillItems)
+        .leftJoin(products, eq(vendorBillItems.productId, products.id))
+        .where(eq(vendorBillItems.billId, bill.vendorBill.id));
+      
+      results.push({ 
+        ...bill.vendorBill, 
+        supplier: bill.supplier,
+        purchaseOrder: bill.purchaseOrder || undefined,
+        createdBy: bill.createdBy,
+        items: items.map(item => ({ ...item.vendorBillItem, product: item.product || undefined }))
+      });
+    }
+    
+    return results;
+  }
+
+  async getVendorBill(id: string): Promise<(Omit<VendorBill, 'createdBy'> & { supplier: Supplier; purchaseOrder?: PurchaseOrder; createdBy: User; items: (VendorBillItem & { product?: Product })[] }) | undefined> {
+    const db = await getDb();
+    
+    const [bill] = await db
+      .select({
+        vendorBill: vendorBills,
+        supplier: suppliers,
+        purchaseOrder: purchaseOrders,
+        createdBy: users,
+      })
+      .from(vendorBills)
+      .innerJoin(suppliers, eq(vendorBills.supplierId, suppliers.id))
+      .leftJoin(purchaseOrders, eq(vendorBills.poId, purchaseOrders.id))
+      .innerJoin(users, eq(vendorBills.createdBy, users.id))
+      .where(eq(vendorBills.id, id));
+
+    if (!bill) return undefined;
+
+    const items = await db
+      .select({
+        vendorBillItem: vendorBillItems,
+        product: products,
+      })
+      .from(vendorBillItems)
+      .leftJoin(products, eq(vendorBillItems.productId, products.id))
+      .where(eq(vendorBillItems.billId, id));
+
+    return { 
+      ...bill.vendorBill, 
+      supplier: bill.supplier,
+      purchaseOrder: bill.purchaseOrder || undefined,
+      createdBy: bill.createdBy,
+      items: items.map(item => ({ ...item.vendorBillItem, product: item.product || undefined }))
+    };
+  }
+
+  async createVendorBill(billData: InsertVendorBill, items: InsertVendorBillItem[]): Promise<VendorBill> {
+    const db = await getDb();
+    
+    return await db.transaction(async (tx) => {
+      await this.assertPeriodOpen(tx, 'purchases', billData.billDate);
+      // Bills without the supplier's reference get an internal number
+      const billNumber = billData.billNumber || await this.allocateDocumentNumber(tx, 'vendor_bill');
+
+      // Input IVA per line under each line's tax code. The supplier's total stands as
+      // billed; header-only bills record the IVA they state under the default code.
+      const taxCodesByLine = await this.resolveLineTaxCodes(tx, items.length > 0 ? items : [{}], undefined, billData.billDate);
+      const taxedLines: TaxedLine[] = items.length > 0
+        ? items.map((item, index) => ({
+            taxCode: taxCodesByLine[index],
+            netAmount: Number(item.lineTotal),
+            taxAmount: lineTax(Number(item.lineTotal), Number(taxCodesByLine[index].rate)),
+          }))
+        : Number(billData.taxAmount || 0) > 0
+          ? [{
+              taxCode: taxCodesByLine[0],
+              netAmount: amountDifference(Number(billData.totalAmount), Number(billData.taxAmount)),
+              taxAmount: Number(billData.taxAmount),
+            }]
+          : [];
+      const { taxAmount, breakdown } = summarizeTax(taxedLines);
+
+      const [bill] = await tx
+        .insert(vendorBills)
+        .values({
+          ...billData,
+          billNumber,
+          taxAmount: taxAmount.toFixed(2),
+          taxBreakdown: taxedLines.length > 0 ? breakdown : null,
+        })
+        .returning();
 
-    const salesData = await salesQuery;
-    
-    // Group by product and aggregate data
-    const productSalesMap = new Map<string, {
-      productId: string;
-      productName: string;
-      salesByDate: Map<string, { quantity: number; revenue: number }>;
-      totalSold: number;
-      totalRevenue: number;
-    }>();
+      // Create bill items
+      for (let index = 0; index < items.length; index++) {
+        const item = items[index];
+        await tx
+          .insert(vendorBillItems)
+          .values({
+            ...item,
+            billId: bill.id,
+            taxCodeId: taxCodesByLine[index].id,
+            taxRate: taxCodesByLine[index].rate,
+            taxAmount: taxedLines[index].taxAmount.toFixed(2),
+          });
+      }
 
-    salesData.forEach(sale => {
-      if (!productSalesMap.has(sale.productId)) {
-        productSalesMap.set(sale.productId, {
-          productId: sale.productId,
-          productName: sale.productName,
-          salesByDate: new Map(),
-          totalSold: 0,
-          totalRevenue: 0,
-        });
+      return bill;
+    });
+  }
+
+  async updateVendorBill(id: string, billData: Partial<InsertVendorBill>): Promise<VendorBill> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [currentBill] = await tx
+        .select()
+        .from(vendorBills)
+        .where(eq(vendorBills.id, id))
+        .for('update');
+      if (!currentBill) {
+        throw new Error('Vendor bill not found');
       }
-      
-      const product = productSalesMap.get(sale.productId)!;
-      const dateKey = sale.orderDate || new Date().toISOString().split('T')[0];
-      
-      if (!product.salesByDate.has(dateKey)) {
-        product.salesByDate.set(dateKey, { quantity: 0, revenue: 0 });
+      await this.assertPeriodOpen(tx, 'purchases', currentBill.billDate);
+      await this.assertPeriodOpen(tx, 'purchases', billData.billDate);
+
+      // A posted bill's journal was built from these; changing them would leave it stale
+      if (currentBill.status && currentBill.status !== 'draft') {
+        const amountChanged = (['totalAmount', 'taxAmount', 'fxRate'] as const)
+          .some(field => billData[field] !== undefined && Number(billData[field]) !== Number(currentBill[field]));
+        const referenceChanged = (['supplierId', 'poId', 'currency', 'billDate'] as const)
+          .some(field => billData[field] !== undefined && billData[field] !== currentBill[field]);
+        if (amountChanged || referenceChanged) {
+          throw new Error(`The amounts, supplier, currency and date of a ${currentBill.status} vendor bill cannot be changed`);
+        }
       }
-      
-      const dayData = product.salesByDate.get(dateKey)!;
-      dayData.quantity += sale.quantity;
-      dayData.revenue += parseFloat(sale.revenue?.toString() || '0');
-      
-      product.totalSold += sale.quantity;
-      product.totalRevenue += parseFloat(sale.revenue?.toString() || '0');
+
+      const [bill] = await tx
+        .update(vendorBills)
+        .set({ ...billData, updatedAt: new Date() })
+        .where(eq(vendorBills.id, id))
+        .returning();
+      return bill;
     });
+  }
 
-    return Array.from(productSalesMap.values()).map(product => ({
-      productId: product.productId,
-      productName: product.productName,
-      salesData: Array.from(product.salesByDate.entries()).map(([date, data]) => ({
-        date,
-        quantity: data.quantity,
-        revenue: data.revenue,
-      })).sort((a, b) => a.date.localeCompare(b.date)),
-      totalSold: product.totalSold,
-      averageDailySales: product.totalSold / daysBack,
-      salesVelocity: product.totalSold / Math.max(1, product.salesByDate.size), // avg per active day
-    }));
+  async postVendorBill(id: string): Promise<VendorBill> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [currentBill] = await tx
+        .select()
+        .from(vendorBills)
+        .where(eq(vendorBills.id, id));
+      if (!currentBill) {
+        throw new Error('Vendor bill not found');
+      }
+      if (currentBill.status && currentBill.status !== 'draft') {
+        throw new Error(`Only draft vendor bills can be posted (bill is ${currentBill.status})`);
+      }
+      await this.assertPeriodOpen(tx, 'purchases', currentBill.billDate);
+
+      // The bill's rate is fixed when it is posted; payments realize FX against it
+      const fxRate = await this.resolveFxRate(tx, currentBill.currency || 'USD', currentBill.fxRate, currentBill.billDate);
+      const [bill] = await tx
+        .update(vendorBills)
+        .set({ status: 'posted', fxRate: fxRate.toFixed(6) })
+        .where(eq(vendorBills.id, id))
+        .returning();
+
+      // Deductible IVA is what the bill's tax codes give; bills from before tax codes
+      // treat whatever the total adds on top of the net lines as IVA
+      const documentTotal = Number(bill.totalAmount);
+      const total = toBaseAmount(documentTotal, fxRate);
+      let netAmount: number;
+      if (bill.taxBreakdown) {
+        netAmount = amountDifference(total, toBaseAmount(Number(bill.taxAmount), fxRate));
+      } else {
+        const items = await tx
+          .select()
+          .from(vendorBillItems)
+          .where(eq(vendorBillItems.billId, id));
+        const linesTotal = items.reduce((sum, item) => sum + Number(item.lineTotal), 0);
+        netAmount = toBaseAmount(items.length > 0 && linesTotal <= documentTotal ? linesTotal : documentTotal, fxRate);
+      }
+
+      await this.postAutomaticJournal(tx, {
+        entryDate: bill.billDate,
+        description: `Vendor bill ${bill.billNumber}`,
+        sourceType: 'vendor_bill',
+        sourceId: bill.id,
+        sourceReference: bill.billNumber,
+        postedBy: bill.createdBy,
+      }, [
+        // Bills for purchase orders clear the goods-received accrual; others are expenses
+        bill.poId
+          ? { account: 'gl_account_goods_received_not_invoiced', debit: netAmount, supplierId: bill.supplierId }
+          : { account: 'gl_account_purchases_expense', debit: netAmount },
+        { account: 'gl_account_input_vat', debit: amountDifference(total, netAmount) },
+        { account: 'gl_account_payable', credit: total, supplierId: bill.supplierId },
+      ]);
+
+      return bill;
+    });
   }
 
-  async getLeadTimeAnalysis(supplierId?: string): Promise<Array<{
-    supplierId: string;
-    supplierName: string;
-    productId: string;
-    productName: string;
-    averageLeadTimeDays: number;
-    minLeadTimeDays: number;
-    maxLeadTimeDays: number;
-    orderCount: number;
-    reliability: number;
-  }>> {
+  async processOCRBill(billId: string, ocrRaw: string, ocrExtract: any): Promise<VendorBill> {
+    const db = await getDb();
+    const [bill] = await db
+      .update(vendorBills)
+      .set({ 
+        ocrRaw,
+        ocrExtract,
+        updatedAt: new Date()
+      })
+      .where(eq(vendorBills.id, billId))
+      .returning();
+    return bill;
+  }
+
+  // Three-Way Matching operations
+  async getMatchResults(poId?: string, status?: string): Promise<(MatchResult & { purchaseOrder: PurchaseOrder & { supplier: Supplier }; goodsReceipt?: GoodsReceipt; vendorBill?: VendorBill; resolvedBy?: User })[]> {
     const db = await getDb();
     
-    // Get purchase orders with actual delivery data
-    const purchaseData = await db
+    let conditions = [];
+    if (poId) conditions.push(eq(matchResults.poId, poId));
+    if (status) conditions.push(eq(matchResults.status, status as any));
+    
+    return await db
       .select({
-        supplierId: purchaseOrders.supplierId,
-        supplierName: suppliers.name,
-        productId: purchaseOrderItems.productId,
-        productName: products.name,
-        orderDate: purchaseOrders.orderDate,
-        expectedDeliveryDate: purchaseOrders.expectedDeliveryDate,
-        status: purchaseOrders.status,
-        actualDeliveryDate: sql<string>`
-          CASE 
-            WHEN ${purchaseOrders.status} = 'received' 
-            THEN ${purchaseOrders.updatedAt}::date
-            ELSE NULL
-          END
-        `.as('actualDeliveryDate'),
+        id: matchResults.id,
+        poId: matchResults.poId,
+        grId: matchResults.grId,
+        billId: matchResults.billId,
+        status: matchResults.status,
+        quantityVariance: matchResults.quantityVariance,
+        priceVariance: matchResults.priceVariance,
+        matchDetails: matchResults.matchDetails,
+        resolvedBy: matchResults.resolvedBy,
+        resolvedAt: matchResults.resolvedAt,
+        createdAt: matchResults.createdAt,
+        purchaseOrder: purchaseOrders,
+        supplier: suppliers,
+        goodsReceipt: goodsReceipts,
+        vendorBill: vendorBills,
+        resolvedByUser: users,
       })
-      .from(purchaseOrderItems)
-      .innerJoin(purchaseOrders, eq(purchaseOrderItems.orderId, purchaseOrders.id))
+      .from(matchResults)
+      .innerJoin(purchaseOrders, eq(matchResults.poId, purchaseOrders.id))
       .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
-      .innerJoin(products, eq(purchaseOrderItems.productId, products.id))
-      .where(
-        and(
-          supplierId ? eq(purchaseOrders.supplierId, supplierId) : sql`true`,
-          eq(purchaseOrders.status, 'received')
-        )
-      );
+      .leftJoin(goodsReceipts, eq(matchResults.grId, goodsReceipts.id))
+      .leftJoin(vendorBills, eq(matchResults.billId, vendorBills.id))
+      .leftJoin(users, eq(matchResults.resolvedBy, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(matchResults.createdAt)) as any;
+  }
 
-    // Group by supplier and product combination
-    const leadTimeMap = new Map<string, {
-      supplierId: string;
-      supplierName: string;
-      productId: string;
-      productName: string;
-      leadTimes: number[];
-      onTimeDeliveries: number;
-      totalOrders: number;
-    }>();
+  async performThreeWayMatch(poId: string): Promise<MatchResult> {
+    const db = await getDb();
+    
+    return await db.transaction(async (tx) => {
+      // Validate PO exists
+      const po = await this.getPurchaseOrder(poId);
+      if (!po) throw new Error('Purchase order not found');
+      
+      // Check if match already exists
+      const [existingMatch] = await tx
+        .select()
+        .from(matchResults)
+        .where(eq(matchResults.poId, poId))
+        .limit(1);
+      
+      if (existingMatch && existingMatch.status === 'matched') {
+        throw new Error('Three-way match already completed for this purchase order');
+      }
+
+      // Get GR and Bill for the PO
+      const [gr] = await tx
+        .select()
+        .from(goodsReceipts)
+        .where(eq(goodsReceipts.poId, poId))
+        .limit(1);
+
+      const [bill] = await tx
+        .select()
+        .from(vendorBills)
+        .where(eq(vendorBills.poId, poId))
+        .limit(1);
+
+      let matchStatus: 'matched' | 'quantity_mismatch' | 'price_mismatch' | 'missing_receipt' | 'missing_bill' | 'pending' = 'pending';
+      let quantityVariance = '0';
+      let priceVariance = '0';
+      const matchDetails: any = {
+        po: { id: po.id, amount: po.totalAmount, items: po.items.length },
+        gr: gr ? { id: gr.id, received: true } : null,
+        bill: bill ? { id: bill.id, amount: bill.totalAmount } : null,
+        matchedAt: new Date().toISOString(),
+      };
+
+      if (!gr && !bill) {
+        matchStatus = 'pending';
+      } else if (!gr) {
+        matchStatus = 'missing_receipt';
+      } else if (!bill) {
+        matchStatus = 'missing_bill';
+      } else {
+        // Perform detailed three-way matching
+        const poAmount = parseFloat(po.totalAmount || '0');
+        const billAmount = parseFloat(bill.totalAmount || '0');
+        const priceDiff = Math.abs(poAmount - billAmount);
+        
+        // Get detailed item-level matching
+        const grItems = await tx
+          .select()
+          .from(goodsReceiptItems)
+          .where(eq(goodsReceiptItems.grId, gr.id));
+          
+        const billItems = await tx
+          .select()
+          .from(vendorBillItems)
+          .where(eq(vendorBillItems.billId, bill.id));
+        
+        // Calculate quantity variance
+        const poQuantity = po.items.reduce((sum, item) => sum + item.quantity, 0);
+        const grQuantity = grItems.reduce((sum, item) => sum + item.quantity, 0);
+        const quantityDiff = Math.abs(poQuantity - grQuantity);
+        
+        quantityVariance = quantityDiff.toString();
+        priceVariance = priceDiff.toString();
+        
+        // Enhanced matching details
+        matchDetails.quantities = {
+          po: poQuantity,
+          gr: grQuantity,
+          variance: quantityDiff
+        };
+        matchDetails.amounts = {
+          po: poAmount,
+          bill: billAmount,
+          variance: priceDiff
+        };
+        
+        // Determine match status with tolerance thresholds
+        const priceTolerancePercent = 0.05; // 5% tolerance
+        const quantityTolerancePercent = 0.02; // 2% tolerance
+        
+        const priceToleranceAmount = poAmount * priceTolerancePercent;
+        const quantityToleranceAmount = poQuantity * quantityTolerancePercent;
+        
+        if (quantityDiff > quantityToleranceAmount) {
+          matchStatus = 'quantity_mismatch';
+        } else if (priceDiff > Math.max(priceToleranceAmount, 0.01)) { // At least 1 cent tolerance
+          matchStatus = 'price_mismatch';
+        } else {
+          matchStatus = 'matched';
+        }
+      }
 
-    purchaseData.forEach(order => {
-      if (!order.actualDeliveryDate || !order.orderDate) return;
-      
-      const key = `${order.supplierId}-${order.productId}`;
-      
-      if (!leadTimeMap.has(key)) {
-        leadTimeMap.set(key, {
-          supplierId: order.supplierId,
-          supplierName: order.supplierName,
-          productId: order.productId,
-          productName: order.productName,
-          leadTimes: [],
-          onTimeDeliveries: 0,
-          totalOrders: 0,
-        });
+      // Insert or update match result
+      let matchResult: MatchResult;
+      if (existingMatch) {
+        [matchResult] = await tx
+          .update(matchResults)
+          .set({
+            grId: gr?.id,
+            billId: bill?.id,
+            status: matchStatus,
+            quantityVariance,
+            priceVariance,
+            matchDetails,
+          })
+          .where(eq(matchResults.id, existingMatch.id))
+          .returning();
+      } else {
+        [matchResult] = await tx
+          .insert(matchResults)
+          .values({
+            poId,
+            grId: gr?.id,
+            billId: bill?.id,
+            status: matchStatus,
+            quantityVariance,
+            priceVariance,
+            matchDetails,
+          })
+          .returning();
       }
       
-      const analysis = leadTimeMap.get(key)!;
-      const orderDate = new Date(order.orderDate);
-      const actualDate = new Date(order.actualDeliveryDate);
-      const expectedDate = order.expectedDeliveryDate ? new Date(order.expectedDeliveryDate) : null;
-      
-      const leadTime = Math.ceil((actualDate.getTime() - orderDate.getTime()) / (1000 * 60 * 60 * 24));
-      analysis.leadTimes.push(leadTime);
-      analysis.totalOrders++;
-      
-      // Check if delivery was on time (within expected date or reasonable buffer)
-      if (expectedDate && actualDate <= expectedDate) {
-        analysis.onTimeDeliveries++;
-      } else if (!expectedDate && leadTime <= 14) { // default 14 days as reasonable
-        analysis.onTimeDeliveries++;
+      // If matched successfully, update PO status to closed
+      if (matchStatus === 'matched') {
+        await tx
+          .update(purchaseOrders)
+          .set({ 
+            status: 'closed',
+            updatedAt: new Date()
+          })
+          .where(eq(purchaseOrders.id, poId));
       }
+
+      return matchResult;
     });
+  }
 
-    return Array.from(leadTimeMap.values()).map(analysis => ({
-      supplierId: analysis.supplierId,
-      supplierName: analysis.supplierName,
-      productId: analysis.productId,
-      productName: analysis.productName,
-      averageLeadTimeDays: Math.round(
-        analysis.leadTimes.reduce((sum, lt) => sum + lt, 0) / analysis.leadTimes.length
-      ),
-      minLeadTimeDays: Math.min(...analysis.leadTimes),
-      maxLeadTimeDays: Math.max(...analysis.leadTimes),
-      orderCount: analysis.totalOrders,
-      reliability: Math.round((analysis.onTimeDeliveries / analysis.totalOrders) * 100),
-    }));
+  async resolveMatchException(matchId: string, resolvedBy: string, notes: string): Promise<MatchResult> {
+    const db = await getDb();
+    const [matchResult] = await db
+      .update(matchResults)
+      .set({ 
+        status: 'matched',
+        resolvedBy,
+        resolvedAt: new Date(),
+        notes
+      })
+      .where(eq(matchResults.id, matchId))
+      .returning();
+    return matchResult;
   }
 
-  async getProductDemandAnalysis(productId?: string): Promise<Array<{
-    productId: string;
-    productName: string;
-    currentStock: number;
-    averageMonthlySales: number;
-    stockTurnoverRate: number;
-    seasonalPattern: number[];
-    demandTrend: 'increasing' | 'decreasing' | 'stable';
-    forecastedDemand: number;
-  }>> {
+  // FX Rate operations
+  async getFxRates(baseCurrency?: string, quoteCurrency?: string): Promise<FxRate[]> {
     const db = await getDb();
     
-    // Get current inventory levels
-    const inventoryData = await db
-      .select({
-        productId: inventory.productId,
-        productName: products.name,
-        totalStock: sql<number>`SUM(${inventory.quantity})`.as('totalStock'),
+    let conditions = [];
+    if (baseCurrency) conditions.push(eq(fxRates.baseCurrency, baseCurrency));
+    if (quoteCurrency) conditions.push(eq(fxRates.quoteCurrency, quoteCurrency));
+    
+    return await db
+      .select()
+      .from(fxRates)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(fxRates.asOfDate), desc(fxRates.createdAt));
+  }
+
+  async getFxRateLatest(baseCurrency: string, quoteCurrency: string): Promise<FxRate | undefined> {
+    const db = await getDb();
+    const [rate] = await db
+      .select()
+      .from(fxRates)
+      .where(and(
+        eq(fxRates.baseCurrency, baseCurrency),
+        eq(fxRates.quoteCurrency, quoteCurrency)
+      ))
+      .orderBy(desc(fxRates.asOfDate), desc(fxRates.createdAt))
+      .limit(1);
+    return rate;
+  }
+
+  async upsertFxRate(rateData: InsertFxRate): Promise<FxRate> {
+    const db = await getDb();
+    const [rate] = await db
+      .insert(fxRates)
+      .values(rateData)
+      .onConflictDoUpdate({
+        target: [fxRates.baseCurrency, fxRates.quoteCurrency, fxRates.asOfDate],
+        set: {
+          rate: rateData.rate,
+          source: rateData.source,
+          createdAt: new Date(),
+        },
       })
-      .from(inventory)
-      .innerJoin(products, eq(inventory.productId, products.id))
-      .where(productId ? eq(inventory.productId, productId) : sql`true`)
-      .groupBy(inventory.productId, products.name);
+      .returning();
+    return rate;
+  }
 
-    // Get sales history for the past 12 months for seasonal analysis
-    const twelveMonthsAgo = new Date();
-    twelveMonthsAgo.setMonth(twelveMonthsAgo.getMonth() - 12);
+  async refreshFxRates(): Promise<FxRate[]> {
+    const startMemory = process.memoryUsage();
+    const startTime = Date.now();
     
-    const salesHistory = await db
-      .select({
-        productId: salesOrderItems.productId,
-        month: sql<number>`EXTRACT(MONTH FROM ${salesOrders.orderDate})`.as('month'),
-        quantity: sql<number>`SUM(${salesOrderItems.quantity})`.as('quantity'),
-        orderDate: salesOrders.orderDate,
-      })
-      .from(salesOrderItems)
-      .innerJoin(salesOrders, eq(salesOrderItems.orderId, salesOrders.id))
-      .where(
-        and(
-          gte(salesOrders.orderDate, twelveMonthsAgo.toISOString().split('T')[0]),
-          eq(salesOrders.status, 'delivered'),
-          productId ? eq(salesOrderItems.productId, productId) : sql`true`
-        )
-      )
-      .groupBy(salesOrderItems.productId, sql`EXTRACT(MONTH FROM ${salesOrders.orderDate})`, salesOrders.orderDate)
-      .orderBy(salesOrders.orderDate);
+    try {
+      const { externalIntegrationsService } = await import("./external-integrations");
+      
+      // Get latest rates from external service
+      const fxData = await externalIntegrationsService.getFxRatesWithFallbacks('USD');
+      
+      if (!fxData.success) {
+        console.warn('Failed to fetch FX rates from external services');
+        return [];
+      }
 
-    // Process demand analysis
-    const demandMap = new Map<string, {
-      productId: string;
-      productName: string;
-      currentStock: number;
-      monthlySales: number[];
-      salesByMonth: Map<number, number>;
-    }>();
+      console.log(`🔍 [FX Refresh] Processing ${Object.keys(fxData.rates).length} currency rates from ${fxData.source}`);
 
-    // Initialize with inventory data
-    inventoryData.forEach(item => {
-      demandMap.set(item.productId, {
-        productId: item.productId,
-        productName: item.productName,
-        currentStock: item.totalStock || 0,
-        monthlySales: [],
-        salesByMonth: new Map(),
-      });
-    });
+      const db = await getDb();
+      const currentDate = new Date().toISOString().split('T')[0];
+      const BATCH_SIZE = 25; // Process in smaller batches to control memory usage
+      const allUpdatedRates: FxRate[] = [];
+      
+      // Convert rates to array for batch processing
+      const rateEntries = Object.entries(fxData.rates);
+      
+      // Process in batches to control memory usage
+      for (let i = 0; i < rateEntries.length; i += BATCH_SIZE) {
+        const batchStartMemory = process.memoryUsage();
+        const batch = rateEntries.slice(i, i + BATCH_SIZE);
+        
+        // Prepare batch values
+        const batchValues = batch.map(([quoteCurrency, rate]) => ({
+          baseCurrency: 'USD',
+          quoteCurrency,
+          rate: rate.toString(),
+          asOfDate: currentDate,
+          source: fxData.source,
+          createdAt: new Date(),
+        }));
+
+        // Perform batch upsert using a transaction for better performance
+        const batchResults = await db.transaction(async (tx) => {
+          const results: FxRate[] = [];
+          
+          // Use batch insert with conflict resolution
+          for (const values of batchValues) {
+            const [result] = await tx
+              .insert(fxRates)
+              .values(values)
+              .onConflictDoUpdate({
+                target: [fxRates.baseCurrency, fxRates.quoteCurrency, fxRates.asOfDate],
+                set: {
+                  rate: values.rate,
+                  source: values.source,
+                  createdAt: values.createdAt,
+                },
+              })
+              .returning();
+            results.push(result);
+          }
+          
+          return results;
+        });
 
-    // Add sales data
-    salesHistory.forEach(sale => {
-      const product = demandMap.get(sale.productId);
-      if (product) {
-        const month = sale.month;
-        const currentSales = product.salesByMonth.get(month) || 0;
-        product.salesByMonth.set(month, currentSales + sale.quantity);
+        allUpdatedRates.push(...batchResults);
+        
+        // Memory monitoring for each batch
+        const batchEndMemory = process.memoryUsage();
+        const batchMemoryDelta = batchEndMemory.heapUsed - batchStartMemory.heapUsed;
+        
+        if (batchMemoryDelta > 5 * 1024 * 1024) { // > 5MB per batch
+          console.warn(`⚠️  [FX Refresh] High batch memory usage: ${Math.round(batchMemoryDelta / 1024 / 1024)}MB for batch ${Math.floor(i/BATCH_SIZE) + 1}`);
+        }
+        
+        // Force garbage collection between batches if available (development)
+        if (process.env.NODE_ENV === 'development' && global.gc) {
+          global.gc();
+        }
+        
+        // Clear batch variables to help garbage collection
+        batchValues.length = 0;
+        
+        // Progress logging
+        console.log(`📊 [FX Refresh] Processed batch ${Math.floor(i/BATCH_SIZE) + 1}/${Math.ceil(rateEntries.length/BATCH_SIZE)} (${batch.length} rates)`);
       }
-    });
 
-    return Array.from(demandMap.values()).map(product => {
-      // Create seasonal pattern array (12 months)
-      const seasonalPattern = Array.from({ length: 12 }, (_, i) => 
-        product.salesByMonth.get(i + 1) || 0
-      );
-      
-      const monthlySales = Array.from(product.salesByMonth.values());
-      const averageMonthlySales = monthlySales.length > 0 
-        ? monthlySales.reduce((sum, sales) => sum + sales, 0) / monthlySales.length
-        : 0;
+      // Final memory analysis
+      const endTime = Date.now();
+      const endMemory = process.memoryUsage();
+      const totalMemoryDelta = endMemory.heapUsed - startMemory.heapUsed;
+      const duration = endTime - startTime;
       
-      // Calculate trend (simple linear regression on last 6 months)
-      const recentMonths = monthlySales.slice(-6);
-      let demandTrend: 'increasing' | 'decreasing' | 'stable' = 'stable';
+      console.log(`✅ [FX Refresh] Completed ${allUpdatedRates.length} rates from ${fxData.source} in ${duration}ms`);
+      console.log(`📊 [FX Refresh] Memory usage: ${Math.round(totalMemoryDelta / 1024 / 1024)}MB delta`);
       
-      if (recentMonths.length >= 3) {
-        const firstHalf = recentMonths.slice(0, 3).reduce((sum, val) => sum + val, 0) / 3;
-        const secondHalf = recentMonths.slice(-3).reduce((sum, val) => sum + val, 0) / 3;
-        const change = (secondHalf - firstHalf) / Math.max(firstHalf, 1);
-        
-        if (change > 0.15) demandTrend = 'increasing';
-        else if (change < -0.15) demandTrend = 'decreasing';
+      if (totalMemoryDelta > 10 * 1024 * 1024) { // > 10MB total
+        console.warn(`⚠️  [FX Refresh] WARNING: High total memory usage detected: ${Math.round(totalMemoryDelta / 1024 / 1024)}MB`);
       }
-      
-      // Forecast next 30 days based on average and trend
-      const forecastedDemand = Math.round(averageMonthlySales * 
-        (demandTrend === 'increasing' ? 1.1 : demandTrend === 'decreasing' ? 0.9 : 1.0));
-      
-      return {
-        productId: product.productId,
-        productName: product.productName,
-        currentStock: product.currentStock,
-        averageMonthlySales: Math.round(averageMonthlySales),
-        stockTurnoverRate: product.currentStock > 0 ? averageMonthlySales / product.currentStock : 0,
-        seasonalPattern,
-        demandTrend,
-        forecastedDemand,
-      };
-    });
+
+      return allUpdatedRates;
+    } catch (error) {
+      console.error('❌ [FX Refresh] Error refreshing FX rates:', error);
+      return [];
+    }
   }
 
-  async getPriceOptimizationData(productId?: string): Promise<Array<{
-    productId: string;
-    productName: string;
-    currentPrice: number;
-    averageCost: number;
-    currentMargin: number;
-    salesVolume: number;
-    competitorPrices: number[];
-    priceElasticity: number;
-    optimalPriceRange: {
-      min: number;
-      max: number;
-      recommended: number;
-    };
-  }>> {
+  // Competitor Price operations
+  async getCompetitorPrices(productId?: string, competitor?: string): Promise<(CompetitorPrice & { product: Product })[]> {
     const db = await getDb();
     
-    // Get product pricing and sales data
-    const productData = await db
+    let conditions = [eq(competitorPrices.isActive, true)];
+    if (productId) conditions.push(eq(competitorPrices.productId, productId));
+    if (competitor) conditions.push(eq(competitorPrices.competitor, competitor));
+    
+    return await db
       .select({
-        productId: products.id,
-        productName: products.name,
-        currentPrice: products.unitPrice,
-        averageCost: sql<number>`COALESCE(AVG(${inventory.costPerUnit}), 0)`.as('averageCost'),
-        totalSalesVolume: sql<number>`COALESCE(SUM(${salesOrderItems.quantity}), 0)`.as('totalSalesVolume'),
+        id: competitorPrices.id,
+        productId: competitorPrices.productId,
+        competitor: competitorPrices.competitor,
+        price: competitorPrices.price,
+        currency: competitorPrices.currency,
+        sourceUrl: competitorPrices.sourceUrl,
+        collectedAt: competitorPrices.collectedAt,
+        isActive: competitorPrices.isActive,
+        product: products,
       })
-      .from(products)
-      .leftJoin(inventory, eq(products.id, inventory.productId))
-      .leftJoin(salesOrderItems, eq(products.id, salesOrderItems.productId))
-      .leftJoin(salesOrders, and(
-        eq(salesOrderItems.orderId, salesOrders.id),
-        eq(salesOrders.status, 'delivered'),
-        gte(salesOrders.orderDate, sql`CURRENT_DATE - INTERVAL '90 days'`)
-      ))
-      .where(
-        and(
-          eq(products.isActive, true),
-          productId ? eq(products.id, productId) : sql`true`
-        )
-      )
-      .groupBy(products.id, products.name, products.unitPrice);
-
-    return productData.map(product => {
-      const currentPrice = parseFloat(product.currentPrice?.toString() || '0');
-      const averageCost = product.averageCost || 0;
-      const salesVolume = product.totalSalesVolume || 0;
-      
-      // Calculate current margin
-      const currentMargin = currentPrice > 0 ? ((currentPrice - averageCost) / currentPrice) * 100 : 0;
-      
-      // Mock competitor prices (in real implementation, this would come from market data)
-      const competitorPrices = [
-        currentPrice * 0.95, // slightly lower
-        currentPrice * 1.05, // slightly higher
-        currentPrice * 0.90, // significantly lower
-      ].filter(price => price > 0);
-      
-      // Simple price elasticity calculation (would be more sophisticated in real implementation)
-      const priceElasticity = salesVolume > 0 ? -1.2 : 0; // typical pharmaceutical elasticity
-      
-      // Calculate optimal price range
-      const minPrice = averageCost * 1.1; // at least 10% margin
-      const maxPrice = currentPrice * 1.3; // not more than 30% increase
-      const recommended = averageCost > 0 ? averageCost * 1.4 : currentPrice; // target 40% margin
-      
-      return {
-        productId: product.productId,
-        productName: product.productName,
-        currentPrice,
-        averageCost,
-        currentMargin: Math.round(currentMargin * 100) / 100,
-        salesVolume,
-        competitorPrices,
-        priceElasticity: Math.round(priceElasticity * 100) / 100,
-        optimalPriceRange: {
-          min: Math.round(minPrice * 100) / 100,
-          max: Math.round(maxPrice * 100) / 100,
-          recommended: Math.round(recommended * 100) / 100,
-        },
-      };
-    });
+      .from(competitorPrices)
+      .innerJoin(products, eq(competitorPrices.productId, products.id))
+      .where(and(...conditions))
+      .orderBy(desc(competitorPrices.collectedAt)) as any;
   }
 
-  // CRM Module - Quotation operations  
-  async getQuotations(limit = 100, status?: string, offset = 0): Promise<(Quotation & { customer: Customer; salesRep?: User; items: (QuotationItem & { product: Product })[] })[]> {
-    const startTime = Date.now();
-    
-    // PHASE 2 PERFORMANCE OPTIMIZATION: Target 316ms → <150ms (52% improvement)
-    // Enhanced Strategy: Optimized indexing + intelligent caching + parallel batch queries
-    
-    // Check cache first with improved cache key strategy
-    const cacheKey = `quotations:list:${status || 'all'}:${limit}:${offset}`;
-    const cached = await advancedCache.get(cacheKey);
-    if (cached) {
-      console.log(`🚀 [Cache Hit] Quotations query served from cache in ${Date.now() - startTime}ms`);
-       return cached as any;
-    }
-
+  async upsertCompetitorPrice(priceData: InsertCompetitorPrice): Promise<CompetitorPrice> {
     const db = await getDb();
-    
-    // OPTIMIZATION 1: Use optimized index-backed query (idx_quotations_status_created_at)
-    const quotationData = await db
-      .select()
-      .from(quotations)
-      .where(status ? eq(quotations.status, status as any) : sql`true`)
-      .orderBy(desc(quotations.createdAt))
-      .limit(limit)
-      .offset(offset);
-
-    if (quotationData.length === 0) {
-      await advancedCache.set(cacheKey, [], 'WARM'); // 5 minute cache
-      console.log(`⚡ [Quotations] Empty result cached in ${Date.now() - startTime}ms`);
-      return [];
-    }
-
-    // OPTIMIZATION 2: Extract IDs for batch fetching
-    const quotationIds = quotationData.map(q => q.id);
-    const customerIds = Array.from(new Set(quotationData.map(q => q.customerId).filter(Boolean)));
-    const salesRepIds = Array.from(new Set(quotationData.map(q => q.salesRepId).filter((id): id is string => Boolean(id))));
-
-    // OPTIMIZATION 3: Batch fetch related data in parallel
-    const [customerMap, salesRepMap, quotationItemsData] = await Promise.all([
-      this.getCustomersBatch(customerIds),
-      this.getUsersBatch(salesRepIds),
-      this.getQuotationItemsBatch(quotationIds)
-    ]);
-
-    // OPTIMIZATION 4: Efficiently construct result with batched data
-    const result = quotationData.map(quotation => {
-      const customer = customerMap.get(quotation.customerId!);
-      const salesRep = quotation.salesRepId ? salesRepMap.get(quotation.salesRepId) : undefined;
-      const items = quotationItemsData.get(quotation.id) || [];
-
-      return {
-        ...quotation,
-        customer: customer!,
-        salesRep,
-        items
-      };
-    });
+    const [price] = await db
+      .insert(competitorPrices)
+      .values(priceData)
+      .onConflictDoUpdate({
+        target: [competitorPrices.productId, competitorPrices.competitor],
+        set: {
+          price: priceData.price,
+          currency: priceData.currency,
+          sourceUrl: priceData.sourceUrl,
+          collectedAt: new Date(),
+        },
+      })
+      .returning();
+    return price;
+  }
 
-    // OPTIMIZATION 5: Cache the result for subsequent requests
-    await advancedCache.set(cacheKey, result, 'WARM', { ttl: 600 }); // 10 minutes
-    
-    const executionTime = Date.now() - startTime;
-    console.log(`⚡ [Optimized Quotations] Query completed in ${executionTime}ms (target: <200ms)`);
+  async getCompetitorAnalysis(productId?: string): Promise<Array<{
+    productId: string;
+    productName: string;
+    ourPrice: number;
+    avgCompetitorPrice: number;
+    minCompetitorPrice: number;
+    maxCompetitorPrice: number;
+    priceAdvantage: number;
+    competitorCount: number;
+  }>> {
+    const db = await getDb();
     
-    if (executionTime > 200) {
-      console.warn(`⚠️ [Performance Warning] Quotations query took ${executionTime}ms, exceeding 200ms target`);
-    }
+    let conditions = [eq(competitorPrices.isActive, true)];
+    if (productId) conditions.push(eq(competitorPrices.productId, productId));
     
-    return result;
+    const analysis = await db
+      .select({
+        productId: products.id,
+        productName: products.name,
+        ourPrice: products.unitPrice,
+        avgCompetitorPrice: sql<number>`AVG(${competitorPrices.price})`.as('avgCompetitorPrice'),
+        minCompetitorPrice: sql<number>`MIN(${competitorPrices.price})`.as('minCompetitorPrice'),
+        maxCompetitorPrice: sql<number>`MAX(${competitorPrices.price})`.as('maxCompetitorPrice'),
+        competitorCount: sql<number>`COUNT(DISTINCT ${competitorPrices.competitor})`.as('competitorCount'),
+      })
+      .from(competitorPrices)
+      .innerJoin(products, eq(competitorPrices.productId, products.id))
+      .where(and(...conditions))
+      .groupBy(products.id, products.name, products.unitPrice);
+
+    return analysis.map(item => ({
+      ...item,
+      ourPrice: parseFloat(item.ourPrice?.toString() || '0'),
+      avgCompetitorPrice: parseFloat(item.avgCompetitorPrice?.toString() || '0'),
+      minCompetitorPrice: parseFloat(item.minCompetitorPrice?.toString() || '0'),
+      maxCompetitorPrice: parseFloat(item.maxCompetitorPrice?.toString() || '0'),
+      priceAdvantage: item.ourPrice && item.avgCompetitorPrice 
+        ? ((parseFloat(item.avgCompetitorPrice.toString()) - parseFloat(item.ourPrice.toString())) / parseFloat(item.avgCompetitorPrice.toString())) * 100
+        : 0,
+    }));
   }
 
-  async getQuotation(id: string): Promise<(Quotation & { customer: Customer; salesRep?: User; items: (QuotationItem & { product: Product })[] }) | undefined> {
+  // Purchase Dashboard metrics
+  async getPurchaseDashboardMetrics(): Promise<{
+    totalPurchaseOrders: number;
+    pendingApprovals: number;
+    openPurchaseOrders: number;
+    totalPurchaseValue: number;
+    averageOrderValue: number;
+    topSuppliers: Array<{
+      supplierId: string;
+      supplierName: string;
+      orderCount: number;
+      totalValue: number;
+    }>;
+    upcomingPayments: Array<{
+      billId: string;
+      billNumber: string;
+      supplierName: string;
+      amount: number;
+      currency: string;
+      dueDate: string;
+      daysUntilDue: number;
+    }>;
+    matchingExceptions: number;
+    currencyExposure: Array<{
+      currency: string;
+      amount: number;
+      exposureType: 'payables' | 'orders';
+    }>;
+  }> {
     const db = await getDb();
-    const quotationData = await db
+    
+    // Get basic PO metrics
+    const [poMetrics] = await db
       .select({
-        quotation: quotations,
-        customer: customers,
-        salesRep: users,
+        totalPurchaseOrders: sql<number>`COUNT(*)`.as('totalPurchaseOrders'),
+        openPurchaseOrders: sql<number>`COUNT(*) FILTER (WHERE ${purchaseOrders.status} IN ('draft', 'sent', 'confirmed'))`.as('openPurchaseOrders'),
+        totalPurchaseValue: sql<number>`COALESCE(SUM(${purchaseOrders.totalAmount}), 0)`.as('totalPurchaseValue'),
+        averageOrderValue: sql<number>`COALESCE(AVG(${purchaseOrders.totalAmount}), 0)`.as('averageOrderValue'),
       })
-      .from(quotations)
-      .leftJoin(customers, eq(quotations.customerId, customers.id))
-      .leftJoin(users, eq(quotations.salesRepId, users.id))
-      .where(eq(quotations.id, id));
+      .from(purchaseOrders);
 
-    if (quotationData.length === 0) return undefined;
+    // Get pending approvals
+    const [approvalMetrics] = await db
+      .select({
+        pendingApprovals: sql<number>`COUNT(*)`.as('pendingApprovals'),
+      })
+      .from(approvals)
+      .where(eq(approvals.status, 'pending'));
 
-    const row = quotationData[0];
-    const items = await db
+    // Get matching exceptions
+    const [matchMetrics] = await db
       .select({
-        quotationItem: quotationItems,
-        product: products,
+        matchingExceptions: sql<number>`COUNT(*)`.as('matchingExceptions'),
       })
-      .from(quotationItems)
-      .leftJoin(products, eq(quotationItems.productId, products.id))
-      .where(eq(quotationItems.quotationId, id));
+      .from(matchResults)
+      .where(sql`${matchResults.status} != 'matched'`);
 
     return {
-      ...row.quotation,
-      customer: row.customer!,
-      salesRep: row.salesRep || undefined,
-      items: items.map(item => ({ ...item.quotationItem, product: item.product! })),
+      totalPurchaseOrders: poMetrics?.totalPurchaseOrders || 0,
+      pendingApprovals: approvalMetrics?.pendingApprovals || 0,
+      openPurchaseOrders: poMetrics?.openPurchaseOrders || 0,
+      totalPurchaseValue: parseFloat(poMetrics?.totalPurchaseValue?.toString() || '0'),
+      averageOrderValue: parseFloat(poMetrics?.averageOrderValue?.toString() || '0'),
+      topSuppliers: [], // Would implement with complex query
+      upcomingPayments: [], // Would implement with complex query
+      matchingExceptions: matchMetrics?.matchingExceptions || 0,
+      currencyExposure: [], // Would implement with complex query
     };
   }
 
-  async createQuotation(quotationData: InsertQuotation): Promise<Quotation> {
+  // AI Module Operations Implementation
+  
+  // AI Chat Session operations
+  async getAiChatSessions(userId?: string, status?: string, limit = 50): Promise<AiChatSession[]> {
     const db = await getDb();
-    const [quotation] = await db.insert(quotations).values(quotationData).returning();
+    const conditions = [];
     
-    // PERFORMANCE OPTIMIZATION: Invalidate quotations cache after creation
-    await advancedCache.invalidate('quotations:list:*');
-    console.log('♻️  [Cache Invalidation] Quotations cache cleared after create');
+    if (userId) conditions.push(eq(aiChatSessions.userId, userId));
+    if (status) conditions.push(eq(aiChatSessions.status, status as any));
     
-    return quotation;
+    return await db
+      .select()
+      .from(aiChatSessions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .limit(limit)
+      .orderBy(desc(aiChatSessions.createdAt));
   }
 
-  async updateQuotation(id: string, quotationData: Partial<InsertQuotation>): Promise<Quotation> {
+  async getAiChatSession(id: string): Promise<(AiChatSession & { messages: AiChatMessage[] }) | undefined> {
     const db = await getDb();
-    const [quotation] = await db
-      .update(quotations)
-      .set({ ...quotationData, updatedAt: new Date() })
-      .where(eq(quotations.id, id))
+    const [session] = await db
+      .select()
+      .from(aiChatSessions)
+      .where(eq(aiChatSessions.id, id));
+    
+    if (!session) return undefined;
+    
+    const messages = await db
+      .select()
+      .from(aiChatMessages)
+      .where(eq(aiChatMessages.sessionId, id))
+      .orderBy(asc(aiChatMessages.createdAt));
+    
+    return { ...session, messages };
+  }
+
+  async createAiChatSession(sessionData: InsertAiChatSession): Promise<AiChatSession> {
+    const db = await getDb();
+    const [session] = await db
+      .insert(aiChatSessions)
+      .values(sessionData)
+      .returning();
+    return session;
+  }
+
+  async updateAiChatSession(id: string, sessionData: Partial<InsertAiChatSession>): Promise<AiChatSession> {
+    const db = await getDb();
+    const [session] = await db
+      .update(aiChatSessions)
+      .set({ ...sessionData, updatedAt: new Date() })
+      .where(eq(aiChatSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async closeAiChatSession(id: string): Promise<AiChatSession> {
+    const db = await getDb();
+    const [session] = await db
+      .update(aiChatSessions)
+      .set({ 
+        status: 'closed',
+        updatedAt: new Date()
+      })
+      .where(eq(aiChatSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  // AI Chat Message operations
+  async getAiChatMessages(sessionId: string, limit = 100): Promise<AiChatMessage[]> {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(aiChatMessages)
+      .where(eq(aiChatMessages.sessionId, sessionId))
+      .limit(limit)
+      .orderBy(asc(aiChatMessages.createdAt));
+  }
+
+  async createAiChatMessage(messageData: InsertAiChatMessage): Promise<AiChatMessage> {
+    const db = await getDb();
+    const [message] = await db
+      .insert(aiChatMessages)
+      .values(messageData)
       .returning();
     
-    // PERFORMANCE OPTIMIZATION: Invalidate quotations cache after update
-    await advancedCache.invalidate('quotations:list:*');
-    console.log('♻️  [Cache Invalidation] Quotations cache cleared after update');
+    // Update session timestamp
+    await db
+      .update(aiChatSessions)
+      .set({ updatedAt: new Date() })
+      .where(eq(aiChatSessions.id, messageData.sessionId));
     
-    return quotation;
+    return message;
   }
 
-  async deleteQuotation(id: string): Promise<void> {
+  // AI Insights operations
+  async getAiInsights(type?: string, status?: string, entityType?: string, entityId?: string, limit = 50): Promise<(AiInsight & { generatedByUser?: User; reviewedByUser?: User; appliedByUser?: User })[]> {
     const db = await getDb();
-    await db.delete(quotationItems).where(eq(quotationItems.quotationId, id));
-    await db.delete(quotations).where(eq(quotations.id, id));
+    const conditions = [];
+    
+    if (type) conditions.push(eq(aiInsights.type, type as any));
+    if (status) conditions.push(eq(aiInsights.status, status as any));
+    if (entityType) conditions.push(eq(aiInsights.entityType, entityType));
+    if (entityId) conditions.push(eq(aiInsights.entityId, entityId));
+    
+    const results = await db
+      .select({
+        insight: aiInsights,
+        generatedBy: users,
+        reviewedBy: sql<User | null>`rev_user.*`,
+        appliedBy: sql<User | null>`app_user.*`,
+      })
+      .from(aiInsights)
+      .leftJoin(users, eq(aiInsights.generatedBy, users.id))
+      .leftJoin(sql`${users} AS rev_user`, sql`${aiInsights.reviewedBy} = rev_user.id`)
+      .leftJoin(sql`${users} AS app_user`, sql`${aiInsights.appliedBy} = app_user.id`)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .limit(limit)
+      .orderBy(desc(aiInsights.createdAt));
     
-    // PERFORMANCE OPTIMIZATION: Invalidate quotations cache after deletion
-    await advancedCache.invalidate('quotations:list:*');
-    console.log('♻️  [Cache Invalidation] Quotations cache cleared after delete');
-  }
-
-  async createQuotationItem(itemData: InsertQuotationItem): Promise<QuotationItem> {
-    const db = await getDb();
-    const [item] = await db.insert(quotationItems).values(itemData).returning();
-    return item;
+    return results.map(row => ({
+      ...row.insight,
+      generatedByUser: row.generatedBy || undefined,
+      reviewedByUser: row.reviewedBy || undefined,
+      appliedByUser: row.appliedBy || undefined,
+    }));
   }
 
-  async getQuotationItems(quotationId: string): Promise<(QuotationItem & { product: Product })[]> {
+  async getAiInsight(id: string): Promise<(AiInsight & { generatedByUser?: User; reviewedByUser?: User; appliedByUser?: User }) | undefined> {
     const db = await getDb();
-    const items = await db
+    const [row] = await db
       .select({
-        quotationItem: quotationItems,
-        product: products,
+        insight: aiInsights,
+        generatedBy: users,
+        reviewedBy: sql<User | null>`rev_user.*`,
+        appliedBy: sql<User | null>`app_user.*`,
       })
-      .from(quotationItems)
-      .leftJoin(products, eq(quotationItems.productId, products.id))
-      .where(eq(quotationItems.quotationId, quotationId));
-
-    return items.map(item => ({ ...item.quotationItem, product: item.product! }));
+      .from(aiInsights)
+      .leftJoin(users, eq(aiInsights.generatedBy, users.id))
+      .leftJoin(sql`${users} AS rev_user`, sql`${aiInsights.reviewedBy} = rev_user.id`)
+      .leftJoin(sql`${users} AS app_user`, sql`${aiInsights.appliedBy} = app_user.id`)
+      .where(eq(aiInsights.id, id));
+    
+    if (!row) return undefined;
+    
+    return {
+      ...row.insight,
+      generatedByUser: row.generatedBy || undefined,
+      reviewedByUser: row.reviewedBy || undefined,
+      appliedByUser: row.appliedBy || undefined,
+    };
   }
 
-  async updateQuotationItem(id: string, itemData: Partial<InsertQuotationItem>): Promise<QuotationItem> {
+  async createAiInsight(insightData: InsertAiInsight): Promise<AiInsight> {
     const db = await getDb();
-    const [item] = await db
-      .update(quotationItems)
-      .set(itemData)
-      .where(eq(quotationItems.id, id))
+    const [insight] = await db
+      .insert(aiInsights)
+      .values(insightData)
       .returning();
-    return item;
+    return insight;
   }
 
-  async deleteQuotationItem(id: string): Promise<void> {
+  async updateAiInsight(id: string, insightData: Partial<InsertAiInsight>): Promise<AiInsight> {
     const db = await getDb();
-    await db.delete(quotationItems).where(eq(quotationItems.id, id));
+    const [insight] = await db
+      .update(aiInsights)
+      .set({ ...insightData, updatedAt: new Date() })
+      .where(eq(aiInsights.id, id))
+      .returning();
+    return insight;
   }
 
-  async recalculateQuotationTotals(quotationId: string): Promise<Quotation> {
+  async reviewAiInsight(id: string, reviewerId: string, status: 'reviewed' | 'applied' | 'dismissed'): Promise<AiInsight> {
     const db = await getDb();
-    
-    // Get quotation
-    const [quotation] = await db
-      .select()
-      .from(quotations)
-      .where(eq(quotations.id, quotationId));
-    
-    if (!quotation) throw new Error("Quotation not found");
-
-    // Get all line items for this quotation
-    const items = await db
-      .select()
-      .from(quotationItems)
-      .where(eq(quotationItems.quotationId, quotationId));
-
-    // Calculate totals from line items
-    let subtotal = 0;
-    let totalDiscount = 0;
-    let totalTax = 0;
-
-    items.forEach(item => {
-      const lineSubtotal = item.quantity * parseFloat(item.unitPrice);
-      const discountAmount = lineSubtotal * (parseFloat(item.discount || '0') / 100);
-      const afterDiscount = lineSubtotal - discountAmount;
-      const taxAmount = afterDiscount * (parseFloat(item.tax || '0') / 100);
-      
-      subtotal += lineSubtotal;
-      totalDiscount += discountAmount;
-      totalTax += taxAmount;
-    });
-
-    const totalAmount = subtotal - totalDiscount + totalTax;
-
-    // Update quotation with calculated totals
-    const [updated] = await db
-      .update(quotations)
-      .set({
-        subtotal: subtotal.toFixed(2),
-        discountAmount: totalDiscount.toFixed(2),
-        taxAmount: totalTax.toFixed(2),
-        totalAmount: totalAmount.toFixed(2),
+    const [insight] = await db
+      .update(aiInsights)
+      .set({ 
+        status,
+        reviewedBy: reviewerId,
         updatedAt: new Date()
       })
-      .where(eq(quotations.id, quotationId))
+      .where(eq(aiInsights.id, id))
       .returning();
-
-    return updated;
+    return insight;
   }
 
-  async convertQuotationToOrder(quotationId: string, orderData?: Partial<InsertSalesOrder>): Promise<SalesOrder> {
+  async applyAiInsight(id: string, appliedBy: string): Promise<AiInsight> {
     const db = await getDb();
-    
-    const quotation = await this.getQuotation(quotationId);
-    if (!quotation) throw new Error("Quotation not found");
-
-    // Create sales order
-    const orderNumber = `SO-${Date.now()}`;
-    const [order] = await db.insert(salesOrders).values({
-      orderNumber,
-      customerId: quotation.customerId,
-      salesRepId: quotation.salesRepId,
-      orderDate: new Date().toISOString().split('T')[0] as any,
-      subtotal: quotation.subtotal,
-      taxAmount: quotation.taxAmount,
-      totalAmount: quotation.totalAmount,
-      notes: quotation.notes,
-      ...orderData,
-    }).returning();
-
-    // Create order items
-    for (const item of quotation.items) {
-      await db.insert(salesOrderItems).values({
-        orderId: order.id,
-        productId: item.productId,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        totalPrice: item.lineTotal,
-      });
-    }
-
-    // Update quotation status
-    await db.update(quotations)
+    const [insight] = await db
+      .update(aiInsights)
       .set({ 
-        status: 'accepted', 
-        convertedToOrderId: order.id,
-        convertedAt: new Date(),
-        updatedAt: new Date() 
+        status: 'applied',
+        appliedBy,
+        appliedAt: new Date(),
+        updatedAt: new Date()
       })
-      .where(eq(quotations.id, quotationId));
-
-    return order;
+      .where(eq(aiInsights.id, id))
+      .returning();
+    return insight;
   }
 
-  // CRM Module - Receipt operations
-  async getReceipts(limit = 100, customerId?: string): Promise<(Omit<Receipt, 'receivedBy'> & { customer: Customer; invoice?: Invoice; receivedBy: User })[]> {
+  // AI Model Metrics operations
+  async getAiModelMetrics(modelName?: string, requestType?: string, limit = 100): Promise<AiModelMetric[]> {
     const db = await getDb();
+    const conditions = [];
+    
+    if (modelName) conditions.push(eq(aiModelMetrics.modelName, modelName));
+    if (requestType) conditions.push(eq(aiModelMetrics.requestType, requestType));
+    
     return await db
-      .select({
-        receipt: receipts,
-        customer: customers,
-        invoice: invoices,
-        receivedBy: users,
-      })
-      .from(receipts)
-      .leftJoin(customers, eq(receipts.customerId, customers.id))
-      .leftJoin(invoices, eq(receipts.invoiceId, invoices.id))
-      .leftJoin(users, eq(receipts.receivedBy, users.id))
-      .where(customerId ? eq(receipts.customerId, customerId) : sql`true`)
+      .select()
+      .from(aiModelMetrics)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
       .limit(limit)
-      .orderBy(desc(receipts.createdAt))
-      .then(rows => rows.map(row => ({
-        ...row.receipt,
-        customer: row.customer!,
-        invoice: row.invoice || undefined,
-        receivedBy: row.receivedBy!,
-      })));
-  }
-
-  async getReceipt(id: string): Promise<(Omit<Receipt, 'receivedBy'> & { customer: Customer; invoice?: Invoice; receivedBy: User }) | undefined> {
-    const db = await getDb();
-    const [row] = await db
-      .select({
-        receipt: receipts,
-        customer: customers,
-        invoice: invoices,
-        receivedBy: users,
-      })
-      .from(receipts)
-      .leftJoin(customers, eq(receipts.customerId, customers.id))
-      .leftJoin(invoices, eq(receipts.invoiceId, invoices.id))
-      .leftJoin(users, eq(receipts.receivedBy, users.id))
-      .where(eq(receipts.id, id));
-
-    if (!row) return undefined;
-
-    return {
-      ...row.receipt,
-      customer: row.customer!,
-      invoice: row.invoice || undefined,
-      receivedBy: row.receivedBy!,
-    };
-  }
-
-  async createReceipt(receiptData: InsertReceipt): Promise<Receipt> {
-    const db = await getDb();
-    const [receipt] = await db.insert(receipts).values(receiptData).returning();
-    return receipt;
+      .orderBy(desc(aiModelMetrics.createdAt));
   }
 
-  async updateReceipt(id: string, receiptData: Partial<InsertReceipt>): Promise<Receipt> {
+  async createAiModelMetric(metricData: InsertAiModelMetric): Promise<AiModelMetric> {
     const db = await getDb();
-    const [receipt] = await db
-      .update(receipts)
-      .set(receiptData)
-      .where(eq(receipts.id, id))
+    const [metric] = await db
+      .insert(aiModelMetrics)
+      .values(metricData)
       .returning();
-    return receipt;
+    return metric;
   }
 
-  async allocateReceiptToInvoice(receiptId: string, invoiceId: string, amount: number): Promise<{ receipt: Receipt; invoice: Invoice }> {
+  async getAiModelPerformanceStats(modelName?: string, days = 30): Promise<{
+    totalRequests: number;
+    successRate: number;
+    averageResponseTime: number;
+    averageTokensUsed: number;
+    errorRate: number;
+    costEstimate: number;
+  }> {
     const db = await getDb();
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - days);
     
-    return await db.transaction(async (tx) => {
-      // Validate receipt exists and is available for allocation
-      const [currentReceipt] = await tx
-        .select()
-        .from(receipts)
-        .where(eq(receipts.id, receiptId));
-      
-      if (!currentReceipt) {
-        throw new Error('Receipt not found');
-      }
-      
-      if (currentReceipt.status === 'cleared') {
-        throw new Error('Receipt has already been allocated');
-      }
-      
-      const remainingAmount = parseFloat(currentReceipt.amount) - parseFloat(currentReceipt.appliedAmount || '0');
-      if (amount > remainingAmount) {
-        throw new Error(`Allocation amount ${amount} exceeds remaining receipt amount ${remainingAmount}`);
-      }
-      
-      // Validate invoice exists
-      const [currentInvoice] = await tx
-        .select()
-        .from(invoices)
-        .where(eq(invoices.id, invoiceId));
-      
-      if (!currentInvoice) {
-        throw new Error('Invoice not found');
-      }
-      
-      // Update receipt
-      const [receipt] = await tx
-        .update(receipts)
-        .set({ 
-          invoiceId,
-          appliedAmount: (parseFloat(currentReceipt.appliedAmount || '0') + amount).toFixed(2),
-          status: (parseFloat(currentReceipt.appliedAmount || '0') + amount) >= parseFloat(currentReceipt.amount) ? 'cleared' : 'pending'
-        })
-        .where(eq(receipts.id, receiptId))
-        .returning();
-
-      // Update invoice paid amount and status
-      const newPaidAmount = parseFloat(currentInvoice.paidAmount || '0') + amount;
-      const totalAmount = parseFloat(currentInvoice.totalAmount || '0');
-      const newStatus = newPaidAmount >= totalAmount ? 'paid' : newPaidAmount > 0 ? 'sent' : currentInvoice.status;
-      
-      const [invoice] = await tx
-        .update(invoices)
-        .set({ 
-          paidAmount: newPaidAmount.toFixed(2),
-          status: newStatus as any,
-          updatedAt: new Date()
-        })
-        .where(eq(invoices.id, invoiceId))
-        .returning();
-
-      return { receipt, invoice };
-    });
+    const conditions = [gte(aiModelMetrics.createdAt, cutoffDate)];
+    if (modelName) conditions.push(eq(aiModelMetrics.modelName, modelName));
+    
+    const [stats] = await db
+      .select({
+        totalRequests: sql<number>`COUNT(*)`.as('totalRequests'),
+        successCount: sql<number>`COUNT(*) FILTER (WHERE ${aiModelMetrics.success} = true)`.as('successCount'),
+        errorCount: sql<number>`COUNT(*) FILTER (WHERE ${aiModelMetrics.success} = false)`.as('errorCount'),
+        avgResponseTime: sql<number>`AVG(${aiModelMetrics.responseTime})`.as('avgResponseTime'),
+        avgTokensUsed: sql<number>`AVG(${aiModelMetrics.tokensUsed})`.as('avgTokensUsed'),
+      })
+      .from(aiModelMetrics)
+      .where(and(...conditions));
+    
+    const totalRequests = stats?.totalRequests || 0;
+    const successCount = stats?.successCount || 0;
+    const errorCount = stats?.errorCount || 0;
+    const successRate = totalRequests > 0 ? (successCount / totalRequests) * 100 : 0;
+    const errorRate = totalRequests > 0 ? (errorCount / totalRequests) * 100 : 0;
+    
+    // Rough cost estimate based on tokens used (OpenAI pricing approximation)
+    const avgTokens = stats?.avgTokensUsed || 0;
+    const costEstimate = (avgTokens * totalRequests * 0.000002); // $0.002 per 1K tokens
+    
+    return {
+      totalRequests,
+      successRate: Math.round(successRate * 100) / 100,
+      averageResponseTime: Math.round(stats?.avgResponseTime || 0),
+      averageTokensUsed: Math.round(avgTokens),
+      errorRate: Math.round(errorRate * 100) / 100,
+      costEstimate: Math.round(costEstimate * 100) / 100,
+    };
   }
 
-  // CRM Module - Commission operations
-  async getCommissionEntries(salesRepId?: string, status?: string, limit = 100, startDate?: string, endDate?: string): Promise<(CommissionEntry & { invoice: Invoice; salesRep: User; approver?: User })[]> {
+  // Marketing Module Operations Implementation
+  
+  // Campaign operations
+  async getCampaigns(status?: string, type?: string, managerId?: string, limit = 50): Promise<(Campaign & { manager: User; members: CampaignMember[] })[]> {
     const db = await getDb();
+    const conditions = [];
     
-    const dateFilter = and(
-      startDate ? gte(commissionEntries.createdAt, new Date(startDate)) : sql`true`,
-      endDate ? lte(commissionEntries.createdAt, new Date(endDate)) : sql`true`
-    );
-
-    return await db
+    if (status) conditions.push(eq(campaigns.status, status as any));
+    if (type) conditions.push(eq(campaigns.campaignType, type as any));
+    if (managerId) conditions.push(eq(campaigns.managerId, managerId));
+    
+    const campaignData = await db
       .select({
-        commission: commissionEntries,
-        invoice: invoices,
-        salesRep: users,
-        approver: sql<User>`approver_user.*`.as('approver'),
+        campaign: campaigns,
+        manager: users,
       })
-      .from(commissionEntries)
-      .leftJoin(invoices, eq(commissionEntries.invoiceId, invoices.id))
-      .leftJoin(users, eq(commissionEntries.salesRepId, users.id))
-      .leftJoin(sql`users AS approver_user`, sql`${commissionEntries.approvedBy} = approver_user.id`)
-      .where(
-        and(
-          salesRepId ? eq(commissionEntries.salesRepId, salesRepId) : sql`true`,
-          status ? sql`${commissionEntries.status} = ${status}` : sql`true`,
-          dateFilter
-        )
-      )
+      .from(campaigns)
+      .innerJoin(users, eq(campaigns.managerId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
       .limit(limit)
-      .orderBy(desc(commissionEntries.createdAt))
-      .then(rows => rows.map(row => ({
-        ...row.commission,
-        invoice: row.invoice!,
-        salesRep: row.salesRep!,
-        approver: row.approver || undefined,
-      })));
+      .orderBy(desc(campaigns.createdAt));
+    
+    const results = [];
+    for (const row of campaignData) {
+      const members = await db
+        .select()
+        .from(campaignMembers)
+        .where(eq(campaignMembers.campaignId, row.campaign.id))
+        .orderBy(asc(campaignMembers.createdAt));
+      
+      results.push({
+        ...row.campaign,
+        manager: row.manager,
+        members,
+      });
+    }
+    
+    return results;
   }
 
-  async getCommissionEntry(id: string): Promise<(CommissionEntry & { invoice: Invoice; salesRep: User; approver?: User }) | undefined> {
+  async getCampaign(id: string): Promise<(Campaign & { manager: User; members: (CampaignMember & { customer?: Customer; lead?: Lead })[] }) | undefined> {
     const db = await getDb();
-    const [row] = await db
+    const [campaignData] = await db
       .select({
-        commission: commissionEntries,
-        invoice: invoices,
-        salesRep: users,
-        approver: sql<User>`approver_user.*`.as('approver'),
+        campaign: campaigns,
+        manager: users,
       })
-      .from(commissionEntries)
-      .leftJoin(invoices, eq(commissionEntries.invoiceId, invoices.id))
-      .leftJoin(users, eq(commissionEntries.salesRepId, users.id))
-      .leftJoin(sql`users AS approver_user`, sql`${commissionEntries.approvedBy} = approver_user.id`)
-      .where(eq(commissionEntries.id, id));
+      .from(campaigns)
+      .innerJoin(users, eq(campaigns.managerId, users.id))
+      .where(eq(campaigns.id, id));
+    
+    if (!campaignData) return undefined;
+    
+    const members = await db
+      .select({
+        member: campaignMembers,
+        customer: customers,
+        lead: leads,
+      })
+      .from(campaignMembers)
+      .leftJoin(customers, eq(campaignMembers.customerId, customers.id))
+      .leftJoin(leads, eq(campaignMembers.leadId, leads.id))
+      .where(eq(campaignMembers.campaignId, id))
+      .orderBy(asc(campaignMembers.createdAt));
+    
+    return {
+      ...campaignData.campaign,
+      manager: campaignData.manager,
+      members: members.map(row => ({
+        ...row.member,
+        customer: row.customer || undefined,
+        lead: row.lead || undefined,
+      })),
+    } as any;
+  }
 
-    if (!row) return undefined;
+  async createCampaign(campaignData: InsertCampaign): Promise<Campaign> {
+    const db = await getDb();
+    const [campaign] = await db
+      .insert(campaigns)
+      .values(campaignData)
+      .returning();
+    return campaign;
+  }
 
-    return {
-      ...row.commission,
-      invoice: row.invoice!,
-      salesRep: row.salesRep!,
-      approver: row.approver || undefined,
-    };
+  async updateCampaign(id: string, campaignData: Partial<InsertCampaign>): Promise<Campaign> {
+    const db = await getDb();
+    const [campaign] = await db
+      .update(campaigns)
+      .set({ ...campaignData, updatedAt: new Date() })
+      .where(eq(campaigns.id, id))
+      .returning();
+    return campaign;
   }
 
-  async createCommissionEntry(commissionData: InsertCommissionEntry): Promise<CommissionEntry> {
+  async deleteCampaign(id: string): Promise<void> {
     const db = await getDb();
-    const [commission] = await db.insert(commissionEntries).values(commissionData).returning();
-    return commission;
+    // First delete members
+    await db.delete(campaignMembers).where(eq(campaignMembers.campaignId, id));
+    // Then delete campaign
+    await db.delete(campaigns).where(eq(campaigns.id, id));
   }
 
-  async updateCommissionEntry(id: string, commissionData: Partial<InsertCommissionEntry>): Promise<CommissionEntry> {
+  async launchCampaign(id: string): Promise<Campaign> {
     const db = await getDb();
-    const [commission] = await db
-      .update(commissionEntries)
-      .set(commissionData)
-      .where(eq(commissionEntries.id, id))
+    const [campaign] = await db
+      .update(campaigns)
+      .set({ 
+        status: 'active',
+        launchedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(campaigns.id, id))
       .returning();
-    return commission;
+    return campaign;
   }
 
-  async approveCommission(id: string, approverId: string): Promise<CommissionEntry> {
+  async pauseCampaign(id: string): Promise<Campaign> {
     const db = await getDb();
-    const [commission] = await db
-      .update(commissionEntries)
+    const [campaign] = await db
+      .update(campaigns)
       .set({ 
-        status: 'approved',
-        approvedBy: approverId,
-        approvedAt: new Date()
+        status: 'paused',
+        updatedAt: new Date()
       })
-      .where(eq(commissionEntries.id, id))
+      .where(eq(campaigns.id, id))
       .returning();
-    return commission;
+    return campaign;
   }
 
-  async getSalesRepCommissionSummary(salesRepId: string, startDate?: string, endDate?: string): Promise<{
-    totalAccrued: number;
-    totalApproved: number;
-    totalPaid: number;
-    entries: (CommissionEntry & { invoice: Invoice })[];
-  }> {
+  async completeCampaign(id: string): Promise<Campaign> {
     const db = await getDb();
-    
-    const dateFilter = and(
-      startDate ? gte(commissionEntries.createdAt, new Date(startDate)) : sql`true`,
-      endDate ? lte(commissionEntries.createdAt, new Date(endDate)) : sql`true`
-    );
+    const [campaign] = await db
+      .update(campaigns)
+      .set({ 
+        status: 'completed',
+        completedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(campaigns.id, id))
+      .returning();
+    return campaign;
+  }
 
-    const entries = await db
+  // Campaign Member operations
+  async getCampaignMembers(campaignId?: string, status?: string, limit = 100): Promise<(CampaignMember & { customer?: Customer; lead?: Lead })[]> {
+    const db = await getDb();
+    const conditions = [];
+    
+    if (campaignId) conditions.push(eq(campaignMembers.campaignId, campaignId));
+    if (status) conditions.push(eq(campaignMembers.status, status as any));
+    
+    return await db
       .select({
-        commission: commissionEntries,
-        invoice: invoices,
+        member: campaignMembers,
+        customer: customers,
+        lead: leads,
       })
-      .from(commissionEntries)
-      .leftJoin(invoices, eq(commissionEntries.invoiceId, invoices.id))
-      .where(and(eq(commissionEntries.salesRepId, salesRepId), dateFilter))
-      .orderBy(desc(commissionEntries.createdAt));
-
-    const totals = entries.reduce((acc, entry) => {
-      const amount = parseFloat(entry.commission.commissionAmount);
-      if (entry.commission.status === 'accrued') acc.totalAccrued += amount;
-      if (entry.commission.status === 'approved') acc.totalApproved += amount;
-      if (entry.commission.status === 'paid') acc.totalPaid += amount;
-      return acc;
-    }, { totalAccrued: 0, totalApproved: 0, totalPaid: 0 });
-
-    return {
-      ...totals,
-      entries: entries.map(row => ({ ...row.commission, invoice: row.invoice! })),
-    };
+      .from(campaignMembers)
+      .leftJoin(customers, eq(campaignMembers.customerId, customers.id))
+      .leftJoin(leads, eq(campaignMembers.leadId, leads.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .limit(limit)
+      .orderBy(desc(campaignMembers.createdAt))
+      .then(rows => rows.map(row => ({
+        ...row.member,
+        customer: row.customer || undefined,
+        lead: row.lead || undefined,
+      })));
   }
 
-  async markCommissionAsPaid(id: string): Promise<CommissionEntry> {
+  async addCampaignMember(memberData: InsertCampaignMember): Promise<CampaignMember> {
     const db = await getDb();
-    const [commission] = await db
-      .update(commissionEntries)
-      .set({ 
-        status: 'paid',
-        paidAt: new Date()
-      })
-      .where(eq(commissionEntries.id, id))
+    const [member] = await db
+      .insert(campaignMembers)
+      .values(memberData)
       .returning();
-    return commission;
+    
+    // Update campaign member count
+    await db
+      .update(campaigns)
+      .set({ 
+        totalMembers: sql`${campaigns.totalMembers} + 1`,
+        updatedAt: new Date()
+      })
+      .where(eq(campaigns.id, memberData.campaignId));
+    
+    return member;
   }
 
-  async updateCommissionNotes(id: string, notes?: string): Promise<CommissionEntry> {
+  async updateCampaignMember(id: string, memberData: Partial<InsertCampaignMember>): Promise<CampaignMember> {
     const db = await getDb();
-    const [commission] = await db
-      .update(commissionEntries)
-      .set({ notes })
-      .where(eq(commissionEntries.id, id))
+    const [member] = await db
+      .update(campaignMembers)
+      .set({ ...memberData, updatedAt: new Date() })
+      .where(eq(campaignMembers.id, id))
       .returning();
-    return commission;
+    return member;
   }
 
-  async getCommissionEntriesForExport(filters: {
-    salesRepId?: string;
-    status?: string;
-    startDate?: string;
-    endDate?: string;
-  }): Promise<(CommissionEntry & { 
-    invoice: Invoice & { customer: Customer }; 
-    salesRep: User; 
-    approver?: User 
-  })[]> {
+  async removeCampaignMember(id: string): Promise<void> {
     const db = await getDb();
     
-    const dateFilter = and(
-      filters.startDate ? gte(commissionEntries.createdAt, new Date(filters.startDate)) : sql`true`,
-      filters.endDate ? lte(commissionEntries.createdAt, new Date(filters.endDate)) : sql`true`
-    );
-
-    const rows = await db
-      .select({
-        commission: commissionEntries,
-        invoice: invoices,
-        customer: customers,
-        salesRep: users,
-        approver: sql<User>`approver_user.*`.as('approver'),
-      })
-      .from(commissionEntries)
-      .leftJoin(invoices, eq(commissionEntries.invoiceId, invoices.id))
-      .leftJoin(customers, eq(invoices.customerId, customers.id))
-      .leftJoin(users, eq(commissionEntries.salesRepId, users.id))
-      .leftJoin(sql`users AS approver_user`, sql`${commissionEntries.approvedBy} = approver_user.id`)
-      .where(
-        and(
-          filters.salesRepId ? eq(commissionEntries.salesRepId, filters.salesRepId) : sql`true`,
-          filters.status ? sql`${commissionEntries.status} = ${filters.status}` : sql`true`,
-          dateFilter
-        )
-      )
-      .orderBy(desc(commissionEntries.createdAt));
-
-    return rows.map(row => ({
-      ...row.commission,
-      invoice: { ...row.invoice!, customer: row.customer! },
-      salesRep: row.salesRep!,
-      approver: row.approver || undefined,
-    }));
+    // Get the campaign ID first
+    const [member] = await db
+      .select({ campaignId: campaignMembers.campaignId })
+      .from(campaignMembers)
+      .where(eq(campaignMembers.id, id));
+    
+    if (member) {
+      // Delete the member
+      await db.delete(campaignMembers).where(eq(campaignMembers.id, id));
+      
+      // Update campaign member count
+      await db
+        .update(campaigns)
+        .set({ 
+          totalMembers: sql`${campaigns.totalMembers} - 1`,
+          updatedAt: new Date()
+        })
+        .where(eq(campaigns.id, member.campaignId));
+    }
   }
 
-  async bulkCommissionActions(
-    commissionIds: string[], 
-    action: 'approve' | 'mark-paid' | 'cancel',
-    userId: string,
-    notes?: string
-  ): Promise<{ success: string[]; failed: { id: string; error: string }[] }> {
+  async getCampaignAnalytics(campaignId: string): Promise<{
+    totalMembers: number;
+    activeMembers: number;
+    optedOutMembers: number;
+    bouncedMembers: number;
+    engagementRate: number;
+    conversionRate: number;
+    totalSent: number;
+    totalOpened: number;
+    totalClicked: number;
+  }> {
     const db = await getDb();
-    const results: { success: string[]; failed: { id: string; error: string }[] } = { success: [], failed: [] };
     
-    for (const commissionId of commissionIds) {
-      try {
-        let updateData: any = {};
-        
-        switch (action) {
-          case 'approve':
-            updateData = {
-              status: 'approved',
-              approvedBy: userId,
-              approvedAt: new Date(),
-              ...(notes && { notes })
-            };
-            break;
-          case 'mark-paid':
-            updateData = {
-              status: 'paid',
-              paidAt: new Date(),
-              ...(notes && { notes })
-            };
-            break;
-          case 'cancel':
-            updateData = {
-              status: 'cancelled',
-              ...(notes && { notes })
-            };
-            break;
-        }
-        
-        await db
-          .update(commissionEntries)
-          .set(updateData)
-          .where(eq(commissionEntries.id, commissionId));
-          
-        results.success.push(commissionId);
-      } catch (error) {
-        results.failed.push({
-          id: commissionId,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
-      }
-    }
+    const [memberStats] = await db
+      .select({
+        totalMembers: sql<number>`COUNT(*)`.as('totalMembers'),
+        activeMembers: sql<number>`COUNT(*) FILTER (WHERE ${campaignMembers.status} = 'active')`.as('activeMembers'),
+        optedOutMembers: sql<number>`COUNT(*) FILTER (WHERE ${campaignMembers.status} = 'opted_out')`.as('optedOutMembers'),
+        bouncedMembers: sql<number>`COUNT(*) FILTER (WHERE ${campaignMembers.status} = 'bounced')`.as('bouncedMembers'),
+      })
+      .from(campaignMembers)
+      .where(eq(campaignMembers.campaignId, campaignId));
     
-    return results;
+    // Get communication stats
+    const [commStats] = await db
+      .select({
+        totalSent: sql<number>`COUNT(*) FILTER (WHERE ${communications.status} IN ('sent', 'delivered'))`.as('totalSent'),
+        totalOpened: sql<number>`COUNT(*) FILTER (WHERE ${communications.status} = 'opened')`.as('totalOpened'),
+        totalClicked: sql<number>`COUNT(*) FILTER (WHERE ${communications.status} = 'clicked')`.as('totalClicked'),
+      })
+      .from(communications)
+      .where(eq(communications.campaignId, campaignId));
+    
+    const totalMembers = memberStats?.totalMembers || 0;
+    const totalSent = commStats?.totalSent || 0;
+    const totalOpened = commStats?.totalOpened || 0;
+    const totalClicked = commStats?.totalClicked || 0;
+    
+    const engagementRate = totalSent > 0 ? (totalOpened / totalSent) * 100 : 0;
+    const conversionRate = totalOpened > 0 ? (totalClicked / totalOpened) * 100 : 0;
+    
+    return {
+      totalMembers,
+      activeMembers: memberStats?.activeMembers || 0,
+      optedOutMembers: memberStats?.optedOutMembers || 0,
+      bouncedMembers: memberStats?.bouncedMembers || 0,
+      engagementRate: Math.round(engagementRate * 100) / 100,
+      conversionRate: Math.round(conversionRate * 100) / 100,
+      totalSent,
+      totalOpened,
+      totalClicked,
+    };
   }
 
-  // CRM Module - Credit Override operations
-  async getCreditOverrides(customerId?: string, status?: string, limit = 100): Promise<(CreditOverride & { customer: Customer; requester: User; approver?: User; invoice?: Invoice })[]> {
+  // Compliance Module Operations Implementation
+  
+  // License operations
+  async getLicenses(status?: string, managedBy?: string, limit = 50): Promise<(License & { manager: User })[]> {
     const db = await getDb();
+    const conditions = [];
+    
+    if (status) conditions.push(eq(licenses.status, status as any));
+    if (managedBy) conditions.push(eq(licenses.managedBy, managedBy));
+    
     return await db
       .select({
-        override: creditOverrides,
-        customer: customers,
-        requester: users,
-        approver: sql<User>`approver_user.*`.as('approver'),
-        invoice: invoices,
+        license: licenses,
+        manager: users,
       })
-      .from(creditOverrides)
-      .leftJoin(customers, eq(creditOverrides.customerId, customers.id))
-      .leftJoin(users, eq(creditOverrides.requestedBy, users.id))
-      .leftJoin(sql`users AS approver_user`, sql`${creditOverrides.approvedBy} = approver_user.id`)
-      .leftJoin(invoices, eq(creditOverrides.invoiceId, invoices.id))
-      .where(
-        and(
-          customerId ? eq(creditOverrides.customerId, customerId) : sql`true`,
-          status ? sql`${creditOverrides.status} = ${status}` : sql`true`
-        )
-      )
+      .from(licenses)
+      .innerJoin(users, eq(licenses.managedBy, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
       .limit(limit)
-      .orderBy(desc(creditOverrides.createdAt))
+      .orderBy(asc(licenses.expiryDate))
       .then(rows => rows.map(row => ({
-        ...row.override,
-        customer: row.customer!,
-        requester: row.requester!,
-        approver: row.approver || undefined,
-        invoice: row.invoice || undefined,
+        ...row.license,
+        manager: row.manager,
       })));
   }
 
-  async getCreditOverride(id: string): Promise<(CreditOverride & { customer: Customer; requester: User; approver?: User; invoice?: Invoice }) | undefined> {
+  async getLicense(id: string): Promise<(License & { manager: User }) | undefined> {
     const db = await getDb();
     const [row] = await db
       .select({
-        override: creditOverrides,
-        customer: customers,
-        requester: users,
-        approver: sql<User>`approver_user.*`.as('approver'),
-        invoice: invoices,
+        license: licenses,
+        manager: users,
       })
-      .from(creditOverrides)
-      .leftJoin(customers, eq(creditOverrides.customerId, customers.id))
-      .leftJoin(users, eq(creditOverrides.requestedBy, users.id))
-      .leftJoin(sql`users AS approver_user`, sql`${creditOverrides.approvedBy} = approver_user.id`)
-      .leftJoin(invoices, eq(creditOverrides.invoiceId, invoices.id))
-      .where(eq(creditOverrides.id, id));
-
-    if (!row) return undefined;
-
-    return {
-      ...row.override,
-      customer: row.customer!,
-      requester: row.requester!,
-      approver: row.approver || undefined,
-      invoice: row.invoice || undefined,
-    };
+      .from(licenses)
+      .innerJoin(users, eq(licenses.managedBy, users.id))
+      .where(eq(licenses.id, id));
+    
+    return row ? { ...row.license, manager: row.manager } : undefined;
   }
 
-  async createCreditOverride(overrideData: InsertCreditOverride): Promise<CreditOverride> {
+  async createLicense(licenseData: InsertLicense): Promise<License> {
     const db = await getDb();
-    const [override] = await db.insert(creditOverrides).values(overrideData).returning();
-    return override;
+    const [license] = await db
+      .insert(licenses)
+      .values(licenseData)
+      .returning();
+    return license;
   }
 
-  async updateCreditOverride(id: string, overrideData: Partial<InsertCreditOverride>): Promise<CreditOverride> {
+  async updateLicense(id: string, licenseData: Partial<InsertLicense>): Promise<License> {
     const db = await getDb();
-    const [override] = await db
-      .update(creditOverrides)
-      .set(overrideData)
-      .where(eq(creditOverrides.id, id))
+    const [license] = await db
+      .update(licenses)
+      .set({ ...licenseData, updatedAt: new Date() })
+      .where(eq(licenses.id, id))
       .returning();
-    return override;
+    return license;
   }
 
-  async approveCreditOverride(id: string, approverId: string, approvedAmount: number): Promise<CreditOverride> {
+  async deleteLicense(id: string): Promise<void> {
     const db = await getDb();
-    const [override] = await db
-      .update(creditOverrides)
-      .set({ 
-        status: 'approved',
-        approvedBy: approverId,
-        approvedAmount: String(approvedAmount),
-        approvedAt: new Date()
-      })
-      .where(eq(creditOverrides.id, id))
-      .returning();
-    return override;
+    await db.delete(licenses).where(eq(licenses.id, id));
   }
 
-  async checkCustomerCredit(customerId: string, newOrderAmount: number): Promise<{
-    creditLimit: number;
-    outstandingAmount: number;
-    availableCredit: number;
-    canProceed: boolean;
-    requiresOverride: boolean;
-  }> {
+  async renewLicense(id: string, newExpiryDate: string, renewalDate: string): Promise<License> {
     const db = await getDb();
-    
-    // Get customer credit limit
-    const [customer] = await db
-      .select({ creditLimit: customers.creditLimit })
-      .from(customers)
-      .where(eq(customers.id, customerId));
-
-    if (!customer) throw new Error("Customer not found");
-
-    // Calculate outstanding amount
-    const [outstandingResult] = await db
-      .select({
-        outstanding: sql<number>`COALESCE(SUM(${invoices.totalAmount} - ${invoices.paidAmount}), 0)`.as('outstanding')
+    const [license] = await db
+      .update(licenses)
+      .set({ 
+        expiryDate: newExpiryDate,
+        renewalDate,
+        status: 'active',
+        updatedAt: new Date()
       })
-      .from(invoices)
-      .where(and(
-        eq(invoices.customerId, customerId),
-        sql`${invoices.status} != 'paid'`
-      ));
-
-    const creditLimit = parseFloat(customer.creditLimit || '0');
-    const outstandingAmount = outstandingResult?.outstanding || 0;
-    const availableCredit = creditLimit - outstandingAmount;
-    const canProceed = availableCredit >= newOrderAmount;
-    const requiresOverride = !canProceed && creditLimit > 0;
-
-    return {
-      creditLimit,
-      outstandingAmount,
-      availableCredit,
-      canProceed,
-      requiresOverride,
-    };
+      .where(eq(licenses.id, id))
+      .returning();
+    return license;
   }
 
-  // CRM Module - Lead operations
-  async getLeads(limit = 100, status?: string, assignedTo?: string): Promise<(Lead & { assignee?: User; campaign?: any; communications: Communication[] })[]> {
+  async getExpiringLicenses(daysAhead: number): Promise<(License & { manager: User })[]> {
     const db = await getDb();
-    const leadData = await db
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() + daysAhead);
+    
+    return await db
       .select({
-        lead: leads,
-        assignee: users,
+        license: licenses,
+        manager: users,
       })
-      .from(leads)
-      .leftJoin(users, eq(leads.assignedTo, users.id))
+      .from(licenses)
+      .innerJoin(users, eq(licenses.managedBy, users.id))
       .where(
         and(
-          eq(leads.isActive, true),
-          status ? sql`${leads.leadStatus} = ${status}` : sql`true`,
-          assignedTo ? eq(leads.assignedTo, assignedTo) : sql`true`
+          lte(licenses.expiryDate, cutoffDate.toISOString().split('T')[0]),
+          eq(licenses.status, 'active')
         )
       )
-      .limit(limit)
-      .orderBy(desc(leads.createdAt));
-
-    const leadsWithCommunications = await Promise.all(
-      leadData.map(async (row) => {
-        const comms = await db
-          .select()
-          .from(communications)
-          .where(eq(communications.leadId, row.lead.id))
-          .orderBy(desc(communications.createdAt));
+      .orderBy(asc(licenses.expiryDate))
+      .then(rows => rows.map(row => ({
+        ...row.license,
+        manager: row.manager,
+      })));
+  }
 
-        return {
-          ...row.lead,
-          assignee: row.assignee || undefined,
-          campaign: undefined, // TODO: Add campaign data if needed
-          communications: comms,
-        };
+  // Regulatory Report operations
+  async getRegulatoryReports(status?: string, reportType?: string, preparedBy?: string, limit = 50): Promise<(RegulatoryReport & { preparer: User; reviewer?: User; approver?: User })[]> {
+    const db = await getDb();
+    const conditions = [];
+    
+    if (status) conditions.push(eq(regulatoryReports.status, status as any));
+    if (reportType) conditions.push(eq(regulatoryReports.reportType, reportType));
+    if (preparedBy) conditions.push(eq(regulatoryReports.preparedBy, preparedBy));
+    
+    const preparers = alias(users, 'preparers');
+    const reviewers = alias(users, 'reviewers');
+    const approvers = alias(users, 'approvers');
+    return await db
+      .select({
+        report: regulatoryReports,
+        preparer: preparers,
+        reviewer: reviewers,
+        approver: approvers,
       })
-    );
-
-    return leadsWithCommunications;
+      .from(regulatoryReports)
+      .innerJoin(preparers, eq(regulatoryReports.preparedBy, preparers.id))
+      .leftJoin(reviewers, eq(regulatoryReports.reviewedBy, reviewers.id))
+      .leftJoin(approvers, eq(regulatoryReports.approvedBy, approvers.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .limit(limit)
+      .orderBy(desc(regulatoryReports.createdAt))
+      .then(rows => rows.map(row => ({
+        ...row.report,
+        preparer: row.preparer,
+        reviewer: row.reviewer || undefined,
+        approver: row.approver || undefined,
+      })));
   }
 
-  async getLead(id: string): Promise<(Lead & { assignee?: User; campaign?: any; communications: Communication[] }) | undefined> {
+  async getRegulatoryReport(id: string): Promise<(RegulatoryReport & { preparer: User; reviewer?: User; approver?: User }) | undefined> {
     const db = await getDb();
-    const [leadData] = await db
+    const preparers = alias(users, 'preparers');
+    const reviewers = alias(users, 'reviewers');
+    const approvers = alias(users, 'approvers');
+    const [row] = await db
       .select({
-        lead: leads,
-        assignee: users,
+        report: regulatoryReports,
+        preparer: preparers,
+        reviewer: reviewers,
+        approver: approvers,
       })
-      .from(leads)
-      .leftJoin(users, eq(leads.assignedTo, users.id))
-      .where(eq(leads.id, id));
-
-    if (!leadData) return undefined;
-
-    const comms = await db
-      .select()
-      .from(communications)
-      .where(eq(communications.leadId, id))
-      .orderBy(desc(communications.createdAt));
+      .from(regulatoryReports)
+      .innerJoin(preparers, eq(regulatoryReports.preparedBy, preparers.id))
+      .leftJoin(reviewers, eq(regulatoryReports.reviewedBy, reviewers.id))
+      .leftJoin(approvers, eq(regulatoryReports.approvedBy, approvers.id))
+      .where(eq(regulatoryReports.id, id));
+    
+    return row ? {
+      ...row.report,
+      preparer: row.preparer,
+      reviewer: row.reviewer || undefined,
+      approver: row.approver || undefined,
+    } : undefined;
+  }
 
-    return {
-      ...leadData.lead,
-      assignee: leadData.assignee || undefined,
-      campaign: undefined, // TODO: Add campaign data if needed
-      communications: comms,
-    };
+  async createRegulatoryReport(reportData: InsertRegulatoryReport): Promise<RegulatoryReport> {
+    const db = await getDb();
+    const [report] = await db
+      .insert(regulatoryReports)
+      .values(reportData)
+      .returning();
+    return report;
   }
 
-  async createLead(leadData: InsertLead): Promise<Lead> {
+  async updateRegulatoryReport(id: string, reportData: Partial<InsertRegulatoryReport>): Promise<RegulatoryReport> {
     const db = await getDb();
-    const [lead] = await db.insert(leads).values(leadData).returning();
-    return lead;
+    const [report] = await db
+      .update(regulatoryReports)
+      .set({ ...reportData, updatedAt: new Date() })
+      .where(eq(regulatoryReports.id, id))
+      .returning();
+    return report;
   }
 
-  async updateLead(id: string, leadData: Partial<InsertLead>): Promise<Lead> {
+  // Workflow: draft -> reviewed -> approved -> submitted; the authority's answer is recorded as accepted/rejected
+  async submitRegulatoryReport(id: string, submissionRef: string): Promise<RegulatoryReport> {
     const db = await getDb();
-    const [lead] = await db
-      .update(leads)
-      .set({ ...leadData, updatedAt: new Date() })
-      .where(eq(leads.id, id))
+    const current = await this.getRegulatoryReport(id);
+    if (!current) throw new Error('Regulatory report not found');
+    if (current.status !== 'draft') throw new Error(`Report is already ${current.status}`);
+    if (!current.approvedBy) throw new Error('Report must be approved before it is submitted');
+
+    const [report] = await db
+      .update(regulatoryReports)
+      .set({ 
+        status: 'submitted',
+        submissionReference: submissionRef,
+        submittedDate: new Date().toISOString().split('T')[0],
+        updatedAt: new Date()
+      })
+      .where(eq(regulatoryReports.id, id))
       .returning();
-    return lead;
+    return report;
   }
 
-  async deleteLead(id: string): Promise<void> {
+  async reviewRegulatoryReport(id: string, reviewerId: string): Promise<RegulatoryReport> {
     const db = await getDb();
-    await db.update(leads).set({ isActive: false }).where(eq(leads.id, id));
+    const current = await this.getRegulatoryReport(id);
+    if (!current) throw new Error('Regulatory report not found');
+    if (current.status !== 'draft') throw new Error('Only draft reports can be reviewed');
+    if (current.preparedBy === reviewerId) throw new Error('A report cannot be reviewed by the person who prepared it');
+
+    const [report] = await db
+      .update(regulatoryReports)
+      .set({ 
+        reviewedBy: reviewerId,
+        rejectionReason: null,
+        updatedAt: new Date()
+      })
+      .where(eq(regulatoryReports.id, id))
+      .returning();
+    return report;
   }
 
-  async convertLeadToCustomer(leadId: string, customerData: InsertCustomer): Promise<{ lead: Lead; customer: Customer }> {
+  async approveRegulatoryReport(id: string, approverId: string): Promise<RegulatoryReport> {
     const db = await getDb();
-    
-    // Create customer
-    const [customer] = await db.insert(customers).values(customerData).returning();
-    
-    // Update lead
-    const [lead] = await db
-      .update(leads)
+    const current = await this.getRegulatoryReport(id);
+    if (!current) throw new Error('Regulatory report not found');
+
+    // Before submission approval is internal sign-off; after submission it records the authority's acceptance
+    if (current.status === 'submitted') {
+      const [report] = await db
+        .update(regulatoryReports)
+        .set({ status: 'accepted', updatedAt: new Date() })
+        .where(eq(regulatoryReports.id, id))
+        .returning();
+      return report;
+    }
+
+    if (current.status !== 'draft') throw new Error(`Report is already ${current.status}`);
+    if (!current.reviewedBy) throw new Error('Report must be reviewed before it is approved');
+
+    const [report] = await db
+      .update(regulatoryReports)
       .set({ 
-        leadStatus: 'converted',
-        convertedAt: new Date(),
-        convertedToCustomerId: customer.id,
+        approvedBy: approverId,
         updatedAt: new Date()
       })
-      .where(eq(leads.id, leadId))
+      .where(eq(regulatoryReports.id, id))
+      .returning();
+    return report;
+  }
+
+  async rejectRegulatoryReport(id: string, approverId: string, reason: string): Promise<RegulatoryReport> {
+    const db = await getDb();
+    const current = await this.getRegulatoryReport(id);
+    if (!current) throw new Error('Regulatory report not found');
+    if (current.status !== 'draft' && current.status !== 'submitted') {
+      throw new Error(`Report is already ${current.status}`);
+    }
+
+    // Internal rejection sends the draft back for rework; rejection by the authority closes it
+    const [report] = await db
+      .update(regulatoryReports)
+      .set(current.status === 'submitted'
+        ? { status: 'rejected', rejectionReason: reason, updatedAt: new Date() }
+        : { status: 'draft', reviewedBy: null, approvedBy: null, rejectionReason: reason, updatedAt: new Date() })
+      .where(eq(regulatoryReports.id, id))
       .returning();
-
-    return { lead, customer };
+    return report;
   }
 
-  // CRM Module - Lead Communication operations
-  async getLeadCommunications(leadId: string, limit = 50): Promise<(Communication & { user: User })[]> {
+  // Audit Log operations
+  async getAuditLogs(tableName?: string, recordId?: string, userId?: string, action?: string, limit = 100, startDate?: Date, endDate?: Date): Promise<(AuditLog & { user?: User })[]> {
     const db = await getDb();
+    const conditions = [];
+    
+    if (tableName) conditions.push(eq(auditLogs.tableName, tableName));
+    if (recordId) conditions.push(eq(auditLogs.recordId, recordId));
+    if (userId) conditions.push(eq(auditLogs.userId, userId));
+    if (action) conditions.push(eq(auditLogs.action, action as any));
+    if (startDate) conditions.push(gte(auditLogs.timestamp, startDate));
+    if (endDate) conditions.push(lte(auditLogs.timestamp, endDate));
+    
     return await db
       .select({
-        communication: communications,
+        auditLog: auditLogs,
         user: users,
       })
-      .from(communications)
-      .leftJoin(users, eq(communications.userId, users.id))
-      .where(eq(communications.leadId, leadId))
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.userId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
       .limit(limit)
-      .orderBy(desc(communications.createdAt))
+      .orderBy(desc(auditLogs.timestamp))
       .then(rows => rows.map(row => ({
-        ...row.communication,
-        user: row.user!,
+        ...row.auditLog,
+        user: row.user || undefined,
       })));
   }
 
-  async createLeadCommunication(communicationData: InsertCommunication): Promise<Communication> {
-    const db = await getDb();
-    const [communication] = await db.insert(communications).values(communicationData).returning();
-    return communication;
-  }
-
-  async updateLeadCommunication(id: string, communicationData: Partial<InsertCommunication>): Promise<Communication> {
+  async createAuditLog(auditLogData: InsertAuditLog): Promise<AuditLog> {
     const db = await getDb();
-    const [communication] = await db
-      .update(communications)
-      .set(communicationData)
-      .where(eq(communications.id, id))
+    const [auditLog] = await db
+      .insert(auditLogs)
+      .values(auditLogData)
       .returning();
-    return communication;
+    return auditLog;
   }
 
-  // CRM Module - General Communication operations
-  async getCommunication(id: string): Promise<Communication | undefined> {
+  async verifyAuditLogChain(): Promise<AuditChainVerification> {
     const db = await getDb();
-    const [communication] = await db
-      .select()
-      .from(communications)
-      .where(eq(communications.id, id))
-      .limit(1);
-    return communication;
+    return await db.transaction(async (tx) => verifyAuditChain(tx), { isolationLevel: 'repeatable read', accessMode: 'read only' });
   }
 
-  async getCustomerCommunications(customerId: string, limit = 50): Promise<Communication[]> {
+  // Recall Notice operations
+  async getRecallNotices(status?: string, productId?: string, managedBy?: string, limit = 50): Promise<(RecallNotice & { product: Product; manager: User })[]> {
     const db = await getDb();
+    const conditions = [];
+    
+    if (status) conditions.push(eq(recallNotices.status, status as any));
+    if (productId) conditions.push(eq(recallNotices.productId, productId));
+    if (managedBy) conditions.push(eq(recallNotices.managedBy, managedBy));
+    
     return await db
-      .select()
-      .from(communications)
-      .where(eq(communications.customerId, customerId))
+      .select({
+        recall: recallNotices,
+        product: products,
+        manager: users,
+      })
+      .from(recallNotices)
+      .innerJoin(products, eq(recallNotices.productId, products.id))
+      .innerJoin(users, eq(recallNotices.managedBy, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
       .limit(limit)
-      .orderBy(desc(communications.createdAt));
+      .orderBy(desc(recallNotices.createdAt))
+      .then(rows => rows.map(row => ({
+        ...row.recall,
+        product: row.product,
+        manager: row.manager,
+      })));
   }
 
-  // Sentiment Analysis operations
-  async upsertSentiment(sentimentData: InsertSentimentAnalysis): Promise<SentimentAnalysis> {
+  async getRecallNotice(id: string): Promise<(RecallNotice & { product: Product; manager: User }) | undefined> {
     const db = await getDb();
+    const [row] = await db
+      .select({
+        recall: recallNotices,
+        product: products,
+        manager: users,
+      })
+      .from(recallNotices)
+      .innerJoin(products, eq(recallNotices.productId, products.id))
+      .innerJoin(users, eq(recallNotices.managedBy, users.id))
+      .where(eq(recallNotices.id, id));
     
-    // Check if sentiment analysis already exists for this communication
-    const existing = await db
-      .select()
-      .from(sentimentAnalyses)
-      .where(eq(sentimentAnalyses.communicationId, sentimentData.communicationId))
-      .limit(1);
-    
-    if (existing.length > 0) {
-      // Update existing
-      const [sentiment] = await db
-        .update(sentimentAnalyses)
-        .set({
-          ...sentimentData,
-          analyzedAt: new Date()
-        })
-        .where(eq(sentimentAnalyses.communicationId, sentimentData.communicationId))
-        .returning();
-      return sentiment;
-    } else {
-      // Insert new
-      const [sentiment] = await db.insert(sentimentAnalyses).values(sentimentData).returning();
-      return sentiment;
-    }
+    return row ? {
+      ...row.recall,
+      product: row.product,
+      manager: row.manager,
+    } : undefined;
   }
 
-  async getSentimentByCommunication(communicationId: string): Promise<SentimentAnalysis | undefined> {
+  async createRecallNotice(recallData: InsertRecallNotice): Promise<RecallNotice> {
     const db = await getDb();
-    const [sentiment] = await db
-      .select()
-      .from(sentimentAnalyses)
-      .where(eq(sentimentAnalyses.communicationId, communicationId))
-      .limit(1);
-    return sentiment;
+    const [recall] = await db
+      .insert(recallNotices)
+      .values(recallData)
+      .returning();
+    return recall;
   }
 
-  async listSentimentsByCustomer(customerId: string, limit = 50): Promise<(SentimentAnalysis & { communication: Communication })[]> {
+  async updateRecallNotice(id: string, recallData: Partial<InsertRecallNotice>): Promise<RecallNotice> {
     const db = await getDb();
-    return await db
-      .select({
-        sentiment: sentimentAnalyses,
-        communication: communications,
-      })
-      .from(sentimentAnalyses)
-      .leftJoin(communications, eq(sentimentAnalyses.communicationId, communications.id))
-      .where(eq(sentimentAnalyses.customerId, customerId))
-      .limit(limit)
-      .orderBy(desc(sentimentAnalyses.analyzedAt))
-      .then(rows => rows.map(row => ({
-        ...row.sentiment,
-        communication: row.communication!,
-      })));
+    const [recall] = await db
+      .update(recallNotices)
+      .set({ ...recallData, updatedAt: new Date() })
+      .where(eq(recallNotices.id, id))
+      .returning();
+    return recall;
   }
 
-  async getCustomerSentimentSummary(customerId: string): Promise<{
-    totalCommunications: number;
-    averageScore: number;
-    sentimentDistribution: { negative: number; neutral: number; positive: number };
-    recentTrend: 'improving' | 'declining' | 'stable';
-    lastAnalyzedAt: Date | null;
-  }> {
+  // Batches covered by a recall - every batch of the product when no batch numbers are listed
+  private recallBatchCondition(recall: RecallNotice) {
+    const batchNumbers = recall.batchNumbers ?? [];
+    return batchNumbers.length > 0
+      ? and(eq(inventory.productId, recall.productId), inArray(inventory.batchNumber, batchNumbers))
+      : eq(inventory.productId, recall.productId);
+  }
+
+  async initiateRecall(id: string, initiatedBy: string): Promise<{ recall: RecallNotice; quarantinedBatches: Inventory[] }> {
     const db = await getDb();
-    
-    // Get overall metrics
-    const [metrics] = await db
-      .select({
-        totalCommunications: sql<number>`COUNT(*)`.as('totalCommunications'),
-        averageScore: sql<number>`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`.as('averageScore'),
-        negativeCount: sql<number>`COUNT(CASE WHEN ${sentimentAnalyses.label} = 'negative' THEN 1 END)`.as('negativeCount'),
-        neutralCount: sql<number>`COUNT(CASE WHEN ${sentimentAnalyses.label} = 'neutral' THEN 1 END)`.as('neutralCount'),
-        positiveCount: sql<number>`COUNT(CASE WHEN ${sentimentAnalyses.label} = 'positive' THEN 1 END)`.as('positiveCount'),
-        lastAnalyzedAt: sql<Date>`MAX(${sentimentAnalyses.analyzedAt})`.as('lastAnalyzedAt'),
-      })
-      .from(sentimentAnalyses)
-      .where(eq(sentimentAnalyses.customerId, customerId));
+    const [existing] = await db
+      .select()
+      .from(recallNotices)
+      .where(eq(recallNotices.id, id));
 
-    // Get recent trend (compare last 30 days vs previous 30 days)
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-    const sixtyDaysAgo = new Date();
-    sixtyDaysAgo.setDate(sixtyDaysAgo.getDate() - 60);
+    if (!existing) throw new Error('Recall notice not found');
+    if (existing.status !== 'initiated') {
+      throw new Error(`Only initiated recalls can be started. Current status: ${existing.status}`);
+    }
 
-    const [recentAvg] = await db
-      .select({
-        avgScore: sql<number>`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`.as('avgScore'),
-      })
-      .from(sentimentAnalyses)
-      .where(and(
-        eq(sentimentAnalyses.customerId, customerId),
-        gte(sentimentAnalyses.analyzedAt, thirtyDaysAgo)
-      ));
+    // Trace distribution before the batches are locked so quantityDistributed can default to it
+    const { totalDistributed } = await this.getRecallTraceability(id);
 
-    const [previousAvg] = await db
-      .select({
-        avgScore: sql<number>`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`.as('avgScore'),
-      })
-      .from(sentimentAnalyses)
-      .where(and(
-        eq(sentimentAnalyses.customerId, customerId),
-        gte(sentimentAnalyses.analyzedAt, sixtyDaysAgo),
-        lte(sentimentAnalyses.analyzedAt, thirtyDaysAgo)
-      ));
+    const result = await db.transaction(async (tx) => {
+      const quarantinedBatches = await tx
+        .update(inventory)
+        .set({
+          isQuarantined: true,
+          quarantineReason: `Recall ${existing.recallNumber}: ${existing.reason}`,
+          quarantinedAt: new Date(),
+          recallNoticeId: existing.id,
+          updatedAt: new Date()
+        })
+        .where(this.recallBatchCondition(existing))
+        .returning();
 
-    // Determine trend
-    let recentTrend: 'improving' | 'declining' | 'stable' = 'stable';
-    if (recentAvg?.avgScore && previousAvg?.avgScore) {
-      const difference = recentAvg.avgScore - previousAvg.avgScore;
-      if (difference > 0.1) recentTrend = 'improving';
-      else if (difference < -0.1) recentTrend = 'declining';
-    }
+      const [recall] = await tx
+        .update(recallNotices)
+        .set({
+          status: 'in_progress',
+          quantityDistributed: existing.quantityDistributed ?? totalDistributed,
+          updatedAt: new Date()
+        })
+        .where(eq(recallNotices.id, id))
+        .returning();
 
-    return {
-      totalCommunications: metrics?.totalCommunications || 0,
-      averageScore: metrics?.averageScore || 0,
-      sentimentDistribution: {
-        negative: metrics?.negativeCount || 0,
-        neutral: metrics?.neutralCount || 0,
-        positive: metrics?.positiveCount || 0,
-      },
-      recentTrend,
-      lastAnalyzedAt: metrics?.lastAnalyzedAt || null,
-    };
+      return { recall, quarantinedBatches };
+    });
+
+    await advancedCache.invalidate('inventory:list:*');
+    console.log(`⚠️ [Recall] ${existing.recallNumber} started by ${initiatedBy} - ${result.quarantinedBatches.length} batches quarantined`);
+    return result;
   }
 
-  async getGlobalSentimentSummary(): Promise<{
-    totalCommunications: number;
-    averageScore: number;
-    sentimentDistribution: { negative: number; neutral: number; positive: number };
-    topNegativeCustomers: { customerId: string; customerName: string; averageScore: number }[];
-    topPositiveCustomers: { customerId: string; customerName: string; averageScore: number }[];
-  }> {
+  async completeRecall(id: string): Promise<RecallNotice> {
     const db = await getDb();
-    
-    // Get overall metrics
-    const [metrics] = await db
-      .select({
-        totalCommunications: sql<number>`COUNT(*)`.as('totalCommunications'),
-        averageScore: sql<number>`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`.as('averageScore'),
-        negativeCount: sql<number>`COUNT(CASE WHEN ${sentimentAnalyses.label} = 'negative' THEN 1 END)`.as('negativeCount'),
-        neutralCount: sql<number>`COUNT(CASE WHEN ${sentimentAnalyses.label} = 'neutral' THEN 1 END)`.as('neutralCount'),
-        positiveCount: sql<number>`COUNT(CASE WHEN ${sentimentAnalyses.label} = 'positive' THEN 1 END)`.as('positiveCount'),
-      })
-      .from(sentimentAnalyses);
+    const [existing] = await db
+      .select()
+      .from(recallNotices)
+      .where(eq(recallNotices.id, id));
 
-    // Get top negative customers
-    const topNegativeCustomers = await db
-      .select({
-        customerId: sentimentAnalyses.customerId,
-        customerName: customers.name,
-        averageScore: sql<number>`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`.as('averageScore'),
-      })
-      .from(sentimentAnalyses)
-      .leftJoin(customers, eq(sentimentAnalyses.customerId, customers.id))
-      .groupBy(sentimentAnalyses.customerId, customers.name)
-      .having(sql`COUNT(*) >= 3`) // At least 3 communications
-      .orderBy(asc(sql`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`))
-      .limit(5);
+    if (!existing) throw new Error('Recall notice not found');
+    if (existing.status !== 'in_progress') {
+      throw new Error(`Only recalls in progress can be completed. Current status: ${existing.status}`);
+    }
 
-    // Get top positive customers
-    const topPositiveCustomers = await db
-      .select({
-        customerId: sentimentAnalyses.customerId,
-        customerName: customers.name,
-        averageScore: sql<number>`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`.as('averageScore'),
-      })
-      .from(sentimentAnalyses)
-      .leftJoin(customers, eq(sentimentAnalyses.customerId, customers.id))
-      .groupBy(sentimentAnalyses.customerId, customers.name)
-      .having(sql`COUNT(*) >= 3`) // At least 3 communications
-      .orderBy(desc(sql`AVG(CAST(${sentimentAnalyses.score} AS FLOAT))`))
-      .limit(5);
+    return await db.transaction(async (tx) => {
+      await this.refreshRecallRecovery(tx, id);
 
-    return {
-      totalCommunications: metrics?.totalCommunications || 0,
-      averageScore: metrics?.averageScore || 0,
-      sentimentDistribution: {
-        negative: metrics?.negativeCount || 0,
-        neutral: metrics?.neutralCount || 0,
-        positive: metrics?.positiveCount || 0,
-      },
-      topNegativeCustomers: topNegativeCustomers.map(row => ({
-        customerId: row.customerId,
-        customerName: row.customerName || 'Unknown Customer',
-        averageScore: row.averageScore || 0,
-      })),
-      topPositiveCustomers: topPositiveCustomers.map(row => ({
-        customerId: row.customerId,
-        customerName: row.customerName || 'Unknown Customer',
-        averageScore: row.averageScore || 0,
-      })),
-    };
+      const [recall] = await tx
+        .update(recallNotices)
+        .set({
+          status: 'completed',
+          completionDate: new Date().toISOString().split('T')[0],
+          updatedAt: new Date()
+        })
+        .where(eq(recallNotices.id, id))
+        .returning();
+      return recall;
+    });
   }
 
-  // Enhanced Dashboard metrics for CRM
-  async getCrmDashboardMetrics(): Promise<{
-    totalQuotations: number;
-    pendingQuotations: number;
-    quotationValue: number;
-    conversionRate: number;
-    totalLeads: number;
-    qualifiedLeads: number;
-    totalCommissions: number;
-    outstandingReceipts: number;
-    creditOverridesPending: number;
+  async getRecallTraceability(id: string): Promise<{
+    recall: RecallNotice;
+    batches: Inventory[];
+    recipients: Array<{
+      source: 'sales_order' | 'pos';
+      documentId: string;
+      documentNumber: string;
+      customerId: string | null;
+      customerName: string | null;
+      inventoryId: string;
+      batchNumber: string | null;
+      quantity: number;
+      date: Date | null;
+    }>;
+    totalDistributed: number;
   }> {
     const db = await getDb();
+    const [recall] = await db
+      .select()
+      .from(recallNotices)
+      .where(eq(recallNotices.id, id));
 
-    // Get quotation metrics
-    const [quotationMetrics] = await db
-      .select({
-        totalQuotations: sql<number>`COUNT(*)`.as('totalQuotations'),
-        pendingQuotations: sql<number>`COUNT(CASE WHEN status IN ('draft', 'sent') THEN 1 END)`.as('pendingQuotations'),
-        quotationValue: sql<number>`COALESCE(SUM(${quotations.totalAmount}), 0)`.as('quotationValue'),
-        acceptedQuotations: sql<number>`COUNT(CASE WHEN status = 'accepted' THEN 1 END)`.as('acceptedQuotations'),
-      })
-      .from(quotations);
+    if (!recall) throw new Error('Recall notice not found');
 
-    // Get lead metrics
-    const [leadMetrics] = await db
-      .select({
-        totalLeads: sql<number>`COUNT(*)`.as('totalLeads'),
-        qualifiedLeads: sql<number>`COUNT(CASE WHEN lead_status IN ('qualified', 'converted') THEN 1 END)`.as('qualifiedLeads'),
-      })
-      .from(leads)
-      .where(eq(leads.isActive, true));
+    const batches = await db
+      .select()
+      .from(inventory)
+      .where(this.recallBatchCondition(recall))
+      .orderBy(asc(inventory.batchNumber));
 
-    // Get commission metrics
-    const [commissionMetrics] = await db
+    const batchIds = batches.map(b => b.id);
+    if (batchIds.length === 0) {
+      return { recall, batches, recipients: [], totalDistributed: 0 };
+    }
+
+    const batchNumberById = new Map(batches.map(b => [b.id, b.batchNumber]));
+    const recipients = new Map<string, {
+      source: 'sales_order' | 'pos';
+      documentId: string;
+      documentNumber: string;
+      customerId: string | null;
+      customerName: string | null;
+      inventoryId: string;
+      batchNumber: string | null;
+      quantity: number;
+      date: Date | null;
+    }>();
+
+    // Sales orders fulfilled from the batches (FEFO picking writes 'out' movements referencing the order number)
+    const fulfilledRows = await db
       .select({
-        totalCommissions: sql<number>`COALESCE(SUM(${commissionEntries.commissionAmount}), 0)`.as('totalCommissions'),
+        orderId: salesOrders.id,
+        orderNumber: salesOrders.orderNumber,
+        customerId: customers.id,
+        customerName: customers.name,
+        inventoryId: stockMovements.inventoryId,
+        quantity: stockMovements.quantity,
+        date: stockMovements.createdAt,
       })
-      .from(commissionEntries)
-      .where(eq(commissionEntries.status, 'accrued'));
+      .from(stockMovements)
+      .innerJoin(salesOrders, eq(stockMovements.reference, salesOrders.orderNumber))
+      .innerJoin(customers, eq(salesOrders.customerId, customers.id))
+      .where(and(
+        eq(stockMovements.movementType, 'out'),
+        inArray(stockMovements.inventoryId, batchIds)
+      ));
 
-    // Get receipt metrics
-    const [receiptMetrics] = await db
+    for (const row of fulfilledRows) {
+      if (!row.inventoryId) continue;
+      const key = `sales_order:${row.orderId}:${row.inventoryId}`;
+      const existing = recipients.get(key);
+      if (existing) {
+        existing.quantity += Math.abs(row.quantity);
+      } else {
+        recipients.set(key, {
+          source: 'sales_order',
+          documentId: row.orderId,
+          documentNumber: row.orderNumber,
+          customerId: row.customerId,
+          customerName: row.customerName,
+          inventoryId: row.inventoryId,
+          batchNumber: batchNumberById.get(row.inventoryId) ?? null,
+          quantity: Math.abs(row.quantity),
+          date: row.date,
+        });
+      }
+    }
+
+    // Order lines pinned to a batch that were not already traced through movements
+    const pinnedRows = await db
       .select({
-        outstandingReceipts: sql<number>`COALESCE(SUM(${receipts.amount} - ${receipts.appliedAmount}), 0)`.as('outstandingReceipts'),
+        orderId: salesOrders.id,
+        orderNumber: salesOrders.orderNumber,
+        customerId: customers.id,
+        customerName: customers.name,
+        inventoryId: salesOrderItems.inventoryId,
+        quantity: salesOrderItems.quantity,
+        date: salesOrders.updatedAt,
       })
-      .from(receipts)
-      .where(eq(receipts.status, 'pending'));
+      .from(salesOrderItems)
+      .innerJoin(salesOrders, eq(salesOrderItems.orderId, salesOrders.id))
+      .innerJoin(customers, eq(salesOrders.customerId, customers.id))
+      .where(and(
+        inArray(salesOrderItems.inventoryId, batchIds),
+        inArray(salesOrders.status, ['partially_shipped', 'shipped', 'delivered'])
+      ));
 
-    // Get credit override metrics
-    const [creditMetrics] = await db
+    for (const row of pinnedRows) {
+      if (!row.inventoryId) continue;
+      const key = `sales_order:${row.orderId}:${row.inventoryId}`;
+      if (recipients.has(key)) continue;
+      recipients.set(key, {
+        source: 'sales_order',
+        documentId: row.orderId,
+        documentNumber: row.orderNumber,
+        customerId: row.customerId,
+        customerName: row.customerName,
+        inventoryId: row.inventoryId,
+        batchNumber: batchNumberById.get(row.inventoryId) ?? null,
+        quantity: row.quantity,
+        date: row.date,
+      });
+    }
+
+    // POS receipts - walk-in sales keep a null customer
+    const posRows = await db
       .select({
-        creditOverridesPending: sql<number>`COUNT(*)`.as('creditOverridesPending'),
+        receiptId: posReceipts.id,
+        receiptNumber: posReceipts.receiptNumber,
+        customerId: posReceipts.customerId,
+        customerName: customers.name,
+        inventoryId: stockMovements.inventoryId,
+        quantity: stockMovements.quantity,
+        date: posReceipts.createdAt,
       })
-      .from(creditOverrides)
-      .where(eq(creditOverrides.status, 'pending'));
+      .from(stockMovements)
+      .innerJoin(posReceipts, eq(stockMovements.reference, posReceipts.receiptNumber))
+      .leftJoin(customers, eq(posReceipts.customerId, customers.id))
+      .where(and(
+        eq(stockMovements.movementType, 'out'),
+        inArray(stockMovements.inventoryId, batchIds),
+        eq(posReceipts.status, 'completed')
+      ));
 
-    const totalQuotations = quotationMetrics?.totalQuotations || 0;
-    const acceptedQuotations = quotationMetrics?.acceptedQuotations || 0;
-    const conversionRate = totalQuotations > 0 ? (acceptedQuotations / totalQuotations) * 100 : 0;
+    for (const row of posRows) {
+      if (!row.inventoryId) continue;
+      const key = `pos:${row.receiptId}:${row.inventoryId}`;
+      const existing = recipients.get(key);
+      if (existing) {
+        existing.quantity += Math.abs(row.quantity);
+      } else {
+        recipients.set(key, {
+          source: 'pos',
+          documentId: row.receiptId,
+          documentNumber: row.receiptNumber ?? row.receiptId,
+          customerId: row.customerId,
+          customerName: row.customerName,
+          inventoryId: row.inventoryId,
+          batchNumber: batchNumberById.get(row.inventoryId) ?? null,
+          quantity: Math.abs(row.quantity),
+          date: row.date,
+        });
+      }
+    }
 
-    return {
-      totalQuotations: totalQuotations,
-      pendingQuotations: quotationMetrics?.pendingQuotations || 0,
-      quotationValue: parseFloat(quotationMetrics?.quotationValue?.toString() || '0'),
-      conversionRate: Math.round(conversionRate * 100) / 100,
-      totalLeads: leadMetrics?.totalLeads || 0,
-      qualifiedLeads: leadMetrics?.qualifiedLeads || 0,
-      totalCommissions: parseFloat(commissionMetrics?.totalCommissions?.toString() || '0'),
-      outstandingReceipts: parseFloat(receiptMetrics?.outstandingReceipts?.toString() || '0'),
-      creditOverridesPending: creditMetrics?.creditOverridesPending || 0,
-    };
+    const recipientList = Array.from(recipients.values());
+    const totalDistributed = recipientList.reduce((sum, r) => sum + r.quantity, 0);
+
+    return { recall, batches, recipients: recipientList, totalDistributed };
   }
 
-  // Enhanced Purchase Module Operations Implementation
-  
-  // Purchase Request operations
-  async getPurchaseRequests(limit = 50, status?: string, requesterId?: string): Promise<(PurchaseRequest & { requester: User; supplier?: Supplier; items: (PurchaseRequestItem & { product: Product })[] })[]> {
+  async getRecallReturns(recallId: string): Promise<RecallReturn[]> {
     const db = await getDb();
-    
-    let conditions = [];
-    if (status) conditions.push(eq(purchaseRequests.status, status as any));
-    if (requesterId) conditions.push(eq(purchaseRequests.requesterId, requesterId));
-    
-    const prs = await db
-      .select({
-        pr: purchaseRequests,
-        requester: users,
-        supplier: suppliers,
-      })
-      .from(purchaseRequests)
-      .leftJoin(users, eq(purchaseRequests.requesterId, users.id))
-      .leftJoin(suppliers, eq(purchaseRequests.supplierId, suppliers.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .limit(limit)
-      .orderBy(desc(purchaseRequests.createdAt));
-
-    // Get items for each PR
-    const results = [];
-    for (const pr of prs) {
-      const items = await db
-        .select({
-          item: purchaseRequestItems,
-          product: products,
-        })
-        .from(purchaseRequestItems)
-        .innerJoin(products, eq(purchaseRequestItems.productId, products.id))
-        .where(eq(purchaseRequestItems.prId, pr.pr.id));
-      
-      results.push({ 
-        ...pr.pr, 
-        requester: pr.requester!, 
-        supplier: pr.supplier || undefined,
-        items: items.map(item => ({ ...item.item, product: item.product }))
-      });
-    }
-    
-    return results;
+    return await db
+      .select()
+      .from(recallReturns)
+      .where(eq(recallReturns.recallNoticeId, recallId))
+      .orderBy(desc(recallReturns.createdAt));
   }
 
-  async getPurchaseRequest(id: string): Promise<(PurchaseRequest & { requester: User; supplier?: Supplier; items: (PurchaseRequestItem & { product: Product })[] }) | undefined> {
+  async recordRecallReturn(recallId: string, request: RecordRecallReturnRequest, recordedBy: string): Promise<{ recallReturn: RecallReturn; recall: RecallNotice }> {
     const db = await getDb();
-    
-    const [pr] = await db
-      .select({
-        pr: purchaseRequests,
-        requester: users,
-        supplier: suppliers,
-      })
-      .from(purchaseRequests)
-      .leftJoin(users, eq(purchaseRequests.requesterId, users.id))
-      .leftJoin(suppliers, eq(purchaseRequests.supplierId, suppliers.id))
-      .where(eq(purchaseRequests.id, id));
+    const result = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(recallNotices)
+        .where(eq(recallNotices.id, recallId));
 
-    if (!pr) return undefined;
+      if (!existing) throw new Error('Recall notice not found');
+      if (existing.status !== 'in_progress') {
+        throw new Error(`Returns can only be recorded against recalls in progress. Current status: ${existing.status}`);
+      }
 
-    const items = await db
-      .select({
-        item: purchaseRequestItems,
-        product: products,
-      })
-      .from(purchaseRequestItems)
-      .innerJoin(products, eq(purchaseRequestItems.productId, products.id))
-      .where(eq(purchaseRequestItems.prId, id));
+      const [soldBatch] = await tx
+        .select()
+        .from(inventory)
+        .where(and(eq(inventory.id, request.inventoryId), this.recallBatchCondition(existing)));
+
+      if (!soldBatch) {
+        throw new Error(`Batch ${request.inventoryId} is not covered by recall ${existing.recallNumber}`);
+      }
+
+      const { inventoryId: returnedInventoryId, movement } = await this.receiveRecalledUnits(tx, existing, soldBatch, request.warehouseId, request.quantity, recordedBy);
+
+      const [recallReturn] = await tx
+        .insert(recallReturns)
+        .values({
+          recallNoticeId: recallId,
+          customerId: request.customerId,
+          inventoryId: soldBatch.id,
+          returnedInventoryId,
+          salesOrderId: request.salesOrderId,
+          posReceiptId: request.posReceiptId,
+          batchNumber: soldBatch.batchNumber,
+          quantity: request.quantity,
+          notes: request.notes,
+          recordedBy,
+        })
+        .returning();
+
+      await this.postCostOfSalesJournal(tx, {
+        entryDate: new Date().toISOString().split('T')[0],
+        description: `Recalled units returned for ${existing.recallNumber}`,
+        sourceId: recallReturn.id,
+        sourceReference: existing.recallNumber,
+        postedBy: recordedBy,
+      }, [movement]);
+
+      const recall = await this.refreshRecallRecovery(tx, recallId);
+      return { recallReturn, recall };
+    });
+
+    await advancedCache.invalidate('inventory:list:*');
+    return result;
+  }
+
+  // Books recalled units back into a quarantined batch at the receiving warehouse
+  private async receiveRecalledUnits(tx: DbTx, recall: RecallNotice, soldBatch: Inventory, warehouseId: string, quantity: number, recordedBy: string): Promise<{ inventoryId: string; movement: StockMovement }> {
+    await this.assertPeriodOpen(tx, 'inventory', new Date());
+    const [quarantineBatch] = await tx
+      .select()
+      .from(inventory)
+      .where(and(
+        eq(inventory.productId, soldBatch.productId),
+        eq(inventory.warehouseId, warehouseId),
+        eq(inventory.recallNoticeId, recall.id),
+        soldBatch.batchNumber ? eq(inventory.batchNumber, soldBatch.batchNumber) : isNull(inventory.batchNumber)
+      ))
+      .limit(1);
+
+    let inventoryId: string;
+    if (quarantineBatch) {
+      await tx
+        .update(inventory)
+        .set({
+          quantity: sql`${inventory.quantity} + ${quantity}`,
+          updatedAt: new Date()
+        })
+        .where(eq(inventory.id, quarantineBatch.id));
+      inventoryId = quarantineBatch.id;
+    } else {
+      const [newBatch] = await tx
+        .insert(inventory)
+        .values({
+          productId: soldBatch.productId,
+          warehouseId,
+          batchNumber: soldBatch.batchNumber,
+          quantity,
+          manufactureDate: soldBatch.manufactureDate,
+          expiryDate: soldBatch.expiryDate,
+          costPerUnit: soldBatch.costPerUnit,
+          isQuarantined: true,
+          quarantineReason: `Recall ${recall.recallNumber}: customer return`,
+          quarantinedAt: new Date(),
+          recallNoticeId: recall.id,
+        })
+        .returning();
+      inventoryId = newBatch.id;
+    }
 
-    return { 
-      ...pr.pr, 
-      requester: pr.requester!,
-      supplier: pr.supplier || undefined,
-      items: items.map(item => ({ ...item.item, product: item.product }))
-    };
-  }
+    // Units come back at their batch's cost, reversing the cost of their sale
+    const movement = await this.insertStockMovement(tx, {
+      productId: soldBatch.productId,
+      warehouseId,
+      inventoryId,
+      movementType: 'in',
+      quantity,
+      reference: recall.recallNumber,
+      notes: `Recall return into quarantine - Batch: ${soldBatch.batchNumber || 'N/A'}`,
+      userId: recordedBy
+    }, { unitCost: Number(soldBatch.costPerUnit ?? 0) });
 
-  async createPurchaseRequest(prData: InsertPurchaseRequest): Promise<PurchaseRequest> {
-    const db = await getDb();
-    const [pr] = await db
-      .insert(purchaseRequests)
-      .values(prData)
-      .returning();
-    return pr;
+    return { inventoryId, movement };
   }
 
-  async updatePurchaseRequest(id: string, prData: Partial<InsertPurchaseRequest>): Promise<PurchaseRequest> {
-    const db = await getDb();
-    const [pr] = await db
-      .update(purchaseRequests)
-      .set({ ...prData, updatedAt: new Date() })
-      .where(eq(purchaseRequests.id, id))
-      .returning();
-    return pr;
-  }
+  // Recovery figures are derived from recorded returns, never entered by hand
+  private async refreshRecallRecovery(tx: DbTx, recallId: string): Promise<RecallNotice> {
+    const [recall] = await tx
+      .select()
+      .from(recallNotices)
+      .where(eq(recallNotices.id, recallId));
 
-  async deletePurchaseRequest(id: string): Promise<void> {
-    const db = await getDb();
-    // Delete items first
-    await db.delete(purchaseRequestItems).where(eq(purchaseRequestItems.prId, id));
-    // Then delete the PR
-    await db.delete(purchaseRequests).where(eq(purchaseRequests.id, id));
-  }
+    const [totals] = await tx
+      .select({
+        quantityRecovered: sql<number>`COALESCE(SUM(${recallReturns.quantity}), 0)::int`,
+      })
+      .from(recallReturns)
+      .where(eq(recallReturns.recallNoticeId, recallId));
 
-  async createPurchaseRequestItem(item: InsertPurchaseRequestItem): Promise<PurchaseRequestItem> {
-    const db = await getDb();
-    const [prItem] = await db
-      .insert(purchaseRequestItems)
-      .values(item)
-      .returning();
-    return prItem;
-  }
+    const quantityRecovered = Number(totals?.quantityRecovered ?? 0);
+    const quantityDistributed = recall.quantityDistributed ?? 0;
+    const recoveryPercentage = quantityDistributed > 0
+      ? Math.min(100, (quantityRecovered / quantityDistributed) * 100)
+      : 0;
 
-  async submitPurchaseRequest(id: string): Promise<PurchaseRequest> {
-    const db = await getDb();
-    const [pr] = await db
-      .update(purchaseRequests)
-      .set({ 
-        status: 'submitted',
-        submittedAt: new Date(),
+    const [updatedRecall] = await tx
+      .update(recallNotices)
+      .set({
+        quantityRecovered,
+        recoveryPercentage: recoveryPercentage.toFixed(2),
         updatedAt: new Date()
       })
-      .where(eq(purchaseRequests.id, id))
+      .where(eq(recallNotices.id, recallId))
       .returning();
-    return pr;
+
+    return updatedRecall;
   }
 
-  async approvePurchaseRequest(id: string, approverId: string): Promise<PurchaseRequest> {
+  // Advanced Reporting Operations Implementation
+  
+  // Report Definition operations
+  async getReportDefinitions(category?: string, isPublic?: boolean, ownerId?: string, limit = 50): Promise<(ReportDefinition & { owner: User })[]> {
     const db = await getDb();
-    const [pr] = await db
-      .update(purchaseRequests)
-      .set({ 
-        status: 'approved',
-        approvedAt: new Date(),
-        updatedAt: new Date()
-      })
-      .where(eq(purchaseRequests.id, id))
-      .returning();
+    const conditions = [eq(reportDefinitions.isActive, true)];
     
-    // Create approval record
-    await this.createApproval({
-      entityType: 'purchase_request',
-      entityId: id,
-      step: 1,
-      approverId,
-      status: 'approved',
-      decidedAt: new Date(),
-    });
+    if (category) conditions.push(eq(reportDefinitions.category, category));
+    if (isPublic !== undefined) conditions.push(eq(reportDefinitions.isPublic, isPublic));
+    if (ownerId) conditions.push(eq(reportDefinitions.ownerId, ownerId));
     
-    return pr;
+    return await db
+      .select({
+        reportDef: reportDefinitions,
+        owner: users,
+      })
+      .from(reportDefinitions)
+      .innerJoin(users, eq(reportDefinitions.ownerId, users.id))
+      .where(and(...conditions))
+      .limit(limit)
+      .orderBy(desc(reportDefinitions.createdAt))
+      .then(rows => rows.map(row => ({
+        ...row.reportDef,
+        owner: row.owner,
+      })));
   }
 
-  async rejectPurchaseRequest(id: string, approverId: string, comment: string): Promise<PurchaseRequest> {
+  async getReportDefinition(id: string): Promise<(ReportDefinition & { owner: User }) | undefined> {
     const db = await getDb();
-    const [pr] = await db
-      .update(purchaseRequests)
-      .set({ 
-        status: 'rejected',
-        updatedAt: new Date()
+    const [row] = await db
+      .select({
+        reportDef: reportDefinitions,
+        owner: users,
       })
-      .where(eq(purchaseRequests.id, id))
-      .returning();
-    
-    // Create approval record
-    await this.createApproval({
-      entityType: 'purchase_request',
-      entityId: id,
-      step: 1,
-      approverId,
-      status: 'rejected',
-      decidedAt: new Date(),
-      comment,
-    });
+      .from(reportDefinitions)
+      .innerJoin(users, eq(reportDefinitions.ownerId, users.id))
+      .where(eq(reportDefinitions.id, id));
     
-    return pr;
+    return row ? {
+      ...row.reportDef,
+      owner: row.owner,
+    } : undefined;
   }
 
-  async convertPRtoPO(prId: string, poData: Partial<InsertPurchaseOrder>): Promise<{ pr: PurchaseRequest; po: PurchaseOrder }> {
+  async createReportDefinition(reportDefData: InsertReportDefinition): Promise<ReportDefinition> {
     const db = await getDb();
-    
-    const pr = await this.getPurchaseRequest(prId);
-    if (!pr) throw new Error('Purchase request not found');
-    
-    // Create PO with default data from PR
-    const poNumber = `PO-${new Date().getFullYear()}-${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`;
-    const [po] = await db
-      .insert(purchaseOrders)
-      .values({
-        orderNumber: poNumber,
-        prId: prId,
-        supplierId: pr.supplierId!,
-        orderDate: new Date().toISOString().split('T')[0],
-        totalAmount: pr.totalAmount,
-        currency: pr.currency,
-        status: 'draft',
-        createdBy: poData.createdBy!,
-        ...poData,
-      })
+    const [reportDef] = await db
+      .insert(reportDefinitions)
+      .values(reportDefData)
       .returning();
-    
-    // Create PO items from PR items
-    for (const prItem of pr.items) {
-      await db
-        .insert(purchaseOrderItems)
-        .values({
-          orderId: po.id,
-          productId: prItem.productId,
-          quantity: prItem.quantity,
-          unitPrice: prItem.unitPrice || '0',
-          totalPrice: prItem.lineTotal || '0',
-        });
-    }
-    
-    // Update PR status
-    const [updatedPr] = await db
-      .update(purchaseRequests)
-      .set({ 
-        status: 'converted',
-        convertedToPo: po.id,
-        updatedAt: new Date()
-      })
-      .where(eq(purchaseRequests.id, prId))
+    return reportDef;
+  }
+
+  async updateReportDefinition(id: string, reportDefData: Partial<InsertReportDefinition>): Promise<ReportDefinition> {
+    const db = await getDb();
+    const [reportDef] = await db
+      .update(reportDefinitions)
+      .set({ ...reportDefData, updatedAt: new Date() })
+      .where(eq(reportDefinitions.id, id))
       .returning();
-    
-    return { pr: updatedPr, po };
+    return reportDef;
   }
 
-  // Enhanced PR workflow methods with multi-level approval
-  async submitPurchaseRequestWithApproval(id: string, submitterId: string): Promise<{ pr: PurchaseRequest; approvals: PurchaseRequestApproval[] }> {
+  async deleteReportDefinition(id: string): Promise<void> {
     const db = await getDb();
-    
-    const pr = await this.getPurchaseRequest(id);
-    if (!pr) throw new Error('Purchase request not found');
+    await db
+      .update(reportDefinitions)
+      .set({ isActive: false })
+      .where(eq(reportDefinitions.id, id));
+  }
 
-    // Get applicable approval rules for this PR
-    const rules = await this.getApprovalRules('purchase_request', pr.currency || 'USD');
+  // Saved Report operations
+  async getSavedReports(userId?: string, reportDefinitionId?: string, limit = 50): Promise<(SavedReport & { reportDefinition: ReportDefinition; user: User })[]> {
+    const db = await getDb();
+    const conditions = [eq(savedReports.isActive, true)];
     
-    const prTotalAmount = parseFloat(pr.totalAmount || '0');
-    const applicableRules = rules.filter(rule => 
-      prTotalAmount >= (rule.amountRangeMin ? parseFloat(rule.amountRangeMin) : 0) &&
-      prTotalAmount <= (rule.amountRangeMax ? parseFloat(rule.amountRangeMax) : Infinity)
-    );
-
-    // Update PR status to submitted
-    const [updatedPr] = await db
-      .update(purchaseRequests)
-      .set({ 
-        status: 'submitted',
-        submittedAt: new Date(),
-        updatedAt: new Date()
+    if (userId) conditions.push(eq(savedReports.userId, userId));
+    if (reportDefinitionId) conditions.push(eq(savedReports.reportDefinitionId, reportDefinitionId));
+    
+    return await db
+      .select({
+        savedReport: savedReports,
+        reportDefinition: reportDefinitions,
+        user: users,
       })
-      .where(eq(purchaseRequests.id, id))
-      .returning();
-
-    // Create approval records
-    const approvals: PurchaseRequestApproval[] = [];
-    for (const rule of applicableRules) {
-      const [approval] = await db
-        .insert(purchaseRequestApprovals)
-        .values({
-          prId: id,
-          ruleId: rule.id,
-          level: rule.level,
-          approverId: rule.specificApproverId || submitterId,
-          status: 'pending',
-        })
-        .returning();
-      approvals.push(approval);
-    }
-
-    return { pr: updatedPr, approvals };
+      .from(savedReports)
+      .innerJoin(reportDefinitions, eq(savedReports.reportDefinitionId, reportDefinitions.id))
+      .innerJoin(users, eq(savedReports.userId, users.id))
+      .where(and(...conditions))
+      .limit(limit)
+      .orderBy(desc(savedReports.createdAt))
+      .then(rows => rows.map(row => ({
+        ...row.savedReport,
+        reportDefinition: row.reportDefinition,
+        user: row.user,
+      })));
   }
 
-  async approvePurchaseRequestLevel(prId: string, level: number, approverId: string, comment?: string): Promise<{ pr: PurchaseRequest; approval: PurchaseRequestApproval; isFullyApproved: boolean }> {
+  async getSavedReport(id: string): Promise<(SavedReport & { reportDefinition: ReportDefinition; user: User }) | undefined> {
     const db = await getDb();
+    const [row] = await db
+      .select({
+        savedReport: savedReports,
+        reportDefinition: reportDefinitions,
+        user: users,
+      })
+      .from(savedReports)
+      .innerJoin(reportDefinitions, eq(savedReports.reportDefinitionId, reportDefinitions.id))
+      .innerJoin(users, eq(savedReports.userId, users.id))
+      .where(eq(savedReports.id, id));
     
-    // Update approval for this level
-    const [approval] = await db
-      .update(purchaseRequestApprovals)
-      .set({
-        status: 'approved',
-        approverId: approverId,
-        decidedAt: new Date(),
-        comment,
+    return row ? {
+      ...row.savedReport,
+      reportDefinition: row.reportDefinition,
+      user: row.user,
+    } : undefined;
+  }
+
+  // Next run for a scheduled saved report, validating its schedule config
+  private computeNextReportRun(isScheduled: boolean | null | undefined, scheduleConfig: unknown, from = new Date()): Date | null {
+    if (!isScheduled) return null;
+    const schedule = reportScheduleConfigSchema.parse(scheduleConfig);
+    return getNextCronRun(schedule.cron, from, schedule.utcOffsetMinutes);
+  }
+
+  async createSavedReport(savedReportData: InsertSavedReport): Promise<SavedReport> {
+    const db = await getDb();
+    const [savedReport] = await db
+      .insert(savedReports)
+      .values({
+        ...savedReportData,
+        nextRunAt: savedReportData.nextRunAt ?? this.computeNextReportRun(savedReportData.isScheduled, savedReportData.scheduleConfig),
       })
-      .where(and(
-        eq(purchaseRequestApprovals.prId, prId),
-        eq(purchaseRequestApprovals.level, level)
-      ))
       .returning();
+    return savedReport;
+  }
 
-    // Check if all levels are approved
-    const pendingApprovals = await db
-      .select()
-      .from(purchaseRequestApprovals)
-      .where(and(
-        eq(purchaseRequestApprovals.prId, prId),
-        eq(purchaseRequestApprovals.status, 'pending')
-      ));
-
-    const isFullyApproved = pendingApprovals.length === 0;
+  async updateSavedReport(id: string, savedReportData: Partial<InsertSavedReport>): Promise<SavedReport> {
+    const db = await getDb();
+    const updates = { ...savedReportData };
 
-    // If fully approved, update PR status
-    let updatedPr;
-    if (isFullyApproved) {
-      [updatedPr] = await db
-        .update(purchaseRequests)
-        .set({ 
-          status: 'approved',
-          approvedAt: new Date(),
-          updatedAt: new Date()
-        })
-        .where(eq(purchaseRequests.id, prId))
-        .returning();
-    } else {
-      updatedPr = await this.getPurchaseRequest(prId);
+    // Re-derive the next run whenever the schedule changes
+    if (updates.isScheduled !== undefined || updates.scheduleConfig !== undefined) {
+      const [existing] = await db.select().from(savedReports).where(eq(savedReports.id, id));
+      if (!existing) throw new Error('Saved report not found');
+      updates.nextRunAt = this.computeNextReportRun(
+        updates.isScheduled ?? existing.isScheduled,
+        updates.scheduleConfig ?? existing.scheduleConfig
+      );
     }
 
-    return { pr: updatedPr!, approval, isFullyApproved };
+    const [savedReport] = await db
+      .update(savedReports)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(savedReports.id, id))
+      .returning();
+    return savedReport;
   }
 
-  async rejectPurchaseRequestLevel(prId: string, level: number, approverId: string, comment: string): Promise<{ pr: PurchaseRequest; approval: PurchaseRequestApproval }> {
+  async getDueSavedReports(asOf: Date, limit = 20): Promise<SavedReport[]> {
     const db = await getDb();
-    
-    // Update approval for this level
-    const [approval] = await db
-      .update(purchaseRequestApprovals)
-      .set({
-        status: 'rejected',
-        approverId: approverId,
-        decidedAt: new Date(),
-        comment,
-      })
+    return await db
+      .select()
+      .from(savedReports)
       .where(and(
-        eq(purchaseRequestApprovals.prId, prId),
-        eq(purchaseRequestApprovals.level, level)
+        eq(savedReports.isScheduled, true),
+        eq(savedReports.isActive, true),
+        lte(savedReports.nextRunAt, asOf)
       ))
-      .returning();
+      .limit(limit)
+      .orderBy(asc(savedReports.nextRunAt));
+  }
 
-    // Update PR status to rejected
-    const [updatedPr] = await db
-      .update(purchaseRequests)
-      .set({ 
-        status: 'rejected',
-        updatedAt: new Date()
-      })
-      .where(eq(purchaseRequests.id, prId))
+  // Advances nextRunAt only if no other runner claimed this occurrence first
+  async claimSavedReportRun(id: string, expectedNextRunAt: Date, runAt: Date): Promise<SavedReport | undefined> {
+    const db = await getDb();
+    const [existing] = await db.select().from(savedReports).where(eq(savedReports.id, id));
+    if (!existing) return undefined;
+
+    const nextRunAt = this.computeNextReportRun(existing.isScheduled, existing.scheduleConfig, runAt);
+    const [claimed] = await db
+      .update(savedReports)
+      .set({ lastRunAt: runAt, nextRunAt, updatedAt: new Date() })
+      .where(and(
+        eq(savedReports.id, id),
+        eq(savedReports.nextRunAt, expectedNextRunAt)
+      ))
       .returning();
+    return claimed;
+  }
 
-    return { pr: updatedPr, approval };
+  async deleteSavedReport(id: string): Promise<void> {
+    const db = await getDb();
+    await db
+      .update(savedReports)
+      .set({ isActive: false })
+      .where(eq(savedReports.id, id));
   }
 
-  async getPurchaseRequestApprovals(prId: string): Promise<(PurchaseRequestApproval & { approver: User; rule: ApprovalRule })[]> {
+  // Report Export operations
+  async getReportExports(generatedBy?: string, status?: string, limit = 50): Promise<(ReportExport & { generator: User })[]> {
     const db = await getDb();
+    const conditions = [];
     
-    const results = await db
+    if (generatedBy) conditions.push(eq(reportExports.generatedBy, generatedBy));
+    if (status) conditions.push(eq(reportExports.status, status as any));
+    
+    return await db
       .select({
-        id: purchaseRequestApprovals.id,
-        prId: purchaseRequestApprovals.prId,
-        ruleId: purchaseRequestApprovals.ruleId,
-        level: purchaseRequestApprovals.level,
-        status: purchaseRequestApprovals.status,
-        approverId: purchaseRequestApprovals.approverId,
-        decidedAt: purchaseRequestApprovals.decidedAt,
-        comment: purchaseRequestApprovals.comment,
-        notifiedAt: purchaseRequestApprovals.notifiedAt,
-        createdAt: purchaseRequestApprovals.createdAt,
-        approver: users,
-        rule: approvalRules,
+        reportExport: reportExports,
+        generator: users,
       })
-      .from(purchaseRequestApprovals)
-      .leftJoin(users, eq(purchaseRequestApprovals.approverId, users.id))
-      .leftJoin(approvalRules, eq(purchaseRequestApprovals.ruleId, approvalRules.id))
-      .where(eq(purchaseRequestApprovals.prId, prId))
-      .orderBy(asc(purchaseRequestApprovals.level));
-    
-    return results.map(row => ({
-      id: row.id,
-      prId: row.prId,
-      ruleId: row.ruleId,
-      level: row.level,
-      status: row.status,
-      approverId: row.approverId,
-      decidedAt: row.decidedAt,
-      comment: row.comment,
-      notifiedAt: row.notifiedAt,
-      createdAt: row.createdAt,
-      approver: row.approver!,
-      rule: row.rule!,
-    }));
+      .from(reportExports)
+      .innerJoin(users, eq(reportExports.generatedBy, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .limit(limit)
+      .orderBy(desc(reportExports.createdAt))
+      .then(rows => rows.map(row => ({
+        ...row.reportExport,
+        generator: row.generator,
+      })));
   }
 
-  async getPendingApprovalsForUser(userId: string, limit = 50): Promise<(PurchaseRequestApproval & { purchaseRequest: PurchaseRequest & { requester: User; items: (PurchaseRequestItem & { product: Product })[] }; rule: ApprovalRule })[]> {
+  async getReportExport(id: string): Promise<(ReportExport & { generator: User }) | undefined> {
     const db = await getDb();
-    
-    // Get pending approvals for this user
-    const approvals = await db
+    const [row] = await db
       .select({
-        id: purchaseRequestApprovals.id,
-        prId: purchaseRequestApprovals.prId,
-        ruleId: purchaseRequestApprovals.ruleId,
-        level: purchaseRequestApprovals.level,
-        status: purchaseRequestApprovals.status,
-        approverId: purchaseRequestApprovals.approverId,
-        decidedAt: purchaseRequestApprovals.decidedAt,
-        comment: purchaseRequestApprovals.comment,
-        notifiedAt: purchaseRequestApprovals.notifiedAt,
-        createdAt: purchaseRequestApprovals.createdAt,
-        rule: approvalRules,
+        reportExport: reportExports,
+        generator: users,
       })
-      .from(purchaseRequestApprovals)
-      .leftJoin(approvalRules, eq(purchaseRequestApprovals.ruleId, approvalRules.id))
-      .where(and(
-        eq(purchaseRequestApprovals.status, 'pending'),
-        eq(purchaseRequestApprovals.approverId, userId)
-      ))
-      .limit(limit)
-      .orderBy(desc(purchaseRequestApprovals.createdAt));
+      .from(reportExports)
+      .innerJoin(users, eq(reportExports.generatedBy, users.id))
+      .where(eq(reportExports.id, id));
+    
+    return row ? {
+      ...row.reportExport,
+      generator: row.generator,
+    } : undefined;
+  }
 
-    // Get purchase request details for each approval
-    const results = [];
-    for (const approval of approvals) {
-      const pr = await this.getPurchaseRequest(approval.prId);
-      if (pr) {
-        results.push({
-          id: approval.id,
-          prId: approval.prId,
-          ruleId: approval.ruleId,
-          level: approval.level,
-          status: approval.status,
-          approverId: approval.approverId,
-          decidedAt: approval.decidedAt,
-          comment: approval.comment,
-          notifiedAt: approval.notifiedAt,
-          createdAt: approval.createdAt,
-          purchaseRequest: pr,
-          rule: approval.rule!,
-        });
-      }
-    }
+  async createReportExport(reportExportData: InsertReportExport): Promise<ReportExport> {
+    const db = await getDb();
+    const [reportExport] = await db
+      .insert(reportExports)
+      .values(reportExportData)
+      .returning();
+    return reportExport;
+  }
 
-    return results;
+  async updateReportExport(id: string, reportExportData: Partial<InsertReportExport>): Promise<ReportExport> {
+    const db = await getDb();
+    const [reportExport] = await db
+      .update(reportExports)
+      .set(reportExportData)
+      .where(eq(reportExports.id, id))
+      .returning();
+    return reportExport;
   }
 
-  // Approval workflow operations
-  async getApprovals(entityType?: string, entityId?: string, approverId?: string): Promise<(Approval & { approver: User })[]> {
+  async markReportExportComplete(id: string, filePath: string, fileSize: number): Promise<ReportExport> {
     const db = await getDb();
-    
-    let conditions = [];
-    if (entityType) conditions.push(eq(approvals.entityType, entityType));
-    if (entityId) conditions.push(eq(approvals.entityId, entityId));
-    if (approverId) conditions.push(eq(approvals.approverId, approverId));
-    
-    return await db
-      .select({
-        id: approvals.id,
-        entityType: approvals.entityType,
-        entityId: approvals.entityId,
-        step: approvals.step,
-        approverId: approvals.approverId,
-        status: approvals.status,
-        comment: approvals.comment,
-        decidedAt: approvals.decidedAt,
-        createdAt: approvals.createdAt,
-        approver: users,
+    const [reportExport] = await db
+      .update(reportExports)
+      .set({ 
+        status: 'completed',
+        filePath,
+        fileSize,
+        generatedAt: new Date()
       })
-      .from(approvals)
-      .innerJoin(users, eq(approvals.approverId, users.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .orderBy(desc(approvals.createdAt));
+      .where(eq(reportExports.id, id))
+      .returning();
+    return reportExport;
   }
 
-  async createApproval(approval: InsertApproval): Promise<Approval> {
-    const db = await getDb();
-    const [newApproval] = await db
-      .insert(approvals)
-      .values(approval)
+  async markReportExportFailed(id: string, errorMessage: string): Promise<ReportExport> {
+    const db = await getDb();
+    const [reportExport] = await db
+      .update(reportExports)
+      .set({ 
+        status: 'failed',
+        errorMessage
+      })
+      .where(eq(reportExports.id, id))
       .returning();
-    return newApproval;
+    return reportExport;
   }
 
-  async processApproval(id: string, status: 'approved' | 'rejected', comment?: string): Promise<Approval> {
+  async markReportExportExpired(id: string): Promise<ReportExport> {
     const db = await getDb();
-    const [approval] = await db
-      .update(approvals)
+    const [reportExport] = await db
+      .update(reportExports)
       .set({ 
-        status,
-        decidedAt: new Date(),
-        comment
+        status: 'expired',
+        filePath: null,
+        fileSize: null
       })
-      .where(eq(approvals.id, id))
+      .where(eq(reportExports.id, id))
       .returning();
-    return approval;
+    return reportExport;
   }
 
-  // Multi-level approval rules management
-  async getApprovalRules(entityType?: string, currency?: string): Promise<ApprovalRule[]> {
+  async getExpiredReportExports(asOf: Date, limit = 100): Promise<ReportExport[]> {
     const db = await getDb();
-    
-    let conditions = [];
-    if (entityType) conditions.push(eq(approvalRules.entityType, entityType));
-    if (currency) conditions.push(eq(approvalRules.currency, currency));
-    
     return await db
       .select()
-      .from(approvalRules)
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .orderBy(asc(approvalRules.level));
+      .from(reportExports)
+      .where(and(
+        lte(reportExports.expiresAt, asOf),
+        inArray(reportExports.status, ['completed', 'failed'])
+      ))
+      .limit(limit)
+      .orderBy(asc(reportExports.expiresAt));
   }
 
-  async createApprovalRule(rule: InsertApprovalRule): Promise<ApprovalRule> {
+  async recordReportExportDownload(id: string): Promise<void> {
     const db = await getDb();
-    const [approvalRule] = await db.insert(approvalRules).values(rule).returning();
-    return approvalRule;
+    await db
+      .update(reportExports)
+      .set({ downloadCount: sql`COALESCE(${reportExports.downloadCount}, 0) + 1` })
+      .where(eq(reportExports.id, id));
   }
 
-  async updateApprovalRule(id: string, rule: Partial<InsertApprovalRule>): Promise<ApprovalRule> {
+  // Outbox operations
+  async getOutboxMessages(status?: string, limit = 50): Promise<OutboxMessage[]> {
     const db = await getDb();
-    const [approvalRule] = await db
-      .update(approvalRules)
-      .set({ ...rule, updatedAt: new Date() })
-      .where(eq(approvalRules.id, id))
+    return await db
+      .select()
+      .from(outboxMessages)
+      .where(status ? eq(outboxMessages.status, status as any) : undefined)
+      .limit(limit)
+      .orderBy(asc(outboxMessages.createdAt));
+  }
+
+  async createOutboxMessage(message: InsertOutboxMessage): Promise<OutboxMessage> {
+    const db = await getDb();
+    const [outboxMessage] = await db
+      .insert(outboxMessages)
+      .values(message)
       .returning();
-    return approvalRule;
+    return outboxMessage;
   }
 
-  async deleteApprovalRule(id: string): Promise<void> {
+  async markOutboxMessageSent(id: string): Promise<OutboxMessage> {
     const db = await getDb();
-    await db.delete(approvalRules).where(eq(approvalRules.id, id));
+    const [outboxMessage] = await db
+      .update(outboxMessages)
+      .set({
+        status: 'sent',
+        attempts: sql`${outboxMessages.attempts} + 1`,
+        lastError: null,
+        sentAt: new Date()
+      })
+      .where(eq(outboxMessages.id, id))
+      .returning();
+    return outboxMessage;
   }
 
-  // Goods Receipt operations
-  async getGoodsReceipts(limit = 50, poId?: string): Promise<(Omit<GoodsReceipt, 'receivedBy'> & { purchaseOrder: PurchaseOrder & { supplier: Supplier }; warehouse: Warehouse; receivedBy: User; items: (GoodsReceiptItem & { product: Product })[] })[]> {
+  // Failed deliveries stay pending until maxAttempts is reached
+  async markOutboxMessageFailed(id: string, error: string, maxAttempts: number): Promise<OutboxMessage> {
     const db = await getDb();
-    
-    let conditions = [];
-    if (poId) conditions.push(eq(goodsReceipts.poId, poId));
-    
-    const grs = await db
-      .select({
-        goodsReceipt: goodsReceipts,
-        purchaseOrder: purchaseOrders,
-        supplier: suppliers,
-        warehouse: warehouses,
-        receivedBy: users,
+    const [outboxMessage] = await db
+      .update(outboxMessages)
+      .set({
+        status: sql`CASE WHEN ${outboxMessages.attempts} + 1 >= ${maxAttempts} THEN 'failed'::outbox_status ELSE 'pending'::outbox_status END`,
+        attempts: sql`${outboxMessages.attempts} + 1`,
+        lastError: error
       })
-      .from(goodsReceipts)
-      .innerJoin(purchaseOrders, eq(goodsReceipts.poId, purchaseOrders.id))
-      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
-      .innerJoin(warehouses, eq(goodsReceipts.warehouseId, warehouses.id))
-      .innerJoin(users, eq(goodsReceipts.receivedBy, users.id))
+      .where(eq(outboxMessages.id, id))
+      .returning();
+    return outboxMessage;
+  }
+
+  // System Settings operations
+  async getSystemSettings(category?: string, publicOnly = false): Promise<SystemSetting[]> {
+    const db = await getDb();
+    const conditions = [];
+
+    if (category) conditions.push(eq(systemSettings.category, category as any));
+    if (publicOnly) conditions.push(eq(systemSettings.isPublic, true));
+
+    return await db
+      .select()
+      .from(systemSettings)
       .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .limit(limit)
-      .orderBy(desc(goodsReceipts.createdAt));
+      .orderBy(asc(systemSettings.category), asc(systemSettings.key));
+  }
 
-    // Get items for each GR
-    const results = [];
-    for (const gr of grs) {
-      const items = await db
-        .select({
-          goodsReceiptItem: goodsReceiptItems,
-          product: products,
-        })
-        .from(goodsReceiptItems)
-        .innerJoin(products, eq(goodsReceiptItems.productId, products.id))
-        .where(eq(goodsReceiptItems.grId, gr.goodsReceipt.id));
-      
-      results.push({ 
-        ...gr.goodsReceipt, 
-        purchaseOrder: { ...gr.purchaseOrder, supplier: gr.supplier },
-        warehouse: gr.warehouse,
-        receivedBy: gr.receivedBy,
-        items: items.map(item => ({ ...item.goodsReceiptItem, product: item.product }))
-      });
-    }
-    
-    return results;
+  async getSystemSetting(key: string): Promise<SystemSetting | undefined> {
+    const db = await getDb();
+    const [setting] = await db
+      .select()
+      .from(systemSettings)
+      .where(eq(systemSettings.key, key));
+    return setting;
   }
 
-  async getGoodsReceipt(id: string): Promise<(Omit<GoodsReceipt, 'receivedBy'> & { purchaseOrder: PurchaseOrder & { supplier: Supplier }; warehouse: Warehouse; receivedBy: User; items: (GoodsReceiptItem & { product: Product })[] }) | undefined> {
+  async upsertSystemSetting(key: string, request: UpsertSystemSettingRequest, updatedBy: string): Promise<SystemSetting> {
     const db = await getDb();
-    
-    const [gr] = await db
-      .select({
-        goodsReceipt: goodsReceipts,
-        purchaseOrder: purchaseOrders,
-        supplier: suppliers,
-        warehouse: warehouses,
-        receivedBy: users,
-      })
-      .from(goodsReceipts)
-      .innerJoin(purchaseOrders, eq(goodsReceipts.poId, purchaseOrders.id))
-      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
-      .innerJoin(warehouses, eq(goodsReceipts.warehouseId, warehouses.id))
-      .innerJoin(users, eq(goodsReceipts.receivedBy, users.id))
-      .where(eq(goodsReceipts.id, id));
+    const setting = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(systemSettings)
+        .where(eq(systemSettings.key, key))
+        .for('update');
 
-    if (!gr) return undefined;
+      const definition = SETTING_DEFAULTS[key as SettingKey];
+      const isEncrypted = request.isEncrypted ?? existing?.isEncrypted ?? definition?.isEncrypted ?? false;
+      const isPublic = request.isPublic ?? existing?.isPublic ?? definition?.isPublic ?? false;
 
-    const items = await db
-      .select({
-        goodsReceiptItem: goodsReceiptItems,
-        product: products,
-      })
-      .from(goodsReceiptItems)
-      .innerJoin(products, eq(goodsReceiptItems.productId, products.id))
-      .where(eq(goodsReceiptItems.grId, id));
+      // Encrypted settings can never be public
+      if (isEncrypted && isPublic) {
+        throw new Error('Encrypted settings cannot be public');
+      }
 
-    return { 
-      ...gr.goodsReceipt, 
-      purchaseOrder: { ...gr.purchaseOrder, supplier: gr.supplier },
-      warehouse: gr.warehouse,
-      receivedBy: gr.receivedBy,
-      items: items.map(item => ({ ...item.goodsReceiptItem, product: item.product }))
-    };
+      // Saving the masked placeholder keeps the current secret
+      let value = request.value;
+      if (value === MASKED_SETTING_VALUE && existing?.isEncrypted) {
+        value = existing.value === null ? null : decryptSettingValue(existing.value);
+      }
+      const storedValue = value !== null && isEncrypted ? encryptSettingValue(value) : value;
+
+      const values = {
+        value: storedValue,
+        category: request.category ?? existing?.category ?? definition?.category ?? 'general',
+        description: request.description ?? existing?.description ?? definition?.description ?? null,
+        isEncrypted,
+        isPublic,
+        updatedBy,
+      };
+
+      const [saved] = existing
+        ? await tx
+            .update(systemSettings)
+            .set({ ...values, updatedAt: new Date() })
+            .where(eq(systemSettings.id, existing.id))
+            .returning()
+        : await tx
+            .insert(systemSettings)
+            .values({ key, ...values })
+            .returning();
+
+      // Never write secrets into the audit trail
+      const auditValue = (row: SystemSetting | undefined) => row && {
+        value: row.isEncrypted ? MASKED_SETTING_VALUE : row.value,
+        category: row.category,
+        isEncrypted: row.isEncrypted,
+        isPublic: row.isPublic,
+      };
+
+      await tx.insert(auditLogs).values({
+        tableName: 'system_settings',
+        recordId: saved.id,
+        action: existing ? 'update' : 'create',
+        oldValues: auditValue(existing) ?? null,
+        newValues: auditValue(saved),
+        userId: updatedBy,
+        module: 'settings',
+        description: `${existing ? 'Updated' : 'Created'} system setting ${key}`,
+      });
+
+      return saved;
+    });
+
+    settingValueCache.delete(key);
+    return setting;
   }
 
-  async createGoodsReceipt(receiptData: InsertGoodsReceipt, items: InsertGoodsReceiptItem[]): Promise<GoodsReceipt> {
+  async deleteSystemSetting(key: string, deletedBy: string): Promise<void> {
     const db = await getDb();
-    
-    // Generate GR number
-    const grNumber = `GR-${new Date().getFullYear()}-${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`;
-    
-    const [gr] = await db
-      .insert(goodsReceipts)
-      .values({
-        ...receiptData,
-        grNumber,
-      })
-      .returning();
+    await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .delete(systemSettings)
+        .where(eq(systemSettings.key, key))
+        .returning();
 
-    // Create GR items
-    for (const item of items) {
-      await db
-        .insert(goodsReceiptItems)
-        .values({
-          ...item,
-          grId: gr.id,
-        });
+      if (!existing) {
+        throw new Error('Setting not found');
+      }
+
+      await tx.insert(auditLogs).values({
+        tableName: 'system_settings',
+        recordId: existing.id,
+        action: 'delete',
+        oldValues: {
+          value: existing.isEncrypted ? MASKED_SETTING_VALUE : existing.value,
+          category: existing.category,
+          isEncrypted: existing.isEncrypted,
+          isPublic: existing.isPublic,
+        },
+        userId: deletedBy,
+        module: 'settings',
+        description: `Deleted system setting ${key} (reverts to default)`,
+      });
+    });
+
+    settingValueCache.delete(key);
+  }
+
+  /**
+   * Effective value of a setting: the saved value, else the built-in default
+   */
+  async getSettingValue(key: SettingKey): Promise<string> {
+    const cached = settingValueCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
     }
 
-    return gr;
+    const setting = await this.getSystemSetting(key);
+    const value = setting?.value != null && setting.value !== ''
+      ? (setting.isEncrypted ? decryptSettingValue(setting.value) : setting.value)
+      : SETTING_DEFAULTS[key].value;
+
+    settingValueCache.set(key, { value, expiresAt: Date.now() + SETTING_CACHE_TTL_MS });
+    return value;
   }
 
-  async updateGoodsReceipt(id: string, receiptData: Partial<InsertGoodsReceipt>): Promise<GoodsReceipt> {
+  private async getNumericSetting(key: SettingKey): Promise<number> {
+    const value = parseFloat(await this.getSettingValue(key));
+    return Number.isFinite(value) ? value : parseFloat(SETTING_DEFAULTS[key].value);
+  }
+
+  // General ledger operations
+  async getGlAccounts(): Promise<GlAccount[]> {
     const db = await getDb();
-    const [gr] = await db
-      .update(goodsReceipts)
-      .set(receiptData)
-      .where(eq(goodsReceipts.id, id))
-      .returning();
-    return gr;
+    const accounts = await db.select().from(glAccounts).orderBy(asc(glAccounts.code));
+    if (accounts.length > 0) return accounts;
+
+    // Fresh database: install the default chart on first use
+    await db.transaction(async (tx) => this.installDefaultChart(tx));
+    return await db.select().from(glAccounts).orderBy(asc(glAccounts.code));
   }
 
-  async postGoodsReceipt(id: string): Promise<GoodsReceipt> {
+  async createGlAccount(account: InsertGlAccount): Promise<GlAccount> {
     const db = await getDb();
-    
     return await db.transaction(async (tx) => {
-      // Get GR details and validate state
-      const grDetail = await this.getGoodsReceipt(id);
-      if (!grDetail) throw new Error('Goods receipt not found');
-      
-      if (grDetail.status === 'posted') {
-        throw new Error('Goods receipt has already been posted');
+      const [existing] = await tx.select().from(glAccounts).where(eq(glAccounts.code, account.code));
+      if (existing) {
+        throw new Error(`Account ${account.code} already exists`);
       }
-      
-      // Validate associated purchase order exists
-      const [po] = await tx
-        .select()
-        .from(purchaseOrders)
-        .where(eq(purchaseOrders.id, grDetail.purchaseOrder.id));
-      
-      if (!po) {
-        throw new Error('Associated purchase order not found');
+
+      // The parent follows from the code; it becomes a grouping account
+      const parentCode = parentAccountCode(account.code);
+      let parentId: string | null = null;
+      if (parentCode) {
+        const [parent] = await tx.select().from(glAccounts).where(eq(glAccounts.code, parentCode));
+        if (!parent) {
+          throw new Error(`Parent account ${parentCode} does not exist`);
+        }
+        if (parent.isPostable) {
+          const [posting] = await tx
+            .select({ id: journalLines.id })
+            .from(journalLines)
+            .where(eq(journalLines.accountId, parent.id))
+            .limit(1);
+          if (posting) {
+            throw new Error(`Account ${parent.code} already has postings and cannot be split into sub-accounts`);
+          }
+          await tx
+            .update(glAccounts)
+            .set({ isPostable: false, updatedAt: new Date() })
+            .where(eq(glAccounts.id, parent.id));
+        }
+        parentId = parent.id;
       }
-      
-      // Get PO items for cost reference
-      const poItems = await tx
-        .select()
-        .from(purchaseOrderItems)
-        .where(eq(purchaseOrderItems.orderId, po.id));
-      
-      // Update GR status
-      const [gr] = await tx
-        .update(goodsReceipts)
-        .set({ status: 'posted' })
-        .where(eq(goodsReceipts.id, id))
+
+      const [newAccount] = await tx
+        .insert(glAccounts)
+        .values({ ...account, parentId })
         .returning();
+      return newAccount;
+    });
+  }
 
-      // Get GR items to create inventory and stock movements
-      const grItems = await tx
-        .select()
-        .from(goodsReceiptItems)
-        .where(eq(goodsReceiptItems.grId, id));
-      
-      if (grItems.length === 0) {
-        throw new Error('No goods receipt items found');
-      }
+  async updateGlAccount(id: string, account: Partial<InsertGlAccount>): Promise<GlAccount> {
+    const db = await getDb();
+    const [current] = await db.select().from(glAccounts).where(eq(glAccounts.id, id));
+    if (!current) {
+      throw new Error('Account not found');
+    }
+
+    const { code, parentId, ...changes } = account;
+    if ((code !== undefined && code !== current.code) || (parentId !== undefined && parentId !== current.parentId)) {
+      throw new Error('Account codes cannot be changed; create a new account and deactivate this one');
+    }
+
+    const [updatedAccount] = await db
+      .update(glAccounts)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(glAccounts.id, id))
+      .returning();
+    return updatedAccount;
+  }
+
+  async getJournalEntries(filters: { from?: string; to?: string; sourceType?: string; status?: string; accountId?: string; limit?: number } = {}): Promise<(JournalEntry & { lines: (JournalLine & { account: GlAccount })[] })[]> {
+    const db = await getDb();
+    const entries = await db
+      .select()
+      .from(journalEntries)
+      .where(and(
+        filters.from ? gte(journalEntries.entryDate, filters.from) : undefined,
+        filters.to ? lte(journalEntries.entryDate, filters.to) : undefined,
+        filters.sourceType ? eq(journalEntries.sourceType, filters.sourceType as JournalSource) : undefined,
+        filters.status ? eq(journalEntries.status, filters.status as JournalEntry['status']) : undefined,
+        filters.accountId
+          ? inArray(journalEntries.id, db.select({ id: journalLines.journalEntryId }).from(journalLines).where(eq(journalLines.accountId, filters.accountId)))
+          : undefined
+      ))
+      .orderBy(desc(journalEntries.entryDate), desc(journalEntries.createdAt))
+      .limit(filters.limit ?? 100);
+
+    const lines = await this.getJournalLinesWithAccounts(db, entries.map(e => e.id));
+    return entries.map(entry => ({ ...entry, lines: lines.filter(line => line.journalEntryId === entry.id) }));
+  }
+
+  async getJournalEntry(id: string): Promise<(JournalEntry & { lines: (JournalLine & { account: GlAccount })[] }) | undefined> {
+    const db = await getDb();
+    const [entry] = await db.select().from(journalEntries).where(eq(journalEntries.id, id));
+    if (!entry) return undefined;
+    return { ...entry, lines: await this.getJournalLinesWithAccounts(db, [id]) };
+  }
 
-      // Create/update inventory and stock movements with proper batch/expiry data
-      for (const item of grItems) {
-        // Find corresponding PO item for cost data
-        const poItem = poItems.find(pi => pi.productId === item.productId);
-        const costPerUnit = poItem ? poItem.unitPrice : '0';
-        
-        // Validate expiry date is in the future for pharmaceuticals
-        if (item.expiryDate) {
-          const expiryDate = new Date(item.expiryDate);
-          const today = new Date();
-          if (expiryDate <= today) {
-            throw new Error(`Cannot receive expired product. Batch ${item.batchNumber} expires on ${expiryDate.toDateString()}`);
-          }
+  async createManualJournalEntry(request: CreateJournalEntryRequest, createdBy: string): Promise<JournalEntry & { lines: JournalLine[] }> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const accountIds = Array.from(new Set(request.lines.map(line => line.accountId)));
+      const accounts = await tx.select().from(glAccounts).where(inArray(glAccounts.id, accountIds));
+      for (const accountId of accountIds) {
+        const account = accounts.find(a => a.id === accountId);
+        if (!account) {
+          throw new Error(`Account ${accountId} not found`);
         }
-        
-        // Create inventory entry with proper batch and expiry tracking
-        const [inventoryEntry] = await tx
-          .insert(inventory)
-          .values({
-            productId: item.productId,
-            warehouseId: grDetail.warehouseId,
-            batchNumber: item.batchNumber || `BATCH-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            quantity: item.quantity,
-            manufactureDate: new Date().toISOString().split('T')[0], // Today as received date
-            expiryDate: item.expiryDate,
-            costPerUnit: costPerUnit || '0',
-          })
-          .returning();
+        if (!account.isPostable || !account.isActive) {
+          throw new Error(`Account ${account.code} ${account.name} cannot be posted to`);
+        }
+      }
 
-        // Create stock movement
-        const movementData: InsertStockMovement = {
-          productId: item.productId,
-          warehouseId: grDetail.warehouseId,
-          inventoryId: inventoryEntry.id,
-          movementType: 'in',
-          quantity: item.quantity,
-          reference: grDetail.grNumber,
-          notes: `Goods receipt: ${grDetail.grNumber} - Batch: ${item.batchNumber || 'Auto-generated'}${item.expiryDate ? ` - Expires: ${item.expiryDate}` : ''}`,
-          userId: typeof grDetail.receivedBy === 'string' ? grDetail.receivedBy : grDetail.receivedBy.id,
-        };
-        const [movement] = await tx
-          .insert(stockMovements)
-          .values(movementData)
-          .returning();
+      return await this.insertJournalEntry(tx, {
+        entryDate: request.entryDate,
+        description: request.description,
+        sourceType: 'manual',
+        status: request.post ? 'posted' : 'draft',
+        createdBy,
+        postedBy: createdBy,
+      }, request.lines);
+    });
+  }
+
+  async postJournalEntry(id: string, postedBy: string): Promise<JournalEntry> {
+    const db = await getDb();
+    const [entry] = await db
+      .update(journalEntries)
+      .set({ status: 'posted', postedBy, postedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(journalEntries.id, id), eq(journalEntries.status, 'draft')))
+      .returning();
+    if (!entry) {
+      throw new Error('Journal entry not found or not a draft');
+    }
+    return entry;
+  }
+
+  async reverseJournalEntry(id: string, reversedBy: string, entryDate?: string): Promise<JournalEntry & { lines: JournalLine[] }> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [entry] = await tx
+        .select()
+        .from(journalEntries)
+        .where(eq(journalEntries.id, id))
+        .for('update');
+      if (!entry) {
+        throw new Error('Journal entry not found');
       }
-      
-      // Update PO status if all items received
-      const totalPOItems = poItems.reduce((sum, item) => sum + item.quantity, 0);
-      const totalGRItems = grItems.reduce((sum, item) => sum + item.quantity, 0);
-      
-      if (totalGRItems >= totalPOItems) {
-        await tx
-          .update(purchaseOrders)
-          .set({ 
-            status: 'received',
-            deliveryDate: new Date().toISOString().split('T')[0],
-            updatedAt: new Date()
-          })
-          .where(eq(purchaseOrders.id, po.id));
+      if (entry.status !== 'posted') {
+        throw new Error(`Only posted journal entries can be reversed (entry is ${entry.status})`);
       }
-
-      return gr;
+      return await this.reverseJournalInTx(tx, entry, reversedBy, entryDate);
     });
   }
 
-  // Vendor Bill operations
-  async getVendorBills(limit = 50, supplierId?: string): Promise<(Omit<VendorBill, 'createdBy'> & { supplier: Supplier; purchaseOrder?: PurchaseOrder; createdBy: User; items: (VendorBillItem & { product?: Product })[] })[]> {
+  async getTrialBalance(from?: string, to?: string): Promise<TrialBalance> {
     const db = await getDb();
-    
-    let conditions = [];
-    if (supplierId) conditions.push(eq(vendorBills.supplierId, supplierId));
-    
-    const bills = await db
+    const totals = await db
       .select({
-        vendorBill: vendorBills,
-        supplier: suppliers,
-        purchaseOrder: purchaseOrders,
-        createdBy: users,
-      })
-      .from(vendorBills)
-      .innerJoin(suppliers, eq(vendorBills.supplierId, suppliers.id))
-      .leftJoin(purchaseOrders, eq(vendorBills.poId, purchaseOrders.id))
-      .innerJoin(users, eq(vendorBills.createdBy, users.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .limit(limit)
-      .orderBy(desc(vendorBills.createdAt));
+        accountId: glAccounts.id,
+        code: glAccounts.code,
+        name: glAccounts.name,
+        accountType: glAccounts.accountType,
+        debit: sql<string>`sum(${journalLines.debit})`,
+        credit: sql<string>`sum(${journalLines.credit})`,
+      })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+      .innerJoin(glAccounts, eq(journalLines.accountId, glAccounts.id))
+      .where(and(
+        // Reversed entries stay in: their reversal offsets them
+        inArray(journalEntries.status, ['posted', 'reversed']),
+        from ? gte(journalEntries.entryDate, from) : undefined,
+        to ? lte(journalEntries.entryDate, to) : undefined
+      ))
+      .groupBy(glAccounts.id, glAccounts.code, glAccounts.name, glAccounts.accountType)
+      .orderBy(asc(glAccounts.code));
 
-    // Get items for each bill
-    const results = [];
-    for (const bill of bills) {
-      const items = await db
-        .select({
-          vendorBillItem: vendorBillItems,
-          product: products,
-        })
-        .from(vendorBillItems)
-        .leftJoin(products, eq(vendorBillItems.productId, products.id))
-        .where(eq(vendorBillItems.billId, bill.vendorBill.id));
-      
-      results.push({ 
-        ...bill.vendorBill, 
-        supplier: bill.supplier,
-        purchaseOrder: bill.purchaseOrder || undefined,
-        createdBy: bill.createdBy,
-        items: items.map(item => ({ ...item.vendorBillItem, product: item.product || undefined }))
-      });
-    }
-    
-    return results;
+    const rows = totals.map(row => {
+      const debit = Number(row.debit);
+      const credit = Number(row.credit);
+      return { ...row, debit, credit, balance: amountDifference(debit, credit) };
+    });
+    const totalDebit = rows.reduce((sum, row) => sum + Math.round(row.debit * 100), 0) / 100;
+    const totalCredit = rows.reduce((sum, row) => sum + Math.round(row.credit * 100), 0) / 100;
+
+    return { from, to, rows, totalDebit, totalCredit, isBalanced: amountDifference(totalDebit, totalCredit) === 0 };
   }
 
-  async getVendorBill(id: string): Promise<(Omit<VendorBill, 'createdBy'> & { supplier: Supplier; purchaseOrder?: PurchaseOrder; createdBy: User; items: (VendorBillItem & { product?: Product })[] }) | undefined> {
+  // Receivables aging and dunning
+  async getReceivablesAging(asOf = new Date().toISOString().split('T')[0]): Promise<ReceivablesAging> {
     const db = await getDb();
-    
-    const [bill] = await db
+    // Balances are as they stand now; asOf sets the aging date and excludes later invoices
+    const openInvoices = await db
       .select({
-        vendorBill: vendorBills,
-        supplier: suppliers,
-        purchaseOrder: purchaseOrders,
-        createdBy: users,
+        customerId: invoices.customerId,
+        dueDate: invoices.dueDate,
+        totalAmount: invoices.totalAmount,
+        paidAmount: invoices.paidAmount,
+        fxRate: invoices.fxRate,
+        customerName: customers.name,
+        salesRepId: customers.assignedSalesRep,
+        salesRep: users,
       })
-      .from(vendorBills)
-      .innerJoin(suppliers, eq(vendorBills.supplierId, suppliers.id))
-      .leftJoin(purchaseOrders, eq(vendorBills.poId, purchaseOrders.id))
-      .innerJoin(users, eq(vendorBills.createdBy, users.id))
-      .where(eq(vendorBills.id, id));
+      .from(invoices)
+      .innerJoin(customers, eq(invoices.customerId, customers.id))
+      .leftJoin(users, eq(customers.assignedSalesRep, users.id))
+      .where(and(
+        inArray(invoices.status, ['sent', 'overdue']),
+        lte(invoices.invoiceDate, asOf),
+        sql`${invoices.totalAmount} > ${invoices.paidAmount}`
+      ));
 
-    if (!bill) return undefined;
+    const dunning = await this.getCustomerDunningStatus(db);
+    const customerRows = new Map<string, ReceivablesAgingCustomerRow>();
+    const salesRepRows = new Map<string, ReceivablesAgingSalesRepRow & { customerIds: Set<string> }>();
+    const totals = emptyAgingBuckets();
+
+    // Buckets are in the base currency, at each invoice's rate
+    for (const row of openInvoices) {
+      const openAmount = toBaseAmount(amountDifference(Number(row.totalAmount), Number(row.paidAmount)), Number(row.fxRate));
+      const daysPastDue = daysBetween(row.dueDate, asOf);
+      const salesRepName = row.salesRep
+        ? [row.salesRep.firstName, row.salesRep.lastName].filter(Boolean).join(' ') || row.salesRep.email
+        : null;
+
+      let customerRow = customerRows.get(row.customerId);
+      if (!customerRow) {
+        customerRow = {
+          ...emptyAgingBuckets(),
+          customerId: row.customerId,
+          customerName: row.customerName,
+          salesRepId: row.salesRepId,
+          salesRepName,
+          invoiceCount: 0,
+          dunningLevel: dunning.get(row.customerId)?.level ?? 0,
+          creditHold: dunning.get(row.customerId)?.creditHold ?? false,
+        };
+        customerRows.set(row.customerId, customerRow);
+      }
+      customerRow.invoiceCount++;
+      addToAgingBuckets(customerRow, daysPastDue, openAmount);
+
+      const repKey = row.salesRepId ?? '';
+      let salesRepRow = salesRepRows.get(repKey);
+      if (!salesRepRow) {
+        salesRepRow = { ...emptyAgingBuckets(), salesRepId: row.salesRepId, salesRepName, customerCount: 0, customerIds: new Set() };
+        salesRepRows.set(repKey, salesRepRow);
+      }
+      salesRepRow.customerIds.add(row.customerId);
+      addToAgingBuckets(salesRepRow, daysPastDue, openAmount);
 
-    const items = await db
-      .select({
-        vendorBillItem: vendorBillItems,
-        product: products,
-      })
-      .from(vendorBillItems)
-      .leftJoin(products, eq(vendorBillItems.productId, products.id))
-      .where(eq(vendorBillItems.billId, id));
+      addToAgingBuckets(totals, daysPastDue, openAmount);
+    }
 
-    return { 
-      ...bill.vendorBill, 
-      supplier: bill.supplier,
-      purchaseOrder: bill.purchaseOrder || undefined,
-      createdBy: bill.createdBy,
-      items: items.map(item => ({ ...item.vendorBillItem, product: item.product || undefined }))
+    return {
+      asOf,
+      customers: Array.from(customerRows.values()).sort((a, b) => b.total - a.total),
+      salesReps: Array.from(salesRepRows.values())
+        .map(({ customerIds, ...row }) => ({ ...row, customerCount: customerIds.size }))
+        .sort((a, b) => b.total - a.total),
+      totals,
     };
   }
 
-  async createVendorBill(billData: InsertVendorBill, items: InsertVendorBillItem[]): Promise<VendorBill> {
+  async getDunningLevels(): Promise<DunningLevel[]> {
     const db = await getDb();
-    
-    const [bill] = await db
-      .insert(vendorBills)
-      .values(billData)
-      .returning();
-
-    // Create bill items
-    for (const item of items) {
-      await db
-        .insert(vendorBillItems)
-        .values({
-          ...item,
-          billId: bill.id,
-        });
-    }
+    const levels = await db.select().from(dunningLevels).orderBy(asc(dunningLevels.level));
+    if (levels.length > 0) return levels;
 
-    return bill;
+    // Fresh database: install the default ladder on first use
+    return await db.insert(dunningLevels).values(DEFAULT_DUNNING_LEVELS).returning();
   }
 
-  async updateVendorBill(id: string, billData: Partial<InsertVendorBill>): Promise<VendorBill> {
+  async createDunningLevel(level: InsertDunningLevel): Promise<DunningLevel> {
     const db = await getDb();
-    const [bill] = await db
-      .update(vendorBills)
-      .set({ ...billData, updatedAt: new Date() })
-      .where(eq(vendorBills.id, id))
-      .returning();
-    return bill;
+    const [existing] = await db.select().from(dunningLevels).where(eq(dunningLevels.level, level.level));
+    if (existing) {
+      throw new Error(`Dunning level ${level.level} already exists`);
+    }
+    const [newLevel] = await db.insert(dunningLevels).values(level).returning();
+    return newLevel;
   }
 
-  async postVendorBill(id: string): Promise<VendorBill> {
+  async updateDunningLevel(id: string, level: Partial<InsertDunningLevel>): Promise<DunningLevel> {
     const db = await getDb();
-    const [bill] = await db
-      .update(vendorBills)
-      .set({ status: 'posted' })
-      .where(eq(vendorBills.id, id))
+    const [updatedLevel] = await db
+      .update(dunningLevels)
+      .set({ ...level, updatedAt: new Date() })
+      .where(eq(dunningLevels.id, id))
       .returning();
-    return bill;
+    if (!updatedLevel) {
+      throw new Error('Dunning level not found');
+    }
+    return updatedLevel;
   }
 
-  async processOCRBill(billId: string, ocrRaw: string, ocrExtract: any): Promise<VendorBill> {
+  async markOverdueInvoices(asOf = new Date().toISOString().split('T')[0]): Promise<number> {
     const db = await getDb();
-    const [bill] = await db
-      .update(vendorBills)
-      .set({ 
-        ocrRaw,
-        ocrExtract,
-        updatedAt: new Date()
-      })
-      .where(eq(vendorBills.id, billId))
-      .returning();
-    return bill;
+    const marked = await db
+      .update(invoices)
+      .set({ status: 'overdue', updatedAt: new Date() })
+      .where(and(
+        eq(invoices.status, 'sent'),
+        lt(invoices.dueDate, asOf),
+        sql`${invoices.totalAmount} > ${invoices.paidAmount}`
+      ))
+      .returning({ id: invoices.id });
+    return marked.length;
   }
 
-  // Three-Way Matching operations
-  async getMatchResults(poId?: string, status?: string): Promise<(MatchResult & { purchaseOrder: PurchaseOrder & { supplier: Supplier }; goodsReceipt?: GoodsReceipt; vendorBill?: VendorBill; resolvedBy?: User })[]> {
+  async runDunning(asOf = new Date().toISOString().split('T')[0]): Promise<DunningRunResult> {
+    const markedOverdue = await this.markOverdueInvoices(asOf);
+    const levels = (await this.getDunningLevels()).filter(level => level.isActive);
+    const result: DunningRunResult = { asOf, markedOverdue, notices: [] };
+    if (levels.length === 0) return result;
+
     const db = await getDb();
-    
-    let conditions = [];
-    if (poId) conditions.push(eq(matchResults.poId, poId));
-    if (status) conditions.push(eq(matchResults.status, status as any));
-    
-    return await db
-      .select({
-        id: matchResults.id,
-        poId: matchResults.poId,
-        grId: matchResults.grId,
-        billId: matchResults.billId,
-        status: matchResults.status,
-        quantityVariance: matchResults.quantityVariance,
-        priceVariance: matchResults.priceVariance,
-        matchDetails: matchResults.matchDetails,
-        resolvedBy: matchResults.resolvedBy,
-        resolvedAt: matchResults.resolvedAt,
-        createdAt: matchResults.createdAt,
-        purchaseOrder: purchaseOrders,
-        supplier: suppliers,
-        goodsReceipt: goodsReceipts,
-        vendorBill: vendorBills,
-        resolvedByUser: users,
-      })
-      .from(matchResults)
-      .innerJoin(purchaseOrders, eq(matchResults.poId, purchaseOrders.id))
-      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
-      .leftJoin(goodsReceipts, eq(matchResults.grId, goodsReceipts.id))
-      .leftJoin(vendorBills, eq(matchResults.billId, vendorBills.id))
-      .leftJoin(users, eq(matchResults.resolvedBy, users.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .orderBy(desc(matchResults.createdAt)) as any;
+    const overdueInvoices = await db
+      .select({ invoice: invoices, customer: customers })
+      .from(invoices)
+      .innerJoin(customers, eq(invoices.customerId, customers.id))
+      .where(and(
+        eq(invoices.status, 'overdue'),
+        sql`${invoices.totalAmount} > ${invoices.paidAmount}`
+      ))
+      .orderBy(asc(invoices.dueDate));
+
+    // Each invoice climbs to the highest level its days overdue have reached; a run that
+    // was missed skips straight to that level rather than sending every notice in between
+    const escalations = new Map<string, { customer: typeof customers.$inferSelect; items: { invoice: Invoice; daysOverdue: number; level: DunningLevel }[] }>();
+    for (const { invoice, customer } of overdueInvoices) {
+      const daysOverdue = daysBetween(invoice.dueDate, asOf);
+      const level = levels.filter(l => l.daysOverdue <= daysOverdue).pop();
+      if (!level || level.level <= invoice.dunningLevel) continue;
+
+      const escalation = escalations.get(customer.id) ?? { customer, items: [] };
+      escalation.items.push({ invoice, daysOverdue, level });
+      escalations.set(customer.id, escalation);
+    }
+    if (escalations.size === 0) return result;
+
+    const companyName = await this.getSettingValue('company_name');
+    const currency = await this.getSettingValue('default_currency');
+    const [fallbackOwner] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(inArray(users.role, ['finance', 'admin']), eq(users.isActive, true)))
+      .orderBy(desc(eq(users.role, 'finance')), asc(users.createdAt))
+      .limit(1);
+
+    // One notice per customer at its most severe level, listing every invoice that escalated
+    for (const { customer, items } of Array.from(escalations.values())) {
+      const level = items.reduce((max, item) => (item.level.level > max.level ? item.level : max), items[0].level);
+      const totalDue = items.reduce((sum, item) => sum + amountDifference(Number(item.invoice.totalAmount), Number(item.invoice.paidAmount)), 0);
+      const values = {
+        customer: customer.name,
+        company: companyName,
+        totalDue: `${totalDue.toFixed(2)} ${currency}`,
+        daysOverdue: String(Math.max(...items.map(item => item.daysOverdue))),
+        invoices: items
+          .map(item => `${item.invoice.invoiceNumber} - due ${item.invoice.dueDate} - ${amountDifference(Number(item.invoice.totalAmount), Number(item.invoice.paidAmount)).toFixed(2)} ${currency} (${item.daysOverdue} days overdue)`)
+          .join('\n'),
+      };
+      const subject = renderDunningTemplate(level.subjectTemplate, values);
+      const content = renderDunningTemplate(level.bodyTemplate, values);
+      const owner = customer.assignedSalesRep ?? fallbackOwner?.id;
+      const sendEmail = level.communicationType === 'email' && !!customer.email;
+
+      const communicationId = await db.transaction(async (tx) => {
+        let communication: Communication | undefined;
+        if (owner) {
+          // Emails go out through the outbox; other channels are left as drafts for the rep to carry out
+          [communication] = await tx
+            .insert(communications)
+            .values({
+              customerId: customer.id,
+              communicationType: level.communicationType,
+              subject,
+              content,
+              direction: 'outbound',
+              status: sendEmail ? 'sent' : 'draft',
+              userId: owner,
+              sentAt: sendEmail ? new Date() : null,
+              metadata: { dunningLevel: level.level, action: level.action, invoiceIds: items.map(item => item.invoice.id) },
+            })
+            .returning();
+        }
+
+        if (sendEmail) {
+          await tx.insert(outboxMessages).values({
+            channel: 'email',
+            recipient: customer.email!,
+            subject,
+            body: content,
+            relatedEntityType: 'customer',
+            relatedEntityId: customer.id,
+          });
+        }
+
+        if (customer.assignedSalesRep) {
+          await tx.insert(notifications).values({
+            userId: customer.assignedSalesRep,
+            type: 'dunning',
+            title: `${level.name}: ${customer.name}`,
+            message: `${items.length} overdue invoice(s) totalling ${values.totalDue} reached "${level.name}".`
+              + (level.action === 'credit_hold' ? ' The customer is on credit hold until the balance is settled.' : ''),
+            entityType: 'customer',
+            entityId: customer.id,
+          });
+        }
+
+        for (const item of items) {
+          await tx
+            .update(invoices)
+            .set({ dunningLevel: item.level.level, lastDunnedAt: new Date() })
+            .where(eq(invoices.id, item.invoice.id));
+        }
+
+        return communication?.id ?? null;
+      });
+
+      result.notices.push({
+        customerId: customer.id,
+        customerName: customer.name,
+        level: level.level,
+        levelName: level.name,
+        action: level.action,
+        invoiceNumbers: items.map(item => item.invoice.invoiceNumber),
+        communicationId,
+      });
+    }
+
+    return result;
   }
 
-  async performThreeWayMatch(poId: string): Promise<MatchResult> {
+  // Supplier payments and payment runs
+  async getSupplierPayments(filters: { supplierId?: string; paymentRunId?: string; limit?: number } = {}): Promise<(SupplierPayment & { supplier: Supplier; allocations: (SupplierPaymentAllocation & { bill: VendorBill })[] })[]> {
+    const db = await getDb();
+    const payments = await db
+      .select({ payment: supplierPayments, supplier: suppliers })
+      .from(supplierPayments)
+      .innerJoin(suppliers, eq(supplierPayments.supplierId, suppliers.id))
+      .where(and(
+        filters.supplierId ? eq(supplierPayments.supplierId, filters.supplierId) : undefined,
+        filters.paymentRunId ? eq(supplierPayments.paymentRunId, filters.paymentRunId) : undefined
+      ))
+      .orderBy(desc(supplierPayments.paymentDate), desc(supplierPayments.createdAt))
+      .limit(filters.limit ?? 100);
+    if (payments.length === 0) return [];
+
+    const allocations = await db
+      .select({ allocation: supplierPaymentAllocations, bill: vendorBills })
+      .from(supplierPaymentAllocations)
+      .innerJoin(vendorBills, eq(supplierPaymentAllocations.billId, vendorBills.id))
+      .where(inArray(supplierPaymentAllocations.paymentId, payments.map(p => p.payment.id)));
+
+    return payments.map(({ payment, supplier }) => ({
+      ...payment,
+      supplier,
+      allocations: allocations
+        .filter(a => a.allocation.paymentId === payment.id)
+        .map(a => ({ ...a.allocation, bill: a.bill })),
+    }));
+  }
+
+  async createSupplierPayment(request: CreateSupplierPaymentRequest, createdBy: string): Promise<SupplierPayment & { allocations: SupplierPaymentAllocation[] }> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => this.recordSupplierPayment(tx, request, createdBy));
+  }
+
+  async voidSupplierPayment(id: string, voidedBy: string): Promise<SupplierPayment> {
     const db = await getDb();
-    
     return await db.transaction(async (tx) => {
-      // Validate PO exists
-      const po = await this.getPurchaseOrder(poId);
-      if (!po) throw new Error('Purchase order not found');
-      
-      // Check if match already exists
-      const [existingMatch] = await tx
+      const [payment] = await tx
         .select()
-        .from(matchResults)
-        .where(eq(matchResults.poId, poId))
-        .limit(1);
-      
-      if (existingMatch && existingMatch.status === 'matched') {
-        throw new Error('Three-way match already completed for this purchase order');
+        .from(supplierPayments)
+        .where(eq(supplierPayments.id, id))
+        .for('update');
+      if (!payment) {
+        throw new Error('Supplier payment not found');
+      }
+      if (payment.status === 'void') {
+        throw new Error('Supplier payment is already void');
       }
 
-      // Get GR and Bill for the PO
-      const [gr] = await tx
+      // Give the settled amounts back to the bills
+      const allocations = await tx
         .select()
-        .from(goodsReceipts)
-        .where(eq(goodsReceipts.poId, poId))
-        .limit(1);
+        .from(supplierPaymentAllocations)
+        .where(eq(supplierPaymentAllocations.paymentId, id));
+      for (const allocation of allocations) {
+        const [bill] = await tx
+          .select()
+          .from(vendorBills)
+          .where(eq(vendorBills.id, allocation.billId))
+          .for('update');
+        const paidAmount = amountDifference(Number(bill.paidAmount), Number(allocation.amount));
+        await tx
+          .update(vendorBills)
+          .set({ paidAmount: paidAmount.toFixed(2), status: paidAmount > 0 ? 'partially_paid' : 'posted', updatedAt: new Date() })
+          .where(eq(vendorBills.id, bill.id));
+      }
 
-      const [bill] = await tx
+      const [postedEntry] = await tx
         .select()
-        .from(vendorBills)
-        .where(eq(vendorBills.poId, poId))
-        .limit(1);
+        .from(journalEntries)
+        .where(and(
+          eq(journalEntries.sourceId, id),
+          eq(journalEntries.sourceType, 'supplier_payment'),
+          eq(journalEntries.status, 'posted')
+        ));
+      if (postedEntry) {
+        await this.reverseJournalInTx(tx, postedEntry, voidedBy);
+      }
 
-      let matchStatus: 'matched' | 'quantity_mismatch' | 'price_mismatch' | 'missing_receipt' | 'missing_bill' | 'pending' = 'pending';
-      let quantityVariance = '0';
-      let priceVariance = '0';
-      const matchDetails: any = {
-        po: { id: po.id, amount: po.totalAmount, items: po.items.length },
-        gr: gr ? { id: gr.id, received: true } : null,
-        bill: bill ? { id: bill.id, amount: bill.totalAmount } : null,
-        matchedAt: new Date().toISOString(),
-      };
+      const [voided] = await tx
+        .update(supplierPayments)
+        .set({ status: 'void', voidedBy, voidedAt: new Date(), updatedAt: new Date() })
+        .where(eq(supplierPayments.id, id))
+        .returning();
+      return voided;
+    });
+  }
 
-      if (!gr && !bill) {
-        matchStatus = 'pending';
-      } else if (!gr) {
-        matchStatus = 'missing_receipt';
-      } else if (!bill) {
-        matchStatus = 'missing_bill';
-      } else {
-        // Perform detailed three-way matching
-        const poAmount = parseFloat(po.totalAmount || '0');
-        const billAmount = parseFloat(bill.totalAmount || '0');
-        const priceDiff = Math.abs(poAmount - billAmount);
-        
-        // Get detailed item-level matching
-        const grItems = await tx
-          .select()
-          .from(goodsReceiptItems)
-          .where(eq(goodsReceiptItems.grId, gr.id));
-          
-        const billItems = await tx
-          .select()
-          .from(vendorBillItems)
-          .where(eq(vendorBillItems.billId, bill.id));
-        
-        // Calculate quantity variance
-        const poQuantity = po.items.reduce((sum, item) => sum + item.quantity, 0);
-        const grQuantity = grItems.reduce((sum, item) => sum + item.quantity, 0);
-        const quantityDiff = Math.abs(poQuantity - grQuantity);
-        
-        quantityVariance = quantityDiff.toString();
-        priceVariance = priceDiff.toString();
-        
-        // Enhanced matching details
-        matchDetails.quantities = {
-          po: poQuantity,
-          gr: grQuantity,
-          variance: quantityDiff
-        };
-        matchDetails.amounts = {
-          po: poAmount,
-          bill: billAmount,
-          variance: priceDiff
-        };
-        
-        // Determine match status with tolerance thresholds
-        const priceTolerancePercent = 0.05; // 5% tolerance
-        const quantityTolerancePercent = 0.02; // 2% tolerance
-        
-        const priceToleranceAmount = poAmount * priceTolerancePercent;
-        const quantityToleranceAmount = poQuantity * quantityTolerancePercent;
-        
-        if (quantityDiff > quantityToleranceAmount) {
-          matchStatus = 'quantity_mismatch';
-        } else if (priceDiff > Math.max(priceToleranceAmount, 0.01)) { // At least 1 cent tolerance
-          matchStatus = 'price_mismatch';
-        } else {
-          matchStatus = 'matched';
-        }
-      }
+  async getPaymentRuns(limit = 50): Promise<PaymentRunDetail[]> {
+    const db = await getDb();
+    const runs = await db
+      .select()
+      .from(paymentRuns)
+      .orderBy(desc(paymentRuns.createdAt))
+      .limit(limit);
+    return await this.withPaymentRunGroups(db, runs);
+  }
 
-      // Insert or update match result
-      let matchResult: MatchResult;
-      if (existingMatch) {
-        [matchResult] = await tx
-          .update(matchResults)
-          .set({
-            grId: gr?.id,
-            billId: bill?.id,
-            status: matchStatus,
-            quantityVariance,
-            priceVariance,
-            matchDetails,
-          })
-          .where(eq(matchResults.id, existingMatch.id))
-          .returning();
-      } else {
-        [matchResult] = await tx
-          .insert(matchResults)
-          .values({
-            poId,
-            grId: gr?.id,
-            billId: bill?.id,
-            status: matchStatus,
-            quantityVariance,
-            priceVariance,
-            matchDetails,
-          })
-          .returning();
-      }
-      
-      // If matched successfully, update PO status to closed
-      if (matchStatus === 'matched') {
-        await tx
-          .update(purchaseOrders)
-          .set({ 
-            status: 'closed',
-            updatedAt: new Date()
-          })
-          .where(eq(purchaseOrders.id, poId));
+  async getPaymentRun(id: string): Promise<PaymentRunDetail | undefined> {
+    const db = await getDb();
+    const [run] = await db.select().from(paymentRuns).where(eq(paymentRuns.id, id));
+    if (!run) return undefined;
+    return (await this.withPaymentRunGroups(db, [run]))[0];
+  }
+
+  async createPaymentRun(request: CreatePaymentRunRequest, createdBy: string): Promise<PaymentRunDetail> {
+    const db = await getDb();
+    const run = await db.transaction(async (tx) => {
+      // Bills already proposed in a run that is still open are left to that run
+      const inOpenRuns = tx
+        .select({ billId: paymentRunLines.billId })
+        .from(paymentRunLines)
+        .innerJoin(paymentRuns, eq(paymentRunLines.paymentRunId, paymentRuns.id))
+        .where(inArray(paymentRuns.status, ['proposed', 'approved', 'exported']));
+
+      const dueBills = await tx
+        .select()
+        .from(vendorBills)
+        .where(and(
+          inArray(vendorBills.status, ['posted', 'partially_paid']),
+          sql`coalesce(${vendorBills.dueDate}, ${vendorBills.billDate}) <= ${request.dueBy}`,
+          sql`${vendorBills.totalAmount} > ${vendorBills.paidAmount}`,
+          notInArray(vendorBills.id, inOpenRuns),
+          request.supplierIds?.length ? inArray(vendorBills.supplierId, request.supplierIds) : undefined,
+          request.currency ? eq(vendorBills.currency, request.currency.toUpperCase()) : undefined
+        ))
+        .orderBy(asc(vendorBills.supplierId), asc(vendorBills.dueDate));
+      if (dueBills.length === 0) {
+        throw new Error(`No unpaid bills are due by ${request.dueBy}`);
       }
 
-      return matchResult;
+      const paymentDate = request.paymentDate || new Date().toISOString().split('T')[0];
+      const runNumber = await this.allocateDocumentNumber(tx, 'payment_run', { date: new Date(paymentDate) });
+      const [newRun] = await tx
+        .insert(paymentRuns)
+        .values({ runNumber, dueBy: request.dueBy, paymentDate, notes: request.notes, createdBy })
+        .returning();
+
+      await tx.insert(paymentRunLines).values(dueBills.map(bill => ({
+        paymentRunId: newRun.id,
+        supplierId: bill.supplierId,
+        billId: bill.id,
+        currency: bill.currency || 'USD',
+        amount: amountDifference(Number(bill.totalAmount), Number(bill.paidAmount)).toFixed(2),
+      })));
+
+      return newRun;
     });
+
+    return (await this.getPaymentRun(run.id))!;
   }
 
-  async resolveMatchException(matchId: string, resolvedBy: string, notes: string): Promise<MatchResult> {
+  async removePaymentRunLine(runId: string, lineId: string): Promise<PaymentRunDetail> {
     const db = await getDb();
-    const [matchResult] = await db
-      .update(matchResults)
-      .set({ 
-        status: 'matched',
-        resolvedBy,
-        resolvedAt: new Date(),
-        notes
-      })
-      .where(eq(matchResults.id, matchId))
+    const [run] = await db.select().from(paymentRuns).where(eq(paymentRuns.id, runId));
+    if (!run) {
+      throw new Error('Payment run not found');
+    }
+    if (run.status !== 'proposed') {
+      throw new Error('Bills can only be removed from a proposed payment run');
+    }
+
+    const removed = await db
+      .delete(paymentRunLines)
+      .where(and(eq(paymentRunLines.id, lineId), eq(paymentRunLines.paymentRunId, runId)))
       .returning();
-    return matchResult;
+    if (removed.length === 0) {
+      throw new Error('Payment run line not found');
+    }
+    return (await this.getPaymentRun(runId))!;
   }
 
-  // FX Rate operations
-  async getFxRates(baseCurrency?: string, quoteCurrency?: string): Promise<FxRate[]> {
+  async approvePaymentRun(id: string, approvedBy: string): Promise<PaymentRun> {
     const db = await getDb();
-    
-    let conditions = [];
-    if (baseCurrency) conditions.push(eq(fxRates.baseCurrency, baseCurrency));
-    if (quoteCurrency) conditions.push(eq(fxRates.quoteCurrency, quoteCurrency));
-    
-    return await db
-      .select()
-      .from(fxRates)
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .orderBy(desc(fxRates.asOfDate), desc(fxRates.createdAt));
-  }
+    const [lineCount] = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(paymentRunLines)
+      .where(eq(paymentRunLines.paymentRunId, id));
+    if (!lineCount || lineCount.count === 0) {
+      throw new Error('Payment run has no bills to pay');
+    }
 
-  async getFxRateLatest(baseCurrency: string, quoteCurrency: string): Promise<FxRate | undefined> {
-    const db = await getDb();
-    const [rate] = await db
-      .select()
-      .from(fxRates)
-      .where(and(
-        eq(fxRates.baseCurrency, baseCurrency),
-        eq(fxRates.quoteCurrency, quoteCurrency)
-      ))
-      .orderBy(desc(fxRates.asOfDate), desc(fxRates.createdAt))
-      .limit(1);
-    return rate;
+    const [run] = await db
+      .update(paymentRuns)
+      .set({ status: 'approved', approvedBy, approvedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(paymentRuns.id, id), eq(paymentRuns.status, 'proposed')))
+      .returning();
+    if (!run) {
+      throw new Error('Payment run not found or not awaiting approval');
+    }
+    return run;
   }
 
-  async upsertFxRate(rateData: InsertFxRate): Promise<FxRate> {
+  async markPaymentRunExported(id: string): Promise<PaymentRun> {
     const db = await getDb();
-    const [rate] = await db
-      .insert(fxRates)
-      .values(rateData)
-      .onConflictDoUpdate({
-        target: [fxRates.baseCurrency, fxRates.quoteCurrency, fxRates.asOfDate],
-        set: {
-          rate: rateData.rate,
-          source: rateData.source,
-          createdAt: new Date(),
-        },
-      })
+    const [run] = await db
+      .update(paymentRuns)
+      .set({ status: 'exported', exportedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(paymentRuns.id, id), inArray(paymentRuns.status, ['approved', 'exported'])))
       .returning();
-    return rate;
+    if (!run) {
+      throw new Error('Only approved payment runs can be exported');
+    }
+    return run;
   }
 
-  async refreshFxRates(): Promise<FxRate[]> {
-    const startMemory = process.memoryUsage();
-    const startTime = Date.now();
-    
-    try {
-      const { externalIntegrationsService } = await import("./external-integrations");
-      
-      // Get latest rates from external service
-      const fxData = await externalIntegrationsService.getFxRatesWithFallbacks('USD');
-      
-      if (!fxData.success) {
-        console.warn('Failed to fetch FX rates from external services');
-        return [];
+  async completePaymentRun(id: string, completedBy: string): Promise<{ run: PaymentRun; payments: SupplierPayment[] }> {
+    const run = await this.getPaymentRun(id);
+    if (!run) {
+      throw new Error('Payment run not found');
+    }
+    if (run.status !== 'approved' && run.status !== 'exported') {
+      throw new Error(`Payment run is ${run.status} and cannot be completed`);
+    }
+
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(paymentRuns)
+        .set({ status: 'completed', completedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(paymentRuns.id, id), inArray(paymentRuns.status, ['approved', 'exported'])))
+        .returning();
+      if (!claimed) {
+        throw new Error('Payment run was completed or cancelled concurrently');
       }
 
-      console.log(`🔍 [FX Refresh] Processing ${Object.keys(fxData.rates).length} currency rates from ${fxData.source}`);
+      // One payment per transfer; bills paid in the meantime are settled only for what is still open
+      const payments: SupplierPayment[] = [];
+      for (const group of run.groups) {
+        const openBills = await tx
+          .select()
+          .from(vendorBills)
+          .where(inArray(vendorBills.id, group.bills.map(bill => bill.billId)));
+        const allocations = group.bills
+          .map(line => {
+            const bill = openBills.find(b => b.id === line.billId);
+            const open = bill ? amountDifference(Number(bill.totalAmount), Number(bill.paidAmount)) : 0;
+            return { billId: line.billId, amount: Math.min(line.amount, open) };
+          })
+          .filter(allocation => allocation.amount > 0);
+        if (allocations.length === 0) continue;
+
+        const payment = await this.recordSupplierPayment(tx, {
+          supplierId: group.supplierId,
+          paymentDate: run.paymentDate,
+          currency: group.currency,
+          paymentMethod: 'bank_transfer',
+          reference: run.runNumber,
+          allocations,
+        }, completedBy, id);
+        payments.push(payment);
+      }
+
+      return { run: claimed, payments };
+    });
+  }
+
+  async cancelPaymentRun(id: string): Promise<PaymentRun> {
+    const db = await getDb();
+    const [run] = await db
+      .update(paymentRuns)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(eq(paymentRuns.id, id), inArray(paymentRuns.status, ['proposed', 'approved', 'exported'])))
+      .returning();
+    if (!run) {
+      throw new Error('Payment run not found or already completed');
+    }
+    return run;
+  }
+
+  // Foreign exchange revaluation
+  async getFxRevaluations(limit = 24): Promise<FxRevaluation[]> {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(fxRevaluations)
+      .orderBy(desc(fxRevaluations.revaluationDate))
+      .limit(limit);
+  }
 
-      const db = await getDb();
-      const currentDate = new Date().toISOString().split('T')[0];
-      const BATCH_SIZE = 25; // Process in smaller batches to control memory usage
-      const allUpdatedRates: FxRate[] = [];
-      
-      // Convert rates to array for batch processing
-      const rateEntries = Object.entries(fxData.rates);
-      
-      // Process in batches to control memory usage
-      for (let i = 0; i < rateEntries.length; i += BATCH_SIZE) {
-        const batchStartMemory = process.memoryUsage();
-        const batch = rateEntries.slice(i, i + BATCH_SIZE);
-        
-        // Prepare batch values
-        const batchValues = batch.map(([quoteCurrency, rate]) => ({
-          baseCurrency: 'USD',
-          quoteCurrency,
-          rate: rate.toString(),
-          asOfDate: currentDate,
-          source: fxData.source,
-          createdAt: new Date(),
-        }));
+  async previewFxRevaluation(revaluationDate: string): Promise<FxRevaluationPreview> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => this.computeFxRevaluation(tx, revaluationDate));
+  }
 
-        // Perform batch upsert using a transaction for better performance
-        const batchResults = await db.transaction(async (tx) => {
-          const results: FxRate[] = [];
-          
-          // Use batch insert with conflict resolution
-          for (const values of batchValues) {
-            const [result] = await tx
-              .insert(fxRates)
-              .values(values)
-              .onConflictDoUpdate({
-                target: [fxRates.baseCurrency, fxRates.quoteCurrency, fxRates.asOfDate],
-                set: {
-                  rate: values.rate,
-                  source: values.source,
-                  createdAt: values.createdAt,
-                },
-              })
-              .returning();
-            results.push(result);
-          }
-          
-          return results;
-        });
+  /**
+   * Post the month-end revaluation: receivables and payables per party move to the latest
+   * rate against unrealized exchange gain or loss, reversed on the following day.
+   */
+  async postFxRevaluation(revaluationDate: string, createdBy: string): Promise<FxRevaluation> {
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(fxRevaluations)
+        .where(eq(fxRevaluations.revaluationDate, revaluationDate));
+      if (existing) {
+        throw new Error(`Open items were already revalued on ${revaluationDate}`);
+      }
 
-        allUpdatedRates.push(...batchResults);
-        
-        // Memory monitoring for each batch
-        const batchEndMemory = process.memoryUsage();
-        const batchMemoryDelta = batchEndMemory.heapUsed - batchStartMemory.heapUsed;
-        
-        if (batchMemoryDelta > 5 * 1024 * 1024) { // > 5MB per batch
-          console.warn(`⚠️  [FX Refresh] High batch memory usage: ${Math.round(batchMemoryDelta / 1024 / 1024)}MB for batch ${Math.floor(i/BATCH_SIZE) + 1}`);
-        }
-        
-        // Force garbage collection between batches if available (development)
-        if (process.env.NODE_ENV === 'development' && global.gc) {
-          global.gc();
-        }
-        
-        // Clear batch variables to help garbage collection
-        batchValues.length = 0;
-        
-        // Progress logging
-        console.log(`📊 [FX Refresh] Processed batch ${Math.floor(i/BATCH_SIZE) + 1}/${Math.ceil(rateEntries.length/BATCH_SIZE)} (${batch.length} rates)`);
+      const preview = await this.computeFxRevaluation(tx, revaluationDate);
+      if (preview.lines.length === 0) {
+        throw new Error('No open foreign-currency receivables or payables changed in value');
       }
 
-      // Final memory analysis
-      const endTime = Date.now();
-      const endMemory = process.memoryUsage();
-      const totalMemoryDelta = endMemory.heapUsed - startMemory.heapUsed;
-      const duration = endTime - startTime;
-      
-      console.log(`✅ [FX Refresh] Completed ${allUpdatedRates.length} rates from ${fxData.source} in ${duration}ms`);
-      console.log(`📊 [FX Refresh] Memory usage: ${Math.round(totalMemoryDelta / 1024 / 1024)}MB delta`);
-      
-      if (totalMemoryDelta > 10 * 1024 * 1024) { // > 10MB total
-        console.warn(`⚠️  [FX Refresh] WARNING: High total memory usage detected: ${Math.round(totalMemoryDelta / 1024 / 1024)}MB`);
+      const [revaluation] = await tx
+        .insert(fxRevaluations)
+        .values({
+          revaluationDate,
+          baseCurrency: preview.baseCurrency,
+          receivablesAdjustment: preview.receivablesAdjustment.toFixed(2),
+          payablesAdjustment: preview.payablesAdjustment.toFixed(2),
+          lines: preview.lines,
+          createdBy,
+        })
+        .returning();
+
+      // One line per customer and supplier keeps the subledgers right without a line per document
+      const byParty = new Map<string, { kind: FxRevaluationLine['kind']; partyId: string; adjustment: number }>();
+      for (const line of preview.lines) {
+        const key = `${line.kind}:${line.partyId}`;
+        const party = byParty.get(key) ?? { kind: line.kind, partyId: line.partyId, adjustment: 0 };
+        party.adjustment = Math.round((party.adjustment + line.adjustment) * 100) / 100;
+        byParty.set(key, party);
+      }
+      // Receivables growing and payables shrinking are gains
+      const netGain = amountDifference(preview.receivablesAdjustment, preview.payablesAdjustment);
+
+      const entry = await this.postAutomaticJournal(tx, {
+        entryDate: revaluationDate,
+        description: `FX revaluation of open items at ${revaluationDate}`,
+        sourceType: 'fx_revaluation',
+        sourceId: revaluation.id,
+        sourceReference: revaluationDate,
+        postedBy: createdBy,
+      }, [
+        ...Array.from(byParty.values()).map(party => party.kind === 'receivable'
+          ? { account: 'gl_account_receivable' as const, debit: party.adjustment, customerId: party.partyId }
+          : { account: 'gl_account_payable' as const, credit: party.adjustment, supplierId: party.partyId }),
+        { account: 'gl_account_fx_gain', credit: Math.max(netGain, 0) },
+        { account: 'gl_account_fx_loss', debit: Math.max(-netGain, 0) },
+      ]);
+      if (!entry) {
+        return revaluation;
       }
 
-      return allUpdatedRates;
-    } catch (error) {
-      console.error('❌ [FX Refresh] Error refreshing FX rates:', error);
-      return [];
-    }
+      const nextDay = new Date(Date.parse(revaluationDate) + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const reversal = await this.reverseJournalInTx(tx, entry, createdBy, nextDay);
+
+      const [posted] = await tx
+        .update(fxRevaluations)
+        .set({ journalEntryId: entry.id, reversalEntryId: reversal.id })
+        .where(eq(fxRevaluations.id, revaluation.id))
+        .returning();
+      return posted;
+    });
   }
 
-  // Competitor Price operations
-  async getCompetitorPrices(productId?: string, competitor?: string): Promise<(CompetitorPrice & { product: Product })[]> {
+  // Accounting periods and month-end close
+  async getAccountingPeriods(year?: string): Promise<AccountingPeriod[]> {
     const db = await getDb();
-    
-    let conditions = [eq(competitorPrices.isActive, true)];
-    if (productId) conditions.push(eq(competitorPrices.productId, productId));
-    if (competitor) conditions.push(eq(competitorPrices.competitor, competitor));
-    
     return await db
-      .select({
-        id: competitorPrices.id,
-        productId: competitorPrices.productId,
-        competitor: competitorPrices.competitor,
-        price: competitorPrices.price,
-        currency: competitorPrices.currency,
-        sourceUrl: competitorPrices.sourceUrl,
-        collectedAt: competitorPrices.collectedAt,
-        isActive: competitorPrices.isActive,
-        product: products,
-      })
-      .from(competitorPrices)
-      .innerJoin(products, eq(competitorPrices.productId, products.id))
-      .where(and(...conditions))
-      .orderBy(desc(competitorPrices.collectedAt)) as any;
+      .select()
+      .from(accountingPeriods)
+      .where(year ? sql`${accountingPeriods.period} like ${`${year}-%`}` : undefined)
+      .orderBy(asc(accountingPeriods.period), asc(accountingPeriods.module));
+  }
+
+  /**
+   * Close a module's month. Only months that have ended can be closed, and a hard close
+   * waits until the module's items on the month-end checklist are cleared.
+   */
+  async closeAccountingPeriod(module: AccountingModule, period: string, status: 'soft_closed' | 'hard_closed', closedBy: string): Promise<AccountingPeriod> {
+    if (period >= new Date().toISOString().slice(0, 7)) {
+      throw new Error(`Period ${period} has not ended yet`);
+    }
+
+    if (status === 'hard_closed') {
+      const checklist = await this.getMonthEndChecklist(period);
+      const outstanding = module === 'inventory' ? checklist.unpostedGoodsReceipts.length
+        : module === 'purchases' ? checklist.unmatchedBills.length
+        : module === 'sales' ? checklist.openPosSessions.length
+        : 0;
+      if (outstanding > 0) {
+        throw new Error(`Cannot hard-close ${module} for ${period}: ${outstanding} month-end checklist item(s) are still outstanding`);
+      }
+    }
+
+    const db = await getDb();
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(accountingPeriods)
+        .where(and(eq(accountingPeriods.module, module), eq(accountingPeriods.period, period)));
+      if (current?.status === status) {
+        throw new Error(`The ${module} period ${period} is already ${status === 'hard_closed' ? 'hard-closed' : 'soft-closed'}`);
+      }
+      if (current?.status === 'hard_closed') {
+        throw new Error(`The ${module} period ${period} is hard-closed; reopen it first`);
+      }
+
+      const [closed] = await tx
+        .insert(accountingPeriods)
+        .values({ module, period, status, closedBy, closedAt: new Date() })
+        .onConflictDoUpdate({
+          target: [accountingPeriods.module, accountingPeriods.period],
+          set: { status, closedBy, closedAt: new Date(), updatedAt: new Date() },
+        })
+        .returning();
+      return closed;
+    });
   }
 
-  async upsertCompetitorPrice(priceData: InsertCompetitorPrice): Promise<CompetitorPrice> {
+  async reopenAccountingPeriod(module: AccountingModule, period: string, reason: string, reopenedBy: string): Promise<AccountingPeriod> {
     const db = await getDb();
-    const [price] = await db
-      .insert(competitorPrices)
-      .values(priceData)
-      .onConflictDoUpdate({
-        target: [competitorPrices.productId, competitorPrices.competitor],
-        set: {
-          price: priceData.price,
-          currency: priceData.currency,
-          sourceUrl: priceData.sourceUrl,
-          collectedAt: new Date(),
-        },
-      })
+    const [reopened] = await db
+      .update(accountingPeriods)
+      .set({ status: 'open', reopenedBy, reopenedAt: new Date(), reopenReason: reason, updatedAt: new Date() })
+      .where(and(eq(accountingPeriods.module, module), eq(accountingPeriods.period, period), ne(accountingPeriods.status, 'open')))
       .returning();
-    return price;
+    if (!reopened) {
+      throw new Error(`The ${module} period ${period} is not closed`);
+    }
+    return reopened;
   }
 
-  async getCompetitorAnalysis(productId?: string): Promise<Array<{
-    productId: string;
-    productName: string;
-    ourPrice: number;
-    avgCompetitorPrice: number;
-    minCompetitorPrice: number;
-    maxCompetitorPrice: number;
-    priceAdvantage: number;
-    competitorCount: number;
-  }>> {
+  async getMonthEndChecklist(period: string): Promise<MonthEndChecklist> {
     const db = await getDb();
-    
-    let conditions = [eq(competitorPrices.isActive, true)];
-    if (productId) conditions.push(eq(competitorPrices.productId, productId));
-    
-    const analysis = await db
+    const [year, month] = period.split('-').map(Number);
+    const nextMonthStart = new Date(Date.UTC(year, month, 1));
+    const periodEnd = new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0];
+
+    const unpostedGoodsReceipts = await db
       .select({
-        productId: products.id,
-        productName: products.name,
-        ourPrice: products.unitPrice,
-        avgCompetitorPrice: sql<number>`AVG(${competitorPrices.price})`.as('avgCompetitorPrice'),
-        minCompetitorPrice: sql<number>`MIN(${competitorPrices.price})`.as('minCompetitorPrice'),
-        maxCompetitorPrice: sql<number>`MAX(${competitorPrices.price})`.as('maxCompetitorPrice'),
-        competitorCount: sql<number>`COUNT(DISTINCT ${competitorPrices.competitor})`.as('competitorCount'),
+        id: goodsReceipts.id,
+        grNumber: goodsReceipts.grNumber,
+        poNumber: purchaseOrders.orderNumber,
+        receivedAt: goodsReceipts.receivedAt,
       })
-      .from(competitorPrices)
-      .innerJoin(products, eq(competitorPrices.productId, products.id))
-      .where(and(...conditions))
-      .groupBy(products.id, products.name, products.unitPrice);
-
-    return analysis.map(item => ({
-      ...item,
-      ourPrice: parseFloat(item.ourPrice?.toString() || '0'),
-      avgCompetitorPrice: parseFloat(item.avgCompetitorPrice?.toString() || '0'),
-      minCompetitorPrice: parseFloat(item.minCompetitorPrice?.toString() || '0'),
-      maxCompetitorPrice: parseFloat(item.maxCompetitorPrice?.toString() || '0'),
-      priceAdvantage: item.ourPrice && item.avgCompetitorPrice 
-        ? ((parseFloat(item.avgCompetitorPrice.toString()) - parseFloat(item.ourPrice.toString())) / parseFloat(item.avgCompetitorPrice.toString())) * 100
-        : 0,
-    }));
-  }
+      .from(goodsReceipts)
+      .leftJoin(purchaseOrders, eq(goodsReceipts.poId, purchaseOrders.id))
+      .where(and(eq(goodsReceipts.status, 'draft'), lt(goodsReceipts.receivedAt, nextMonthStart)))
+      .orderBy(asc(goodsReceipts.receivedAt));
 
-  // Purchase Dashboard metrics
-  async getPurchaseDashboardMetrics(): Promise<{
-    totalPurchaseOrders: number;
-    pendingApprovals: number;
-    openPurchaseOrders: number;
-    totalPurchaseValue: number;
-    averageOrderValue: number;
-    topSuppliers: Array<{
-      supplierId: string;
-      supplierName: string;
-      orderCount: number;
-      totalValue: number;
-    }>;
-    upcomingPayments: Array<{
-      billId: string;
-      billNumber: string;
-      supplierName: string;
-      amount: number;
-      currency: string;
-      dueDate: string;
-      daysUntilDue: number;
-    }>;
-    matchingExceptions: number;
-    currencyExposure: Array<{
-      currency: string;
-      amount: number;
-      exposureType: 'payables' | 'orders';
-    }>;
-  }> {
-    const db = await getDb();
-    
-    // Get basic PO metrics
-    const [poMetrics] = await db
+    // Bills against a purchase order whose three-way match has not come out matched
+    const bills = await db
       .select({
-        totalPurchaseOrders: sql<number>`COUNT(*)`.as('totalPurchaseOrders'),
-        openPurchaseOrders: sql<number>`COUNT(*) FILTER (WHERE ${purchaseOrders.status} IN ('draft', 'sent', 'confirmed'))`.as('openPurchaseOrders'),
-        totalPurchaseValue: sql<number>`COALESCE(SUM(${purchaseOrders.totalAmount}), 0)`.as('totalPurchaseValue'),
-        averageOrderValue: sql<number>`COALESCE(AVG(${purchaseOrders.totalAmount}), 0)`.as('averageOrderValue'),
+        id: vendorBills.id,
+        billNumber: vendorBills.billNumber,
+        supplierName: suppliers.name,
+        billDate: vendorBills.billDate,
+        totalAmount: vendorBills.totalAmount,
+        currency: vendorBills.currency,
+        matchStatus: sql<string | null>`(select ${matchResults.status} from ${matchResults} where ${matchResults.poId} = ${vendorBills.poId} order by ${matchResults.createdAt} desc limit 1)`,
       })
-      .from(purchaseOrders);
+      .from(vendorBills)
+      .innerJoin(suppliers, eq(vendorBills.supplierId, suppliers.id))
+      .where(and(
+        ne(vendorBills.status, 'cancelled'),
+        lte(vendorBills.billDate, periodEnd),
+        sql`${vendorBills.poId} is not null`,
+        sql`not exists (select 1 from ${matchResults} where ${matchResults.poId} = ${vendorBills.poId} and ${matchResults.status} = 'matched')`
+      ))
+      .orderBy(asc(vendorBills.billDate));
 
-    // Get pending approvals
-    const [approvalMetrics] = await db
+    const openPosSessions = await db
       .select({
-        pendingApprovals: sql<number>`COUNT(*)`.as('pendingApprovals'),
+        id: posSessions.id,
+        sessionNumber: posSessions.sessionNumber,
+        terminalName: posTerminals.name,
+        cashierId: posSessions.cashierId,
+        startTime: posSessions.startTime,
+        status: posSessions.status,
       })
-      .from(approvals)
-      .where(eq(approvals.status, 'pending'));
+      .from(posSessions)
+      .leftJoin(posTerminals, eq(posSessions.terminalId, posTerminals.id))
+      .where(and(inArray(posSessions.status, ['open', 'suspended']), lt(posSessions.startTime, nextMonthStart)))
+      .orderBy(asc(posSessions.startTime));
 
-    // Get matching exceptions
-    const [matchMetrics] = await db
+    return {
+      period,
+      unpostedGoodsReceipts,
+      unmatchedBills: bills.map(bill => ({ ...bill, totalAmount: Number(bill.totalAmount), currency: bill.currency || 'USD' })),
+      openPosSessions: openPosSessions.map(session => ({ ...session, status: session.status || 'open' })),
+    };
+  }
+
+  // Costing: stock valuation and margins
+
+  /**
+   * Stock on hand and its cost at the end of asOf, rebuilt from the stock ledger so past
+   * month-ends can be reported. Movements from before costing are counted but not valued.
+   */
+  async getStockValuation(asOf: string, warehouseId?: string): Promise<StockValuation> {
+    const db = await getDb();
+    const baseCurrency = await this.getSettingValue('base_currency');
+    const nextDay = new Date(`${asOf}T00:00:00Z`);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+
+    const rows = await db
       .select({
-        matchingExceptions: sql<number>`COUNT(*)`.as('matchingExceptions'),
+        productId: products.id,
+        sku: products.sku,
+        productName: products.name,
+        costingMethod: products.costingMethod,
+        quantity: sql<string>`sum(${stockMovements.quantity})`,
+        uncostedQuantity: sql<string>`coalesce(sum(${stockMovements.quantity}) filter (where ${stockMovements.totalCost} is null), 0)`,
+        value: sql<string>`coalesce(sum(${stockMovements.totalCost}), 0)`,
       })
-      .from(matchResults)
-      .where(sql`${matchResults.status} != 'matched'`);
+      .from(stockMovements)
+      .innerJoin(products, eq(stockMovements.productId, products.id))
+      .where(and(
+        lt(stockMovements.createdAt, nextDay),
+        warehouseId ? eq(stockMovements.warehouseId, warehouseId) : undefined
+      ))
+      .groupBy(products.id, products.sku, products.name, products.costingMethod)
+      .orderBy(asc(products.name));
+
+    const lines: StockValuationLine[] = rows
+      .map(row => {
+        const quantity = Number(row.quantity);
+        const uncostedQuantity = Number(row.uncostedQuantity);
+        const value = Number(row.value);
+        return {
+          productId: row.productId,
+          sku: row.sku,
+          productName: row.productName,
+          costingMethod: row.costingMethod,
+          quantity,
+          uncostedQuantity,
+          value,
+          unitCost: movingAverageCost(quantity - uncostedQuantity, value) ?? 0,
+        };
+      })
+      .filter(line => line.quantity !== 0 || line.value !== 0);
+
+    // The inventory account only ties to the whole stock, not to one warehouse
+    let glInventoryBalance: number | null = null;
+    if (!warehouseId) {
+      const account = await db.transaction(async (tx) => this.resolveGlAccount(tx, 'gl_account_inventory'));
+      const [row] = await db
+        .select({ balance: sql<string>`coalesce(sum(${journalLines.debit}) - sum(${journalLines.credit}), 0)` })
+        .from(journalLines)
+        .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+        .where(and(
+          eq(journalLines.accountId, account.id),
+          inArray(journalEntries.status, ['posted', 'reversed']),
+          lte(journalEntries.entryDate, asOf)
+        ));
+      glInventoryBalance = Number(row.balance);
+    }
 
     return {
-      totalPurchaseOrders: poMetrics?.totalPurchaseOrders || 0,
-      pendingApprovals: approvalMetrics?.pendingApprovals || 0,
-      openPurchaseOrders: poMetrics?.openPurchaseOrders || 0,
-      totalPurchaseValue: parseFloat(poMetrics?.totalPurchaseValue?.toString() || '0'),
-      averageOrderValue: parseFloat(poMetrics?.averageOrderValue?.toString() || '0'),
-      topSuppliers: [], // Would implement with complex query
-      upcomingPayments: [], // Would implement with complex query
-      matchingExceptions: matchMetrics?.matchingExceptions || 0,
-      currencyExposure: [], // Would implement with complex query
+      asOf,
+      warehouseId: warehouseId ?? null,
+      baseCurrency,
+      lines,
+      totalValue: lines.reduce((cents, line) => cents + Math.round(line.value * 100), 0) / 100,
+      glInventoryBalance,
     };
   }
 
-  // AI Module Operations Implementation
-  
-  // AI Chat Session operations
-  async getAiChatSessions(userId?: string, status?: string, limit = 50): Promise<AiChatSession[]> {
+  /**
+   * Revenue against cost of sales for each line sold in the period, in base currency.
+   * A line's cost is what its order's or POS sale's outbound movements were costed at;
+   * returns on a credit note take back the cost they were sold at.
+   */
+  async getMarginReport(from: string, to: string): Promise<MarginReport> {
     const db = await getDb();
-    const conditions = [];
-    
-    if (userId) conditions.push(eq(aiChatSessions.userId, userId));
-    if (status) conditions.push(eq(aiChatSessions.status, status as any));
-    
-    return await db
-      .select()
-      .from(aiChatSessions)
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .limit(limit)
-      .orderBy(desc(aiChatSessions.createdAt));
-  }
+    const baseCurrency = await this.getSettingValue('base_currency');
 
-  async getAiChatSession(id: string): Promise<(AiChatSession & { messages: AiChatMessage[] }) | undefined> {
-    const db = await getDb();
-    const [session] = await db
-      .select()
-      .from(aiChatSessions)
-      .where(eq(aiChatSessions.id, id));
-    
-    if (!session) return undefined;
-    
-    const messages = await db
-      .select()
-      .from(aiChatMessages)
-      .where(eq(aiChatMessages.sessionId, id))
-      .orderBy(asc(aiChatMessages.createdAt));
-    
-    return { ...session, messages };
+    type SoldLine = Omit<MarginLine, 'productName' | 'cost' | 'margin'> & { costReference: string | null };
+    const sold: SoldLine[] = [];
+
+    const issuedInvoices = await db
+      .select({ invoice: invoices, customerName: customers.name, orderNumber: salesOrders.orderNumber })
+      .from(invoices)
+      .innerJoin(customers, eq(invoices.customerId, customers.id))
+      .leftJoin(salesOrders, eq(invoices.salesOrderId, salesOrders.id))
+      .where(and(
+        notInArray(invoices.status, ['draft', 'cancelled']),
+        gte(invoices.invoiceDate, from),
+        lte(invoices.invoiceDate, to)
+      ))
+      .orderBy(asc(invoices.invoiceDate), asc(invoices.invoiceNumber));
+    for (const { invoice, customerName, orderNumber } of issuedInvoices as Array<{ invoice: Invoice; customerName: string; orderNumber: string | null }>) {
+      const fxRate = Number(invoice.fxRate) || 1;
+      const isCreditNote = Number(invoice.totalAmount || 0) < 0 || !!invoice.creditedLines;
+
+      let items: Array<{ productId: string | null; quantity: number; netAmount: number }> = [];
+      if (invoice.creditedLines) {
+        items = invoice.creditedLines.map(line => ({ productId: line.productId, quantity: -line.quantity, netAmount: -line.netAmount }));
+      } else if (invoice.shipmentId) {
+        const shipped = await db
+          .select({ productId: salesOrderItems.productId, quantity: shipmentItems.quantity, unitPrice: shipmentItems.unitPrice })
+          .from(shipmentItems)
+          .innerJoin(salesOrderItems, eq(shipmentItems.salesOrderItemId, salesOrderItems.id))
+          .where(eq(shipmentItems.shipmentId, invoice.shipmentId));
+        items = shipped.map(line => ({ productId: line.productId, quantity: line.quantity, netAmount: Math.round(Number(line.unitPrice) * line.quantity * 100) / 100 }));
+      } else if (invoice.salesOrderId && !isCreditNote) {
+        const orderItems: SalesOrderItem[] = await db.select().from(salesOrderItems).where(eq(salesOrderItems.orderId, invoice.salesOrderId));
+        items = orderItems.map(item => ({ productId: item.productId, quantity: item.quantity, netAmount: Number(item.totalPrice) }));
+      }
+      // Invoices without item detail count their whole subtotal as revenue with no cost
+      if (items.length === 0) {
+        items = [{ productId: null, quantity: 0, netAmount: Number(invoice.subtotal || 0) }];
+      }
+
+      for (const item of items) {
+        sold.push({
+          documentType: isCreditNote ? 'credit_note' : 'invoice',
+          documentId: invoice.id,
+          documentNumber: invoice.invoiceNumber,
+          documentDate: invoice.invoiceDate,
+          customerId: invoice.customerId,
+          customerName,
+          productId: item.productId,
+          quantity: item.quantity,
+          revenue: toBaseAmount(item.netAmount, fxRate),
+          costReference: orderNumber,
+        });
+      }
+    }
+
+    const posSales = await db
+      .select({ receipt: posReceipts, customerName: customers.name })
+      .from(posReceipts)
+      .leftJoin(customers, eq(posReceipts.customerId, customers.id))
+      .where(and(
+        eq(posReceipts.status, 'completed'),
+        gte(sql`${posReceipts.createdAt}::date`, from),
+        lte(sql`${posReceipts.createdAt}::date`, to)
+      ))
+      .orderBy(asc(posReceipts.createdAt));
+    for (const { receipt, customerName } of posSales as Array<{ receipt: PosReceipt; customerName: string | null }>) {
+      const soldItems: Array<{ productId: string; quantity: number; unitPrice: number; netAmount?: number }> =
+        (receipt.receiptData as any)?.items ?? [];
+      for (const item of soldItems) {
+        sold.push({
+          documentType: 'pos_receipt',
+          documentId: receipt.id,
+          documentNumber: receipt.receiptNumber ?? receipt.id,
+          documentDate: (receipt.createdAt ?? new Date()).toISOString().split('T')[0],
+          customerId: receipt.customerId,
+          customerName: customerName ?? 'Walk-in customer',
+          productId: item.productId,
+          quantity: item.quantity,
+          revenue: item.netAmount ?? Math.round(item.unitPrice * item.quantity * 100) / 100,
+          costReference: receipt.receiptNumber,
+        });
+      }
+    }
+
+    // Unit cost of sales per order or receipt and product, from the outbound movements
+    const references = Array.from(new Set(sold.map(line => line.costReference).filter((reference): reference is string => !!reference)));
+    const soldCosts = references.length > 0
+      ? await db
+          .select({
+            reference: stockMovements.reference,
+            productId: stockMovements.productId,
+            quantity: sql<string>`-sum(${stockMovements.quantity})`,
+            cost: sql<string>`sum(${stockMovements.costOfSales})`,
+          })
+          .from(stockMovements)
+          .where(and(
+            inArray(stockMovements.reference, references),
+            eq(stockMovements.movementType, 'out'),
+            isNotNull(stockMovements.costOfSales)
+          ))
+          .groupBy(stockMovements.reference, stockMovements.productId)
+      : [];
+    const unitCosts = new Map(soldCosts.map(row => [`${row.reference}|${row.productId}`, movingAverageCost(Number(row.quantity), Number(row.cost)) ?? 0]));
+
+    const productIds = Array.from(new Set(sold.map(line => line.productId).filter((id): id is string => !!id)));
+    const productRows = productIds.length > 0
+      ? await db.select({ id: products.id, name: products.name }).from(products).where(inArray(products.id, productIds))
+      : [];
+    const productNames = new Map(productRows.map(row => [row.id, row.name]));
+
+    const lines: MarginLine[] = sold.map(({ costReference, ...line }) => {
+      const unitCost = line.productId ? unitCosts.get(`${costReference}|${line.productId}`) ?? 0 : 0;
+      const cost = Math.round(line.quantity * unitCost * 100) / 100;
+      return {
+        ...line,
+        productName: line.productId ? productNames.get(line.productId) ?? line.productId : 'Without item detail',
+        cost,
+        margin: amountDifference(line.revenue, cost),
+      };
+    });
+
+    const summarize = (group: MarginLine[], id: string | null, name: string): MarginSummary => {
+      const revenue = group.reduce((cents, line) => cents + Math.round(line.revenue * 100), 0) / 100;
+      const cost = group.reduce((cents, line) => cents + Math.round(line.cost * 100), 0) / 100;
+      const margin = amountDifference(revenue, cost);
+      return { id, name, revenue, cost, margin, marginPercent: marginPercent(revenue, margin) };
+    };
+    const rollUp = (key: (line: MarginLine) => { id: string | null; name: string }): MarginSummary[] => {
+      const groups = new Map<string, { id: string | null; name: string; lines: MarginLine[] }>();
+      for (const line of lines) {
+        const { id, name } = key(line);
+        const group = groups.get(id ?? '') ?? { id, name, lines: [] };
+        group.lines.push(line);
+        groups.set(id ?? '', group);
+      }
+      return Array.from(groups.values())
+        .map(group => summarize(group.lines, group.id, group.name))
+        .sort((a, b) => b.margin - a.margin);
+    };
+
+    return {
+      from,
+      to,
+      baseCurrency,
+      lines,
+      byProduct: rollUp(line => ({ id: line.productId, name: line.productName })),
+      byCustomer: rollUp(line => ({ id: line.customerId, name: line.customerName })),
+      totals: summarize(lines, null, 'Total'),
+    };
   }
 
-  async createAiChatSession(sessionData: InsertAiChatSession): Promise<AiChatSession> {
+  // Landed costs
+
+  async getLandedCosts(): Promise<LandedCost[]> {
     const db = await getDb();
-    const [session] = await db
-      .insert(aiChatSessions)
-      .values(sessionData)
-      .returning();
-    return session;
+    return await db.select().from(landedCosts).orderBy(desc(landedCosts.documentDate), desc(landedCosts.createdAt));
   }
 
-  async updateAiChatSession(id: string, sessionData: Partial<InsertAiChatSession>): Promise<AiChatSession> {
+  async getLandedCost(id: string): Promise<LandedCostDetail | undefined> {
     const db = await getDb();
-    const [session] = await db
-      .update(aiChatSessions)
-      .set({ ...sessionData, updatedAt: new Date() })
-      .where(eq(aiChatSessions.id, id))
-      .returning();
-    return session;
+    const [landedCost] = await db.select().from(landedCosts).where(eq(landedCosts.id, id));
+    return landedCost ? await db.transaction(async (tx) => this.landedCostDetail(tx, landedCost)) : undefined;
   }
 
-  async closeAiChatSession(id: string): Promise<AiChatSession> {
+  async createLandedCost(request: CreateLandedCostRequest, createdBy: string): Promise<LandedCostDetail> {
     const db = await getDb();
-    const [session] = await db
-      .update(aiChatSessions)
-      .set({ 
-        status: 'closed',
-        updatedAt: new Date()
-      })
-      .where(eq(aiChatSessions.id, id))
-      .returning();
-    return session;
+    return await db.transaction(async (tx) => {
+      await this.assertPeriodOpen(tx, 'purchases', request.documentDate);
+
+      const orderIds = Array.from(new Set(request.purchaseOrderIds));
+      const receiptIds = Array.from(new Set(request.goodsReceiptIds));
+      const orders = orderIds.length > 0 ? await tx.select({ id: purchaseOrders.id }).from(purchaseOrders).where(inArray(purchaseOrders.id, orderIds)) : [];
+      if (orders.length !== orderIds.length) {
+        throw new Error('Purchase order not found');
+      }
+      const receiptRows = receiptIds.length > 0 ? await tx.select({ id: goodsReceipts.id }).from(goodsReceipts).where(inArray(goodsReceipts.id, receiptIds)) : [];
+      if (receiptRows.length !== receiptIds.length) {
+        throw new Error('Goods receipt not found');
+      }
+
+      const fxRate = await this.resolveFxRate(tx, request.currency, request.fxRate, request.documentDate);
+      const totalCents = request.charges.reduce((cents, charge) => cents + Math.round(charge.amount * 100), 0);
+      const documentNumber = await this.allocateDocumentNumber(tx, 'landed_cost', { date: new Date(request.documentDate) });
+      const [landedCost] = await tx
+        .insert(landedCosts)
+        .values({
+          documentNumber,
+          documentDate: request.documentDate,
+          allocationMethod: request.allocationMethod,
+          currency: request.currency,
+          fxRate: fxRate.toFixed(6),
+          totalAmount: (totalCents / 100).toFixed(2),
+          notes: request.notes,
+          createdBy,
+        })
+        .returning();
+
+      await tx.insert(landedCostCharges).values(request.charges.map(charge => ({
+        landedCostId: landedCost.id,
+        chargeType: charge.chargeType,
+        supplierId: charge.supplierId || null,
+        description: charge.description || null,
+        amount: charge.amount.toFixed(2),
+      })));
+      await tx.insert(landedCostSources).values([
+        ...orderIds.map(purchaseOrderId => ({ landedCostId: landedCost.id, purchaseOrderId })),
+        ...receiptIds.map(goodsReceiptId => ({ landedCostId: landedCost.id, goodsReceiptId })),
+      ]);
+
+      return await this.landedCostDetail(tx, landedCost);
+    });
   }
 
-  // AI Chat Message operations
-  async getAiChatMessages(sessionId: string, limit = 100): Promise<AiChatMessage[]> {
+  /**
+   * Add the charges to the received batches. Units still in stock, wherever they have been
+   * transferred since, are revalued on the stock ledger and their batch cost raised; the
+   * share of units already sold goes straight to cost of sales. The charges are accrued
+   * against goods received not invoiced, which the forwarders' and customs bills clear.
+   */
+  async allocateLandedCost(id: string, allocatedBy: string): Promise<LandedCostDetail> {
     const db = await getDb();
-    return await db
-      .select()
-      .from(aiChatMessages)
-      .where(eq(aiChatMessages.sessionId, sessionId))
-      .limit(limit)
-      .orderBy(asc(aiChatMessages.createdAt));
+    return await db.transaction(async (tx) => {
+      const [landedCost] = await tx
+        .select()
+        .from(landedCosts)
+        .where(eq(landedCosts.id, id))
+        .for('update');
+      if (!landedCost) {
+        throw new Error('Landed cost not found');
+      }
+      if (landedCost.status !== 'draft') {
+        throw new Error(`Landed cost ${landedCost.documentNumber} is ${landedCost.status}`);
+      }
+      await this.assertPeriodOpen(tx, 'purchases', landedCost.documentDate);
+      await this.assertPeriodOpen(tx, 'inventory', landedCost.documentDate);
+
+      const charges: LandedCostCharge[] = await tx.select().from(landedCostCharges).where(eq(landedCostCharges.landedCostId, id));
+      const { lines, entries } = await this.landedCostShares(tx, landedCost, charges, { forUpdate: true });
+
+      await tx.insert(landedCostAllocations).values(entries.map(entry => ({
+        landedCostId: id,
+        chargeId: entry.chargeId,
+        goodsReceiptId: lines[entry.lineIndex].goodsReceiptId,
+        inventoryId: lines[entry.lineIndex].inventoryId,
+        productId: entry.productId,
+        quantity: entry.quantity,
+        receivedValue: entry.receivedValue.toFixed(2),
+        amount: entry.amount.toFixed(2),
+        inventoryAmount: amountDifference(entry.amount, entry.costOfSalesAmount).toFixed(2),
+        costOfSalesAmount: entry.costOfSalesAmount.toFixed(2),
+      })));
+
+      let inventoryCents = 0;
+      let costOfSalesCents = 0;
+      for (let index = 0; index < lines.length; index++) {
+        const line = lines[index];
+        const lineEntries = entries.filter(entry => entry.lineIndex === index);
+        const lineCents = lineEntries.reduce((cents, entry) => cents + Math.round(entry.amount * 100), 0);
+        const soldCents = lineEntries.reduce((cents, entry) => cents + Math.round(entry.costOfSalesAmount * 100), 0);
+        const unitIncrease = lineCents / 100 / line.quantity;
+
+        // The stock ledger carries the value added to what is left of the batch
+        const holderCents = allocateCents(lineCents - soldCents, line.holders.map(holder => holder.quantity));
+        for (let h = 0; h < line.holders.length; h++) {
+          const holder = line.holders[h];
+          await tx
+            .update(inventory)
+            .set({ costPerUnit: (Number(holder.costPerUnit ?? 0) + unitIncrease).toFixed(4), updatedAt: new Date() })
+            .where(eq(inventory.id, holder.id));
+          await tx.insert(stockMovements).values({
+            productId: line.productId,
+            warehouseId: holder.warehouseId,
+            inventoryId: holder.id,
+            movementType: 'landed_cost',
+            quantity: 0,
+            reference: landedCost.documentNumber,
+            notes: `Landed cost ${landedCost.documentNumber} on ${line.grNumber}`,
+            userId: allocatedBy,
+            totalCost: (holderCents[h] / 100).toFixed(2),
+          });
+        }
+        if (soldCents > 0) {
+          await tx.insert(stockMovements).values({
+            productId: line.productId,
+            warehouseId: line.warehouseId,
+            inventoryId: line.inventoryId,
+            movementType: 'landed_cost',
+            quantity: 0,
+            reference: landedCost.documentNumber,
+            notes: `Landed cost ${landedCost.documentNumber} on ${line.grNumber}, units already sold`,
+            userId: allocatedBy,
+            totalCost: '0.00',
+            costOfSales: (soldCents / 100).toFixed(2),
+          });
+        }
+        inventoryCents += lineCents - soldCents;
+        costOfSalesCents += soldCents;
+      }
+
+      const fxRate = Number(landedCost.fxRate) || 1;
+      const entry = await this.postAutomaticJournal(tx, {
+        entryDate: landedCost.documentDate,
+        description: `Landed cost ${landedCost.documentNumber}`,
+        sourceType: 'landed_cost',
+        sourceId: landedCost.id,
+        sourceReference: landedCost.documentNumber,
+        postedBy: allocatedBy,
+      }, [
+        { account: 'gl_account_inventory', debit: inventoryCents / 100 },
+        { account: 'gl_account_cost_of_sales', debit: costOfSalesCents / 100 },
+        ...charges.map(charge => ({
+          account: 'gl_account_goods_received_not_invoiced' as const,
+          credit: toBaseAmount(Number(charge.amount), fxRate),
+          supplierId: charge.supplierId ?? undefined,
+        })),
+      ]);
+
+      const [allocated] = await tx
+        .update(landedCosts)
+        .set({ status: 'allocated', journalEntryId: entry?.id ?? null, allocatedBy, allocatedAt: new Date(), updatedAt: new Date() })
+        .where(eq(landedCosts.id, id))
+        .returning();
+      return await this.landedCostDetail(tx, allocated);
+    });
   }
 
-  async createAiChatMessage(messageData: InsertAiChatMessage): Promise<AiChatMessage> {
+  async cancelLandedCost(id: string): Promise<LandedCost> {
     const db = await getDb();
-    const [message] = await db
-      .insert(aiChatMessages)
-      .values(messageData)
+    const [cancelled] = await db
+      .update(landedCosts)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(eq(landedCosts.id, id), eq(landedCosts.status, 'draft')))
       .returning();
-    
-    // Update session timestamp
-    await db
-      .update(aiChatSessions)
-      .set({ updatedAt: new Date() })
-      .where(eq(aiChatSessions.id, messageData.sessionId));
-    
-    return message;
+    if (!cancelled) {
+      throw new Error('Only draft landed costs can be cancelled');
+    }
+    return cancelled;
   }
 
-  // AI Insights operations
-  async getAiInsights(type?: string, status?: string, entityType?: string, entityId?: string, limit = 50): Promise<(AiInsight & { generatedByUser?: User; reviewedByUser?: User; appliedByUser?: User })[]> {
+  // Bank accounts, statement import and reconciliation
+  async getBankAccounts(): Promise<BankAccount[]> {
     const db = await getDb();
-    const conditions = [];
-    
-    if (type) conditions.push(eq(aiInsights.type, type as any));
-    if (status) conditions.push(eq(aiInsights.status, status as any));
-    if (entityType) conditions.push(eq(aiInsights.entityType, entityType));
-    if (entityId) conditions.push(eq(aiInsights.entityId, entityId));
-    
-    const results = await db
-      .select({
-        insight: aiInsights,
-        generatedBy: users,
-        reviewedBy: sql<User | null>`rev_user.*`,
-        appliedBy: sql<User | null>`app_user.*`,
-      })
-      .from(aiInsights)
-      .leftJoin(users, eq(aiInsights.generatedBy, users.id))
-      .leftJoin(sql`${users} AS rev_user`, sql`${aiInsights.reviewedBy} = rev_user.id`)
-      .leftJoin(sql`${users} AS app_user`, sql`${aiInsights.appliedBy} = app_user.id`)
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .limit(limit)
-      .orderBy(desc(aiInsights.createdAt));
-    
-    return results.map(row => ({
-      ...row.insight,
-      generatedByUser: row.generatedBy || undefined,
-      reviewedByUser: row.reviewedBy || undefined,
-      appliedByUser: row.appliedBy || undefined,
-    }));
+    return await db.select().from(bankAccounts).orderBy(asc(bankAccounts.name));
   }
 
-  async getAiInsight(id: string): Promise<(AiInsight & { generatedByUser?: User; reviewedByUser?: User; appliedByUser?: User }) | undefined> {
+  async createBankAccount(account: InsertBankAccount): Promise<BankAccount> {
     const db = await getDb();
-    const [row] = await db
-      .select({
-        insight: aiInsights,
-        generatedBy: users,
-        reviewedBy: sql<User | null>`rev_user.*`,
-        appliedBy: sql<User | null>`app_user.*`,
-      })
-      .from(aiInsights)
-      .leftJoin(users, eq(aiInsights.generatedBy, users.id))
-      .leftJoin(sql`${users} AS rev_user`, sql`${aiInsights.reviewedBy} = rev_user.id`)
-      .leftJoin(sql`${users} AS app_user`, sql`${aiInsights.appliedBy} = app_user.id`)
-      .where(eq(aiInsights.id, id));
-    
-    if (!row) return undefined;
-    
-    return {
-      ...row.insight,
-      generatedByUser: row.generatedBy || undefined,
-      reviewedByUser: row.reviewedBy || undefined,
-      appliedByUser: row.appliedBy || undefined,
-    };
+    const [created] = await db.insert(bankAccounts).values(account).returning();
+    return created;
   }
 
-  async createAiInsight(insightData: InsertAiInsight): Promise<AiInsight> {
+  async updateBankAccount(id: string, account: Partial<InsertBankAccount>): Promise<BankAccount> {
     const db = await getDb();
-    const [insight] = await db
-      .insert(aiInsights)
-      .values(insightData)
+    const [updated] = await db
+      .update(bankAccounts)
+      .set({ ...account, updatedAt: new Date() })
+      .where(eq(bankAccounts.id, id))
       .returning();
-    return insight;
+    if (!updated) {
+      throw new Error('Bank account not found');
+    }
+    return updated;
   }
 
-  async updateAiInsight(id: string, insightData: Partial<InsertAiInsight>): Promise<AiInsight> {
+  async getBankStatements(bankAccountId?: string): Promise<BankStatement[]> {
     const db = await getDb();
-    const [insight] = await db
-      .update(aiInsights)
-      .set({ ...insightData, updatedAt: new Date() })
-      .where(eq(aiInsights.id, id))
-      .returning();
-    return insight;
+    return await db
+      .select()
+      .from(bankStatements)
+      .where(bankAccountId ? eq(bankStatements.bankAccountId, bankAccountId) : undefined)
+      .orderBy(desc(bankStatements.createdAt))
+      .limit(100);
   }
 
-  async reviewAiInsight(id: string, reviewerId: string, status: 'reviewed' | 'applied' | 'dismissed'): Promise<AiInsight> {
+  async importBankStatement(request: ImportBankStatementRequest, importedBy: string): Promise<BankStatementImportResult> {
     const db = await getDb();
-    const [insight] = await db
-      .update(aiInsights)
-      .set({ 
-        status,
-        reviewedBy: reviewerId,
-        updatedAt: new Date()
-      })
-      .where(eq(aiInsights.id, id))
-      .returning();
-    return insight;
+    const result = await db.transaction(async (tx) => {
+      const [account] = await tx.select().from(bankAccounts).where(eq(bankAccounts.id, request.bankAccountId));
+      if (!account) {
+        throw new Error('Bank account not found');
+      }
+      if (!account.isActive) {
+        throw new Error(`Bank account ${account.name} is inactive`);
+      }
+
+      const parsed = parseBankStatement(request.format, request.content);
+      if (parsed.currency && parsed.currency !== account.currency) {
+        throw new Error(`Statement is in ${parsed.currency} but ${account.name} is a ${account.currency} account`);
+      }
+
+      // Lines inside a closed reconciliation period are final and cannot be added to
+      const lastClosed = await this.getLastBankReconciliation(tx, account.id);
+      const fingerprints = statementLineFingerprints(parsed.lines);
+      const lines = parsed.lines
+        .map((line, index) => ({ ...line, fingerprint: fingerprints[index] }))
+        .filter(line => !lastClosed || line.transactionDate > lastClosed.periodEnd);
+      const skippedReconciled = parsed.lines.length - lines.length;
+      if (lines.length === 0) {
+        throw new Error(`Every line in this statement is dated on or before ${lastClosed?.periodEnd}, which is already reconciled`);
+      }
+
+      const dates = lines.map(line => line.transactionDate).sort();
+      const [statement] = await tx
+        .insert(bankStatements)
+        .values({
+          bankAccountId: account.id,
+          format: request.format,
+          fileName: request.fileName,
+          statementReference: parsed.statementReference,
+          periodStart: dates[0],
+          periodEnd: dates[dates.length - 1],
+          openingBalance: parsed.openingBalance?.toFixed(2),
+          closingBalance: parsed.closingBalance?.toFixed(2),
+          importedBy,
+        })
+        .returning();
+
+      const inserted = await tx
+        .insert(bankStatementLines)
+        .values(lines.map(line => ({
+          statementId: statement.id,
+          bankAccountId: account.id,
+          transactionDate: line.transactionDate,
+          valueDate: line.valueDate,
+          amount: line.amount.toFixed(2),
+          description: line.description,
+          reference: line.reference,
+          bankReference: line.bankReference,
+          counterpartyName: line.counterpartyName,
+          counterpartyAccount: line.counterpartyAccount,
+          fingerprint: line.fingerprint,
+        })))
+        .onConflictDoNothing({ target: [bankStatementLines.bankAccountId, bankStatementLines.fingerprint] })
+        .returning({ id: bankStatementLines.id });
+      if (inserted.length === 0) {
+        throw new Error('Every line in this statement was already imported');
+      }
+
+      const [updated] = await tx
+        .update(bankStatements)
+        .set({ lineCount: inserted.length })
+        .where(eq(bankStatements.id, statement.id))
+        .returning();
+
+      return { statement: updated, imported: inserted.length, duplicates: lines.length - inserted.length, skippedReconciled };
+    });
+
+    const autoMatched = await this.autoMatchBankStatementLines(request.bankAccountId);
+    return { ...result, autoMatched };
   }
 
-  async applyAiInsight(id: string, appliedBy: string): Promise<AiInsight> {
+  async getBankStatementLines(filters: { bankAccountId?: string; statementId?: string; status?: string; limit?: number }): Promise<BankStatementLineWithMatch[]> {
     const db = await getDb();
-    const [insight] = await db
-      .update(aiInsights)
-      .set({ 
-        status: 'applied',
-        appliedBy,
-        appliedAt: new Date(),
-        updatedAt: new Date()
+    const rows = await db
+      .select({
+        line: bankStatementLines,
+        receipt: receipts,
+        customerName: customers.name,
+        supplierPayment: supplierPayments,
+        supplierName: suppliers.name,
       })
-      .where(eq(aiInsights.id, id))
-      .returning();
-    return insight;
+      .from(bankStatementLines)
+      .leftJoin(receipts, eq(bankStatementLines.receiptId, receipts.id))
+      .leftJoin(customers, eq(receipts.customerId, customers.id))
+      .leftJoin(supplierPayments, eq(bankStatementLines.supplierPaymentId, supplierPayments.id))
+      .leftJoin(suppliers, eq(supplierPayments.supplierId, suppliers.id))
+      .where(and(
+        filters.bankAccountId ? eq(bankStatementLines.bankAccountId, filters.bankAccountId) : undefined,
+        filters.statementId ? eq(bankStatementLines.statementId, filters.statementId) : undefined,
+        filters.status ? eq(bankStatementLines.status, filters.status as BankStatementLine['status']) : undefined
+      ))
+      .orderBy(desc(bankStatementLines.transactionDate), asc(bankStatementLines.createdAt))
+      .limit(filters.limit ?? 200);
+
+    return rows.map(row => ({
+      ...row.line,
+      receipt: row.receipt ? { ...row.receipt, customerName: row.customerName ?? '' } : undefined,
+      supplierPayment: row.supplierPayment ? { ...row.supplierPayment, supplierName: row.supplierName ?? '' } : undefined,
+    }));
   }
 
-  // AI Model Metrics operations
-  async getAiModelMetrics(modelName?: string, requestType?: string, limit = 100): Promise<AiModelMetric[]> {
+  async autoMatchBankStatementLines(bankAccountId: string): Promise<number> {
     const db = await getDb();
-    const conditions = [];
-    
-    if (modelName) conditions.push(eq(aiModelMetrics.modelName, modelName));
-    if (requestType) conditions.push(eq(aiModelMetrics.requestType, requestType));
-    
-    return await db
+    const [account] = await db.select().from(bankAccounts).where(eq(bankAccounts.id, bankAccountId));
+    if (!account) {
+      throw new Error('Bank account not found');
+    }
+    const tolerance = await this.getNumericSetting('bank_match_date_tolerance_days');
+
+    const lines = await db
       .select()
-      .from(aiModelMetrics)
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .limit(limit)
-      .orderBy(desc(aiModelMetrics.createdAt));
+      .from(bankStatementLines)
+      .where(and(
+        eq(bankStatementLines.bankAccountId, bankAccountId),
+        eq(bankStatementLines.status, 'unmatched'),
+        isNull(bankStatementLines.reconciliationId)
+      ))
+      .orderBy(asc(bankStatementLines.transactionDate));
+
+    // A receipt or payment taken by one line in this pass is not offered to the next
+    const taken = new Set<string>();
+    let matched = 0;
+    for (const line of lines) {
+      const candidates = (await this.findBankLineCandidates(db, line, account.currency))
+        .filter(candidate => !taken.has(candidate.id));
+      const pick = pickAutoMatch(candidates, tolerance);
+      if (!pick) continue;
+
+      const [updated] = await db
+        .update(bankStatementLines)
+        .set({
+          status: 'matched',
+          receiptId: pick.kind === 'receipt' ? pick.id : null,
+          supplierPaymentId: pick.kind === 'supplier_payment' ? pick.id : null,
+          matchedBy: null,
+          matchedAt: new Date(),
+        })
+        .where(and(eq(bankStatementLines.id, line.id), eq(bankStatementLines.status, 'unmatched')))
+        .returning();
+      if (updated) {
+        taken.add(pick.id);
+        matched++;
+      }
+    }
+    return matched;
   }
 
-  async createAiModelMetric(metricData: InsertAiModelMetric): Promise<AiModelMetric> {
+  async getBankLineMatchCandidates(lineId: string): Promise<BankLineMatchCandidate[]> {
     const db = await getDb();
-    const [metric] = await db
-      .insert(aiModelMetrics)
-      .values(metricData)
-      .returning();
-    return metric;
+    const [row] = await db
+      .select({ line: bankStatementLines, currency: bankAccounts.currency })
+      .from(bankStatementLines)
+      .innerJoin(bankAccounts, eq(bankStatementLines.bankAccountId, bankAccounts.id))
+      .where(eq(bankStatementLines.id, lineId));
+    if (!row) {
+      throw new Error('Statement line not found');
+    }
+    return await this.findBankLineCandidates(db, row.line, row.currency);
   }
 
-  async getAiModelPerformanceStats(modelName?: string, days = 30): Promise<{
-    totalRequests: number;
-    successRate: number;
-    averageResponseTime: number;
-    averageTokensUsed: number;
-    errorRate: number;
-    costEstimate: number;
-  }> {
+  async matchBankStatementLine(lineId: string, match: MatchBankStatementLineRequest, matchedBy: string): Promise<BankStatementLine> {
     const db = await getDb();
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - days);
-    
-    const conditions = [gte(aiModelMetrics.createdAt, cutoffDate)];
-    if (modelName) conditions.push(eq(aiModelMetrics.modelName, modelName));
-    
-    const [stats] = await db
-      .select({
-        totalRequests: sql<number>`COUNT(*)`.as('totalRequests'),
-        successCount: sql<number>`COUNT(*) FILTER (WHERE ${aiModelMetrics.success} = true)`.as('successCount'),
-        errorCount: sql<number>`COUNT(*) FILTER (WHERE ${aiModelMetrics.success} = false)`.as('errorCount'),
-        avgResponseTime: sql<number>`AVG(${aiModelMetrics.responseTime})`.as('avgResponseTime'),
-        avgTokensUsed: sql<number>`AVG(${aiModelMetrics.tokensUsed})`.as('avgTokensUsed'),
-      })
-      .from(aiModelMetrics)
-      .where(and(...conditions));
-    
-    const totalRequests = stats?.totalRequests || 0;
-    const successCount = stats?.successCount || 0;
-    const errorCount = stats?.errorCount || 0;
-    const successRate = totalRequests > 0 ? (successCount / totalRequests) * 100 : 0;
-    const errorRate = totalRequests > 0 ? (errorCount / totalRequests) * 100 : 0;
-    
-    // Rough cost estimate based on tokens used (OpenAI pricing approximation)
-    const avgTokens = stats?.avgTokensUsed || 0;
-    const costEstimate = (avgTokens * totalRequests * 0.000002); // $0.002 per 1K tokens
-    
-    return {
-      totalRequests,
-      successRate: Math.round(successRate * 100) / 100,
-      averageResponseTime: Math.round(stats?.avgResponseTime || 0),
-      averageTokensUsed: Math.round(avgTokens),
-      errorRate: Math.round(errorRate * 100) / 100,
-      costEstimate: Math.round(costEstimate * 100) / 100,
-    };
+    return await db.transaction(async (tx) => {
+      const { line, currency } = await this.getEditableBankLine(tx, lineId);
+      if (line.status !== 'unmatched') {
+        throw new Error(`Statement line is already ${line.status}`);
+      }
+
+      const lineAmount = Math.abs(Number(line.amount));
+      if (match.receiptId) {
+        if (Number(line.amount) < 0) {
+          throw new Error('Money paid out cannot be matched to a customer receipt');
+        }
+        const [receipt] = await tx.select().from(receipts).where(eq(receipts.id, match.receiptId));
+        if (!receipt) {
+          throw new Error('Receipt not found');
+        }
+        if ((receipt.currency || 'USD') !== currency || amountDifference(Number(receipt.amount), lineAmount) !== 0) {
+          throw new Error(`Receipt ${receipt.receiptNumber} is ${receipt.currency} ${receipt.amount}, the statement line is ${currency} ${lineAmount.toFixed(2)}`);
+        }
+      } else {
+        if (Number(line.amount) > 0) {
+          throw new Error('Money received cannot be matched to a supplier payment');
+        }
+        const [payment] = await tx.select().from(supplierPayments).where(eq(supplierPayments.id, match.supplierPaymentId!));
+        if (!payment) {
+          throw new Error('Supplier payment not found');
+        }
+        if (payment.status !== 'completed') {
+          throw new Error(`Supplier payment ${payment.paymentNumber} is void`);
+        }
+        if (payment.currency !== currency || amountDifference(Number(payment.amount), lineAmount) !== 0) {
+          throw new Error(`Payment ${payment.paymentNumber} is ${payment.currency} ${payment.amount}, the statement line is ${currency} ${lineAmount.toFixed(2)}`);
+        }
+      }
+
+      const [alreadyMatched] = await tx
+        .select({ id: bankStatementLines.id })
+        .from(bankStatementLines)
+        .where(match.receiptId
+          ? eq(bankStatementLines.receiptId, match.receiptId)
+          : eq(bankStatementLines.supplierPaymentId, match.supplierPaymentId!));
+      if (alreadyMatched) {
+        throw new Error('That document is already matched to another statement line');
+      }
+
+      const [updated] = await tx
+        .update(bankStatementLines)
+        .set({
+          status: 'matched',
+          receiptId: match.receiptId ?? null,
+          supplierPaymentId: match.supplierPaymentId ?? null,
+          matchedBy,
+          matchedAt: new Date(),
+        })
+        .where(eq(bankStatementLines.id, lineId))
+        .returning();
+      return updated;
+    });
   }
 
-  // Marketing Module Operations Implementation
-  
-  // Campaign operations
-  async getCampaigns(status?: string, type?: string, managerId?: string, limit = 50): Promise<(Campaign & { manager: User; members: CampaignMember[] })[]> {
+  async unmatchBankStatementLine(lineId: string): Promise<BankStatementLine> {
     const db = await getDb();
-    const conditions = [];
-    
-    if (status) conditions.push(eq(campaigns.status, status as any));
-    if (type) conditions.push(eq(campaigns.campaignType, type as any));
-    if (managerId) conditions.push(eq(campaigns.managerId, managerId));
-    
-    const campaignData = await db
-      .select({
-        campaign: campaigns,
-        manager: users,
-      })
-      .from(campaigns)
-      .innerJoin(users, eq(campaigns.managerId, users.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .limit(limit)
-      .orderBy(desc(campaigns.createdAt));
-    
-    const results = [];
-    for (const row of campaignData) {
-      const members = await db
-        .select()
-        .from(campaignMembers)
-        .where(eq(campaignMembers.campaignId, row.campaign.id))
-        .orderBy(asc(campaignMembers.createdAt));
-      
-      results.push({
-        ...row.campaign,
-        manager: row.manager,
-        members,
-      });
-    }
-    
-    return results;
+    return await db.transaction(async (tx) => {
+      const { line } = await this.getEditableBankLine(tx, lineId);
+      if (line.status !== 'matched') {
+        throw new Error('Statement line is not matched');
+      }
+      const [updated] = await tx
+        .update(bankStatementLines)
+        .set({ status: 'unmatched', receiptId: null, supplierPaymentId: null, matchedBy: null, matchedAt: null })
+        .where(eq(bankStatementLines.id, lineId))
+        .returning();
+      return updated;
+    });
   }
 
-  async getCampaign(id: string): Promise<(Campaign & { manager: User; members: (CampaignMember & { customer?: Customer; lead?: Lead })[] }) | undefined> {
+  async setBankStatementLineIgnored(lineId: string, ignored: boolean, userId: string): Promise<BankStatementLine> {
     const db = await getDb();
-    const [campaignData] = await db
-      .select({
-        campaign: campaigns,
-        manager: users,
-      })
-      .from(campaigns)
-      .innerJoin(users, eq(campaigns.managerId, users.id))
-      .where(eq(campaigns.id, id));
-    
-    if (!campaignData) return undefined;
-    
-    const members = await db
-      .select({
-        member: campaignMembers,
-        customer: customers,
-        lead: leads,
-      })
-      .from(campaignMembers)
-      .leftJoin(customers, eq(campaignMembers.customerId, customers.id))
-      .leftJoin(leads, eq(campaignMembers.leadId, leads.id))
-      .where(eq(campaignMembers.campaignId, id))
-      .orderBy(asc(campaignMembers.createdAt));
-    
-    return {
-      ...campaignData.campaign,
-      manager: campaignData.manager,
-      members: members.map(row => ({
-        ...row.member,
-        customer: row.customer || undefined,
-        lead: row.lead || undefined,
-      })),
-    } as any;
+    return await db.transaction(async (tx) => {
+      const { line } = await this.getEditableBankLine(tx, lineId);
+      if (line.status === 'matched') {
+        throw new Error('Unmatch the statement line first');
+      }
+      const [updated] = await tx
+        .update(bankStatementLines)
+        .set(ignored
+          ? { status: 'ignored', matchedBy: userId, matchedAt: new Date() }
+          : { status: 'unmatched', matchedBy: null, matchedAt: null })
+        .where(eq(bankStatementLines.id, lineId))
+        .returning();
+      return updated;
+    });
   }
 
-  async createCampaign(campaignData: InsertCampaign): Promise<Campaign> {
+  async createReceiptFromBankLine(lineId: string, request: CreateReceiptFromBankLineRequest, receivedBy: string): Promise<{ receipt: Receipt; line: BankStatementLine }> {
     const db = await getDb();
-    const [campaign] = await db
-      .insert(campaigns)
-      .values(campaignData)
-      .returning();
-    return campaign;
+    return await db.transaction(async (tx) => {
+      const { line, currency } = await this.getEditableBankLine(tx, lineId);
+      if (line.status !== 'unmatched') {
+        throw new Error(`Statement line is already ${line.status}`);
+      }
+      const amount = Number(line.amount);
+      if (amount <= 0) {
+        throw new Error('Receipts can only be created from money received');
+      }
+
+      const [customer] = await tx.select().from(customers).where(eq(customers.id, request.customerId));
+      if (!customer) {
+        throw new Error('Customer not found');
+      }
+
+      const receiptNumber = await this.allocateDocumentNumber(tx, 'receipt', { date: new Date(line.transactionDate) });
+      const fxRate = await this.resolveFxRate(tx, currency, null, line.transactionDate);
+      const [newReceipt] = await tx
+        .insert(receipts)
+        .values({
+          receiptNumber,
+          customerId: customer.id,
+          amount: amount.toFixed(2),
+          currency,
+          fxRate: fxRate.toFixed(6),
+          baseAmount: toBaseAmount(amount, fxRate).toFixed(2),
+          paymentMethod: 'bank_transfer',
+          reference: line.reference ?? line.bankReference,
+          notes: request.notes ?? line.description,
+          receivedBy,
+        })
+        .returning();
+      const receipt = await this.postReceiptCashJournal(tx, newReceipt, line.transactionDate);
+
+      const [matchedLine] = await tx
+        .update(bankStatementLines)
+        .set({ status: 'matched', receiptId: receipt.id, matchedBy: receivedBy, matchedAt: new Date() })
+        .where(eq(bankStatementLines.id, lineId))
+        .returning();
+
+      if (!request.invoiceId) {
+        return { receipt, line: matchedLine };
+      }
+
+      // Apply up to the invoice's open amount; any excess stays on the receipt
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, request.invoiceId));
+      if (!invoice || invoice.customerId !== customer.id) {
+        throw new Error('Invoice not found for this customer');
+      }
+      const open = amountDifference(Number(invoice.totalAmount), Number(invoice.paidAmount || 0));
+      if (open <= 0) {
+        throw new Error(`Invoice ${invoice.invoiceNumber} is already paid`);
+      }
+      const allocated = await this.allocateReceiptInTx(tx, receipt.id, invoice.id, Math.min(amount, open));
+      return { receipt: allocated.receipt, line: matchedLine };
+    });
   }
 
-  async updateCampaign(id: string, campaignData: Partial<InsertCampaign>): Promise<Campaign> {
+  async getBankReconciliations(bankAccountId?: string): Promise<BankReconciliation[]> {
     const db = await getDb();
-    const [campaign] = await db
-      .update(campaigns)
-      .set({ ...campaignData, updatedAt: new Date() })
-      .where(eq(campaigns.id, id))
-      .returning();
-    return campaign;
+    return await db
+      .select()
+      .from(bankReconciliations)
+      .where(bankAccountId ? eq(bankReconciliations.bankAccountId, bankAccountId) : undefined)
+      .orderBy(desc(bankReconciliations.periodEnd))
+      .limit(100);
   }
 
-  async deleteCampaign(id: string): Promise<void> {
+  async closeBankReconciliation(request: CloseBankReconciliationRequest, closedBy: string): Promise<BankReconciliation> {
     const db = await getDb();
-    // First delete members
-    await db.delete(campaignMembers).where(eq(campaignMembers.campaignId, id));
-    // Then delete campaign
-    await db.delete(campaigns).where(eq(campaigns.id, id));
+    return await db.transaction(async (tx) => {
+      const [account] = await tx
+        .select()
+        .from(bankAccounts)
+        .where(eq(bankAccounts.id, request.bankAccountId))
+        .for('update');
+      if (!account) {
+        throw new Error('Bank account not found');
+      }
+
+      const previous = await this.getLastBankReconciliation(tx, account.id);
+      if (previous && request.periodEnd <= previous.periodEnd) {
+        throw new Error(`${account.name} is already reconciled up to ${previous.periodEnd}`);
+      }
+
+      const lines: BankStatementLine[] = await tx
+        .select()
+        .from(bankStatementLines)
+        .where(and(
+          eq(bankStatementLines.bankAccountId, account.id),
+          isNull(bankStatementLines.reconciliationId),
+          lte(bankStatementLines.transactionDate, request.periodEnd)
+        ));
+      const unmatched = lines.filter(line => line.status === 'unmatched');
+      if (unmatched.length > 0) {
+        throw new Error(`${unmatched.length} statement line(s) up to ${request.periodEnd} are still unmatched`);
+      }
+
+      const reconciledTotal = lines.reduce((sum, line) => sum + Math.round(Number(line.amount) * 100), 0) / 100;
+      const periodStart = previous
+        ? new Date(Date.parse(previous.periodEnd) + 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+        : lines.map(line => line.transactionDate).sort()[0] ?? request.periodEnd;
+
+      // The bank's closing balance must equal the opening balance plus the period's movements
+      const [closingStatement] = await tx
+        .select()
+        .from(bankStatements)
+        .where(and(eq(bankStatements.bankAccountId, account.id), eq(bankStatements.periodEnd, request.periodEnd)))
+        .orderBy(desc(bankStatements.createdAt))
+        .limit(1);
+      const [openingStatement] = previous ? [] : await tx
+        .select()
+        .from(bankStatements)
+        .where(and(eq(bankStatements.bankAccountId, account.id), eq(bankStatements.periodStart, periodStart)))
+        .orderBy(asc(bankStatements.createdAt))
+        .limit(1);
+      const statementBalance = request.statementBalance ?? (closingStatement?.closingBalance != null ? Number(closingStatement.closingBalance) : null);
+      const openingBalance = previous ? previous.statementBalance : openingStatement?.openingBalance ?? null;
+      if (statementBalance !== null && openingBalance !== null) {
+        const difference = amountDifference(statementBalance, Number(openingBalance), reconciledTotal);
+        if (difference !== 0) {
+          throw new Error(`Statement balance ${statementBalance.toFixed(2)} differs by ${difference.toFixed(2)} from the opening balance plus the period's lines; a statement may be missing`);
+        }
+      }
+
+      const [reconciliation] = await tx
+        .insert(bankReconciliations)
+        .values({
+          bankAccountId: account.id,
+          periodStart,
+          periodEnd: request.periodEnd,
+          statementBalance: statementBalance?.toFixed(2),
+          reconciledTotal: reconciledTotal.toFixed(2),
+          lineCount: lines.length,
+          notes: request.notes,
+          closedBy,
+        })
+        .returning();
+
+      if (lines.length > 0) {
+        await tx
+          .update(bankStatementLines)
+          .set({ reconciliationId: reconciliation.id })
+          .where(inArray(bankStatementLines.id, lines.map(line => line.id)));
+      }
+
+      return reconciliation;
+    });
   }
 
-  async launchCampaign(id: string): Promise<Campaign> {
+  // Tax codes and IVA return
+  async getTaxCodes(): Promise<TaxCode[]> {
     const db = await getDb();
-    const [campaign] = await db
-      .update(campaigns)
-      .set({ 
-        status: 'active',
-        launchedAt: new Date(),
-        updatedAt: new Date()
-      })
-      .where(eq(campaigns.id, id))
-      .returning();
-    return campaign;
+    return await db.transaction(async (tx) => this.getTaxCodesInTx(tx));
   }
 
-  async pauseCampaign(id: string): Promise<Campaign> {
+  async createTaxCode(taxCode: InsertTaxCode): Promise<TaxCode> {
+    validateTaxCode(taxCode);
     const db = await getDb();
-    const [campaign] = await db
-      .update(campaigns)
-      .set({ 
-        status: 'paused',
-        updatedAt: new Date()
-      })
-      .where(eq(campaigns.id, id))
-      .returning();
-    return campaign;
+    await db.transaction(async (tx) => this.getTaxCodesInTx(tx));
+    const [existing] = await db.select().from(taxCodes).where(eq(taxCodes.code, taxCode.code));
+    if (existing) {
+      throw new Error(`Tax code ${taxCode.code} already exists`);
+    }
+    const [created] = await db.insert(taxCodes).values(taxCode).returning();
+    return created;
   }
 
-  async completeCampaign(id: string): Promise<Campaign> {
+  async updateTaxCode(id: string, taxCode: Partial<InsertTaxCode>): Promise<TaxCode> {
     const db = await getDb();
-    const [campaign] = await db
-      .update(campaigns)
-      .set({ 
-        status: 'completed',
-        completedAt: new Date(),
-        updatedAt: new Date()
-      })
-      .where(eq(campaigns.id, id))
+    const [current] = await db.select().from(taxCodes).where(eq(taxCodes.id, id));
+    if (!current) {
+      throw new Error('Tax code not found');
+    }
+    validateTaxCode({ ...current, ...taxCode });
+    if (taxCode.isActive === false && current.code === await this.getSettingValue('default_tax_code')) {
+      throw new Error(`${current.code} is the default tax code (setting default_tax_code) and cannot be deactivated`);
+    }
+
+    // Documents keep the rate they were issued with; only new lines pick up the change
+    const [updated] = await db
+      .update(taxCodes)
+      .set({ ...taxCode, updatedAt: new Date() })
+      .where(eq(taxCodes.id, id))
       .returning();
-    return campaign;
+    return updated;
   }
 
-  // Campaign Member operations
-  async getCampaignMembers(campaignId?: string, status?: string, limit = 100): Promise<(CampaignMember & { customer?: Customer; lead?: Lead })[]> {
+  async getCategoryTaxCodes(): Promise<(CategoryTaxCode & { taxCode: TaxCode })[]> {
     const db = await getDb();
-    const conditions = [];
-    
-    if (campaignId) conditions.push(eq(campaignMembers.campaignId, campaignId));
-    if (status) conditions.push(eq(campaignMembers.status, status as any));
-    
     return await db
-      .select({
-        member: campaignMembers,
-        customer: customers,
-        lead: leads,
-      })
-      .from(campaignMembers)
-      .leftJoin(customers, eq(campaignMembers.customerId, customers.id))
-      .leftJoin(leads, eq(campaignMembers.leadId, leads.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .limit(limit)
-      .orderBy(desc(campaignMembers.createdAt))
-      .then(rows => rows.map(row => ({
-        ...row.member,
-        customer: row.customer || undefined,
-        lead: row.lead || undefined,
-      })));
+      .select({ mapping: categoryTaxCodes, taxCode: taxCodes })
+      .from(categoryTaxCodes)
+      .innerJoin(taxCodes, eq(categoryTaxCodes.taxCodeId, taxCodes.id))
+      .orderBy(asc(categoryTaxCodes.category))
+      .then(rows => rows.map(row => ({ ...row.mapping, taxCode: row.taxCode })));
   }
 
-  async addCampaignMember(memberData: InsertCampaignMember): Promise<CampaignMember> {
+  async setCategoryTaxCode(category: string, taxCodeId: string): Promise<CategoryTaxCode> {
     const db = await getDb();
-    const [member] = await db
-      .insert(campaignMembers)
-      .values(memberData)
+    const [taxCode] = await db.select().from(taxCodes).where(eq(taxCodes.id, taxCodeId));
+    if (!taxCode) {
+      throw new Error('Tax code not found');
+    }
+    const [mapping] = await db
+      .insert(categoryTaxCodes)
+      .values({ category, taxCodeId })
+      .onConflictDoUpdate({ target: categoryTaxCodes.category, set: { taxCodeId } })
       .returning();
-    
-    // Update campaign member count
-    await db
-      .update(campaigns)
-      .set({ 
-        totalMembers: sql`${campaigns.totalMembers} + 1`,
-        updatedAt: new Date()
-      })
-      .where(eq(campaigns.id, memberData.campaignId));
-    
-    return member;
+    return mapping;
   }
 
-  async updateCampaignMember(id: string, memberData: Partial<InsertCampaignMember>): Promise<CampaignMember> {
+  async deleteCategoryTaxCode(category: string): Promise<void> {
     const db = await getDb();
-    const [member] = await db
-      .update(campaignMembers)
-      .set({ ...memberData, updatedAt: new Date() })
-      .where(eq(campaignMembers.id, id))
-      .returning();
-    return member;
+    await db.delete(categoryTaxCodes).where(eq(categoryTaxCodes.category, category));
   }
 
-  async removeCampaignMember(id: string): Promise<void> {
+  // The codes new lines for these products would get, so forms can show the IVA up front
+  async resolveTaxCodes(productIds: string[], customerId: string | undefined, date: string): Promise<{ productId: string; taxCode: TaxCode }[]> {
     const db = await getDb();
-    
-    // Get the campaign ID first
-    const [member] = await db
-      .select({ campaignId: campaignMembers.campaignId })
-      .from(campaignMembers)
-      .where(eq(campaignMembers.id, id));
-    
-    if (member) {
-      // Delete the member
-      await db.delete(campaignMembers).where(eq(campaignMembers.id, id));
-      
-      // Update campaign member count
-      await db
-        .update(campaigns)
-        .set({ 
-          totalMembers: sql`${campaigns.totalMembers} - 1`,
-          updatedAt: new Date()
-        })
-        .where(eq(campaigns.id, member.campaignId));
-    }
+    const resolved = await db.transaction(async (tx) => this.resolveLineTaxCodes(tx, productIds.map(productId => ({ productId })), customerId, date));
+    return productIds.map((productId, index) => ({ productId, taxCode: resolved[index] }));
   }
 
-  async getCampaignAnalytics(campaignId: string): Promise<{
-    totalMembers: number;
-    activeMembers: number;
-    optedOutMembers: number;
-    bouncedMembers: number;
-    engagementRate: number;
-    conversionRate: number;
-    totalSent: number;
-    totalOpened: number;
-    totalClicked: number;
-  }> {
+  async getVatReturn(from: string, to: string): Promise<VatReturn> {
     const db = await getDb();
-    
-    const [memberStats] = await db
-      .select({
-        totalMembers: sql<number>`COUNT(*)`.as('totalMembers'),
-        activeMembers: sql<number>`COUNT(*) FILTER (WHERE ${campaignMembers.status} = 'active')`.as('activeMembers'),
-        optedOutMembers: sql<number>`COUNT(*) FILTER (WHERE ${campaignMembers.status} = 'opted_out')`.as('optedOutMembers'),
-        bouncedMembers: sql<number>`COUNT(*) FILTER (WHERE ${campaignMembers.status} = 'bounced')`.as('bouncedMembers'),
-      })
-      .from(campaignMembers)
-      .where(eq(campaignMembers.campaignId, campaignId));
-    
-    // Get communication stats
-    const [commStats] = await db
-      .select({
-        totalSent: sql<number>`COUNT(*) FILTER (WHERE ${communications.status} IN ('sent', 'delivered'))`.as('totalSent'),
-        totalOpened: sql<number>`COUNT(*) FILTER (WHERE ${communications.status} = 'opened')`.as('totalOpened'),
-        totalClicked: sql<number>`COUNT(*) FILTER (WHERE ${communications.status} = 'clicked')`.as('totalClicked'),
-      })
-      .from(communications)
-      .where(eq(communications.campaignId, campaignId));
-    
-    const totalMembers = memberStats?.totalMembers || 0;
-    const totalSent = commStats?.totalSent || 0;
-    const totalOpened = commStats?.totalOpened || 0;
-    const totalClicked = commStats?.totalClicked || 0;
-    
-    const engagementRate = totalSent > 0 ? (totalOpened / totalSent) * 100 : 0;
-    const conversionRate = totalOpened > 0 ? (totalClicked / totalOpened) * 100 : 0;
-    
+    const baseCurrency = await this.getSettingValue('base_currency');
+
+    const addToReturn = (target: Map<string, VatReturnLine>, breakdown: Omit<VatReturnLine, 'documentCount'>[]) => {
+      for (const line of breakdown) {
+        const key = line.taxCodeId ?? `rate:${line.rate}`;
+        const group = target.get(key) ?? { ...line, taxableAmount: 0, taxAmount: 0, documentCount: 0 };
+        group.taxableAmount = Math.round((group.taxableAmount + line.taxableAmount) * 100) / 100;
+        group.taxAmount = Math.round((group.taxAmount + line.taxAmount) * 100) / 100;
+        group.documentCount += 1;
+        target.set(key, group);
+      }
+    };
+
+    // Documents issued before tax codes have only totals; they are reported by their effective rate
+    const untaxedBreakdown = (taxableAmount: number, taxAmount: number): Omit<VatReturnLine, 'documentCount'>[] => [{
+      taxCodeId: null,
+      code: '',
+      category: taxAmount === 0 ? 'exempt' : 'normal',
+      rate: taxableAmount !== 0 ? Math.round(taxAmount / taxableAmount * 10000) / 100 : 0,
+      exemptionCode: null,
+      exemptionReason: null,
+      taxableAmount,
+      taxAmount,
+    }];
+
+    // Output IVA: issued invoices and credit notes, and completed POS sales
+    const output = new Map<string, VatReturnLine>();
+    const issuedInvoices = await db
+      .select()
+      .from(invoices)
+      .where(and(
+        notInArray(invoices.status, ['draft', 'cancelled']),
+        gte(invoices.invoiceDate, from),
+        lte(invoices.invoiceDate, to)
+      ));
+    for (const invoice of issuedInvoices) {
+      const fxRate = Number(invoice.fxRate) || 1;
+      addToReturn(output, invoice.taxBreakdown
+        ? scaleTaxBreakdown(invoice.taxBreakdown, fxRate)
+        : untaxedBreakdown(toBaseAmount(Number(invoice.subtotal || 0), fxRate), toBaseAmount(Number(invoice.taxAmount || 0), fxRate)));
+    }
+
+    const posSales = await db
+      .select()
+      .from(posReceipts)
+      .where(and(
+        eq(posReceipts.status, 'completed'),
+        gte(sql`${posReceipts.createdAt}::date`, from),
+        lte(sql`${posReceipts.createdAt}::date`, to)
+      ));
+    for (const receipt of posSales) {
+      const tax = Number(receipt.taxAmount);
+      addToReturn(output, receipt.taxBreakdown ?? untaxedBreakdown(amountDifference(Number(receipt.totalAmount), tax), tax));
+    }
+
+    // Input IVA: posted vendor bills. Older bills book what the total adds to the lines.
+    const input = new Map<string, VatReturnLine>();
+    const postedBills = await db
+      .select()
+      .from(vendorBills)
+      .where(and(
+        inArray(vendorBills.status, ['posted', 'partially_paid', 'paid']),
+        gte(vendorBills.billDate, from),
+        lte(vendorBills.billDate, to)
+      ));
+    const untaxedBillIds = postedBills.filter(bill => !bill.taxBreakdown).map(bill => bill.id);
+    const linesTotals = untaxedBillIds.length > 0
+      ? await db
+          .select({ billId: vendorBillItems.billId, total: sql<string>`sum(${vendorBillItems.lineTotal})` })
+          .from(vendorBillItems)
+          .where(inArray(vendorBillItems.billId, untaxedBillIds))
+          .groupBy(vendorBillItems.billId)
+      : [];
+    const linesTotalByBill = new Map(linesTotals.map(row => [row.billId, Number(row.total)]));
+    for (const bill of postedBills) {
+      const fxRate = Number(bill.fxRate) || 1;
+      if (bill.taxBreakdown) {
+        addToReturn(input, scaleTaxBreakdown(bill.taxBreakdown, fxRate));
+        continue;
+      }
+      const total = Number(bill.totalAmount);
+      const linesTotal = linesTotalByBill.get(bill.id);
+      const net = linesTotal !== undefined && linesTotal <= total ? linesTotal : total;
+      addToReturn(input, untaxedBreakdown(toBaseAmount(net, fxRate), toBaseAmount(amountDifference(total, net), fxRate)));
+    }
+
+    // What the ledger holds on the two IVA accounts for the period
+    const ledgerMovement = async (key: 'gl_account_output_vat' | 'gl_account_input_vat') => {
+      const account = await db.transaction(async (tx) => this.resolveGlAccount(tx, key));
+      const [row] = await db
+        .select({
+          debit: sql<string>`coalesce(sum(${journalLines.debit}), 0)`,
+          credit: sql<string>`coalesce(sum(${journalLines.credit}), 0)`,
+        })
+        .from(journalLines)
+        .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+        .where(and(
+          eq(journalLines.accountId, account.id),
+          inArray(journalEntries.status, ['posted', 'reversed']),
+          gte(journalEntries.entryDate, from),
+          lte(journalEntries.entryDate, to)
+        ));
+      return { debit: Number(row.debit), credit: Number(row.credit) };
+    };
+    const outputLedger = await ledgerMovement('gl_account_output_vat');
+    const inputLedger = await ledgerMovement('gl_account_input_vat');
+
+    const sortLines = (lines: Map<string, VatReturnLine>) =>
+      Array.from(lines.values()).sort((a, b) => b.rate - a.rate || a.code.localeCompare(b.code));
+    const sumTax = (lines: VatReturnLine[]) => lines.reduce((sum, line) => sum + Math.round(line.taxAmount * 100), 0) / 100;
+    const outputLines = sortLines(output);
+    const inputLines = sortLines(input);
+    const outputTax = sumTax(outputLines);
+    const inputTax = sumTax(inputLines);
+
     return {
-      totalMembers,
-      activeMembers: memberStats?.activeMembers || 0,
-      optedOutMembers: memberStats?.optedOutMembers || 0,
-      bouncedMembers: memberStats?.bouncedMembers || 0,
-      engagementRate: Math.round(engagementRate * 100) / 100,
-      conversionRate: Math.round(conversionRate * 100) / 100,
-      totalSent,
-      totalOpened,
-      totalClicked,
+      from,
+      to,
+      baseCurrency,
+      outputLines,
+      inputLines,
+      outputTax,
+      inputTax,
+      netTax: amountDifference(outputTax, inputTax),
+      ledgerOutputTax: amountDifference(outputLedger.credit, outputLedger.debit),
+      ledgerInputTax: amountDifference(inputLedger.debit, inputLedger.credit),
     };
   }
 
-  // Compliance Module Operations Implementation
-  
-  // License operations
-  async getLicenses(status?: string, managedBy?: string, limit = 50): Promise<(License & { manager: User })[]> {
+  async getSaftSourceData(from: string, to: string, includeGeneralLedger: boolean): Promise<SaftSourceData> {
     const db = await getDb();
-    const conditions = [];
-    
-    if (status) conditions.push(eq(licenses.status, status as any));
-    if (managedBy) conditions.push(eq(licenses.managedBy, managedBy));
-    
-    return await db
-      .select({
-        license: licenses,
-        manager: users,
-      })
-      .from(licenses)
-      .innerJoin(users, eq(licenses.managedBy, users.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .limit(limit)
-      .orderBy(asc(licenses.expiryDate))
-      .then(rows => rows.map(row => ({
-        ...row.license,
-        manager: row.manager,
-      })));
-  }
+    return await db.transaction(async (tx) => {
+      const taxCodeList = await this.getTaxCodesInTx(tx);
+      const codeById = new Map(taxCodeList.map(code => [code.id, code]));
+      const codeByCode = new Map(taxCodeList.map(code => [code.code, code]));
+      const round2 = (amount: number) => Math.round(amount * 100) / 100;
+      const sumNet = (lines: SaftDocumentLine[]) => lines.reduce((sum, line) => sum + Math.round(line.netAmount * 100), 0) / 100;
+
+      // Documents without item detail are reported with one line per tax code; those from
+      // before tax codes under the code a new document would get, at their effective rate
+      const summaryLines = async (customerId: string | null, date: string, breakdown: TaxBreakdownLine[] | null, subtotal: number, taxAmount: number): Promise<SaftDocumentLine[]> => {
+        if (breakdown && breakdown.length > 0) {
+          return breakdown.map(line => ({
+            productId: null,
+            description: line.category === 'normal' || line.category === 'reduced' ? `Vendas IVA ${line.rate}%` : `Vendas ${line.code}`,
+            quantity: 1,
+            unitPrice: Math.abs(line.taxableAmount),
+            netAmount: Math.abs(line.taxableAmount),
+            taxCode: line,
+            taxRate: line.rate,
+          }));
+        }
+        const [resolved] = await this.resolveLineTaxCodes(tx, [{}], customerId, date);
+        const taxCode = taxAmount === 0 && isTaxable(resolved)
+          ? taxCodeList.find(code => code.isActive && code.category === 'exempt') ?? resolved
+          : resolved;
+        return [{
+          productId: null,
+          description: 'Vendas',
+          quantity: 1,
+          unitPrice: Math.abs(subtotal),
+          netAmount: Math.abs(subtotal),
+          taxCode,
+          taxRate: subtotal !== 0 ? round2(Math.abs(taxAmount / subtotal) * 100) : 0,
+        }];
+      };
 
-  async getLicense(id: string): Promise<(License & { manager: User }) | undefined> {
-    const db = await getDb();
-    const [row] = await db
-      .select({
-        license: licenses,
-        manager: users,
-      })
-      .from(licenses)
-      .innerJoin(users, eq(licenses.managedBy, users.id))
-      .where(eq(licenses.id, id));
-    
-    return row ? { ...row.license, manager: row.manager } : undefined;
-  }
+      const itemLines = (taxedLines: TaxedLine[], items: Array<{ productId: string; quantity: number; unitPrice: string | number; taxCodeId: string | null; taxRate: string | number }>): SaftDocumentLine[] =>
+        taxedLines.map((line, index) => ({
+          productId: items[index].productId,
+          description: '',
+          quantity: Math.abs(items[index].quantity),
+          unitPrice: Number(items[index].unitPrice),
+          netAmount: Math.abs(line.netAmount),
+          taxCode: line.taxCode,
+          taxRate: items[index].taxCodeId === line.taxCode.id ? Number(items[index].taxRate) : Number(line.taxCode.rate),
+        }));
+
+      // Issued invoices and credit notes; cancelled ones are listed with their cancelled status
+      const invoiceRows: Invoice[] = await tx
+        .select()
+        .from(invoices)
+        .where(and(ne(invoices.status, 'draft'), gte(invoices.invoiceDate, from), lte(invoices.invoiceDate, to)))
+        .orderBy(asc(invoices.invoiceDate), asc(invoices.invoiceNumber));
+      const orderIds = Array.from(new Set(invoiceRows.map(invoice => invoice.salesOrderId).filter((id): id is string => !!id)));
+      const orderRows: SalesOrder[] = orderIds.length > 0 ? await tx.select().from(salesOrders).where(inArray(salesOrders.id, orderIds)) : [];
+      const orderById = new Map(orderRows.map(order => [order.id, order]));
+      const creditedIds = Array.from(new Set(invoiceRows.map(invoice => invoice.creditedInvoiceId).filter((id): id is string => !!id)));
+      const creditedRows: Array<{ id: string; invoiceNumber: string }> = creditedIds.length > 0
+        ? await tx.select({ id: invoices.id, invoiceNumber: invoices.invoiceNumber }).from(invoices).where(inArray(invoices.id, creditedIds))
+        : [];
+      const creditedNumberById = new Map(creditedRows.map(row => [row.id, row.invoiceNumber]));
+
+      const salesDocuments: SaftSalesDocument[] = [];
+      for (const invoice of invoiceRows) {
+        const subtotal = Number(invoice.subtotal || 0);
+        const taxAmount = Number(invoice.taxAmount || 0);
+        const isCreditNote = Number(invoice.totalAmount || 0) < 0 || !!invoice.creditedLines;
+        const order = invoice.salesOrderId ? orderById.get(invoice.salesOrderId) : undefined;
+
+        let lines: SaftDocumentLine[] = [];
+        if (invoice.creditedLines) {
+          lines = invoice.creditedLines.map(line => {
+            const taxCode = codeById.get(line.taxCodeId);
+            if (!taxCode) throw new Error(`Tax code ${line.taxCodeId} of credit note ${invoice.invoiceNumber} not found`);
+            return { productId: line.productId, description: '', quantity: line.quantity, unitPrice: line.unitPrice, netAmount: line.netAmount, taxCode, taxRate: line.taxRate };
+          });
+        } else if (order && invoice.shipmentId) {
+          const shipped = await tx
+            .select({ line: shipmentItems, item: salesOrderItems })
+            .from(shipmentItems)
+            .innerJoin(salesOrderItems, eq(shipmentItems.salesOrderItemId, salesOrderItems.id))
+            .where(eq(shipmentItems.shipmentId, invoice.shipmentId));
+          const items = shipped.map(({ line, item }: { line: ShipmentItem; item: SalesOrderItem }) => ({
+            ...item,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+            netAmount: Math.round(Number(line.unitPrice) * line.quantity * 100) / 100,
+          }));
+          lines = itemLines(await this.salesOrderTaxLines(tx, order, items), items);
+        } else if (order && !isCreditNote) {
+          const items: SalesOrderItem[] = await tx.select().from(salesOrderItems).where(eq(salesOrderItems.orderId, order.id));
+          lines = itemLines(await this.salesOrderTaxLines(tx, order, items.map(item => ({ ...item, netAmount: Number(item.totalPrice) }))), items);
+        }
+        // Item detail that no longer adds up to the document (e.g. an order edited after invoicing) is not reported
+        if (lines.length === 0 || sumNet(lines) !== round2(Math.abs(subtotal))) {
+          lines = await summaryLines(invoice.customerId, invoice.invoiceDate, invoice.taxBreakdown, subtotal, taxAmount);
+        }
+
+        salesDocuments.push({
+          id: invoice.id,
+          documentNumber: invoice.invoiceNumber,
+          documentType: isCreditNote ? 'credit_note' : 'invoice',
+          cancelled: invoice.status === 'cancelled',
+          documentDate: invoice.invoiceDate,
+          systemEntryDate: invoice.createdAt ?? new Date(`${invoice.invoiceDate}T00:00:00Z`),
+          customerId: invoice.customerId,
+          createdBy: null,
+          currency: invoice.currency,
+          fxRate: Number(invoice.fxRate) || 1,
+          netTotal: Math.abs(subtotal),
+          taxPayable: Math.abs(taxAmount),
+          grossTotal: Math.abs(Number(invoice.totalAmount || 0)),
+          hash: null,
+          hashControl: null,
+          creditedDocumentNumber: invoice.creditedInvoiceId ? creditedNumberById.get(invoice.creditedInvoiceId) ?? null : null,
+          creditReason: isCreditNote ? invoice.creditedLines?.find(line => line.reason)?.reason ?? 'Devolução de mercadoria' : null,
+          lines,
+        });
+      }
+
+      // POS sales are invoice-receipts; voided ones are listed as cancelled
+      const posRows = await tx
+        .select({ receipt: posReceipts, cashierId: posSessions.cashierId })
+        .from(posReceipts)
+        .innerJoin(posSessions, eq(posReceipts.sessionId, posSessions.id))
+        .where(and(
+          gte(sql`${posReceipts.createdAt}::date`, from),
+          lte(sql`${posReceipts.createdAt}::date`, to)
+        ))
+        .orderBy(asc(posReceipts.createdAt));
+      for (const { receipt, cashierId } of posRows as Array<{ receipt: PosReceipt; cashierId: string }>) {
+        const documentDate = (receipt.createdAt ?? new Date()).toISOString().split('T')[0];
+        const taxAmount = Number(receipt.taxAmount);
+        const netTotal = amountDifference(Number(receipt.totalAmount), taxAmount);
+        const soldItems: Array<{ productId: string; quantity: number; unitPrice: number; taxCode?: string; taxRate?: number; netAmount?: number }> =
+          (receipt.receiptData as any)?.items ?? [];
+        let lines: SaftDocumentLine[] = soldItems.every(item => item.taxCode && codeByCode.has(item.taxCode) && item.netAmount !== undefined)
+          ? soldItems.map(item => ({
+              productId: item.productId,
+              description: '',
+              quantity: item.quantity,
+              // Shelf prices may include IVA; the line's unit price is its net amount per unit
+              unitPrice: round2(item.netAmount! / item.quantity),
+              netAmount: item.netAmount!,
+              taxCode: codeByCode.get(item.taxCode!)!,
+              taxRate: item.taxRate ?? 0,
+            }))
+          : [];
+        if (lines.length === 0 || sumNet(lines) !== round2(netTotal)) {
+          lines = await summaryLines(receipt.customerId, documentDate, receipt.taxBreakdown, netTotal, taxAmount);
+        }
+
+        salesDocuments.push({
+          id: receipt.id,
+          documentNumber: receipt.receiptNumber ?? receipt.id,
+          documentType: 'pos_receipt',
+          cancelled: receipt.status !== 'completed',
+          documentDate,
+          systemEntryDate: receipt.createdAt ?? new Date(),
+          customerId: receipt.customerId,
+          createdBy: cashierId,
+          currency: receipt.currency ?? await this.getSettingValue('default_currency'),
+          fxRate: 1,
+          netTotal,
+          taxPayable: taxAmount,
+          grossTotal: Number(receipt.totalAmount),
+          hash: null,
+          hashControl: null,
+          creditedDocumentNumber: null,
+          creditReason: null,
+          lines,
+        });
+      }
+
+      // Customer receipts, with the invoices their cash was applied to
+      const receiptRows: Receipt[] = await tx
+        .select()
+        .from(receipts)
+        .where(and(
+          gte(sql`${receipts.createdAt}::date`, from),
+          lte(sql`${receipts.createdAt}::date`, to)
+        ))
+        .orderBy(asc(receipts.createdAt));
+      const allocationRows = receiptRows.length > 0
+        ? await tx
+            .select({ receiptId: receiptAllocations.receiptId, amount: receiptAllocations.amount, invoiceNumber: invoices.invoiceNumber, invoiceDate: invoices.invoiceDate })
+            .from(receiptAllocations)
+            .innerJoin(invoices, eq(receiptAllocations.invoiceId, invoices.id))
+            .where(and(inArray(receiptAllocations.receiptId, receiptRows.map(receipt => receipt.id)), isNull(receiptAllocations.reversedAt)))
+        : [];
+      const payments: SaftPayment[] = receiptRows.map(receipt => ({
+        id: receipt.id,
+        receiptNumber: receipt.receiptNumber,
+        cancelled: receipt.status === 'cancelled' || receipt.status === 'bounced',
+        paymentDate: (receipt.createdAt ?? new Date()).toISOString().split('T')[0],
+        systemEntryDate: receipt.createdAt ?? new Date(),
+        customerId: receipt.customerId,
+        receivedBy: receipt.receivedBy,
+        paymentMethod: receipt.paymentMethod,
+        currency: receipt.currency ?? 'AOA',
+        fxRate: Number(receipt.fxRate) || 1,
+        amount: Number(receipt.amount),
+        lines: allocationRows
+          .filter((row: { receiptId: string }) => row.receiptId === receipt.id)
+          .map((row: { invoiceNumber: string; invoiceDate: string; amount: string }) => ({ invoiceNumber: row.invoiceNumber, invoiceDate: row.invoiceDate, amount: Number(row.amount) })),
+      }));
+
+      // General ledger: every account with its balances, and the entries posted in the period
+      let generalLedger: SaftSourceData['generalLedger'] = null;
+      const ledgerCustomerIds = new Set<string>();
+      const ledgerSupplierIds = new Set<string>();
+      if (includeGeneralLedger) {
+        const accountRows: GlAccount[] = await tx.select().from(glAccounts).orderBy(asc(glAccounts.code));
+        const codeByAccountId = new Map(accountRows.map(account => [account.id, account.code]));
+        const balances = async (condition: SQL) => new Map((await tx
+          .select({ accountId: journalLines.accountId, balance: sql<string>`sum(${journalLines.debit} - ${journalLines.credit})` })
+          .from(journalLines)
+          .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+          .where(and(inArray(journalEntries.status, ['posted', 'reversed']), condition))
+          .groupBy(journalLines.accountId)).map((row: { accountId: string; balance: string }) => [row.accountId, Number(row.balance)]));
+        const opening = await balances(lt(journalEntries.entryDate, from));
+        const closing = await balances(lte(journalEntries.entryDate, to));
+        const accounts: SaftLedgerAccount[] = accountRows.map(account => ({
+          code: account.code,
+          name: account.name,
+          parentId: account.parentId,
+          isPostable: account.isPostable,
+          parentCode: account.parentId ? codeByAccountId.get(account.parentId) ?? null : null,
+          openingBalance: opening.get(account.id) ?? 0,
+          closingBalance: closing.get(account.id) ?? 0,
+        }));
+
+        const entryRows: JournalEntry[] = await tx
+          .select()
+          .from(journalEntries)
+          .where(and(
+            inArray(journalEntries.status, ['posted', 'reversed']),
+            gte(journalEntries.entryDate, from),
+            lte(journalEntries.entryDate, to)
+          ))
+          .orderBy(asc(journalEntries.entryDate), asc(journalEntries.entryNumber));
+        const lineRows: JournalLine[] = entryRows.length > 0
+          ? await tx
+              .select()
+              .from(journalLines)
+              .where(inArray(journalLines.journalEntryId, entryRows.map(entry => entry.id)))
+              .orderBy(asc(journalLines.lineNumber))
+          : [];
+        const entries: SaftLedgerEntry[] = entryRows.map(entry => ({
+          entryNumber: entry.entryNumber,
+          entryDate: entry.entryDate,
+          description: entry.description,
+          sourceType: entry.sourceType,
+          sourceReference: entry.sourceReference,
+          status: entry.status,
+          postedBy: entry.postedBy,
+          postedAt: entry.postedAt,
+          lines: lineRows
+            .filter(line => line.journalEntryId === entry.id)
+            .map(line => {
+              if (line.customerId) ledgerCustomerIds.add(line.customerId);
+              if (line.supplierId) ledgerSupplierIds.add(line.supplierId);
+              return {
+                accountCode: codeByAccountId.get(line.accountId) ?? '',
+                debit: Number(line.debit),
+                credit: Number(line.credit),
+                description: line.description,
+                customerId: line.customerId,
+                supplierId: line.supplierId,
+              };
+            }),
+        }));
+        generalLedger = { accounts, entries };
+      }
+
+      // Signed documents report their signature and the entry time it covers
+      const signatureRows: FiscalSignature[] = salesDocuments.length > 0
+        ? await tx.select().from(fiscalSignatures).where(inArray(fiscalSignatures.documentId, salesDocuments.map(document => document.id)))
+        : [];
+      for (const document of salesDocuments) {
+        const signature = signatureRows.find(row => row.documentId === document.id && (row.documentType === 'pos_receipt') === (document.documentType === 'pos_receipt'));
+        if (signature) {
+          document.hash = signature.hash;
+          document.hashControl = signature.keyVersion;
+          document.systemEntryDate = signature.systemEntryDate;
+        }
+      }
+
+      // Master files: the customers, suppliers and products the documents refer to
+      const customerIds = Array.from(new Set([
+        ...salesDocuments.map(document => document.customerId),
+        ...payments.map(payment => payment.customerId),
+        ...Array.from(ledgerCustomerIds),
+      ].filter((id): id is string => !!id)));
+      const billSuppliers: Array<{ supplierId: string }> = await tx
+        .selectDistinct({ supplierId: vendorBills.supplierId })
+        .from(vendorBills)
+        .where(and(gte(vendorBills.billDate, from), lte(vendorBills.billDate, to)));
+      const supplierIds = Array.from(new Set([...billSuppliers.map(row => row.supplierId), ...Array.from(ledgerSupplierIds)]));
+      const productIds = Array.from(new Set(salesDocuments.flatMap(document => document.lines.map(line => line.productId)).filter((id): id is string => !!id)));
+
+      const customerRows: Customer[] = customerIds.length > 0 ? await tx.select().from(customers).where(inArray(customers.id, customerIds)) : [];
+      const supplierRows: Supplier[] = supplierIds.length > 0 ? await tx.select().from(suppliers).where(inArray(suppliers.id, supplierIds)) : [];
+      const productRows: Product[] = productIds.length > 0 ? await tx.select().from(products).where(inArray(products.id, productIds)) : [];
+      const productById = new Map(productRows.map(product => [product.id, product]));
+      for (const document of salesDocuments) {
+        for (const line of document.lines) {
+          if (line.productId) line.description = productById.get(line.productId)?.name ?? line.productId;
+        }
+      }
 
-  async createLicense(licenseData: InsertLicense): Promise<License> {
-    const db = await getDb();
-    const [license] = await db
-      .insert(licenses)
-      .values(licenseData)
-      .returning();
-    return license;
+      return {
+        from,
+        to,
+        customers: customerRows,
+        suppliers: supplierRows,
+        products: productRows,
+        taxCodes: taxCodeList,
+        salesDocuments,
+        payments,
+        generalLedger,
+      };
+    });
   }
 
-  async updateLicense(id: string, licenseData: Partial<InsertLicense>): Promise<License> {
+  // Fiscal document signatures
+
+  /**
+   * Walk every series' hash chain (or one series) and report where it breaks: a missing
+   * link, a signature that does not verify, or a document changed after it was signed.
+   */
+  async verifyFiscalSignatures(series?: string): Promise<FiscalChainVerification> {
     const db = await getDb();
-    const [license] = await db
-      .update(licenses)
-      .set({ ...licenseData, updatedAt: new Date() })
-      .where(eq(licenses.id, id))
-      .returning();
-    return license;
+    const signatures: FiscalSignature[] = await db
+      .select()
+      .from(fiscalSignatures)
+      .where(series ? eq(fiscalSignatures.series, series) : undefined)
+      .orderBy(asc(fiscalSignatures.series), asc(fiscalSignatures.chainPosition));
+
+    const invoiceIds = signatures.filter(signature => signature.documentType !== 'pos_receipt').map(signature => signature.documentId);
+    const receiptIds = signatures.filter(signature => signature.documentType === 'pos_receipt').map(signature => signature.documentId);
+    const invoiceRows: Invoice[] = invoiceIds.length > 0 ? await db.select().from(invoices).where(inArray(invoices.id, invoiceIds)) : [];
+    const receiptRows: PosReceipt[] = receiptIds.length > 0 ? await db.select().from(posReceipts).where(inArray(posReceipts.id, receiptIds)) : [];
+    const invoiceById = new Map(invoiceRows.map(invoice => [invoice.id, invoice]));
+    const receiptById = new Map(receiptRows.map(receipt => [receipt.id, receipt]));
+
+    // The signed fields as the document reads today
+    const currentFields = (signature: FiscalSignature) => {
+      if (signature.documentType === 'pos_receipt') {
+        const receipt = receiptById.get(signature.documentId);
+        return receipt && {
+          documentNumber: fiscalDocumentNumber(FISCAL_DOCUMENT_TYPES.pos_receipt, receipt.receiptNumber ?? ''),
+          documentDate: (receipt.createdAt ?? new Date()).toISOString().split('T')[0],
+          grossTotal: Math.abs(Number(receipt.totalAmount)).toFixed(2),
+        };
+      }
+      const invoice = invoiceById.get(signature.documentId);
+      return invoice && {
+        documentNumber: fiscalDocumentNumber(FISCAL_DOCUMENT_TYPES[signature.documentType as FiscalDocumentType], invoice.invoiceNumber),
+        documentDate: invoice.invoiceDate,
+        grossTotal: toBaseAmount(Math.abs(Number(invoice.totalAmount || 0)), Number(invoice.fxRate) || 1).toFixed(2),
+      };
+    };
+
+    const chains: FiscalChainVerification['chains'] = [];
+    const breaks: FiscalChainBreak[] = [];
+    for (let index = 0; index < signatures.length; index++) {
+      const signature = signatures[index];
+      const previous = index > 0 && signatures[index - 1].series === signature.series ? signatures[index - 1] : undefined;
+      if (!previous) {
+        chains.push({ series: signature.series, documents: 0, lastDocumentNumber: signature.documentNumber, intact: true });
+      }
+      const chain = chains[chains.length - 1];
+      chain.documents++;
+      chain.lastDocumentNumber = signature.documentNumber;
+
+      const problems: string[] = [];
+      if (signature.chainPosition !== (previous?.chainPosition ?? 0) + 1) {
+        problems.push(`Documents ${(previous?.chainPosition ?? 0) + 1}-${signature.chainPosition - 1} of the chain are missing`);
+      }
+      if (signature.previousHash !== (previous?.hash ?? null)) {
+        problems.push('Previous hash does not match the preceding document');
+      }
+      const signatureValid = verifyFiscalSignature(signingMessage(signature, signature.previousHash), signature.hash, signature.keyVersion);
+      if (signatureValid === false) {
+        problems.push('Signature does not verify');
+      } else if (signatureValid === null) {
+        problems.push(`Signed with key version ${signature.keyVersion}, which is not loaded`);
+      }
+      const current = currentFields(signature);
+      if (!current) {
+        problems.push('Document no longer exists');
+      } else if (current.documentNumber !== signature.documentNumber || current.documentDate !== signature.documentDate
+        || current.grossTotal !== Number(signature.grossTotal).toFixed(2)) {
+        problems.push('Document was changed after it was signed');
+      }
+
+      if (problems.length > 0) {
+        chain.intact = false;
+        breaks.push(...problems.map(problem => ({
+          series: signature.series,
+          chainPosition: signature.chainPosition,
+          documentNumber: signature.documentNumber,
+          problem,
+        })));
+      }
+    }
+
+    return { verifiedAt: new Date().toISOString(), chains, breaks };
   }
 
-  async deleteLicense(id: string): Promise<void> {
+  // Document numbering operations
+  async getDocumentSequences(documentType?: string): Promise<DocumentSequence[]> {
     const db = await getDb();
-    await db.delete(licenses).where(eq(licenses.id, id));
+    return await db
+      .select()
+      .from(documentSequences)
+      .where(documentType ? eq(documentSequences.documentType, documentType as DocumentType) : undefined)
+      .orderBy(asc(documentSequences.documentType), asc(documentSequences.series));
   }
 
-  async renewLicense(id: string, newExpiryDate: string, renewalDate: string): Promise<License> {
+  async createDocumentSequence(sequence: InsertDocumentSequence): Promise<DocumentSequence> {
+    validateDocumentPattern(sequence.pattern);
     const db = await getDb();
-    const [license] = await db
-      .update(licenses)
-      .set({ 
-        expiryDate: newExpiryDate,
-        renewalDate,
-        status: 'active',
-        updatedAt: new Date()
-      })
-      .where(eq(licenses.id, id))
-      .returning();
-    return license;
+    const [existing] = await db
+      .select()
+      .from(documentSequences)
+      .where(and(eq(documentSequences.documentType, sequence.documentType), eq(documentSequences.series, sequence.series)));
+    if (existing) {
+      throw new Error(`Series ${sequence.series} already exists for ${sequence.documentType}`);
+    }
+
+    const [created] = await db.insert(documentSequences).values(sequence).returning();
+    return created;
   }
 
-  async getExpiringLicenses(daysAhead: number): Promise<(License & { manager: User })[]> {
+  async updateDocumentSequence(id: string, sequence: Partial<InsertDocumentSequence>): Promise<DocumentSequence> {
     const db = await getDb();
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() + daysAhead);
-    
-    return await db
-      .select({
-        license: licenses,
-        manager: users,
-      })
-      .from(licenses)
-      .innerJoin(users, eq(licenses.managedBy, users.id))
-      .where(
-        and(
-          lte(licenses.expiryDate, cutoffDate.toISOString().split('T')[0]),
-          eq(licenses.status, 'active')
-        )
-      )
-      .orderBy(asc(licenses.expiryDate))
-      .then(rows => rows.map(row => ({
-        ...row.license,
-        manager: row.manager,
-      })));
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(documentSequences).where(eq(documentSequences.id, id));
+      if (!current) throw new Error('Document sequence not found');
+
+      if (sequence.pattern !== undefined) validateDocumentPattern(sequence.pattern);
+
+      // Type, series and terminal identify numbers already issued - they cannot move once used
+      const changesIdentity =
+        (sequence.documentType !== undefined && sequence.documentType !== current.documentType) ||
+        (sequence.series !== undefined && sequence.series !== current.series) ||
+        (sequence.terminalId !== undefined && sequence.terminalId !== current.terminalId);
+      if (changesIdentity) {
+        const [issued] = await tx
+          .select({ id: issuedDocumentNumbers.id })
+          .from(issuedDocumentNumbers)
+          .where(eq(issuedDocumentNumbers.sequenceId, id))
+          .limit(1);
+        if (issued) {
+          throw new Error('Cannot change document type, series or terminal of a sequence that has issued numbers');
+        }
+      }
+
+      const [updated] = await tx
+        .update(documentSequences)
+        .set({ ...sequence, updatedAt: new Date() })
+        .where(eq(documentSequences.id, id))
+        .returning();
+      return updated;
+    });
   }
 
-  // Regulatory Report operations
-  async getRegulatoryReports(status?: string, reportType?: string, preparedBy?: string, limit = 50): Promise<(RegulatoryReport & { preparer: User; reviewer?: User; approver?: User })[]> {
+  async getDocumentNumberGapReport(year?: number, documentType?: string): Promise<DocumentNumberGapReport[]> {
     const db = await getDb();
     const conditions = [];
-    
-    if (status) conditions.push(eq(regulatoryReports.status, status as any));
-    if (reportType) conditions.push(eq(regulatoryReports.reportType, reportType));
-    if (preparedBy) conditions.push(eq(regulatoryReports.preparedBy, preparedBy));
-    
-    return await db
-      .select({
-        report: regulatoryReports,
-        preparer: sql<User>`prep_user.*`.as('preparer'),
-        reviewer: sql<User>`rev_user.*`.as('reviewer'),
-        approver: sql<User>`app_user.*`.as('approver'),
-      })
-      .from(regulatoryReports)
-      .innerJoin(sql`${users} AS prep_user`, sql`${regulatoryReports.preparedBy} = prep_user.id`)
-      .leftJoin(sql`${users} AS rev_user`, sql`${regulatoryReports.reviewedBy} = rev_user.id`)
-      .leftJoin(sql`${users} AS app_user`, sql`${regulatoryReports.approvedBy} = app_user.id`)
+    if (year !== undefined) {
+      // Sequences that never reset keep their counter under year 0
+      conditions.push(or(eq(documentSequenceCounters.year, year), eq(documentSequenceCounters.year, 0)));
+    }
+    if (documentType) {
+      conditions.push(eq(documentSequences.documentType, documentType as DocumentType));
+    }
+
+    const counters = await db
+      .select({ counter: documentSequenceCounters, sequence: documentSequences })
+      .from(documentSequenceCounters)
+      .innerJoin(documentSequences, eq(documentSequenceCounters.sequenceId, documentSequences.id))
       .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .limit(limit)
-      .orderBy(desc(regulatoryReports.createdAt))
-      .then(rows => rows.map(row => ({
-        ...row.report,
-        preparer: row.preparer,
-        reviewer: row.reviewer || undefined,
-        approver: row.approver || undefined,
-      })));
-  }
+      .orderBy(asc(documentSequences.documentType), asc(documentSequences.series), asc(documentSequenceCounters.year));
+
+    const report: DocumentNumberGapReport[] = [];
+    for (const { counter, sequence } of counters) {
+      const issued = await db
+        .select({ sequenceNumber: issuedDocumentNumbers.sequenceNumber, documentNumber: issuedDocumentNumbers.documentNumber })
+        .from(issuedDocumentNumbers)
+        .where(and(eq(issuedDocumentNumbers.sequenceId, sequence.id), eq(issuedDocumentNumbers.year, counter.year)));
+
+      const issuedNumbers = new Set(issued.map(i => i.sequenceNumber));
+      const missing: number[] = [];
+      for (let n = 1; n <= counter.lastNumber; n++) {
+        if (!issuedNumbers.has(n)) missing.push(n);
+      }
 
-  async getRegulatoryReport(id: string): Promise<(RegulatoryReport & { preparer: User; reviewer?: User; approver?: User }) | undefined> {
-    const db = await getDb();
-    const [row] = await db
-      .select({
-        report: regulatoryReports,
-        preparer: sql<User>`prep_user.*`.as('preparer'),
-        reviewer: sql<User>`rev_user.*`.as('reviewer'),
-        approver: sql<User>`app_user.*`.as('approver'),
-      })
-      .from(regulatoryReports)
-      .innerJoin(sql`${users} AS prep_user`, sql`${regulatoryReports.preparedBy} = prep_user.id`)
-      .leftJoin(sql`${users} AS rev_user`, sql`${regulatoryReports.reviewedBy} = rev_user.id`)
-      .leftJoin(sql`${users} AS app_user`, sql`${regulatoryReports.approvedBy} = app_user.id`)
-      .where(eq(regulatoryReports.id, id));
-    
-    return row ? {
-      ...row.report,
-      preparer: row.preparer,
-      reviewer: row.reviewer || undefined,
-      approver: row.approver || undefined,
-    } : undefined;
-  }
+      const existingDocuments = await this.getExistingDocumentNumbers(
+        sequence.documentType,
+        issued.map(i => i.documentNumber)
+      );
+      const orphaned = issued
+        .filter(i => !existingDocuments.has(i.documentNumber))
+        .map(i => i.sequenceNumber);
+
+      report.push({
+        sequenceId: sequence.id,
+        documentType: sequence.documentType,
+        series: sequence.series,
+        year: counter.year,
+        lastNumber: counter.lastNumber,
+        issuedCount: issued.length,
+        missingNumbers: toNumberRanges(missing),
+        orphanedNumbers: toNumberRanges(orphaned),
+        isGapFree: missing.length === 0 && orphaned.length === 0,
+      });
+    }
 
-  async createRegulatoryReport(reportData: InsertRegulatoryReport): Promise<RegulatoryReport> {
-    const db = await getDb();
-    const [report] = await db
-      .insert(regulatoryReports)
-      .values(reportData)
-      .returning();
     return report;
   }
 
-  async updateRegulatoryReport(id: string, reportData: Partial<InsertRegulatoryReport>): Promise<RegulatoryReport> {
-    const db = await getDb();
-    const [report] = await db
-      .update(regulatoryReports)
-      .set({ ...reportData, updatedAt: new Date() })
-      .where(eq(regulatoryReports.id, id))
-      .returning();
-    return report;
+  private async getExistingDocumentNumbers(documentType: DocumentType, documentNumbers: string[]): Promise<Set<string>> {
+    if (documentNumbers.length === 0) return new Set();
+    const db = await getDb();
+    let rows: Array<{ documentNumber: string | null }>;
+
+    switch (documentType) {
+      case 'invoice':
+      case 'credit_note':
+        rows = await db.select({ documentNumber: invoices.invoiceNumber }).from(invoices).where(inArray(invoices.invoiceNumber, documentNumbers));
+        break;
+      case 'sales_order':
+        rows = await db.select({ documentNumber: salesOrders.orderNumber }).from(salesOrders).where(inArray(salesOrders.orderNumber, documentNumbers));
+        break;
+      case 'quotation':
+        rows = await db.select({ documentNumber: quotations.quotationNumber }).from(quotations).where(inArray(quotations.quotationNumber, documentNumbers));
+        break;
+      case 'purchase_request':
+        rows = await db.select({ documentNumber: purchaseRequests.prNumber }).from(purchaseRequests).where(inArray(purchaseRequests.prNumber, documentNumbers));
+        break;
+      case 'purchase_order':
+        rows = await db.select({ documentNumber: purchaseOrders.orderNumber }).from(purchaseOrders).where(inArray(purchaseOrders.orderNumber, documentNumbers));
+        break;
+      case 'goods_receipt':
+        rows = await db.select({ documentNumber: goodsReceipts.grNumber }).from(goodsReceipts).where(inArray(goodsReceipts.grNumber, documentNumbers));
+        break;
+      case 'vendor_bill':
+        rows = await db.select({ documentNumber: vendorBills.billNumber }).from(vendorBills).where(inArray(vendorBills.billNumber, documentNumbers));
+        break;
+      case 'pos_receipt':
+        rows = await db.select({ documentNumber: posReceipts.receiptNumber }).from(posReceipts).where(inArray(posReceipts.receiptNumber, documentNumbers));
+        break;
+      case 'transfer_order':
+        rows = await db.select({ documentNumber: transferOrders.transferNumber }).from(transferOrders).where(inArray(transferOrders.transferNumber, documentNumbers));
+        break;
+      case 'delivery_note':
+        rows = await db.select({ documentNumber: shipments.shipmentNumber }).from(shipments).where(inArray(shipments.shipmentNumber, documentNumbers));
+        break;
+      case 'journal_entry':
+        rows = await db.select({ documentNumber: journalEntries.entryNumber }).from(journalEntries).where(inArray(journalEntries.entryNumber, documentNumbers));
+        break;
+      case 'supplier_payment':
+        rows = await db.select({ documentNumber: supplierPayments.paymentNumber }).from(supplierPayments).where(inArray(supplierPayments.paymentNumber, documentNumbers));
+        break;
+      case 'payment_run':
+        rows = await db.select({ documentNumber: paymentRuns.runNumber }).from(paymentRuns).where(inArray(paymentRuns.runNumber, documentNumbers));
+        break;
+      case 'receipt':
+        rows = await db.select({ documentNumber: receipts.receiptNumber }).from(receipts).where(inArray(receipts.receiptNumber, documentNumbers));
+        break;
+      case 'landed_cost':
+        rows = await db.select({ documentNumber: landedCosts.documentNumber }).from(landedCosts).where(inArray(landedCosts.documentNumber, documentNumbers));
+        break;
+      case 'stock_count':
+        rows = await db.select({ documentNumber: stockCounts.countNumber }).from(stockCounts).where(inArray(stockCounts.countNumber, documentNumbers));
+        break;
+    }
+
+    return new Set(rows.map(r => r.documentNumber).filter((n): n is string => !!n));
+  }
+
+  // General ledger posting helpers
+
+  private async getJournalLinesWithAccounts(db: any, entryIds: string[]): Promise<(JournalLine & { account: GlAccount })[]> {
+    if (entryIds.length === 0) return [];
+    const rows: Array<{ line: JournalLine; account: GlAccount }> = await db
+      .select({ line: journalLines, account: glAccounts })
+      .from(journalLines)
+      .innerJoin(glAccounts, eq(journalLines.accountId, glAccounts.id))
+      .where(inArray(journalLines.journalEntryId, entryIds))
+      .orderBy(asc(journalLines.lineNumber));
+    return rows.map(row => ({ ...row.line, account: row.account }));
+  }
+
+  // Insert the PGC accounts missing from the chart, parents before children
+  private async installDefaultChart(tx: DbTx): Promise<void> {
+    const existing: GlAccount[] = await tx.select().from(glAccounts);
+    const idByCode = new Map(existing.map(account => [account.code, account.id]));
+    const parentCodes = new Set(ANGOLAN_PGC_ACCOUNTS.map(account => parentAccountCode(account.code)));
+    const depth = (code: string) => code.includes('.') ? code.split('.').length + 1 : code.length;
+
+    const missing = ANGOLAN_PGC_ACCOUNTS.filter(account => !idByCode.has(account.code));
+    for (const level of Array.from(new Set(missing.map(account => depth(account.code)))).sort((a, b) => a - b)) {
+      const rows = missing.filter(account => depth(account.code) === level);
+      const inserted: GlAccount[] = await tx
+        .insert(glAccounts)
+        .values(rows.map(account => {
+          const parentCode = parentAccountCode(account.code);
+          return {
+            ...account,
+            parentId: parentCode ? idByCode.get(parentCode) ?? null : null,
+            isPostable: !parentCodes.has(account.code),
+          };
+        }))
+        .returning();
+      inserted.forEach(account => idByCode.set(account.code, account.id));
+    }
   }
 
-  async submitRegulatoryReport(id: string, submissionRef: string): Promise<RegulatoryReport> {
-    const db = await getDb();
-    const [report] = await db
-      .update(regulatoryReports)
-      .set({ 
-        status: 'submitted',
-        submissionReference: submissionRef,
-        submittedDate: new Date().toISOString().split('T')[0],
-        updatedAt: new Date()
+  private async resolveGlAccount(tx: DbTx, key: GlAccountSettingKey): Promise<GlAccount> {
+    const code = await this.getSettingValue(key);
+    let [account]: GlAccount[] = await tx.select().from(glAccounts).where(eq(glAccounts.code, code));
+    if (!account) {
+      await this.installDefaultChart(tx);
+      [account] = await tx.select().from(glAccounts).where(eq(glAccounts.code, code));
+    }
+
+    if (!account) {
+      throw new Error(`GL account ${code} (setting ${key}) does not exist in the chart of accounts`);
+    }
+    if (!account.isPostable || !account.isActive) {
+      throw new Error(`GL account ${code} (setting ${key}) cannot be posted to`);
+    }
+    return account;
+  }
+
+  private async insertJournalEntry(
+    tx: DbTx,
+    header: {
+      entryDate: string;
+      description: string;
+      sourceType: JournalSource;
+      sourceId?: string;
+      sourceReference?: string | null;
+      status: 'draft' | 'posted';
+      reversalOfId?: string;
+      createdBy?: string | null;
+      postedBy?: string | null;
+    },
+    lines: JournalLineInput[]
+  ): Promise<JournalEntry & { lines: JournalLine[] }> {
+    const { lines: normalized, totalCents } = normalizeJournalLines(lines);
+    const entryNumber = await this.allocateDocumentNumber(tx, 'journal_entry', { date: new Date(header.entryDate) });
+    const isPosted = header.status === 'posted';
+
+    const [entry] = await tx
+      .insert(journalEntries)
+      .values({
+        entryNumber,
+        entryDate: header.entryDate,
+        description: header.description,
+        sourceType: header.sourceType,
+        sourceId: header.sourceId,
+        sourceReference: header.sourceReference,
+        status: header.status,
+        totalAmount: (totalCents / 100).toFixed(2),
+        reversalOfId: header.reversalOfId,
+        createdBy: header.createdBy,
+        postedBy: isPosted ? header.postedBy : null,
+        postedAt: isPosted ? new Date() : null,
       })
-      .where(eq(regulatoryReports.id, id))
       .returning();
-    return report;
+
+    const insertedLines = await tx
+      .insert(journalLines)
+      .values(normalized.map((line, index) => ({ ...line, journalEntryId: entry.id, lineNumber: index + 1 })))
+      .returning();
+
+    return { ...entry, lines: insertedLines };
+  }
+
+  /**
+   * Post the journal entry for a business event, inside the event's transaction so the
+   * document and its accounting stand or fall together. Lines name accounts by setting.
+   * Documents with no value produce no entry.
+   */
+  private async postAutomaticJournal(
+    tx: DbTx,
+    header: { entryDate: string; description: string; sourceType: JournalSource; sourceId: string; sourceReference?: string | null; postedBy?: string | null },
+    lines: Array<Omit<JournalLineInput, 'accountId'> & { account: GlAccountSettingKey }>
+  ): Promise<JournalEntry | null> {
+    if (lines.every(line => amountDifference(line.debit ?? 0, line.credit ?? 0) === 0)) {
+      return null;
+    }
+
+    const resolved: JournalLineInput[] = [];
+    for (const { account, ...line } of lines) {
+      resolved.push({ ...line, accountId: (await this.resolveGlAccount(tx, account)).id });
+    }
+    return await this.insertJournalEntry(tx, { ...header, status: 'posted', createdBy: header.postedBy }, resolved);
+  }
+
+  // Receivable against sales and IVA in the base currency; negative totals are credit notes
+  private async postInvoiceJournal(tx: DbTx, invoice: Invoice, postedBy?: string): Promise<JournalEntry | null> {
+    const total = Number(invoice.baseTotalAmount ?? invoice.totalAmount ?? 0);
+    const tax = Number(invoice.baseTaxAmount ?? invoice.taxAmount ?? 0);
+    const isCreditNote = total < 0;
+
+    return await this.postAutomaticJournal(tx, {
+      entryDate: invoice.invoiceDate,
+      description: `${isCreditNote ? 'Credit note' : 'Invoice'} ${invoice.invoiceNumber}`,
+      sourceType: isCreditNote ? 'credit_note' : 'invoice',
+      sourceId: invoice.id,
+      sourceReference: invoice.invoiceNumber,
+      postedBy,
+    }, [
+      { account: 'gl_account_receivable', debit: total, customerId: invoice.customerId },
+      { account: isCreditNote ? 'gl_account_sales_returns' : 'gl_account_sales', credit: amountDifference(total, tax) },
+      { account: 'gl_account_output_vat', credit: tax },
+    ]);
   }
 
-  async reviewRegulatoryReport(id: string, reviewerId: string): Promise<RegulatoryReport> {
-    const db = await getDb();
-    const [report] = await db
-      .update(regulatoryReports)
-      .set({ 
-        reviewedBy: reviewerId,
-        updatedAt: new Date()
+  private async reverseJournalInTx(tx: DbTx, entry: JournalEntry, reversedBy?: string, entryDate?: string): Promise<JournalEntry & { lines: JournalLine[] }> {
+    const lines: JournalLine[] = await tx
+      .select()
+      .from(journalLines)
+      .where(eq(journalLines.journalEntryId, entry.id))
+      .orderBy(asc(journalLines.lineNumber));
+
+    const reversal = await this.insertJournalEntry(tx, {
+      entryDate: entryDate || new Date().toISOString().split('T')[0],
+      description: `Reversal of ${entry.entryNumber}: ${entry.description}`,
+      sourceType: 'reversal',
+      sourceId: entry.id,
+      sourceReference: entry.entryNumber,
+      status: 'posted',
+      reversalOfId: entry.id,
+      createdBy: reversedBy,
+      postedBy: reversedBy,
+    }, lines.map(line => ({
+      accountId: line.accountId,
+      debit: Number(line.credit),
+      credit: Number(line.debit),
+      description: line.description,
+      customerId: line.customerId,
+      supplierId: line.supplierId,
+    })));
+
+    await tx
+      .update(journalEntries)
+      .set({ status: 'reversed', updatedAt: new Date() })
+      .where(eq(journalEntries.id, entry.id));
+
+    return reversal;
+  }
+
+  // Tax codes, installing the defaults on a fresh database
+  private async getTaxCodesInTx(tx: DbTx): Promise<TaxCode[]> {
+    const codes: TaxCode[] = await tx.select().from(taxCodes).orderBy(asc(taxCodes.code));
+    if (codes.length > 0) return codes;
+    return await tx.insert(taxCodes).values(DEFAULT_TAX_CODES).returning();
+  }
+
+  /**
+   * Tax code for each line, in order. A line names a product, a code chosen on the line,
+   * or neither (a manual invoice or an unmatched bill line gets the default code).
+   */
+  private async resolveLineTaxCodes(
+    tx: DbTx,
+    lines: Array<{ productId?: string | null; taxCodeId?: string | null }>,
+    customerId: string | null | undefined,
+    date: string
+  ): Promise<TaxCode[]> {
+    const codes = await this.getTaxCodesInTx(tx);
+    const codeById = new Map(codes.map(code => [code.id, code]));
+    const defaultCodeSetting = await this.getSettingValue('default_tax_code');
+    const defaultCode = codes.find(code => code.code === defaultCodeSetting && code.isActive);
+    if (!defaultCode) {
+      throw new Error(`Default tax code ${defaultCodeSetting} (setting default_tax_code) does not exist or is inactive`);
+    }
+    const unknownCode = lines.find(line => line.taxCodeId && !codeById.has(line.taxCodeId));
+    if (unknownCode) {
+      throw new Error(`Tax code ${unknownCode.taxCodeId} not found`);
+    }
+
+    const productIds = Array.from(new Set(lines.map(line => line.productId).filter((id): id is string => !!id)));
+    const productRows: Array<{ id: string; taxCodeId: string | null; category: string | null }> = productIds.length > 0
+      ? await tx
+          .select({ id: products.id, taxCodeId: products.taxCodeId, category: products.category })
+          .from(products)
+          .where(inArray(products.id, productIds))
+      : [];
+    const productById = new Map(productRows.map(product => [product.id, product]));
+    const categories = Array.from(new Set(productRows.map(product => product.category).filter((category): category is string => !!category)));
+    const categoryRows: CategoryTaxCode[] = categories.length > 0
+      ? await tx.select().from(categoryTaxCodes).where(inArray(categoryTaxCodes.category, categories))
+      : [];
+    const categoryCodeId = new Map(categoryRows.map(row => [row.category, row.taxCodeId]));
+
+    // A customer's exemption applies while its certificate is valid
+    let customerExemption: TaxCode | undefined;
+    if (customerId) {
+      const [customer] = await tx
+        .select({ taxExemptionCodeId: customers.taxExemptionCodeId, taxExemptionValidUntil: customers.taxExemptionValidUntil })
+        .from(customers)
+        .where(eq(customers.id, customerId));
+      const exemption = customer?.taxExemptionCodeId ? codeById.get(customer.taxExemptionCodeId) : undefined;
+      if (exemption && exemption.isActive && !isTaxable(exemption)
+        && (!customer.taxExemptionValidUntil || customer.taxExemptionValidUntil >= date)) {
+        customerExemption = exemption;
+      }
+    }
+
+    return lines.map(line => {
+      const product = line.productId ? productById.get(line.productId) : undefined;
+      const categoryCode = product?.category ? categoryCodeId.get(product.category) : undefined;
+      return pickTaxCode([
+        line.taxCodeId ? codeById.get(line.taxCodeId) : undefined,
+        product?.taxCodeId ? codeById.get(product.taxCodeId) : undefined,
+        categoryCode ? codeById.get(categoryCode) : undefined,
+      ], defaultCode, customerExemption);
+    });
+  }
+
+  /**
+   * Taxed lines for sales order items, or for goods shipped or returned against them. Items
+   * keep the code and rate they were ordered at; items from before tax codes get today's code.
+   */
+  private async salesOrderTaxLines(
+    tx: DbTx,
+    order: { customerId: string; orderDate: string },
+    lines: Array<{ productId: string; taxCodeId: string | null; taxRate: string; netAmount: number }>
+  ): Promise<TaxedLine[]> {
+    const codeById = new Map((await this.getTaxCodesInTx(tx)).map(code => [code.id, code]));
+    const resolved = await this.resolveLineTaxCodes(tx, lines.map(line => ({ productId: line.productId })), order.customerId, order.orderDate);
+    return lines.map((line, index) => {
+      const orderedCode = line.taxCodeId ? codeById.get(line.taxCodeId) : undefined;
+      const taxCode = orderedCode ?? resolved[index];
+      const rate = orderedCode ? Number(line.taxRate) : Number(taxCode.rate);
+      return { taxCode, netAmount: line.netAmount, taxAmount: lineTax(line.netAmount, rate) };
+    });
+  }
+
+  // Order totals follow its lines: the net subtotal, the lines' IVA and the tax summary
+  private async recalculateSalesOrderTotals(tx: DbTx, orderId: string): Promise<SalesOrder> {
+    const [order]: SalesOrder[] = await tx.select().from(salesOrders).where(eq(salesOrders.id, orderId));
+    if (!order) throw new Error('Sales order not found');
+
+    const items: SalesOrderItem[] = await tx
+      .select()
+      .from(salesOrderItems)
+      .where(eq(salesOrderItems.orderId, orderId));
+    const { subtotal, taxAmount, breakdown } = summarizeTax(await this.salesOrderTaxLines(
+      tx,
+      order,
+      items.map(item => ({ ...item, netAmount: Number(item.totalPrice) }))
+    ));
+    const totalAmount = (Math.round(subtotal * 100) + Math.round(taxAmount * 100)) / 100;
+
+    const [updated] = await tx
+      .update(salesOrders)
+      .set({
+        subtotal: subtotal.toFixed(2),
+        taxAmount: taxAmount.toFixed(2),
+        totalAmount: totalAmount.toFixed(2),
+        baseTotalAmount: toBaseAmount(totalAmount, Number(order.fxRate)).toFixed(2),
+        taxBreakdown: breakdown,
+        updatedAt: new Date(),
       })
-      .where(eq(regulatoryReports.id, id))
+      .where(eq(salesOrders.id, orderId))
       .returning();
-    return report;
+    return updated;
   }
 
-  async approveRegulatoryReport(id: string, approverId: string): Promise<RegulatoryReport> {
-    const db = await getDb();
-    const [report] = await db
-      .update(regulatoryReports)
-      .set({ 
-        status: 'accepted',
-        approvedBy: approverId,
-        updatedAt: new Date()
+  /**
+   * Invoices entered by hand have no lines: the subtotal is taxed under the customer's
+   * code (the default code, or their exemption). A total without a subtotal includes IVA.
+   */
+  private async manualInvoiceTaxFields(
+    tx: DbTx,
+    invoice: { customerId: string; invoiceDate: string; subtotal?: string | null; totalAmount?: string | null }
+  ): Promise<Pick<Invoice, 'subtotal' | 'taxAmount' | 'totalAmount' | 'taxBreakdown'>> {
+    const [taxCode] = await this.resolveLineTaxCodes(tx, [{}], invoice.customerId, invoice.invoiceDate);
+    const rate = Number(taxCode.rate);
+    const { netAmount, taxAmount } = Number(invoice.subtotal || 0) !== 0
+      ? { netAmount: Number(invoice.subtotal), taxAmount: lineTax(Number(invoice.subtotal), rate) }
+      : splitTaxIncluded(Number(invoice.totalAmount || 0), rate);
+    const { subtotal, breakdown } = summarizeTax([{ taxCode, netAmount, taxAmount }]);
+    return {
+      subtotal: subtotal.toFixed(2),
+      taxAmount: taxAmount.toFixed(2),
+      totalAmount: ((Math.round(netAmount * 100) + Math.round(taxAmount * 100)) / 100).toFixed(2),
+      taxBreakdown: breakdown,
+    };
+  }
+
+  // A quotation line's tax code, the code's rate and its tax-inclusive line total
+  private async quotationItemTaxFields(
+    tx: DbTx,
+    item: { quotationId: string; productId: string; taxCodeId?: string | null; quantity: number; unitPrice: string; discount?: string | null }
+  ): Promise<Pick<QuotationItem, 'taxCodeId' | 'tax' | 'lineTotal'>> {
+    const [quotation] = await tx
+      .select({ customerId: quotations.customerId, quotationDate: quotations.quotationDate })
+      .from(quotations)
+      .where(eq(quotations.id, item.quotationId));
+    if (!quotation) throw new Error('Quotation not found');
+
+    const [taxCode] = await this.resolveLineTaxCodes(tx, [item], quotation.customerId, quotation.quotationDate);
+    const netAmount = Math.round(item.quantity * Number(item.unitPrice) * (1 - Number(item.discount || 0) / 100) * 100) / 100;
+    return {
+      taxCodeId: taxCode.id,
+      tax: taxCode.rate,
+      lineTotal: (netAmount + lineTax(netAmount, Number(taxCode.rate))).toFixed(2),
+    };
+  }
+
+  /**
+   * Base-currency units per unit of `currency` on `date`. A rate entered on the document
+   * wins; 1 is the column default, so for a foreign currency it means no rate was given.
+   */
+  private async resolveFxRate(tx: DbTx, currency: string, fxRate: string | number | null | undefined, date: string): Promise<number> {
+    const baseCurrency = await this.getSettingValue('base_currency');
+    if (currency === baseCurrency) return 1;
+    const given = Number(fxRate ?? 0);
+    if (given > 0 && given !== 1) return given;
+    return await this.getConversionRate(tx, currency, baseCurrency, date);
+  }
+
+  // Rate and base-currency amounts for an invoice, fixed on the invoice date
+  private async invoiceCurrencyFields(
+    tx: DbTx,
+    invoice: { currency?: string | null; fxRate?: string | null; invoiceDate: string; subtotal?: string | null; taxAmount?: string | null; totalAmount?: string | null }
+  ): Promise<Pick<Invoice, 'currency' | 'fxRate' | 'baseSubtotal' | 'baseTaxAmount' | 'baseTotalAmount'>> {
+    const currency = invoice.currency || await this.getSettingValue('default_currency');
+    const fxRate = await this.resolveFxRate(tx, currency, invoice.fxRate, invoice.invoiceDate);
+    return {
+      currency,
+      fxRate: fxRate.toFixed(6),
+      baseSubtotal: toBaseAmount(Number(invoice.subtotal || 0), fxRate).toFixed(2),
+      baseTaxAmount: toBaseAmount(Number(invoice.taxAmount || 0), fxRate).toFixed(2),
+      baseTotalAmount: toBaseAmount(Number(invoice.totalAmount || 0), fxRate).toFixed(2),
+    };
+  }
+
+  // Open foreign-currency invoices and bills issued by the date, at the latest rate on it
+  private async computeFxRevaluation(tx: DbTx, revaluationDate: string): Promise<FxRevaluationPreview> {
+    const baseCurrency = await this.getSettingValue('base_currency');
+
+    const openInvoices = await tx
+      .select({ invoice: invoices, customerName: customers.name })
+      .from(invoices)
+      .innerJoin(customers, eq(invoices.customerId, customers.id))
+      .where(and(
+        inArray(invoices.status, ['sent', 'overdue']),
+        ne(invoices.currency, baseCurrency),
+        lte(invoices.invoiceDate, revaluationDate),
+        sql`${invoices.totalAmount} > ${invoices.paidAmount}`
+      ))
+      .orderBy(asc(customers.name), asc(invoices.invoiceNumber));
+
+    const openBills = await tx
+      .select({ bill: vendorBills, supplierName: suppliers.name })
+      .from(vendorBills)
+      .innerJoin(suppliers, eq(vendorBills.supplierId, suppliers.id))
+      .where(and(
+        inArray(vendorBills.status, ['posted', 'partially_paid']),
+        // A bill without a currency has nothing to revalue
+        isNotNull(vendorBills.currency),
+        ne(vendorBills.currency, baseCurrency),
+        lte(vendorBills.billDate, revaluationDate),
+        sql`${vendorBills.totalAmount} > ${vendorBills.paidAmount}`
+      ))
+      .orderBy(asc(suppliers.name), asc(vendorBills.billNumber));
+
+    const rates = new Map<string, number>();
+    const rateFor = async (currency: string) => {
+      if (!rates.has(currency)) {
+        rates.set(currency, await this.getConversionRate(tx, currency, baseCurrency, revaluationDate));
+      }
+      return rates.get(currency)!;
+    };
+
+    const lines: FxRevaluationLine[] = [];
+    const addLine = async (line: Omit<FxRevaluationLine, 'revaluedRate' | 'adjustment'>) => {
+      const revaluedRate = await rateFor(line.currency);
+      const adjustment = amountDifference(toBaseAmount(line.openAmount, revaluedRate), toBaseAmount(line.openAmount, line.bookedRate));
+      if (adjustment !== 0) {
+        lines.push({ ...line, revaluedRate, adjustment });
+      }
+    };
+
+    for (const { invoice, customerName } of openInvoices) {
+      await addLine({
+        kind: 'receivable',
+        documentId: invoice.id,
+        documentNumber: invoice.invoiceNumber,
+        partyId: invoice.customerId,
+        partyName: customerName,
+        currency: invoice.currency,
+        openAmount: amountDifference(Number(invoice.totalAmount), Number(invoice.paidAmount || 0)),
+        bookedRate: Number(invoice.fxRate),
+      });
+    }
+    for (const { bill, supplierName } of openBills) {
+      await addLine({
+        kind: 'payable',
+        documentId: bill.id,
+        documentNumber: bill.billNumber,
+        partyId: bill.supplierId,
+        partyName: supplierName,
+        currency: bill.currency ?? baseCurrency,
+        openAmount: amountDifference(Number(bill.totalAmount), Number(bill.paidAmount)),
+        bookedRate: Number(bill.fxRate || 1),
+      });
+    }
+
+    const total = (kind: FxRevaluationLine['kind']) =>
+      lines.filter(line => line.kind === kind).reduce((sum, line) => sum + Math.round(line.adjustment * 100), 0) / 100;
+    return {
+      revaluationDate,
+      baseCurrency,
+      lines,
+      receivablesAdjustment: total('receivable'),
+      payablesAdjustment: total('payable'),
+    };
+  }
+
+  /**
+   * Units of `to` currency per unit of `from` currency on or before a date: a direct
+   * quote, the inverse quote, or a cross rate through USD (the rate feed's base).
+   */
+  private async getConversionRate(tx: DbTx, from: string, to: string, asOfDate: string): Promise<number> {
+    if (from === to) return 1;
+
+    const latest = async (base: string, quote: string): Promise<number | null> => {
+      const [rate] = await tx
+        .select({ rate: fxRates.rate })
+        .from(fxRates)
+        .where(and(eq(fxRates.baseCurrency, base), eq(fxRates.quoteCurrency, quote), lte(fxRates.asOfDate, asOfDate)))
+        .orderBy(desc(fxRates.asOfDate))
+        .limit(1);
+      return rate && Number(rate.rate) > 0 ? Number(rate.rate) : null;
+    };
+
+    const direct = await latest(from, to);
+    if (direct) return direct;
+    const inverse = await latest(to, from);
+    if (inverse) return 1 / inverse;
+
+    const usdToFrom = from === 'USD' ? 1 : await latest('USD', from);
+    const usdToTo = to === 'USD' ? 1 : await latest('USD', to);
+    if (usdToFrom && usdToTo) return usdToTo / usdToFrom;
+
+    throw new Error(`No exchange rate from ${from} to ${to} on or before ${asOfDate}`);
+  }
+
+  // Record a payment against posted bills: allocations are in each bill's currency and
+  // are converted into the payment currency at the rate on the payment date
+  private async recordSupplierPayment(
+    tx: DbTx,
+    request: CreateSupplierPaymentRequest,
+    createdBy: string,
+    paymentRunId?: string
+  ): Promise<SupplierPayment & { allocations: SupplierPaymentAllocation[] }> {
+    const billIds = request.allocations.map(a => a.billId);
+    if (new Set(billIds).size !== billIds.length) {
+      throw new Error('Each bill can only be allocated once per payment');
+    }
+
+    const bills: VendorBill[] = await tx
+      .select()
+      .from(vendorBills)
+      .where(inArray(vendorBills.id, billIds))
+      .for('update');
+
+    const allocations: { bill: VendorBill; amount: number; paymentAmount: number; fxRate: number }[] = [];
+    for (const allocation of request.allocations) {
+      const bill = bills.find(b => b.id === allocation.billId);
+      if (!bill) {
+        throw new Error(`Vendor bill ${allocation.billId} not found`);
+      }
+      if (bill.supplierId !== request.supplierId) {
+        throw new Error(`Bill ${bill.billNumber} belongs to another supplier`);
+      }
+      if (bill.status !== 'posted' && bill.status !== 'partially_paid') {
+        throw new Error(`Bill ${bill.billNumber} is ${bill.status} and cannot be paid`);
+      }
+      const open = amountDifference(Number(bill.totalAmount), Number(bill.paidAmount));
+      if (amountDifference(allocation.amount, open) > 0) {
+        throw new Error(`Allocation of ${allocation.amount.toFixed(2)} exceeds the ${open.toFixed(2)} still open on bill ${bill.billNumber}`);
+      }
+
+      const fxRate = await this.getConversionRate(tx, bill.currency || 'USD', request.currency, request.paymentDate);
+      allocations.push({ bill, amount: allocation.amount, paymentAmount: Math.round(allocation.amount * fxRate * 100) / 100, fxRate });
+    }
+
+    const paymentAmount = allocations.reduce((sum, a) => sum + Math.round(a.paymentAmount * 100), 0) / 100;
+    const paymentNumber = await this.allocateDocumentNumber(tx, 'supplier_payment', { date: new Date(request.paymentDate) });
+    const [payment] = await tx
+      .insert(supplierPayments)
+      .values({
+        paymentNumber,
+        supplierId: request.supplierId,
+        paymentRunId,
+        paymentDate: request.paymentDate,
+        amount: paymentAmount.toFixed(2),
+        currency: request.currency,
+        paymentMethod: request.paymentMethod,
+        reference: request.reference,
+        notes: request.notes,
+        createdBy,
       })
-      .where(eq(regulatoryReports.id, id))
       .returning();
-    return report;
-  }
 
-  async rejectRegulatoryReport(id: string, approverId: string, reason: string): Promise<RegulatoryReport> {
-    const db = await getDb();
-    const [report] = await db
-      .update(regulatoryReports)
-      .set({ 
-        status: 'rejected',
-        approvedBy: approverId,
-        rejectionReason: reason,
-        updatedAt: new Date()
-      })
-      .where(eq(regulatoryReports.id, id))
+    const insertedAllocations = await tx
+      .insert(supplierPaymentAllocations)
+      .values(allocations.map(a => ({
+        paymentId: payment.id,
+        billId: a.bill.id,
+        amount: a.amount.toFixed(2),
+        paymentAmount: a.paymentAmount.toFixed(2),
+        fxRate: a.fxRate.toFixed(6),
+      })))
       .returning();
-    return report;
-  }
 
-  // Audit Log operations
-  async getAuditLogs(tableName?: string, recordId?: string, userId?: string, action?: string, limit = 100): Promise<(AuditLog & { user?: User })[]> {
-    const db = await getDb();
-    const conditions = [];
-    
-    if (tableName) conditions.push(eq(auditLogs.tableName, tableName));
-    if (recordId) conditions.push(eq(auditLogs.recordId, recordId));
-    if (userId) conditions.push(eq(auditLogs.userId, userId));
-    if (action) conditions.push(eq(auditLogs.action, action as any));
-    
-    return await db
-      .select({
-        auditLog: auditLogs,
-        user: users,
-      })
-      .from(auditLogs)
-      .leftJoin(users, eq(auditLogs.userId, users.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .limit(limit)
-      .orderBy(desc(auditLogs.timestamp))
-      .then(rows => rows.map(row => ({
-        ...row.auditLog,
-        user: row.user || undefined,
-      })));
-  }
+    for (const a of allocations) {
+      const paidAmount = Math.round((Number(a.bill.paidAmount) + a.amount) * 100) / 100;
+      await tx
+        .update(vendorBills)
+        .set({
+          paidAmount: paidAmount.toFixed(2),
+          status: paidAmount >= Number(a.bill.totalAmount) ? 'paid' : 'partially_paid',
+          updatedAt: new Date(),
+        })
+        .where(eq(vendorBills.id, a.bill.id));
+    }
 
-  async createAuditLog(auditLogData: InsertAuditLog): Promise<AuditLog> {
-    const db = await getDb();
-    const [auditLog] = await db
-      .insert(auditLogs)
-      .values(auditLogData)
-      .returning();
-    return auditLog;
+    // Clears the payable at the rates the bills were posted at; the bank pays at today's
+    // rate and the difference is realized exchange gain or loss
+    const settled = allocations.reduce((sum, a) => sum + Math.round(toBaseAmount(a.amount, Number(a.bill.fxRate || 1)) * 100), 0) / 100;
+    const paid = toBaseAmount(paymentAmount, await this.resolveFxRate(tx, request.currency, null, request.paymentDate));
+    const realizedFx = amountDifference(settled, paid);
+    await this.postAutomaticJournal(tx, {
+      entryDate: request.paymentDate,
+      description: `Supplier payment ${paymentNumber}`,
+      sourceType: 'supplier_payment',
+      sourceId: payment.id,
+      sourceReference: paymentNumber,
+      postedBy: createdBy,
+    }, [
+      { account: 'gl_account_payable', debit: settled, supplierId: request.supplierId },
+      { account: paymentMethodGlAccount(request.paymentMethod), credit: paid },
+      { account: 'gl_account_fx_gain', credit: Math.max(realizedFx, 0) },
+      { account: 'gl_account_fx_loss', debit: Math.max(-realizedFx, 0) },
+    ]);
+
+    return { ...payment, allocations: insertedAllocations };
+  }
+
+  // Group run lines into transfers: one per supplier and currency
+  private async withPaymentRunGroups(db: any, runs: PaymentRun[]): Promise<PaymentRunDetail[]> {
+    if (runs.length === 0) return [];
+    const lines = await db
+      .select({ line: paymentRunLines, bill: vendorBills, supplier: suppliers })
+      .from(paymentRunLines)
+      .innerJoin(vendorBills, eq(paymentRunLines.billId, vendorBills.id))
+      .innerJoin(suppliers, eq(paymentRunLines.supplierId, suppliers.id))
+      .where(inArray(paymentRunLines.paymentRunId, runs.map(r => r.id)))
+      .orderBy(asc(suppliers.name), asc(paymentRunLines.currency), asc(vendorBills.dueDate));
+
+    return runs.map(run => {
+      const groups = new Map<string, PaymentRunGroup>();
+      const totalsByCurrency: Record<string, number> = {};
+      for (const { line, bill, supplier } of lines.filter((l: any) => l.line.paymentRunId === run.id)) {
+        const key = `${supplier.id}:${line.currency}`;
+        let group = groups.get(key);
+        if (!group) {
+          group = {
+            supplierId: supplier.id,
+            supplierName: supplier.name,
+            bankName: supplier.bankName,
+            iban: supplier.iban,
+            swiftCode: supplier.swiftCode,
+            currency: line.currency,
+            amount: 0,
+            bills: [],
+          };
+          groups.set(key, group);
+        }
+        const amount = Number(line.amount);
+        group.bills.push({ lineId: line.id, billId: bill.id, billNumber: bill.billNumber, dueDate: bill.dueDate, amount });
+        group.amount = Math.round((group.amount + amount) * 100) / 100;
+        totalsByCurrency[line.currency] = Math.round(((totalsByCurrency[line.currency] ?? 0) + amount) * 100) / 100;
+      }
+      return { ...run, groups: Array.from(groups.values()), totalsByCurrency };
+    });
   }
 
-  // Recall Notice operations
-  async getRecallNotices(status?: string, productId?: string, managedBy?: string, limit = 50): Promise<(RecallNotice & { product: Product; manager: User })[]> {
-    const db = await getDb();
-    const conditions = [];
-    
-    if (status) conditions.push(eq(recallNotices.status, status as any));
-    if (productId) conditions.push(eq(recallNotices.productId, productId));
-    if (managedBy) conditions.push(eq(recallNotices.managedBy, managedBy));
-    
-    return await db
-      .select({
-        recall: recallNotices,
-        product: products,
-        manager: users,
-      })
-      .from(recallNotices)
-      .innerJoin(products, eq(recallNotices.productId, products.id))
-      .innerJoin(users, eq(recallNotices.managedBy, users.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .limit(limit)
-      .orderBy(desc(recallNotices.createdAt))
-      .then(rows => rows.map(row => ({
-        ...row.recall,
-        product: row.product,
-        manager: row.manager,
+  private async getLastBankReconciliation(tx: DbTx, bankAccountId: string): Promise<BankReconciliation | undefined> {
+    const [last] = await tx
+      .select()
+      .from(bankReconciliations)
+      .where(eq(bankReconciliations.bankAccountId, bankAccountId))
+      .orderBy(desc(bankReconciliations.periodEnd))
+      .limit(1);
+    return last;
+  }
+
+  // A statement line outside any closed reconciliation period, locked for the change
+  private async getEditableBankLine(tx: DbTx, lineId: string): Promise<{ line: BankStatementLine; currency: string }> {
+    const [row] = await tx
+      .select({ line: bankStatementLines, currency: bankAccounts.currency })
+      .from(bankStatementLines)
+      .innerJoin(bankAccounts, eq(bankStatementLines.bankAccountId, bankAccounts.id))
+      .where(eq(bankStatementLines.id, lineId))
+      .for('update', { of: bankStatementLines });
+    if (!row) {
+      throw new Error('Statement line not found');
+    }
+    if (row.line.reconciliationId) {
+      throw new Error('Statement line belongs to a closed reconciliation period');
+    }
+    return row;
+  }
+
+  /**
+   * Receipts (money in) or supplier payments (money out) of exactly the line's amount
+   * and currency, not yet matched to another line, dated within 60 days of it.
+   */
+  private async findBankLineCandidates(db: any, line: BankStatementLine, currency: string): Promise<BankLineMatchCandidate[]> {
+    const amount = Math.abs(Number(line.amount)).toFixed(2);
+    const windowStart = new Date(Date.parse(line.transactionDate) - 60 * 24 * 60 * 60 * 1000);
+    const windowEnd = new Date(Date.parse(line.transactionDate) + 60 * 24 * 60 * 60 * 1000);
+    const toCandidate = (candidate: Omit<BankLineMatchCandidate, 'referenceMatched' | 'daysApart'>): BankLineMatchCandidate => ({
+      ...candidate,
+      referenceMatched: referenceMatches(line, [candidate.documentNumber, candidate.reference]),
+      daysApart: daysApart(candidate.date, line.transactionDate),
+    });
+
+    if (Number(line.amount) > 0) {
+      const matchedReceipts = db
+        .select({ id: bankStatementLines.receiptId })
+        .from(bankStatementLines)
+        .where(sql`${bankStatementLines.receiptId} is not null`);
+      const rows = await db
+        .select({ receipt: receipts, customerName: customers.name })
+        .from(receipts)
+        .innerJoin(customers, eq(receipts.customerId, customers.id))
+        .where(and(
+          eq(receipts.amount, amount),
+          sql`coalesce(${receipts.currency}, 'USD') = ${currency}`,
+          notInArray(receipts.status, ['bounced', 'cancelled']),
+          notInArray(receipts.paymentMethod, ['cash', 'card', 'credit']),
+          gte(receipts.createdAt, windowStart),
+          lte(receipts.createdAt, windowEnd),
+          notInArray(receipts.id, matchedReceipts)
+        ));
+      return rankMatchCandidates(rows.map(({ receipt, customerName }: { receipt: Receipt; customerName: string }) => toCandidate({
+        kind: 'receipt',
+        id: receipt.id,
+        documentNumber: receipt.receiptNumber,
+        partyName: customerName,
+        amount: Number(receipt.amount),
+        currency,
+        date: (receipt.createdAt ?? new Date()).toISOString().split('T')[0],
+        reference: receipt.reference,
       })));
-  }
+    }
 
-  async getRecallNotice(id: string): Promise<(RecallNotice & { product: Product; manager: User }) | undefined> {
-    const db = await getDb();
-    const [row] = await db
+    const matchedPayments = db
+      .select({ id: bankStatementLines.supplierPaymentId })
+      .from(bankStatementLines)
+      .where(sql`${bankStatementLines.supplierPaymentId} is not null`);
+    const rows = await db
+      .select({ payment: supplierPayments, supplierName: suppliers.name })
+      .from(supplierPayments)
+      .innerJoin(suppliers, eq(supplierPayments.supplierId, suppliers.id))
+      .where(and(
+        eq(supplierPayments.amount, amount),
+        eq(supplierPayments.currency, currency),
+        eq(supplierPayments.status, 'completed'),
+        sql`${supplierPayments.paymentMethod} <> 'cash'`,
+        gte(supplierPayments.paymentDate, windowStart.toISOString().split('T')[0]),
+        lte(supplierPayments.paymentDate, windowEnd.toISOString().split('T')[0]),
+        notInArray(supplierPayments.id, matchedPayments)
+      ));
+    return rankMatchCandidates(rows.map(({ payment, supplierName }: { payment: SupplierPayment; supplierName: string }) => toCandidate({
+      kind: 'supplier_payment',
+      id: payment.id,
+      documentNumber: payment.paymentNumber,
+      partyName: supplierName,
+      amount: Number(payment.amount),
+      currency,
+      date: payment.paymentDate,
+      reference: payment.reference,
+    })));
+  }
+
+  // Highest dunning level reached by each customer's unpaid overdue invoices, and
+  // whether that level (or one below it) puts the customer on credit hold
+  private async getCustomerDunningStatus(db: any, customerId?: string): Promise<Map<string, { level: number; creditHold: boolean }>> {
+    const reached: { customerId: string; level: number }[] = await db
       .select({
-        recall: recallNotices,
-        product: products,
-        manager: users,
+        customerId: invoices.customerId,
+        level: sql<number>`max(${invoices.dunningLevel})`.mapWith(Number),
       })
-      .from(recallNotices)
-      .innerJoin(products, eq(recallNotices.productId, products.id))
-      .innerJoin(users, eq(recallNotices.managedBy, users.id))
-      .where(eq(recallNotices.id, id));
-    
-    return row ? {
-      ...row.recall,
-      product: row.product,
-      manager: row.manager,
-    } : undefined;
-  }
+      .from(invoices)
+      .where(and(
+        eq(invoices.status, 'overdue'),
+        sql`${invoices.totalAmount} > ${invoices.paidAmount}`,
+        sql`${invoices.dunningLevel} > 0`,
+        customerId ? eq(invoices.customerId, customerId) : undefined
+      ))
+      .groupBy(invoices.customerId);
+    if (reached.length === 0) return new Map();
 
-  async createRecallNotice(recallData: InsertRecallNotice): Promise<RecallNotice> {
-    const db = await getDb();
-    const [recall] = await db
-      .insert(recallNotices)
-      .values(recallData)
-      .returning();
-    return recall;
-  }
+    const holdLevels: { level: number }[] = await db
+      .select({ level: dunningLevels.level })
+      .from(dunningLevels)
+      .where(and(eq(dunningLevels.action, 'credit_hold'), eq(dunningLevels.isActive, true)));
+    const holdAt = holdLevels.length > 0 ? Math.min(...holdLevels.map(l => l.level)) : Infinity;
 
-  async updateRecallNotice(id: string, recallData: Partial<InsertRecallNotice>): Promise<RecallNotice> {
-    const db = await getDb();
-    const [recall] = await db
-      .update(recallNotices)
-      .set({ ...recallData, updatedAt: new Date() })
-      .where(eq(recallNotices.id, id))
-      .returning();
-    return recall;
+    return new Map(reached.map(row => [row.customerId, { level: row.level, creditHold: row.level >= holdAt }]));
   }
 
-  async initiateRecall(id: string): Promise<RecallNotice> {
-    const db = await getDb();
-    const [recall] = await db
-      .update(recallNotices)
-      .set({ 
-        status: 'in_progress',
-        updatedAt: new Date()
+  // Active reservation totals per batch, for joining against inventory
+  private activeReservationTotals(db: any) {
+    return db
+      .select({
+        inventoryId: stockReservations.inventoryId,
+        quantity: sql<number>`sum(${stockReservations.quantity})`.as('reserved_quantity'),
       })
-      .where(eq(recallNotices.id, id))
-      .returning();
-    return recall;
+      .from(stockReservations)
+      .where(eq(stockReservations.status, 'active'))
+      .groupBy(stockReservations.inventoryId)
+      .as('reserved');
   }
 
-  async completeRecall(id: string, recoveryPercentage: number): Promise<RecallNotice> {
-    const db = await getDb();
-    const [recall] = await db
-      .update(recallNotices)
-      .set({ 
-        status: 'completed',
-        recoveryPercentage: recoveryPercentage.toString(),
-        completionDate: new Date().toISOString().split('T')[0],
-        updatedAt: new Date()
-      })
-      .where(eq(recallNotices.id, id))
-      .returning();
-    return recall;
+  // Batches that may be promised to customers: not quarantined and not expired
+  private sellableBatchCondition() {
+    const today = new Date().toISOString().split('T')[0];
+    return and(
+      eq(inventory.isQuarantined, false),
+      or(isNull(inventory.expiryDate), gte(inventory.expiryDate, today))
+    )!;
   }
 
-  // Advanced Reporting Operations Implementation
-  
-  // Report Definition operations
-  async getReportDefinitions(category?: string, isPublic?: boolean, ownerId?: string, limit = 50): Promise<(ReportDefinition & { owner: User })[]> {
-    const db = await getDb();
-    const conditions = [eq(reportDefinitions.isActive, true)];
-    
-    if (category) conditions.push(eq(reportDefinitions.category, category));
-    if (isPublic !== undefined) conditions.push(eq(reportDefinitions.isPublic, isPublic));
-    if (ownerId) conditions.push(eq(reportDefinitions.ownerId, ownerId));
-    
-    return await db
+  private async getReservedQuantities(tx: DbTx, inventoryIds: string[]): Promise<Map<string, number>> {
+    if (inventoryIds.length === 0) return new Map();
+    const rows: Array<{ inventoryId: string; quantity: number }> = await tx
       .select({
-        reportDef: reportDefinitions,
-        owner: users,
-      })
-      .from(reportDefinitions)
-      .innerJoin(users, eq(reportDefinitions.ownerId, users.id))
-      .where(and(...conditions))
-      .limit(limit)
-      .orderBy(desc(reportDefinitions.createdAt))
-      .then(rows => rows.map(row => ({
-        ...row.reportDef,
-        owner: row.owner,
-      })));
-  }
+        inventoryId: stockReservations.inventoryId,
+        quantity: sql<number>`sum(${stockReservations.quantity})::int`,
+      })
+      .from(stockReservations)
+      .where(and(inArray(stockReservations.inventoryId, inventoryIds), eq(stockReservations.status, 'active')))
+      .groupBy(stockReservations.inventoryId);
+    return new Map(rows.map(row => [row.inventoryId, row.quantity]));
+  }
+  // Reserve up to `quantity` units for an order line, batch by batch (FEFO), skipping stock
+  // already promised to other orders. Returns the reservations made, which may fall short.
+  private async reserveStockFefo(
+    tx: DbTx,
+    item: Pick<SalesOrderItem, 'id' | 'orderId' | 'productId' | 'inventoryId'>,
+    quantity: number,
+    reservedBy?: string
+  ): Promise<StockReservation[]> {
+    // Lock candidate batches so concurrent reservations cannot promise the same stock
+    const batches = await tx
+      .select()
+      .from(inventory)
+      .where(and(
+        item.inventoryId ? eq(inventory.id, item.inventoryId) : eq(inventory.productId, item.productId),
+        this.sellableBatchCondition(),
+        gte(inventory.quantity, 1)
+      ))
+      .orderBy(asc(inventory.expiryDate))
+      .for('update');
+    const reservedByBatch = await this.getReservedQuantities(tx, batches.map((b: Inventory) => b.id));
 
-  async getReportDefinition(id: string): Promise<(ReportDefinition & { owner: User }) | undefined> {
-    const db = await getDb();
-    const [row] = await db
-      .select({
-        reportDef: reportDefinitions,
-        owner: users,
+    const reservations: StockReservation[] = [];
+    let remainingQty = quantity;
+    for (const batch of batches) {
+      if (remainingQty <= 0) break;
+
+      const availableQty = batch.quantity - (reservedByBatch.get(batch.id) ?? 0);
+      if (availableQty <= 0) continue;
+
+      const reserveQty = Math.min(availableQty, remainingQty);
+      const [reservation] = await tx
+        .insert(stockReservations)
+        .values({
+          salesOrderId: item.orderId,
+          salesOrderItemId: item.id,
+          productId: item.productId,
+          inventoryId: batch.id,
+          warehouseId: batch.warehouseId,
+          quantity: reserveQty,
+          reservedBy,
+        })
+        .returning();
+      reservations.push(reservation);
+      remainingQty -= reserveQty;
+    }
+
+    return reservations;
+  }
+
+  private async getReservationWarehouses(tx: DbTx, salesOrderId: string): Promise<string[]> {
+    const rows: Array<{ warehouseId: string }> = await tx
+      .selectDistinct({ warehouseId: stockReservations.warehouseId })
+      .from(stockReservations)
+      .where(and(eq(stockReservations.salesOrderId, salesOrderId), eq(stockReservations.status, 'active')));
+    return rows.map(row => row.warehouseId);
+  }
+
+  /**
+   * Ship order lines from one warehouse under a new delivery note. Reserved batches are
+   * picked first (earliest expiry first); quantity that was never reserved, on orders
+   * confirmed before reservations existed, is picked FEFO from unpromised stock.
+   * Without explicit lines, everything shippable from the warehouse goes.
+   * Returns null when there is nothing to ship. The caller must hold the order row lock.
+   */
+  private async shipFromWarehouse(
+    tx: DbTx,
+    order: SalesOrder,
+    warehouseId: string,
+    shipmentData: Omit<CreateShipmentRequest, 'warehouseId'>,
+    shippedBy: string
+  ): Promise<{ order: SalesOrder; shipment: Shipment; items: ShipmentItem[]; movements: StockMovement[] } | null> {
+    // The shipment and its cost of sales are posted on the ship date, which may be backdated
+    const shipDate = shipmentData.shipDate || new Date().toISOString().split('T')[0];
+    await this.assertPeriodOpen(tx, 'inventory', shipDate);
+    const orderItems: Array<{ item: SalesOrderItem; productName: string }> = await tx
+      .select({ item: salesOrderItems, productName: products.name })
+      .from(salesOrderItems)
+      .innerJoin(products, eq(salesOrderItems.productId, products.id))
+      .where(eq(salesOrderItems.orderId, order.id));
+    const activeReservations: StockReservation[] = await tx
+      .select()
+      .from(stockReservations)
+      .where(and(eq(stockReservations.salesOrderId, order.id), eq(stockReservations.status, 'active')));
+
+    const requested = new Map<string, number>();
+    for (const line of shipmentData.lines ?? []) {
+      if (!orderItems.some(({ item }) => item.id === line.salesOrderItemId)) {
+        throw new Error(`Line ${line.salesOrderItemId} does not belong to sales order ${order.orderNumber}`);
+      }
+      if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+        throw new Error('Shipment quantities must be positive whole numbers');
+      }
+      requested.set(line.salesOrderItemId, (requested.get(line.salesOrderItemId) ?? 0) + line.quantity);
+    }
+
+    const picks: Array<{ item: SalesOrderItem; batch: Inventory; quantity: number }> = [];
+    const shippedByItem = new Map<string, number>();
+
+    for (const { item, productName } of orderItems) {
+      const outstanding = item.quantity - item.quantityShipped;
+      const itemReservations = activeReservations.filter(r => r.salesOrderItemId === item.id);
+      const reservedHere = itemReservations.filter(r => r.warehouseId === warehouseId);
+      const reservedTotal = itemReservations.reduce((sum, r) => sum + r.quantity, 0);
+      const unreserved = Math.max(outstanding - reservedTotal - item.quantityBackordered, 0);
+
+      const quantity = shipmentData.lines
+        ? (requested.get(item.id) ?? 0)
+        : reservedHere.reduce((sum, r) => sum + r.quantity, 0) + unreserved;
+      if (quantity <= 0) continue;
+      if (quantity > outstanding) {
+        throw new Error(`Cannot ship ${quantity} units of ${productName}: only ${outstanding} outstanding`);
+      }
+
+      let remaining = quantity;
+
+      const reservedBatches: Inventory[] = reservedHere.length > 0
+        ? await tx
+            .select()
+            .from(inventory)
+            .where(inArray(inventory.id, reservedHere.map(r => r.inventoryId)))
+            .orderBy(asc(inventory.expiryDate))
+            .for('update')
+        : [];
+      for (const batch of reservedBatches) {
+        for (const reservation of reservedHere.filter(r => r.inventoryId === batch.id)) {
+          if (remaining <= 0) break;
+
+          if (batch.isQuarantined) {
+            throw new Error(`Reserved batch ${batch.batchNumber} has been quarantined. Cancel and re-confirm the order to reserve other stock.`);
+          }
+
+          const take = Math.min(reservation.quantity, remaining);
+          if (take < reservation.quantity) {
+            // Split the reservation: the picked part is consumed, the rest stays held for a later shipment
+            await tx
+              .update(stockReservations)
+              .set({ quantity: reservation.quantity - take, updatedAt: new Date() })
+              .where(eq(stockReservations.id, reservation.id));
+            await tx
+              .insert(stockReservations)
+              .values({
+                salesOrderId: reservation.salesOrderId,
+                salesOrderItemId: reservation.salesOrderItemId,
+                productId: reservation.productId,
+                inventoryId: reservation.inventoryId,
+                warehouseId: reservation.warehouseId,
+                quantity: take,
+                status: 'consumed',
+                reservedBy: reservation.reservedBy,
+                consumedAt: new Date(),
+              });
+          } else {
+            await tx
+              .update(stockReservations)
+              .set({ status: 'consumed', consumedAt: new Date(), updatedAt: new Date() })
+              .where(eq(stockReservations.id, reservation.id));
+          }
+
+          picks.push({ item, batch, quantity: take });
+          remaining -= take;
+        }
+      }
+
+      if (remaining > 0 && unreserved > 0) {
+        let unreservedRemaining = Math.min(remaining, unreserved);
+        const batches: Inventory[] = await tx
+          .select()
+          .from(inventory)
+          .where(and(
+            eq(inventory.productId, item.productId),
+            eq(inventory.warehouseId, warehouseId),
+            this.sellableBatchCondition(),
+            gte(inventory.quantity, 1)
+          ))
+          .orderBy(asc(inventory.expiryDate))
+          .for('update');
+        const reservedByBatch = await this.getReservedQuantities(tx, batches.map(b => b.id));
+
+        for (const batch of batches) {
+          if (unreservedRemaining <= 0) break;
+
+          const alreadyPicked = picks
+            .filter(p => p.batch.id === batch.id)
+            .reduce((sum, p) => sum + p.quantity, 0);
+          const take = Math.min(batch.quantity - alreadyPicked - (reservedByBatch.get(batch.id) ?? 0), unreservedRemaining);
+          if (take <= 0) continue;
+
+          picks.push({ item, batch, quantity: take });
+          unreservedRemaining -= take;
+          remaining -= take;
+        }
+      }
+
+      if (remaining > 0 && shipmentData.lines) {
+        throw new Error(`Only ${quantity - remaining} of ${quantity} units of ${productName} can be shipped from this warehouse`);
+      }
+      if (quantity - remaining > 0) {
+        shippedByItem.set(item.id, quantity - remaining);
+      }
+    }
+
+    if (picks.length === 0) return null;
+
+    const shipmentNumber = await this.allocateDocumentNumber(tx, 'delivery_note');
+    const [shipment] = await tx
+      .insert(shipments)
+      .values({
+        shipmentNumber,
+        salesOrderId: order.id,
+        warehouseId,
+        shipDate,
+        carrier: shipmentData.carrier,
+        trackingNumber: shipmentData.trackingNumber,
+        notes: shipmentData.notes,
+        shippedBy,
       })
-      .from(reportDefinitions)
-      .innerJoin(users, eq(reportDefinitions.ownerId, users.id))
-      .where(eq(reportDefinitions.id, id));
-    
-    return row ? {
-      ...row.reportDef,
-      owner: row.owner,
-    } : undefined;
-  }
+      .returning();
+
+    const items: ShipmentItem[] = [];
+    const movements: StockMovement[] = [];
+    const deducted = new Map<string, number>();
+    for (const pick of picks) {
+      const alreadyDeducted = deducted.get(pick.batch.id) ?? 0;
+      if (pick.batch.quantity - alreadyDeducted < pick.quantity) {
+        throw new Error(`Batch ${pick.batch.batchNumber} holds ${pick.batch.quantity - alreadyDeducted} units, ${pick.quantity} to ship`);
+      }
+      deducted.set(pick.batch.id, alreadyDeducted + pick.quantity);
+
+      await tx
+        .update(inventory)
+        .set({ quantity: pick.batch.quantity - alreadyDeducted - pick.quantity, updatedAt: new Date() })
+        .where(eq(inventory.id, pick.batch.id));
+
+      const movement = await this.insertStockMovement(tx, {
+        productId: pick.item.productId,
+        warehouseId,
+        inventoryId: pick.batch.id,
+        movementType: 'out',
+        quantity: -pick.quantity,
+        reference: order.orderNumber,
+        notes: `Delivery note ${shipmentNumber} by ${shippedBy}`,
+        userId: shippedBy
+      });
+      movements.push(movement);
+
+      const [shipmentItem] = await tx
+        .insert(shipmentItems)
+        .values({
+          shipmentId: shipment.id,
+          salesOrderItemId: pick.item.id,
+          productId: pick.item.productId,
+          inventoryId: pick.batch.id,
+          batchNumber: pick.batch.batchNumber,
+          expiryDate: pick.batch.expiryDate,
+          quantity: pick.quantity,
+          unitPrice: pick.item.unitPrice,
+        })
+        .returning();
+      items.push(shipmentItem);
+    }
 
-  async createReportDefinition(reportDefData: InsertReportDefinition): Promise<ReportDefinition> {
-    const db = await getDb();
-    const [reportDef] = await db
-      .insert(reportDefinitions)
-      .values(reportDefData)
-      .returning();
-    return reportDef;
-  }
+    await this.postCostOfSalesJournal(tx, {
+      entryDate: shipment.shipDate,
+      description: `Cost of goods shipped on ${shipmentNumber} for ${order.orderNumber}`,
+      sourceId: shipment.id,
+      sourceReference: shipmentNumber,
+      postedBy: shippedBy,
+    }, movements);
 
-  async updateReportDefinition(id: string, reportDefData: Partial<InsertReportDefinition>): Promise<ReportDefinition> {
-    const db = await getDb();
-    const [reportDef] = await db
-      .update(reportDefinitions)
-      .set({ ...reportDefData, updatedAt: new Date() })
-      .where(eq(reportDefinitions.id, id))
+    for (const [itemId, shippedQty] of Array.from(shippedByItem)) {
+      const { item } = orderItems.find(o => o.item.id === itemId)!;
+      await tx
+        .update(salesOrderItems)
+        .set({ quantityShipped: item.quantityShipped + shippedQty })
+        .where(eq(salesOrderItems.id, itemId));
+    }
+
+    const fullyShipped = orderItems.every(({ item }) => item.quantityShipped + (shippedByItem.get(item.id) ?? 0) >= item.quantity);
+    const [updatedOrder] = await tx
+      .update(salesOrders)
+      .set({
+        status: fullyShipped ? 'shipped' : 'partially_shipped',
+        deliveryDate: fullyShipped ? shipment.shipDate : order.deliveryDate,
+        updatedAt: new Date()
+      })
+      .where(eq(salesOrders.id, order.id))
       .returning();
-    return reportDef;
-  }
 
-  async deleteReportDefinition(id: string): Promise<void> {
-    const db = await getDb();
-    await db
-      .update(reportDefinitions)
-      .set({ isActive: false })
-      .where(eq(reportDefinitions.id, id));
-  }
+    return { order: updatedOrder, shipment, items, movements };
+  }
+
+  /**
+   * The batches a landed cost covers and each charge's share of them in the base currency,
+   * split between the units still in stock and those already sold. Purchase orders stand
+   * for the receipts posted against them so far. Allocating locks the batches' stock rows
+   * so a sale or transfer cannot move units between reading and revaluing them.
+   */
+  private async landedCostShares(tx: DbTx, landedCost: LandedCost, charges: LandedCostCharge[], options: { forUpdate?: boolean } = {}): Promise<{
+    lines: Array<{
+      goodsReceiptId: string;
+      grNumber: string;
+      warehouseId: string;
+      inventoryId: string;
+      productId: string;
+      quantity: number;
+      holders: Array<{ id: string; warehouseId: string; quantity: number; costPerUnit: string | null }>;
+    }>;
+    entries: Array<LandedCostEntry & { lineIndex: number; chargeId: string }>;
+  }> {
+    const sources: LandedCostSource[] = await tx.select().from(landedCostSources).where(eq(landedCostSources.landedCostId, landedCost.id));
+    const orderIds = sources.map(source => source.purchaseOrderId).filter((id): id is string => !!id);
+    const receiptIds = sources.map(source => source.goodsReceiptId).filter((id): id is string => !!id);
+    if (orderIds.length === 0 && receiptIds.length === 0) {
+      throw new Error('The landed cost is not linked to any purchase order or goods receipt');
+    }
 
-  // Saved Report operations
-  async getSavedReports(userId?: string, reportDefinitionId?: string, limit = 50): Promise<(SavedReport & { reportDefinition: ReportDefinition; user: User })[]> {
-    const db = await getDb();
-    const conditions = [eq(savedReports.isActive, true)];
-    
-    if (userId) conditions.push(eq(savedReports.userId, userId));
-    if (reportDefinitionId) conditions.push(eq(savedReports.reportDefinitionId, reportDefinitionId));
-    
-    return await db
+    const receiptRows: GoodsReceipt[] = await tx
+      .select()
+      .from(goodsReceipts)
+      .where(or(
+        receiptIds.length > 0 ? inArray(goodsReceipts.id, receiptIds) : undefined,
+        orderIds.length > 0 ? inArray(goodsReceipts.poId, orderIds) : undefined
+      ));
+    const unposted = receiptRows.find(receipt => receipt.status !== 'posted' && receiptIds.includes(receipt.id));
+    if (unposted) {
+      throw new Error(`Goods receipt ${unposted.grNumber} has not been posted`);
+    }
+    const posted = receiptRows.filter(receipt => receipt.status === 'posted');
+    if (posted.length === 0) {
+      throw new Error('Nothing has been received yet for the linked purchase orders');
+    }
+    const receiptByNumber = new Map(posted.map(receipt => [receipt.grNumber, receipt]));
+
+    // What each receipt put into stock, from its lines on the stock ledger
+    const received = await tx
       .select({
-        savedReport: savedReports,
-        reportDefinition: reportDefinitions,
-        user: users,
+        movement: stockMovements,
+        sku: products.sku,
+        productName: products.name,
+        unitWeightKg: products.unitWeightKg,
+        batchNumber: inventory.batchNumber,
+        costPerUnit: inventory.costPerUnit,
       })
-      .from(savedReports)
-      .innerJoin(reportDefinitions, eq(savedReports.reportDefinitionId, reportDefinitions.id))
-      .innerJoin(users, eq(savedReports.userId, users.id))
-      .where(and(...conditions))
-      .limit(limit)
-      .orderBy(desc(savedReports.createdAt))
-      .then(rows => rows.map(row => ({
-        ...row.savedReport,
-        reportDefinition: row.reportDefinition,
-        user: row.user,
+      .from(stockMovements)
+      .innerJoin(products, eq(stockMovements.productId, products.id))
+      .innerJoin(inventory, eq(stockMovements.inventoryId, inventory.id))
+      .where(and(
+        inArray(stockMovements.reference, Array.from(receiptByNumber.keys())),
+        eq(stockMovements.movementType, 'in')
+      ))
+      .orderBy(asc(stockMovements.createdAt));
+    if (received.length === 0) {
+      throw new Error('The linked goods receipts have no stock movements to allocate over');
+    }
+
+    const lines = [];
+    const bases: number[] = [];
+    const valued: Array<{ sku: string; productName: string; receivedValue: number }> = [];
+    for (const row of received as Array<{ movement: StockMovement; sku: string; productName: string; unitWeightKg: string | null; batchNumber: string | null; costPerUnit: string | null }>) {
+      const receipt = receiptByNumber.get(row.movement.reference!)!;
+      const quantity = row.movement.quantity;
+      // Receipts from before costing are valued at their batch's cost
+      const receivedValue = row.movement.totalCost !== null
+        ? Number(row.movement.totalCost)
+        : Math.round(quantity * Number(row.costPerUnit ?? 0) * 100) / 100;
+      if (landedCost.allocationMethod === 'weight' && !(Number(row.unitWeightKg) > 0)) {
+        throw new Error(`Product ${row.sku} has no unit weight to allocate by`);
+      }
+
+      // The batch's units still in stock, in the receiving warehouse or transferred on
+      const holderQuery = tx
+        .select({ id: inventory.id, warehouseId: inventory.warehouseId, quantity: inventory.quantity, costPerUnit: inventory.costPerUnit })
+        .from(inventory)
+        .where(and(
+          eq(inventory.productId, row.movement.productId),
+          row.batchNumber ? eq(inventory.batchNumber, row.batchNumber) : eq(inventory.id, row.movement.inventoryId!),
+          gt(inventory.quantity, 0)
+        ))
+        .orderBy(asc(inventory.id));
+      const holders: Array<{ id: string; warehouseId: string; quantity: number; costPerUnit: string | null }> =
+        options.forUpdate ? await holderQuery.for('update') : await holderQuery;
+
+      lines.push({
+        goodsReceiptId: receipt.id,
+        grNumber: receipt.grNumber,
+        warehouseId: receipt.warehouseId,
+        inventoryId: row.movement.inventoryId!,
+        productId: row.movement.productId,
+        quantity,
+        holders,
+      });
+      bases.push(landedCost.allocationMethod === 'value' ? receivedValue
+        : landedCost.allocationMethod === 'quantity' ? quantity
+        : quantity * Number(row.unitWeightKg));
+      valued.push({ sku: row.sku, productName: row.productName, receivedValue });
+    }
+    if (bases.every(basis => basis <= 0)) {
+      throw new Error(`The received goods have no ${landedCost.allocationMethod} to allocate by`);
+    }
+
+    const fxRate = Number(landedCost.fxRate) || 1;
+    const entries: Array<LandedCostEntry & { lineIndex: number; chargeId: string }> = [];
+    for (const charge of charges) {
+      const shares = allocateCents(Math.round(toBaseAmount(Number(charge.amount), fxRate) * 100), bases);
+      for (let index = 0; index < lines.length; index++) {
+        const line = lines[index];
+        const onHand = Math.min(line.quantity, line.holders.reduce((sum, holder) => sum + holder.quantity, 0));
+        const soldCents = shares[index] - Math.round(shares[index] * onHand / line.quantity);
+        entries.push({
+          lineIndex: index,
+          chargeId: charge.id,
+          lineKey: `${line.goodsReceiptId}|${line.inventoryId}`,
+          productId: line.productId,
+          sku: valued[index].sku,
+          productName: valued[index].productName,
+          quantity: line.quantity,
+          receivedValue: valued[index].receivedValue,
+          chargeType: charge.chargeType,
+          amount: shares[index] / 100,
+          costOfSalesAmount: soldCents / 100,
+        });
+      }
+    }
+    return { lines, entries };
+  }
+
+  // Charges, sources and the per-product breakdown: as allocated, or as allocating a draft would give
+  private async landedCostDetail(tx: DbTx, landedCost: LandedCost): Promise<LandedCostDetail> {
+    const baseCurrency = await this.getSettingValue('base_currency');
+    const chargeRows: Array<{ charge: LandedCostCharge; supplierName: string | null }> = await tx
+      .select({ charge: landedCostCharges, supplierName: suppliers.name })
+      .from(landedCostCharges)
+      .leftJoin(suppliers, eq(landedCostCharges.supplierId, suppliers.id))
+      .where(eq(landedCostCharges.landedCostId, landedCost.id))
+      .orderBy(asc(landedCostCharges.createdAt));
+    const sourceRows: Array<{ source: LandedCostSource; orderNumber: string | null; grNumber: string | null }> = await tx
+      .select({ source: landedCostSources, orderNumber: purchaseOrders.orderNumber, grNumber: goodsReceipts.grNumber })
+      .from(landedCostSources)
+      .leftJoin(purchaseOrders, eq(landedCostSources.purchaseOrderId, purchaseOrders.id))
+      .leftJoin(goodsReceipts, eq(landedCostSources.goodsReceiptId, goodsReceipts.id))
+      .where(eq(landedCostSources.landedCostId, landedCost.id));
+    const charges = chargeRows.map(row => row.charge);
+
+    let breakdown: LandedCostBreakdownLine[] = [];
+    let allocationError: string | null = null;
+    if (landedCost.status === 'allocated') {
+      const allocated = await tx
+        .select({ allocation: landedCostAllocations, chargeType: landedCostCharges.chargeType, sku: products.sku, productName: products.name })
+        .from(landedCostAllocations)
+        .innerJoin(landedCostCharges, eq(landedCostAllocations.chargeId, landedCostCharges.id))
+        .innerJoin(products, eq(landedCostAllocations.productId, products.id))
+        .where(eq(landedCostAllocations.landedCostId, landedCost.id));
+      breakdown = landedCostBreakdown(allocated.map(({ allocation, chargeType, sku, productName }: { allocation: LandedCostAllocation; chargeType: LandedCostCharge['chargeType']; sku: string; productName: string }) => ({
+        lineKey: `${allocation.goodsReceiptId}|${allocation.inventoryId}`,
+        productId: allocation.productId,
+        sku,
+        productName,
+        quantity: allocation.quantity,
+        receivedValue: Number(allocation.receivedValue),
+        chargeType,
+        amount: Number(allocation.amount),
+        costOfSalesAmount: Number(allocation.costOfSalesAmount),
       })));
-  }
+    } else if (landedCost.status === 'draft') {
+      try {
+        breakdown = landedCostBreakdown((await this.landedCostShares(tx, landedCost, charges)).entries);
+      } catch (error: any) {
+        allocationError = error.message;
+      }
+    }
 
-  async getSavedReport(id: string): Promise<(SavedReport & { reportDefinition: ReportDefinition; user: User }) | undefined> {
-    const db = await getDb();
-    const [row] = await db
-      .select({
-        savedReport: savedReports,
-        reportDefinition: reportDefinitions,
-        user: users,
-      })
-      .from(savedReports)
-      .innerJoin(reportDefinitions, eq(savedReports.reportDefinitionId, reportDefinitions.id))
-      .innerJoin(users, eq(savedReports.userId, users.id))
-      .where(eq(savedReports.id, id));
-    
-    return row ? {
-      ...row.savedReport,
-      reportDefinition: row.reportDefinition,
-      user: row.user,
-    } : undefined;
+    return {
+      ...landedCost,
+      charges: chargeRows.map(row => ({ ...row.charge, supplierName: row.supplierName })),
+      sources: sourceRows.map(row => ({ ...row.source, reference: row.orderNumber ?? row.grNumber ?? '' })),
+      baseCurrency,
+      breakdown,
+      allocationError,
+    };
   }
 
-  async createSavedReport(savedReportData: InsertSavedReport): Promise<SavedReport> {
-    const db = await getDb();
-    const [savedReport] = await db
-      .insert(savedReports)
-      .values(savedReportData)
-      .returning();
-    return savedReport;
+  private async stockCountDetail(tx: DbTx, count: StockCount): Promise<StockCountDetail> {
+    const [warehouse] = await tx.select({ name: warehouses.name }).from(warehouses).where(eq(warehouses.id, count.warehouseId));
+    const rows = await tx
+      .select({ line: stockCountLines, sku: products.sku, productName: products.name })
+      .from(stockCountLines)
+      .innerJoin(products, eq(stockCountLines.productId, products.id))
+      .where(eq(stockCountLines.stockCountId, count.id))
+      .orderBy(asc(products.name), asc(stockCountLines.expiryDate));
+
+    const hideBookQuantity = count.isBlind && count.status === 'counting';
+    return {
+      ...count,
+      warehouseName: warehouse?.name ?? '',
+      baseCurrency: await this.getSettingValue('base_currency'),
+      approvalThreshold: await this.getNumericSetting('stock_count_approval_threshold'),
+      lines: rows.map(({ line, sku, productName }: { line: StockCountLine; sku: string; productName: string }) => ({
+        ...line,
+        bookQuantity: hideBookQuantity ? null : line.bookQuantity,
+        sku,
+        productName,
+      })),
+    };
   }
 
-  async updateSavedReport(id: string, savedReportData: Partial<InsertSavedReport>): Promise<SavedReport> {
-    const db = await getDb();
-    const [savedReport] = await db
-      .update(savedReports)
-      .set({ ...savedReportData, updatedAt: new Date() })
-      .where(eq(savedReports.id, id))
+  /**
+   * Write a stock movement with its cost. Stock arriving at a known cost (receipts,
+   * transfers, returns) is given its unit cost; otherwise the product's costing method
+   * decides. Unless told otherwise, everything but transfers counts as cost of sales.
+   */
+  private async insertStockMovement(
+    tx: DbTx,
+    movement: InsertStockMovement,
+    costing: { unitCost?: number; costOfSales?: boolean } = {}
+  ): Promise<StockMovement> {
+    const unitCost = costing.unitCost ?? await this.stockMovementUnitCost(tx, movement);
+    const costOfSales = costing.costOfSales ?? !TRANSFER_MOVEMENT_TYPES.includes(movement.movementType);
+    const [inserted] = await tx
+      .insert(stockMovements)
+      .values({ ...movement, ...movementCostFields(movement.quantity, unitCost, costOfSales) })
       .returning();
-    return savedReport;
+    return inserted;
   }
 
-  async deleteSavedReport(id: string): Promise<void> {
-    const db = await getDb();
-    await db
-      .update(savedReports)
-      .set({ isActive: false })
-      .where(eq(savedReports.id, id));
-  }
+  /**
+   * FIFO products: the cost of the batch moved, or of the oldest batch in stock at the
+   * warehouse when no batch is named. Weighted-average products: the moving average of
+   * the costed stock ledger, falling back to the batch while the ledger holds nothing.
+   */
+  private async stockMovementUnitCost(tx: DbTx, movement: Pick<InsertStockMovement, 'productId' | 'warehouseId' | 'inventoryId'>): Promise<number> {
+    const [product] = await tx
+      .select({ costingMethod: products.costingMethod })
+      .from(products)
+      .where(eq(products.id, movement.productId));
 
-  // Report Export operations
-  async getReportExports(generatedBy?: string, status?: string, limit = 50): Promise<(ReportExport & { generator: User })[]> {
-    const db = await getDb();
-    const conditions = [];
-    
-    if (generatedBy) conditions.push(eq(reportExports.generatedBy, generatedBy));
-    if (status) conditions.push(eq(reportExports.status, status as any));
-    
-    return await db
-      .select({
-        reportExport: reportExports,
-        generator: users,
-      })
-      .from(reportExports)
-      .innerJoin(users, eq(reportExports.generatedBy, users.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .limit(limit)
-      .orderBy(desc(reportExports.createdAt))
-      .then(rows => rows.map(row => ({
-        ...row.reportExport,
-        generator: row.generator,
-      })));
+    if (product?.costingMethod === 'weighted_average') {
+      await tx.execute(sql`select pg_advisory_xact_lock(${COSTING_LOCK_KEY}, hashtext(${movement.productId}))`);
+      const [balance] = await tx
+        .select({
+          quantity: sql<string>`coalesce(sum(${stockMovements.quantity}), 0)`,
+          value: sql<string>`coalesce(sum(${stockMovements.totalCost}), 0)`,
+        })
+        .from(stockMovements)
+        .where(and(eq(stockMovements.productId, movement.productId), isNotNull(stockMovements.totalCost)));
+      const average = movingAverageCost(Number(balance.quantity), Number(balance.value));
+      if (average !== null) {
+        return average;
+      }
+    }
+
+    const [batch] = movement.inventoryId
+      ? await tx.select({ costPerUnit: inventory.costPerUnit }).from(inventory).where(eq(inventory.id, movement.inventoryId))
+      : await tx
+          .select({ costPerUnit: inventory.costPerUnit })
+          .from(inventory)
+          .where(and(
+            eq(inventory.productId, movement.productId),
+            eq(inventory.warehouseId, movement.warehouseId),
+            gt(inventory.quantity, 0),
+            isNotNull(inventory.costPerUnit)
+          ))
+          .orderBy(asc(inventory.createdAt))
+          .limit(1);
+    return Number(batch?.costPerUnit ?? 0);
   }
 
-  async getReportExport(id: string): Promise<(ReportExport & { generator: User }) | undefined> {
-    const db = await getDb();
-    const [row] = await db
+  // Average cost of the units a sale took out of stock; null when they were never costed
+  private async soldUnitCost(tx: DbTx, reference: string, productId: string): Promise<number | null> {
+    const [sold] = await tx
       .select({
-        reportExport: reportExports,
-        generator: users,
+        quantity: sql<string>`coalesce(-sum(${stockMovements.quantity}), 0)`,
+        cost: sql<string>`coalesce(sum(${stockMovements.costOfSales}), 0)`,
       })
-      .from(reportExports)
-      .innerJoin(users, eq(reportExports.generatedBy, users.id))
-      .where(eq(reportExports.id, id));
-    
-    return row ? {
-      ...row.reportExport,
-      generator: row.generator,
-    } : undefined;
+      .from(stockMovements)
+      .where(and(
+        eq(stockMovements.reference, reference),
+        eq(stockMovements.productId, productId),
+        eq(stockMovements.movementType, 'out'),
+        isNotNull(stockMovements.costOfSales)
+      ));
+    return movingAverageCost(Number(sold.quantity), Number(sold.cost));
+  }
+
+  // Cost of sales against inventory; stock coming back (a negative cost) reverses it
+  private async postCostOfSalesJournal(
+    tx: DbTx,
+    header: { entryDate: string; description: string; sourceId: string; sourceReference?: string | null; postedBy?: string | null },
+    movements: StockMovement[]
+  ): Promise<JournalEntry | null> {
+    const cost = movements.reduce((sum, movement) => sum + Math.round(Number(movement.costOfSales ?? 0) * 100), 0) / 100;
+    return await this.postAutomaticJournal(tx, { ...header, sourceType: 'cost_of_sales' }, [
+      { account: 'gl_account_cost_of_sales', debit: cost },
+      { account: 'gl_account_inventory', credit: cost },
+    ]);
   }
 
-  async createReportExport(reportExportData: InsertReportExport): Promise<ReportExport> {
-    const db = await getDb();
-    const [reportExport] = await db
-      .insert(reportExports)
-      .values(reportExportData)
-      .returning();
-    return reportExport;
-  }
+  /**
+   * Refuse a write dated in a closed month of the module. Finance and admins may still
+   * post to a soft-closed month; a hard-closed one takes nothing until it is reopened.
+   */
+  private async assertPeriodOpen(tx: DbTx, module: AccountingModule, date: string | Date | null | undefined): Promise<void> {
+    if (!date) {
+      return;
+    }
+    const period = (typeof date === 'string' ? date : date.toISOString()).slice(0, 7);
+    const [closed] = await tx
+      .select({ status: accountingPeriods.status })
+      .from(accountingPeriods)
+      .where(and(eq(accountingPeriods.module, module), eq(accountingPeriods.period, period), ne(accountingPeriods.status, 'open')));
+    if (!closed) {
+      return;
+    }
 
-  async updateReportExport(id: string, reportExportData: Partial<InsertReportExport>): Promise<ReportExport> {
-    const db = await getDb();
-    const [reportExport] = await db
-      .update(reportExports)
-      .set(reportExportData)
-      .where(eq(reportExports.id, id))
+    if (closed.status === 'soft_closed') {
+      const userId = currentAuditUserId();
+      const [user] = userId ? await tx.select({ role: users.role }).from(users).where(eq(users.id, userId)) : [];
+      if (user?.role === 'admin' || user?.role === 'finance') {
+        return;
+      }
+      throw new Error(`The ${module} period ${period} is soft-closed; only finance can post to it`);
+    }
+    throw new Error(`The ${module} period ${period} is closed; an administrator must reopen it first`);
+  }
+
+  /**
+   * Sign an issued document as the next link of its series' hash chain. The series is
+   * locked so two documents issued at once cannot both link to the same predecessor.
+   */
+  private async signFiscalDocument(
+    tx: DbTx,
+    document: { documentType: FiscalDocumentType; documentId: string; documentNumber: string; documentDate: string; grossTotal: number }
+  ): Promise<FiscalSignature> {
+    const documentNumber = fiscalDocumentNumber(FISCAL_DOCUMENT_TYPES[document.documentType], document.documentNumber);
+    if (!documentNumber) {
+      throw new Error(`${document.documentNumber} cannot be signed: fiscal document numbers must end in their sequence number`);
+    }
+    const series = fiscalSeries(documentNumber);
+    await tx.execute(sql`select pg_advisory_xact_lock(${FISCAL_CHAIN_LOCK_KEY}, hashtext(${series}))`);
+    const [previous]: FiscalSignature[] = await tx
+      .select()
+      .from(fiscalSignatures)
+      .where(eq(fiscalSignatures.series, series))
+      .orderBy(desc(fiscalSignatures.chainPosition))
+      .limit(1);
+
+    // The entry time is signed, and reported in the SAF-T file, to the second
+    const fields = {
+      documentDate: document.documentDate,
+      systemEntryDate: new Date(Math.floor(Date.now() / 1000) * 1000),
+      documentNumber,
+      grossTotal: Math.abs(document.grossTotal).toFixed(2),
+    };
+    const { hash, keyVersion } = signFiscalMessage(signingMessage(fields, previous?.hash ?? null));
+    const [signature] = await tx
+      .insert(fiscalSignatures)
+      .values({
+        ...fields,
+        series,
+        chainPosition: (previous?.chainPosition ?? 0) + 1,
+        documentType: document.documentType,
+        documentId: document.documentId,
+        previousHash: previous?.hash ?? null,
+        hash,
+        keyVersion,
+      })
       .returning();
-    return reportExport;
+    return signature;
+  }
+
+  // Invoices are signed on their gross total in the base currency, as the SAF-T file reports it
+  private async signInvoice(tx: DbTx, invoice: Invoice): Promise<FiscalSignature> {
+    const totalAmount = Number(invoice.totalAmount || 0);
+    return await this.signFiscalDocument(tx, {
+      documentType: totalAmount < 0 || invoice.creditedLines ? 'credit_note' : 'invoice',
+      documentId: invoice.id,
+      documentNumber: invoice.invoiceNumber,
+      documentDate: invoice.invoiceDate,
+      grossTotal: toBaseAmount(Math.abs(totalAmount), Number(invoice.fxRate) || 1),
+    });
   }
 
-  async markReportExportComplete(id: string, filePath: string, fileSize: number): Promise<ReportExport> {
-    const db = await getDb();
-    const [reportExport] = await db
-      .update(reportExports)
-      .set({ 
-        status: 'completed',
-        filePath,
-        fileSize,
-        generatedAt: new Date()
+  /**
+   * Issue the next number of a document sequence. Must run inside the transaction that
+   * inserts the document: the counter row stays locked until commit, and a rollback
+   * releases the number, so issued numbers are consecutive without gaps.
+   */
+  private async allocateDocumentNumber(
+    tx: DbTx,
+    documentType: DocumentType,
+    options: { series?: string; terminalId?: string; date?: Date } = {}
+  ): Promise<string> {
+    const date = options.date ?? new Date();
+    const sequence = options.terminalId
+      ? await this.getTerminalDocumentSequence(tx, documentType, options.terminalId)
+      : await this.ensureDocumentSequence(tx, documentType, options.series ?? DEFAULT_DOCUMENT_SERIES);
+
+    if (!sequence.isActive) {
+      throw new Error(`Document series ${sequence.series} for ${documentType} is inactive`);
+    }
+
+    const year = sequence.resetPolicy === 'yearly' ? date.getFullYear() : 0;
+    const [counter] = await tx
+      .insert(documentSequenceCounters)
+      .values({ sequenceId: sequence.id, year, lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: [documentSequenceCounters.sequenceId, documentSequenceCounters.year],
+        set: { lastNumber: sql`document_sequence_counters.last_number + 1`, updatedAt: new Date() },
       })
-      .where(eq(reportExports.id, id))
       .returning();
-    return reportExport;
+
+    const documentNumber = formatDocumentNumber(sequence.pattern, {
+      prefix: await this.getSettingValue(DOCUMENT_PREFIX_SETTINGS[documentType]),
+      series: sequence.series,
+      year: date.getFullYear(),
+      sequenceNumber: counter.lastNumber,
+    });
+
+    await tx.insert(issuedDocumentNumbers).values({
+      sequenceId: sequence.id,
+      documentType,
+      year,
+      sequenceNumber: counter.lastNumber,
+      documentNumber,
+    });
+
+    return documentNumber;
   }
 
-  async markReportExportFailed(id: string, errorMessage: string): Promise<ReportExport> {
-    const db = await getDb();
-    const [reportExport] = await db
-      .update(reportExports)
-      .set({ 
-        status: 'failed',
-        errorMessage
+  private async getTerminalDocumentSequence(tx: DbTx, documentType: DocumentType, terminalId: string): Promise<DocumentSequence> {
+    const [sequence] = await tx
+      .select()
+      .from(documentSequences)
+      .where(and(eq(documentSequences.documentType, documentType), eq(documentSequences.terminalId, terminalId)))
+      .limit(1);
+    if (sequence) return sequence;
+
+    const [terminal] = await tx.select().from(posTerminals).where(eq(posTerminals.id, terminalId));
+    if (!terminal) throw new Error('POS terminal not found');
+
+    const series = terminal.terminalNumber.replace(/[^A-Za-z0-9-]/g, '').toUpperCase() || DEFAULT_DOCUMENT_SERIES;
+    return await this.ensureDocumentSequence(tx, documentType, series, terminal.id);
+  }
+
+  // Sequences are created on first use with the default pattern; admins can adjust them afterwards
+  private async ensureDocumentSequence(tx: DbTx, documentType: DocumentType, series: string, terminalId?: string): Promise<DocumentSequence> {
+    const findSequence = async (): Promise<DocumentSequence | undefined> => {
+      const [sequence] = await tx
+        .select()
+        .from(documentSequences)
+        .where(and(eq(documentSequences.documentType, documentType), eq(documentSequences.series, series)));
+      return sequence;
+    };
+
+    const existing = await findSequence();
+    if (existing) return existing;
+
+    const [created] = await tx
+      .insert(documentSequences)
+      .values({
+        documentType,
+        series,
+        terminalId: terminalId ?? null,
+        pattern: DEFAULT_DOCUMENT_PATTERN,
+        description: terminalId ? `POS terminal ${series}` : null,
       })
-      .where(eq(reportExports.id, id))
+      .onConflictDoNothing()
       .returning();
-    return reportExport;
+    if (created) return created;
+
+    // Created concurrently by another transaction
+    const concurrent = await findSequence();
+    if (!concurrent) throw new Error(`Could not create document sequence for ${documentType}`);
+    return concurrent;
   }
 
   // Missing interface method stubs - to be implemented as needed
@@ -7536,6 +14797,19 @@ export class DatabaseStorage implements IStorage {
   async deleteGoodsReceipt(id: string): Promise<void> {
     const db = await getDb();
     await db.transaction(async (tx) => {
+      const [receipt] = await tx
+        .select({ status: goodsReceipts.status, receivedAt: goodsReceipts.receivedAt })
+        .from(goodsReceipts)
+        .where(eq(goodsReceipts.id, id))
+        .for('update');
+      if (!receipt) {
+        throw new Error('Goods receipt not found');
+      }
+      // A posted receipt has already moved stock into the warehouse
+      if (receipt.status && receipt.status !== 'draft') {
+        throw new Error(`Only draft goods receipts can be deleted (receipt is ${receipt.status})`);
+      }
+      await this.assertPeriodOpen(tx, 'purchases', receipt.receivedAt);
       // Delete goods receipt items first
       await tx.delete(goodsReceiptItems).where(eq(goodsReceiptItems.grId, id));
       // Then delete the goods receipt
@@ -7546,6 +14820,19 @@ export class DatabaseStorage implements IStorage {
   async deleteVendorBill(id: string): Promise<void> {
     const db = await getDb();
     await db.transaction(async (tx) => {
+      const [bill] = await tx
+        .select({ status: vendorBills.status, billDate: vendorBills.billDate })
+        .from(vendorBills)
+        .where(eq(vendorBills.id, id))
+        .for('update');
+      if (!bill) {
+        throw new Error('Vendor bill not found');
+      }
+      // A posted bill has a journal and may have payments against it
+      if (bill.status && bill.status !== 'draft') {
+        throw new Error(`Only draft vendor bills can be deleted (bill is ${bill.status})`);
+      }
+      await this.assertPeriodOpen(tx, 'purchases', bill.billDate);
       // Delete vendor bill items first
       await tx.delete(vendorBillItems).where(eq(vendorBillItems.billId, id));
       // Then delete the vendor bill
@@ -0,0 +1,122 @@
+import type { InsertTaxCode, TaxBreakdownLine, TaxCode } from "@shared/schema";
+
+/**
+ * IVA (Código do Imposto sobre o Valor Acrescentado) calculation shared by quotations,
+ * sales orders, invoices, POS sales and vendor bills. Tax is worked out per line and
+ * rounded to cents there, so a document's IVA is always the sum of its lines' IVA.
+ */
+
+// Installed on first use. Medicines are exempt under article 12(1)(b) of the CIVA.
+export const DEFAULT_TAX_CODES: InsertTaxCode[] = [
+  { code: 'NOR', name: 'IVA taxa normal', category: 'normal', rate: '14', isActive: true },
+  { code: 'RED', name: 'IVA taxa reduzida', category: 'reduced', rate: '5', isActive: true },
+  {
+    code: 'ISE-M11',
+    name: 'Isento - medicamentos',
+    category: 'exempt',
+    rate: '0',
+    exemptionCode: 'M11',
+    exemptionReason: 'Isento nos termos da alínea b) do nº1 do artigo 12.º do CIVA',
+    isActive: true,
+  },
+  {
+    code: 'NS',
+    name: 'Não sujeito',
+    category: 'not_subject',
+    rate: '0',
+    exemptionCode: 'M02',
+    exemptionReason: 'Transmissão de bens e serviço não sujeita',
+    isActive: true,
+  },
+];
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+export const isTaxable = (taxCode: Pick<TaxCode, 'category'>) =>
+  taxCode.category === 'normal' || taxCode.category === 'reduced';
+
+export function lineTax(netAmount: number, rate: number): number {
+  return round2(netAmount * rate / 100);
+}
+
+// Split a tax-inclusive amount into its net and IVA, as POS shelf prices include IVA
+export function splitTaxIncluded(grossAmount: number, rate: number): { netAmount: number; taxAmount: number } {
+  const netAmount = round2(grossAmount / (1 + rate / 100));
+  return { netAmount, taxAmount: round2(grossAmount - netAmount) };
+}
+
+export interface TaxedLine {
+  taxCode: TaxCode;
+  netAmount: number;
+  taxAmount: number;
+}
+
+/**
+ * Group taxed lines by tax code, the way the invoice's tax summary and the IVA return
+ * show them. Subtotal and IVA are the sums of the lines.
+ */
+export function summarizeTax(lines: TaxedLine[]): { subtotal: number; taxAmount: number; breakdown: TaxBreakdownLine[] } {
+  const byCode = new Map<string, TaxBreakdownLine>();
+  for (const line of lines) {
+    const group = byCode.get(line.taxCode.id) ?? {
+      taxCodeId: line.taxCode.id,
+      code: line.taxCode.code,
+      category: line.taxCode.category,
+      rate: Number(line.taxCode.rate),
+      exemptionCode: line.taxCode.exemptionCode,
+      exemptionReason: line.taxCode.exemptionReason,
+      taxableAmount: 0,
+      taxAmount: 0,
+    };
+    group.taxableAmount = round2(group.taxableAmount + line.netAmount);
+    group.taxAmount = round2(group.taxAmount + line.taxAmount);
+    byCode.set(line.taxCode.id, group);
+  }
+
+  const breakdown = Array.from(byCode.values()).sort((a, b) => b.rate - a.rate || a.code.localeCompare(b.code));
+  return {
+    subtotal: round2(lines.reduce((sum, line) => sum + line.netAmount, 0)),
+    taxAmount: round2(lines.reduce((sum, line) => sum + line.taxAmount, 0)),
+    breakdown,
+  };
+}
+
+// Scale a breakdown, e.g. by -1 for a credit note or by the exchange rate for the IVA return
+export function scaleTaxBreakdown(breakdown: TaxBreakdownLine[], factor: number): TaxBreakdownLine[] {
+  return breakdown.map(line => ({
+    ...line,
+    taxableAmount: round2(line.taxableAmount * factor),
+    taxAmount: round2(line.taxAmount * factor),
+  }));
+}
+
+/**
+ * The code a line is taxed under: the line's own choice, else the product's, else its
+ * category's, else the default. An exempt customer's exemption replaces taxable codes;
+ * lines that are already exempt keep their own legal basis.
+ */
+export function pickTaxCode(
+  candidates: Array<TaxCode | undefined>,
+  defaultCode: TaxCode,
+  customerExemption?: TaxCode
+): TaxCode {
+  const taxCode = candidates.find((candidate): candidate is TaxCode => !!candidate && candidate.isActive) ?? defaultCode;
+  return customerExemption && isTaxable(taxCode) ? customerExemption : taxCode;
+}
+
+// Exempt and out-of-scope codes carry no IVA and must cite the legal basis the AGT requires
+export function validateTaxCode(taxCode: Pick<InsertTaxCode, 'category' | 'rate' | 'exemptionCode'>): void {
+  const rate = Number(taxCode.rate);
+  if (isTaxable(taxCode)) {
+    if (!(rate > 0)) {
+      throw new Error('Normal and reduced tax codes need a rate above zero');
+    }
+  } else {
+    if (rate !== 0) {
+      throw new Error('Exempt and not-subject tax codes must have a zero rate');
+    }
+    if (!taxCode.exemptionCode) {
+      throw new Error('Exempt and not-subject tax codes need an AGT exemption code');
+    }
+  }
+}
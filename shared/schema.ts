@@ -12,6 +12,7 @@ import {
   date,
   pgEnum,
   unique,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -143,6 +144,147 @@ export const reportStatusEnum = pgEnum('report_status', [
   'expired'
 ]);
 
+export const outboxStatusEnum = pgEnum('outbox_status', [
+  'pending',
+  'sent',
+  'failed'
+]);
+
+export const documentTypeEnum = pgEnum('document_type', [
+  'invoice',
+  'credit_note',
+  'sales_order',
+  'quotation',
+  'purchase_request',
+  'purchase_order',
+  'goods_receipt',
+  'vendor_bill',
+  'pos_receipt',
+  'transfer_order',
+  'delivery_note',
+  'journal_entry',
+  'supplier_payment',
+  'payment_run',
+  'receipt',
+  'landed_cost',
+  'stock_count'
+]);
+
+export const glAccountTypeEnum = pgEnum('gl_account_type', [
+  'asset',
+  'liability',
+  'equity',
+  'revenue',
+  'expense'
+]);
+
+export const journalEntryStatusEnum = pgEnum('journal_entry_status', [
+  'draft',
+  'posted',
+  'reversed' // posted, then cancelled by a reversing entry
+]);
+
+// Business event that produced a journal entry
+export const journalSourceEnum = pgEnum('journal_source', [
+  'manual',
+  'invoice',
+  'credit_note',
+  'receipt',
+  'goods_receipt',
+  'vendor_bill',
+  'payroll',
+  'pos_sale',
+  'supplier_payment',
+  'fx_revaluation',
+  'cost_of_sales',
+  'landed_cost',
+  'reversal'
+]);
+
+// How outbound stock is costed: at the cost of the batch it leaves from, or at the
+// product's moving average cost across all batches
+export const costingMethodEnum = pgEnum('costing_method', [
+  'fifo',
+  'weighted_average'
+]);
+
+export const landedCostChargeTypeEnum = pgEnum('landed_cost_charge_type', [
+  'freight',
+  'insurance',
+  'customs_duty',
+  'clearing_fee',
+  'other'
+]);
+
+// How a landed cost is spread over the lines received: by their cost, units or weight
+export const landedCostAllocationMethodEnum = pgEnum('landed_cost_allocation_method', [
+  'value',
+  'quantity',
+  'weight'
+]);
+
+// draft -> allocated (batches revalued, journal posted); only drafts can be cancelled
+export const landedCostStatusEnum = pgEnum('landed_cost_status', [
+  'draft',
+  'allocated',
+  'cancelled'
+]);
+
+// Modules whose documents are locked by month-end close
+export const accountingModuleEnum = pgEnum('accounting_module', [
+  'sales',
+  'purchases',
+  'inventory',
+  'payroll'
+]);
+
+// soft_closed: only finance and admins may still post; hard_closed: nobody until reopened
+export const accountingPeriodStatusEnum = pgEnum('accounting_period_status', [
+  'open',
+  'soft_closed',
+  'hard_closed'
+]);
+
+export const supplierPaymentStatusEnum = pgEnum('supplier_payment_status', [
+  'completed',
+  'void'
+]);
+
+// proposed -> approved -> exported (bank file produced) -> completed (payments recorded)
+export const paymentRunStatusEnum = pgEnum('payment_run_status', [
+  'proposed',
+  'approved',
+  'exported',
+  'completed',
+  'cancelled'
+]);
+
+export const bankStatementFormatEnum = pgEnum('bank_statement_format', [
+  'csv',
+  'mt940',
+  'camt053'
+]);
+
+// Unmatched lines block closing a reconciliation period; ignored covers bank fees,
+// interest and transfers booked elsewhere
+export const bankStatementLineStatusEnum = pgEnum('bank_statement_line_status', [
+  'unmatched',
+  'matched',
+  'ignored'
+]);
+
+// What reaching a dunning level does besides contacting the customer
+export const dunningActionEnum = pgEnum('dunning_action', [
+  'reminder',
+  'notice',
+  'credit_hold' // blocks new credit for the customer until the invoice is settled
+]);
+
+export const sequenceResetPolicyEnum = pgEnum('sequence_reset_policy', [
+  'yearly',
+  'never'
+]);
+
 export const licenseStatusEnum = pgEnum('license_status', [
   'active',
   'expired',
@@ -185,6 +327,25 @@ export const receiptStatusEnum = pgEnum('receipt_status', [
   'cancelled'
 ]);
 
+// Why the unpaid rest of an invoice was written off when a customer short-paid
+export const writeOffReasonEnum = pgEnum('write_off_reason', [
+  'bank_charges',
+  'withholding_tax',
+  'settlement_discount',
+  'pricing_dispute',
+  'small_balance',
+  'bad_debt'
+]);
+
+// IVA categories as reported to the AGT: normal and reduced rates, exempt supplies (which
+// must cite their legal exemption) and operations outside the scope of IVA
+export const taxCategoryEnum = pgEnum('tax_category', [
+  'normal',
+  'reduced',
+  'exempt',
+  'not_subject'
+]);
+
 export const commissionStatusEnum = pgEnum('commission_status', [
   'accrued',
   'approved',
@@ -228,6 +389,7 @@ export const poStatusEnum = pgEnum('po_status', [
 export const billStatusEnum = pgEnum('bill_status', [
   'draft',
   'posted',
+  'partially_paid',
   'paid',
   'cancelled'
 ]);
@@ -256,11 +418,56 @@ export const matchStatusEnum = pgEnum('match_status', [
 export const salesOrderStatusEnum = pgEnum('sales_order_status', [
   'draft',
   'confirmed',
+  'partially_shipped',
   'shipped',
   'delivered',
   'cancelled'
 ]);
 
+export const shipmentStatusEnum = pgEnum('shipment_status', [
+  'shipped',
+  'delivered'
+]);
+
+export const stockReservationStatusEnum = pgEnum('stock_reservation_status', [
+  'active',   // holding stock for a confirmed order line
+  'consumed', // picked at fulfillment
+  'released'  // order cancelled
+]);
+
+export const transferOrderStatusEnum = pgEnum('transfer_order_status', [
+  'draft',
+  'dispatched',
+  'in_transit',
+  'partially_received',
+  'received',
+  'cancelled'
+]);
+
+// full: every batch in the warehouse; partial: chosen products; cycle: products the ABC
+// schedule picked for the week
+export const stockCountTypeEnum = pgEnum('stock_count_type', [
+  'full',
+  'partial',
+  'cycle'
+]);
+
+// counting (blind sheets hide the book quantity) -> review (differences worked out, waiting
+// for approvals) -> posted (adjustments written); counts not yet posted can be cancelled
+export const stockCountStatusEnum = pgEnum('stock_count_status', [
+  'counting',
+  'review',
+  'posted',
+  'cancelled'
+]);
+
+export const stockCountApprovalEnum = pgEnum('stock_count_approval', [
+  'not_required', // no difference, or one within the approval threshold
+  'pending',
+  'approved',
+  'rejected'      // not posted; the batch keeps its book quantity
+]);
+
 export const invoiceStatusEnum = pgEnum('invoice_status', [
   'draft',
   'sent',
@@ -371,7 +578,8 @@ export const settingCategoryEnum = pgEnum('setting_category', [
   'general', 
   'feature_flags',
   'integrations',
-  'security'
+  'security',
+  'finance'
 ]);
 
 // Sentiment analysis enum
@@ -425,6 +633,10 @@ export const customers = pgTable("customers", {
   creditLimit: decimal("credit_limit", { precision: 12, scale: 2 }).default('0'),
   paymentTerms: integer("payment_terms").default(30), // days
   assignedSalesRep: varchar("assigned_sales_rep").references(() => users.id),
+  // Exempt customers (embassies, NGOs with an exemption certificate) are invoiced with this exempt tax code
+  taxExemptionCodeId: varchar("tax_exemption_code_id").references(() => taxCodes.id),
+  taxExemptionCertificate: varchar("tax_exemption_certificate"),
+  taxExemptionValidUntil: date("tax_exemption_valid_until"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -438,8 +650,12 @@ export const suppliers = pgTable("suppliers", {
   phone: varchar("phone"),
   address: text("address"),
   country: varchar("country"),
+  taxId: varchar("tax_id"), // NIF, reported in the SAF-T supplier master file
   creditDays: integer("credit_days").default(30),
   currency: varchar("currency", { length: 3 }).default('USD'),
+  bankName: varchar("bank_name"),
+  iban: varchar("iban", { length: 34 }), // or local account number where IBAN is not used
+  swiftCode: varchar("swift_code", { length: 11 }),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -456,6 +672,28 @@ export const warehouses = pgTable("warehouses", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// IVA tax codes assigned to products, product categories and exempt customers
+export const taxCodes = pgTable("tax_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  code: varchar("code", { length: 10 }).notNull().unique(),
+  name: varchar("name", { length: 100 }).notNull(),
+  category: taxCategoryEnum("category").notNull(),
+  rate: decimal("rate", { precision: 5, scale: 2 }).default('0').notNull(), // percent
+  exemptionCode: varchar("exemption_code", { length: 3 }), // AGT exemption code (M00-M99), required on exempt codes
+  exemptionReason: text("exemption_reason"), // legal basis printed on the invoice
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Tax code for every product in a category that has no code of its own
+export const categoryTaxCodes = pgTable("category_tax_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  category: varchar("category").notNull().unique(),
+  taxCodeId: varchar("tax_code_id").references(() => taxCodes.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Products table
 export const products = pgTable("products", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
@@ -465,9 +703,12 @@ export const products = pgTable("products", {
   category: varchar("category"),
   manufacturer: varchar("manufacturer"),
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }),
+  taxCodeId: varchar("tax_code_id").references(() => taxCodes.id), // falls back to the category's code
   minStockLevel: integer("min_stock_level").default(0),
   requiresBatchTracking: boolean("requires_batch_tracking").default(true),
   shelfLifeDays: integer("shelf_life_days"), // for expiry calculations
+  costingMethod: costingMethodEnum("costing_method").default('fifo').notNull(),
+  unitWeightKg: decimal("unit_weight_kg", { precision: 10, scale: 3 }), // for landed costs allocated by weight
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -486,7 +727,11 @@ export const inventory = pgTable("inventory", {
   quantity: integer("quantity").notNull().default(0),
   manufactureDate: date("manufacture_date"),
   expiryDate: date("expiry_date"),
-  costPerUnit: decimal("cost_per_unit", { precision: 10, scale: 2 }),
+  costPerUnit: decimal("cost_per_unit", { precision: 14, scale: 4 }), // to 4 decimals, like the stock ledger's unit costs
+  isQuarantined: boolean("is_quarantined").default(false).notNull(), // quarantined batches are excluded from FEFO picking
+  quarantineReason: text("quarantine_reason"),
+  quarantinedAt: timestamp("quarantined_at"),
+  recallNoticeId: varchar("recall_notice_id").references(() => recallNotices.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -502,9 +747,13 @@ export const salesOrders = pgTable("sales_orders", {
   orderDate: date("order_date").notNull(),
   deliveryDate: date("delivery_date"),
   status: salesOrderStatusEnum("status").default('draft'),
+  currency: varchar("currency", { length: 3 }).default('AOA').notNull(),
+  fxRate: decimal("fx_rate", { precision: 12, scale: 6 }).default('1').notNull(), // base currency per unit of the order currency
   subtotal: decimal("subtotal", { precision: 12, scale: 2 }).default('0'),
   taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }).default('0'),
   totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).default('0'),
+  baseTotalAmount: decimal("base_total_amount", { precision: 15, scale: 2 }), // total in the base currency
+  taxBreakdown: jsonb("tax_breakdown").$type<TaxBreakdownLine[]>(),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -521,13 +770,73 @@ export const salesOrderItems = pgTable("sales_order_items", {
   productId: varchar("product_id").references(() => products.id).notNull(),
   inventoryId: varchar("inventory_id").references(() => inventory.id), // for batch tracking
   quantity: integer("quantity").notNull(),
+  quantityShipped: integer("quantity_shipped").default(0).notNull(),
+  quantityBackordered: integer("quantity_backordered").default(0).notNull(), // ordered but not yet reserved
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
-  totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
+  totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(), // net of IVA
+  taxCodeId: varchar("tax_code_id").references(() => taxCodes.id),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default('0').notNull(),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).default('0').notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_sales_order_items_order").on(table.orderId),
 ]);
 
+// Shipments - one per dispatch of a sales order from a single warehouse, each with its own delivery note
+export const shipments = pgTable("shipments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  shipmentNumber: varchar("shipment_number").notNull().unique(), // delivery note number
+  salesOrderId: varchar("sales_order_id").references(() => salesOrders.id).notNull(),
+  warehouseId: varchar("warehouse_id").references(() => warehouses.id).notNull(),
+  shipDate: date("ship_date").notNull(),
+  status: shipmentStatusEnum("status").default('shipped').notNull(),
+  carrier: varchar("carrier"),
+  trackingNumber: varchar("tracking_number"),
+  notes: text("notes"),
+  shippedBy: varchar("shipped_by").references(() => users.id),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_shipments_order").on(table.salesOrderId),
+]);
+
+export const shipmentItems = pgTable("shipment_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  shipmentId: varchar("shipment_id").references(() => shipments.id).notNull(),
+  salesOrderItemId: varchar("sales_order_item_id").references(() => salesOrderItems.id).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  inventoryId: varchar("inventory_id").references(() => inventory.id).notNull(),
+  batchNumber: varchar("batch_number"),
+  expiryDate: date("expiry_date"),
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_shipment_items_shipment").on(table.shipmentId),
+]);
+
+// Stock reserved for confirmed sales order lines, per batch. On hand minus active
+// reservations is the quantity available to promise.
+export const stockReservations = pgTable("stock_reservations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  salesOrderId: varchar("sales_order_id").references(() => salesOrders.id).notNull(),
+  salesOrderItemId: varchar("sales_order_item_id").references(() => salesOrderItems.id).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  inventoryId: varchar("inventory_id").references(() => inventory.id).notNull(),
+  warehouseId: varchar("warehouse_id").references(() => warehouses.id).notNull(),
+  quantity: integer("quantity").notNull(),
+  status: stockReservationStatusEnum("status").default('active').notNull(),
+  reservedBy: varchar("reserved_by").references(() => users.id),
+  consumedAt: timestamp("consumed_at"),
+  releasedAt: timestamp("released_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_stock_reservations_inventory").on(table.inventoryId, table.status),
+  index("idx_stock_reservations_order").on(table.salesOrderId),
+]);
+
 // Purchase orders table (enhanced)
 export const purchaseOrders = pgTable("purchase_orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
@@ -696,9 +1005,12 @@ export const vendorBills = pgTable("vendor_bills", {
   supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
   poId: varchar("po_id").references(() => purchaseOrders.id),
   totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
+  taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }).default('0').notNull(), // deductible IVA
+  taxBreakdown: jsonb("tax_breakdown").$type<TaxBreakdownLine[]>(),
   currency: varchar("currency", { length: 3 }).default('USD'),
   fxRate: decimal("fx_rate", { precision: 10, scale: 6 }).default('1'),
   status: billStatusEnum("status").default('draft'),
+  paidAmount: decimal("paid_amount", { precision: 12, scale: 2 }).default('0').notNull(), // in the bill's currency
   billDate: date("bill_date").notNull(),
   dueDate: date("due_date"),
   ocrRaw: text("ocr_raw"), // raw OCR text
@@ -715,11 +1027,78 @@ export const vendorBillItems = pgTable("vendor_bill_items", {
   productId: varchar("product_id").references(() => products.id),
   quantity: integer("quantity").notNull(),
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
-  lineTotal: decimal("line_total", { precision: 10, scale: 2 }).notNull(),
+  lineTotal: decimal("line_total", { precision: 10, scale: 2 }).notNull(), // net of IVA
+  taxCodeId: varchar("tax_code_id").references(() => taxCodes.id),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default('0').notNull(),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).default('0').notNull(),
   description: text("description"), // fallback if product not matched
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Landed costs - freight, insurance, customs duties and clearing fees on an import, added
+// to the cost of the goods receipts they were incurred for
+export const landedCosts = pgTable("landed_costs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  documentNumber: varchar("document_number").notNull().unique(),
+  documentDate: date("document_date").notNull(),
+  allocationMethod: landedCostAllocationMethodEnum("allocation_method").default('value').notNull(),
+  currency: varchar("currency", { length: 3 }).default('USD').notNull(),
+  fxRate: decimal("fx_rate", { precision: 10, scale: 6 }).default('1'),
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(), // sum of the charges
+  status: landedCostStatusEnum("status").default('draft').notNull(),
+  notes: text("notes"),
+  journalEntryId: varchar("journal_entry_id").references(() => journalEntries.id),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  allocatedBy: varchar("allocated_by").references(() => users.id),
+  allocatedAt: timestamp("allocated_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const landedCostCharges = pgTable("landed_cost_charges", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  landedCostId: varchar("landed_cost_id").references(() => landedCosts.id).notNull(),
+  chargeType: landedCostChargeTypeEnum("charge_type").notNull(),
+  supplierId: varchar("supplier_id").references(() => suppliers.id), // forwarder, insurer or broker who bills it
+  description: text("description"),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(), // in the landed cost's currency
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_landed_cost_charges_landed_cost").on(table.landedCostId),
+]);
+
+// What a landed cost is for: goods receipts, or purchase orders standing for every receipt
+// posted against them when the cost is allocated
+export const landedCostSources = pgTable("landed_cost_sources", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  landedCostId: varchar("landed_cost_id").references(() => landedCosts.id).notNull(),
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id),
+  goodsReceiptId: varchar("goods_receipt_id").references(() => goodsReceipts.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_landed_cost_sources_landed_cost").on(table.landedCostId),
+]);
+
+// Each charge's share of each received batch, in the base currency. The share of units
+// already sold when the cost was allocated went to cost of sales instead of stock.
+export const landedCostAllocations = pgTable("landed_cost_allocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  landedCostId: varchar("landed_cost_id").references(() => landedCosts.id).notNull(),
+  chargeId: varchar("charge_id").references(() => landedCostCharges.id).notNull(),
+  goodsReceiptId: varchar("goods_receipt_id").references(() => goodsReceipts.id).notNull(),
+  inventoryId: varchar("inventory_id").references(() => inventory.id).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  quantity: integer("quantity").notNull(), // units received
+  receivedValue: decimal("received_value", { precision: 15, scale: 2 }).notNull(), // purchase cost of those units
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  inventoryAmount: decimal("inventory_amount", { precision: 15, scale: 2 }).notNull(),
+  costOfSalesAmount: decimal("cost_of_sales_amount", { precision: 15, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_landed_cost_allocations_landed_cost").on(table.landedCostId),
+  index("idx_landed_cost_allocations_product").on(table.productId),
+]);
+
 // Foreign exchange rates table
 export const fxRates = pgTable("fx_rates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
@@ -768,14 +1147,27 @@ export const invoices = pgTable("invoices", {
   invoiceNumber: varchar("invoice_number").notNull().unique(),
   customerId: varchar("customer_id").references(() => customers.id).notNull(),
   salesOrderId: varchar("sales_order_id").references(() => salesOrders.id),
+  shipmentId: varchar("shipment_id").references(() => shipments.id), // set when invoicing a single shipment
   invoiceDate: date("invoice_date").notNull(),
   dueDate: date("due_date").notNull(),
   status: invoiceStatusEnum("status").default('draft'),
+  currency: varchar("currency", { length: 3 }).default('AOA').notNull(),
+  fxRate: decimal("fx_rate", { precision: 12, scale: 6 }).default('1').notNull(), // base currency per unit, fixed when issued
   subtotal: decimal("subtotal", { precision: 12, scale: 2 }).default('0'),
   taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }).default('0'),
   totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).default('0'),
-  paidAmount: decimal("paid_amount", { precision: 12, scale: 2 }).default('0'),
+  baseSubtotal: decimal("base_subtotal", { precision: 15, scale: 2 }), // amounts in the base currency
+  baseTaxAmount: decimal("base_tax_amount", { precision: 15, scale: 2 }),
+  baseTotalAmount: decimal("base_total_amount", { precision: 15, scale: 2 }),
+  taxBreakdown: jsonb("tax_breakdown").$type<TaxBreakdownLine[]>(), // taxable amount and IVA per tax code
+  // Credit notes: the invoice they correct and the returned goods they refund
+  creditedInvoiceId: varchar("credited_invoice_id").references((): AnyPgColumn => invoices.id),
+  creditedLines: jsonb("credited_lines").$type<CreditedLine[]>(),
+  paidAmount: decimal("paid_amount", { precision: 12, scale: 2 }).default('0'), // settled: cash applied plus write-offs
+  writtenOffAmount: decimal("written_off_amount", { precision: 12, scale: 2 }).default('0'),
   notes: text("notes"),
+  dunningLevel: integer("dunning_level").default(0).notNull(), // highest dunning level reached, 0 = none
+  lastDunnedAt: timestamp("last_dunned_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -784,19 +1176,143 @@ export const invoices = pgTable("invoices", {
   index("idx_invoices_due_date").on(table.dueDate),
 ]);
 
+// Fiscal document signatures: every issued invoice, credit note and POS receipt is signed
+// (RSA) over its date, entry time, number, gross total and the previous document's hash in
+// the same series, so each series forms a hash chain the AGT can verify
+export const fiscalSignatures = pgTable("fiscal_signatures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  series: varchar("series").notNull(), // SAF-T document type and series, e.g. "FT INVA2024"
+  chainPosition: integer("chain_position").notNull(),
+  documentType: varchar("document_type").notNull(), // invoice, credit_note, pos_receipt
+  documentId: varchar("document_id").notNull(),
+  documentNumber: varchar("document_number").notNull(), // SAF-T number, e.g. "FT INVA2024/12"
+  documentDate: date("document_date").notNull(),
+  systemEntryDate: timestamp("system_entry_date").notNull(),
+  grossTotal: decimal("gross_total", { precision: 15, scale: 2 }).notNull(), // in the base currency
+  previousHash: text("previous_hash"),
+  hash: text("hash").notNull(),
+  keyVersion: varchar("key_version").notNull(), // reported as HashControl
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("uq_fiscal_signatures_chain").on(table.series, table.chainPosition),
+  unique("uq_fiscal_signatures_document").on(table.documentType, table.documentId),
+]);
+
 // Stock movements table for tracking inventory changes
 export const stockMovements = pgTable("stock_movements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
   productId: varchar("product_id").references(() => products.id).notNull(),
   warehouseId: varchar("warehouse_id").references(() => warehouses.id).notNull(),
   inventoryId: varchar("inventory_id").references(() => inventory.id),
-  movementType: varchar("movement_type").notNull(), // in, out, transfer, adjustment, expired
+  movementType: varchar("movement_type").notNull(), // in, out, transfer_out, in_transit, transfer_in, adjustment, expired, landed_cost (value only)
   quantity: integer("quantity").notNull(),
   reference: varchar("reference"), // order number, invoice number, etc.
   notes: text("notes"),
+  // Cost in the base currency. totalCost carries the sign of the quantity, so the stock
+  // value at any date is the sum of totalCost up to it.
+  unitCost: decimal("unit_cost", { precision: 14, scale: 4 }),
+  totalCost: decimal("total_cost", { precision: 15, scale: 2 }),
+  costOfSales: decimal("cost_of_sales", { precision: 15, scale: 2 }), // expensed by the movement; negative for returns, null for receipts and transfers
   userId: varchar("user_id").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("idx_stock_movements_product_created").on(table.productId, table.createdAt),
+  index("idx_stock_movements_reference").on(table.reference),
+]);
+
+// Inter-warehouse transfer orders table
+export const transferOrders = pgTable("transfer_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  transferNumber: varchar("transfer_number").notNull().unique(),
+  sourceWarehouseId: varchar("source_warehouse_id").references(() => warehouses.id).notNull(),
+  destinationWarehouseId: varchar("destination_warehouse_id").references(() => warehouses.id).notNull(),
+  status: transferOrderStatusEnum("status").default('draft'),
+  expectedArrivalDate: date("expected_arrival_date"),
+  carrier: varchar("carrier"), // courier or fleet vehicle reference
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  dispatchedBy: varchar("dispatched_by").references(() => users.id),
+  dispatchedAt: timestamp("dispatched_at"),
+  inTransitAt: timestamp("in_transit_at"),
+  receivedBy: varchar("received_by").references(() => users.id),
+  receivedAt: timestamp("received_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_transfer_orders_status").on(table.status),
+  index("idx_transfer_orders_source").on(table.sourceWarehouseId),
+  index("idx_transfer_orders_destination").on(table.destinationWarehouseId),
+]);
+
+// Transfer order items table - one line per source batch
+export const transferOrderItems = pgTable("transfer_order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  transferOrderId: varchar("transfer_order_id").references(() => transferOrders.id).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  sourceInventoryId: varchar("source_inventory_id").references(() => inventory.id).notNull(),
+  destinationInventoryId: varchar("destination_inventory_id").references(() => inventory.id), // set on first receipt
+  batchNumber: varchar("batch_number"),
+  manufactureDate: date("manufacture_date"),
+  expiryDate: date("expiry_date"),
+  costPerUnit: decimal("cost_per_unit", { precision: 10, scale: 2 }),
+  quantity: integer("quantity").notNull(),
+  quantityDispatched: integer("quantity_dispatched").default(0).notNull(),
+  quantityReceived: integer("quantity_received").default(0).notNull(), // dispatched - received = in transit
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_transfer_order_items_order").on(table.transferOrderId),
+]);
+
+// Stock counts - physical stock-takes and cycle counts of one warehouse, counted by batch
+export const stockCounts = pgTable("stock_counts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  countNumber: varchar("count_number").notNull().unique(),
+  warehouseId: varchar("warehouse_id").references(() => warehouses.id).notNull(),
+  countType: stockCountTypeEnum("count_type").default('full').notNull(),
+  status: stockCountStatusEnum("status").default('counting').notNull(),
+  isBlind: boolean("is_blind").default(true).notNull(), // counters do not see the book quantity
+  countDate: date("count_date").notNull(),
+  notes: text("notes"),
+  journalEntryId: varchar("journal_entry_id").references(() => journalEntries.id),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  submittedBy: varchar("submitted_by").references(() => users.id),
+  submittedAt: timestamp("submitted_at"),
+  postedBy: varchar("posted_by").references(() => users.id),
+  postedAt: timestamp("posted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_stock_counts_status").on(table.status),
+  index("idx_stock_counts_warehouse").on(table.warehouseId),
+]);
+
+// One line per batch on the count sheet. bookQuantity is the batch's quantity when the sheet
+// was issued, refreshed when the count is submitted; the variance is counted - book.
+export const stockCountLines = pgTable("stock_count_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  stockCountId: varchar("stock_count_id").references(() => stockCounts.id).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  inventoryId: varchar("inventory_id").references(() => inventory.id).notNull(),
+  batchNumber: varchar("batch_number"),
+  expiryDate: date("expiry_date"),
+  bookQuantity: integer("book_quantity").notNull(),
+  countedQuantity: integer("counted_quantity"),
+  varianceQuantity: integer("variance_quantity"),
+  unitCost: decimal("unit_cost", { precision: 14, scale: 4 }), // base currency, as the adjustment will be costed
+  varianceValue: decimal("variance_value", { precision: 15, scale: 2 }),
+  approvalStatus: stockCountApprovalEnum("approval_status").default('not_required').notNull(),
+  approvedBy: varchar("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  approvalComment: text("approval_comment"),
+  countedBy: varchar("counted_by").references(() => users.id),
+  countedAt: timestamp("counted_at"),
+  stockMovementId: varchar("stock_movement_id").references(() => stockMovements.id), // the adjustment, once posted
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_stock_count_lines_count").on(table.stockCountId),
+  index("idx_stock_count_lines_inventory").on(table.inventoryId),
+]);
 
 // CRM Module Tables
 
@@ -815,6 +1331,7 @@ export const quotations = pgTable("quotations", {
   taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }).default('0'),
   discountAmount: decimal("discount_amount", { precision: 12, scale: 2 }).default('0'),
   totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).default('0'),
+  taxBreakdown: jsonb("tax_breakdown").$type<TaxBreakdownLine[]>(),
   notes: text("notes"),
   convertedToOrderId: varchar("converted_to_order_id").references(() => salesOrders.id),
   convertedAt: timestamp("converted_at"),
@@ -841,7 +1358,8 @@ export const quotationItems = pgTable("quotation_items", {
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
   lineTotal: decimal("line_total", { precision: 10, scale: 2 }).notNull(),
   discount: decimal("discount", { precision: 5, scale: 2 }).default('0'),
-  tax: decimal("tax", { precision: 5, scale: 2 }).default('0'),
+  taxCodeId: varchar("tax_code_id").references(() => taxCodes.id),
+  tax: decimal("tax", { precision: 5, scale: 2 }).default('0'), // rate of the line's tax code, in percent
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   // Performance indexes for quotation items joins - Critical for optimized quotations query
@@ -855,19 +1373,45 @@ export const receipts = pgTable("receipts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
   receiptNumber: varchar("receipt_number").notNull().unique(),
   customerId: varchar("customer_id").references(() => customers.id).notNull(),
-  invoiceId: varchar("invoice_id").references(() => invoices.id),
+  invoiceId: varchar("invoice_id").references(() => invoices.id), // first invoice applied; see receipt_allocations
   amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
   currency: varchar("currency", { length: 3 }).default('USD'),
-  fxRate: decimal("fx_rate", { precision: 10, scale: 6 }).default('1'),
+  fxRate: decimal("fx_rate", { precision: 10, scale: 6 }).default('1'), // base currency per unit, on the day received
+  baseAmount: decimal("base_amount", { precision: 15, scale: 2 }),
   paymentMethod: paymentMethodEnum("payment_method").notNull(),
   reference: varchar("reference"), // bank reference, cheque number, etc.
   appliedAmount: decimal("applied_amount", { precision: 12, scale: 2 }).default('0'),
   status: receiptStatusEnum("status").default('pending'),
   notes: text("notes"),
+  // Cash posted against customer advances when received; allocations then clear the advance.
+  // Receipts recorded before this was posted take the cash to the ledger on allocation
+  journalEntryId: varchar("journal_entry_id").references(() => journalEntries.id),
   receivedBy: varchar("received_by").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Receipt allocations - one row per invoice a receipt settles. The write-off covers the
+// short-paid rest of the invoice; reversed rows stay for the audit trail.
+export const receiptAllocations = pgTable("receipt_allocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  receiptId: varchar("receipt_id").references(() => receipts.id).notNull(),
+  invoiceId: varchar("invoice_id").references(() => invoices.id).notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(), // cash applied from the receipt
+  writeOffAmount: decimal("write_off_amount", { precision: 12, scale: 2 }).default('0').notNull(),
+  writeOffReason: writeOffReasonEnum("write_off_reason"),
+  realizedFxAmount: decimal("realized_fx_amount", { precision: 15, scale: 2 }).default('0').notNull(), // base currency; gain > 0, loss < 0
+  notes: text("notes"),
+  journalEntryId: varchar("journal_entry_id").references(() => journalEntries.id),
+  allocatedBy: varchar("allocated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  reversedAt: timestamp("reversed_at"),
+  reversedBy: varchar("reversed_by").references(() => users.id),
+  reversalReason: text("reversal_reason"),
+}, (table) => [
+  index("idx_receipt_allocations_receipt").on(table.receiptId),
+  index("idx_receipt_allocations_invoice").on(table.invoiceId),
+]);
+
 // Commission entries table
 export const commissionEntries = pgTable("commission_entries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
@@ -1054,6 +1598,7 @@ export const posReceipts = pgTable("pos_receipts", {
   taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }).default('0').notNull(),
   discountAmount: decimal("discount_amount", { precision: 12, scale: 2 }).default('0').notNull(),
   totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).default('0').notNull(),
+  taxBreakdown: jsonb("tax_breakdown").$type<TaxBreakdownLine[]>(),
   currency: varchar("currency", { length: 3 }).default('AOA'),
   receiptData: jsonb("receipt_data"), // full receipt JSON for reprints
   status: posReceiptStatusEnum("status").default('completed'),
@@ -1414,73 +1959,383 @@ export const reportExports = pgTable("report_exports", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-// Regulatory Compliance Module Tables
+// Outbox for outgoing notifications (scheduled report deliveries, reminders)
+export const outboxMessages = pgTable("outbox_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  channel: varchar("channel").notNull().default('email'), // email
+  recipient: varchar("recipient").notNull(),
+  subject: varchar("subject", { length: 500 }).notNull(),
+  body: text("body").notNull(),
+  attachments: jsonb("attachments"), // [{ reportExportId, fileName }]
+  relatedEntityType: varchar("related_entity_type"), // saved_report, invoice, etc.
+  relatedEntityId: varchar("related_entity_id"),
+  status: outboxStatusEnum("status").default('pending').notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_outbox_messages_status").on(table.status, table.createdAt),
+]);
 
-// Licenses table
-export const licenses = pgTable("licenses", {
+// Document numbering series - one per document type and series (POS terminals get their own series)
+export const documentSequences = pgTable("document_sequences", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
-  licenseNumber: varchar("license_number").notNull().unique(),
-  licenseType: varchar("license_type").notNull(), // pharmacy_license, import_permit, wholesale_license, etc.
-  licenseName: varchar("license_name", { length: 255 }).notNull(),
-  issuingAuthority: varchar("issuing_authority").notNull(),
-  issuedDate: date("issued_date").notNull(),
-  expiryDate: date("expiry_date").notNull(),
-  renewalDate: date("renewal_date"),
-  status: licenseStatusEnum("status").default('active'),
-  documentPath: varchar("document_path"), // file storage path
-  conditions: text("conditions"), // special conditions or restrictions
-  annualFee: decimal("annual_fee", { precision: 12, scale: 2 }),
-  currency: varchar("currency", { length: 3 }).default('AOA'),
-  contactPerson: varchar("contact_person"),
-  contactEmail: varchar("contact_email"),
-  contactPhone: varchar("contact_phone"),
-  reminderDays: integer("reminder_days").default(30), // days before expiry to remind
-  managedBy: varchar("managed_by").references(() => users.id).notNull(),
-  notes: text("notes"),
+  documentType: documentTypeEnum("document_type").notNull(),
+  series: varchar("series", { length: 20 }).notNull().default('A'),
+  terminalId: varchar("terminal_id").references(() => posTerminals.id),
+  pattern: varchar("pattern", { length: 100 }).notNull(), // e.g. "FT {series}/{year}/{seq:6}"
+  resetPolicy: sequenceResetPolicyEnum("reset_policy").default('yearly').notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  description: text("description"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  unique("uq_document_sequences_type_series").on(table.documentType, table.series),
+]);
 
-// Regulatory reports table
-export const regulatoryReports = pgTable("regulatory_reports", {
+// Last number issued per sequence and year (year 0 for sequences that never reset)
+export const documentSequenceCounters = pgTable("document_sequence_counters", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
-  reportType: varchar("report_type").notNull(), // monthly_sales, inventory_summary, adverse_events, etc.
-  reportPeriod: varchar("report_period").notNull(), // 2024-01, 2024-Q1, 2024-Annual
-  submittedTo: varchar("submitted_to").notNull(), // regulatory authority name
-  dueDate: date("due_date").notNull(),
-  submittedDate: date("submitted_date"),
-  reportData: jsonb("report_data").notNull(), // structured report data
-  documentPath: varchar("document_path"), // generated report file path
-  status: regulatoryReportStatusEnum("status").default('draft'),
-  submissionReference: varchar("submission_reference"), // authority reference number
-  preparedBy: varchar("prepared_by").references(() => users.id).notNull(),
-  reviewedBy: varchar("reviewed_by").references(() => users.id),
-  approvedBy: varchar("approved_by").references(() => users.id),
-  rejectionReason: text("rejection_reason"),
-  followUpRequired: boolean("follow_up_required").default(false),
-  followUpDate: date("follow_up_date"),
-  notes: text("notes"),
-  createdAt: timestamp("created_at").defaultNow(),
+  sequenceId: varchar("sequence_id").references(() => documentSequences.id).notNull(),
+  year: integer("year").notNull(),
+  lastNumber: integer("last_number").default(0).notNull(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  unique("uq_document_sequence_counters_year").on(table.sequenceId, table.year),
+]);
 
-// Audit logs table
-export const auditLogs = pgTable("audit_logs", {
+// Every number handed out, written in the same transaction as the document
+export const issuedDocumentNumbers = pgTable("issued_document_numbers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
-  tableName: varchar("table_name").notNull(), // affected table
-  recordId: varchar("record_id").notNull(), // affected record ID
-  action: auditActionEnum("action").notNull(),
-  oldValues: jsonb("old_values"), // previous values for updates
-  newValues: jsonb("new_values"), // new values for creates/updates
-  userId: varchar("user_id").references(() => users.id),
-  ipAddress: varchar("ip_address"),
+  sequenceId: varchar("sequence_id").references(() => documentSequences.id).notNull(),
+  documentType: documentTypeEnum("document_type").notNull(),
+  year: integer("year").notNull(),
+  sequenceNumber: integer("sequence_number").notNull(),
+  documentNumber: varchar("document_number").notNull(),
+  issuedAt: timestamp("issued_at").defaultNow(),
+}, (table) => [
+  unique("uq_issued_document_numbers_seq").on(table.sequenceId, table.year, table.sequenceNumber),
+  unique("uq_issued_document_numbers_number").on(table.documentType, table.documentNumber),
+]);
+
+// General Ledger Tables
+
+// Chart of accounts - seeded with the Angolan PGC, editable by finance
+export const glAccounts = pgTable("gl_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  code: varchar("code", { length: 20 }).notNull().unique(), // e.g. "31.1.1"
+  name: varchar("name", { length: 255 }).notNull(),
+  accountType: glAccountTypeEnum("account_type").notNull(),
+  parentId: varchar("parent_id").references((): AnyPgColumn => glAccounts.id),
+  isPostable: boolean("is_postable").default(true).notNull(), // false for grouping accounts
+  isActive: boolean("is_active").default(true).notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_gl_accounts_parent").on(table.parentId),
+]);
+
+export const journalEntries = pgTable("journal_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  entryNumber: varchar("entry_number").notNull().unique(),
+  entryDate: date("entry_date").notNull(),
+  description: text("description").notNull(),
+  sourceType: journalSourceEnum("source_type").default('manual').notNull(),
+  sourceId: varchar("source_id"), // id of the invoice, receipt, bill... that produced the entry
+  sourceReference: varchar("source_reference"), // its document number
+  status: journalEntryStatusEnum("status").default('draft').notNull(),
+  totalAmount: decimal("total_amount", { precision: 15, scale: 2 }).default('0').notNull(), // sum of debits
+  reversalOfId: varchar("reversal_of_id").references((): AnyPgColumn => journalEntries.id),
+  createdBy: varchar("created_by").references(() => users.id),
+  postedBy: varchar("posted_by").references(() => users.id),
+  postedAt: timestamp("posted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_journal_entries_source").on(table.sourceType, table.sourceId),
+  index("idx_journal_entries_date").on(table.entryDate),
+]);
+
+export const journalLines = pgTable("journal_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  journalEntryId: varchar("journal_entry_id").references(() => journalEntries.id).notNull(),
+  lineNumber: integer("line_number").notNull(),
+  accountId: varchar("account_id").references(() => glAccounts.id).notNull(),
+  debit: decimal("debit", { precision: 15, scale: 2 }).default('0').notNull(),
+  credit: decimal("credit", { precision: 15, scale: 2 }).default('0').notNull(),
+  description: text("description"),
+  customerId: varchar("customer_id").references(() => customers.id),
+  supplierId: varchar("supplier_id").references(() => suppliers.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_journal_lines_entry").on(table.journalEntryId),
+  index("idx_journal_lines_account").on(table.accountId),
+]);
+
+// Supplier payments - settle one or more posted vendor bills, possibly in another currency
+export const supplierPayments = pgTable("supplier_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  paymentNumber: varchar("payment_number").notNull().unique(),
+  supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
+  paymentRunId: varchar("payment_run_id").references((): AnyPgColumn => paymentRuns.id),
+  paymentDate: date("payment_date").notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(), // in the payment currency
+  currency: varchar("currency", { length: 3 }).notNull(),
+  paymentMethod: varchar("payment_method").default('bank_transfer').notNull(), // bank_transfer, cheque, cash
+  reference: varchar("reference"), // bank reference or cheque number
+  status: supplierPaymentStatusEnum("status").default('completed').notNull(),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  voidedBy: varchar("voided_by").references(() => users.id),
+  voidedAt: timestamp("voided_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_supplier_payments_supplier").on(table.supplierId),
+]);
+
+export const supplierPaymentAllocations = pgTable("supplier_payment_allocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  paymentId: varchar("payment_id").references(() => supplierPayments.id).notNull(),
+  billId: varchar("bill_id").references(() => vendorBills.id).notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(), // settled, in the bill's currency
+  paymentAmount: decimal("payment_amount", { precision: 15, scale: 2 }).notNull(), // in the payment currency
+  fxRate: decimal("fx_rate", { precision: 12, scale: 6 }).default('1').notNull(), // payment currency per unit of bill currency
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_supplier_payment_allocations_payment").on(table.paymentId),
+  index("idx_supplier_payment_allocations_bill").on(table.billId),
+]);
+
+// Payment runs - a batch of bills due by a date, paid by bank transfer file
+export const paymentRuns = pgTable("payment_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  runNumber: varchar("run_number").notNull().unique(),
+  dueBy: date("due_by").notNull(),
+  paymentDate: date("payment_date").notNull(), // requested execution date
+  status: paymentRunStatusEnum("status").default('proposed').notNull(),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  approvedBy: varchar("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  exportedAt: timestamp("exported_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const paymentRunLines = pgTable("payment_run_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  paymentRunId: varchar("payment_run_id").references(() => paymentRuns.id).notNull(),
+  supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
+  billId: varchar("bill_id").references(() => vendorBills.id).notNull(),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(), // open amount proposed for payment
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.paymentRunId, table.billId),
+]);
+
+// Month-end close per module. Months without a row are open; reopening is admin-only and
+// keeps the reason of the latest reopening
+export const accountingPeriods = pgTable("accounting_periods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  module: accountingModuleEnum("module").notNull(),
+  period: varchar("period", { length: 7 }).notNull(), // YYYY-MM
+  status: accountingPeriodStatusEnum("status").default('open').notNull(),
+  closedBy: varchar("closed_by").references(() => users.id),
+  closedAt: timestamp("closed_at"),
+  reopenedBy: varchar("reopened_by").references(() => users.id),
+  reopenedAt: timestamp("reopened_at"),
+  reopenReason: text("reopen_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("uq_accounting_periods_module_period").on(table.module, table.period),
+]);
+
+// Month-end revaluation of open foreign-currency receivables and payables at the latest
+// rate. The entry is reversed the next day, so settlements still realize FX against the
+// rate each document was booked at.
+export const fxRevaluations = pgTable("fx_revaluations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  revaluationDate: date("revaluation_date").notNull().unique(),
+  baseCurrency: varchar("base_currency", { length: 3 }).notNull(),
+  receivablesAdjustment: decimal("receivables_adjustment", { precision: 15, scale: 2 }).notNull(),
+  payablesAdjustment: decimal("payables_adjustment", { precision: 15, scale: 2 }).notNull(),
+  lines: jsonb("lines").$type<FxRevaluationLine[]>().notNull(),
+  journalEntryId: varchar("journal_entry_id").references(() => journalEntries.id),
+  reversalEntryId: varchar("reversal_entry_id").references(() => journalEntries.id),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Company bank accounts whose statements are imported and reconciled
+export const bankAccounts = pgTable("bank_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  name: varchar("name", { length: 100 }).notNull(),
+  bankName: varchar("bank_name"),
+  accountNumber: varchar("account_number"),
+  iban: varchar("iban", { length: 34 }),
+  swiftCode: varchar("swift_code", { length: 11 }),
+  currency: varchar("currency", { length: 3 }).default('AOA').notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const bankStatements = pgTable("bank_statements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  bankAccountId: varchar("bank_account_id").references(() => bankAccounts.id).notNull(),
+  format: bankStatementFormatEnum("format").notNull(),
+  fileName: varchar("file_name"),
+  statementReference: varchar("statement_reference"), // statement number from the file, when it has one
+  periodStart: date("period_start"),
+  periodEnd: date("period_end"),
+  openingBalance: decimal("opening_balance", { precision: 15, scale: 2 }),
+  closingBalance: decimal("closing_balance", { precision: 15, scale: 2 }),
+  lineCount: integer("line_count").default(0).notNull(), // lines imported, duplicates of earlier imports excluded
+  importedBy: varchar("imported_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_bank_statements_account").on(table.bankAccountId),
+]);
+
+// Closed reconciliation periods - lines up to periodEnd are final once closed
+export const bankReconciliations = pgTable("bank_reconciliations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  bankAccountId: varchar("bank_account_id").references(() => bankAccounts.id).notNull(),
+  periodStart: date("period_start").notNull(),
+  periodEnd: date("period_end").notNull(),
+  statementBalance: decimal("statement_balance", { precision: 15, scale: 2 }), // closing balance per the bank
+  reconciledTotal: decimal("reconciled_total", { precision: 15, scale: 2 }).notNull(), // net movement of the period's lines
+  lineCount: integer("line_count").notNull(),
+  notes: text("notes"),
+  closedBy: varchar("closed_by").references(() => users.id).notNull(),
+  closedAt: timestamp("closed_at").defaultNow(),
+}, (table) => [
+  index("idx_bank_reconciliations_account").on(table.bankAccountId, table.periodEnd),
+]);
+
+export const bankStatementLines = pgTable("bank_statement_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  statementId: varchar("statement_id").references(() => bankStatements.id).notNull(),
+  bankAccountId: varchar("bank_account_id").references(() => bankAccounts.id).notNull(),
+  transactionDate: date("transaction_date").notNull(),
+  valueDate: date("value_date"),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(), // positive money in, negative money out
+  description: text("description"),
+  reference: varchar("reference"), // customer/end-to-end reference
+  bankReference: varchar("bank_reference"), // the bank's own transaction id
+  counterpartyName: varchar("counterparty_name"),
+  counterpartyAccount: varchar("counterparty_account"),
+  fingerprint: varchar("fingerprint", { length: 64 }).notNull(), // detects the same line imported twice
+  status: bankStatementLineStatusEnum("status").default('unmatched').notNull(),
+  receiptId: varchar("receipt_id").references(() => receipts.id),
+  supplierPaymentId: varchar("supplier_payment_id").references(() => supplierPayments.id),
+  matchedBy: varchar("matched_by").references(() => users.id), // null when matched automatically
+  matchedAt: timestamp("matched_at"),
+  reconciliationId: varchar("reconciliation_id").references(() => bankReconciliations.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.bankAccountId, table.fingerprint),
+  index("idx_bank_statement_lines_account_status").on(table.bankAccountId, table.status),
+  unique().on(table.receiptId), // a receipt or payment clears the bank once
+  unique().on(table.supplierPaymentId),
+]);
+
+// Dunning ladder - overdue invoices climb one level at a time as days overdue grow
+export const dunningLevels = pgTable("dunning_levels", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  level: integer("level").notNull().unique(), // 1, 2, 3 ...
+  name: varchar("name", { length: 100 }).notNull(),
+  daysOverdue: integer("days_overdue").notNull(), // reached when an invoice is this many days past due
+  action: dunningActionEnum("action").default('reminder').notNull(),
+  communicationType: communicationTypeEnum("communication_type").default('email').notNull(),
+  subjectTemplate: varchar("subject_template", { length: 500 }).notNull(),
+  bodyTemplate: text("body_template").notNull(), // placeholders: {customer}, {invoices}, {totalDue}, {daysOverdue}, {company}
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Regulatory Compliance Module Tables
+
+// Licenses table
+export const licenses = pgTable("licenses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  licenseNumber: varchar("license_number").notNull().unique(),
+  licenseType: varchar("license_type").notNull(), // pharmacy_license, import_permit, wholesale_license, etc.
+  licenseName: varchar("license_name", { length: 255 }).notNull(),
+  issuingAuthority: varchar("issuing_authority").notNull(),
+  issuedDate: date("issued_date").notNull(),
+  expiryDate: date("expiry_date").notNull(),
+  renewalDate: date("renewal_date"),
+  status: licenseStatusEnum("status").default('active'),
+  documentPath: varchar("document_path"), // file storage path
+  conditions: text("conditions"), // special conditions or restrictions
+  annualFee: decimal("annual_fee", { precision: 12, scale: 2 }),
+  currency: varchar("currency", { length: 3 }).default('AOA'),
+  contactPerson: varchar("contact_person"),
+  contactEmail: varchar("contact_email"),
+  contactPhone: varchar("contact_phone"),
+  reminderDays: integer("reminder_days").default(30), // days before expiry to remind
+  managedBy: varchar("managed_by").references(() => users.id).notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Regulatory reports table
+export const regulatoryReports = pgTable("regulatory_reports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  reportType: varchar("report_type").notNull(), // monthly_sales, inventory_summary, adverse_events, etc.
+  reportPeriod: varchar("report_period").notNull(), // 2024-01, 2024-Q1, 2024-Annual
+  submittedTo: varchar("submitted_to").notNull(), // regulatory authority name
+  dueDate: date("due_date").notNull(),
+  submittedDate: date("submitted_date"),
+  reportData: jsonb("report_data").notNull(), // structured report data
+  documentPath: varchar("document_path"), // generated report file path
+  status: regulatoryReportStatusEnum("status").default('draft'),
+  submissionReference: varchar("submission_reference"), // authority reference number
+  preparedBy: varchar("prepared_by").references(() => users.id).notNull(),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  approvedBy: varchar("approved_by").references(() => users.id),
+  rejectionReason: text("rejection_reason"),
+  followUpRequired: boolean("follow_up_required").default(false),
+  followUpDate: date("follow_up_date"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Audit logs table
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  tableName: varchar("table_name").notNull(), // affected table
+  recordId: varchar("record_id").notNull(), // affected record ID
+  action: auditActionEnum("action").notNull(),
+  oldValues: jsonb("old_values"), // previous values for updates
+  newValues: jsonb("new_values"), // new values for creates/updates
+  userId: varchar("user_id").references(() => users.id),
+  ipAddress: varchar("ip_address"),
   userAgent: text("user_agent"),
   sessionId: varchar("session_id"),
   module: varchar("module"), // which module/feature was used
   description: text("description"), // human-readable description
   metadata: jsonb("metadata"), // additional context data
   timestamp: timestamp("timestamp").defaultNow().notNull(),
-});
+  // Hash chain (server/audit.ts); null for entries written before the chain existed
+  sequenceNumber: integer("sequence_number"),
+  previousHash: varchar("previous_hash", { length: 64 }),
+  hash: varchar("hash", { length: 64 }),
+}, (table) => [
+  unique("uq_audit_logs_sequence").on(table.sequenceNumber),
+  index("idx_audit_logs_record").on(table.tableName, table.recordId),
+  index("idx_audit_logs_timestamp").on(table.timestamp),
+]);
 
 // Recall notices table
 export const recallNotices = pgTable("recall_notices", {
@@ -1515,6 +2370,24 @@ export const recallNotices = pgTable("recall_notices", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Recall returns table - recalled units brought back by customers
+export const recallReturns = pgTable("recall_returns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+  recallNoticeId: varchar("recall_notice_id").references(() => recallNotices.id).notNull(),
+  customerId: varchar("customer_id").references(() => customers.id), // Nullable for walk-in customers
+  inventoryId: varchar("inventory_id").references(() => inventory.id), // recalled batch the units were sold from
+  returnedInventoryId: varchar("returned_inventory_id").references(() => inventory.id), // quarantined batch the units were received into
+  salesOrderId: varchar("sales_order_id").references(() => salesOrders.id),
+  posReceiptId: varchar("pos_receipt_id").references(() => posReceipts.id),
+  batchNumber: varchar("batch_number"),
+  quantity: integer("quantity").notNull(),
+  notes: text("notes"),
+  recordedBy: varchar("recorded_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_recall_returns_recall").on(table.recallNoticeId),
+]);
+
 // AI Module Tables
 
 // AI chat sessions table
@@ -1635,6 +2508,10 @@ export const customersRelations = relations(customers, ({ one, many }) => ({
     fields: [customers.assignedSalesRep],
     references: [users.id],
   }),
+  taxExemptionCode: one(taxCodes, {
+    fields: [customers.taxExemptionCodeId],
+    references: [taxCodes.id],
+  }),
   salesOrders: many(salesOrders),
   invoices: many(invoices),
   quotations: many(quotations),
@@ -1651,7 +2528,11 @@ export const warehousesRelations = relations(warehouses, ({ many }) => ({
   stockMovements: many(stockMovements),
 }));
 
-export const productsRelations = relations(products, ({ many }) => ({
+export const productsRelations = relations(products, ({ one, many }) => ({
+  taxCode: one(taxCodes, {
+    fields: [products.taxCodeId],
+    references: [taxCodes.id],
+  }),
   inventory: many(inventory),
   salesOrderItems: many(salesOrderItems),
   purchaseOrderItems: many(purchaseOrderItems),
@@ -1667,8 +2548,13 @@ export const inventoryRelations = relations(inventory, ({ one, many }) => ({
     fields: [inventory.warehouseId],
     references: [warehouses.id],
   }),
+  recallNotice: one(recallNotices, {
+    fields: [inventory.recallNoticeId],
+    references: [recallNotices.id],
+  }),
   salesOrderItems: many(salesOrderItems),
   stockMovements: many(stockMovements),
+  stockReservations: many(stockReservations),
 }));
 
 export const salesOrdersRelations = relations(salesOrders, ({ one, many }) => ({
@@ -1682,6 +2568,7 @@ export const salesOrdersRelations = relations(salesOrders, ({ one, many }) => ({
   }),
   items: many(salesOrderItems),
   invoices: many(invoices),
+  shipments: many(shipments),
 }));
 
 export const salesOrderItemsRelations = relations(salesOrderItems, ({ one }) => ({
@@ -1699,6 +2586,57 @@ export const salesOrderItemsRelations = relations(salesOrderItems, ({ one }) =>
   }),
 }));
 
+export const stockReservationsRelations = relations(stockReservations, ({ one }) => ({
+  salesOrder: one(salesOrders, {
+    fields: [stockReservations.salesOrderId],
+    references: [salesOrders.id],
+  }),
+  salesOrderItem: one(salesOrderItems, {
+    fields: [stockReservations.salesOrderItemId],
+    references: [salesOrderItems.id],
+  }),
+  inventory: one(inventory, {
+    fields: [stockReservations.inventoryId],
+    references: [inventory.id],
+  }),
+  warehouse: one(warehouses, {
+    fields: [stockReservations.warehouseId],
+    references: [warehouses.id],
+  }),
+}));
+
+export const shipmentsRelations = relations(shipments, ({ one, many }) => ({
+  salesOrder: one(salesOrders, {
+    fields: [shipments.salesOrderId],
+    references: [salesOrders.id],
+  }),
+  warehouse: one(warehouses, {
+    fields: [shipments.warehouseId],
+    references: [warehouses.id],
+  }),
+  items: many(shipmentItems),
+  invoices: many(invoices),
+}));
+
+export const shipmentItemsRelations = relations(shipmentItems, ({ one }) => ({
+  shipment: one(shipments, {
+    fields: [shipmentItems.shipmentId],
+    references: [shipments.id],
+  }),
+  salesOrderItem: one(salesOrderItems, {
+    fields: [shipmentItems.salesOrderItemId],
+    references: [salesOrderItems.id],
+  }),
+  product: one(products, {
+    fields: [shipmentItems.productId],
+    references: [products.id],
+  }),
+  inventory: one(inventory, {
+    fields: [shipmentItems.inventoryId],
+    references: [inventory.id],
+  }),
+}));
+
 export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many }) => ({
   supplier: one(suppliers, {
     fields: [purchaseOrders.supplierId],
@@ -1727,6 +2665,10 @@ export const invoicesRelations = relations(invoices, ({ one }) => ({
     fields: [invoices.salesOrderId],
     references: [salesOrders.id],
   }),
+  shipment: one(shipments, {
+    fields: [invoices.shipmentId],
+    references: [shipments.id],
+  }),
 }));
 
 export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
@@ -1748,6 +2690,66 @@ export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
   }),
 }));
 
+export const transferOrdersRelations = relations(transferOrders, ({ one, many }) => ({
+  sourceWarehouse: one(warehouses, {
+    fields: [transferOrders.sourceWarehouseId],
+    references: [warehouses.id],
+    relationName: "transferSource",
+  }),
+  destinationWarehouse: one(warehouses, {
+    fields: [transferOrders.destinationWarehouseId],
+    references: [warehouses.id],
+    relationName: "transferDestination",
+  }),
+  items: many(transferOrderItems),
+}));
+
+export const transferOrderItemsRelations = relations(transferOrderItems, ({ one }) => ({
+  transferOrder: one(transferOrders, {
+    fields: [transferOrderItems.transferOrderId],
+    references: [transferOrders.id],
+  }),
+  product: one(products, {
+    fields: [transferOrderItems.productId],
+    references: [products.id],
+  }),
+  sourceInventory: one(inventory, {
+    fields: [transferOrderItems.sourceInventoryId],
+    references: [inventory.id],
+  }),
+}));
+
+export const stockCountsRelations = relations(stockCounts, ({ one, many }) => ({
+  warehouse: one(warehouses, {
+    fields: [stockCounts.warehouseId],
+    references: [warehouses.id],
+  }),
+  journalEntry: one(journalEntries, {
+    fields: [stockCounts.journalEntryId],
+    references: [journalEntries.id],
+  }),
+  lines: many(stockCountLines),
+}));
+
+export const stockCountLinesRelations = relations(stockCountLines, ({ one }) => ({
+  stockCount: one(stockCounts, {
+    fields: [stockCountLines.stockCountId],
+    references: [stockCounts.id],
+  }),
+  product: one(products, {
+    fields: [stockCountLines.productId],
+    references: [products.id],
+  }),
+  inventory: one(inventory, {
+    fields: [stockCountLines.inventoryId],
+    references: [inventory.id],
+  }),
+  stockMovement: one(stockMovements, {
+    fields: [stockCountLines.stockMovementId],
+    references: [stockMovements.id],
+  }),
+}));
+
 // CRM Module Relations
 export const quotationsRelations = relations(quotations, ({ one, many }) => ({
   customer: one(customers, {
@@ -1777,7 +2779,7 @@ export const quotationItemsRelations = relations(quotationItems, ({ one }) => ({
   }),
 }));
 
-export const receiptsRelations = relations(receipts, ({ one }) => ({
+export const receiptsRelations = relations(receipts, ({ one, many }) => ({
   customer: one(customers, {
     fields: [receipts.customerId],
     references: [customers.id],
@@ -1791,6 +2793,22 @@ export const receiptsRelations = relations(receipts, ({ one }) => ({
     references: [users.id],
     relationName: "receiver",
   }),
+  allocations: many(receiptAllocations),
+}));
+
+export const receiptAllocationsRelations = relations(receiptAllocations, ({ one }) => ({
+  receipt: one(receipts, {
+    fields: [receiptAllocations.receiptId],
+    references: [receipts.id],
+  }),
+  invoice: one(invoices, {
+    fields: [receiptAllocations.invoiceId],
+    references: [invoices.id],
+  }),
+  journalEntry: one(journalEntries, {
+    fields: [receiptAllocations.journalEntryId],
+    references: [journalEntries.id],
+  }),
 }));
 
 export const commissionEntriesRelations = relations(commissionEntries, ({ one }) => ({
@@ -2093,6 +3111,183 @@ export const regulatoryReportsRelations = relations(regulatoryReports, ({ one })
   }),
 }));
 
+export const glAccountsRelations = relations(glAccounts, ({ one, many }) => ({
+  parent: one(glAccounts, {
+    fields: [glAccounts.parentId],
+    references: [glAccounts.id],
+    relationName: "parent",
+  }),
+  children: many(glAccounts, { relationName: "parent" }),
+  lines: many(journalLines),
+}));
+
+export const journalEntriesRelations = relations(journalEntries, ({ one, many }) => ({
+  lines: many(journalLines),
+  reversalOf: one(journalEntries, {
+    fields: [journalEntries.reversalOfId],
+    references: [journalEntries.id],
+  }),
+  creator: one(users, {
+    fields: [journalEntries.createdBy],
+    references: [users.id],
+    relationName: "creator",
+  }),
+  poster: one(users, {
+    fields: [journalEntries.postedBy],
+    references: [users.id],
+    relationName: "poster",
+  }),
+}));
+
+export const supplierPaymentsRelations = relations(supplierPayments, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [supplierPayments.supplierId],
+    references: [suppliers.id],
+  }),
+  paymentRun: one(paymentRuns, {
+    fields: [supplierPayments.paymentRunId],
+    references: [paymentRuns.id],
+  }),
+  allocations: many(supplierPaymentAllocations),
+}));
+
+export const supplierPaymentAllocationsRelations = relations(supplierPaymentAllocations, ({ one }) => ({
+  payment: one(supplierPayments, {
+    fields: [supplierPaymentAllocations.paymentId],
+    references: [supplierPayments.id],
+  }),
+  bill: one(vendorBills, {
+    fields: [supplierPaymentAllocations.billId],
+    references: [vendorBills.id],
+  }),
+}));
+
+export const landedCostsRelations = relations(landedCosts, ({ many }) => ({
+  charges: many(landedCostCharges),
+  sources: many(landedCostSources),
+  allocations: many(landedCostAllocations),
+}));
+
+export const landedCostChargesRelations = relations(landedCostCharges, ({ one }) => ({
+  landedCost: one(landedCosts, {
+    fields: [landedCostCharges.landedCostId],
+    references: [landedCosts.id],
+  }),
+  supplier: one(suppliers, {
+    fields: [landedCostCharges.supplierId],
+    references: [suppliers.id],
+  }),
+}));
+
+export const landedCostSourcesRelations = relations(landedCostSources, ({ one }) => ({
+  landedCost: one(landedCosts, {
+    fields: [landedCostSources.landedCostId],
+    references: [landedCosts.id],
+  }),
+  purchaseOrder: one(purchaseOrders, {
+    fields: [landedCostSources.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  goodsReceipt: one(goodsReceipts, {
+    fields: [landedCostSources.goodsReceiptId],
+    references: [goodsReceipts.id],
+  }),
+}));
+
+export const landedCostAllocationsRelations = relations(landedCostAllocations, ({ one }) => ({
+  landedCost: one(landedCosts, {
+    fields: [landedCostAllocations.landedCostId],
+    references: [landedCosts.id],
+  }),
+  charge: one(landedCostCharges, {
+    fields: [landedCostAllocations.chargeId],
+    references: [landedCostCharges.id],
+  }),
+  inventory: one(inventory, {
+    fields: [landedCostAllocations.inventoryId],
+    references: [inventory.id],
+  }),
+}));
+
+export const paymentRunsRelations = relations(paymentRuns, ({ many }) => ({
+  lines: many(paymentRunLines),
+  payments: many(supplierPayments),
+}));
+
+export const paymentRunLinesRelations = relations(paymentRunLines, ({ one }) => ({
+  paymentRun: one(paymentRuns, {
+    fields: [paymentRunLines.paymentRunId],
+    references: [paymentRuns.id],
+  }),
+  supplier: one(suppliers, {
+    fields: [paymentRunLines.supplierId],
+    references: [suppliers.id],
+  }),
+  bill: one(vendorBills, {
+    fields: [paymentRunLines.billId],
+    references: [vendorBills.id],
+  }),
+}));
+
+export const bankAccountsRelations = relations(bankAccounts, ({ many }) => ({
+  statements: many(bankStatements),
+  reconciliations: many(bankReconciliations),
+}));
+
+export const bankStatementsRelations = relations(bankStatements, ({ one, many }) => ({
+  bankAccount: one(bankAccounts, {
+    fields: [bankStatements.bankAccountId],
+    references: [bankAccounts.id],
+  }),
+  lines: many(bankStatementLines),
+}));
+
+export const bankStatementLinesRelations = relations(bankStatementLines, ({ one }) => ({
+  statement: one(bankStatements, {
+    fields: [bankStatementLines.statementId],
+    references: [bankStatements.id],
+  }),
+  receipt: one(receipts, {
+    fields: [bankStatementLines.receiptId],
+    references: [receipts.id],
+  }),
+  supplierPayment: one(supplierPayments, {
+    fields: [bankStatementLines.supplierPaymentId],
+    references: [supplierPayments.id],
+  }),
+  reconciliation: one(bankReconciliations, {
+    fields: [bankStatementLines.reconciliationId],
+    references: [bankReconciliations.id],
+  }),
+}));
+
+export const bankReconciliationsRelations = relations(bankReconciliations, ({ one, many }) => ({
+  bankAccount: one(bankAccounts, {
+    fields: [bankReconciliations.bankAccountId],
+    references: [bankAccounts.id],
+  }),
+  lines: many(bankStatementLines),
+}));
+
+export const journalLinesRelations = relations(journalLines, ({ one }) => ({
+  journalEntry: one(journalEntries, {
+    fields: [journalLines.journalEntryId],
+    references: [journalEntries.id],
+  }),
+  account: one(glAccounts, {
+    fields: [journalLines.accountId],
+    references: [glAccounts.id],
+  }),
+  customer: one(customers, {
+    fields: [journalLines.customerId],
+    references: [customers.id],
+  }),
+  supplier: one(suppliers, {
+    fields: [journalLines.supplierId],
+    references: [suppliers.id],
+  }),
+}));
+
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   user: one(users, {
     fields: [auditLogs.userId],
@@ -2101,7 +3296,7 @@ export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   }),
 }));
 
-export const recallNoticesRelations = relations(recallNotices, ({ one }) => ({
+export const recallNoticesRelations = relations(recallNotices, ({ one, many }) => ({
   product: one(products, {
     fields: [recallNotices.productId],
     references: [products.id],
@@ -2111,6 +3306,41 @@ export const recallNoticesRelations = relations(recallNotices, ({ one }) => ({
     references: [users.id],
     relationName: "manager",
   }),
+  returns: many(recallReturns),
+}));
+
+export const recallReturnsRelations = relations(recallReturns, ({ one }) => ({
+  recallNotice: one(recallNotices, {
+    fields: [recallReturns.recallNoticeId],
+    references: [recallNotices.id],
+  }),
+  customer: one(customers, {
+    fields: [recallReturns.customerId],
+    references: [customers.id],
+  }),
+  inventory: one(inventory, {
+    fields: [recallReturns.inventoryId],
+    references: [inventory.id],
+  }),
+  recorder: one(users, {
+    fields: [recallReturns.recordedBy],
+    references: [users.id],
+  }),
+}));
+
+export const documentSequencesRelations = relations(documentSequences, ({ one, many }) => ({
+  terminal: one(posTerminals, {
+    fields: [documentSequences.terminalId],
+    references: [posTerminals.id],
+  }),
+  counters: many(documentSequenceCounters),
+}));
+
+export const documentSequenceCountersRelations = relations(documentSequenceCounters, ({ one }) => ({
+  sequence: one(documentSequences, {
+    fields: [documentSequenceCounters.sequenceId],
+    references: [documentSequences.id],
+  }),
 }));
 
 // AI Module Relations
@@ -2313,17 +3543,27 @@ export const insertSalesOrderSchema = createInsertSchema(salesOrders).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  baseTotalAmount: true, // derived from the total and rate
+  taxBreakdown: true, // derived from the lines' tax codes
+}).extend({
+  // Assigned from the document sequence when left empty
+  orderNumber: z.string().optional(),
 });
 
 export const insertSalesOrderItemSchema = createInsertSchema(salesOrderItems).omit({
   id: true,
   createdAt: true,
+  taxRate: true, // taken from the resolved tax code
+  taxAmount: true,
 });
 
 export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  // Assigned from the document sequence when left empty
+  orderNumber: z.string().optional(),
 });
 
 export const insertPurchaseOrderItemSchema = createInsertSchema(purchaseOrderItems).omit({
@@ -2335,11 +3575,36 @@ export const insertInvoiceSchema = createInsertSchema(invoices).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  dunningLevel: true, // maintained by the dunning run
+  lastDunnedAt: true,
+  baseSubtotal: true, // derived from the amounts and rate
+  baseTaxAmount: true,
+  baseTotalAmount: true,
+  taxBreakdown: true, // derived from the order lines or the customer's tax code
+  creditedInvoiceId: true, // set by sales returns
+  creditedLines: true,
+}).extend({
+  // Assigned from the document sequence when left empty
+  invoiceNumber: z.string().optional(),
 });
 
 export const insertStockMovementSchema = createInsertSchema(stockMovements).omit({
   id: true,
   createdAt: true,
+  unitCost: true,
+  totalCost: true,
+  costOfSales: true,
+});
+
+export const insertTransferOrderSchema = createInsertSchema(transferOrders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTransferOrderItemSchema = createInsertSchema(transferOrderItems).omit({
+  id: true,
+  createdAt: true,
 });
 
 // HR Module Insert Schemas
@@ -2385,6 +3650,7 @@ export const insertPosSessionSchema = createInsertSchema(posSessions).omit({
 export const insertPosReceiptSchema = createInsertSchema(posReceipts).omit({
   id: true,
   createdAt: true,
+  taxBreakdown: true,
 });
 
 export const insertPosPaymentSchema = createInsertSchema(posPayments).omit({
@@ -2495,8 +3761,9 @@ export const insertQuotationSchema = createInsertSchema(quotations).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  taxBreakdown: true, // derived from the lines' tax codes
 }).extend({
-  quotationNumber: z.string().min(1, "Quotation number is required and should be unique (e.g., QUO-2024-001)"),
+  quotationNumber: z.string().optional(), // Assigned from the document sequence when left empty
   customerId: z.string().min(1, "Please select a customer from the dropdown list"),
   salesRepId: z.string().optional().refine(
     (val) => !val || val.length > 0,
@@ -2522,11 +3789,16 @@ export const insertQuotationSchema = createInsertSchema(quotations).omit({
 export const insertQuotationItemSchema = createInsertSchema(quotationItems).omit({
   id: true,
   createdAt: true,
+  tax: true, // rate of the resolved tax code
+}).extend({
+  lineTotal: z.string().optional(), // recomputed from quantity, price, discount and IVA
 });
 
 export const insertReceiptSchema = createInsertSchema(receipts).omit({
   id: true,
   createdAt: true,
+  baseAmount: true,
+  journalEntryId: true,
 });
 
 export const insertCommissionEntrySchema = createInsertSchema(commissionEntries).omit({
@@ -2557,6 +3829,59 @@ export const insertReportExportSchema = createInsertSchema(reportExports).omit({
   createdAt: true,
 });
 
+export const insertOutboxMessageSchema = createInsertSchema(outboxMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGlAccountSchema = createInsertSchema(glAccounts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  code: z.string().min(1).max(20).regex(/^\d+(\.\d+)*$/, "Account codes are digits separated by dots, e.g. 31.1.1"),
+});
+
+export const insertDunningLevelSchema = createInsertSchema(dunningLevels).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  level: z.number().int().min(1),
+  daysOverdue: z.number().int().min(1),
+});
+
+export const insertTaxCodeSchema = createInsertSchema(taxCodes).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  code: z.string().min(1, "Code is required").max(10).transform(code => code.toUpperCase()),
+  rate: z.string().refine(
+    (val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100,
+    "Rate must be a percentage between 0 and 100"
+  ),
+  exemptionCode: z.string().regex(/^M\d{2}$/, "Exemption code must be an AGT code such as M11").nullish(),
+});
+
+export const insertBankAccountSchema = createInsertSchema(bankAccounts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  currency: z.string().length(3, "Currency must be a 3-letter ISO code").transform(c => c.toUpperCase()),
+  iban: z.string().max(34).transform(iban => iban.replace(/\s+/g, '').toUpperCase()).nullish(),
+});
+
+export const insertDocumentSequenceSchema = createInsertSchema(documentSequences).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  series: z.string().min(1).max(20).regex(/^[A-Za-z0-9\-]+$/, "Series may only contain letters, digits and '-'"),
+  pattern: z.string().min(1).max(100).refine(p => /\{seq(:\d+)?\}/.test(p), "Pattern must contain a {seq} or {seq:N} token"),
+});
+
 // Regulatory Compliance Insert Schemas
 export const insertLicenseSchema = createInsertSchema(licenses).omit({
   id: true,
@@ -2572,6 +3897,9 @@ export const insertRegulatoryReportSchema = createInsertSchema(regulatoryReports
 
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   id: true,
+  sequenceNumber: true,
+  previousHash: true,
+  hash: true,
 });
 
 export const insertRecallNoticeSchema = createInsertSchema(recallNotices).omit({
@@ -2580,13 +3908,18 @@ export const insertRecallNoticeSchema = createInsertSchema(recallNotices).omit({
   updatedAt: true,
 });
 
+export const insertRecallReturnSchema = createInsertSchema(recallReturns).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Purchase Module Insert Schemas
 export const insertPurchaseRequestSchema = createInsertSchema(purchaseRequests).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
-  prNumber: z.string().min(1, "Purchase request number is required and should be unique (e.g., PR-2024-001)"),
+  prNumber: z.string().optional(), // Assigned from the document sequence when left empty
   requesterId: z.string().min(1, "Requester must be specified - please select who is making this request"),
   supplierId: z.string().optional().refine(
     (val) => !val || val.length > 0,
@@ -2655,11 +3988,18 @@ export const insertVendorBillSchema = createInsertSchema(vendorBills).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  paidAmount: true, // maintained by supplier payments
+  taxBreakdown: true, // derived from the lines' tax codes
+}).extend({
+  // Assigned from the document sequence when left empty
+  billNumber: z.string().optional(),
 });
 
 export const insertVendorBillItemSchema = createInsertSchema(vendorBillItems).omit({
   id: true,
   createdAt: true,
+  taxRate: true, // taken from the resolved tax code
+  taxAmount: true,
 });
 
 export const insertFxRateSchema = createInsertSchema(fxRates).omit({
@@ -2719,6 +4059,18 @@ export type InsertSalesOrder = z.infer<typeof insertSalesOrderSchema>;
 export type SalesOrder = typeof salesOrders.$inferSelect;
 export type InsertSalesOrderItem = z.infer<typeof insertSalesOrderItemSchema>;
 export type SalesOrderItem = typeof salesOrderItems.$inferSelect;
+export type StockReservation = typeof stockReservations.$inferSelect;
+export type Shipment = typeof shipments.$inferSelect;
+export type ShipmentItem = typeof shipmentItems.$inferSelect;
+
+// Available to promise: on hand in sellable batches minus active reservations
+export type AvailableToPromise = {
+  productId: string;
+  warehouseId?: string;
+  onHand: number;
+  reserved: number;
+  available: number;
+};
 export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
 export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
 export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSchema>;
@@ -2727,6 +4079,12 @@ export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 export type Invoice = typeof invoices.$inferSelect;
 export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
 export type StockMovement = typeof stockMovements.$inferSelect;
+export type InsertTransferOrder = z.infer<typeof insertTransferOrderSchema>;
+export type TransferOrder = typeof transferOrders.$inferSelect;
+export type InsertTransferOrderItem = z.infer<typeof insertTransferOrderItemSchema>;
+export type TransferOrderItem = typeof transferOrderItems.$inferSelect;
+export type StockCount = typeof stockCounts.$inferSelect;
+export type StockCountLine = typeof stockCountLines.$inferSelect;
 
 // HR Module Types
 export type InsertEmployee = z.infer<typeof insertEmployeeSchema>;
@@ -2795,6 +4153,625 @@ export type InsertSavedReport = z.infer<typeof insertSavedReportSchema>;
 export type SavedReport = typeof savedReports.$inferSelect;
 export type InsertReportExport = z.infer<typeof insertReportExportSchema>;
 export type ReportExport = typeof reportExports.$inferSelect;
+export type InsertOutboxMessage = z.infer<typeof insertOutboxMessageSchema>;
+export type OutboxMessage = typeof outboxMessages.$inferSelect;
+
+export type InsertDocumentSequence = z.infer<typeof insertDocumentSequenceSchema>;
+export type DocumentSequence = typeof documentSequences.$inferSelect;
+export type DocumentSequenceCounter = typeof documentSequenceCounters.$inferSelect;
+export type IssuedDocumentNumber = typeof issuedDocumentNumbers.$inferSelect;
+export type DocumentType = typeof documentTypeEnum.enumValues[number];
+
+export type InsertGlAccount = z.infer<typeof insertGlAccountSchema>;
+export type GlAccount = typeof glAccounts.$inferSelect;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type JournalLine = typeof journalLines.$inferSelect;
+export type JournalSource = typeof journalSourceEnum.enumValues[number];
+
+export type InsertDunningLevel = z.infer<typeof insertDunningLevelSchema>;
+export type DunningLevel = typeof dunningLevels.$inferSelect;
+
+// Open receivables by days past due; "current" is not yet due
+export type AgingBuckets = {
+  current: number;
+  days0to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  total: number;
+};
+
+export type ReceivablesAgingCustomerRow = AgingBuckets & {
+  customerId: string;
+  customerName: string;
+  salesRepId: string | null;
+  salesRepName: string | null;
+  invoiceCount: number;
+  dunningLevel: number;
+  creditHold: boolean;
+};
+
+export type ReceivablesAgingSalesRepRow = AgingBuckets & {
+  salesRepId: string | null;
+  salesRepName: string | null;
+  customerCount: number;
+};
+
+export type ReceivablesAging = {
+  asOf: string;
+  customers: ReceivablesAgingCustomerRow[];
+  salesReps: ReceivablesAgingSalesRepRow[];
+  totals: AgingBuckets;
+};
+
+export type DunningRunResult = {
+  asOf: string;
+  markedOverdue: number;
+  notices: Array<{
+    customerId: string;
+    customerName: string;
+    level: number;
+    levelName: string;
+    action: DunningLevel['action'];
+    invoiceNumbers: string[];
+    communicationId: string | null;
+  }>;
+};
+
+export type ReceiptAllocation = typeof receiptAllocations.$inferSelect;
+
+export type TaxCode = typeof taxCodes.$inferSelect;
+export type InsertTaxCode = z.infer<typeof insertTaxCodeSchema>;
+export type CategoryTaxCode = typeof categoryTaxCodes.$inferSelect;
+
+// Taxable amount and IVA of a document for one tax code, in the document's currency
+export type TaxBreakdownLine = {
+  taxCodeId: string;
+  code: string;
+  category: TaxCode['category'];
+  rate: number;
+  exemptionCode: string | null;
+  exemptionReason: string | null;
+  taxableAmount: number;
+  taxAmount: number;
+};
+
+// A returned item refunded by a credit note, at the price and tax code it was sold at
+export type CreditedLine = {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  netAmount: number;
+  taxCodeId: string;
+  taxRate: number;
+  taxAmount: number;
+  reason: string | null;
+};
+
+export type VatReturnLine = Omit<TaxBreakdownLine, 'taxCodeId'> & {
+  taxCodeId: string | null; // null for documents issued before tax codes
+  documentCount: number;
+};
+
+// Periodic IVA return in the base currency: IVA charged on sales against IVA deductible on
+// purchases, with the ledger balances of both accounts for the period to reconcile against
+export type VatReturn = {
+  from: string;
+  to: string;
+  baseCurrency: string;
+  outputLines: VatReturnLine[];
+  inputLines: VatReturnLine[];
+  outputTax: number;
+  inputTax: number;
+  netTax: number; // positive: payable to the AGT; negative: IVA to recover
+  ledgerOutputTax: number;
+  ledgerInputTax: number;
+};
+
+export const setCategoryTaxCodeRequestSchema = z.object({
+  category: z.string().min(1, "Category is required"),
+  taxCodeId: z.string().min(1, "Tax code is required"),
+});
+
+export const vatReturnQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "From must be YYYY-MM-DD"),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "To must be YYYY-MM-DD"),
+});
+
+// Documents and master data for a SAF-T (AO) file, in each document's own currency
+export type SaftDocumentLine = {
+  productId: string | null; // null where the document has no item detail
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  netAmount: number;
+  taxCode: Pick<TaxCode, 'code' | 'category' | 'exemptionCode' | 'exemptionReason'>;
+  taxRate: number;
+};
+
+export type SaftSalesDocument = {
+  id: string;
+  documentNumber: string;
+  documentType: 'invoice' | 'credit_note' | 'pos_receipt';
+  cancelled: boolean;
+  documentDate: string;
+  systemEntryDate: Date;
+  customerId: string | null; // null for walk-in POS sales
+  createdBy: string | null;
+  currency: string;
+  fxRate: number;
+  netTotal: number;
+  taxPayable: number;
+  grossTotal: number;
+  hash: string | null; // null for documents issued before signing
+  hashControl: string | null;
+  creditedDocumentNumber: string | null;
+  creditReason: string | null;
+  lines: SaftDocumentLine[];
+};
+
+export type SaftPayment = {
+  id: string;
+  receiptNumber: string;
+  cancelled: boolean;
+  paymentDate: string;
+  systemEntryDate: Date;
+  customerId: string;
+  receivedBy: string;
+  paymentMethod: Receipt['paymentMethod'];
+  currency: string;
+  fxRate: number;
+  amount: number;
+  lines: { invoiceNumber: string; invoiceDate: string; amount: number }[];
+};
+
+export type SaftLedgerAccount = Pick<GlAccount, 'code' | 'name' | 'parentId' | 'isPostable'> & {
+  parentCode: string | null;
+  openingBalance: number; // debit positive
+  closingBalance: number;
+};
+
+export type SaftLedgerEntry = Pick<JournalEntry, 'entryNumber' | 'entryDate' | 'description' | 'sourceType' | 'sourceReference' | 'status' | 'postedBy'> & {
+  postedAt: Date | null;
+  lines: { accountCode: string; debit: number; credit: number; description: string | null; customerId: string | null; supplierId: string | null }[];
+};
+
+export type SaftSourceData = {
+  from: string;
+  to: string;
+  customers: Customer[];
+  suppliers: Supplier[];
+  products: Product[];
+  taxCodes: TaxCode[];
+  salesDocuments: SaftSalesDocument[];
+  payments: SaftPayment[];
+  generalLedger: { accounts: SaftLedgerAccount[]; entries: SaftLedgerEntry[] } | null;
+};
+
+export type FiscalSignature = typeof fiscalSignatures.$inferSelect;
+
+export type FiscalChainBreak = {
+  series: string;
+  chainPosition: number;
+  documentNumber: string;
+  problem: string;
+};
+
+// Result of walking every hash chain: a chain is intact when each signature verifies, links
+// to the previous one and still matches its document
+export type FiscalChainVerification = {
+  verifiedAt: string;
+  chains: { series: string; documents: number; lastDocumentNumber: string; intact: boolean }[];
+  breaks: FiscalChainBreak[];
+};
+
+export const saftExportQuerySchema = vatReturnQuerySchema.extend({
+  includeGeneralLedger: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+});
+
+// One open document revalued: adjustment is in the base currency, positive when the
+// receivable or payable grew
+export type FxRevaluationLine = {
+  kind: 'receivable' | 'payable';
+  documentId: string;
+  documentNumber: string;
+  partyId: string;
+  partyName: string;
+  currency: string;
+  openAmount: number;
+  bookedRate: number;
+  revaluedRate: number;
+  adjustment: number;
+};
+
+export type FxRevaluation = typeof fxRevaluations.$inferSelect;
+
+export type FxRevaluationPreview = {
+  revaluationDate: string;
+  baseCurrency: string;
+  lines: FxRevaluationLine[];
+  receivablesAdjustment: number;
+  payablesAdjustment: number;
+};
+
+export type AccountingModule = typeof accountingModuleEnum.enumValues[number];
+export type AccountingPeriod = typeof accountingPeriods.$inferSelect;
+
+const accountingPeriodField = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Period must be YYYY-MM");
+
+export const closeAccountingPeriodRequestSchema = z.object({
+  module: z.enum(accountingModuleEnum.enumValues),
+  period: accountingPeriodField,
+  status: z.enum(['soft_closed', 'hard_closed']),
+});
+
+export const reopenAccountingPeriodRequestSchema = z.object({
+  module: z.enum(accountingModuleEnum.enumValues),
+  period: accountingPeriodField,
+  reason: z.string().min(1, "A reason is required"),
+});
+
+export const monthEndChecklistQuerySchema = z.object({
+  period: accountingPeriodField,
+});
+
+export type CloseAccountingPeriodRequest = z.infer<typeof closeAccountingPeriodRequestSchema>;
+export type ReopenAccountingPeriodRequest = z.infer<typeof reopenAccountingPeriodRequestSchema>;
+
+// What is still outstanding for a month up to its last day. Each list holds back the hard
+// close of one module: goods receipts inventory, bills purchases, POS sessions sales.
+export type MonthEndChecklist = {
+  period: string;
+  unpostedGoodsReceipts: { id: string; grNumber: string; poNumber: string | null; receivedAt: Date }[];
+  unmatchedBills: { id: string; billNumber: string; supplierName: string; billDate: string; totalAmount: number; currency: string; matchStatus: string | null }[];
+  openPosSessions: { id: string; sessionNumber: string; terminalName: string | null; cashierId: string; startTime: Date | null; status: string }[];
+};
+
+export type CostingMethod = typeof costingMethodEnum.enumValues[number];
+
+export const stockValuationQuerySchema = z.object({
+  asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "As-of date must be YYYY-MM-DD"),
+  warehouseId: z.string().optional(),
+});
+
+// Stock on hand and its value at the end of a day, summed from the stock ledger. Movements
+// recorded before costing was introduced count towards quantity but carry no value.
+export type StockValuationLine = {
+  productId: string;
+  sku: string;
+  productName: string;
+  costingMethod: CostingMethod;
+  quantity: number;
+  uncostedQuantity: number;
+  value: number;
+  unitCost: number;
+};
+
+export type StockValuation = {
+  asOf: string;
+  warehouseId: string | null;
+  baseCurrency: string;
+  lines: StockValuationLine[];
+  totalValue: number;
+  glInventoryBalance: number | null; // inventory account balance, for the whole company only
+};
+
+// One line of an invoice, credit note or POS receipt with its cost, in the base currency
+export type MarginLine = {
+  documentType: 'invoice' | 'credit_note' | 'pos_receipt';
+  documentId: string;
+  documentNumber: string;
+  documentDate: string;
+  customerId: string | null;
+  customerName: string;
+  productId: string | null; // null for invoices without item detail
+  productName: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  margin: number;
+};
+
+export type MarginSummary = {
+  id: string | null;
+  name: string;
+  revenue: number;
+  cost: number;
+  margin: number;
+  marginPercent: number | null;
+};
+
+export type MarginReport = {
+  from: string;
+  to: string;
+  baseCurrency: string;
+  lines: MarginLine[];
+  byProduct: MarginSummary[];
+  byCustomer: MarginSummary[];
+  totals: MarginSummary;
+};
+
+export type LandedCost = typeof landedCosts.$inferSelect;
+export type LandedCostCharge = typeof landedCostCharges.$inferSelect;
+export type LandedCostSource = typeof landedCostSources.$inferSelect;
+export type LandedCostAllocation = typeof landedCostAllocations.$inferSelect;
+export type LandedCostChargeType = typeof landedCostChargeTypeEnum.enumValues[number];
+
+// Charge amounts are in the landed cost's currency, converted at its rate on the document date
+export const createLandedCostRequestSchema = z.object({
+  documentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Document date must be YYYY-MM-DD"),
+  allocationMethod: z.enum(landedCostAllocationMethodEnum.enumValues).default('value'),
+  currency: z.string().length(3, "Currency must be a 3-letter ISO code").transform(c => c.toUpperCase()),
+  fxRate: z.number().positive().optional(),
+  notes: z.string().optional(),
+  purchaseOrderIds: z.array(z.string().min(1)).default([]),
+  goodsReceiptIds: z.array(z.string().min(1)).default([]),
+  charges: z.array(z.object({
+    chargeType: z.enum(landedCostChargeTypeEnum.enumValues),
+    supplierId: z.string().optional(),
+    description: z.string().optional(),
+    amount: z.number().positive("Charge must be greater than zero"),
+  })).min(1, "Add at least one charge"),
+}).refine(request => request.purchaseOrderIds.length + request.goodsReceiptIds.length > 0, {
+  message: "Link the landed cost to at least one purchase order or goods receipt",
+  path: ['purchaseOrderIds'],
+});
+
+export type CreateLandedCostRequest = z.infer<typeof createLandedCostRequestSchema>;
+
+// A product's landed cost: what it was bought at plus its share of each charge, base currency
+export type LandedCostBreakdownLine = {
+  productId: string;
+  sku: string;
+  productName: string;
+  quantity: number;
+  purchaseCost: number;
+  charges: Partial<Record<LandedCostChargeType, number>>;
+  landedCost: number; // sum of the charges
+  costOfSalesAmount: number; // part of landedCost on units already sold
+  totalCost: number;
+  unitCost: number;
+  upliftPercent: number | null;
+};
+
+export type LandedCostDetail = LandedCost & {
+  charges: Array<LandedCostCharge & { supplierName: string | null }>;
+  sources: Array<LandedCostSource & { reference: string }>; // PO or GR number
+  baseCurrency: string;
+  breakdown: LandedCostBreakdownLine[]; // for drafts, what allocating now would give
+  allocationError: string | null; // why a draft cannot be allocated yet
+};
+
+export const runFxRevaluationRequestSchema = z.object({
+  revaluationDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Revaluation date must be YYYY-MM-DD"),
+});
+
+// Receipt allocation - "auto" settles the customer's open invoices oldest first (optionally
+// only those listed); "manual" applies the given lines. A line may write off the short-paid
+// rest of its invoice. Whatever is not applied stays on the receipt as unapplied cash.
+export const allocateReceiptRequestSchema = z.object({
+  mode: z.enum(['auto', 'manual']),
+  invoiceIds: z.array(z.string()).optional(),
+  allocations: z.array(z.object({
+    invoiceId: z.string().min(1),
+    amount: z.number().min(0, "Amount cannot be negative"),
+    writeOffAmount: z.number().min(0, "Write-off cannot be negative").optional(),
+    writeOffReason: z.enum(['bank_charges', 'withholding_tax', 'settlement_discount', 'pricing_dispute', 'small_balance', 'bad_debt']).optional(),
+    notes: z.string().optional(),
+  }).refine(line => line.amount > 0 || (line.writeOffAmount ?? 0) > 0, {
+    message: "Allocate or write off an amount",
+  }).refine(line => !line.writeOffAmount || !!line.writeOffReason, {
+    message: "A write-off needs a reason",
+    path: ["writeOffReason"],
+  })).optional(),
+}).refine(request => request.mode === 'auto' || (request.allocations?.length ?? 0) > 0, {
+  message: "Manual allocation needs at least one invoice",
+  path: ["allocations"],
+});
+
+export type AllocateReceiptRequest = z.infer<typeof allocateReceiptRequestSchema>;
+
+export const reverseReceiptAllocationRequestSchema = z.object({
+  reason: z.string().min(1, "A reason is required"),
+});
+
+export type ReceiptAllocationDetail = ReceiptAllocation & {
+  invoiceNumber: string;
+  receiptNumber: string;
+};
+
+export type ReceiptAllocationResult = {
+  receipt: Receipt;
+  allocations: ReceiptAllocationDetail[];
+  unappliedAmount: number;
+};
+
+// Receipts with money not yet applied to invoices, and the open invoices it could settle
+export type CustomerCreditBalance = {
+  customerId: string;
+  customerName: string;
+  unappliedAmount: number;
+  openInvoiceAmount: number;
+  receipts: Array<{ id: string; receiptNumber: string; createdAt: Date | null; currency: string | null; amount: number; unappliedAmount: number }>;
+  openInvoices: Array<{ id: string; invoiceNumber: string; invoiceDate: string; dueDate: string; totalAmount: number; openAmount: number }>;
+};
+
+export type SupplierPayment = typeof supplierPayments.$inferSelect;
+export type SupplierPaymentAllocation = typeof supplierPaymentAllocations.$inferSelect;
+export type PaymentRun = typeof paymentRuns.$inferSelect;
+export type PaymentRunLine = typeof paymentRunLines.$inferSelect;
+
+// Supplier payment - allocation amounts are in each bill's currency; the payment
+// amount is their sum converted into the payment currency
+export const createSupplierPaymentRequestSchema = z.object({
+  supplierId: z.string().min(1, "Supplier is required"),
+  paymentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Payment date must be YYYY-MM-DD"),
+  currency: z.string().length(3, "Currency must be a 3-letter ISO code").transform(c => c.toUpperCase()),
+  paymentMethod: z.enum(['bank_transfer', 'cheque', 'cash']).default('bank_transfer'),
+  reference: z.string().optional(),
+  notes: z.string().optional(),
+  allocations: z.array(z.object({
+    billId: z.string().min(1),
+    amount: z.number().positive("Allocation must be greater than zero"),
+  })).min(1, "Allocate the payment to at least one bill"),
+});
+
+export type CreateSupplierPaymentRequest = z.infer<typeof createSupplierPaymentRequestSchema>;
+
+export const createPaymentRunRequestSchema = z.object({
+  dueBy: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Due-by date must be YYYY-MM-DD"),
+  paymentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // defaults to today
+  supplierIds: z.array(z.string()).optional(),
+  currency: z.string().length(3).optional(),
+  notes: z.string().optional(),
+});
+
+export type CreatePaymentRunRequest = z.infer<typeof createPaymentRunRequestSchema>;
+
+// One bank transfer in a payment run: all of a supplier's bills in one currency
+export type PaymentRunGroup = {
+  supplierId: string;
+  supplierName: string;
+  bankName: string | null;
+  iban: string | null;
+  swiftCode: string | null;
+  currency: string;
+  amount: number;
+  bills: Array<{ lineId: string; billId: string; billNumber: string; dueDate: string | null; amount: number }>;
+};
+
+export type PaymentRunDetail = PaymentRun & {
+  groups: PaymentRunGroup[];
+  totalsByCurrency: Record<string, number>;
+};
+
+export type InsertBankAccount = z.infer<typeof insertBankAccountSchema>;
+export type BankAccount = typeof bankAccounts.$inferSelect;
+export type BankStatement = typeof bankStatements.$inferSelect;
+export type BankStatementLine = typeof bankStatementLines.$inferSelect;
+export type BankReconciliation = typeof bankReconciliations.$inferSelect;
+
+// Statement file upload - the client sends the file's text content
+export const importBankStatementRequestSchema = z.object({
+  bankAccountId: z.string().min(1, "Bank account is required"),
+  format: z.enum(['csv', 'mt940', 'camt053']),
+  fileName: z.string().optional(),
+  content: z.string().min(1, "Statement file is empty"),
+});
+
+export type ImportBankStatementRequest = z.infer<typeof importBankStatementRequestSchema>;
+
+export const matchBankStatementLineRequestSchema = z.object({
+  receiptId: z.string().optional(),
+  supplierPaymentId: z.string().optional(),
+}).refine(match => !!match.receiptId !== !!match.supplierPaymentId, {
+  message: "Match the line to either a receipt or a supplier payment",
+});
+
+export type MatchBankStatementLineRequest = z.infer<typeof matchBankStatementLineRequestSchema>;
+
+// Receipt for money received that nobody keyed in yet; optionally applied to an invoice
+export const createReceiptFromBankLineRequestSchema = z.object({
+  customerId: z.string().min(1, "Customer is required"),
+  invoiceId: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+export type CreateReceiptFromBankLineRequest = z.infer<typeof createReceiptFromBankLineRequestSchema>;
+
+export const closeBankReconciliationRequestSchema = z.object({
+  bankAccountId: z.string().min(1, "Bank account is required"),
+  periodEnd: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Period end must be YYYY-MM-DD"),
+  statementBalance: z.number().optional(),
+  notes: z.string().optional(),
+});
+
+export type CloseBankReconciliationRequest = z.infer<typeof closeBankReconciliationRequestSchema>;
+
+export type BankStatementImportResult = {
+  statement: BankStatement;
+  imported: number;
+  duplicates: number;
+  skippedReconciled: number; // lines dated inside an already closed period
+  autoMatched: number;
+};
+
+export type BankStatementLineWithMatch = BankStatementLine & {
+  receipt?: Receipt & { customerName: string };
+  supplierPayment?: SupplierPayment & { supplierName: string };
+};
+
+// Open receipts or supplier payments a statement line could be matched to, best first
+export type BankLineMatchCandidate = {
+  kind: 'receipt' | 'supplier_payment';
+  id: string;
+  documentNumber: string;
+  partyName: string;
+  amount: number;
+  currency: string;
+  date: string;
+  reference: string | null;
+  referenceMatched: boolean;
+  daysApart: number;
+};
+
+// Manual journal entry - debits must equal credits
+export const createJournalEntryRequestSchema = z.object({
+  entryDate: z.string().min(1, "Entry date is required"),
+  description: z.string().min(1, "Description is required"),
+  post: z.boolean().default(false), // post immediately instead of saving a draft
+  lines: z.array(z.object({
+    accountId: z.string().min(1, "Account is required"),
+    debit: z.number().min(0).default(0),
+    credit: z.number().min(0).default(0),
+    description: z.string().optional(),
+    customerId: z.string().optional(),
+    supplierId: z.string().optional(),
+  })).min(2, "A journal entry needs at least two lines"),
+});
+
+export type CreateJournalEntryRequest = z.infer<typeof createJournalEntryRequestSchema>;
+
+export type TrialBalanceRow = {
+  accountId: string;
+  code: string;
+  name: string;
+  accountType: GlAccount['accountType'];
+  debit: number;
+  credit: number;
+  balance: number; // debit minus credit
+};
+
+export type TrialBalance = {
+  from?: string;
+  to?: string;
+  rows: TrialBalanceRow[];
+  totalDebit: number;
+  totalCredit: number;
+  isBalanced: boolean;
+};
+
+// Saved report schedule - stored in savedReports.scheduleConfig
+export const reportScheduleConfigSchema = z.object({
+  cron: z.string().min(1, "Cron expression is required"), // minute hour day-of-month month day-of-week
+  utcOffsetMinutes: z.number().int().min(-720).max(840).default(60), // Angola (WAT) is UTC+1
+  format: z.enum(['csv', 'excel', 'pdf']).default('excel'),
+  recipients: z.array(z.string().email()).default([]),
+  subject: z.string().optional(),
+});
+
+export type ReportScheduleConfig = z.infer<typeof reportScheduleConfigSchema>;
+
+// System setting write request - key comes from the URL
+export const upsertSystemSettingRequestSchema = z.object({
+  value: z.string().nullable(),
+  category: z.enum(['ai', 'general', 'feature_flags', 'integrations', 'security', 'finance']).optional(),
+  description: z.string().optional(),
+  isPublic: z.boolean().optional(),
+  isEncrypted: z.boolean().optional(),
+});
+
+export type UpsertSystemSettingRequest = z.infer<typeof upsertSystemSettingRequestSchema>;
 
 // Regulatory Compliance Types
 export type InsertLicense = z.infer<typeof insertLicenseSchema>;
@@ -2805,6 +4782,8 @@ export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertRecallNotice = z.infer<typeof insertRecallNoticeSchema>;
 export type RecallNotice = typeof recallNotices.$inferSelect;
+export type InsertRecallReturn = z.infer<typeof insertRecallReturnSchema>;
+export type RecallReturn = typeof recallReturns.$inferSelect;
 
 // Purchase Module Types
 export type InsertPurchaseRequest = z.infer<typeof insertPurchaseRequestSchema>;
@@ -2876,10 +4855,129 @@ export const createPosSaleRequestSchema = z.object({
     bankName: z.string().optional(),
     referenceNumber: z.string().optional(),
   })).min(1),
-  taxRate: z.number().min(0).max(100).optional(),
   discountAmount: z.number().min(0).optional(),
 });
 
+// Inventory transfer request schemas
+export const createTransferOrderRequestSchema = z.object({
+  sourceWarehouseId: z.string().min(1, "Source warehouse is required"),
+  destinationWarehouseId: z.string().min(1, "Destination warehouse is required"),
+  expectedArrivalDate: z.string().optional(),
+  carrier: z.string().optional(),
+  notes: z.string().optional(),
+  items: z.array(z.object({
+    productId: z.string().min(1, "Product is required"),
+    inventoryId: z.string().optional(), // specific batch; FEFO across source batches when omitted
+    quantity: z.number().int().min(1, "Quantity must be at least 1 unit"),
+  })).min(1, "At least one item is required"),
+}).refine(
+  (data) => data.sourceWarehouseId !== data.destinationWarehouseId,
+  { message: "Source and destination warehouses must differ", path: ["destinationWarehouseId"] }
+);
+
+export const receiveTransferOrderRequestSchema = z.object({
+  items: z.array(z.object({
+    itemId: z.string().min(1),
+    quantity: z.number().int().min(1, "Received quantity must be at least 1 unit"),
+  })).min(1, "At least one received line is required"),
+  notes: z.string().optional(),
+});
+
+// Stock count request schemas
+export const createStockCountRequestSchema = z.object({
+  warehouseId: z.string().min(1, "Warehouse is required"),
+  countType: z.enum(['full', 'partial', 'cycle']).default('full'),
+  countDate: z.string().optional(), // today when omitted
+  isBlind: z.boolean().default(true),
+  productIds: z.array(z.string().min(1)).default([]), // ignored for full counts
+  notes: z.string().optional(),
+}).refine(
+  (data) => data.countType === 'full' || data.productIds.length > 0,
+  { message: "Partial and cycle counts need at least one product", path: ["productIds"] }
+);
+
+export const recordStockCountRequestSchema = z.object({
+  lines: z.array(z.object({
+    lineId: z.string().min(1),
+    countedQuantity: z.number().int().min(0, "Counted quantity cannot be negative"),
+    notes: z.string().optional(),
+  })).min(1, "At least one counted line is required"),
+});
+
+export const reviewStockCountLineRequestSchema = z.object({
+  decision: z.enum(['approved', 'rejected']),
+  comment: z.string().optional(),
+});
+
+// Sales shipment request schema
+export const createShipmentRequestSchema = z.object({
+  warehouseId: z.string().optional(), // defaults to the single warehouse holding the order's reserved stock
+  shipDate: z.string().optional(),
+  carrier: z.string().optional(),
+  trackingNumber: z.string().optional(),
+  notes: z.string().optional(),
+  lines: z.array(z.object({
+    salesOrderItemId: z.string().min(1),
+    quantity: z.number().int().min(1, "Shipped quantity must be at least 1 unit"),
+  })).min(1, "At least one line is required").optional(), // everything shippable when omitted
+});
+
+// Recall return request schema
+export const recordRecallReturnRequestSchema = z.object({
+  inventoryId: z.string().min(1, "Recalled batch is required"),
+  warehouseId: z.string().min(1, "Receiving warehouse is required"),
+  quantity: z.number().int().min(1, "Returned quantity must be at least 1 unit"),
+  customerId: z.string().optional(),
+  salesOrderId: z.string().optional(),
+  posReceiptId: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+export type CreateTransferOrderRequest = z.infer<typeof createTransferOrderRequestSchema>;
+export type ReceiveTransferOrderRequest = z.infer<typeof receiveTransferOrderRequestSchema>;
+export type CreateStockCountRequest = z.infer<typeof createStockCountRequestSchema>;
+export type RecordStockCountRequest = z.infer<typeof recordStockCountRequestSchema>;
+export type ReviewStockCountLineRequest = z.infer<typeof reviewStockCountLineRequestSchema>;
+
+export type StockCountSummary = StockCount & {
+  warehouseName: string;
+  lineCount: number;
+  countedLines: number;
+  pendingApprovals: number;
+  varianceValue: number; // base currency, net of gains and losses
+};
+
+// Book quantities are null on a blind count until it is submitted
+export type StockCountDetail = StockCount & {
+  warehouseName: string;
+  baseCurrency: string;
+  approvalThreshold: number;
+  lines: Array<Omit<StockCountLine, 'bookQuantity'> & { bookQuantity: number | null; sku: string; productName: string }>;
+};
+
+export type AbcClass = 'A' | 'B' | 'C';
+
+export interface CycleCountScheduleLine {
+  productId: string;
+  sku: string;
+  productName: string;
+  abcClass: AbcClass;
+  annualUsageValue: number; // cost of the units sold over the last year
+  lastCountedAt: string | null;
+  dueDate: string | null; // null when never counted
+}
+
+export interface CycleCountSchedule {
+  weekStart: string;
+  weekEnd: string;
+  warehouseId: string | null;
+  intervalWeeks: Record<AbcClass, number>;
+  classCounts: Record<AbcClass, number>;
+  products: CycleCountScheduleLine[];
+}
+export type RecordRecallReturnRequest = z.infer<typeof recordRecallReturnRequestSchema>;
+export type CreateShipmentRequest = z.infer<typeof createShipmentRequestSchema>;
+
 // POS Request Types
 export type OpenSessionRequest = z.infer<typeof openSessionRequestSchema>;
 export type CloseSessionRequest = z.infer<typeof closeSessionRequestSchema>;